@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "AIFeedbackRating" AS ENUM ('HELPFUL', 'NOT_HELPFUL');
+
+-- AlterTable
+ALTER TABLE "AIMessage" ADD COLUMN "feature" TEXT,
+ADD COLUMN "provider" TEXT,
+ADD COLUMN "latencyMs" INTEGER,
+ADD COLUMN "feedbackRating" "AIFeedbackRating",
+ADD COLUMN "feedbackComment" TEXT,
+ADD COLUMN "feedbackAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "AIMessage_feature_idx" ON "AIMessage"("feature");
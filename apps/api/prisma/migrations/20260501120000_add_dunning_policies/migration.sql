@@ -0,0 +1,86 @@
+-- CreateEnum
+CREATE TYPE "DunningAction" AS ENUM ('EMAIL_REMINDER', 'WHATSAPP_REMINDER', 'SUSPEND_TENANT', 'CANCEL_SUBSCRIPTION');
+
+-- CreateEnum
+CREATE TYPE "DunningEventStatus" AS ENUM ('SUCCESS', 'FAILED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "DunningPolicy" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "planId" TEXT,
+    "product" "ProductType",
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "DunningPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DunningStep" (
+    "id" TEXT NOT NULL,
+    "policyId" TEXT NOT NULL,
+    "dayOffset" INTEGER NOT NULL,
+    "action" "DunningAction" NOT NULL,
+    "message" TEXT,
+
+    CONSTRAINT "DunningStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DunningEvent" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "subscriptionId" TEXT,
+    "financeTransactionId" TEXT NOT NULL,
+    "stepId" TEXT,
+    "action" "DunningAction" NOT NULL,
+    "dayOffset" INTEGER NOT NULL,
+    "daysOverdue" INTEGER NOT NULL,
+    "status" "DunningEventStatus" NOT NULL,
+    "detail" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "DunningEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DunningPolicy_planId_key" ON "DunningPolicy"("planId");
+
+-- CreateIndex
+CREATE INDEX "DunningPolicy_product_idx" ON "DunningPolicy"("product");
+
+-- CreateIndex
+CREATE INDEX "DunningStep_policyId_idx" ON "DunningStep"("policyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DunningStep_policyId_dayOffset_action_key" ON "DunningStep"("policyId", "dayOffset", "action");
+
+-- CreateIndex
+CREATE INDEX "DunningEvent_clientId_idx" ON "DunningEvent"("clientId");
+
+-- CreateIndex
+CREATE INDEX "DunningEvent_createdAt_idx" ON "DunningEvent"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DunningEvent_financeTransactionId_action_dayOffset_key" ON "DunningEvent"("financeTransactionId", "action", "dayOffset");
+
+-- AddForeignKey
+ALTER TABLE "DunningPolicy" ADD CONSTRAINT "DunningPolicy_planId_fkey" FOREIGN KEY ("planId") REFERENCES "Plan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DunningStep" ADD CONSTRAINT "DunningStep_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "DunningPolicy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DunningEvent" ADD CONSTRAINT "DunningEvent_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DunningEvent" ADD CONSTRAINT "DunningEvent_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "Subscription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DunningEvent" ADD CONSTRAINT "DunningEvent_financeTransactionId_fkey" FOREIGN KEY ("financeTransactionId") REFERENCES "finance_transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DunningEvent" ADD CONSTRAINT "DunningEvent_stepId_fkey" FOREIGN KEY ("stepId") REFERENCES "DunningStep"("id") ON DELETE SET NULL ON UPDATE CASCADE;
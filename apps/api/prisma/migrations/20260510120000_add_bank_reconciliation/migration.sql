@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "BankStatementFormat" AS ENUM ('OFX', 'CNAB240', 'CNAB400');
+
+-- CreateEnum
+CREATE TYPE "BankEntryStatus" AS ENUM ('UNMATCHED', 'SUGGESTED', 'CONFIRMED', 'IGNORED');
+
+-- CreateTable
+CREATE TABLE "BankStatementImport" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "format" "BankStatementFormat" NOT NULL,
+    "bankCode" TEXT,
+    "periodStart" DATE,
+    "periodEnd" DATE,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BankStatementImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BankStatementEntry" (
+    "id" TEXT NOT NULL,
+    "importId" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "externalId" TEXT,
+    "documentNumber" TEXT,
+    "date" DATE NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "description" VARCHAR(300) NOT NULL,
+    "payerDocument" TEXT,
+    "payerName" TEXT,
+    "status" "BankEntryStatus" NOT NULL DEFAULT 'UNMATCHED',
+    "matchScore" INTEGER,
+    "financeTransactionId" TEXT,
+    "paymentId" TEXT,
+    "confirmedAt" TIMESTAMPTZ,
+    "confirmedBy" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "BankStatementEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BankStatementImport_createdAt_idx" ON "BankStatementImport"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "BankStatementEntry_importId_idx" ON "BankStatementEntry"("importId");
+
+-- CreateIndex
+CREATE INDEX "BankStatementEntry_fingerprint_idx" ON "BankStatementEntry"("fingerprint");
+
+-- CreateIndex
+CREATE INDEX "BankStatementEntry_status_idx" ON "BankStatementEntry"("status");
+
+-- AddForeignKey
+ALTER TABLE "BankStatementImport" ADD CONSTRAINT "BankStatementImport_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementEntry" ADD CONSTRAINT "BankStatementEntry_importId_fkey" FOREIGN KEY ("importId") REFERENCES "BankStatementImport"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementEntry" ADD CONSTRAINT "BankStatementEntry_financeTransactionId_fkey" FOREIGN KEY ("financeTransactionId") REFERENCES "finance_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementEntry" ADD CONSTRAINT "BankStatementEntry_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
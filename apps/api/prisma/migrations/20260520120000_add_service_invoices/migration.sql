@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "NfseProvider" AS ENUM ('FOCUS_NFE', 'FAKE');
+
+-- CreateEnum
+CREATE TYPE "ServiceInvoiceStatus" AS ENUM ('PENDING', 'PROCESSING', 'ISSUED', 'FAILED', 'CANCELLING', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "ServiceInvoice" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "provider" "NfseProvider" NOT NULL,
+    "status" "ServiceInvoiceStatus" NOT NULL DEFAULT 'PENDING',
+    "amount" DECIMAL(10,2) NOT NULL,
+    "serviceDescription" TEXT NOT NULL,
+    "rpsNumber" TEXT,
+    "rpsSeries" TEXT,
+    "number" TEXT,
+    "verificationCode" TEXT,
+    "xml" TEXT,
+    "pdfUrl" TEXT,
+    "issuedAt" TIMESTAMPTZ,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMPTZ,
+    "lastError" TEXT,
+    "cancelReason" VARCHAR(255),
+    "cancelledAt" TIMESTAMPTZ,
+    "providerData" JSONB,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "ServiceInvoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ServiceInvoice_paymentId_key" ON "ServiceInvoice"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "ServiceInvoice_clientId_idx" ON "ServiceInvoice"("clientId");
+
+-- CreateIndex
+CREATE INDEX "ServiceInvoice_status_nextAttemptAt_idx" ON "ServiceInvoice"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "ServiceInvoice_number_idx" ON "ServiceInvoice"("number");
+
+-- AddForeignKey
+ALTER TABLE "ServiceInvoice" ADD CONSTRAINT "ServiceInvoice_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ServiceInvoice" ADD CONSTRAINT "ServiceInvoice_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE CASCADE ON UPDATE CASCADE;
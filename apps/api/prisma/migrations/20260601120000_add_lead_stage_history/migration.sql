@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "LeadStageHistory" (
+    "id" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "fromStageId" TEXT,
+    "toStageId" TEXT NOT NULL,
+    "changedById" TEXT,
+    "timeInStageSeconds" INTEGER,
+    "changedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LeadStageHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeadStageHistory_leadId_changedAt_idx" ON "LeadStageHistory"("leadId", "changedAt");
+
+-- CreateIndex
+CREATE INDEX "LeadStageHistory_fromStageId_idx" ON "LeadStageHistory"("fromStageId");
+
+-- CreateIndex
+CREATE INDEX "LeadStageHistory_toStageId_idx" ON "LeadStageHistory"("toStageId");
+
+-- CreateIndex
+CREATE INDEX "LeadStageHistory_changedAt_idx" ON "LeadStageHistory"("changedAt");
+
+-- AddForeignKey
+ALTER TABLE "LeadStageHistory" ADD CONSTRAINT "LeadStageHistory_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadStageHistory" ADD CONSTRAINT "LeadStageHistory_fromStageId_fkey" FOREIGN KEY ("fromStageId") REFERENCES "FunnelStage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadStageHistory" ADD CONSTRAINT "LeadStageHistory_toStageId_fkey" FOREIGN KEY ("toStageId") REFERENCES "FunnelStage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadStageHistory" ADD CONSTRAINT "LeadStageHistory_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: entrada no estágio atual para leads existentes (base do tempo no estágio)
+INSERT INTO "LeadStageHistory" ("id", "leadId", "fromStageId", "toStageId", "changedById", "changedAt")
+SELECT 'bf' || md5("id"), "id", NULL, "stageId", NULL, "createdAt"
+FROM "Lead";
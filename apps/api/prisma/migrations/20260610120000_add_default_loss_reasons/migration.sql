@@ -0,0 +1,18 @@
+-- Motivos de perda padrão (antes fixos no frontend)
+INSERT INTO "LossReason" ("id", "name", "isActive", "createdAt", "updatedAt") VALUES
+    ('loss-preco-elevado', 'Preço muito elevado', true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+    ('loss-falta-funcionalidades', 'Falta de funcionalidades chave', true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+    ('loss-concorrente', 'Escolheu o concorrente', true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+    ('loss-projeto-adiado', 'Projeto cancelado/adiado', true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+    ('loss-sem-retorno', 'Sem retorno do lead', true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+    ('loss-sem-perfil', 'Lead sem perfil (Qualificação)', true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+    ('loss-outros', 'Outros', true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+ON CONFLICT ("name") DO NOTHING;
+
+-- Backfill: leads marcados como perdidos pelo Kanban gravavam o motivo nas notas
+UPDATE "Lead" AS l
+SET "lossReasonId" = r."id"
+FROM "LossReason" AS r
+WHERE l."status" = 'PERDIDO'
+  AND l."lossReasonId" IS NULL
+  AND l."notes" LIKE 'MARCADO COMO PERDIDO. Motivo: ' || r."name" || '%';
@@ -0,0 +1,80 @@
+-- CreateEnum
+CREATE TYPE "AssignmentStrategy" AS ENUM ('ROUND_ROBIN', 'LEAST_LOADED');
+
+-- CreateEnum
+CREATE TYPE "LeadEntrySource" AS ENUM ('MANUAL', 'FORM', 'LANDING_PAGE', 'PARTNER_API', 'CHAT_NEXUS');
+
+-- CreateEnum
+CREATE TYPE "AssignmentReason" AS ENUM ('RULE', 'EXPLICIT', 'FALLBACK', 'MANUAL_REASSIGN', 'SLA_BREACH');
+
+-- AlterEnum
+ALTER TYPE "VendorAssignmentMode" ADD VALUE 'RULES';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "maxOpenLeads" INTEGER,
+ADD COLUMN     "absentFrom" TIMESTAMPTZ,
+ADD COLUMN     "absentUntil" TIMESTAMPTZ;
+
+-- CreateTable
+CREATE TABLE "LeadAssignmentRule" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "productType" "ProductType",
+    "states" TEXT[],
+    "cities" TEXT[],
+    "originIds" TEXT[],
+    "minUnits" INTEGER,
+    "maxUnits" INTEGER,
+    "weekdays" INTEGER[],
+    "startTime" VARCHAR(5),
+    "endTime" VARCHAR(5),
+    "vendedorIds" TEXT[],
+    "strategy" "AssignmentStrategy" NOT NULL DEFAULT 'ROUND_ROBIN',
+    "roundRobinIndex" INTEGER NOT NULL DEFAULT 0,
+    "slaReassignMinutes" INTEGER,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "LeadAssignmentRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LeadAssignmentLog" (
+    "id" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "ruleId" TEXT,
+    "fromVendedorId" TEXT,
+    "toVendedorId" TEXT,
+    "source" "LeadEntrySource" NOT NULL,
+    "reason" "AssignmentReason" NOT NULL,
+    "details" VARCHAR(300),
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LeadAssignmentLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeadAssignmentRule_isActive_priority_idx" ON "LeadAssignmentRule"("isActive", "priority");
+
+-- CreateIndex
+CREATE INDEX "LeadAssignmentLog_leadId_createdAt_idx" ON "LeadAssignmentLog"("leadId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LeadAssignmentLog_ruleId_idx" ON "LeadAssignmentLog"("ruleId");
+
+-- CreateIndex
+CREATE INDEX "LeadAssignmentLog_createdAt_idx" ON "LeadAssignmentLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "LeadAssignmentLog" ADD CONSTRAINT "LeadAssignmentLog_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadAssignmentLog" ADD CONSTRAINT "LeadAssignmentLog_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "LeadAssignmentRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadAssignmentLog" ADD CONSTRAINT "LeadAssignmentLog_fromVendedorId_fkey" FOREIGN KEY ("fromVendedorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadAssignmentLog" ADD CONSTRAINT "LeadAssignmentLog_toVendedorId_fkey" FOREIGN KEY ("toVendedorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "LeadSlaType" AS ENUM ('FIRST_CONTACT', 'FOLLOW_UP');
+
+-- CreateEnum
+CREATE TYPE "LeadSlaStatus" AS ENUM ('PENDING', 'MET', 'BREACHED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'LEAD_SLA_BREACH';
+ALTER TYPE "NotificationType" ADD VALUE 'LEAD_SLA_ESCALATED';
+
+-- CreateTable
+CREATE TABLE "LeadSlaPolicy" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "type" "LeadSlaType" NOT NULL,
+    "stageId" TEXT,
+    "productType" "ProductType",
+    "targetMinutes" INTEGER NOT NULL,
+    "escalateAfterMinutes" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "LeadSlaPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LeadSlaRecord" (
+    "id" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "policyId" TEXT NOT NULL,
+    "vendedorId" TEXT,
+    "status" "LeadSlaStatus" NOT NULL DEFAULT 'PENDING',
+    "startedAt" TIMESTAMPTZ NOT NULL,
+    "dueAt" TIMESTAMPTZ NOT NULL,
+    "metAt" TIMESTAMPTZ,
+    "breachedAt" TIMESTAMPTZ,
+    "escalatedAt" TIMESTAMPTZ,
+    "escalatedToId" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LeadSlaRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeadSlaPolicy_isActive_type_idx" ON "LeadSlaPolicy"("isActive", "type");
+
+-- CreateIndex
+CREATE INDEX "LeadSlaRecord_policyId_leadId_idx" ON "LeadSlaRecord"("policyId", "leadId");
+
+-- CreateIndex
+CREATE INDEX "LeadSlaRecord_status_dueAt_idx" ON "LeadSlaRecord"("status", "dueAt");
+
+-- CreateIndex
+CREATE INDEX "LeadSlaRecord_vendedorId_dueAt_idx" ON "LeadSlaRecord"("vendedorId", "dueAt");
+
+-- AddForeignKey
+ALTER TABLE "LeadSlaPolicy" ADD CONSTRAINT "LeadSlaPolicy_stageId_fkey" FOREIGN KEY ("stageId") REFERENCES "FunnelStage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadSlaRecord" ADD CONSTRAINT "LeadSlaRecord_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadSlaRecord" ADD CONSTRAINT "LeadSlaRecord_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "LeadSlaPolicy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadSlaRecord" ADD CONSTRAINT "LeadSlaRecord_vendedorId_fkey" FOREIGN KEY ("vendedorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadSlaRecord" ADD CONSTRAINT "LeadSlaRecord_escalatedToId_fkey" FOREIGN KEY ("escalatedToId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
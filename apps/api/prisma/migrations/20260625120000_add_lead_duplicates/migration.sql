@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "LeadDuplicateMatch" AS ENUM ('EMAIL', 'PHONE', 'CNPJ', 'COMPANY_NAME');
+
+-- CreateEnum
+CREATE TYPE "LeadDuplicateStatus" AS ENUM ('PENDING', 'DISMISSED');
+
+-- AlterTable
+ALTER TABLE "Lead" ADD COLUMN "duplicateCheckedAt" TIMESTAMPTZ;
+
+-- DropIndex (um lead mesclado passa a concentrar várias submissões)
+DROP INDEX "FormSubmission_leadId_key";
+
+-- CreateTable
+CREATE TABLE "LeadDuplicateCandidate" (
+    "id" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "duplicateOfId" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "reasons" "LeadDuplicateMatch"[],
+    "status" "LeadDuplicateStatus" NOT NULL DEFAULT 'PENDING',
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMPTZ,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LeadDuplicateCandidate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Lead_duplicateCheckedAt_idx" ON "Lead"("duplicateCheckedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeadDuplicateCandidate_leadId_duplicateOfId_key" ON "LeadDuplicateCandidate"("leadId", "duplicateOfId");
+
+-- CreateIndex
+CREATE INDEX "LeadDuplicateCandidate_status_score_idx" ON "LeadDuplicateCandidate"("status", "score");
+
+-- CreateIndex
+CREATE INDEX "LeadDuplicateCandidate_duplicateOfId_idx" ON "LeadDuplicateCandidate"("duplicateOfId");
+
+-- AddForeignKey
+ALTER TABLE "LeadDuplicateCandidate" ADD CONSTRAINT "LeadDuplicateCandidate_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadDuplicateCandidate" ADD CONSTRAINT "LeadDuplicateCandidate_duplicateOfId_fkey" FOREIGN KEY ("duplicateOfId") REFERENCES "Lead"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeadDuplicateCandidate" ADD CONSTRAINT "LeadDuplicateCandidate_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterEnum
+ALTER TYPE "LeadEntrySource" ADD VALUE 'IMPORT';
+
+-- CreateEnum
+CREATE TYPE "LeadImportStatus" AS ENUM ('PENDING', 'COMPLETED');
+
+-- CreateTable
+CREATE TABLE "LeadImport" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "format" VARCHAR(4) NOT NULL,
+    "headers" TEXT[],
+    "rows" JSONB NOT NULL,
+    "totalRows" INTEGER NOT NULL,
+    "mapping" JSONB,
+    "status" "LeadImportStatus" NOT NULL DEFAULT 'PENDING',
+    "createdCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMPTZ,
+
+    CONSTRAINT "LeadImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeadImport_createdAt_idx" ON "LeadImport"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "LeadImport" ADD CONSTRAINT "LeadImport_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
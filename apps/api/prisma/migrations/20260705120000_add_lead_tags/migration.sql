@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Lead" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "Lead_tags_idx" ON "Lead" USING GIN ("tags");
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "CustomFieldEntity" AS ENUM ('LEAD', 'CLIENT');
+
+-- CreateEnum
+CREATE TYPE "CustomFieldType" AS ENUM ('TEXT', 'NUMBER', 'SELECT', 'DATE');
+
+-- AlterTable
+ALTER TABLE "Lead" ADD COLUMN "customFields" JSONB NOT NULL DEFAULT '{}';
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "customFields" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "CustomFieldDef" (
+    "id" TEXT NOT NULL,
+    "entity" "CustomFieldEntity" NOT NULL,
+    "key" VARCHAR(50) NOT NULL,
+    "label" VARCHAR(80) NOT NULL,
+    "type" "CustomFieldType" NOT NULL,
+    "options" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "CustomFieldDef_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Client_tags_idx" ON "Client" USING GIN ("tags");
+
+-- CreateIndex
+CREATE INDEX "CustomFieldDef_entity_isActive_idx" ON "CustomFieldDef"("entity", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomFieldDef_entity_key_key" ON "CustomFieldDef"("entity", "key");
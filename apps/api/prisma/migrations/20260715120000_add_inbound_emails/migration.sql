@@ -0,0 +1,82 @@
+-- AlterEnum
+ALTER TYPE "LeadEntrySource" ADD VALUE 'EMAIL';
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'LEAD_EMAIL_RECEIVED';
+
+-- CreateEnum
+CREATE TYPE "InteractionDirection" AS ENUM ('OUTBOUND', 'INBOUND');
+
+-- CreateEnum
+CREATE TYPE "InboundEmailStatus" AS ENUM ('LEAD_CREATED', 'LEAD_THREADED', 'CLIENT_THREADED', 'IGNORED');
+
+-- AlterTable
+ALTER TABLE "Interaction" ADD COLUMN "direction" "InteractionDirection" NOT NULL DEFAULT 'OUTBOUND';
+
+-- CreateTable
+CREATE TABLE "InboundEmail" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "inReplyTo" TEXT,
+    "references" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "fromEmail" TEXT NOT NULL,
+    "fromName" TEXT,
+    "toAddresses" TEXT[],
+    "subject" TEXT NOT NULL,
+    "textBody" TEXT NOT NULL,
+    "sentAt" TIMESTAMPTZ,
+    "status" "InboundEmailStatus" NOT NULL,
+    "ignoredReason" TEXT,
+    "leadId" TEXT,
+    "clientId" TEXT,
+    "interactionId" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InboundEmail_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EmailAttachment" (
+    "id" TEXT NOT NULL,
+    "inboundEmailId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "content" BYTEA NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InboundEmail_messageId_key" ON "InboundEmail"("messageId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InboundEmail_interactionId_key" ON "InboundEmail"("interactionId");
+
+-- CreateIndex
+CREATE INDEX "InboundEmail_fromEmail_idx" ON "InboundEmail"("fromEmail");
+
+-- CreateIndex
+CREATE INDEX "InboundEmail_leadId_idx" ON "InboundEmail"("leadId");
+
+-- CreateIndex
+CREATE INDEX "InboundEmail_clientId_idx" ON "InboundEmail"("clientId");
+
+-- CreateIndex
+CREATE INDEX "InboundEmail_createdAt_idx" ON "InboundEmail"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "EmailAttachment_inboundEmailId_idx" ON "EmailAttachment"("inboundEmailId");
+
+-- AddForeignKey
+ALTER TABLE "InboundEmail" ADD CONSTRAINT "InboundEmail_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InboundEmail" ADD CONSTRAINT "InboundEmail_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InboundEmail" ADD CONSTRAINT "InboundEmail_interactionId_fkey" FOREIGN KEY ("interactionId") REFERENCES "Interaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmailAttachment" ADD CONSTRAINT "EmailAttachment_inboundEmailId_fkey" FOREIGN KEY ("inboundEmailId") REFERENCES "InboundEmail"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,88 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'EMAIL_BOUNCED';
+
+-- CreateEnum
+CREATE TYPE "OutboundEmailStatus" AS ENUM ('SENT', 'FAILED', 'BOUNCED');
+
+-- CreateTable
+CREATE TABLE "EmailTemplate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "EmailTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OutboundEmail" (
+    "id" TEXT NOT NULL,
+    "leadId" TEXT,
+    "clientId" TEXT,
+    "templateId" TEXT,
+    "sentById" TEXT NOT NULL,
+    "interactionId" TEXT,
+    "toEmail" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "textBody" TEXT NOT NULL,
+    "messageId" TEXT,
+    "trackingToken" TEXT NOT NULL,
+    "links" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "status" "OutboundEmailStatus" NOT NULL DEFAULT 'SENT',
+    "error" TEXT,
+    "openCount" INTEGER NOT NULL DEFAULT 0,
+    "firstOpenedAt" TIMESTAMPTZ,
+    "lastOpenedAt" TIMESTAMPTZ,
+    "clickCount" INTEGER NOT NULL DEFAULT 0,
+    "lastClickedAt" TIMESTAMPTZ,
+    "bouncedAt" TIMESTAMPTZ,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OutboundEmail_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailTemplate_name_key" ON "EmailTemplate"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OutboundEmail_interactionId_key" ON "OutboundEmail"("interactionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OutboundEmail_messageId_key" ON "OutboundEmail"("messageId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OutboundEmail_trackingToken_key" ON "OutboundEmail"("trackingToken");
+
+-- CreateIndex
+CREATE INDEX "OutboundEmail_leadId_idx" ON "OutboundEmail"("leadId");
+
+-- CreateIndex
+CREATE INDEX "OutboundEmail_clientId_idx" ON "OutboundEmail"("clientId");
+
+-- CreateIndex
+CREATE INDEX "OutboundEmail_sentById_idx" ON "OutboundEmail"("sentById");
+
+-- CreateIndex
+CREATE INDEX "OutboundEmail_createdAt_idx" ON "OutboundEmail"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "EmailTemplate" ADD CONSTRAINT "EmailTemplate_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OutboundEmail" ADD CONSTRAINT "OutboundEmail_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OutboundEmail" ADD CONSTRAINT "OutboundEmail_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OutboundEmail" ADD CONSTRAINT "OutboundEmail_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "EmailTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OutboundEmail" ADD CONSTRAINT "OutboundEmail_sentById_fkey" FOREIGN KEY ("sentById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OutboundEmail" ADD CONSTRAINT "OutboundEmail_interactionId_fkey" FOREIGN KEY ("interactionId") REFERENCES "Interaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
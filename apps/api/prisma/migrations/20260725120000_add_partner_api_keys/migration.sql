@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "PartnerApiKey" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "secretHash" TEXT NOT NULL,
+    "secretHint" TEXT NOT NULL,
+    "scopes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "allowedIps" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "rateLimitPerMinute" INTEGER NOT NULL DEFAULT 60,
+    "expiresAt" TIMESTAMPTZ,
+    "lastUsedAt" TIMESTAMPTZ,
+    "lastUsedIp" TEXT,
+    "revokedAt" TIMESTAMPTZ,
+    "revokedById" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "PartnerApiKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PartnerApiRequestLog" (
+    "id" TEXT NOT NULL,
+    "apiKeyId" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "statusCode" INTEGER NOT NULL,
+    "durationMs" INTEGER NOT NULL,
+    "ip" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PartnerApiRequestLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PartnerApiKey_clientId_key" ON "PartnerApiKey"("clientId");
+
+-- CreateIndex
+CREATE INDEX "PartnerApiRequestLog_apiKeyId_createdAt_idx" ON "PartnerApiRequestLog"("apiKeyId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PartnerApiRequestLog_createdAt_idx" ON "PartnerApiRequestLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PartnerApiKey" ADD CONSTRAINT "PartnerApiKey_revokedById_fkey" FOREIGN KEY ("revokedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PartnerApiKey" ADD CONSTRAINT "PartnerApiKey_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PartnerApiRequestLog" ADD CONSTRAINT "PartnerApiRequestLog_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "PartnerApiKey"("id") ON DELETE CASCADE ON UPDATE CASCADE;
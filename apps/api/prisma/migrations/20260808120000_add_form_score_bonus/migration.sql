@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Lead" ADD COLUMN "formScoreBonus" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "FormEventType" AS ENUM ('VIEW', 'START');
+
+-- AlterTable
+ALTER TABLE "FormSubmission" ADD COLUMN     "sessionId" VARCHAR(64),
+ADD COLUMN     "source" VARCHAR(200),
+ADD COLUMN     "utmSource" VARCHAR(200),
+ADD COLUMN     "utmMedium" VARCHAR(200),
+ADD COLUMN     "utmCampaign" VARCHAR(200),
+ADD COLUMN     "utmTerm" VARCHAR(200),
+ADD COLUMN     "utmContent" VARCHAR(200),
+ADD COLUMN     "referrer" VARCHAR(500),
+ADD COLUMN     "gclid" VARCHAR(255),
+ADD COLUMN     "fbclid" VARCHAR(255);
+
+-- AlterTable
+ALTER TABLE "Lead" ADD COLUMN     "attribution" JSONB;
+
+-- CreateTable
+CREATE TABLE "FormEvent" (
+    "id" TEXT NOT NULL,
+    "formId" TEXT NOT NULL,
+    "type" "FormEventType" NOT NULL,
+    "sessionId" VARCHAR(64) NOT NULL,
+    "source" VARCHAR(200),
+    "utmMedium" VARCHAR(200),
+    "utmCampaign" VARCHAR(200),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FormEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FormSubmission_formId_source_idx" ON "FormSubmission"("formId", "source");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FormEvent_formId_sessionId_type_key" ON "FormEvent"("formId", "sessionId", "type");
+
+-- CreateIndex
+CREATE INDEX "FormEvent_formId_type_createdAt_idx" ON "FormEvent"("formId", "type", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "FormEvent" ADD CONSTRAINT "FormEvent_formId_fkey" FOREIGN KEY ("formId") REFERENCES "Form"("id") ON DELETE CASCADE ON UPDATE CASCADE;
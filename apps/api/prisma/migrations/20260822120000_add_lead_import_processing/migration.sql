@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "LeadImportStatus" ADD VALUE 'PROCESSING' BEFORE 'COMPLETED';
@@ -318,6 +318,31 @@ async function main() {
 
   console.log(`✅ Created 7 funnel stages`);
 
+  // ========================================================================
+  // LOSS REASONS - Motivos de Perda (mesmos IDs da migration)
+  // ========================================================================
+  console.log('📉 Creating loss reasons...');
+
+  const lossReasons = [
+    { id: 'loss-preco-elevado', name: 'Preço muito elevado' },
+    { id: 'loss-falta-funcionalidades', name: 'Falta de funcionalidades chave' },
+    { id: 'loss-concorrente', name: 'Escolheu o concorrente' },
+    { id: 'loss-projeto-adiado', name: 'Projeto cancelado/adiado' },
+    { id: 'loss-sem-retorno', name: 'Sem retorno do lead' },
+    { id: 'loss-sem-perfil', name: 'Lead sem perfil (Qualificação)' },
+    { id: 'loss-outros', name: 'Outros' },
+  ];
+
+  for (const reason of lossReasons) {
+    await prisma.lossReason.upsert({
+      where: { name: reason.name },
+      update: {},
+      create: { ...reason, isActive: true },
+    });
+  }
+
+  console.log(`✅ Created ${lossReasons.length} loss reasons`);
+
   // ========================================================================
   // CLIENTS - Clientes (mesmos do mock do frontend)
   // ========================================================================
@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+/**
+ * Servidor SMTP local para testar a caixa de captura (sem dependências)
+ *
+ * Recebe mensagens em localhost:2525 e encaminha cada uma, como MIME cru,
+ * para POST /webhooks/inbound-email — o mesmo caminho do servidor de e-mail
+ * em produção.
+ *
+ * Uso:
+ *   INBOUND_EMAIL_TOKEN=xxxxx node scripts/inbound-email-smtp.mjs
+ *   swaks --server localhost:2525 --to leads@nexusatemporal.com.br --from cliente@exemplo.com --attach proposta.pdf
+ *
+ * Variáveis: SMTP_PORT (2525), INBOUND_EMAIL_URL (http://localhost:3001/api/v1/webhooks/inbound-email)
+ */
+import net from 'node:net';
+
+const port = Number(process.env.SMTP_PORT ?? 2525);
+const url = process.env.INBOUND_EMAIL_URL ?? 'http://localhost:3001/api/v1/webhooks/inbound-email';
+const token = process.env.INBOUND_EMAIL_TOKEN;
+
+if (!token) {
+  console.error('❌ Defina INBOUND_EMAIL_TOKEN (o mesmo da API)');
+  process.exit(1);
+}
+
+async function forward(raw, recipients) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'message/rfc822',
+      'X-Inbound-Token': token,
+      'X-Envelope-To': recipients.join(','),
+    },
+    body: raw,
+  });
+  const body = await response.text();
+  if (!response.ok) throw new Error(`HTTP ${response.status}: ${body}`);
+  return body;
+}
+
+const server = net.createServer((socket) => {
+  let buffer = Buffer.alloc(0);
+  let inData = false;
+  let recipients = [];
+
+  const reply = (line) => socket.write(`${line}\r\n`);
+  reply('220 gestor-nexus inbound SMTP');
+
+  socket.on('data', async (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    while (buffer.length > 0) {
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+
+        // Remove o "dot-stuffing" (RFC 5321 §4.5.2)
+        const raw = buffer
+          .subarray(0, end + 2)
+          .toString('latin1')
+          .replace(/^\.\./gm, '.');
+        buffer = buffer.subarray(end + 5);
+        inData = false;
+
+        socket.pause();
+        try {
+          const result = await forward(Buffer.from(raw, 'latin1'), recipients);
+          console.log(`✅ Mensagem para ${recipients.join(', ')} → ${result}`);
+          reply('250 OK');
+        } catch (error) {
+          console.error(`❌ Falha ao encaminhar: ${error.message}`);
+          reply('451 Falha ao encaminhar para a API');
+        }
+        recipients = [];
+        socket.resume();
+        continue;
+      }
+
+      const newline = buffer.indexOf('\r\n');
+      if (newline === -1) return;
+      const line = buffer.subarray(0, newline).toString('utf-8');
+      buffer = buffer.subarray(newline + 2);
+      const command = line.slice(0, 4).toUpperCase();
+
+      if (command === 'EHLO' || command === 'HELO') reply('250 gestor-nexus');
+      else if (command === 'MAIL') { recipients = []; reply('250 OK'); }
+      else if (command === 'RCPT') {
+        const match = line.match(/<([^>]*)>/);
+        if (match) recipients.push(match[1]);
+        reply('250 OK');
+      }
+      else if (command === 'DATA') { inData = true; reply('354 Termine com <CRLF>.<CRLF>'); }
+      else if (command === 'RSET') { recipients = []; reply('250 OK'); }
+      else if (command === 'NOOP') reply('250 OK');
+      else if (command === 'QUIT') { reply('221 Até logo'); socket.end(); return; }
+      else reply('502 Comando não suportado');
+    }
+  });
+
+  socket.on('error', (error) => console.error(`Conexão encerrada: ${error.message}`));
+});
+
+server.listen(port, () => {
+  console.log(`📬 SMTP local em localhost:${port} → ${url}`);
+});
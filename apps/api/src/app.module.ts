@@ -2,13 +2,17 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
-import { APP_GUARD } from '@nestjs/core';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 
 // Prisma
 import { PrismaModule } from './prisma/prisma.module';
 
 // Guards globais
 import { RolesGuard } from './common/guards/roles.guard';
+import { PermissionGuard } from './common/guards/permission.guard';
+
+// Interceptors globais
+import { RequestContextInterceptor } from './common/interceptors/request-context.interceptor';
 
 // Módulos
 import { AuthModule } from './modules/auth/auth.module';
@@ -26,6 +30,16 @@ import { CalendarModule } from './modules/calendar/calendar.module';
 import { SalesAIModule } from './modules/sales-ai/sales-ai.module';
 import { AuditModule } from './modules/audit/audit.module';
 import { FunnelStagesModule } from './modules/funnel-stages/funnel-stages.module';
+import { LossReasonsModule } from './modules/loss-reasons/loss-reasons.module';
+import { LeadOriginsModule } from './modules/lead-origins/lead-origins.module';
+import { LeadAssignmentModule } from './modules/lead-assignment/lead-assignment.module';
+import { LeadSlaModule } from './modules/lead-sla/lead-sla.module';
+import { LeadImportsModule } from './modules/lead-imports/lead-imports.module';
+import { CustomFieldsModule } from './modules/custom-fields/custom-fields.module';
+import { InboundEmailModule } from './modules/inbound-email/inbound-email.module';
+import { OutboundEmailModule } from './modules/outbound-email/outbound-email.module';
+import { PartnerApiKeysModule } from './modules/partner-api-keys/partner-api-keys.module';
+import { OutboundWebhooksModule } from './modules/outbound-webhooks/outbound-webhooks.module';
 import { IntegrationsModule } from './modules/integrations/integrations.module';
 import { FinanceModule } from './modules/finance/finance.module';
 import { SubscriptionModule } from './modules/subscriptions/subscriptions.module';
@@ -34,6 +48,9 @@ import { NotificationsModule } from './modules/notifications/notifications.modul
 import { StatusConfigsModule } from './modules/status-configs/status-configs.module';
 import { FormsModule } from './modules/forms/forms.module';
 import { SearchModule } from './modules/search/search.module';
+import { DunningModule } from './modules/dunning/dunning.module';
+import { ReconciliationModule } from './modules/reconciliation/reconciliation.module';
+import { NfseModule } from './modules/nfse/nfse.module';
 
 /**
  * App Module - Módulo raiz da aplicação
@@ -41,6 +58,10 @@ import { SearchModule } from './modules/search/search.module';
  * GUARDS GLOBAIS:
  * 1. JwtAuthGuard - Verifica autenticação JWT em TODAS as rotas (exceto @Public()) [v2.54.0]
  * 2. RolesGuard - Verifica permissões baseado em @Roles()
+ * 3. PermissionGuard - Verifica permissões granulares (UserPermission) via @RequirePermission()
+ *
+ * INTERCEPTORS GLOBAIS:
+ * - RequestContextInterceptor - Propaga usuário/IP/user agent para a auditoria automática
  *
  * IMPORTANTE:
  * - PrismaModule é @Global(), disponível em toda aplicação
@@ -101,6 +122,19 @@ import { SearchModule } from './modules/search/search.module';
     StatusConfigsModule, // v2.60.0 - Status Configs CRUD
     FormsModule,         // v2.64.0 - Form Builder (captura de leads via LP/campanhas)
     SearchModule,        // v2.69.0 - Global Search (read-only, header search bar)
+    DunningModule,       // Régua de cobrança configurável (por plano/produto)
+    ReconciliationModule, // Conciliação bancária (OFX, CNAB 240/400)
+    NfseModule,          // NFS-e dos pagamentos confirmados (Focus NFe / fake)
+    LossReasonsModule,   // Motivos de perda de leads (CRUD em Configurações)
+    LeadOriginsModule,   // Origens de leads (CRUD em Configurações)
+    LeadAssignmentModule, // Regras de atribuição automática de leads (round-robin, capacidade, SLA)
+    LeadSlaModule, // SLAs de resposta a leads (primeiro contato/follow-up) com escalonamento ao gestor
+    LeadImportsModule, // Importação de leads em lote (CSV/XLSX) com mapeamento de colunas e pré-visualização
+    CustomFieldsModule, // Campos personalizados e etiquetas de leads e clientes (definidos em Configurações)
+    InboundEmailModule, // Caixa de captura: e-mails recebidos viram leads ou interações (com anexos)
+    OutboundEmailModule, // E-mails do CRM para leads/clientes: modelos, rastreamento de abertura/clique e bounce
+    PartnerApiKeysModule, // Chaves da Partner API: escopos, allowlist de IP, limite por chave e log de uso
+    OutboundWebhooksModule, // Webhooks de saída: eventos do CRM assinados (HMAC) com reenvio e log de entregas
   ],
   providers: [
     // ══════════════════════════════════════════════════════════════════════════
@@ -116,7 +150,19 @@ import { SearchModule } from './modules/search/search.module';
     },
     {
       provide: APP_GUARD,
-      useClass: ThrottlerGuard, // 3º - Rate limiting
+      useClass: PermissionGuard, // 3º - Permissões granulares por módulo
+    },
+    {
+      provide: APP_GUARD,
+      useClass: ThrottlerGuard, // 4º - Rate limiting
+    },
+
+    // ══════════════════════════════════════════════════════════════════════════
+    // INTERCEPTORS GLOBAIS
+    // ══════════════════════════════════════════════════════════════════════════
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: RequestContextInterceptor, // Contexto para AuditLog automático
     },
   ],
 })
@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Contexto da requisição HTTP atual
+ * Propagado via AsyncLocalStorage para camadas sem acesso ao request
+ * (ex: middleware de auditoria do PrismaService)
+ */
+export interface RequestContextStore {
+  userId: string | null; // null = sistema (crons, webhooks)
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+const storage = new AsyncLocalStorage<RequestContextStore>();
+
+export const RequestContext = {
+  /**
+   * Executa fn dentro do contexto informado
+   */
+  run<T>(store: RequestContextStore, fn: () => T): T {
+    return storage.run(store, fn);
+  },
+
+  /**
+   * Contexto atual (undefined fora de uma requisição HTTP)
+   */
+  get(): RequestContextStore | undefined {
+    return storage.getStore();
+  },
+};
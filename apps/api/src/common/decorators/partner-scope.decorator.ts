@@ -0,0 +1,35 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const PARTNER_SCOPE_KEY = 'partnerScopes';
+
+/** Escopos concedidos às chaves da Partner API */
+export const PARTNER_API_SCOPES = [
+  { scope: 'leads:read', description: 'Consultar leads, estágios do funil e linha do tempo' },
+  { scope: 'leads:write', description: 'Criar e atualizar leads, registrar atividades' },
+  { scope: 'clients:read', description: 'Consultar clientes (busca por e-mail, telefone ou CPF/CNPJ)' },
+  { scope: 'clients:write', description: 'Criar e atualizar clientes' },
+  { scope: 'subscriptions:read', description: 'Consultar assinaturas e planos' },
+  { scope: 'payments:read', description: 'Consultar pagamentos' },
+  { scope: 'payments:write', description: 'Enviar segunda via de boleto/PIX' },
+] as const;
+
+export type PartnerApiScope = (typeof PARTNER_API_SCOPES)[number]['scope'];
+
+/**
+ * Decorator @RequirePartnerScope()
+ * Define os escopos exigidos da chave da Partner API (todos precisam estar concedidos)
+ *
+ * @example
+ * @UseGuards(PartnerApiGuard)
+ * @Controller('partner/leads')
+ * export class LeadsPartnerController {
+ *   @RequirePartnerScope('leads:write')
+ *   @Post()
+ *   async create() { ... }
+ * }
+ *
+ * @note
+ * - Avaliado pelo PartnerApiGuard
+ * - Decorator no método sobrescreve o da classe
+ */
+export const RequirePartnerScope = (...scopes: PartnerApiScope[]) => SetMetadata(PARTNER_SCOPE_KEY, scopes);
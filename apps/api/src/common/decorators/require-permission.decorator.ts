@@ -0,0 +1,33 @@
+import { SetMetadata } from '@nestjs/common';
+import { Module } from '@prisma/client';
+
+export const PERMISSION_KEY = 'permission';
+
+export type PermissionAction = 'view' | 'create' | 'edit' | 'delete';
+
+export interface RequiredPermission {
+  module: Module;
+  action: PermissionAction;
+}
+
+/**
+ * Decorator @RequirePermission()
+ * Define a permissão granular (UserPermission) exigida por uma rota
+ *
+ * @example
+ * @RequirePermission(Module.LEADS, 'view')
+ * @Controller('leads')
+ * export class LeadsController {
+ *   @RequirePermission(Module.LEADS, 'delete')
+ *   @Delete(':id')
+ *   async remove() { ... }
+ * }
+ *
+ * @note
+ * - Avaliado pelo PermissionGuard, DEPOIS do RolesGuard (ambos precisam liberar)
+ * - Decorator no método sobrescreve o da classe
+ * - SUPERADMIN sempre tem acesso
+ * - Sem UserPermission configurada para o módulo, libera (compatibilidade retroativa)
+ */
+export const RequirePermission = (module: Module, action: PermissionAction) =>
+  SetMetadata(PERMISSION_KEY, { module, action } as RequiredPermission);
@@ -1,42 +1,84 @@
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
   Injectable,
   UnauthorizedException,
 } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { PARTNER_SCOPE_KEY, PartnerApiScope } from '../decorators/partner-scope.decorator';
+import { PartnerClient } from '../interfaces/partner-client.interface';
+import { isIpAllowed } from '../utils/ip.utils';
+import { PartnerApiKeysService } from '@/modules/partner-api-keys/partner-api-keys.service';
 
 /**
- * Guard para endpoints da Partner API (chamados pelo Chat Nexus).
- * Valida X-Client-Id + X-Client-Secret nos headers.
+ * Guard para endpoints da Partner API (/partner/*).
+ * Valida X-Client-Id + X-Client-Secret contra as chaves emitidas em Configurações.
+ *
+ * ORDEM:
+ * 1. Credenciais (chave ativa, não revogada, não expirada) → 401
+ * 2. Allowlist de IP da chave → 403
+ * 3. Escopos exigidos por @RequirePartnerScope() → 403
+ * 4. Limite de requisições por minuto da chave → 429 (X-RateLimit-* e Retry-After)
+ *
+ * Anexa a chave autenticada em request.partner (usado pelo PartnerApiLogInterceptor).
  */
 @Injectable()
 export class PartnerApiGuard implements CanActivate {
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeysService: PartnerApiKeysService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
 
     const clientId = request.headers['x-client-id'];
     const clientSecret = request.headers['x-client-secret'];
 
-    const expectedId = this.configService.get<string>(
-      'CHAT_NEXUS_CLIENT_ID',
-      'nxc_partner_gestornexus',
-    );
-    const expectedSecret = this.configService.get<string>(
-      'CHAT_NEXUS_CLIENT_SECRET',
-      '',
-    );
-
-    if (!clientId || !clientSecret) {
+    if (typeof clientId !== 'string' || typeof clientSecret !== 'string' || !clientId || !clientSecret) {
       throw new UnauthorizedException('Missing X-Client-Id or X-Client-Secret');
     }
 
-    if (clientId !== expectedId || clientSecret !== expectedSecret) {
-      throw new UnauthorizedException('Invalid partner credentials');
+    const key = await this.apiKeysService.authenticate(clientId, clientSecret);
+
+    // request.ip respeita o 'trust proxy' (main.ts) — nunca ler o X-Forwarded-For direto
+    const ip: string | null = request.ip || null;
+
+    if (!isIpAllowed(ip, key.allowedIps)) {
+      throw new ForbiddenException(`IP ${ip ?? 'unknown'} not allowed for this key`);
+    }
+
+    const requiredScopes = this.reflector.getAllAndOverride<PartnerApiScope[]>(PARTNER_SCOPE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    const missing = (requiredScopes ?? []).filter((scope) => !key.scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`Missing scope: ${missing.join(', ')}`);
     }
 
+    const rate = this.apiKeysService.consumeRateLimit(key);
+    response.setHeader('X-RateLimit-Limit', rate.limit);
+    response.setHeader('X-RateLimit-Remaining', rate.remaining);
+    response.setHeader('X-RateLimit-Reset', rate.resetIn);
+    if (!rate.allowed) {
+      response.setHeader('Retry-After', rate.resetIn);
+      throw new HttpException('Rate limit exceeded', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    await this.apiKeysService.touch(key, ip);
+
+    request.partner = {
+      id: key.id,
+      name: key.name,
+      clientId: key.clientId,
+      scopes: key.scopes,
+    } satisfies PartnerClient;
+
     return true;
   }
 }
@@ -0,0 +1,89 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserPermission, UserRole } from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import {
+  PERMISSION_KEY,
+  PermissionAction,
+  RequiredPermission,
+} from '../decorators/require-permission.decorator';
+import { AuthUser } from '../interfaces/auth-user.interface';
+
+/**
+ * Coluna de UserPermission correspondente a cada ação
+ */
+const ACTION_FIELDS: Record<PermissionAction, keyof Pick<UserPermission, 'canView' | 'canCreate' | 'canEdit' | 'canDelete'>> = {
+  view: 'canView',
+  create: 'canCreate',
+  edit: 'canEdit',
+  delete: 'canDelete',
+};
+
+/**
+ * Guard de Permissões Granulares (UserPermission)
+ * Complementa o RolesGuard com permissões por módulo/ação
+ *
+ * FUNCIONAMENTO:
+ * 1. Lê módulo/ação do decorator @RequirePermission()
+ * 2. Busca UserPermission do usuário para o módulo
+ * 3. Verifica a flag correspondente (canView/canCreate/canEdit/canDelete)
+ *
+ * REGRAS:
+ * - Se não tem @RequirePermission(), libera
+ * - Rotas sem usuário (@Public, Partner API) não são avaliadas
+ * - SUPERADMIN bypassa qualquer verificação
+ * - Sem UserPermission para o módulo, libera (compatibilidade retroativa)
+ */
+@Injectable()
+export class PermissionGuard implements CanActivate {
+  private readonly logger = new Logger(PermissionGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<RequiredPermission>(
+      PERMISSION_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!required) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = request.user as AuthUser | undefined;
+
+    if (!user || user.role === UserRole.SUPERADMIN) {
+      return true;
+    }
+
+    const permission = await this.prisma.userPermission.findUnique({
+      where: {
+        userId_module: {
+          userId: user.id,
+          module: required.module,
+        },
+      },
+    });
+
+    if (!permission || permission[ACTION_FIELDS[required.action]]) {
+      return true;
+    }
+
+    this.logger.warn(
+      `❌ Permissão negada: ${user.email} (${user.role}) sem '${required.action}' em ${required.module}`,
+    );
+    throw new ForbiddenException(
+      `Acesso negado. Permissão necessária: ${required.action} em ${required.module}`,
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  HttpException,
+  Logger,
+} from '@nestjs/common';
+import { Observable, tap, catchError, throwError } from 'rxjs';
+import { PartnerClient } from '../interfaces/partner-client.interface';
+import { PartnerApiKeysService } from '@/modules/partner-api-keys/partner-api-keys.service';
+
+/**
+ * Interceptor que grava o log de uso da Partner API (método, rota, status, duração, IP)
+ *
+ * Roda após o PartnerApiGuard — requisições recusadas na autenticação não têm chave
+ * e não são registradas. A gravação não bloqueia a resposta.
+ */
+@Injectable()
+export class PartnerApiLogInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(PartnerApiLogInterceptor.name);
+
+  constructor(private readonly apiKeysService: PartnerApiKeysService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+    const partner = request.partner as PartnerClient | undefined;
+
+    if (!partner) {
+      return next.handle();
+    }
+
+    const startedAt = Date.now();
+    const record = (statusCode: number) => {
+      this.apiKeysService
+        .logRequest({
+          apiKeyId: partner.id,
+          method: request.method,
+          path: (request.originalUrl as string).split('?')[0].slice(0, 500),
+          statusCode,
+          durationMs: Date.now() - startedAt,
+          ip: request.ip || null,
+        })
+        .catch((error) => this.logger.error(`Falha ao gravar log da Partner API: ${error.message}`));
+    };
+
+    return next.handle().pipe(
+      tap(() => record(response.statusCode)),
+      catchError((error) => {
+        record(error instanceof HttpException ? error.getStatus() : 500);
+        return throwError(() => error);
+      }),
+    );
+  }
+}
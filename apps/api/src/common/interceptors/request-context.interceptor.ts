@@ -0,0 +1,40 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { RequestContext } from '../context/request-context';
+import { AuthUser } from '../interfaces/auth-user.interface';
+
+/**
+ * Interceptor global que abre o RequestContext (usuário, IP, user agent)
+ * para o restante da requisição.
+ *
+ * Roda após os guards, então request.user já está populado pelo JwtAuthGuard.
+ * O handler é executado dentro do AsyncLocalStorage.run(), de modo que
+ * qualquer query Prisma disparada pela requisição enxerga o contexto.
+ */
+@Injectable()
+export class RequestContextInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const req = context.switchToHttp().getRequest();
+    const user = req.user as AuthUser | undefined;
+
+    const store = {
+      userId: user?.id ?? null,
+      // req.ip respeita o 'trust proxy' (main.ts) — o X-Forwarded-For cru é forjável
+      ipAddress: req.ip || null,
+      userAgent: (req.headers['user-agent'] as string) || null,
+    };
+
+    return new Observable((subscriber) =>
+      RequestContext.run(store, () => next.handle().subscribe(subscriber)),
+    );
+  }
+}
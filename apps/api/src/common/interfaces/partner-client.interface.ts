@@ -0,0 +1,10 @@
+/**
+ * Chave da Partner API autenticada
+ * Anexada ao request (request.partner) pelo PartnerApiGuard
+ */
+export interface PartnerClient {
+  id: string;       // ID da PartnerApiKey
+  name: string;
+  clientId: string;
+  scopes: string[];
+}
@@ -0,0 +1,84 @@
+import { Body, Controller, INestApplication, Post, Req } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { Test } from '@nestjs/testing';
+import { Request } from 'express';
+import request from 'supertest';
+import { configureBodyParsers } from './body-parser.utils';
+
+@Controller()
+class EchoController {
+  @Post('leads')
+  json(@Body() body: unknown) {
+    return { body };
+  }
+
+  @Post('webhooks/inbound-email')
+  inbound(@Req() req: Request) {
+    if (!Buffer.isBuffer(req.body)) return { isBuffer: false, attachmentLength: req.body.attachment?.length ?? 0 };
+    return { isBuffer: true, text: req.body.toString() };
+  }
+
+  @Post('webhooks/asaas')
+  asaas(@Req() req: Request) {
+    return { isBuffer: Buffer.isBuffer(req.body) };
+  }
+}
+
+describe('configureBodyParsers', () => {
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({ controllers: [EchoController] }).compile();
+    const nestApp = moduleRef.createNestApplication<NestExpressApplication>({ rawBody: true, logger: false });
+    nestApp.setGlobalPrefix('api/v1');
+    configureBodyParsers(nestApp, 'api/v1');
+    app = await nestApp.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('mantém o body JSON nas rotas comuns', async () => {
+    const res = await request(app.getHttpServer()).post('/api/v1/leads').send({ name: 'Maria' }).expect(201);
+
+    expect(res.body).toEqual({ body: { name: 'Maria' } });
+  });
+
+  it('mantém o limite padrão de JSON nas rotas comuns', async () => {
+    await request(app.getHttpServer())
+      .post('/api/v1/leads')
+      .send({ name: 'x'.repeat(200 * 1024) })
+      .expect(413);
+  });
+
+  it('aceita JSON grande só na caixa de captura', async () => {
+    const attachment = 'x'.repeat(2 * 1024 * 1024);
+    const res = await request(app.getHttpServer())
+      .post('/api/v1/webhooks/inbound-email')
+      .send({ attachment })
+      .expect(201);
+
+    expect(res.body).toEqual({ isBuffer: false, attachmentLength: attachment.length });
+  });
+
+  it('entrega o MIME cru da caixa de captura como Buffer', async () => {
+    const res = await request(app.getHttpServer())
+      .post('/api/v1/webhooks/inbound-email')
+      .set('Content-Type', 'message/rfc822')
+      .send('Subject: Teste\r\n\r\nOlá')
+      .expect(201);
+
+    expect(res.body).toEqual({ isBuffer: true, text: 'Subject: Teste\r\n\r\nOlá' });
+  });
+
+  it('mantém o corpo cru nos webhooks de pagamento', async () => {
+    const res = await request(app.getHttpServer())
+      .post('/api/v1/webhooks/asaas')
+      .set('Content-Type', 'application/json')
+      .send('{"event":"PAYMENT_RECEIVED"}')
+      .expect(201);
+
+    expect(res.body).toEqual({ isBuffer: true });
+  });
+});
@@ -0,0 +1,29 @@
+import { NestExpressApplication } from '@nestjs/platform-express';
+import * as express from 'express';
+
+/** Limite da caixa de captura — e-mails com anexos em base64 passam do padrão (100kb) */
+export const INBOUND_EMAIL_BODY_LIMIT = '25mb';
+
+/**
+ * Parsers de corpo da API (chamar antes de app.listen/app.init)
+ *
+ * Os parsers por rota vêm primeiro: o body-parser ignora corpos já lidos, então o JSON
+ * global não consome o que os webhooks precisam cru nem reaplica o limite padrão na
+ * caixa de captura. O JSON global é registrado via useBodyParser — um express.json()
+ * por rota tem o mesmo nome (jsonParser) e faria o Nest pular o parser padrão, deixando
+ * as demais rotas sem body. As demais rotas mantêm o limite padrão do Express.
+ */
+export function configureBodyParsers(app: NestExpressApplication, apiPrefix: string) {
+  // Webhooks de pagamento (AbacatePay, Asaas) validam assinatura sobre o corpo cru
+  app.use(`/${apiPrefix}/webhooks/abacatepay`, express.raw({ type: 'application/json' }));
+  app.use(`/${apiPrefix}/webhooks/asaas`, express.raw({ type: 'application/json' }));
+
+  // Caixa de captura: JSON do provedor com anexos; MIME cru (message/rfc822) chega como Buffer
+  app.use(
+    `/${apiPrefix}/webhooks/inbound-email`,
+    express.json({ limit: INBOUND_EMAIL_BODY_LIMIT }),
+    express.raw({ type: 'message/rfc822', limit: INBOUND_EMAIL_BODY_LIMIT }),
+  );
+
+  app.useBodyParser('json');
+}
@@ -0,0 +1,41 @@
+/**
+ * Validação de CPF/CNPJ (dígitos verificadores)
+ * Entrada já sem formatação (apenas números)
+ */
+
+export function validateCnpj(cnpj: string): boolean {
+  if (!/^\d{14}$/.test(cnpj)) return false;
+  if (/^(\d)\1+$/.test(cnpj)) return false; // todos iguais (ex: 00000000000000)
+  const weights1 = [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+  const weights2 = [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+  const calc = (digits: string, weights: number[]) => {
+    const sum = weights.reduce((acc, w, i) => acc + parseInt(digits[i]) * w, 0);
+    const r = sum % 11;
+    return r < 2 ? 0 : 11 - r;
+  };
+  return (
+    calc(cnpj, weights1) === parseInt(cnpj[12]) &&
+    calc(cnpj, weights2) === parseInt(cnpj[13])
+  );
+}
+
+export function validateCpf(cpf: string): boolean {
+  if (!/^\d{11}$/.test(cpf)) return false;
+  if (/^(\d)\1+$/.test(cpf)) return false; // todos iguais (ex: 11111111111)
+  const calc = (digits: string, length: number) => {
+    const sum = Array.from({ length }, (_, i) => parseInt(digits[i]) * (length + 1 - i)).reduce((a, b) => a + b, 0);
+    const r = (sum * 10) % 11;
+    return r >= 10 ? 0 : r;
+  };
+  return (
+    calc(cpf, 9) === parseInt(cpf[9]) &&
+    calc(cpf, 10) === parseInt(cpf[10])
+  );
+}
+
+/** CPF (11 dígitos) ou CNPJ (14 dígitos) válido */
+export function validateCpfCnpj(value: string): boolean {
+  if (value.length === 14) return validateCnpj(value);
+  if (value.length === 11) return validateCpf(value);
+  return false;
+}
@@ -4,3 +4,7 @@
  */
 
 export * from './date.utils';
+export * from './document.utils';
+export * from './spreadsheet.utils';
+export * from './mime.utils';
+export * from './ip.utils';
@@ -0,0 +1,65 @@
+/**
+ * Utilitários de IP (allowlist da Partner API)
+ * Aceita IPs exatos (IPv4 ou IPv6) e faixas CIDR IPv4 (ex.: 200.10.0.0/16)
+ */
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+/**
+ * Normaliza o IP da requisição
+ * Remove o prefixo IPv4-mapeado do Node (::ffff:10.0.0.1 → 10.0.0.1)
+ */
+export function normalizeIp(ip: string): string {
+  const trimmed = ip.trim().toLowerCase();
+  return trimmed.startsWith('::ffff:') && IPV4_PATTERN.test(trimmed.slice(7)) ? trimmed.slice(7) : trimmed;
+}
+
+function ipv4ToNumber(ip: string): number | null {
+  const match = ip.match(IPV4_PATTERN);
+  if (!match) return null;
+
+  const octets = match.slice(1).map(Number);
+  if (octets.some((octet) => octet > 255)) return null;
+
+  return octets.reduce((acc, octet) => acc * 256 + octet, 0);
+}
+
+/**
+ * Valida uma regra da allowlist (IP exato ou CIDR IPv4)
+ */
+export function isValidIpRule(rule: string): boolean {
+  const [address, bits, ...rest] = rule.trim().split('/');
+  if (rest.length > 0) return false;
+
+  if (bits !== undefined) {
+    const prefix = Number(bits);
+    return ipv4ToNumber(address) !== null && /^\d{1,2}$/.test(bits) && prefix <= 32;
+  }
+
+  return ipv4ToNumber(address) !== null || (address.includes(':') && /^[0-9a-f:.]+$/i.test(address));
+}
+
+/**
+ * Verifica se o IP está na allowlist
+ * Lista vazia libera qualquer origem
+ */
+export function isIpAllowed(ip: string | null | undefined, rules: string[]): boolean {
+  if (rules.length === 0) return true;
+  if (!ip) return false;
+
+  const normalized = normalizeIp(ip);
+  const numeric = ipv4ToNumber(normalized);
+
+  return rules.some((rule) => {
+    const [address, bits] = rule.trim().split('/');
+    if (bits === undefined) return normalizeIp(address) === normalized;
+
+    const base = ipv4ToNumber(address);
+    if (base === null || numeric === null) return false;
+
+    const prefix = Number(bits);
+    if (prefix === 0) return true;
+    const size = 2 ** (32 - prefix);
+    return Math.floor(numeric / size) === Math.floor(base / size);
+  });
+}
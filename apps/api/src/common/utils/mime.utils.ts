@@ -0,0 +1,331 @@
+/**
+ * Leitura de mensagens de e-mail (MIME / RFC 5322) sem dependências externas
+ *
+ * - Cabeçalhos com continuação de linha e encoded-words (RFC 2047)
+ * - multipart/* aninhado, base64 e quoted-printable
+ * - Charsets suportados pelo TextDecoder do Node (utf-8, iso-8859-1, windows-1252…)
+ * - Anexos: Content-Disposition attachment, parte com nome de arquivo (RFC 2231) ou message/*
+ */
+
+export interface MailAddress {
+  name: string | null;
+  email: string;
+}
+
+export interface MailAttachment {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedMail {
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  from: MailAddress | null;
+  to: MailAddress[];
+  cc: MailAddress[];
+  subject: string;
+  date: Date | null;
+  text: string;
+  html: string | null;
+  attachments: MailAttachment[];
+  /** Cabeçalhos da mensagem (nome em minúsculas → valores decodificados) */
+  headers: Record<string, string[]>;
+}
+
+/** Profundidade máxima de multipart aninhado (mensagens maliciosas) */
+const MAX_DEPTH = 10;
+
+export function parseMimeMessage(raw: Buffer | string): ParsedMail {
+  // latin1 mantém 1 caractere por byte: o corpo pode ser recortado e voltar a Buffer sem perdas
+  const source = (typeof raw === 'string' ? Buffer.from(raw, 'utf-8') : raw).toString('latin1');
+  const { headers, body } = splitHeaders(source);
+
+  const parsed: ParsedMail = {
+    messageId: extractMessageIds(firstHeader(headers, 'message-id'))[0] ?? null,
+    inReplyTo: extractMessageIds(firstHeader(headers, 'in-reply-to'))[0] ?? null,
+    references: extractMessageIds(firstHeader(headers, 'references')),
+    from: parseAddressList(firstHeader(headers, 'from'))[0] ?? null,
+    to: parseAddressList(allHeaders(headers, 'to').join(', ')),
+    cc: parseAddressList(allHeaders(headers, 'cc').join(', ')),
+    subject: decodeEncodedWords(firstHeader(headers, 'subject')).trim(),
+    date: parseDate(firstHeader(headers, 'date')),
+    text: '',
+    html: null,
+    attachments: [],
+    headers: Object.fromEntries(
+      Object.entries(headers).map(([name, values]) => [name, values.map((v) => decodeEncodedWords(v))]),
+    ),
+  };
+
+  walkPart(headers, body, parsed, 0);
+
+  if (!parsed.text && parsed.html) {
+    parsed.text = htmlToText(parsed.html);
+  }
+  parsed.text = parsed.text.replace(/\r\n/g, '\n').trim();
+
+  return parsed;
+}
+
+/**
+ * "Nome" <email@dominio>, email@dominio, Nome <email> — separados por vírgula
+ */
+export function parseAddressList(value: string): MailAddress[] {
+  if (!value) return [];
+
+  const addresses: MailAddress[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+
+  const push = () => {
+    const address = parseAddress(current);
+    if (address) addresses.push(address);
+    current = '';
+  };
+
+  for (const char of value) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === '<' && !inQuotes) inAngle = true;
+    else if (char === '>' && !inQuotes) inAngle = false;
+
+    if ((char === ',' || char === ';') && !inQuotes && !inAngle) push();
+    else current += char;
+  }
+  push();
+
+  return addresses;
+}
+
+function parseAddress(value: string): MailAddress | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  const angle = /^(.*)<([^>]+)>\s*$/.exec(text);
+  const email = (angle ? angle[2] : text.replace(/\(.*?\)/g, '')).trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) return null;
+
+  const name = angle ? decodeEncodedWords(angle[1].trim().replace(/^"|"$/g, '').replace(/\\"/g, '"')).trim() : '';
+  return { name: name || null, email };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// CABEÇALHOS
+// ════════════════════════════════════════════════════════════════════════════
+
+type HeaderMap = Record<string, string[]>;
+
+function splitHeaders(source: string): { headers: HeaderMap; body: string } {
+  const match = /\r?\n\r?\n/.exec(source);
+  const headerText = match ? source.slice(0, match.index) : source;
+  const body = match ? source.slice(match.index + match[0].length) : '';
+
+  const headers: HeaderMap = {};
+  const unfolded = headerText.replace(/\r?\n[ \t]+/g, ' ');
+
+  for (const line of unfolded.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim().toLowerCase();
+    // Cabeçalhos em UTF-8 cru (RFC 6532) chegam como bytes latin1
+    const value = Buffer.from(line.slice(separator + 1).trim(), 'latin1').toString('utf-8');
+    (headers[name] ??= []).push(value);
+  }
+
+  return { headers, body };
+}
+
+function firstHeader(headers: HeaderMap, name: string): string {
+  return headers[name]?.[0] ?? '';
+}
+
+function allHeaders(headers: HeaderMap, name: string): string[] {
+  return headers[name] ?? [];
+}
+
+/** Content-Type: text/plain; charset="utf-8" → { value, params } */
+function parseHeaderParams(value: string): { value: string; params: Record<string, string> } {
+  const [main, ...rest] = splitParams(value);
+  const params: Record<string, string> = {};
+  const continuations: Record<string, Array<{ index: number; value: string; encoded: boolean }>> = {};
+
+  for (const part of rest) {
+    const separator = part.indexOf('=');
+    if (separator <= 0) continue;
+    const key = part.slice(0, separator).trim().toLowerCase();
+    const raw = part.slice(separator + 1).trim().replace(/^"(.*)"$/, '$1');
+
+    // RFC 2231: filename*=utf-8''nome%20arquivo.pdf e filename*0*=…; filename*1*=…
+    const extended = /^([^*]+)\*(?:(\d+)\*?)?$/.exec(key);
+    if (extended) {
+      const name = extended[1];
+      (continuations[name] ??= []).push({
+        index: extended[2] ? Number(extended[2]) : 0,
+        value: raw,
+        encoded: key.endsWith('*'),
+      });
+    } else {
+      params[key] = decodeEncodedWords(raw);
+    }
+  }
+
+  for (const [name, pieces] of Object.entries(continuations)) {
+    const ordered = pieces.sort((a, b) => a.index - b.index);
+    const first = ordered[0];
+    const charsetMatch = first.encoded ? /^([^']*)'[^']*'(.*)$/.exec(first.value) : null;
+    const charset = charsetMatch?.[1] || 'utf-8';
+    const values = ordered.map((p, i) => (i === 0 && charsetMatch ? charsetMatch[2] : p.value));
+    const joined = ordered.some((p) => p.encoded)
+      ? decodeBytes(Buffer.from(values.join('').replace(/%([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1'), charset)
+      : values.join('');
+    params[name] = joined;
+  }
+
+  return { value: main.trim().toLowerCase(), params };
+}
+
+function splitParams(value: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of value) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ';' && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** <a@b> <c@d> → ['a@b', 'c@d'] */
+function extractMessageIds(value: string): string[] {
+  const ids = value.match(/<[^<>\s]+>/g);
+  if (ids) return ids.map((id) => id.slice(1, -1));
+  const bare = value.trim();
+  return bare ? [bare] : [];
+}
+
+function parseDate(value: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value.replace(/\s*\([^)]*\)\s*$/, ''));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * =?utf-8?B?...?= e =?iso-8859-1?Q?...?= (palavras adjacentes são unidas sem espaço)
+ */
+export function decodeEncodedWords(value: string): string {
+  if (!value || !value.includes('=?')) return value ?? '';
+
+  return value
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?[^?]+\?[bq]\?[^?]*\?=)/gi, '$1')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) => {
+      const bytes =
+        encoding.toLowerCase() === 'b'
+          ? Buffer.from(text, 'base64')
+          : Buffer.from(decodeQuotedPrintable(text.replace(/_/g, ' ')), 'latin1');
+      return decodeBytes(bytes, charset.split('*')[0]);
+    });
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// CORPO
+// ════════════════════════════════════════════════════════════════════════════
+
+function walkPart(headers: HeaderMap, body: string, parsed: ParsedMail, depth: number): void {
+  const contentType = parseHeaderParams(firstHeader(headers, 'content-type') || 'text/plain');
+  const disposition = parseHeaderParams(firstHeader(headers, 'content-disposition'));
+  const fileName = disposition.params.filename || contentType.params.name || null;
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary && depth < MAX_DEPTH) {
+    for (const part of splitMultipart(body, contentType.params.boundary)) {
+      const child = splitHeaders(part);
+      walkPart(child.headers, child.body, parsed, depth + 1);
+    }
+    return;
+  }
+
+  const content = decodeTransferEncoding(body, firstHeader(headers, 'content-transfer-encoding'));
+  // message/* e text/rfc822-headers: mensagem encaminhada ou partes do aviso de não entrega (DSN)
+  const isEmbedded = contentType.value.startsWith('message/') || contentType.value === 'text/rfc822-headers';
+  const isAttachment = disposition.value === 'attachment' || !!fileName || isEmbedded;
+
+  if (isAttachment) {
+    parsed.attachments.push({
+      fileName: fileName || (contentType.value === 'message/rfc822' ? 'mensagem.eml' : isEmbedded ? 'anexo.txt' : 'anexo'),
+      contentType: contentType.value || 'application/octet-stream',
+      content,
+    });
+    return;
+  }
+
+  const charset = contentType.params.charset || 'utf-8';
+  if (contentType.value === 'text/plain' && !parsed.text) {
+    parsed.text = decodeBytes(content, charset);
+  } else if (contentType.value === 'text/html' && !parsed.html) {
+    parsed.html = decodeBytes(content, charset);
+  }
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+
+  for (const chunk of body.split(delimiter).slice(1)) {
+    if (chunk.startsWith('--')) break; // delimitador final
+    parts.push(chunk.replace(/^[ \t]*\r?\n/, '').replace(/\r?\n$/, ''));
+  }
+
+  return parts;
+}
+
+function decodeTransferEncoding(body: string, encoding: string): Buffer {
+  switch (encoding.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(decodeQuotedPrintable(body), 'latin1');
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+function decodeQuotedPrintable(text: string): string {
+  return text
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeBytes(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase() || 'utf-8').decode(bytes);
+  } catch {
+    // Charset desconhecido → UTF-8, ou latin1 quando não for UTF-8 válido
+    const utf8 = bytes.toString('utf-8');
+    return utf8.includes('\uFFFD') ? bytes.toString('latin1') : utf8;
+  }
+}
+
+/** Versão em texto de e-mails apenas em HTML */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&amp;/gi, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
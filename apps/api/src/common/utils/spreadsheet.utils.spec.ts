@@ -0,0 +1,74 @@
+import { deflateRawSync } from 'zlib';
+import { buildSpreadsheet, parseSpreadsheet } from './spreadsheet.utils';
+
+describe('spreadsheet.utils', () => {
+  it('lê de volta a planilha gerada', () => {
+    const buffer = buildSpreadsheet(
+      [
+        ['Nome', 'Telefone'],
+        ['Maria', 11999990000],
+      ],
+      'xlsx',
+    );
+
+    expect(parseSpreadsheet(buffer, 'xlsx')).toEqual([
+      ['Nome', 'Telefone'],
+      ['Maria', '11999990000'],
+    ]);
+  });
+
+  it.each(['csv', 'xlsx'] as const)('neutraliza fórmulas em textos (%s)', (format) => {
+    const buffer = buildSpreadsheet(
+      [['=HYPERLINK("http://x")', '+5511999990000', '-1+1', '@SUM(A1)', '\tA', 'Maria', -10]],
+      format,
+    );
+
+    expect(parseSpreadsheet(buffer, format)).toEqual([
+      ["'=HYPERLINK(\"http://x\")", "'+5511999990000", "'-1+1", "'@SUM(A1)", "'\tA", 'Maria', '-10'],
+    ]);
+  });
+
+  it('recusa entrada que passa do limite descompactado', () => {
+    // Troca o conteúdo da aba por ~60 MB de zeros comprimidos (zip bomb)
+    const original = buildSpreadsheet([['a']], 'xlsx');
+    const bomb = deflateRawSync(Buffer.alloc(60 * 1024 * 1024));
+    const buffer = replaceEntry(original, 'xl/worksheets/sheet1.xml', bomb);
+
+    expect(() => parseSpreadsheet(buffer, 'xlsx')).toThrow(/excede 50 MB/);
+  });
+});
+
+/** Reescreve o ZIP com os dados comprimidos de uma entrada trocados */
+function replaceEntry(zip: Buffer, name: string, data: Buffer): Buffer {
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  let cd = zip.readUInt32LE(zip.length - 22 + 16);
+  const total = zip.readUInt16LE(zip.length - 22 + 10);
+
+  for (let n = 0; n < total; n++) {
+    const nameLength = zip.readUInt16LE(cd + 28);
+    const entryName = zip.toString('utf-8', cd + 46, cd + 46 + nameLength);
+    const localOffset = zip.readUInt32LE(cd + 42);
+    const header = Buffer.from(zip.subarray(localOffset, localOffset + 30 + nameLength));
+    const size = zip.readUInt32LE(cd + 20);
+    const dataStart = localOffset + 30 + nameLength;
+    const content = entryName === name ? data : zip.subarray(dataStart, dataStart + size);
+    header.writeUInt32LE(content.length, 18);
+
+    const entry = Buffer.from(zip.subarray(cd, cd + 46 + nameLength));
+    entry.writeUInt32LE(content.length, 20);
+    entry.writeUInt32LE(offset, 42);
+
+    parts.push(header, content);
+    central.push(entry);
+    offset += header.length + content.length;
+    cd += 46 + nameLength;
+  }
+
+  const centralBuffer = Buffer.concat(central);
+  const eocd = Buffer.from(zip.subarray(zip.length - 22));
+  eocd.writeUInt32LE(centralBuffer.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, centralBuffer, eocd]);
+}
@@ -0,0 +1,378 @@
+/**
+ * Leitura e geração de planilhas (CSV e XLSX) sem dependências externas
+ *
+ * - CSV: separador detectado (; , ou tab), aspas RFC 4180, UTF-8 com BOM
+ *   ou Windows-1252 (padrão do Excel em pt-BR)
+ * - XLSX: lê a primeira aba (shared strings, inline strings, números) e
+ *   gera planilha simples com uma aba
+ * - Geração: textos que começam com =, +, -, @, tab ou CR recebem ' na frente
+ *   (dados vindos de formulários/e-mail não viram fórmula no Excel/Sheets)
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export type SpreadsheetCell = string | number | null | undefined;
+
+/** Linhas da planilha — a primeira é o cabeçalho */
+export type SpreadsheetRows = string[][];
+
+export function detectSpreadsheetFormat(fileName: string): SpreadsheetFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+  if (extension === 'xlsx') return 'xlsx';
+  return null;
+}
+
+/**
+ * Converte o arquivo em linhas de texto (linhas totalmente vazias são descartadas)
+ */
+export function parseSpreadsheet(buffer: Buffer, format: SpreadsheetFormat): SpreadsheetRows {
+  const rows = format === 'xlsx' ? parseXlsx(buffer) : parseCsv(decodeText(buffer));
+  return rows
+    .map((row) => row.map((cell) => cell.trim()))
+    .filter((row) => row.some((cell) => cell !== ''));
+}
+
+export function buildSpreadsheet(rows: SpreadsheetCell[][], format: SpreadsheetFormat): Buffer {
+  const safeRows = rows.map((row) => row.map(neutralizeFormula));
+  return format === 'xlsx' ? buildXlsx(safeRows) : Buffer.from('\uFEFF' + buildCsv(safeRows), 'utf-8');
+}
+
+/** CSV/formula injection: texto que o Excel/Sheets interpretaria como fórmula vira literal */
+function neutralizeFormula(value: SpreadsheetCell): SpreadsheetCell {
+  return typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// CSV
+// ════════════════════════════════════════════════════════════════════════════
+
+function decodeText(buffer: Buffer): string {
+  const utf8 = buffer.toString('utf-8');
+  // Bytes inválidos em UTF-8 → arquivo salvo pelo Excel em Windows-1252
+  const text = utf8.includes('\uFFFD') ? buffer.toString('latin1') : utf8;
+  return text.replace(/^\uFEFF/, '');
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const counts = [';', ',', '\t'].map((d) => ({ d, n: firstLine.split(d).length - 1 }));
+  return counts.sort((a, b) => b.n - a.n)[0].n > 0 ? counts[0].d : ';';
+}
+
+export function parseCsv(text: string): SpreadsheetRows {
+  const delimiter = detectDelimiter(text);
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function buildCsv(rows: SpreadsheetCell[][]): string {
+  const escape = (value: SpreadsheetCell) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map((row) => row.map(escape).join(';')).join('\r\n');
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// XLSX (leitura)
+// ════════════════════════════════════════════════════════════════════════════
+
+function parseXlsx(buffer: Buffer): SpreadsheetRows {
+  const read = readZip(buffer);
+
+  const sheetPath = resolveFirstSheet(read('xl/workbook.xml'), read('xl/_rels/workbook.xml.rels'));
+  const sheet = read(sheetPath);
+  if (!sheet) {
+    throw new Error('Planilha XLSX sem abas');
+  }
+
+  const sharedStrings = [...(read('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)].map((m) =>
+    readTextRuns(m[1]),
+  );
+
+  const rows: SpreadsheetRows = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    for (const cellMatch of (rowMatch[1] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const ref = /\br="([A-Z]+)\d+"/.exec(attrs)?.[1];
+      const type = /\bt="(\w+)"/.exec(attrs)?.[1];
+      const index = ref ? columnIndex(ref) : row.length;
+
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      let value = '';
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = readTextRuns(body);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (raw !== undefined) value = normalizeNumber(decodeXml(raw));
+
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+function resolveFirstSheet(workbook?: string, rels?: string): string {
+  const relId = workbook && /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+  const target = relId && rels && new RegExp(`<Relationship\\b[^>]*Id="${relId}"[^>]*Target="([^"]+)"`).exec(rels)?.[1];
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+function readTextRuns(xml: string): string {
+  return [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map((m) => decodeXml(m[1])).join('');
+}
+
+/** "A" → 0, "AB" → 27 */
+function columnIndex(letters: string): number {
+  return [...letters].reduce((acc, char) => acc * 26 + (char.charCodeAt(0) - 64), 0) - 1;
+}
+
+/** Telefones/CNPJs gravados como número chegam em notação científica (1.1987654321E10) */
+function normalizeNumber(value: string): string {
+  return /^-?\d+(\.\d+)?E\+?\d+$/i.test(value) ? String(Number(value)) : value;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// XLSX (geração)
+// ════════════════════════════════════════════════════════════════════════════
+
+function buildXlsx(rows: SpreadsheetCell[][]): Buffer {
+  const escape = (value: string) =>
+    value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      // Caracteres de controle são inválidos em XML
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+  const columnName = (index: number) => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+  };
+
+  const sheetRows = rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => {
+          if (value === null || value === undefined || value === '') return '';
+          const ref = `${columnName(c)}${r + 1}`;
+          return typeof value === 'number'
+            ? `<c r="${ref}"><v>${value}</v></c>`
+            : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escape(value)}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      content: `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Planilha1" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`,
+    },
+  ]);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// ZIP (contêiner do XLSX)
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Teto do conteúdo descompactado por arquivo do ZIP (protege contra zip bomb) */
+const MAX_ZIP_ENTRY_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Indexa o diretório central do ZIP e devolve um leitor sob demanda: só as
+ * entradas lidas (workbook, primeira aba, shared strings) são descompactadas
+ */
+function readZip(buffer: Buffer): (path: string) => string | undefined {
+  // End of Central Directory: varre de trás para frente (comentário opcional no fim)
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Arquivo XLSX inválido ou corrompido');
+  }
+
+  const entries = new Map<string, { method: number; data: Buffer }>();
+  const total = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let n = 0; n < total; n++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) break;
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    entries.set(name, { method, data: buffer.subarray(dataStart, dataStart + compressedSize) });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return (path) => {
+    const entry = entries.get(path);
+    if (!entry) return undefined;
+    if (entry.method !== 8) return entry.data.toString('utf-8');
+
+    try {
+      return inflateRawSync(entry.data, { maxOutputLength: MAX_ZIP_ENTRY_SIZE }).toString('utf-8');
+    } catch (error) {
+      if (error.code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new Error(`Arquivo ${path} excede ${MAX_ZIP_ENTRY_SIZE / 1024 / 1024} MB descompactado`);
+      }
+      throw error;
+    }
+  };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function writeZip(entries: Array<{ name: string; content: string }>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const raw = Buffer.from(entry.content, 'utf-8');
+    const compressed = deflateRawSync(raw);
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // versão mínima
+    local.writeUInt16LE(0x0800, 6); // nomes em UTF-8
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(0, 10); // hora
+    local.writeUInt16LE(0x21, 12); // data (1980-01-01)
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(0x21, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
@@ -11,6 +11,7 @@
  * - Fallback automático se um provider falhar
  * - Streaming para respostas em tempo real
  * - Retry logic e tratamento de erros
+ * - Telemetria por chamada (provider efetivo, modelo, tokens, latência)
  */
 
 import OpenAI from 'openai';
@@ -25,10 +26,31 @@ export interface GenerateOptions {
   jsonMode?: boolean;
 }
 
+export interface GenerateResult {
+  content: string;
+  provider: AIProvider; // Provider que respondeu (após fallback)
+  model: string;
+  tokensUsed: number | null;
+  latencyMs: number;
+}
+
+interface ProviderResponse {
+  content: string;
+  tokensUsed: number | null;
+}
+
 export interface StreamOptions {
   prompt: string;
   systemPrompt: string;
   provider?: AIProvider;
+  onComplete?: (usage: StreamUsage) => void | Promise<void>; // Chamado apenas se o stream terminar sem erro
+}
+
+export interface StreamUsage {
+  provider: AIProvider;
+  model: string;
+  tokensUsed: number | null;
+  latencyMs: number;
 }
 
 export class NexusSalesAI {
@@ -58,39 +80,58 @@ export class NexusSalesAI {
   // MÉTODO PRINCIPAL: GERAR RESPOSTA
   // ========================================
   async generate(options: GenerateOptions): Promise<string> {
+    const result = await this.generateWithUsage(options);
+    return result.content;
+  }
+
+  // ========================================
+  // GERAR RESPOSTA COM TELEMETRIA
+  // ========================================
+  async generateWithUsage(options: GenerateOptions): Promise<GenerateResult> {
     const provider = options.provider || selectProvider(options.task);
 
     console.log(
       `[NexusSalesAI] Task: ${options.task} → Provider: ${provider.toUpperCase()}`,
     );
 
+    const startedAt = Date.now();
+
     try {
+      let response: ProviderResponse;
+      let respondedBy: AIProvider = provider;
+
       switch (provider) {
         case 'openai':
-          return await this.callOpenAI(
+          response = await this.callOpenAI(
             options.prompt,
             options.systemPrompt,
             options.jsonMode,
           );
+          break;
         case 'gemini':
-          return await this.callGemini(
+          response = await this.callGemini(
             options.prompt,
             options.systemPrompt,
             options.jsonMode,
           );
+          break;
         case 'groq':
-          return await this.callGroq(
-            options.prompt,
-            options.systemPrompt,
-            options.jsonMode,
-          );
         default:
-          return await this.callGroq(
+          respondedBy = 'groq';
+          response = await this.callGroq(
             options.prompt,
             options.systemPrompt,
             options.jsonMode,
           );
+          break;
       }
+
+      return {
+        ...response,
+        provider: respondedBy,
+        model: AI_PROVIDERS[respondedBy].model,
+        latencyMs: Date.now() - startedAt,
+      };
     } catch (error) {
       console.error(`❌ [NexusSalesAI] Error with ${provider}:`, error);
       // Fallback: tentar outro provider
@@ -102,12 +143,16 @@ export class NexusSalesAI {
   // STREAMING PARA CHAT EM TEMPO REAL
   // ========================================
   async *generateStream(options: StreamOptions): AsyncGenerator<string> {
-    const provider = options.provider || 'groq';
+    // Gemini não fala o protocolo OpenAI — streaming sai pelo Groq
+    const provider: AIProvider = options.provider === 'openai' ? 'openai' : 'groq';
     const client = provider === 'groq' ? this.groq : this.openai;
     const config = AI_PROVIDERS[provider];
 
     console.log(`[NexusSalesAI] Streaming with ${provider.toUpperCase()}`);
 
+    const startedAt = Date.now();
+    let tokensUsed: number | null = null;
+
     try {
       const stream = await client.chat.completions.create({
         model: config.model,
@@ -116,6 +161,7 @@ export class NexusSalesAI {
           { role: 'user', content: options.prompt },
         ],
         stream: true,
+        stream_options: { include_usage: true },
         max_tokens: config.maxTokens,
         temperature: config.temperature,
       });
@@ -123,11 +169,21 @@ export class NexusSalesAI {
       for await (const chunk of stream) {
         const content = chunk.choices[0]?.delta?.content;
         if (content) yield content;
+        // Último chunk (sem choices) traz o usage
+        if (chunk.usage) tokensUsed = chunk.usage.total_tokens;
       }
     } catch (error) {
       console.error(`❌ [NexusSalesAI] Streaming error:`, error);
       yield 'Desculpe, ocorreu um erro ao processar sua mensagem.';
+      return;
     }
+
+    await options.onComplete?.({
+      provider,
+      model: config.model,
+      tokensUsed,
+      latencyMs: Date.now() - startedAt,
+    });
   }
 
   // ========================================
@@ -138,7 +194,7 @@ export class NexusSalesAI {
     prompt: string,
     systemPrompt: string,
     jsonMode?: boolean,
-  ): Promise<string> {
+  ): Promise<ProviderResponse> {
     const config = AI_PROVIDERS.openai;
 
     const response = await this.openai.chat.completions.create({
@@ -152,14 +208,17 @@ export class NexusSalesAI {
       response_format: jsonMode ? { type: 'json_object' } : undefined,
     });
 
-    return response.choices[0].message.content || '';
+    return {
+      content: response.choices[0].message.content || '',
+      tokensUsed: response.usage?.total_tokens ?? null,
+    };
   }
 
   private async callGemini(
     prompt: string,
     systemPrompt: string,
     jsonMode?: boolean,
-  ): Promise<string> {
+  ): Promise<ProviderResponse> {
     const config = AI_PROVIDERS.gemini;
 
     const model = this.gemini.getGenerativeModel({
@@ -173,14 +232,17 @@ export class NexusSalesAI {
     });
 
     const result = await model.generateContent(prompt);
-    return result.response.text();
+    return {
+      content: result.response.text(),
+      tokensUsed: result.response.usageMetadata?.totalTokenCount ?? null,
+    };
   }
 
   private async callGroq(
     prompt: string,
     systemPrompt: string,
     jsonMode?: boolean,
-  ): Promise<string> {
+  ): Promise<ProviderResponse> {
     const config = AI_PROVIDERS.groq;
 
     const response = await this.groq.chat.completions.create({
@@ -194,7 +256,10 @@ export class NexusSalesAI {
       response_format: jsonMode ? { type: 'json_object' } : undefined,
     });
 
-    return response.choices[0].message.content || '';
+    return {
+      content: response.choices[0].message.content || '',
+      tokensUsed: response.usage?.total_tokens ?? null,
+    };
   }
 
   // ========================================
@@ -203,7 +268,7 @@ export class NexusSalesAI {
   private async fallback(
     options: GenerateOptions,
     failedProvider: AIProvider,
-  ): Promise<string> {
+  ): Promise<GenerateResult> {
     const fallbackOrder: AIProvider[] = ['groq', 'gemini', 'openai'];
     const remaining = fallbackOrder.filter((p) => p !== failedProvider);
 
@@ -214,7 +279,7 @@ export class NexusSalesAI {
     for (const provider of remaining) {
       try {
         console.log(`[NexusSalesAI] Fallback para: ${provider.toUpperCase()}`);
-        return await this.generate({ ...options, provider });
+        return await this.generateWithUsage({ ...options, provider });
       } catch (error) {
         console.error(`❌ [NexusSalesAI] Fallback ${provider} falhou:`, error);
         continue;
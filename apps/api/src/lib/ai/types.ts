@@ -89,16 +89,59 @@ export interface ChatMessage {
 export interface ChatRequest {
   message: string;
   leadContext: LeadContext;
-  history?: ChatMessage[];
+  history?: ChatMessage[]; // Usado apenas ao iniciar uma conversa nova
   provider?: 'groq' | 'gemini' | 'openai';
+  conversationId?: string; // Retoma uma AIConversation existente
 }
 
 export interface ChatResponse {
+  conversationId: string;
+  messageId?: string; // AIMessage persistido (usado no feedback)
   response: string;
   suggestions?: string[];
   nextActions?: string[];
 }
 
+export type ChatStreamEvent =
+  | { type: 'chunk'; content: string }
+  | {
+      type: 'done';
+      conversationId: string;
+      messageId?: string;
+      suggestions?: string[];
+      nextActions?: string[];
+    };
+
+// ========================================
+// CONVERSAS PERSISTIDAS
+// ========================================
+
+export interface ConversationSummary {
+  id: string;
+  title: string | null;
+  contextType: 'LEAD' | 'CLIENT' | 'GENERAL';
+  contextId: string | null;
+  user: { id: string; name: string };
+  messageCount: number;
+  lastMessage: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConversationMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  model: string | null;
+  tokensUsed: number | null;
+  rating: 'helpful' | 'not_helpful' | null;
+  createdAt: Date;
+}
+
+export interface ConversationDetail extends ConversationSummary {
+  messages: ConversationMessage[];
+}
+
 // ========================================
 // DISC ANALYSIS
 // ========================================
@@ -132,6 +175,7 @@ export interface DISCAnalysisRequest {
 }
 
 export interface DISCAnalysisResponse {
+  messageId?: string;
   analysis: DISCAnalysis;
 }
 
@@ -167,6 +211,7 @@ export interface BriefingRequest {
 }
 
 export interface BriefingResponse {
+  messageId?: string;
   briefing: Briefing;
 }
 
@@ -196,6 +241,7 @@ export interface BattlecardRequest {
 }
 
 export interface BattlecardResponse {
+  messageId?: string;
   battlecard: Battlecard;
 }
 
@@ -235,6 +281,7 @@ export interface RoleplayRequest {
 }
 
 export interface RoleplayResponse {
+  messageId?: string;
   response: string;
   feedback?: {
     score: number;
@@ -256,6 +303,7 @@ export interface GeneratorRequest {
 }
 
 export interface GeneratorResponse {
+  messageId?: string;
   content: string;
   metadata?: {
     wordCount?: number;
@@ -308,13 +356,40 @@ export interface SalesMetrics {
 }
 
 export interface AnalyticsRequest {
-  userId: string;
+  userId?: string;
   dateFrom?: Date;
   dateTo?: Date;
 }
 
+export interface ProviderUsage {
+  provider: string;
+  requests: number;
+  avgLatencyMs: number;
+  totalTokens: number;
+}
+
+export interface FeedbackSummary {
+  helpful: number;
+  notHelpful: number;
+  satisfactionRate: number;
+}
+
+export interface UserAIUsage {
+  userId: string;
+  name: string;
+  interactions: number;
+  totalTokens: number;
+  avgLatencyMs: number;
+  satisfactionRate: number;
+  convertedLeads: number;
+}
+
 export interface AnalyticsResponse {
+  period: { dateFrom: string; dateTo: string };
   metrics: SalesMetrics;
+  providers: ProviderUsage[];
+  feedback: FeedbackSummary;
+  team: UserAIUsage[]; // Um item por usuário no escopo (só o próprio para VENDEDOR)
 }
 
 // ========================================
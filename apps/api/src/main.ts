@@ -2,14 +2,15 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { AppModule } from './app.module';
-import * as express from 'express';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import helmet from 'helmet';
+import { configureBodyParsers } from './common/utils/body-parser.utils';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
 
   // Criar aplicação com raw body para webhooks
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     rawBody: true,
     logger: process.env.NODE_ENV === 'production'
       ? ['error', 'warn', 'log']
@@ -40,6 +41,14 @@ async function bootstrap() {
   app.use(helmet());
   logger.log('✅ Helmet security headers habilitados');
 
+  // ══════════════════════════════════════════════════════════════════════════════
+  // TRUST PROXY (request.ip = IP real do cliente atrás do load balancer)
+  // ══════════════════════════════════════════════════════════════════════════════
+  // Número de saltos, não `true`: o primeiro valor do X-Forwarded-For é do chamador e
+  // pode ser forjado — allowlists de IP (Partner API) dependem disso
+  const trustProxyHops = Number(configService.get<string>('TRUST_PROXY_HOPS', '1'));
+  app.set('trust proxy', Number.isInteger(trustProxyHops) && trustProxyHops > 0 ? trustProxyHops : false);
+
   // ══════════════════════════════════════════════════════════════════════════════
   // GLOBAL PREFIX
   // ══════════════════════════════════════════════════════════════════════════════
@@ -61,16 +70,9 @@ async function bootstrap() {
   );
 
   // ══════════════════════════════════════════════════════════════════════════════
-  // RAW BODY para Webhooks (AbacatePay, Asaas)
+  // BODY PARSERS (raw para webhooks + JSON com limite maior)
   // ══════════════════════════════════════════════════════════════════════════════
-  app.use(
-    `/${apiPrefix}/webhooks/abacatepay`,
-    express.raw({ type: 'application/json' }),
-  );
-  app.use(
-    `/${apiPrefix}/webhooks/asaas`,
-    express.raw({ type: 'application/json' }),
-  );
+  configureBodyParsers(app, apiPrefix);
 
   // ══════════════════════════════════════════════════════════════════════════════
   // GRACEFUL SHUTDOWN
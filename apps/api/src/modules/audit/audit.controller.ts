@@ -10,8 +10,9 @@ import { Response } from 'express';
 import { AuditService } from './audit.service';
 import { QueryAuditDto } from './dto/query-audit.dto';
 import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
 import { CurrentUser } from '@/common/decorators/current-user.decorator';
-import { UserRole } from '@prisma/client';
+import { UserRole, Module } from '@prisma/client';
 import { AuthUser } from '@/common/interfaces/auth-user.interface';
 
 /**
@@ -24,6 +25,7 @@ import { AuthUser } from '@/common/interfaces/auth-user.interface';
  * - DESENVOLVEDOR: Acesso total (para debugging)
  * - GESTOR/VENDEDOR: Sem acesso
  */
+@RequirePermission(Module.AUDIT_LOG, 'view')
 @Controller('audit')
 export class AuditController {
   constructor(private readonly auditService: AuditService) {}
@@ -38,6 +40,21 @@ export class AuditController {
     return this.auditService.findAll(query, user.role);
   }
 
+  /**
+   * GET /audit/export
+   * Exporta logs para CSV
+   * (declarada antes de /audit/:id para não ser capturada pela rota dinâmica)
+   */
+  @Get('export')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async export(@Query() query: QueryAuditDto, @CurrentUser() user: AuthUser, @Res() res: Response) {
+    const csv = await this.auditService.export(query, user.role);
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', 'attachment; filename=audit-logs.csv');
+    res.send(csv);
+  }
+
   /**
    * GET /audit/:id
    * Busca log específico
@@ -57,18 +74,4 @@ export class AuditController {
   async findImpersonateLogs(@CurrentUser() user: AuthUser) {
     return this.auditService.findImpersonateLogs(user.role);
   }
-
-  /**
-   * GET /audit/export
-   * Exporta logs para CSV
-   */
-  @Get('export')
-  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
-  async export(@Query() query: QueryAuditDto, @CurrentUser() user: AuthUser, @Res() res: Response) {
-    const csv = await this.auditService.export(query, user.role);
-
-    res.setHeader('Content-Type', 'text/csv');
-    res.setHeader('Content-Disposition', 'attachment; filename=audit-logs.csv');
-    res.send(csv);
-  }
 }
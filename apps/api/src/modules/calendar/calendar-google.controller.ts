@@ -11,6 +11,8 @@ import {
 } from '@nestjs/common';
 import { CalendarGoogleService } from './calendar-google.service';
 import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { Module } from '@prisma/client';
 import { Public } from '@/common/decorators/public.decorator';
 import { AuthUser } from '@/common/interfaces/auth-user.interface';
 
@@ -28,6 +30,7 @@ import { AuthUser } from '@/common/interfaces/auth-user.interface';
  * - Todos endpoints requerem autenticação (ClerkAuthGuard global)
  * - Cada usuário gerencia sua própria conexão Google
  */
+@RequirePermission(Module.CALENDAR, 'view')
 @Controller('calendar/google')
 export class CalendarGoogleController {
   constructor(private readonly googleService: CalendarGoogleService) {}
@@ -118,6 +121,7 @@ export class CalendarGoogleController {
    * - events: Array<CalendarEvent> (eventos importados)
    */
   @Post('sync')
+  @RequirePermission(Module.CALENDAR, 'edit')
   @HttpCode(HttpStatus.OK)
   async syncFromGoogle(@CurrentUser() user: AuthUser) {
     const events = await this.googleService.syncFromGoogle(user.id);
@@ -166,6 +170,7 @@ export class CalendarGoogleController {
    * Usuário pode revogar manualmente em: https://myaccount.google.com/permissions
    */
   @Delete('disconnect')
+  @RequirePermission(Module.CALENDAR, 'edit')
   @HttpCode(HttpStatus.OK)
   async disconnect(@CurrentUser() user: AuthUser) {
     await this.googleService.disconnect(user.id);
@@ -22,9 +22,10 @@ import {
   QueryCalendarEventsSchema,
 } from './dto';
 import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
 import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
 import { AuthUser } from '@/common/interfaces/auth-user.interface';
-import { EventType } from '@prisma/client';
+import { EventType, Module } from '@prisma/client';
 
 /**
  * Calendar Controller
@@ -41,6 +42,7 @@ import { EventType } from '@prisma/client';
  * - GESTOR: Vê eventos da sua equipe
  * - VENDEDOR: Vê apenas seus próprios eventos
  */
+@RequirePermission(Module.CALENDAR, 'view')
 @Controller('calendar/events')
 export class CalendarController {
   private readonly logger = new Logger(CalendarController.name);
@@ -105,6 +107,7 @@ export class CalendarController {
    * Cria novo evento
    */
   @Post()
+  @RequirePermission(Module.CALENDAR, 'create')
   @HttpCode(HttpStatus.CREATED)
   async create(
     @CurrentUser() user: AuthUser,
@@ -124,6 +127,7 @@ export class CalendarController {
    *   - ALL_FUTURE: Atualiza toda a série
    */
   @Put(':id')
+  @RequirePermission(Module.CALENDAR, 'edit')
   async update(
     @CurrentUser() user: AuthUser,
     @Param('id') id: string,
@@ -152,6 +156,7 @@ export class CalendarController {
    *   - ALL_FUTURE: Deleta toda a série (soft delete)
    */
   @Delete(':id')
+  @RequirePermission(Module.CALENDAR, 'delete')
   @HttpCode(HttpStatus.OK)
   async remove(
     @CurrentUser() user: AuthUser,
@@ -0,0 +1,246 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Body,
+  UseGuards,
+  UseInterceptors,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+} from '@nestjs/common';
+import { SkipThrottle } from '@nestjs/throttler';
+import { PaymentStatus, Prisma } from '@prisma/client';
+import { Public } from '@/common/decorators/public.decorator';
+import { RequirePartnerScope } from '@/common/decorators/partner-scope.decorator';
+import { PartnerApiGuard } from '@/common/guards/partner-api.guard';
+import { PartnerApiLogInterceptor } from '@/common/interceptors/partner-api-log.interceptor';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+import { PrismaService } from '@/prisma/prisma.service';
+import { PaymentsService } from '../payments/payments.service';
+import {
+  PartnerClientLookupDto,
+  PartnerClientLookupSchema,
+  PartnerSecondCopyDto,
+  PartnerSecondCopySchema,
+} from './dto/partner-clients.dto';
+
+const CLIENT_SELECT = {
+  id: true,
+  company: true,
+  contactName: true,
+  email: true,
+  phone: true,
+  cpfCnpj: true,
+  status: true,
+  productType: true,
+  billingCycle: true,
+  trialEndsAt: true,
+  closedAt: true,
+  createdAt: true,
+  plan: { select: { id: true, name: true } },
+  vendedor: { select: { id: true, name: true } },
+  tenant: { select: { id: true, name: true, status: true, systemUrl: true } },
+} satisfies Prisma.ClientSelect;
+
+/** Cobranças em aberto (com boleto/PIX para segunda via) */
+const OUTSTANDING_STATUSES: PaymentStatus[] = [PaymentStatus.PENDING, PaymentStatus.OVERDUE];
+
+/**
+ * Partner API — Clientes, assinatura e cobranças em aberto (Nexus Chat).
+ * Auth: X-Client-Id + X-Client-Secret de uma chave emitida em Configurações (sem JWT).
+ * Escopos: clients:read (busca e dados), subscriptions:read (assinatura),
+ * payments:read (cobranças) e payments:write (segunda via).
+ * Prefix: /partner/clients
+ */
+@Public()
+@SkipThrottle()
+@UseGuards(PartnerApiGuard)
+@UseInterceptors(PartnerApiLogInterceptor)
+@RequirePartnerScope('clients:read')
+@Controller('partner/clients')
+export class ClientsPartnerController {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paymentsService: PaymentsService,
+  ) {}
+
+  // ─── 1. Lookup by email, phone or CNPJ ─────────────────────────────
+
+  @Get()
+  async findClients(
+    @Query(new ZodValidationPipe(PartnerClientLookupSchema)) query: PartnerClientLookupDto,
+  ) {
+    // Telefone salvo sem formatação; DDI 55 opcional dos dois lados
+    const phone = query.phone && query.phone.length >= 12 ? query.phone.replace(/^55/, '') : query.phone;
+
+    const clients = await this.prisma.client.findMany({
+      where: {
+        OR: [
+          ...(query.email ? [{ email: { equals: query.email, mode: 'insensitive' as const } }] : []),
+          ...(phone ? [{ phone: { endsWith: phone } }] : []),
+          ...(query.cnpj ? [{ cpfCnpj: query.cnpj }] : []),
+        ],
+      },
+      select: CLIENT_SELECT,
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+
+    return { data: clients.map(this.formatClient) };
+  }
+
+  // ─── 2. Client details ─────────────────────────────────────────────
+
+  @Get(':clientId')
+  async findOne(@Param('clientId') clientId: string) {
+    const client = await this.prisma.client.findUnique({ where: { id: clientId }, select: CLIENT_SELECT });
+    if (!client) throw new NotFoundException('Client not found');
+    return { data: this.formatClient(client) };
+  }
+
+  // ─── 3. Subscription status ────────────────────────────────────────
+
+  @Get(':clientId/subscription')
+  @RequirePartnerScope('subscriptions:read')
+  async getSubscription(@Param('clientId') clientId: string) {
+    const client = await this.prisma.client.findUnique({
+      where: { id: clientId },
+      select: { id: true, activeSubscriptionId: true },
+    });
+    if (!client) throw new NotFoundException('Client not found');
+
+    // Assinatura ativa do cliente ou, na falta, a mais recente
+    const subscription = await this.prisma.subscription.findFirst({
+      where: client.activeSubscriptionId ? { id: client.activeSubscriptionId } : { clientId },
+      orderBy: { createdAt: 'desc' },
+      include: { plan: { select: { id: true, name: true, product: true } } },
+    });
+
+    if (!subscription) return { data: null };
+
+    return {
+      data: {
+        id: subscription.id,
+        status: subscription.status,
+        plan: subscription.plan,
+        amount: Number(subscription.amount),
+        billingCycle: subscription.billingCycle,
+        currentPeriodStart: subscription.currentPeriodStart.toISOString(),
+        currentPeriodEnd: subscription.currentPeriodEnd.toISOString(),
+        nextBillingDate: subscription.nextBillingDate?.toISOString() ?? null,
+        gracePeriodDays: subscription.gracePeriodDays,
+        canceledAt: subscription.canceledAt?.toISOString() ?? null,
+        cancellationReason: subscription.cancellationReason,
+      },
+    };
+  }
+
+  // ─── 4. Outstanding payments ───────────────────────────────────────
+
+  @Get(':clientId/payments')
+  @RequirePartnerScope('payments:read')
+  async getOutstandingPayments(@Param('clientId') clientId: string) {
+    const client = await this.prisma.client.findUnique({ where: { id: clientId }, select: { id: true } });
+    if (!client) throw new NotFoundException('Client not found');
+
+    const payments = await this.prisma.payment.findMany({
+      where: { clientId, status: { in: OUTSTANDING_STATUSES } },
+      orderBy: { dueDate: 'asc' },
+    });
+
+    const data = payments.map((payment) => {
+      const gatewayData = (payment.gatewayData ?? {}) as Record<string, any>;
+      const daysOverdue =
+        payment.dueDate && payment.dueDate < new Date()
+          ? Math.floor((Date.now() - payment.dueDate.getTime()) / (24 * 60 * 60 * 1000))
+          : 0;
+
+      return {
+        id: payment.id,
+        subscriptionId: payment.subscriptionId,
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        status: payment.status,
+        method: payment.method,
+        description: payment.description,
+        dueDate: payment.dueDate?.toISOString() ?? null,
+        daysOverdue,
+        invoiceUrl: payment.invoiceUrl,
+        bankSlipUrl: gatewayData.bankSlipUrl ?? null,
+        pixQrCode: gatewayData.pixQrCode ?? null,
+      };
+    });
+
+    return {
+      data,
+      totalOutstanding: data.reduce((sum, payment) => sum + payment.amount, 0),
+    };
+  }
+
+  // ─── 5. Second copy (boleto/PIX) ───────────────────────────────────
+
+  @Post(':clientId/payments/:paymentId/second-copy')
+  @RequirePartnerScope('payments:write')
+  @HttpCode(HttpStatus.OK)
+  async sendSecondCopy(
+    @Param('clientId') clientId: string,
+    @Param('paymentId') paymentId: string,
+    @Body(new ZodValidationPipe(PartnerSecondCopySchema)) body: PartnerSecondCopyDto,
+  ) {
+    const payment = await this.prisma.payment.findFirst({
+      where: { id: paymentId, clientId },
+      select: { id: true, client: { select: { vendedorId: true } } },
+    });
+    if (!payment) throw new NotFoundException('Payment not found');
+
+    const copy = await this.paymentsService.sendSecondCopy(paymentId, body.sendEmail);
+
+    // Registro na linha do tempo do cliente
+    const systemUser = await this.prisma.user.findFirst({
+      where: { isActive: true, role: 'SUPERADMIN' },
+    });
+    await this.prisma.interaction.create({
+      data: {
+        clientId,
+        userId: systemUser?.id || payment.client.vendedorId,
+        type: copy.emailSent ? 'EMAIL' : 'NOTE',
+        title: 'Segunda via de cobrança (Partner API)',
+        content: copy.emailSent
+          ? `Segunda via da cobrança ${paymentId} enviada para ${copy.email}`
+          : `Segunda via da cobrança ${paymentId} consultada pela integração`,
+      },
+    });
+
+    return {
+      data: {
+        ...copy,
+        dueDate: copy.dueDate?.toISOString() ?? null,
+      },
+    };
+  }
+
+  // ─── Helper ───────────────────────────────────────────────────────
+
+  private formatClient(client: Prisma.ClientGetPayload<{ select: typeof CLIENT_SELECT }>) {
+    return {
+      id: client.id,
+      company: client.company,
+      contactName: client.contactName,
+      email: client.email,
+      phone: client.phone,
+      cpfCnpj: client.cpfCnpj,
+      status: client.status,
+      product: client.productType,
+      billingCycle: client.billingCycle,
+      plan: client.plan,
+      vendedor: client.vendedor,
+      tenant: client.tenant,
+      trialEndsAt: client.trialEndsAt?.toISOString() ?? null,
+      closedAt: client.closedAt.toISOString(),
+      createdAt: client.createdAt.toISOString(),
+    };
+  }
+}
@@ -15,6 +15,7 @@ import {
 } from '@nestjs/common';
 import { Request } from 'express';
 import { ClientsService } from './clients.service';
+import { parseCustomFieldQuery, parseTagsQuery } from '../custom-fields/custom-fields.service';
 import { CreateClientDto, CreateClientSchema } from './dto/create-client.dto';
 import { UpdateClientDto, UpdateClientSchema } from './dto/update-client.dto';
 import { Roles } from '@/common/decorators/roles.decorator';
@@ -51,6 +52,8 @@ export class ClientsController {
    * - status?: ClientStatus
    * - productType?: ProductType
    * - vendedorId?: string (apenas admins/gestor)
+   * - tags?: string (separadas por vírgula; exige todas)
+   * - cf[chave]?: string (campos personalizados)
    */
   @Get()
   async findAll(
@@ -58,6 +61,8 @@ export class ClientsController {
     @Query('status') status?: ClientStatus,
     @Query('productType') productType?: ProductType,
     @Query('vendedorId') vendedorId?: string,
+    @Query('tags') tags?: string | string[],
+    @Query('cf') cf?: unknown,
   ) {
     return this.clientsService.findAll({
       currentUserId: user.id,
@@ -65,6 +70,8 @@ export class ClientsController {
       status,
       productType,
       vendedorId,
+      tags: parseTagsQuery(tags),
+      customFields: parseCustomFieldQuery(cf),
     });
   }
 
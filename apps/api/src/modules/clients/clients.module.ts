@@ -1,13 +1,16 @@
 import { Module } from '@nestjs/common';
 import { ClientsController } from './clients.controller';
+import { ClientsPartnerController } from './clients-partner.controller';
 import { ClientsService } from './clients.service';
 import { SubscriptionModule } from '../subscriptions/subscriptions.module'; // v2.46.0
 import { TenantsModule } from '../tenants/tenants.module';
 import { OneNexusModule } from '../integrations/one-nexus/one-nexus.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { PaymentsModule } from '../payments/payments.module';
 
 @Module({
-  imports: [SubscriptionModule, TenantsModule, OneNexusModule], // v2.46.0 - Billing Lifecycle
-  controllers: [ClientsController],
+  imports: [SubscriptionModule, TenantsModule, OneNexusModule, CustomFieldsModule, PaymentsModule], // v2.46.0 - Billing Lifecycle
+  controllers: [ClientsController, ClientsPartnerController],
   providers: [ClientsService],
   exports: [ClientsService], // Exportar para uso em PaymentsModule, etc
 })
@@ -15,7 +15,8 @@ import { OneNexusService } from '../integrations/one-nexus/one-nexus.service';
 import { AuthUser } from '@/common/interfaces/auth-user.interface';
 import { CreateClientDto } from './dto/create-client.dto';
 import { UpdateClientDto } from './dto/update-client.dto';
-import { UserRole, ClientStatus, ProductType, LeadStatus } from '@prisma/client';
+import { CustomFieldsService, normalizeTags } from '../custom-fields/custom-fields.service';
+import { UserRole, ClientStatus, ProductType, LeadStatus, CustomFieldEntity } from '@prisma/client';
 
 /**
  * Clients Service
@@ -39,6 +40,7 @@ export class ClientsService {
     private readonly subscriptionService: SubscriptionService, // v2.46.0
     private readonly tenantsService: TenantsService,
     private readonly oneNexusService: OneNexusService,
+    private readonly customFieldsService: CustomFieldsService,
   ) {}
 
   /**
@@ -50,8 +52,10 @@ export class ClientsService {
     status?: ClientStatus;
     productType?: ProductType;
     vendedorId?: string;
+    tags?: string[];
+    customFields?: Record<string, string>;
   }) {
-    const { currentUserId, currentUserRole, status, productType, vendedorId } = params;
+    const { currentUserId, currentUserRole, status, productType, vendedorId, tags, customFields } = params;
 
     // Validar permissão granular por módulo (se productType especificado)
     if (productType) {
@@ -72,6 +76,9 @@ export class ClientsService {
       status,
       productType,
     };
+    if (tags?.length) where.tags = { hasEvery: tags };
+    const customFieldFilters = await this.customFieldsService.buildFilters(CustomFieldEntity.CLIENT, customFields);
+    if (customFieldFilters.length > 0) where.AND = customFieldFilters;
 
     // GESTOR: Ver apenas clientes da sua equipe
     if (currentUserRole === UserRole.GESTOR) {
@@ -361,6 +368,9 @@ export class ClientsService {
       }
     }
 
+    const tags = normalizeTags(dto.tags ?? []);
+    const customFields = await this.customFieldsService.normalizeValues(CustomFieldEntity.CLIENT, dto.customFields);
+
     // Criar cliente em transação (incluindo atualização do lead)
     // ✅ v2.63.2: Try-catch externo para capturar P2002 de race conditions (double submit)
     let client: any;
@@ -370,7 +380,7 @@ export class ClientsService {
       // ✅ v2.60.0: Extrair billingAnchorDay antes de passar ao Prisma (campo pertence à Subscription, não ao Client)
       const { billingAnchorDay: _billingAnchorDay, ...clientData } = dto as any;
       const newClient = await tx.client.create({
-        data: clientData,
+        data: { ...clientData, tags, customFields },
         include: {
           vendedor: {
             select: {
@@ -586,7 +596,16 @@ export class ClientsService {
 
     // ========== INÍCIO: Sync após update v2.44.0 ==========
     // ✅ v2.46.0: Remover billingAnchorDay do DTO antes de atualizar Client (campo não existe no schema)
-    const { billingAnchorDay, ...clientData } = dto;
+    const { billingAnchorDay, tags, customFields, ...updateFields } = dto;
+    const clientData = {
+      ...updateFields,
+      ...(tags !== undefined && { tags: normalizeTags(tags) }),
+      ...(customFields !== undefined && {
+        customFields: await this.customFieldsService.normalizeValues(CustomFieldEntity.CLIENT, customFields, {
+          current: client.customFields,
+        }),
+      }),
+    };
 
     const updated = await this.prisma.client.update({
       where: { id },
@@ -880,6 +899,9 @@ export class ClientsService {
    * - INADIMPLENTE: Se payment vencido (dueDate < hoje) e status PENDING
    * - ATIVO: Se último payment foi pago (status PAID)
    * - CANCELADO: Mantém status manual (não sobrescreve)
+   *
+   * Clientes com assinatura ACTIVE/PAST_DUE ficam de fora: o status deles
+   * é conduzido pela régua de cobrança (DunningService, cron overdue-detection)
    */
   @Cron(CronExpression.EVERY_DAY_AT_6AM, {
     name: 'update-client-status',
@@ -895,6 +917,7 @@ export class ClientsService {
           status: {
             in: [ClientStatus.ATIVO, ClientStatus.EM_TRIAL, ClientStatus.INADIMPLENTE, ClientStatus.BLOQUEADO],
           },
+          subscriptions: { none: { status: { in: ['ACTIVE', 'PAST_DUE'] } } },
         },
         include: {
           payments: {
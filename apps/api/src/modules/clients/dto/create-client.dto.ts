@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { ProductType, ClientStatus, BillingCycle, ClientRole } from '@prisma/client';
+import { validateCnpj, validateCpf } from '@/common/utils/document.utils';
 
 /**
  * Schema Zod para criação de cliente
@@ -12,34 +13,6 @@ import { ProductType, ClientStatus, BillingCycle, ClientRole } from '@prisma/cli
  * - GESTOR pode atribuir aos seus vendedores
  * - VENDEDOR cria para si mesmo
  */
-function validateCnpj(cnpj: string): boolean {
-  if (/^(\d)\1+$/.test(cnpj)) return false; // todos iguais (ex: 00000000000000)
-  const weights1 = [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
-  const weights2 = [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
-  const calc = (digits: string, weights: number[]) => {
-    const sum = weights.reduce((acc, w, i) => acc + parseInt(digits[i]) * w, 0);
-    const r = sum % 11;
-    return r < 2 ? 0 : 11 - r;
-  };
-  return (
-    calc(cnpj, weights1) === parseInt(cnpj[12]) &&
-    calc(cnpj, weights2) === parseInt(cnpj[13])
-  );
-}
-
-function validateCpf(cpf: string): boolean {
-  if (/^(\d)\1+$/.test(cpf)) return false; // todos iguais (ex: 11111111111)
-  const calc = (digits: string, length: number) => {
-    const sum = Array.from({ length }, (_, i) => parseInt(digits[i]) * (length + 1 - i)).reduce((a, b) => a + b, 0);
-    const r = (sum * 10) % 11;
-    return r >= 10 ? 0 : r;
-  };
-  return (
-    calc(cpf, 9) === parseInt(cpf[9]) &&
-    calc(cpf, 10) === parseInt(cpf[10])
-  );
-}
-
 export const CreateClientSchema = z.object({
   company: z
     .string()
@@ -187,6 +160,11 @@ export const CreateClientSchema = z.object({
 
   // Campos opcionais
   notes: z.string().max(5000, 'Notas devem ter no máximo 5000 caracteres').optional().nullable(),
+
+  // Etiquetas livres e campos personalizados (validados contra as definições de CLIENT)
+  tags: z.array(z.string().max(40, 'Etiqueta deve ter no máximo 40 caracteres')).optional(),
+
+  customFields: z.record(z.union([z.string(), z.number(), z.null()])).optional(),
 });
 
 export type CreateClientDto = z.infer<typeof CreateClientSchema>;
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+/**
+ * Busca de clientes pela Partner API (GET /partner/clients)
+ * Telefone e CPF/CNPJ aceitam formatação — a comparação usa apenas os dígitos
+ */
+export const PartnerClientLookupSchema = z
+  .object({
+    email: z.string().trim().toLowerCase().email('E-mail inválido').optional(),
+    phone: z
+      .string()
+      .transform((val) => val.replace(/\D/g, ''))
+      .refine((val) => val.length >= 10 && val.length <= 13, 'Telefone inválido')
+      .optional(),
+    cnpj: z
+      .string()
+      .transform((val) => val.replace(/\D/g, ''))
+      .refine((val) => val.length === 11 || val.length === 14, 'CPF/CNPJ deve conter 11 ou 14 dígitos')
+      .optional(),
+  })
+  .refine((data) => !!data.email || !!data.phone || !!data.cnpj, {
+    message: 'Informe email, phone ou cnpj',
+    path: ['email'],
+  });
+
+export type PartnerClientLookupDto = z.infer<typeof PartnerClientLookupSchema>;
+
+/** Segunda via (POST /partner/clients/:clientId/payments/:paymentId/second-copy) */
+export const PartnerSecondCopySchema = z.object({
+  sendEmail: z.boolean().default(true),
+});
+
+export type PartnerSecondCopyDto = z.infer<typeof PartnerSecondCopySchema>;
@@ -0,0 +1,109 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { CustomFieldsService } from './custom-fields.service';
+import {
+  CreateCustomFieldDto,
+  CreateCustomFieldSchema,
+  UpdateCustomFieldDto,
+  UpdateCustomFieldSchema,
+} from './dto/custom-field.dto';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { UserRole, Module, CustomFieldEntity } from '@prisma/client';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+
+/**
+ * Custom Fields Controller
+ * Campos personalizados e etiquetas de leads e clientes
+ *
+ * PERMISSÕES:
+ * - GET: TODOS usuários autenticados (drawer do lead, cadastro de cliente e filtros)
+ * - POST/PUT: SUPERADMIN ou ADMINISTRATIVO
+ * - DELETE: Apenas SUPERADMIN
+ */
+@Controller('custom-fields')
+export class CustomFieldsController {
+  constructor(private readonly customFieldsService: CustomFieldsService) {}
+
+  /**
+   * GET /custom-fields?entity=LEAD&includeInactive=true
+   * Lista definições (inativas apenas sob demanda, para Configurações)
+   */
+  @Get()
+  async findAll(@Query('entity') entity?: string, @Query('includeInactive') includeInactive?: string) {
+    return this.customFieldsService.findAll(entity ? this.parseEntity(entity) : undefined, includeInactive === 'true');
+  }
+
+  /**
+   * GET /custom-fields/tags?entity=LEAD
+   * Etiquetas em uso com a quantidade de registros
+   */
+  @Get('tags')
+  async getTags(@Query('entity') entity = 'LEAD') {
+    return this.customFieldsService.getTags(this.parseEntity(entity));
+  }
+
+  /**
+   * GET /custom-fields/:id
+   */
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.customFieldsService.findOne(id);
+  }
+
+  /**
+   * POST /custom-fields
+   * Cria campo personalizado
+   */
+  @Post()
+  @RequirePermission(Module.SETTINGS, 'create')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async create(@Body(new ZodValidationPipe(CreateCustomFieldSchema)) dto: CreateCustomFieldDto) {
+    return this.customFieldsService.create(dto);
+  }
+
+  /**
+   * PUT /custom-fields/:id
+   * Atualiza rótulo/opções/ordem ou ativa/desativa (isActive)
+   */
+  @Put(':id')
+  @RequirePermission(Module.SETTINGS, 'edit')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async update(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(UpdateCustomFieldSchema)) dto: UpdateCustomFieldDto,
+  ) {
+    return this.customFieldsService.update(id, dto);
+  }
+
+  /**
+   * DELETE /custom-fields/:id
+   * Remove campo sem valores gravados
+   */
+  @Delete(':id')
+  @RequirePermission(Module.SETTINGS, 'delete')
+  @Roles(UserRole.SUPERADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string) {
+    await this.customFieldsService.remove(id);
+  }
+
+  private parseEntity(entity: string): CustomFieldEntity {
+    const value = entity.toUpperCase();
+    if (!Object.values(CustomFieldEntity).includes(value as CustomFieldEntity)) {
+      throw new BadRequestException('Entidade inválida. Valores aceitos: LEAD, CLIENT');
+    }
+    return value as CustomFieldEntity;
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CustomFieldsService } from './custom-fields.service';
+import { CustomFieldsController } from './custom-fields.controller';
+import { PrismaModule } from '@/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [CustomFieldsController],
+  providers: [CustomFieldsService],
+  exports: [CustomFieldsService], // Validação de valores e filtros em Leads, Clients e Forms
+})
+export class CustomFieldsModule {}
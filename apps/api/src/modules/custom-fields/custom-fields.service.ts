@@ -0,0 +1,342 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { CustomFieldDef, CustomFieldEntity, CustomFieldType, Prisma } from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import { CreateCustomFieldDto, UpdateCustomFieldDto } from './dto/custom-field.dto';
+
+/** Valores gravados em Lead/Client.customFields (chave = CustomFieldDef.key) */
+export type CustomFieldValues = Record<string, string | number>;
+
+/** Limites das etiquetas livres */
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const MAX_TEXT_LENGTH = 500;
+
+/**
+ * Normaliza etiquetas: remove vazias, corta no limite e remove repetidas (sem diferenciar maiúsculas)
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const raw of tags) {
+    const tag = raw.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+  }
+
+  if (result.length > MAX_TAGS) {
+    throw new BadRequestException(`Máximo de ${MAX_TAGS} etiquetas por registro`);
+  }
+
+  return result;
+}
+
+/**
+ * Query string da listagem: ?tags=a,b (ou repetido) → etiquetas exigidas
+ */
+export function parseTagsQuery(value?: string | string[]): string[] | undefined {
+  const tags = (Array.isArray(value) ? value : [value ?? ''])
+    .flatMap((item) => item.split(','))
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  return tags.length > 0 ? tags : undefined;
+}
+
+/**
+ * Query string da listagem: ?cf[chave]=valor → filtros por campo personalizado
+ */
+export function parseCustomFieldQuery(value?: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const entries = Object.entries(value as Record<string, unknown>).filter(
+    (entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== '',
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Custom Fields Service
+ * Campos personalizados de leads e clientes (texto, número, seleção e data)
+ *
+ * VALORES:
+ * - Gravados no JSON customFields do registro, validados contra as definições ativas
+ * - Vazio/null remove o valor; campos desativados mantêm os valores já gravados
+ *
+ * EXCLUSÃO:
+ * - Campo sem valores gravados → removido
+ * - Campo em uso → apenas desativado (mesmo critério dos motivos de perda)
+ */
+@Injectable()
+export class CustomFieldsService {
+  private readonly logger = new Logger(CustomFieldsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Listar definições (apenas ativas por padrão)
+   */
+  async findAll(entity?: CustomFieldEntity, includeInactive = false) {
+    return this.prisma.customFieldDef.findMany({
+      where: {
+        ...(entity && { entity }),
+        ...(!includeInactive && { isActive: true }),
+      },
+      orderBy: [{ entity: 'asc' }, { sortOrder: 'asc' }, { label: 'asc' }],
+    });
+  }
+
+  /**
+   * Buscar definição por ID
+   */
+  async findOne(id: string) {
+    const field = await this.prisma.customFieldDef.findUnique({ where: { id } });
+
+    if (!field) {
+      throw new NotFoundException(`Campo personalizado ${id} não encontrado`);
+    }
+
+    return field;
+  }
+
+  /**
+   * Criar campo (chave gerada do rótulo quando não informada)
+   */
+  async create(dto: CreateCustomFieldDto) {
+    let key = dto.key;
+
+    if (key) {
+      const conflict = await this.prisma.customFieldDef.findUnique({
+        where: { entity_key: { entity: dto.entity, key } },
+      });
+      if (conflict) {
+        throw new ConflictException(`Já existe um campo com a chave "${key}"`);
+      }
+    } else {
+      key = await this.generateUniqueKey(dto.entity, dto.label);
+    }
+
+    const field = await this.prisma.customFieldDef.create({
+      data: {
+        entity: dto.entity,
+        key,
+        label: dto.label,
+        type: dto.type,
+        options: dto.type === CustomFieldType.SELECT ? dto.options : [],
+        sortOrder: dto.sortOrder,
+        isActive: dto.isActive,
+      },
+    });
+
+    this.logger.log(`✅ Campo personalizado criado: ${field.label} (${field.entity}.${field.key})`);
+    return field;
+  }
+
+  /**
+   * Atualizar rótulo, opções, ordem ou ativar/desativar
+   */
+  async update(id: string, dto: UpdateCustomFieldDto) {
+    const existing = await this.findOne(id);
+
+    if (dto.options !== undefined) {
+      if (existing.type !== CustomFieldType.SELECT) {
+        throw new BadRequestException('Apenas campos de seleção possuem opções');
+      }
+      if (dto.options.length === 0) {
+        throw new BadRequestException('Campos de seleção precisam de ao menos uma opção');
+      }
+    }
+
+    const updated = await this.prisma.customFieldDef.update({
+      where: { id },
+      data: dto,
+    });
+
+    this.logger.log(`✅ Campo personalizado atualizado: ${updated.label}${updated.isActive ? '' : ' (inativo)'}`);
+    return updated;
+  }
+
+  /**
+   * Remover campo
+   * IMPORTANTE: Campos com valores gravados não são removidos — desative-os
+   */
+  async remove(id: string) {
+    const field = await this.findOne(id);
+    const usage = await this.countUsage(field);
+
+    if (usage > 0) {
+      throw new ConflictException(
+        `Campo "${field.label}" possui valores em ${usage} registro(s). Desative-o em vez de remover.`,
+      );
+    }
+
+    await this.prisma.customFieldDef.delete({ where: { id } });
+
+    this.logger.warn(`⚠️ Campo personalizado removido: ${field.label} (${field.entity}.${field.key})`);
+  }
+
+  /**
+   * Etiquetas em uso (sugestões do editor e opções do filtro), mais usadas primeiro
+   */
+  async getTags(entity: CustomFieldEntity): Promise<Array<{ tag: string; count: number }>> {
+    return entity === CustomFieldEntity.CLIENT
+      ? this.prisma.$queryRaw`
+          SELECT tag, COUNT(*)::int AS count FROM "Client", unnest("tags") AS tag
+          GROUP BY tag ORDER BY count DESC, tag ASC LIMIT 200`
+      : this.prisma.$queryRaw`
+          SELECT tag, COUNT(*)::int AS count FROM "Lead", unnest("tags") AS tag
+          GROUP BY tag ORDER BY count DESC, tag ASC LIMIT 200`;
+  }
+
+  /**
+   * Valida os valores enviados e mescla com os atuais do registro
+   *
+   * - lenient: valores inválidos ou de campos inexistentes são descartados em vez de
+   *   recusar a operação (submissões públicas de formulário)
+   */
+  async normalizeValues(
+    entity: CustomFieldEntity,
+    input: Record<string, unknown> | null | undefined,
+    options: { current?: Prisma.JsonValue; lenient?: boolean } = {},
+  ): Promise<CustomFieldValues> {
+    const current = options.current;
+    const result: CustomFieldValues =
+      current && typeof current === 'object' && !Array.isArray(current) ? { ...(current as CustomFieldValues) } : {};
+
+    if (!input || Object.keys(input).length === 0) return result;
+
+    const defs = await this.findAll(entity);
+    const byKey = new Map(defs.map((def) => [def.key, def]));
+
+    for (const [key, raw] of Object.entries(input)) {
+      const def = byKey.get(key);
+
+      if (!def) {
+        if (options.lenient) continue;
+        throw new BadRequestException(`Campo personalizado "${key}" não existe ou está inativo`);
+      }
+
+      if (raw === null || raw === undefined || (typeof raw === 'string' && raw.trim() === '')) {
+        delete result[key];
+        continue;
+      }
+
+      try {
+        result[key] = this.coerceValue(def, raw);
+      } catch (error) {
+        if (!options.lenient) {
+          throw new BadRequestException(`${def.label}: ${error.message}`);
+        }
+        this.logger.warn(`⚠️ Valor descartado para ${entity}.${key}: ${error.message}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Filtros da listagem (?cf[chave]=valor): texto por "contém", demais por igualdade
+   */
+  async buildFilters(
+    entity: CustomFieldEntity,
+    filters: Record<string, string> | undefined,
+  ): Promise<Array<{ customFields: Prisma.JsonFilter }>> {
+    const entries = Object.entries(filters ?? {}).filter(([, value]) => typeof value === 'string' && value.trim());
+    if (entries.length === 0) return [];
+
+    const defs = await this.findAll(entity, true);
+    const byKey = new Map(defs.map((def) => [def.key, def]));
+
+    return entries.map(([key, value]) => {
+      const def = byKey.get(key);
+      if (!def) {
+        throw new BadRequestException(`Campo personalizado "${key}" não existe`);
+      }
+
+      if (def.type === CustomFieldType.TEXT) {
+        return { customFields: { path: [key], string_contains: value.trim() } };
+      }
+
+      try {
+        return { customFields: { path: [key], equals: this.coerceValue(def, value) } };
+      } catch (error) {
+        throw new BadRequestException(`Filtro ${def.label}: ${error.message}`);
+      }
+    });
+  }
+
+  /**
+   * Converte o valor para o formato gravado (erro com mensagem amigável)
+   */
+  private coerceValue(def: CustomFieldDef, raw: unknown): string | number {
+    switch (def.type) {
+      case CustomFieldType.NUMBER: {
+        const value = typeof raw === 'number' ? raw : Number(String(raw).trim().replace(',', '.'));
+        if (!Number.isFinite(value)) throw new Error('deve ser um número');
+        return value;
+      }
+
+      case CustomFieldType.SELECT: {
+        const text = String(raw).trim().toLowerCase();
+        const option = def.options.find((o) => o.toLowerCase() === text);
+        if (!option) throw new Error(`opção inválida (aceitas: ${def.options.join(', ')})`);
+        return option;
+      }
+
+      case CustomFieldType.DATE: {
+        const text = String(raw).trim();
+        const br = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(text);
+        const iso = br ? `${br[3]}-${br[2]}-${br[1]}` : text.slice(0, 10);
+        const date = new Date(`${iso}T00:00:00Z`);
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(iso) || Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== iso) {
+          throw new Error('data inválida (use AAAA-MM-DD ou DD/MM/AAAA)');
+        }
+        return iso;
+      }
+
+      case CustomFieldType.TEXT:
+      default: {
+        const text = String(raw).trim();
+        if (text.length > MAX_TEXT_LENGTH) throw new Error(`máximo de ${MAX_TEXT_LENGTH} caracteres`);
+        return text;
+      }
+    }
+  }
+
+  private async countUsage(field: CustomFieldDef): Promise<number> {
+    const rows = field.entity === CustomFieldEntity.CLIENT
+      ? await this.prisma.$queryRaw<Array<{ count: number }>>`
+          SELECT COUNT(*)::int AS count FROM "Client" WHERE jsonb_exists("customFields", ${field.key})`
+      : await this.prisma.$queryRaw<Array<{ count: number }>>`
+          SELECT COUNT(*)::int AS count FROM "Lead" WHERE jsonb_exists("customFields", ${field.key})`;
+
+    return rows[0]?.count ?? 0;
+  }
+
+  private async generateUniqueKey(entity: CustomFieldEntity, label: string): Promise<string> {
+    const base =
+      label
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .replace(/^(\d)/, 'campo_$1')
+        .slice(0, 44) || 'campo';
+
+    let key = base;
+    let attempt = 1;
+
+    while (await this.prisma.customFieldDef.findUnique({ where: { entity_key: { entity, key } } })) {
+      attempt++;
+      key = `${base}_${attempt}`;
+    }
+
+    return key;
+  }
+}
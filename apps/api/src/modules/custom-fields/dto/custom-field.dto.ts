@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { CustomFieldEntity, CustomFieldType } from '@prisma/client';
+
+const optionsSchema = z
+  .array(z.string().trim().min(1).max(80))
+  .max(50, 'Máximo de 50 opções')
+  .transform((options) => [...new Set(options)]);
+
+/**
+ * DTO para criar campo personalizado
+ * - key: opcional, gerada a partir do rótulo (snake_case); não muda depois de criada
+ * - options: obrigatórias para SELECT
+ */
+export const CreateCustomFieldSchema = z
+  .object({
+    entity: z.nativeEnum(CustomFieldEntity, {
+      errorMap: () => ({ message: 'Entidade inválida. Valores aceitos: LEAD, CLIENT' }),
+    }),
+    label: z
+      .string()
+      .trim()
+      .min(2, 'Rótulo deve ter no mínimo 2 caracteres')
+      .max(80, 'Rótulo deve ter no máximo 80 caracteres'),
+    key: z
+      .string()
+      .max(50)
+      .regex(/^[a-z][a-z0-9_]*$/, 'Chave deve começar com letra e conter apenas letras minúsculas, números e _')
+      .optional(),
+    type: z.nativeEnum(CustomFieldType, {
+      errorMap: () => ({ message: 'Tipo inválido. Valores aceitos: TEXT, NUMBER, SELECT, DATE' }),
+    }),
+    options: optionsSchema.default([]),
+    sortOrder: z.number().int().min(0).default(0),
+    isActive: z.boolean().default(true),
+  })
+  .refine((data) => data.type !== CustomFieldType.SELECT || data.options.length > 0, {
+    message: 'Campos de seleção precisam de ao menos uma opção',
+    path: ['options'],
+  });
+
+export type CreateCustomFieldDto = z.infer<typeof CreateCustomFieldSchema>;
+
+// Update: entidade, chave e tipo são fixos (valores já gravados dependem deles)
+export const UpdateCustomFieldSchema = z
+  .object({
+    label: z.string().trim().min(2).max(80),
+    options: optionsSchema,
+    sortOrder: z.number().int().min(0),
+    isActive: z.boolean(),
+  })
+  .partial();
+
+export type UpdateCustomFieldDto = z.infer<typeof UpdateCustomFieldSchema>;
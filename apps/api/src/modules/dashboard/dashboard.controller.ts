@@ -1,7 +1,8 @@
 import { Controller, Get, Query } from '@nestjs/common';
 import { DashboardService } from './dashboard.service';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
-import { UserRole } from '@prisma/client';
+import { RequirePermission } from '../../common/decorators/require-permission.decorator';
+import { UserRole, Module } from '@prisma/client';
 import {
   DashboardFiltersDto,
   DashboardFiltersSchema,
@@ -11,6 +12,7 @@ import {
 import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
 import { GenerateInsightsResponseDto } from './dto/insights.dto';
 
+@RequirePermission(Module.DASHBOARD, 'view')
 @Controller('dashboard')
 export class DashboardController {
   constructor(private readonly dashboardService: DashboardService) {}
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { DunningAction, ProductType } from '@prisma/client';
+
+/**
+ * Schema Zod para um passo da régua de cobrança (D+N → ação)
+ */
+export const DunningStepSchema = z.object({
+  dayOffset: z.number().int().min(0, 'Dia deve ser D+0 ou posterior').max(365, 'Dia máximo é D+365'),
+  action: z.nativeEnum(DunningAction, {
+    errorMap: () => ({ message: 'Ação inválida' }),
+  }),
+  message: z.string().max(2000).optional().nullable(),
+});
+
+const stepsSchema = z
+  .array(DunningStepSchema)
+  .min(1, 'Informe ao menos um passo')
+  .refine(
+    (steps) => new Set(steps.map((s) => `${s.dayOffset}:${s.action}`)).size === steps.length,
+    'Passo duplicado (mesmo dia e ação)',
+  )
+  .refine(
+    (steps) => steps.filter((s) => s.action === DunningAction.CANCEL_SUBSCRIPTION).length <= 1,
+    'A régua pode ter apenas um passo de cancelamento',
+  );
+
+/**
+ * Schema Zod para criar política de cobrança
+ *
+ * ESCOPO:
+ * - planId: política de um plano específico
+ * - product: política de todos os planos do produto
+ * - nenhum dos dois: política padrão
+ */
+export const CreateDunningPolicySchema = z
+  .object({
+    name: z.string().min(1, 'Nome é obrigatório').max(120),
+    planId: z.string().optional().nullable(),
+    product: z.nativeEnum(ProductType).optional().nullable(),
+    isActive: z.boolean().default(true),
+    steps: stepsSchema,
+  })
+  .refine((data) => !(data.planId && data.product), {
+    message: 'Informe plano OU produto, não ambos',
+    path: ['product'],
+  });
+
+export const UpdateDunningPolicySchema = z.object({
+  name: z.string().min(1).max(120).optional(),
+  isActive: z.boolean().optional(),
+  steps: stepsSchema.optional(), // Substitui todos os passos
+});
+
+export type DunningStepDto = z.infer<typeof DunningStepSchema>;
+export type CreateDunningPolicyDto = z.infer<typeof CreateDunningPolicySchema>;
+export type UpdateDunningPolicyDto = z.infer<typeof UpdateDunningPolicySchema>;
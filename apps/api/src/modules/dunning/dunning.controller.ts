@@ -0,0 +1,65 @@
+import {
+  Controller, Get, Post, Put, Delete,
+  Body, Param, UseGuards,
+} from '@nestjs/common';
+import { DunningService } from './dunning.service';
+import { RolesGuard } from '@/common/guards/roles.guard';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+import { UserRole, Module } from '@prisma/client';
+import {
+  CreateDunningPolicyDto, CreateDunningPolicySchema,
+  UpdateDunningPolicyDto, UpdateDunningPolicySchema,
+} from './dto/dunning-policy.dto';
+
+@RequirePermission(Module.FINANCE, 'view')
+@Controller('dunning')
+@UseGuards(RolesGuard)
+export class DunningController {
+  constructor(private readonly service: DunningService) {}
+
+  // POLÍTICAS
+  @Get('policies')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async findAll() {
+    return this.service.findAll();
+  }
+
+  @Get('policies/:id')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async findOne(@Param('id') id: string) {
+    return this.service.findOne(id);
+  }
+
+  @Post('policies')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  @RequirePermission(Module.FINANCE, 'create')
+  async create(@Body(new ZodValidationPipe(CreateDunningPolicySchema)) dto: CreateDunningPolicyDto) {
+    return this.service.create(dto);
+  }
+
+  @Put('policies/:id')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  @RequirePermission(Module.FINANCE, 'edit')
+  async update(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(UpdateDunningPolicySchema)) dto: UpdateDunningPolicyDto,
+  ) {
+    return this.service.update(id, dto);
+  }
+
+  @Delete('policies/:id')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  @RequirePermission(Module.FINANCE, 'delete')
+  async remove(@Param('id') id: string) {
+    return this.service.remove(id);
+  }
+
+  // HISTÓRICO POR CLIENTE (aba financeira)
+  @Get('client/:clientId/events')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async getClientEvents(@Param('clientId') clientId: string) {
+    return this.service.getClientEvents(clientId);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { DunningController } from './dunning.controller';
+import { DunningService } from './dunning.service';
+import { TenantsModule } from '../tenants/tenants.module';
+
+@Module({
+  imports: [
+    HttpModule.register({
+      timeout: 15000,
+      maxRedirects: 3,
+    }),
+    TenantsModule,
+  ],
+  controllers: [DunningController],
+  providers: [DunningService],
+  exports: [DunningService], // Exportar para o cron overdue-detection (SubscriptionModule)
+})
+export class DunningModule {}
@@ -0,0 +1,576 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import {
+  DunningAction,
+  DunningEventStatus,
+  NotificationType,
+  Prisma,
+  ProductType,
+} from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import { TenantsService } from '../tenants/tenants.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { MailService } from '../mail/mail.service';
+import { CreateDunningPolicyDto, UpdateDunningPolicyDto } from './dto/dunning-policy.dto';
+
+/**
+ * Passo resolvido da régua (id null = régua embutida)
+ */
+export interface ResolvedDunningStep {
+  id: string | null;
+  dayOffset: number;
+  action: DunningAction;
+  message: string | null;
+}
+
+export interface ResolvedDunningPolicy {
+  id: string | null;
+  name: string;
+  steps: ResolvedDunningStep[];
+}
+
+/**
+ * Cobrança vencida processada pela régua (FinanceTransaction + client)
+ */
+export interface OverdueCharge {
+  id: string;
+  amount: Prisma.Decimal;
+  dueDate: Date | null;
+  clientId: string | null;
+  subscriptionId: string | null;
+  client: {
+    company: string;
+    contactName: string;
+    email: string;
+    phone: string;
+    vendedorId: string;
+  } | null;
+}
+
+export interface OverdueSubscription {
+  id: string;
+  planId: string;
+  gracePeriodDays: number;
+  plan: { product: ProductType };
+}
+
+interface StepOutcome {
+  status: DunningEventStatus;
+  detail: string;
+}
+
+const POLICY_INCLUDE = {
+  plan: { select: { id: true, name: true, product: true } },
+  steps: { orderBy: [{ dayOffset: 'asc' }, { action: 'asc' }] },
+} satisfies Prisma.DunningPolicyInclude;
+
+/**
+ * Dunning Service — Régua de cobrança configurável
+ *
+ * FUNCIONAMENTO:
+ * 1. O cron overdue-detection (SubscriptionService) chama processOverdue()
+ *    para cada FinanceTransaction recorrente vencida
+ * 2. A política é resolvida por plano → produto → padrão; sem nenhuma
+ *    cadastrada, usa a régua embutida — comportamento anterior à régua: tenant
+ *    suspenso em D+1 com o cliente INADIMPLENTE (não BLOQUEADO) e cancelamento
+ *    após gracePeriodDays
+ * 3. Cada passo com dayOffset <= dias de atraso é executado uma única vez
+ *    por cobrança e registrado em DunningEvent (visível na aba financeira)
+ *
+ * IMPORTANTE:
+ * - Passos FAILED são reexecutados no próximo ciclo
+ * - Cancelamento encerra a régua da cobrança
+ * - Falhas de canal (email/WhatsApp) nunca bloqueiam os demais passos
+ */
+@Injectable()
+export class DunningService {
+  private readonly logger = new Logger(DunningService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tenantsService: TenantsService,
+    private readonly notificationsService: NotificationsService,
+    private readonly mailService: MailService,
+    private readonly httpService: HttpService,
+    private readonly config: ConfigService,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════
+  // POLÍTICAS (CRUD)
+  // ══════════════════════════════════════════════════════════════
+
+  async findAll() {
+    return this.prisma.dunningPolicy.findMany({
+      include: POLICY_INCLUDE,
+      orderBy: [{ planId: { sort: 'asc', nulls: 'first' } }, { product: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async findOne(id: string) {
+    const policy = await this.prisma.dunningPolicy.findUnique({
+      where: { id },
+      include: POLICY_INCLUDE,
+    });
+
+    if (!policy) {
+      throw new NotFoundException(`Política de cobrança ${id} não encontrada`);
+    }
+
+    return policy;
+  }
+
+  async create(dto: CreateDunningPolicyDto) {
+    const planId = dto.planId || null;
+    const product = dto.product || null;
+
+    if (planId) {
+      const plan = await this.prisma.plan.findUnique({ where: { id: planId }, select: { id: true } });
+      if (!plan) {
+        throw new BadRequestException(`Plano ${planId} não encontrado`);
+      }
+    }
+
+    await this.ensureScopeAvailable(planId, product);
+
+    const policy = await this.prisma.dunningPolicy.create({
+      data: {
+        name: dto.name,
+        planId,
+        product,
+        isActive: dto.isActive,
+        steps: { create: dto.steps.map((step) => this.toStepData(step)) },
+      },
+      include: POLICY_INCLUDE,
+    });
+
+    this.logger.log(`✅ Política de cobrança criada: ${policy.name} (${this.describeScope(policy)})`);
+    return policy;
+  }
+
+  async update(id: string, dto: UpdateDunningPolicyDto) {
+    await this.findOne(id);
+
+    // Passos são substituídos em bloco; eventos antigos mantêm o histórico (stepId → null)
+    const policy = await this.prisma.$transaction(async (tx) => {
+      if (dto.steps) {
+        await tx.dunningStep.deleteMany({ where: { policyId: id } });
+      }
+
+      return tx.dunningPolicy.update({
+        where: { id },
+        data: {
+          name: dto.name,
+          isActive: dto.isActive,
+          steps: dto.steps
+            ? { create: dto.steps.map((step) => this.toStepData(step)) }
+            : undefined,
+        },
+        include: POLICY_INCLUDE,
+      });
+    });
+
+    this.logger.log(`✅ Política de cobrança atualizada: ${policy.name}`);
+    return policy;
+  }
+
+  async remove(id: string) {
+    const policy = await this.findOne(id);
+    await this.prisma.dunningPolicy.delete({ where: { id } });
+
+    this.logger.log(`🗑️ Política de cobrança removida: ${policy.name}`);
+    return { message: 'Política de cobrança removida com sucesso' };
+  }
+
+  /**
+   * Histórico da régua de um cliente (aba financeira)
+   */
+  async getClientEvents(clientId: string) {
+    return this.prisma.dunningEvent.findMany({
+      where: { clientId },
+      include: {
+        financeTransaction: { select: { id: true, description: true, amount: true, dueDate: true, status: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  // ══════════════════════════════════════════════════════════════
+  // EXECUÇÃO DA RÉGUA
+  // ══════════════════════════════════════════════════════════════
+
+  /**
+   * Política aplicável à assinatura: plano → produto → padrão → embutida
+   */
+  async resolvePolicy(subscription: OverdueSubscription): Promise<ResolvedDunningPolicy> {
+    const candidates = await this.prisma.dunningPolicy.findMany({
+      where: {
+        isActive: true,
+        OR: [
+          { planId: subscription.planId },
+          { planId: null, product: subscription.plan.product },
+          { planId: null, product: null },
+        ],
+      },
+      include: { steps: true },
+    });
+
+    const policy =
+      candidates.find((p) => p.planId === subscription.planId) ??
+      candidates.find((p) => p.product === subscription.plan.product) ??
+      candidates.find((p) => !p.planId && !p.product);
+
+    if (policy && policy.steps.length > 0) {
+      return {
+        id: policy.id,
+        name: policy.name,
+        steps: policy.steps.map((s) => ({
+          id: s.id,
+          dayOffset: s.dayOffset,
+          action: s.action,
+          message: s.message,
+        })),
+      };
+    }
+
+    // Régua embutida: suspende o tenant em D+1 (cliente segue INADIMPLENTE), cancela após a carência
+    const gracePeriod = subscription.gracePeriodDays || 7;
+    return {
+      id: null,
+      name: 'Régua padrão',
+      steps: [
+        { id: null, dayOffset: 1, action: DunningAction.SUSPEND_TENANT, message: null },
+        { id: null, dayOffset: gracePeriod + 1, action: DunningAction.CANCEL_SUBSCRIPTION, message: null },
+      ],
+    };
+  }
+
+  /**
+   * Executa os passos vencidos da régua para uma cobrança em atraso
+   * Retorna canceled=true se a assinatura foi cancelada nesta execução
+   * ou em uma anterior, e o dia previsto para o cancelamento
+   */
+  async processOverdue(
+    charge: OverdueCharge,
+    subscription: OverdueSubscription,
+    daysOverdue: number,
+  ): Promise<{ canceled: boolean; cancelDay: number | null }> {
+    const policy = await this.resolvePolicy(subscription);
+    const cancelDay =
+      policy.steps.find((s) => s.action === DunningAction.CANCEL_SUBSCRIPTION)?.dayOffset ?? null;
+
+    if (!charge.clientId) {
+      return { canceled: false, cancelDay };
+    }
+
+    const history = await this.prisma.dunningEvent.findMany({
+      where: { financeTransactionId: charge.id },
+      select: { action: true, dayOffset: true, status: true },
+    });
+    const done = new Map(history.map((e) => [`${e.action}:${e.dayOffset}`, e.status]));
+
+    // Cancelamento sempre por último dentro do mesmo dia
+    const dueSteps = policy.steps
+      .filter((s) => s.dayOffset <= daysOverdue)
+      .sort((a, b) =>
+        a.dayOffset - b.dayOffset ||
+        Number(a.action === DunningAction.CANCEL_SUBSCRIPTION) - Number(b.action === DunningAction.CANCEL_SUBSCRIPTION),
+      );
+
+    for (const step of dueSteps) {
+      const previous = done.get(`${step.action}:${step.dayOffset}`);
+
+      if (previous && previous !== DunningEventStatus.FAILED) {
+        if (step.action === DunningAction.CANCEL_SUBSCRIPTION && previous === DunningEventStatus.SUCCESS) {
+          return { canceled: true, cancelDay };
+        }
+        continue;
+      }
+
+      const outcome = await this.executeStep(step, charge, subscription, daysOverdue);
+
+      await this.prisma.dunningEvent.upsert({
+        where: {
+          financeTransactionId_action_dayOffset: {
+            financeTransactionId: charge.id,
+            action: step.action,
+            dayOffset: step.dayOffset,
+          },
+        },
+        create: {
+          clientId: charge.clientId,
+          subscriptionId: subscription.id,
+          financeTransactionId: charge.id,
+          stepId: step.id,
+          action: step.action,
+          dayOffset: step.dayOffset,
+          daysOverdue,
+          status: outcome.status,
+          detail: outcome.detail,
+        },
+        update: {
+          stepId: step.id,
+          daysOverdue,
+          status: outcome.status,
+          detail: outcome.detail,
+        },
+      });
+
+      this.logger.log(
+        `📮 [Dunning] ${policy.name} | D+${step.dayOffset} ${step.action} → ${outcome.status} | ` +
+          `${this.clientLabel(charge)} (${daysOverdue} dias)`,
+      );
+
+      if (step.action === DunningAction.CANCEL_SUBSCRIPTION && outcome.status === DunningEventStatus.SUCCESS) {
+        return { canceled: true, cancelDay };
+      }
+    }
+
+    return { canceled: false, cancelDay };
+  }
+
+  private async executeStep(
+    step: ResolvedDunningStep,
+    charge: OverdueCharge,
+    subscription: OverdueSubscription,
+    daysOverdue: number,
+  ): Promise<StepOutcome> {
+    try {
+      switch (step.action) {
+        case DunningAction.EMAIL_REMINDER:
+          return await this.sendEmailReminder(step, charge, daysOverdue);
+        case DunningAction.WHATSAPP_REMINDER:
+          return await this.sendWhatsAppReminder(step, charge, daysOverdue);
+        case DunningAction.SUSPEND_TENANT:
+          return await this.suspendClient(step, charge, daysOverdue);
+        case DunningAction.CANCEL_SUBSCRIPTION:
+          return await this.cancelSubscription(charge, subscription, daysOverdue);
+      }
+    } catch (error) {
+      this.logger.error(`❌ [Dunning] Falha em ${step.action} (${charge.id}): ${error.message}`);
+      return { status: DunningEventStatus.FAILED, detail: error.message };
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════
+  // AÇÕES
+  // ══════════════════════════════════════════════════════════════
+
+  private async sendEmailReminder(
+    step: ResolvedDunningStep,
+    charge: OverdueCharge,
+    daysOverdue: number,
+  ): Promise<StepOutcome> {
+    if (!charge.client?.email) {
+      return { status: DunningEventStatus.SKIPPED, detail: 'Cliente sem email cadastrado' };
+    }
+
+    const sent = await this.mailService.sendPaymentReminderEmail({
+      to: charge.client.email,
+      name: charge.client.contactName,
+      company: charge.client.company,
+      amount: Number(charge.amount),
+      dueDate: charge.dueDate ?? new Date(),
+      daysOverdue,
+      message: step.message ? this.renderMessage(step.message, charge, daysOverdue) : null,
+    });
+
+    return sent
+      ? { status: DunningEventStatus.SUCCESS, detail: `Email enviado para ${charge.client.email}` }
+      : { status: DunningEventStatus.FAILED, detail: `Falha no envio para ${charge.client.email}` };
+  }
+
+  /**
+   * Envio via gateway HTTP de WhatsApp (WHATSAPP_API_URL + WHATSAPP_API_TOKEN)
+   * Sem gateway configurado, o passo é registrado como SKIPPED
+   */
+  private async sendWhatsAppReminder(
+    step: ResolvedDunningStep,
+    charge: OverdueCharge,
+    daysOverdue: number,
+  ): Promise<StepOutcome> {
+    const apiUrl = this.config.get<string>('WHATSAPP_API_URL');
+    if (!apiUrl) {
+      return { status: DunningEventStatus.SKIPPED, detail: 'Gateway de WhatsApp não configurado' };
+    }
+
+    const phone = charge.client?.phone?.replace(/\D/g, '');
+    if (!phone) {
+      return { status: DunningEventStatus.SKIPPED, detail: 'Cliente sem telefone cadastrado' };
+    }
+
+    const template =
+      step.message ||
+      'Olá, {{nome}}! A cobrança de {{valor}} da {{empresa}}, vencida em {{vencimento}}, ' +
+        'está em aberto há {{dias}} dia(s). Se já pagou, desconsidere esta mensagem.';
+
+    await firstValueFrom(
+      this.httpService.post(
+        apiUrl,
+        { phone: phone.startsWith('55') ? phone : `55${phone}`, message: this.renderMessage(template, charge, daysOverdue) },
+        {
+          headers: { Authorization: `Bearer ${this.config.get<string>('WHATSAPP_API_TOKEN', '')}` },
+          timeout: 15000,
+        },
+      ),
+    );
+
+    return { status: DunningEventStatus.SUCCESS, detail: `WhatsApp enviado para ${phone}` };
+  }
+
+  /**
+   * Suspende o tenant no One Nexus e bloqueia o cliente (políticas cadastradas)
+   */
+  private async suspendClient(
+    step: ResolvedDunningStep,
+    charge: OverdueCharge,
+    daysOverdue: number,
+  ): Promise<StepOutcome> {
+    const clientId = charge.clientId!;
+    // Régua embutida só suspende o tenant — o cliente segue INADIMPLENTE como antes da régua
+    const blockClient = step.id !== null;
+
+    if (blockClient) {
+      await this.prisma.client.updateMany({
+        where: { id: clientId, status: { notIn: ['CANCELADO', 'BLOQUEADO'] } },
+        data: { status: 'BLOQUEADO' },
+      });
+    }
+
+    // syncStatusToOneNexus já trata falhas (graceful degradation)
+    await this.tenantsService.syncStatusToOneNexus(clientId, 'suspended');
+
+    if (charge.client?.vendedorId) {
+      this.notificationsService.create({
+        userId: charge.client.vendedorId,
+        type: NotificationType.PAYMENT_OVERDUE,
+        title: blockClient ? 'Cliente bloqueado por inadimplência' : 'Acesso suspenso por inadimplência',
+        message: `${this.clientLabel(charge)} teve o acesso suspenso após ${daysOverdue} dias sem pagamento.`,
+        link: '/clients',
+        metadata: { clientId, daysOverdue },
+        dedupeKey: `suspend-${clientId}`,
+        throttleHours: 48,
+      }).catch(() => {});
+    }
+
+    return {
+      status: DunningEventStatus.SUCCESS,
+      detail: blockClient ? 'Cliente bloqueado e tenant suspenso' : 'Tenant suspenso (cliente inadimplente)',
+    };
+  }
+
+  /**
+   * Cancela assinatura, cliente e cobrança; cancela o tenant no One Nexus
+   */
+  private async cancelSubscription(
+    charge: OverdueCharge,
+    subscription: OverdueSubscription,
+    daysOverdue: number,
+  ): Promise<StepOutcome> {
+    const clientId = charge.clientId!;
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          status: 'CANCELED',
+          canceledAt: new Date(),
+          cancellationReason: 'PAYMENT_FAILURE',
+        },
+      });
+
+      await tx.client.update({
+        where: { id: clientId },
+        data: { status: 'CANCELADO' },
+      });
+
+      await tx.financeTransaction.update({
+        where: { id: charge.id },
+        data: { status: 'CANCELLED' },
+      });
+    });
+
+    this.logger.warn(`🔴 [Dunning] CANCELADO: ${this.clientLabel(charge)} | ${daysOverdue} dias em atraso`);
+
+    // Fora da tx (graceful degradation)
+    await this.tenantsService.syncStatusToOneNexus(clientId, 'canceled');
+
+    if (charge.client?.vendedorId) {
+      this.notificationsService.create({
+        userId: charge.client.vendedorId,
+        type: NotificationType.PAYMENT_OVERDUE,
+        title: 'Assinatura cancelada por inadimplência',
+        message: `${this.clientLabel(charge)} foi cancelado após ${daysOverdue} dias sem pagamento.`,
+        link: '/clients',
+        metadata: { clientId, daysOverdue, subscriptionId: subscription.id },
+        dedupeKey: `cancel-${clientId}`,  // 1 alerta de cancelamento por cliente
+        throttleHours: 48,
+      }).catch(() => {});
+    }
+
+    return { status: DunningEventStatus.SUCCESS, detail: 'Assinatura, cliente e tenant cancelados' };
+  }
+
+  // ══════════════════════════════════════════════════════════════
+  // HELPERS
+  // ══════════════════════════════════════════════════════════════
+
+  /**
+   * Placeholders: {{nome}}, {{empresa}}, {{valor}}, {{vencimento}}, {{dias}}
+   */
+  private renderMessage(template: string, charge: OverdueCharge, daysOverdue: number): string {
+    const values: Record<string, string> = {
+      nome: charge.client?.contactName ?? '',
+      empresa: charge.client?.company ?? '',
+      valor: Number(charge.amount).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }),
+      vencimento: charge.dueDate
+        ? new Intl.DateTimeFormat('pt-BR', { timeZone: 'America/Sao_Paulo' }).format(charge.dueDate)
+        : '',
+      dias: String(daysOverdue),
+    };
+
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => values[key] ?? match);
+  }
+
+  /**
+   * Apenas uma política por plano, por produto e uma padrão
+   */
+  private async ensureScopeAvailable(planId: string | null, product: ProductType | null) {
+    const existing = await this.prisma.dunningPolicy.findFirst({
+      where: planId ? { planId } : { planId: null, product },
+      select: { name: true },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Já existe uma política para ${this.describeScope({ planId, product })}: ${existing.name}`,
+      );
+    }
+  }
+
+  private describeScope(scope: { planId: string | null; product: ProductType | null }): string {
+    if (scope.planId) return `plano ${scope.planId}`;
+    if (scope.product) return `produto ${scope.product}`;
+    return 'padrão';
+  }
+
+  private toStepData(step: { dayOffset: number; action: DunningAction; message?: string | null }) {
+    return {
+      dayOffset: step.dayOffset,
+      action: step.action,
+      message: step.message?.trim() || null,
+    };
+  }
+
+  private clientLabel(charge: OverdueCharge): string {
+    return charge.client?.company || charge.client?.contactName || charge.clientId || charge.id;
+  }
+}
@@ -7,15 +7,17 @@ import { FileInterceptor } from '@nestjs/platform-express';
 import { FinanceService } from './finance.service';
 import { RolesGuard } from '@/common/guards/roles.guard';
 import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
 import { CurrentUser } from '@/common/decorators/current-user.decorator';
 import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
-import { UserRole } from '@prisma/client';
+import { UserRole, Module } from '@prisma/client';
 import {
   CreateTransactionDto, createTransactionSchema,
   UpdateTransactionDto, updateTransactionSchema,
   TransactionFiltersDto, transactionFiltersSchema,
 } from './dto';
 
+@RequirePermission(Module.FINANCE, 'view')
 @Controller('finance')
 @UseGuards(RolesGuard)
 export class FinanceController {
@@ -49,6 +51,19 @@ export class FinanceController {
     return { success: true, data };
   }
 
+  @Get('cohorts')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async getCohortAnalytics(
+    @Query('months') months?: string,
+    @Query('productType') productType?: string,
+  ) {
+    const data = await this.service.getCohortAnalytics(
+      months ? parseInt(months) : 12,
+      productType,
+    );
+    return { success: true, data };
+  }
+
   @Get('aging-report')
   @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
   async getAgingReport(@Query('productType') productType?: string) {
@@ -94,6 +109,7 @@ export class FinanceController {
   }
 
   @Post('transactions')
+  @RequirePermission(Module.FINANCE, 'create')
   @HttpCode(HttpStatus.CREATED)
   @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
   async create(
@@ -105,6 +121,7 @@ export class FinanceController {
   }
 
   @Patch('transactions/:id')
+  @RequirePermission(Module.FINANCE, 'edit')
   @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
   async update(
     @Param('id') id: string,
@@ -115,6 +132,7 @@ export class FinanceController {
   }
 
   @Patch('transactions/:id/pay')
+  @RequirePermission(Module.FINANCE, 'edit')
   @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
   async markAsPaid(@Param('id') id: string) {
     const data = await this.service.markAsPaid(id);
@@ -122,6 +140,7 @@ export class FinanceController {
   }
 
   @Delete('transactions/:id')
+  @RequirePermission(Module.FINANCE, 'delete')
   @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
   async delete(@Param('id') id: string) {
     await this.service.delete(id);
@@ -129,6 +148,7 @@ export class FinanceController {
   }
 
   @Post('import-pdf')
+  @RequirePermission(Module.FINANCE, 'create')
   @HttpCode(HttpStatus.OK)
   @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
   @UseInterceptors(FileInterceptor('file'))
@@ -15,6 +15,25 @@ import {
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const pdfParse = require('pdf-parse');
 
+/** Meses cobertos por cada ciclo (normalização para MRR) */
+const CYCLE_MONTHS: Record<string, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  SEMIANNUAL: 6,
+  ANNUAL: 12,
+};
+
+/**
+ * Período em que um cliente gerou receita recorrente (uma subscription,
+ * ou o plano do cliente quando não há subscriptions — base legada)
+ */
+interface RevenueSpan {
+  start: Date;
+  end: Date | null;
+  mrr: number; // MRR atual (após o último upgrade/downgrade)
+  changes: Array<{ at: Date; previousMrr: number }>; // UpgradeHistory dentro do período, em ordem
+}
+
 @Injectable()
 export class FinanceService {
   private readonly logger = new Logger(FinanceService.name);
@@ -166,12 +185,15 @@ export class FinanceService {
     return this.format(updatedTransaction);
   }
 
-  async markAsPaid(id: string) {
+  /**
+   * @param paidAt Data real do crédito (conciliação bancária); padrão = agora
+   */
+  async markAsPaid(id: string, paidAt?: Date) {
     this.logger.log(`[markAsPaid] Iniciando marcação como pago - ID: ${id}`);
 
     const t = await this.prisma.financeTransaction.update({
       where: { id },
-      data: { status: 'PAID', paidAt: new Date() },
+      data: { status: 'PAID', paidAt: paidAt ?? new Date() },
       include: this.getInclude(),
     });
 
@@ -232,8 +254,8 @@ export class FinanceService {
 
       if (!client) return;
 
-      // Se cliente está EM_TRIAL ou INADIMPLENTE, ativar ao receber pagamento
-      if (client.status === 'EM_TRIAL' || client.status === 'INADIMPLENTE') {
+      // Se cliente está EM_TRIAL, INADIMPLENTE ou BLOQUEADO (régua), ativar ao receber pagamento
+      if (client.status === 'EM_TRIAL' || client.status === 'INADIMPLENTE' || client.status === 'BLOQUEADO') {
         await this.prisma.client.update({
           where: { id: clientId },
           data: { status: 'ATIVO' },
@@ -1308,6 +1330,241 @@ export class FinanceService {
     return result;
   }
 
+  // ════════════════════════════════════════════════════════════════
+  // COHORTS E MOVIMENTAÇÃO DE MRR
+  // ════════════════════════════════════════════════════════════════
+
+  /**
+   * Análise de coortes e churn de MRR
+   *
+   * Diferente do getMrrHistory (baseado em FinanceTransaction), reconstrói o MRR
+   * de cada cliente mês a mês a partir de Subscription (início/cancelamento) e
+   * UpgradeHistory (troca de plano). Clientes sem subscription (base legada)
+   * usam o preço mensal do plano desde closedAt até o cancelamento.
+   *
+   * - cohorts: clientes agrupados pelo mês de fechamento (closedAt) com
+   *   retenção de logos e NRR em cada mês desde a entrada
+   * - movements: MRR de cada mês quebrado em new, expansion, contraction,
+   *   churn e reactivation, com churn bruto e líquido
+   */
+  async getCohortAnalytics(months: number = 12, productType?: string) {
+    const finalMonths = Math.min(Math.max(Number(months) || 12, 1), 36);
+    const now = new Date();
+
+    const clients = await this.prisma.client.findMany({
+      where: productType && productType !== 'ALL' ? { productType: productType as any } : {},
+      select: {
+        id: true,
+        closedAt: true,
+        status: true,
+        updatedAt: true,
+        plan: { select: { priceMonthly: true } },
+        subscriptions: {
+          select: {
+            amount: true,
+            billingCycle: true,
+            status: true,
+            createdAt: true,
+            canceledAt: true,
+            currentPeriodEnd: true,
+          },
+        },
+        upgradeHistory: {
+          select: { previousMrr: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    const spansByClient = new Map(clients.map((c) => [c.id, this.buildRevenueSpans(c)]));
+
+    // Fim de cada mês da janela (mês corrente = agora)
+    const monthStarts = Array.from({ length: finalMonths }, (_, i) =>
+      new Date(now.getFullYear(), now.getMonth() - finalMonths + 1 + i, 1),
+    );
+    const monthEnd = (start: Date) => {
+      const end = new Date(start.getFullYear(), start.getMonth() + 1, 0, 23, 59, 59);
+      return end > now ? now : end;
+    };
+    const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    const monthLabel = (date: Date) => {
+      const name = date.toLocaleString('pt-BR', { month: 'short' }).replace('.', '');
+      return `${name.charAt(0).toUpperCase() + name.slice(1)}/${date.getFullYear().toString().slice(-2)}`;
+    };
+
+    // ═══════════════════════════════════════════════════════════════
+    // MOVIMENTAÇÃO DE MRR (mês a mês)
+    // ═══════════════════════════════════════════════════════════════
+    const movements = monthStarts.map((start) => {
+      const previousEnd = new Date(start.getTime() - 1000);
+      const end = monthEnd(start);
+      const totals = { startingMrr: 0, new: 0, expansion: 0, contraction: 0, churn: 0, reactivation: 0, endingMrr: 0 };
+
+      for (const spans of spansByClient.values()) {
+        if (spans.length === 0) continue;
+
+        const before = this.mrrAt(spans, previousEnd);
+        const after = this.mrrAt(spans, end);
+        totals.startingMrr += before;
+        totals.endingMrr += after;
+
+        if (before === 0 && after > 0) {
+          const wasActiveBefore = spans.some((span) => span.start <= previousEnd);
+          if (wasActiveBefore) totals.reactivation += after;
+          else totals.new += after;
+        } else if (before > 0 && after === 0) {
+          totals.churn += before;
+        } else if (after > before) {
+          totals.expansion += after - before;
+        } else if (after < before) {
+          totals.contraction += before - after;
+        }
+      }
+
+      const base = totals.startingMrr;
+
+      return {
+        month: monthKey(start),
+        name: monthLabel(start),
+        ...this.roundValues(totals),
+        // Churn bruto: perdas / MRR inicial. Líquido: descontando expansão e reativação
+        grossChurnRate: base > 0 ? this.roundRate((totals.churn + totals.contraction) / base) : 0,
+        netChurnRate: base > 0
+          ? this.roundRate((totals.churn + totals.contraction - totals.expansion - totals.reactivation) / base)
+          : 0,
+      };
+    });
+
+    // ═══════════════════════════════════════════════════════════════
+    // COHORTS (por mês de fechamento)
+    // ═══════════════════════════════════════════════════════════════
+    const windowStart = monthStarts[0];
+
+    const cohorts = monthStarts.map((start, cohortIndex) => {
+      const members = clients.filter(
+        (c) => c.closedAt >= start && c.closedAt < new Date(start.getFullYear(), start.getMonth() + 1, 1),
+      );
+
+      const baseMrr = members.reduce((sum, c) => sum + this.mrrAt(spansByClient.get(c.id)!, monthEnd(start)), 0);
+
+      const retention = monthStarts.slice(cohortIndex).map((periodStart, offset) => {
+        const end = monthEnd(periodStart);
+        let logos = 0;
+        let mrr = 0;
+
+        for (const client of members) {
+          const value = this.mrrAt(spansByClient.get(client.id)!, end);
+          if (value > 0) logos++;
+          mrr += value;
+        }
+
+        return {
+          month: offset,
+          logos,
+          logoRetention: members.length > 0 ? this.roundRate(logos / members.length) : null,
+          mrr: Math.round(mrr * 100) / 100,
+          revenueRetention: baseMrr > 0 ? this.roundRate(mrr / baseMrr) : null,
+        };
+      });
+
+      return {
+        cohort: monthKey(start),
+        name: monthLabel(start),
+        size: members.length,
+        startingMrr: Math.round(baseMrr * 100) / 100,
+        retention,
+      };
+    });
+
+    const totals = movements.reduce(
+      (acc, m) => ({
+        new: acc.new + m.new,
+        expansion: acc.expansion + m.expansion,
+        contraction: acc.contraction + m.contraction,
+        churn: acc.churn + m.churn,
+        reactivation: acc.reactivation + m.reactivation,
+      }),
+      { new: 0, expansion: 0, contraction: 0, churn: 0, reactivation: 0 },
+    );
+
+    return {
+      from: monthKey(windowStart),
+      to: monthKey(monthStarts[monthStarts.length - 1]),
+      cohorts,
+      movements,
+      totals: this.roundValues(totals),
+    };
+  }
+
+  /**
+   * Períodos de receita recorrente de um cliente
+   */
+  private buildRevenueSpans(client: {
+    closedAt: Date;
+    status: string;
+    updatedAt: Date;
+    plan: { priceMonthly: Prisma.Decimal } | null;
+    subscriptions: Array<{
+      amount: Prisma.Decimal;
+      billingCycle: string;
+      status: string;
+      createdAt: Date;
+      canceledAt: Date | null;
+      currentPeriodEnd: Date;
+    }>;
+    upgradeHistory: Array<{ previousMrr: Prisma.Decimal; createdAt: Date }>;
+  }): RevenueSpan[] {
+    // Base legada: sem subscription, plano do cliente desde o fechamento
+    if (client.subscriptions.length === 0) {
+      if (client.status === 'EM_TRIAL' || !client.plan) return [];
+      return [{
+        start: client.closedAt,
+        end: client.status === 'CANCELADO' ? client.updatedAt : null,
+        mrr: Number(client.plan.priceMonthly),
+        changes: [],
+      }];
+    }
+
+    return client.subscriptions
+      .filter((sub) => sub.status !== 'TRIALING')
+      .map((sub) => {
+        const end = sub.canceledAt ?? (sub.status === 'EXPIRED' ? sub.currentPeriodEnd : null);
+        const changes = client.upgradeHistory
+          .filter((u) => u.createdAt > sub.createdAt && (!end || u.createdAt <= end))
+          .map((u) => ({ at: u.createdAt, previousMrr: Number(u.previousMrr) }));
+
+        return {
+          start: sub.createdAt,
+          end,
+          mrr: Number(sub.amount) / (CYCLE_MONTHS[sub.billingCycle] ?? 1),
+          changes,
+        };
+      });
+  }
+
+  /**
+   * MRR do cliente em um instante: soma dos períodos ativos, usando o valor
+   * anterior à primeira troca de plano que ainda não tinha acontecido
+   */
+  private mrrAt(spans: RevenueSpan[], at: Date): number {
+    return spans.reduce((sum, span) => {
+      if (span.start > at || (span.end && span.end <= at)) return sum;
+      const nextChange = span.changes.find((change) => change.at > at);
+      return sum + (nextChange ? nextChange.previousMrr : span.mrr);
+    }, 0);
+  }
+
+  private roundValues<T extends Record<string, number>>(values: T): T {
+    return Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [key, Math.round(value * 100) / 100]),
+    ) as T;
+  }
+
+  /** Taxa em % com 1 casa decimal */
+  private roundRate(ratio: number): number {
+    return Math.round(ratio * 1000) / 10;
+  }
+
   // ════════════════════════════════════════════════════════════════
   // HELPERS
   // ════════════════════════════════════════════════════════════════
@@ -1,12 +1,37 @@
 import { z } from 'zod';
 import { FormPurpose, ProductType, VendorAssignmentMode } from '@prisma/client';
 
+/// Operadores das condições de exibição e das regras de pontuação
+export const FORM_CONDITION_OPERATORS = [
+  'equals', 'not_equals', 'contains', 'not_contains', 'filled', 'empty', 'gt', 'lt',
+] as const;
+
+const FormConditionSchema = z.object({
+  fieldId: z.string().min(1),
+  operator: z.enum(FORM_CONDITION_OPERATORS),
+  value: z.string().max(200).optional(), // ignorado em filled/empty
+});
+
+/// Exibe o campo (ou a página inteira) apenas quando as condições são atendidas
+const FormShowIfSchema = z.object({
+  logic: z.enum(['all', 'any']).default('all'),
+  conditions: z.array(FormConditionSchema).min(1).max(10),
+});
+
+/// Pontos somados ao score inicial do lead quando a resposta atende a regra
+const FormScoreRuleSchema = z.object({
+  operator: z.enum(FORM_CONDITION_OPERATORS),
+  value: z.string().max(200).optional(),
+  points: z.number().int().min(-50).max(50),
+});
+
 /// Definição de um campo do formulário (armazenado em Form.fields como JSON)
+/// type='page' é uma quebra de página: label = título da etapa, description = subtítulo
 const FormFieldDefSchema = z.object({
   id: z.string().min(1),
   type: z.enum([
     'text', 'email', 'phone', 'cnpj', 'cep', 'select', 'textarea',
-    'number', 'state', 'date', 'url', 'radio', 'checkbox', 'heading', 'hidden',
+    'number', 'state', 'date', 'url', 'radio', 'checkbox', 'heading', 'hidden', 'page',
   ]),
   label: z.string().min(1).max(100),
   placeholder: z.string().max(200).optional(),
@@ -16,11 +41,14 @@ const FormFieldDefSchema = z.object({
   mappedTo: z
     .enum(['name', 'email', 'phone', 'cpfCnpj', 'companyName', 'city', 'role', 'notes'])
     .optional(),
+  customFieldKey: z.string().max(50).optional(), // campo personalizado do lead (CustomFieldDef.key)
   order: z.number().int().min(0),
   minLength: z.number().int().min(0).optional(),
   maxLength: z.number().int().min(1).optional(),
   halfWidth: z.boolean().optional(),
   defaultValue: z.string().max(500).optional(),
+  showIf: FormShowIfSchema.optional(),
+  scoreRules: z.array(FormScoreRuleSchema).max(20).optional(),
 });
 
 export const CreateFormSchema = z.object({
@@ -70,6 +98,7 @@ export const CreateFormSchema = z.object({
 
 export type CreateFormDto = z.infer<typeof CreateFormSchema>;
 export type FormFieldDef = z.infer<typeof FormFieldDefSchema>;
+export type FormCondition = z.infer<typeof FormConditionSchema>;
 
 export const UpdateFormSchema = CreateFormSchema.partial();
 export type UpdateFormDto = z.infer<typeof UpdateFormSchema>;
@@ -1,4 +1,29 @@
 import { z } from 'zod';
+import { FormEventType } from '@prisma/client';
+
+/** Texto opcional vindo da URL — vazio vira undefined, excesso é cortado */
+const trackingParam = (max: number) =>
+  z
+    .string()
+    .optional()
+    .transform((v) => (v?.trim() ? v.trim().slice(0, max) : undefined));
+
+/**
+ * Atribuição da visita: parâmetros UTM e click IDs do link da campanha + referrer
+ * O formulário público lê da própria URL (no embed, o site deve repassar os parâmetros no src do iframe)
+ */
+export const FormAttributionSchema = z.object({
+  utmSource: trackingParam(200),
+  utmMedium: trackingParam(200),
+  utmCampaign: trackingParam(200),
+  utmTerm: trackingParam(200),
+  utmContent: trackingParam(200),
+  referrer: trackingParam(500),
+  gclid: trackingParam(255),
+  fbclid: trackingParam(255),
+});
+
+export type FormAttributionDto = z.infer<typeof FormAttributionSchema>;
 
 /**
  * DTO para submissão pública de formulário.
@@ -8,10 +33,29 @@ import { z } from 'zod';
 export const SubmitFormSchema = z.object({
   /// Mapa de respostas: chave = field.id, valor = resposta do usuário
   data: z.record(z.string(), z.string()),
+  /// Sessão do visitante (mesma dos eventos de visualização/início)
+  sessionId: z.string().min(8).max(64).optional(),
+  attribution: FormAttributionSchema.optional(),
 });
 
 export type SubmitFormDto = z.infer<typeof SubmitFormSchema>;
 
+/** Evento do funil enviado pelo formulário público (POST /forms/public/:slug/events) */
+export const FormEventSchema = z.object({
+  type: z.nativeEnum(FormEventType),
+  sessionId: z.string().min(8).max(64),
+  attribution: FormAttributionSchema.optional(),
+});
+
+export type FormEventDto = z.infer<typeof FormEventSchema>;
+
+/** Período do relatório de conversão (GET /forms/:id/analytics) */
+export const FormAnalyticsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+export type FormAnalyticsQueryDto = z.infer<typeof FormAnalyticsQuerySchema>;
+
 /**
  * DTO para submissão via Landing Page externa.
  * Campos nomeados (não usa field IDs do form builder).
@@ -0,0 +1,198 @@
+import { validateCpfCnpj } from '@/common/utils/document.utils';
+import { FormCondition, FormFieldDef } from './dto/create-form.dto';
+
+/**
+ * Lógica condicional dos formulários (espelhada em apps/web/src/features/forms/utils/form-logic.ts)
+ *
+ * - showIf: campo/página só aparece quando as condições sobre outras respostas são atendidas
+ * - type='page': quebra de página — os campos seguintes formam uma nova etapa
+ * - scoreRules: pontos somados ao score inicial do lead conforme a resposta
+ */
+
+/** Limite do ajuste de score vindo das respostas (para mais ou para menos) */
+export const FORM_SCORE_BONUS_LIMIT = 20;
+
+/** Tipos que não recebem resposta do visitante */
+const LAYOUT_TYPES: FormFieldDef['type'][] = ['heading', 'page'];
+
+export interface FormStep {
+  page: FormFieldDef | null; // null = campos antes da primeira quebra de página
+  title: string | null;
+  fields: FormFieldDef[];
+}
+
+export function sortFields(fields: FormFieldDef[]): FormFieldDef[] {
+  return [...fields].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Testa uma resposta contra uma condição/regra
+ * Checkbox guarda as opções separadas por vírgula — contains/not_contains testam a lista
+ */
+export function matchesCondition(
+  field: FormFieldDef | undefined,
+  rule: Pick<FormCondition, 'operator' | 'value'>,
+  answer: string | undefined,
+): boolean {
+  const raw = (answer ?? '').trim();
+  const expected = (rule.value ?? '').trim().toLowerCase();
+  const normalized = raw.toLowerCase();
+
+  const includes = () =>
+    field?.type === 'checkbox'
+      ? normalized.split(',').map((v) => v.trim()).includes(expected)
+      : normalized.includes(expected);
+
+  const compare = (fn: (a: number, b: number) => boolean) => {
+    const a = parseFloat(raw.replace(',', '.'));
+    const b = parseFloat(expected.replace(',', '.'));
+    return !isNaN(a) && !isNaN(b) && fn(a, b);
+  };
+
+  switch (rule.operator) {
+    case 'equals':
+      return normalized === expected;
+    case 'not_equals':
+      return normalized !== expected;
+    case 'contains':
+      return !!expected && includes();
+    case 'not_contains':
+      return !expected || !includes();
+    case 'filled':
+      return raw !== '';
+    case 'empty':
+      return raw === '';
+    case 'gt':
+      return compare((a, b) => a > b);
+    case 'lt':
+      return compare((a, b) => a < b);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Resolve quais campos estão visíveis para as respostas atuais
+ * Condição sobre campo oculto considera a resposta vazia (regras encadeadas);
+ * campos dentro de página oculta também ficam ocultos.
+ */
+export function resolveVisibleFieldIds(fields: FormFieldDef[], answers: Record<string, string>): Set<string> {
+  const byId = new Map(fields.map((f) => [f.id, f]));
+  const pageOf = new Map<string, FormFieldDef>();
+  let currentPage: FormFieldDef | null = null;
+  for (const field of sortFields(fields)) {
+    if (field.type === 'page') currentPage = field;
+    else if (currentPage) pageOf.set(field.id, currentPage);
+  }
+
+  const cache = new Map<string, boolean>();
+  const resolving = new Set<string>();
+
+  const isVisible = (field: FormFieldDef): boolean => {
+    const cached = cache.get(field.id);
+    if (cached !== undefined) return cached;
+    // Referência circular: trata como visível para não travar o formulário
+    if (resolving.has(field.id)) return true;
+    resolving.add(field.id);
+
+    const page = pageOf.get(field.id);
+    let visible = page ? isVisible(page) : true;
+
+    if (visible && field.showIf && field.showIf.conditions.length > 0) {
+      const results = field.showIf.conditions.map((condition) => {
+        const source = byId.get(condition.fieldId);
+        const answer = source && isVisible(source) ? answers[source.id] : '';
+        return matchesCondition(source, condition, answer);
+      });
+      visible = field.showIf.logic === 'any' ? results.some(Boolean) : results.every(Boolean);
+    }
+
+    resolving.delete(field.id);
+    cache.set(field.id, visible);
+    return visible;
+  };
+
+  return new Set(fields.filter(isVisible).map((f) => f.id));
+}
+
+/**
+ * Divide o formulário em etapas (quebras de página) considerando só o que está visível
+ * Sem quebras de página o formulário tem uma única etapa
+ */
+export function buildFormSteps(fields: FormFieldDef[], answers: Record<string, string>): FormStep[] {
+  const visible = resolveVisibleFieldIds(fields, answers);
+  const steps: FormStep[] = [{ page: null, title: null, fields: [] }];
+
+  for (const field of sortFields(fields)) {
+    if (!visible.has(field.id)) continue;
+    if (field.type === 'page') {
+      steps.push({ page: field, title: field.label, fields: [] });
+    } else {
+      steps[steps.length - 1].fields.push(field);
+    }
+  }
+
+  // Etapa inicial vazia (formulário começa com quebra de página) é descartada
+  return steps.length > 1 && steps[0].fields.length === 0 ? steps.slice(1) : steps;
+}
+
+/**
+ * Valida o formato de uma resposta preenchida (obrigatoriedade é tratada à parte)
+ * @returns mensagem de erro ou null
+ */
+export function validateFieldValue(field: FormFieldDef, value: string): string | null {
+  const val = value.trim();
+  if (!val || LAYOUT_TYPES.includes(field.type) || field.type === 'hidden') return null;
+
+  switch (field.type) {
+    case 'email':
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(val)) return 'E-mail inválido';
+      break;
+    case 'phone':
+      if (val.replace(/\D/g, '').length < 10) return 'Telefone inválido (mín. 10 dígitos)';
+      break;
+    case 'cnpj':
+      if (!validateCpfCnpj(val.replace(/\D/g, ''))) return 'CPF/CNPJ inválido';
+      break;
+    case 'cep':
+      if (val.replace(/\D/g, '').length !== 8) return 'CEP deve ter 8 dígitos';
+      break;
+    case 'url':
+      if (!/^https?:\/\/.+/i.test(val) && !val.startsWith('www.')) return 'URL inválida';
+      break;
+    case 'number':
+      if (isNaN(Number(val.replace(',', '.')))) return 'Número inválido';
+      break;
+    case 'select':
+    case 'radio':
+      if (field.options?.length && !field.options.includes(val)) return 'Opção inválida';
+      break;
+    case 'checkbox':
+      if (field.options?.length && val.split(',').some((v) => !field.options!.includes(v))) {
+        return 'Opção inválida';
+      }
+      break;
+  }
+
+  if (field.minLength && val.length < field.minLength) return `Mínimo ${field.minLength} caracteres`;
+  if (field.maxLength && val.length > field.maxLength) return `Máximo ${field.maxLength} caracteres`;
+  return null;
+}
+
+/**
+ * Soma as regras de pontuação das respostas visíveis, limitada a ±FORM_SCORE_BONUS_LIMIT
+ * Cada regra que casa soma seus pontos (várias regras do mesmo campo acumulam)
+ */
+export function calculateFormScoreBonus(fields: FormFieldDef[], answers: Record<string, string>): number {
+  const visible = resolveVisibleFieldIds(fields, answers);
+  let total = 0;
+
+  for (const field of fields) {
+    if (!visible.has(field.id) || !field.scoreRules?.length) continue;
+    for (const rule of field.scoreRules) {
+      if (matchesCondition(field, rule, answers[field.id])) total += rule.points;
+    }
+  }
+
+  return Math.max(-FORM_SCORE_BONUS_LIMIT, Math.min(FORM_SCORE_BONUS_LIMIT, total));
+}
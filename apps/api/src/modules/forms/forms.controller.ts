@@ -18,7 +18,16 @@ import { Roles } from '@/common/decorators/roles.decorator';
 import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
 import { UserRole } from '@prisma/client';
 import { CreateFormSchema, CreateFormDto, UpdateFormSchema, UpdateFormDto } from './dto/create-form.dto';
-import { SubmitFormSchema, SubmitFormDto, LPSubmitSchema, LPSubmitDto } from './dto/submit-form.dto';
+import {
+  SubmitFormSchema,
+  SubmitFormDto,
+  LPSubmitSchema,
+  LPSubmitDto,
+  FormEventSchema,
+  FormEventDto,
+  FormAnalyticsQuerySchema,
+  FormAnalyticsQueryDto,
+} from './dto/submit-form.dto';
 import { Request } from 'express';
 
 interface AuthUser {
@@ -83,6 +92,16 @@ export class FormsController {
     );
   }
 
+  /** Funil de conversão e origem das visitas (padrão: últimos 30 dias) */
+  @Get(':id/analytics')
+  async getAnalytics(
+    @Param('id') id: string,
+    @Query(new ZodValidationPipe(FormAnalyticsQuerySchema)) query: FormAnalyticsQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.formsService.getAnalytics(id, user.id, user.role, query.days);
+  }
+
   // ════════════════════════════════════════════════════════════════
   // Endpoints públicos — sem autenticação
   // ════════════════════════════════════════════════════════════════
@@ -106,7 +125,21 @@ export class FormsController {
       req.socket?.remoteAddress ||
       undefined;
 
-    return this.formsService.submitPublic(slug, dto.data, ip);
+    return this.formsService.submitPublic(slug, dto.data, ip, {
+      sessionId: dto.sessionId,
+      attribution: dto.attribution,
+    });
+  }
+
+  /** Visualização/início do formulário público (funil de conversão) */
+  @Public()
+  @Post('public/:slug/events')
+  @HttpCode(HttpStatus.OK)
+  async trackEvent(
+    @Param('slug') slug: string,
+    @Body(new ZodValidationPipe(FormEventSchema)) dto: FormEventDto,
+  ) {
+    return this.formsService.trackEvent(slug, dto);
   }
 
   /**
@@ -2,9 +2,11 @@ import { Module } from '@nestjs/common';
 import { FormsController } from './forms.controller';
 import { FormsService } from './forms.service';
 import { LeadsModule } from '../leads/leads.module';
+import { LeadAssignmentModule } from '../lead-assignment/lead-assignment.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
 
 @Module({
-  imports: [LeadsModule],
+  imports: [LeadsModule, LeadAssignmentModule, CustomFieldsModule],
   controllers: [FormsController],
   providers: [FormsService],
   exports: [FormsService],
@@ -7,10 +7,25 @@ import {
   ConflictException,
 } from '@nestjs/common';
 import { PrismaService } from '@/prisma/prisma.service';
-import { LeadsService } from '../leads/leads.service';
-import { UserRole, ProductType, VendorAssignmentMode, ClientRole } from '@prisma/client';
+import { LeadsService, LeadEntryAssignment } from '../leads/leads.service';
+import { LeadScoreService } from '../leads/services/lead-score.service';
+import { LeadAssignmentService, AssignmentContext } from '../lead-assignment/lead-assignment.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import {
+  UserRole,
+  ProductType,
+  VendorAssignmentMode,
+  ClientRole,
+  AssignmentReason,
+  LeadEntrySource,
+  CustomFieldEntity,
+  FormEventType,
+  Prisma,
+} from '@prisma/client';
 import { CreateFormDto, UpdateFormDto, FormFieldDef } from './dto/create-form.dto';
+import { FormAttributionDto, FormEventDto } from './dto/submit-form.dto';
 import { randomBytes } from 'crypto';
+import { buildFormSteps, calculateFormScoreBonus, validateFieldValue } from './form-logic';
 
 /**
  * Forms Service — v2.64.0
@@ -25,6 +40,9 @@ export class FormsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly leadsService: LeadsService,
+    private readonly leadScoreService: LeadScoreService,
+    private readonly assignmentService: LeadAssignmentService,
+    private readonly customFieldsService: CustomFieldsService,
   ) {}
 
   // ════════════════════════════════════════════════════════════════
@@ -223,10 +241,18 @@ export class FormsService {
       throw new NotFoundException('Formulário não encontrado ou inativo');
     }
 
-    return form;
+    // Regras de pontuação ficam só no servidor (o visitante não deve ver quanto vale cada resposta)
+    const fields = ((form.fields as unknown as FormFieldDef[]) || []).map(({ scoreRules, ...field }) => field);
+
+    return { ...form, fields };
   }
 
-  async submitPublic(slug: string, data: Record<string, string>, ip?: string) {
+  async submitPublic(
+    slug: string,
+    data: Record<string, string>,
+    ip?: string,
+    tracking: { sessionId?: string; attribution?: FormAttributionDto } = {},
+  ) {
     const form = await this.prisma.form.findUnique({
       where: { slug },
     });
@@ -235,42 +261,42 @@ export class FormsService {
       throw new NotFoundException('Formulário não encontrado ou inativo');
     }
 
-    // Determinar vendedor responsável
-    const vendedorId = await this.resolveVendedor(form);
-
-    if (!vendedorId) {
-      throw new BadRequestException('Formulário sem vendedor configurado. Contate o administrador.');
+    const fieldDefs = (form.fields as unknown as FormFieldDef[]) || [];
+    const attributionData = this.buildAttributionData(tracking.sessionId, tracking.attribution);
+
+    // Etapas e campos visíveis conforme as respostas — respostas de campos ocultos pela
+    // lógica condicional são descartadas (não alimentam o lead nem a submissão)
+    const steps = buildFormSteps(fieldDefs, data);
+    const answers: Record<string, string> = {};
+    for (const step of steps) {
+      for (const field of step.fields) {
+        if (data[field.id] !== undefined) answers[field.id] = data[field.id];
+      }
     }
 
-    const vendedor = await this.prisma.user.findUnique({ where: { id: vendedorId } });
-    if (!vendedor || !vendedor.isActive) {
-      throw new BadRequestException('Vendedor responsável inativo. Contate o administrador.');
-    }
+    this.validateSteps(steps, answers);
 
     // Mapear campos do form para campos do Lead
-    const fieldDefs = (form.fields as unknown as FormFieldDef[]) || [];
     const leadData: Record<string, any> = {
       interestProduct: form.productType || ProductType.ONE_NEXUS,
       originId: form.originId,
-      vendedorId,
     };
 
+    const customValues: Record<string, unknown> = {};
     for (const field of fieldDefs) {
-      const value = data[field.id];
+      const value = answers[field.id];
       if (value && field.mappedTo) {
         leadData[field.mappedTo] = value;
+      } else if (value && field.customFieldKey) {
+        customValues[field.customFieldKey] = value;
       }
     }
 
-    // Validar campos obrigatórios conforme configurado pelo criador do form
-    for (const field of fieldDefs) {
-      if (field.required && field.mappedTo) {
-        const value = data[field.id];
-        if (!value || String(value).trim() === '') {
-          throw new BadRequestException(`Campo "${field.label}" é obrigatório`);
-        }
-      }
-    }
+    // Campos personalizados: respostas inválidas ou de campos desativados são descartadas
+    // (não impedem a criação do lead)
+    leadData.customFields = await this.customFieldsService.normalizeValues(CustomFieldEntity.LEAD, customValues, {
+      lenient: true,
+    });
 
     // name e email são mínimos para criar um Lead (sem eles não é possível identificar)
     if (!leadData.name) {
@@ -284,6 +310,25 @@ export class FormsService {
     leadData.companyName = leadData.companyName || leadData.name;
     leadData.city = leadData.city || 'Não informada';
 
+    // Determinar vendedor responsável (modo RULES usa os dados já mapeados)
+    const assignment = await this.resolveVendedor(form, {
+      interestProduct: leadData.interestProduct,
+      city: leadData.city,
+      originId: leadData.originId,
+      numberOfUnits: leadData.numberOfUnits ? parseInt(String(leadData.numberOfUnits), 10) || null : null,
+    });
+
+    if (!assignment) {
+      throw new BadRequestException('Formulário sem vendedor configurado. Contate o administrador.');
+    }
+
+    const vendedorId = assignment.vendedorId;
+    const vendedor = await this.prisma.user.findUnique({ where: { id: vendedorId } });
+    if (!vendedor || !vendedor.isActive) {
+      throw new BadRequestException('Vendedor responsável inativo. Contate o administrador.');
+    }
+    leadData.vendedorId = vendedorId;
+
     // Mapear label legível → enum ClientRole (forms enviam texto do select, não o enum)
     const roleMap: Record<string, ClientRole> = {
       'ceo / presidente': ClientRole.CEO_PRESIDENTE,
@@ -329,12 +374,15 @@ export class FormsService {
     // score, notificações, estágio padrão, etc.)
     let lead: any;
     try {
-      lead = await this.leadsService.create(leadData as any, vendedorId, vendedor.role);
+      lead = await this.leadsService.create(leadData as any, vendedorId, vendedor.role, {
+        ...assignment.entry,
+        source: LeadEntrySource.FORM,
+      });
     } catch (err) {
       // Duplicata de email/cpfCnpj — registrar submissão sem lead
       this.logger.warn(`⚠️ Submissão form "${slug}" sem lead: ${err.message}`);
       await this.prisma.formSubmission.create({
-        data: { formId: form.id, data: data as any, ipAddress: ip ?? null },
+        data: { formId: form.id, data: answers as any, ipAddress: ip ?? null, ...attributionData },
       });
       return {
         success: true,
@@ -347,11 +395,29 @@ export class FormsService {
       data: {
         formId: form.id,
         leadId: lead.id,
-        data: data as any,
+        data: answers as any,
         ipAddress: ip ?? null,
+        ...attributionData,
       },
     });
 
+    // Regras de pontuação das respostas ajustam o score inicial do lead;
+    // a atribuição da campanha fica registrada no próprio lead
+    const scoreBonus = calculateFormScoreBonus(fieldDefs, answers);
+    const leadAttribution = this.toLeadAttribution(attributionData);
+    if (scoreBonus !== 0 || leadAttribution) {
+      await this.prisma.lead.update({
+        where: { id: lead.id },
+        data: {
+          formScoreBonus: scoreBonus,
+          ...(leadAttribution ? { attribution: leadAttribution } : {}),
+        },
+      });
+    }
+    if (scoreBonus !== 0) {
+      await this.leadScoreService.updateLeadScore(lead.id);
+    }
+
     // Atualizar round-robin se necessário
     if (form.vendorAssignmentMode === VendorAssignmentMode.ROUND_ROBIN) {
       const ids = (form.roundRobinVendedorIds as string[]) || [];
@@ -370,6 +436,119 @@ export class FormsService {
     };
   }
 
+  // ════════════════════════════════════════════════════════════════
+  // ANALYTICS — funil de conversão e origem das visitas
+  // ════════════════════════════════════════════════════════════════
+
+  /**
+   * Registra visualização/início do formulário público
+   * Um evento por sessão e tipo — recarregar a página não infla o funil
+   */
+  async trackEvent(slug: string, dto: FormEventDto) {
+    const form = await this.prisma.form.findUnique({
+      where: { slug },
+      select: { id: true, isActive: true, deletedAt: true },
+    });
+
+    if (!form || form.deletedAt || !form.isActive) {
+      throw new NotFoundException('Formulário não encontrado ou inativo');
+    }
+
+    const attribution = this.buildAttributionData(dto.sessionId, dto.attribution);
+
+    await this.prisma.formEvent.createMany({
+      data: [
+        {
+          formId: form.id,
+          type: dto.type,
+          sessionId: dto.sessionId,
+          source: attribution.source,
+          utmMedium: attribution.utmMedium,
+          utmCampaign: attribution.utmCampaign,
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Funil (visualizações → inícios → envios → leads) e quebra por origem/campanha
+   * Envios sem sessão (LP externa, anteriores ao rastreamento) contam no total,
+   * por isso as taxas são limitadas a 100%
+   */
+  async getAnalytics(formId: string, currentUserId: string, currentUserRole: UserRole, days = 30) {
+    await this.findOne(formId, currentUserId, currentUserRole);
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const period = { formId, createdAt: { gte: since } };
+
+    const [eventCounts, submissions, leads, viewsBySource, submissionsBySource, leadsBySource] = await Promise.all([
+      this.prisma.formEvent.groupBy({ by: ['type'], where: period, _count: { _all: true } }),
+      this.prisma.formSubmission.count({ where: period }),
+      this.prisma.formSubmission.count({ where: { ...period, leadId: { not: null } } }),
+      this.prisma.formEvent.groupBy({
+        by: ['source', 'utmMedium', 'utmCampaign'],
+        where: { ...period, type: FormEventType.VIEW },
+        _count: { _all: true },
+      }),
+      this.prisma.formSubmission.groupBy({ by: ['source', 'utmMedium', 'utmCampaign'], where: period, _count: { _all: true } }),
+      this.prisma.formSubmission.groupBy({
+        by: ['source', 'utmMedium', 'utmCampaign'],
+        where: { ...period, leadId: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const countOf = (type: FormEventType) => eventCounts.find((e) => e.type === type)?._count._all ?? 0;
+    const views = countOf(FormEventType.VIEW);
+    const starts = countOf(FormEventType.START);
+
+    // Junta as três agregações por origem + mídia + campanha
+    type SourceRow = {
+      source: string | null;
+      medium: string | null;
+      campaign: string | null;
+      views: number;
+      submissions: number;
+      leads: number;
+    };
+    const rows = new Map<string, SourceRow>();
+    const rowFor = (g: { source: string | null; utmMedium: string | null; utmCampaign: string | null }) => {
+      const key = [g.source, g.utmMedium, g.utmCampaign].join('|');
+      let row = rows.get(key);
+      if (!row) {
+        row = { source: g.source, medium: g.utmMedium, campaign: g.utmCampaign, views: 0, submissions: 0, leads: 0 };
+        rows.set(key, row);
+      }
+      return row;
+    };
+    viewsBySource.forEach((g) => (rowFor(g).views = g._count._all));
+    submissionsBySource.forEach((g) => (rowFor(g).submissions = g._count._all));
+    leadsBySource.forEach((g) => (rowFor(g).leads = g._count._all));
+
+    const sources = [...rows.values()]
+      .map((row) => ({ ...row, conversionRate: this.rate(row.submissions, row.views) }))
+      .sort((a, b) => b.submissions - a.submissions || b.views - a.views)
+      .slice(0, 50);
+
+    return {
+      days,
+      since,
+      funnel: {
+        views,
+        starts,
+        submissions,
+        leads,
+        startRate: this.rate(starts, views),
+        completionRate: this.rate(submissions, starts),
+        conversionRate: this.rate(submissions, views),
+      },
+      sources,
+    };
+  }
+
   // ════════════════════════════════════════════════════════════════
   // LP EXTERNA — Endpoint dedicado para Landing Pages
   // ════════════════════════════════════════════════════════════════
@@ -393,11 +572,18 @@ export class FormsService {
       throw new NotFoundException('Formulário não encontrado ou inativo');
     }
 
-    const vendedorId = await this.resolveVendedor(form);
-    if (!vendedorId) {
+    const assignment = await this.resolveVendedor(form, {
+      interestProduct: form.productType || ProductType.ONE_NEXUS,
+      city: payload.cidade,
+      originId: form.originId,
+      numberOfUnits: null,
+    });
+    if (!assignment) {
       throw new BadRequestException('Formulário sem vendedor configurado.');
     }
 
+    const vendedorId = assignment.vendedorId;
+
     const vendedor = await this.prisma.user.findUnique({ where: { id: vendedorId } });
     if (!vendedor || !vendedor.isActive) {
       throw new BadRequestException('Vendedor responsável inativo.');
@@ -459,7 +645,10 @@ export class FormsService {
 
     let lead: any;
     try {
-      lead = await this.leadsService.create(leadData as any, vendedorId, vendedor.role);
+      lead = await this.leadsService.create(leadData as any, vendedorId, vendedor.role, {
+        ...assignment.entry,
+        source: LeadEntrySource.LANDING_PAGE,
+      });
     } catch (err) {
       this.logger.warn(`⚠️ LP "${slug}" submissão sem lead: ${err.message}`);
       // Registrar submissão mesmo sem lead (duplicata, etc.)
@@ -498,22 +687,117 @@ export class FormsService {
   // HELPERS PRIVADOS
   // ════════════════════════════════════════════════════════════════
 
-  private async resolveVendedor(form: any): Promise<string | null> {
+  /**
+   * Valida cada etapa na ordem (mesmas regras do formulário público)
+   * Campo ausente no payload só é exigido se alimenta o lead — o embed pode filtrar
+   * campos (?fields=) e o que não foi exibido não chega na submissão
+   */
+  private validateSteps(steps: ReturnType<typeof buildFormSteps>, answers: Record<string, string>) {
+    steps.forEach((step, index) => {
+      const prefix = steps.length > 1 ? `Etapa ${index + 1}${step.title ? ` (${step.title})` : ''}: ` : '';
+
+      for (const field of step.fields) {
+        if (field.type === 'heading' || field.type === 'hidden') continue;
+
+        const value = answers[field.id];
+        if (value === undefined && !field.mappedTo) continue;
+
+        if (field.required && (!value || value.trim() === '')) {
+          throw new BadRequestException(`${prefix}Campo "${field.label}" é obrigatório`);
+        }
+
+        const error = validateFieldValue(field, value ?? '');
+        if (error) {
+          throw new BadRequestException(`${prefix}Campo "${field.label}": ${error}`);
+        }
+      }
+    });
+  }
+
+  /**
+   * Resolve o vendedor do lead conforme o modo do formulário
+   * Retorna também o motivo da atribuição para o log (sem a porta de entrada)
+   */
+  private async resolveVendedor(
+    form: any,
+    context: AssignmentContext,
+  ): Promise<{ vendedorId: string; entry: Omit<LeadEntryAssignment, 'source'> } | null> {
+    const explicit = (vendedorId: string | null) =>
+      vendedorId ? { vendedorId, entry: { reason: AssignmentReason.EXPLICIT } } : null;
+
     switch (form.vendorAssignmentMode as VendorAssignmentMode) {
       case VendorAssignmentMode.FIXED:
-        return form.defaultVendedorId || form.createdById;
+        return explicit(form.defaultVendedorId || form.createdById);
 
       case VendorAssignmentMode.ROUND_ROBIN: {
         const ids = (form.roundRobinVendedorIds as string[]) || [];
-        if (ids.length === 0) return form.createdById;
+        if (ids.length === 0) return explicit(form.createdById);
         const index = form.roundRobinIndex % ids.length;
-        return ids[index];
+        return explicit(ids[index]);
+      }
+
+      case VendorAssignmentMode.RULES: {
+        const resolved = await this.assignmentService.resolve(context);
+        if (resolved) {
+          return {
+            vendedorId: resolved.vendedorId,
+            entry: { reason: AssignmentReason.RULE, ruleId: resolved.ruleId, details: `Regra "${resolved.ruleName}"` },
+          };
+        }
+        if (!form.createdById) return null;
+        return {
+          vendedorId: form.createdById,
+          entry: { reason: AssignmentReason.FALLBACK, details: 'Nenhuma regra aplicável — atribuído ao criador do formulário' },
+        };
       }
 
       case VendorAssignmentMode.CREATOR:
       default:
-        return form.createdById;
+        return explicit(form.createdById);
+    }
+  }
+
+  /**
+   * Colunas de atribuição da submissão/evento
+   * Origem resolvida: utm_source → click ID (gclid = google, fbclid = facebook) → domínio do referrer
+   */
+  private buildAttributionData(sessionId?: string, attribution: FormAttributionDto = {}) {
+    let source = attribution.utmSource?.toLowerCase() ?? null;
+    if (!source && attribution.gclid) source = 'google';
+    if (!source && attribution.fbclid) source = 'facebook';
+    if (!source && attribution.referrer) {
+      try {
+        source = new URL(attribution.referrer).hostname.replace(/^www\./, '') || null;
+      } catch {
+        source = null;
+      }
     }
+
+    return {
+      sessionId: sessionId ?? null,
+      source,
+      utmSource: attribution.utmSource ?? null,
+      utmMedium: attribution.utmMedium ?? null,
+      utmCampaign: attribution.utmCampaign ?? null,
+      utmTerm: attribution.utmTerm ?? null,
+      utmContent: attribution.utmContent ?? null,
+      referrer: attribution.referrer ?? null,
+      gclid: attribution.gclid ?? null,
+      fbclid: attribution.fbclid ?? null,
+    };
+  }
+
+  /** Atribuição gravada no lead (só os parâmetros presentes; null se visita direta) */
+  private toLeadAttribution(data: Record<string, string | null>): Prisma.InputJsonObject | null {
+    const { sessionId, ...params } = data;
+    const present = Object.entries(params).filter(([, value]) => value !== null);
+    return present.length > 0 ? Object.fromEntries(present) : null;
+  }
+
+  /** Percentual com 1 casa (null sem base), limitado a 100% */
+  private rate(part: number, total: number): number | null {
+    if (total === 0) return null;
+    return Math.min(100, Math.round((part / total) * 1000) / 10);
   }
 
   private async generateUniqueSlug(name: string, excludeId?: string): Promise<string> {
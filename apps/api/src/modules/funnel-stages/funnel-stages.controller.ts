@@ -16,7 +16,8 @@ import { CreateFunnelStageDto, CreateFunnelStageSchema } from './dto/create-funn
 import { UpdateFunnelStageDto, UpdateFunnelStageSchema } from './dto/update-funnel-stage.dto';
 import { ReorderStagesDto, ReorderStagesSchema } from './dto/reorder-stages.dto';
 import { Roles } from '@/common/decorators/roles.decorator';
-import { UserRole } from '@prisma/client';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { UserRole, Module } from '@prisma/client';
 import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
 
 /**
@@ -65,6 +66,7 @@ export class FunnelStagesController {
    * REQUER: SUPERADMIN
    */
   @Post()
+  @RequirePermission(Module.SETTINGS, 'create')
   @Roles(UserRole.SUPERADMIN)
   @UsePipes(new ZodValidationPipe(CreateFunnelStageSchema))
   async create(@Body() dto: CreateFunnelStageDto) {
@@ -78,6 +80,7 @@ export class FunnelStagesController {
    * REQUER: SUPERADMIN
    */
   @Put(':id')
+  @RequirePermission(Module.SETTINGS, 'edit')
   @Roles(UserRole.SUPERADMIN)
   async update(
     @Param('id') id: string,
@@ -93,6 +96,7 @@ export class FunnelStagesController {
    * REQUER: SUPERADMIN
    */
   @Patch('reorder')
+  @RequirePermission(Module.SETTINGS, 'edit')
   @Roles(UserRole.SUPERADMIN)
   @UsePipes(new ZodValidationPipe(ReorderStagesSchema))
   async reorder(@Body() dto: ReorderStagesDto) {
@@ -107,6 +111,7 @@ export class FunnelStagesController {
    * IMPORTANTE: Não permite remover se houver leads vinculados
    */
   @Delete(':id')
+  @RequirePermission(Module.SETTINGS, 'delete')
   @Roles(UserRole.SUPERADMIN)
   @HttpCode(HttpStatus.NO_CONTENT)
   async remove(@Param('id') id: string) {
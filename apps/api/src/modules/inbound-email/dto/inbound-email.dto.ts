@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { InboundEmailStatus } from '@prisma/client';
+
+const addressListSchema = z.union([z.string(), z.array(z.string())]).optional();
+
+const attachmentSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  contentType: z.string().max(255).default('application/octet-stream'),
+  content: z.string().min(1, 'Conteúdo do anexo vazio'), // base64
+});
+
+/**
+ * Schema Zod do e-mail recebido (POST /webhooks/inbound-email, JSON)
+ *
+ * Dois formatos:
+ * - raw: mensagem MIME completa (RFC 5322), como gravada pelo servidor SMTP; rawEncoding=base64 para binário
+ * - campos já separados (from, to, subject, text/html, attachments em base64), como enviam
+ *   os serviços de e-mail transacional no webhook de entrada
+ *
+ * envelope.to (RCPT TO) conta como destinatário quando o endereço de captura vem em cópia oculta.
+ * Também aceita o corpo cru com Content-Type: message/rfc822.
+ */
+export const InboundEmailSchema = z
+  .object({
+    raw: z.string().optional(),
+    rawEncoding: z.enum(['utf8', 'base64']).default('utf8'),
+    envelope: z
+      .object({
+        from: z.string().optional(),
+        to: addressListSchema,
+      })
+      .optional(),
+
+    from: z.string().optional(),
+    to: addressListSchema,
+    cc: addressListSchema,
+    subject: z.string().max(998).optional(),
+    text: z.string().optional(),
+    html: z.string().optional(),
+    messageId: z.string().max(998).optional(),
+    inReplyTo: z.string().max(998).optional(),
+    references: addressListSchema,
+    date: z.string().optional(),
+    headers: z.record(z.union([z.string(), z.array(z.string())])).optional(),
+    attachments: z.array(attachmentSchema).max(50).default([]),
+  })
+  .refine((data) => !!data.raw || !!data.from, {
+    message: 'Informe a mensagem MIME (raw) ou o remetente (from)',
+    path: ['raw'],
+  });
+
+export type InboundEmailDto = z.infer<typeof InboundEmailSchema>;
+
+/** Filtros da listagem de e-mails recebidos */
+export const InboundEmailQuerySchema = z.object({
+  leadId: z.string().optional(),
+  clientId: z.string().optional(),
+  status: z.nativeEnum(InboundEmailStatus).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type InboundEmailQueryDto = z.infer<typeof InboundEmailQuerySchema>;
@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Res,
+  UnauthorizedException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { UserRole } from '@prisma/client';
+import { Public } from '@/common/decorators/public.decorator';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+import { AuthUser } from '@/common/interfaces/auth-user.interface';
+import { InboundEmailService } from './inbound-email.service';
+import {
+  InboundEmailSchema,
+  InboundEmailQueryDto,
+  InboundEmailQuerySchema,
+} from './dto/inbound-email.dto';
+
+/**
+ * Inbound Email Controller
+ * Caixa de captura: e-mails recebidos viram leads ou interações
+ *
+ * PERMISSÕES:
+ * - Webhook: público, autenticado pelo token compartilhado (X-Inbound-Token)
+ * - Registro de e-mails: SUPERADMIN/ADMINISTRATIVO
+ * - Anexos: quem tem acesso ao lead/cliente do e-mail
+ */
+@Controller()
+export class InboundEmailController {
+  constructor(private readonly inboundEmailService: InboundEmailService) {}
+
+  /**
+   * POST /webhooks/inbound-email
+   * Chamado pelo servidor de e-mail (ou serviço de entrada) a cada mensagem
+   *
+   * Body: JSON (ver InboundEmailSchema) ou MIME cru com Content-Type: message/rfc822
+   * (destinatários do envelope em X-Envelope-To, separados por vírgula)
+   */
+  @Public()
+  @Post('webhooks/inbound-email')
+  @HttpCode(HttpStatus.OK)
+  async receive(
+    @Body() body: unknown,
+    @Headers('x-inbound-token') token?: string,
+    @Headers('x-envelope-to') envelopeTo?: string,
+  ) {
+    if (!token || !this.inboundEmailService.validateToken(token)) {
+      throw new UnauthorizedException('Token da caixa de captura inválido');
+    }
+
+    if (Buffer.isBuffer(body)) {
+      const recipients = (envelopeTo ?? '').split(',').map((address) => address.trim()).filter(Boolean);
+      const data = await this.inboundEmailService.receiveRaw(body, recipients);
+      return { success: true, data };
+    }
+
+    // Validação manual: o ZodValidationPipe registra o corpo inteiro (anexos em base64) no log
+    const parsed = InboundEmailSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException({
+        message: 'Validation failed',
+        errors: parsed.error.errors.map((err) => ({ field: err.path.join('.'), message: err.message })),
+      });
+    }
+
+    const data = await this.inboundEmailService.receive(parsed.data);
+    return { success: true, data };
+  }
+
+  /**
+   * GET /inbound-emails
+   * Registro dos e-mails recebidos, inclusive os ignorados (diagnóstico da caixa)
+   */
+  @Get('inbound-emails')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async findAll(@Query(new ZodValidationPipe(InboundEmailQuerySchema)) query: InboundEmailQueryDto) {
+    const data = await this.inboundEmailService.findAll(query);
+    return { success: true, data };
+  }
+
+  /**
+   * GET /inbound-emails/attachments/:id
+   * Download de anexo de e-mail recebido
+   */
+  @Get('inbound-emails/attachments/:id')
+  async downloadAttachment(@Param('id') id: string, @CurrentUser() user: AuthUser, @Res() res: Response) {
+    const attachment = await this.inboundEmailService.getAttachment(id, user);
+
+    res.setHeader('Content-Type', attachment.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+    res.send(Buffer.from(attachment.content));
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '@/prisma/prisma.module';
+import { LeadsModule } from '../leads/leads.module';
+import { LeadAssignmentModule } from '../lead-assignment/lead-assignment.module';
+import { ClientsModule } from '../clients/clients.module';
+import { OutboundEmailModule } from '../outbound-email/outbound-email.module';
+import { InboundEmailController } from './inbound-email.controller';
+import { InboundEmailService } from './inbound-email.service';
+
+@Module({
+  imports: [ConfigModule, PrismaModule, LeadsModule, LeadAssignmentModule, ClientsModule, OutboundEmailModule],
+  controllers: [InboundEmailController],
+  providers: [InboundEmailService],
+})
+export class InboundEmailModule {}
@@ -0,0 +1,567 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+import {
+  AssignmentReason,
+  InboundEmailStatus,
+  InteractionDirection,
+  InteractionType,
+  LeadEntrySource,
+  LeadStatus,
+  NotificationType,
+  Prisma,
+  ProductType,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import { AuthUser } from '@/common/interfaces/auth-user.interface';
+import { MailAddress, ParsedMail, htmlToText, parseAddressList, parseMimeMessage } from '@/common/utils/mime.utils';
+import { LeadsService } from '../leads/leads.service';
+import { LeadDuplicateService, normalizeEmail } from '../leads/services/lead-duplicate.service';
+import { LeadAssignmentService } from '../lead-assignment/lead-assignment.service';
+import { ClientsService } from '../clients/clients.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { OutboundEmailService } from '../outbound-email/outbound-email.service';
+import { InboundEmailDto, InboundEmailQueryDto } from './dto/inbound-email.dto';
+
+/** Texto guardado na interação (o e-mail completo fica em InboundEmail) */
+const MAX_INTERACTION_CONTENT = 10_000;
+const MAX_ATTACHMENTS = 20;
+
+/** Origem dos leads criados por e-mail (criada na primeira mensagem) */
+const EMAIL_ORIGIN_NAME = 'E-mail';
+
+/** Assuntos de respostas automáticas que não trazem cabeçalho Auto-Submitted */
+const AUTO_REPLY_SUBJECT = /^(resposta autom[aá]tica|auto(matic)?[ -]?reply|out of office|fora do escrit[oó]rio|aus[eê]ncia)\b/i;
+
+/** Remetentes de avisos de não entrega */
+const BOUNCE_SENDER = /^(mailer-daemon|postmaster)@/i;
+
+/** Destino do e-mail depois do encadeamento */
+type EmailTarget =
+  | { kind: 'lead'; id: string; vendedorId: string | null; label: string }
+  | { kind: 'client'; id: string; vendedorId: string; label: string };
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CAIXA DE CAPTURA DE LEADS POR E-MAIL
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Cada mensagem enviada ao endereço de captura (INBOUND_EMAIL_ADDRESS) chega
+ * pelo webhook e é encadeada, nesta ordem:
+ * 1. Resposta (In-Reply-To/References) a um e-mail já recebido ou enviado pelo CRM → mesmo lead/cliente
+ * 2. Lead aberto com o e-mail do remetente → interação no lead
+ * 3. Cliente com o e-mail do remetente → interação no cliente
+ * 4. Remetente desconhecido → novo lead (origem "E-mail", regras de atribuição)
+ *
+ * A mensagem vira uma Interaction EMAIL de entrada (INBOUND — não conta como
+ * contato no SLA) e os anexos ficam em EmailAttachment. O Message-ID garante
+ * idempotência: reenvios do provedor não duplicam interações.
+ *
+ * Descartadas (registradas como IGNORED): remetente interno (usuário do
+ * sistema), respostas automáticas e mensagens para outros endereços.
+ * Avisos de não entrega (DSN) marcam o e-mail do CRM correspondente como BOUNCED.
+ */
+@Injectable()
+export class InboundEmailService {
+  private readonly logger = new Logger(InboundEmailService.name);
+  private readonly token: string;
+  private readonly captureAddresses: string[];
+  private readonly maxAttachmentBytes: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    private readonly leadsService: LeadsService,
+    private readonly duplicateService: LeadDuplicateService,
+    private readonly assignmentService: LeadAssignmentService,
+    private readonly clientsService: ClientsService,
+    private readonly notificationsService: NotificationsService,
+    private readonly outboundEmailService: OutboundEmailService,
+  ) {
+    this.token = this.config.get<string>('INBOUND_EMAIL_TOKEN', '');
+    this.captureAddresses = this.config
+      .get<string>('INBOUND_EMAIL_ADDRESS', '')
+      .split(',')
+      .map((address) => address.trim().toLowerCase())
+      .filter(Boolean);
+    this.maxAttachmentBytes = Number(this.config.get('INBOUND_EMAIL_MAX_ATTACHMENT_MB', '10')) * 1024 * 1024;
+  }
+
+  /**
+   * Token compartilhado com o servidor de e-mail (header X-Inbound-Token)
+   */
+  validateToken(token: string): boolean {
+    if (!this.token) {
+      this.logger.warn('⚠️ INBOUND_EMAIL_TOKEN não configurado — caixa de captura desativada');
+      return false;
+    }
+
+    const tokenBuf = Buffer.from(token);
+    const expectedBuf = Buffer.from(this.token);
+    if (tokenBuf.length !== expectedBuf.length) return false;
+    return timingSafeEqual(tokenBuf, expectedBuf);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // RECEBIMENTO
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Mensagem MIME crua (Content-Type: message/rfc822)
+   */
+  async receiveRaw(raw: Buffer, envelopeTo: string[] = []) {
+    return this.process(parseMimeMessage(raw), envelopeTo);
+  }
+
+  /**
+   * Webhook JSON: MIME em "raw" ou campos já separados
+   */
+  async receive(dto: InboundEmailDto) {
+    const envelopeTo = this.toList(dto.envelope?.to);
+
+    if (dto.raw) {
+      const raw = dto.rawEncoding === 'base64' ? Buffer.from(dto.raw, 'base64') : dto.raw;
+      return this.process(parseMimeMessage(raw), envelopeTo);
+    }
+
+    const headers = Object.fromEntries(
+      Object.entries(dto.headers ?? {}).map(([name, value]) => [name.toLowerCase(), Array.isArray(value) ? value : [value]]),
+    );
+    const date = dto.date ? new Date(dto.date) : null;
+    const references = this.toList(dto.references).flatMap((value) => value.split(/\s+/));
+
+    const mail: ParsedMail = {
+      messageId: this.stripBrackets(dto.messageId),
+      inReplyTo: this.stripBrackets(dto.inReplyTo),
+      references: references.map((ref) => this.stripBrackets(ref)).filter((ref): ref is string => !!ref),
+      from: parseAddressList(dto.from ?? '')[0] ?? null,
+      to: parseAddressList(this.toList(dto.to).join(', ')),
+      cc: parseAddressList(this.toList(dto.cc).join(', ')),
+      subject: (dto.subject ?? '').trim(),
+      date: date && !Number.isNaN(date.getTime()) ? date : null,
+      text: (dto.text || (dto.html ? htmlToText(dto.html) : '')).trim(),
+      html: dto.html ?? null,
+      attachments: dto.attachments.map((attachment) => ({
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        content: Buffer.from(attachment.content, 'base64'),
+      })),
+      headers,
+    };
+
+    return this.process(mail, envelopeTo);
+  }
+
+  private async process(mail: ParsedMail, envelopeTo: string[]) {
+    if (!mail.from) {
+      throw new BadRequestException('Remetente (From) ausente ou inválido');
+    }
+
+    const messageId = mail.messageId ?? this.fallbackMessageId(mail);
+
+    // Idempotência: o provedor pode reenviar a mesma mensagem
+    const existing = await this.prisma.inboundEmail.findUnique({
+      where: { messageId },
+      select: { id: true, status: true, leadId: true, clientId: true },
+    });
+    if (existing) {
+      this.logger.debug(`E-mail ${messageId} já processado (${existing.status})`);
+      return { ...existing, duplicate: true };
+    }
+
+    const recipients = [...mail.to.map((a) => a.email), ...mail.cc.map((a) => a.email), ...envelopeTo.map((a) => a.toLowerCase())];
+    // Aviso de não entrega de e-mail do CRM: marca o envio, não vira interação
+    const bounce = this.parseDeliveryReport(mail);
+    const ignoredReason = bounce
+      ? await this.registerBounce(bounce)
+      : await this.getIgnoredReason(mail, recipients);
+
+    const base = {
+      messageId,
+      inReplyTo: mail.inReplyTo,
+      references: mail.references,
+      fromEmail: mail.from.email,
+      fromName: mail.from.name,
+      toAddresses: [...new Set(recipients)],
+      subject: mail.subject || '(sem assunto)',
+      textBody: mail.text,
+      sentAt: mail.date,
+    };
+
+    if (ignoredReason) {
+      const { email, duplicate } = await this.save({ ...base, status: InboundEmailStatus.IGNORED, ignoredReason }, []);
+      if (!duplicate) this.logger.log(`📭 E-mail de ${mail.from.email} ignorado: ${ignoredReason}`);
+      return { id: email.id, status: email.status, leadId: email.leadId, clientId: email.clientId, duplicate };
+    }
+
+    let target = await this.findTarget(mail);
+    let status: InboundEmailStatus = target?.kind === 'client' ? InboundEmailStatus.CLIENT_THREADED : InboundEmailStatus.LEAD_THREADED;
+
+    if (!target) {
+      target = await this.createLead(mail.from, mail);
+      status = InboundEmailStatus.LEAD_CREATED;
+    }
+
+    const owner = target.kind === 'lead' ? { leadId: target.id } : { clientId: target.id };
+    const { email, duplicate } = await this.save({ ...base, status, ...owner }, mail.attachments, {
+      ...owner,
+      userId: target.vendedorId ?? (await this.getFallbackUserId()),
+      type: InteractionType.EMAIL,
+      direction: InteractionDirection.INBOUND,
+      title: `E-mail recebido: ${base.subject}`.slice(0, 255),
+      content: this.formatContent(mail),
+    });
+
+    // Entrega paralela da mesma mensagem: a outra requisição já registrou a interação
+    if (duplicate) {
+      this.logger.debug(`E-mail ${messageId} já processado (${email.status})`);
+      return { id: email.id, status: email.status, leadId: email.leadId, clientId: email.clientId, duplicate };
+    }
+
+    this.logger.log(
+      `📧 E-mail de ${mail.from.email} → ${target.kind === 'lead' ? 'lead' : 'cliente'} ${target.id} (${status})`,
+    );
+
+    // Lead novo já notifica o vendedor pela atribuição
+    if (status !== InboundEmailStatus.LEAD_CREATED && target.vendedorId) {
+      this.notificationsService
+        .create({
+          userId: target.vendedorId,
+          type: NotificationType.LEAD_EMAIL_RECEIVED,
+          title: target.kind === 'lead' ? 'E-mail de lead' : 'E-mail de cliente',
+          message: `${target.label} enviou: ${base.subject}`,
+          link: target.kind === 'lead' ? '/leads' : '/clients',
+          metadata: { [target.kind === 'lead' ? 'leadId' : 'clientId']: target.id, inboundEmailId: email.id },
+        })
+        .catch(() => {});
+    }
+
+    return {
+      id: email.id,
+      status: email.status,
+      leadId: email.leadId,
+      clientId: email.clientId,
+      duplicate: false,
+    };
+  }
+
+  /**
+   * Motivo para descartar a mensagem (null = processar)
+   */
+  private async getIgnoredReason(mail: ParsedMail, recipients: string[]): Promise<string | null> {
+    const from = mail.from!.email;
+
+    if (this.captureAddresses.length > 0) {
+      if (this.captureAddresses.includes(from)) {
+        return 'Remetente é o próprio endereço de captura';
+      }
+      if (!recipients.some((address) => this.captureAddresses.includes(address))) {
+        return 'Destinatário fora da caixa de captura';
+      }
+    }
+
+    const autoSubmitted = mail.headers['auto-submitted']?.[0]?.toLowerCase();
+    const precedence = mail.headers['precedence']?.[0]?.toLowerCase();
+    if (
+      (autoSubmitted && autoSubmitted !== 'no') ||
+      ['bulk', 'junk', 'auto_reply', 'list'].includes(precedence ?? '') ||
+      mail.headers['x-autoreply'] ||
+      mail.headers['x-autorespond'] ||
+      AUTO_REPLY_SUBJECT.test(mail.subject)
+    ) {
+      return 'Resposta automática';
+    }
+
+    const internalUser = await this.prisma.user.findFirst({
+      where: { email: { equals: from, mode: 'insensitive' } },
+      select: { id: true },
+    });
+    if (internalUser) {
+      return 'Remetente interno (usuário do sistema)';
+    }
+
+    return null;
+  }
+
+  /**
+   * Aviso de não entrega (DSN, RFC 3464): Message-IDs do e-mail original e motivo
+   */
+  private parseDeliveryReport(mail: ParsedMail): { messageIds: string[]; reason: string } | null {
+    const contentType = mail.headers['content-type']?.[0]?.toLowerCase() ?? '';
+    const isReport = contentType.includes('report-type=delivery-status') || BOUNCE_SENDER.test(mail.from!.email);
+    if (!isReport) return null;
+
+    // Cabeçalhos do original vêm anexados (message/rfc822 ou text/rfc822-headers) ou citados no texto
+    const embedded = mail.attachments
+      .filter((attachment) => attachment.contentType.startsWith('message/') || attachment.contentType.includes('rfc822'))
+      .map((attachment) => attachment.content.toString('utf-8'));
+    const quotedIds = [mail.text, ...embedded].flatMap((source) =>
+      [...source.matchAll(/^message-id:\s*<([^>\s]+)>/gim)].map((match) => match[1]),
+    );
+
+    const status = embedded.join('\n').match(/^diagnostic-code:\s*(?:smtp;\s*)?(.+)$/im)?.[1];
+
+    return {
+      messageIds: [...new Set([mail.inReplyTo, ...mail.references, ...quotedIds].filter((id): id is string => !!id))],
+      reason: (status || mail.subject || 'Mensagem não entregue').trim().slice(0, 300),
+    };
+  }
+
+  private async registerBounce(bounce: { messageIds: string[]; reason: string }): Promise<string> {
+    const count = await this.outboundEmailService.registerBounce(bounce.messageIds, bounce.reason);
+    return count > 0
+      ? `Aviso de não entrega (${count} e-mail(s) do CRM marcados)`
+      : 'Aviso de não entrega sem e-mail do CRM correspondente';
+  }
+
+  /**
+   * Encadeamento: resposta a e-mail anterior (recebido ou enviado pelo CRM) > lead aberto > cliente
+   */
+  private async findTarget(mail: ParsedMail): Promise<EmailTarget | null> {
+    const threadIds = [mail.inReplyTo, ...mail.references].filter((id): id is string => !!id);
+
+    if (threadIds.length > 0) {
+      const previous = await this.prisma.inboundEmail.findFirst({
+        where: { messageId: { in: threadIds }, OR: [{ leadId: { not: null } }, { clientId: { not: null } }] },
+        orderBy: { createdAt: 'desc' },
+        select: {
+          lead: { select: { id: true, name: true, vendedorId: true } },
+          client: { select: { id: true, company: true, vendedorId: true } },
+        },
+      });
+
+      const sent = previous
+        ? null
+        : await this.prisma.outboundEmail.findFirst({
+            where: { messageId: { in: threadIds }, OR: [{ leadId: { not: null } }, { clientId: { not: null } }] },
+            orderBy: { createdAt: 'desc' },
+            select: {
+              lead: { select: { id: true, name: true, vendedorId: true } },
+              client: { select: { id: true, company: true, vendedorId: true } },
+            },
+          });
+      const thread = previous ?? sent;
+
+      if (thread?.lead) {
+        return { kind: 'lead', id: thread.lead.id, vendedorId: thread.lead.vendedorId, label: thread.lead.name };
+      }
+      if (thread?.client) {
+        return { kind: 'client', id: thread.client.id, vendedorId: thread.client.vendedorId, label: thread.client.company };
+      }
+    }
+
+    const lead = await this.duplicateService.findOpenLeadByContact(mail.from!.email);
+    if (lead) {
+      return { kind: 'lead', id: lead.id, vendedorId: lead.vendedorId, label: lead.name };
+    }
+
+    const client = await this.prisma.client.findFirst({
+      where: { email: { equals: mail.from!.email, mode: 'insensitive' } },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, company: true, vendedorId: true },
+    });
+    if (client) {
+      return { kind: 'client', id: client.id, vendedorId: client.vendedorId, label: client.company };
+    }
+
+    return null;
+  }
+
+  /**
+   * Remetente desconhecido → lead no estágio padrão, atribuído pelas regras
+   */
+  private async createLead(from: MailAddress, mail: ParsedMail): Promise<EmailTarget> {
+    const origin = await this.getEmailOrigin();
+
+    const resolved = await this.assignmentService.resolve({
+      interestProduct: ProductType.ONE_NEXUS,
+      originId: origin.id,
+    });
+    const vendedorId = resolved?.vendedorId ?? (await this.assignmentService.resolveLeastLoaded()) ?? (await this.getFallbackUserId());
+    const vendedor = await this.prisma.user.findUnique({ where: { id: vendedorId }, select: { role: true } });
+
+    const name = from.name || from.email.split('@')[0];
+    // E-mail traz só nome e endereço: empresa, cidade e cargo ficam vazios até o vendedor completar
+    const lead = await this.leadsService.create(
+      {
+        name,
+        email: normalizeEmail(from.email)!,
+        phone: '',
+        companyName: null,
+        city: null,
+        role: null,
+        interestProduct: ProductType.ONE_NEXUS,
+        originId: origin.id,
+        vendedorId,
+        notes: `Primeiro contato por e-mail: "${mail.subject || '(sem assunto)'}"`,
+        status: LeadStatus.ABERTO,
+      },
+      vendedorId,
+      vendedor?.role ?? UserRole.SUPERADMIN,
+      {
+        source: LeadEntrySource.EMAIL,
+        reason: resolved ? AssignmentReason.RULE : AssignmentReason.FALLBACK,
+        ruleId: resolved?.ruleId,
+        details: resolved ? `Regra "${resolved.ruleName}"` : 'Nenhuma regra aplicável — menor carga de leads abertos',
+      },
+    );
+
+    return { kind: 'lead', id: lead.id, vendedorId: lead.vendedorId, label: lead.name };
+  }
+
+  private async getEmailOrigin() {
+    const origin = await this.prisma.leadOrigin.findFirst({
+      where: { name: { equals: EMAIL_ORIGIN_NAME, mode: 'insensitive' } },
+    });
+    if (origin) return origin;
+
+    this.logger.log(`LeadOrigin "${EMAIL_ORIGIN_NAME}" criado`);
+    return this.prisma.leadOrigin.create({ data: { name: EMAIL_ORIGIN_NAME, isActive: true } });
+  }
+
+  /** Interação sem vendedor responsável fica com um SUPERADMIN ativo */
+  private async getFallbackUserId(): Promise<string> {
+    const admin = await this.prisma.user.findFirst({
+      where: { isActive: true, role: UserRole.SUPERADMIN },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+    if (!admin) {
+      throw new BadRequestException('Nenhum usuário ativo para registrar o e-mail');
+    }
+    return admin.id;
+  }
+
+  /**
+   * Grava o e-mail e a interação na mesma transação: se outra entrega do mesmo
+   * Message-ID vencer a corrida (P2002), a interação desta é desfeita junto
+   */
+  private async save(
+    data: Omit<Prisma.InboundEmailUncheckedCreateInput, 'attachments' | 'interactionId'>,
+    attachments: ParsedMail['attachments'],
+    interaction?: Prisma.InteractionUncheckedCreateInput,
+  ) {
+    const accepted = attachments.slice(0, MAX_ATTACHMENTS).filter((attachment) => {
+      if (attachment.content.length > this.maxAttachmentBytes) {
+        this.logger.warn(`⚠️ Anexo "${attachment.fileName}" descartado (${attachment.content.length} bytes)`);
+        return false;
+      }
+      return true;
+    });
+
+    try {
+      const email = await this.prisma.$transaction(async (tx) => {
+        const created = interaction ? await tx.interaction.create({ data: interaction }) : null;
+        return tx.inboundEmail.create({
+          data: {
+            ...data,
+            interactionId: created?.id ?? null,
+            attachments: {
+              create: accepted.map((attachment) => ({
+                fileName: attachment.fileName.slice(0, 255),
+                contentType: attachment.contentType,
+                size: attachment.content.length,
+                content: attachment.content,
+              })),
+            },
+          },
+        });
+      });
+      return { email, duplicate: false };
+    } catch (error) {
+      // Mesma mensagem entregue em paralelo: a outra requisição já registrou
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const email = await this.prisma.inboundEmail.findUniqueOrThrow({ where: { messageId: data.messageId } });
+        return { email, duplicate: true };
+      }
+      throw error;
+    }
+  }
+
+  private formatContent(mail: ParsedMail): string {
+    const body = mail.text || '(mensagem sem texto)';
+    const names = mail.attachments.map((attachment) => attachment.fileName);
+    const footer = names.length > 0 ? `\n\n📎 Anexos: ${names.join(', ')}` : '';
+    const content = body.length > MAX_INTERACTION_CONTENT ? `${body.slice(0, MAX_INTERACTION_CONTENT)}…` : body;
+    return `${content}${footer}`;
+  }
+
+  /** Mensagem sem Message-ID: hash do conteúdo mantém a idempotência */
+  private fallbackMessageId(mail: ParsedMail): string {
+    const hash = createHash('sha256')
+      .update([mail.from?.email, mail.subject, mail.date?.toISOString() ?? '', mail.text].join('\n'))
+      .digest('hex')
+      .slice(0, 32);
+    return `${hash}@gestor-nexus.inbound`;
+  }
+
+  private stripBrackets(value?: string | null): string | null {
+    const id = value?.trim().replace(/^<|>$/g, '');
+    return id || null;
+  }
+
+  private toList(value?: string | string[]): string[] {
+    if (!value) return [];
+    return Array.isArray(value) ? value : [value];
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CONSULTA
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Registro de e-mails recebidos (inclui os ignorados)
+   */
+  async findAll(filters: InboundEmailQueryDto) {
+    return this.prisma.inboundEmail.findMany({
+      where: {
+        ...(filters.leadId && { leadId: filters.leadId }),
+        ...(filters.clientId && { clientId: filters.clientId }),
+        ...(filters.status && { status: filters.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit,
+      select: {
+        id: true,
+        messageId: true,
+        fromEmail: true,
+        fromName: true,
+        toAddresses: true,
+        subject: true,
+        status: true,
+        ignoredReason: true,
+        sentAt: true,
+        createdAt: true,
+        lead: { select: { id: true, name: true } },
+        client: { select: { id: true, company: true } },
+        attachments: { select: { id: true, fileName: true, contentType: true, size: true } },
+      },
+    });
+  }
+
+  /**
+   * Download de anexo (mesmo escopo de acesso do lead/cliente)
+   */
+  async getAttachment(id: string, user: AuthUser) {
+    const attachment = await this.prisma.emailAttachment.findUnique({
+      where: { id },
+      include: { inboundEmail: { select: { leadId: true, clientId: true } } },
+    });
+
+    if (!attachment) {
+      throw new NotFoundException(`Anexo ${id} não encontrado`);
+    }
+
+    const { leadId, clientId } = attachment.inboundEmail;
+    if (leadId) {
+      await this.leadsService.findOne(leadId, user.id, user.role);
+    } else if (clientId) {
+      await this.clientsService.findOne(clientId, user.id, user.role);
+    } else if (user.role !== UserRole.SUPERADMIN && user.role !== UserRole.ADMINISTRATIVO) {
+      throw new NotFoundException(`Anexo ${id} não encontrado`);
+    }
+
+    return attachment;
+  }
+}
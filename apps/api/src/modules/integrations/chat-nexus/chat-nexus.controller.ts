@@ -14,7 +14,16 @@ import { CurrentUser } from '@/common/decorators/current-user.decorator';
 import { PrismaService } from '@/prisma/prisma.service';
 import { ChatNexusService } from './chat-nexus.service';
 import { NotificationsService } from '../../notifications/notifications.service';
-import { UserRole, NotificationType, ProductType, LeadStatus } from '@prisma/client';
+import { LeadAssignmentService, AssignmentResult } from '../../lead-assignment/lead-assignment.service';
+import { LeadDuplicateService } from '../../leads/services/lead-duplicate.service';
+import {
+  UserRole,
+  NotificationType,
+  ProductType,
+  LeadStatus,
+  AssignmentReason,
+  LeadEntrySource,
+} from '@prisma/client';
 
 interface AuthUser {
   id: string;
@@ -58,6 +67,8 @@ export class ChatNexusController {
     private readonly chatNexusService: ChatNexusService,
     private readonly prisma: PrismaService,
     private readonly notificationsService: NotificationsService,
+    private readonly assignmentService: LeadAssignmentService,
+    private readonly duplicateService: LeadDuplicateService,
   ) {}
 
   /**
@@ -153,7 +164,7 @@ export class ChatNexusController {
 
   /**
    * Processa evento NEW_MESSAGE:
-   * 1. Se lead com mesmo email já existe → adiciona nota
+   * 1. Se lead aberto com mesmo email ou telefone (normalizados) já existe → adiciona nota
    * 2. Se não existe → cria lead com dados parciais no stage "Aberto"
    *
    * Usa conversationId como chave de idempotência.
@@ -169,13 +180,11 @@ export class ChatNexusController {
     }
 
     try {
-      // Verificar se já existe lead com esse email
-      const existingLead = await this.prisma.lead.findFirst({
-        where: {
-          email: senderEmail.toLowerCase(),
-          status: LeadStatus.ABERTO,
-        },
-      });
+      // Verificar se já existe lead aberto com esse email ou telefone
+      const existingLead = await this.duplicateService.findOpenLeadByContact(
+        senderEmail,
+        data.sender?.phone,
+      );
 
       if (existingLead) {
         // Lead já existe → adicionar nota com a mensagem
@@ -221,8 +230,12 @@ export class ChatNexusController {
         return;
       }
 
-      // Round-robin: buscar vendedores ativos e atribuir ao próximo
-      const vendedorId = await this.getNextVendedor();
+      // Regras de atribuição → menor carga → SUPERADMIN
+      const resolved = await this.assignmentService.resolve({
+        interestProduct: ProductType.ONE_NEXUS,
+        originId: chatOrigin.id,
+      });
+      const vendedorId = resolved?.vendedorId ?? (await this.getNextVendedor());
 
       if (!vendedorId) {
         this.logger.error(
@@ -245,6 +258,7 @@ export class ChatNexusController {
           stageId: defaultStage.id,
           originId: chatOrigin.id,
           vendedorId,
+          stageHistory: { create: { toStageId: defaultStage.id } },
           notes: `Mensagem inicial via Chat Nexus:\n"${data.content}"\n\nConversation ID: ${data.conversationId}`,
         },
       });
@@ -253,6 +267,15 @@ export class ChatNexusController {
         `[ChatNexus] ✅ Lead criado: ${lead.id} (${senderEmail}) → vendedor: ${vendedorId}`,
       );
 
+      await this.assignmentService.logAssignment({
+        leadId: lead.id,
+        toVendedorId: vendedorId,
+        ruleId: resolved?.ruleId,
+        source: LeadEntrySource.CHAT_NEXUS,
+        reason: resolved ? AssignmentReason.RULE : AssignmentReason.FALLBACK,
+        details: this.describeAssignment(resolved),
+      });
+
       // Notificar vendedor
       this.notificationsService
         .create({
@@ -272,41 +295,22 @@ export class ChatNexusController {
   }
 
   /**
-   * Round-robin simples para distribuir leads entre vendedores ativos.
-   * Busca o vendedor com MENOS leads abertos.
+   * Fallback quando nenhuma regra de atribuição se aplica:
+   * vendedor disponível (capacidade/ausência) com menos leads abertos,
+   * ou qualquer SUPERADMIN ativo.
    */
   private async getNextVendedor(): Promise<string | null> {
-    // Buscar vendedores ativos (VENDEDOR ou GESTOR)
-    const vendedores = await this.prisma.user.findMany({
-      where: {
-        isActive: true,
-        role: { in: [UserRole.VENDEDOR, UserRole.GESTOR] },
-      },
-      select: {
-        id: true,
-        _count: {
-          select: {
-            assignedLeads: {
-              where: { status: LeadStatus.ABERTO },
-            },
-          },
-        },
-      },
-      orderBy: {
-        assignedLeads: { _count: 'asc' },
-      },
-      take: 1,
-    });
+    const vendedorId = await this.assignmentService.resolveLeastLoaded();
+    if (vendedorId) return vendedorId;
 
-    if (vendedores.length === 0) {
-      // Fallback: buscar qualquer SUPERADMIN ativo
-      const admin = await this.prisma.user.findFirst({
-        where: { isActive: true, role: UserRole.SUPERADMIN },
-        select: { id: true },
-      });
-      return admin?.id || null;
-    }
+    const admin = await this.prisma.user.findFirst({
+      where: { isActive: true, role: UserRole.SUPERADMIN },
+      select: { id: true },
+    });
+    return admin?.id || null;
+  }
 
-    return vendedores[0].id;
+  private describeAssignment(resolved: AssignmentResult | null): string {
+    return resolved ? `Regra "${resolved.ruleName}"` : 'Nenhuma regra aplicável — menor carga de leads abertos';
   }
 }
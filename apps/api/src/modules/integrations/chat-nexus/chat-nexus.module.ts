@@ -4,12 +4,14 @@ import { ConfigModule } from '@nestjs/config';
 import { ChatNexusService } from './chat-nexus.service';
 import { ChatNexusController } from './chat-nexus.controller';
 import { LeadsModule } from '../../leads/leads.module';
+import { LeadAssignmentModule } from '../../lead-assignment/lead-assignment.module';
 
 @Module({
   imports: [
     HttpModule.register({ timeout: 10000 }),
     ConfigModule,
     LeadsModule,
+    LeadAssignmentModule,
   ],
   controllers: [ChatNexusController],
   providers: [ChatNexusService],
@@ -10,7 +10,8 @@ import {
 import { IntegrationsService } from './integrations.service';
 import { UpdateIntegrationDto, UpdateIntegrationSchema } from './dto/update-integration.dto';
 import { Roles } from '@/common/decorators/roles.decorator';
-import { UserRole } from '@prisma/client';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { UserRole, Module } from '@prisma/client';
 import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
 
 /**
@@ -22,6 +23,7 @@ import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
  * - PATCH (atualizar): SUPERADMIN, DESENVOLVEDOR
  * - POST (testar/sincronizar): SUPERADMIN, DESENVOLVEDOR
  */
+@RequirePermission(Module.SETTINGS, 'view')
 @Controller('integrations')
 export class IntegrationsController {
   constructor(private readonly integrationsService: IntegrationsService) {}
@@ -63,6 +65,7 @@ export class IntegrationsController {
    * REQUER: SUPERADMIN ou DESENVOLVEDOR
    */
   @Patch(':id')
+  @RequirePermission(Module.SETTINGS, 'edit')
   @Roles(UserRole.SUPERADMIN, UserRole.DESENVOLVEDOR)
   @UsePipes(new ZodValidationPipe(UpdateIntegrationSchema))
   async update(@Param('id') id: string, @Body() dto: UpdateIntegrationDto) {
@@ -76,6 +79,7 @@ export class IntegrationsController {
    * REQUER: SUPERADMIN ou DESENVOLVEDOR
    */
   @Post(':id/test')
+  @RequirePermission(Module.SETTINGS, 'view')
   @Roles(UserRole.SUPERADMIN, UserRole.DESENVOLVEDOR)
   async test(@Param('id') id: string) {
     return this.integrationsService.test(id);
@@ -88,6 +92,7 @@ export class IntegrationsController {
    * REQUER: SUPERADMIN ou DESENVOLVEDOR
    */
   @Post(':id/sync')
+  @RequirePermission(Module.SETTINGS, 'edit')
   @Roles(UserRole.SUPERADMIN, UserRole.DESENVOLVEDOR)
   async sync(@Param('id') id: string) {
     return this.integrationsService.sync(id);
@@ -0,0 +1,195 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '@/prisma/prisma.service';
+import { LeadStatus, UserRole } from '@prisma/client';
+import { CreateAssignmentRuleDto } from './dto/create-assignment-rule.dto';
+import { UpdateAssignmentRuleDto } from './dto/update-assignment-rule.dto';
+import { UpdateAvailabilityDto } from './dto/update-availability.dto';
+
+/**
+ * Assignment Rules Service
+ * CRUD das regras de atribuição e da disponibilidade (capacidade/ausência) dos vendedores
+ */
+@Injectable()
+export class AssignmentRulesService {
+  private readonly logger = new Logger(AssignmentRulesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Listar regras na ordem de avaliação
+   */
+  async findAll() {
+    const rules = await this.prisma.leadAssignmentRule.findMany({
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      include: { _count: { select: { logs: true } } },
+    });
+
+    // Nomes dos vendedores do pool (vendedorIds é array escalar, sem relation)
+    const ids = [...new Set(rules.flatMap((r) => r.vendedorIds))];
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, name: true, isActive: true },
+    });
+    const byId = new Map(users.map((u) => [u.id, u]));
+
+    return rules.map((rule) => ({
+      ...rule,
+      vendedores: rule.vendedorIds.map((id) => byId.get(id) ?? { id, name: 'Usuário removido', isActive: false }),
+    }));
+  }
+
+  /**
+   * Buscar regra por ID
+   */
+  async findOne(id: string) {
+    const rule = await this.prisma.leadAssignmentRule.findUnique({ where: { id } });
+
+    if (!rule) {
+      throw new NotFoundException(`Regra de atribuição ${id} não encontrada`);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Criar regra
+   */
+  async create(dto: CreateAssignmentRuleDto) {
+    await this.validateReferences(dto.vendedorIds, dto.originIds);
+
+    const rule = await this.prisma.leadAssignmentRule.create({ data: dto });
+
+    this.logger.log(`✅ Regra de atribuição criada: ${rule.name} (prioridade ${rule.priority})`);
+    return rule;
+  }
+
+  /**
+   * Atualizar regra (inclui ativar/desativar)
+   */
+  async update(id: string, dto: UpdateAssignmentRuleDto) {
+    const existing = await this.findOne(id);
+
+    // Consistência avaliada sobre o estado final (update parcial)
+    const minUnits = dto.minUnits !== undefined ? dto.minUnits : existing.minUnits;
+    const maxUnits = dto.maxUnits !== undefined ? dto.maxUnits : existing.maxUnits;
+    if (minUnits != null && maxUnits != null && minUnits > maxUnits) {
+      throw new BadRequestException('Mínimo de unidades não pode ser maior que o máximo');
+    }
+
+    const startTime = dto.startTime !== undefined ? dto.startTime : existing.startTime;
+    const endTime = dto.endTime !== undefined ? dto.endTime : existing.endTime;
+    if (!startTime !== !endTime) {
+      throw new BadRequestException('Informe início e fim do horário (ou nenhum dos dois)');
+    }
+
+    if (dto.vendedorIds?.length === 0) {
+      throw new BadRequestException('Informe ao menos um vendedor');
+    }
+
+    await this.validateReferences(dto.vendedorIds ?? [], dto.originIds ?? []);
+
+    const data = { ...dto };
+    // Pool alterado → recomeça o revezamento do início
+    if (dto.vendedorIds && dto.roundRobinIndex === undefined) {
+      data.roundRobinIndex = 0;
+    }
+
+    const updated = await this.prisma.leadAssignmentRule.update({ where: { id }, data });
+
+    this.logger.log(`✅ Regra de atribuição atualizada: ${updated.name}${updated.isActive ? '' : ' (inativa)'}`);
+    return updated;
+  }
+
+  /**
+   * Remover regra (o log de atribuições é preservado com ruleId = null)
+   */
+  async remove(id: string) {
+    const rule = await this.findOne(id);
+
+    await this.prisma.leadAssignmentRule.delete({ where: { id } });
+
+    this.logger.warn(`⚠️ Regra de atribuição removida: ${rule.name}`);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // DISPONIBILIDADE (capacidade e ausência)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Vendedores/gestores com capacidade, ausência e leads abertos
+   * GESTOR vê apenas a própria equipe
+   */
+  async getAvailability(currentUserId: string, currentUserRole: UserRole) {
+    return this.prisma.user.findMany({
+      where: {
+        isActive: true,
+        role: { in: [UserRole.VENDEDOR, UserRole.GESTOR] },
+        ...(currentUserRole === UserRole.GESTOR && {
+          OR: [{ gestorId: currentUserId }, { id: currentUserId }],
+        }),
+      },
+      orderBy: { name: 'asc' },
+      select: {
+        id: true,
+        name: true,
+        role: true,
+        maxOpenLeads: true,
+        absentFrom: true,
+        absentUntil: true,
+        _count: { select: { assignedLeads: { where: { status: LeadStatus.ABERTO } } } },
+      },
+    });
+  }
+
+  /**
+   * Atualizar capacidade/ausência de um vendedor
+   * GESTOR pode alterar apenas a própria equipe
+   */
+  async updateAvailability(
+    userId: string,
+    dto: UpdateAvailabilityDto,
+    currentUserId: string,
+    currentUserRole: UserRole,
+  ) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundException(`Usuário ${userId} não encontrado`);
+    }
+
+    if (currentUserRole === UserRole.GESTOR && user.gestorId !== currentUserId && user.id !== currentUserId) {
+      throw new ForbiddenException('Você só pode alterar a disponibilidade da sua equipe');
+    }
+
+    const updated = await this.prisma.user.update({
+      where: { id: userId },
+      data: dto,
+      select: { id: true, name: true, maxOpenLeads: true, absentFrom: true, absentUntil: true },
+    });
+
+    this.logger.log(`✅ Disponibilidade atualizada: ${updated.name}`);
+    return updated;
+  }
+
+  private async validateReferences(vendedorIds: string[], originIds: string[]) {
+    if (vendedorIds.length > 0) {
+      const found = await this.prisma.user.count({ where: { id: { in: vendedorIds } } });
+      if (found !== new Set(vendedorIds).size) {
+        throw new BadRequestException('Um ou mais vendedores do pool não existem');
+      }
+    }
+
+    if (originIds.length > 0) {
+      const found = await this.prisma.leadOrigin.count({ where: { id: { in: originIds } } });
+      if (found !== new Set(originIds).size) {
+        throw new BadRequestException('Uma ou mais origens não existem');
+      }
+    }
+  }
+}
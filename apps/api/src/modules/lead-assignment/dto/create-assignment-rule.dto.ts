@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { AssignmentStrategy, ProductType } from '@prisma/client';
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * DTO para criar regra de atribuição de leads
+ * IMPORTANTE: Campos sincronizados com Prisma schema (LeadAssignmentRule model)
+ *
+ * Condições vazias = "qualquer valor"; a regra casa quando TODAS as condições casam
+ */
+export const AssignmentRuleFieldsSchema = z.object({
+  name: z
+    .string()
+    .min(2, 'Nome deve ter no mínimo 2 caracteres')
+    .max(120, 'Nome deve ter no máximo 120 caracteres')
+    .transform((val) => val.trim()),
+  priority: z.number().int().min(0).max(10000).default(100),
+  isActive: z.boolean().default(true),
+
+  productType: z.nativeEnum(ProductType).optional().nullable(),
+  states: z
+    .array(z.string().regex(/^[A-Za-z]{2}$/, 'UF deve ter 2 letras'))
+    .default([])
+    .transform((ufs) => ufs.map((uf) => uf.toUpperCase())),
+  cities: z.array(z.string().min(2).max(100)).default([]),
+  originIds: z.array(z.string().min(1)).default([]),
+  minUnits: z.number().int().min(0).optional().nullable(),
+  maxUnits: z.number().int().min(0).optional().nullable(),
+
+  weekdays: z.array(z.number().int().min(0).max(6)).default([]),
+  startTime: z.string().regex(TIME_REGEX, 'Horário deve estar no formato HH:MM').optional().nullable(),
+  endTime: z.string().regex(TIME_REGEX, 'Horário deve estar no formato HH:MM').optional().nullable(),
+
+  vendedorIds: z.array(z.string().min(1)).min(1, 'Informe ao menos um vendedor'),
+  strategy: z.nativeEnum(AssignmentStrategy).default(AssignmentStrategy.ROUND_ROBIN),
+
+  slaReassignMinutes: z.number().int().min(5).max(10080).optional().nullable(),
+});
+
+export const CreateAssignmentRuleSchema = AssignmentRuleFieldsSchema
+  .refine((d) => d.minUnits == null || d.maxUnits == null || d.minUnits <= d.maxUnits, {
+    message: 'Mínimo de unidades não pode ser maior que o máximo',
+    path: ['minUnits'],
+  })
+  .refine((d) => !d.startTime === !d.endTime, {
+    message: 'Informe início e fim do horário (ou nenhum dos dois)',
+    path: ['endTime'],
+  });
+
+export type CreateAssignmentRuleDto = z.infer<typeof CreateAssignmentRuleSchema>;
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { AssignmentRuleFieldsSchema } from './create-assignment-rule.dto';
+
+// Update: todos os campos opcionais (consistência min/max e horário validada no service)
+export const UpdateAssignmentRuleSchema = AssignmentRuleFieldsSchema.partial().extend({
+  // Zerar o ponteiro do round-robin ao trocar o pool
+  roundRobinIndex: z.number().int().min(0).optional(),
+});
+
+export type UpdateAssignmentRuleDto = z.infer<typeof UpdateAssignmentRuleSchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+/**
+ * DTO para capacidade e ausência do vendedor
+ * null limpa o campo (sem limite / sem ausência)
+ */
+export const UpdateAvailabilitySchema = z
+  .object({
+    maxOpenLeads: z.number().int().min(0).max(10000).optional().nullable(),
+    absentFrom: z.coerce.date().optional().nullable(),
+    absentUntil: z.coerce.date().optional().nullable(),
+  })
+  .refine((d) => !d.absentFrom || !d.absentUntil || d.absentFrom <= d.absentUntil, {
+    message: 'Início da ausência deve ser anterior ao fim',
+    path: ['absentUntil'],
+  });
+
+export type UpdateAvailabilityDto = z.infer<typeof UpdateAvailabilitySchema>;
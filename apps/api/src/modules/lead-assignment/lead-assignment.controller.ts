@@ -0,0 +1,163 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { LeadAssignmentService } from './lead-assignment.service';
+import { AssignmentRulesService } from './assignment-rules.service';
+import { CreateAssignmentRuleDto, CreateAssignmentRuleSchema } from './dto/create-assignment-rule.dto';
+import { UpdateAssignmentRuleDto, UpdateAssignmentRuleSchema } from './dto/update-assignment-rule.dto';
+import { UpdateAvailabilityDto, UpdateAvailabilitySchema } from './dto/update-availability.dto';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { AuthUser } from '@/common/interfaces/auth-user.interface';
+import { UserRole, Module, LeadEntrySource, ProductType } from '@prisma/client';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+
+/**
+ * Lead Assignment Controller
+ * Regras de atribuição automática, disponibilidade dos vendedores e log de atribuições
+ *
+ * PERMISSÕES:
+ * - Regras: leitura SUPERADMIN/ADMINISTRATIVO/GESTOR; escrita SUPERADMIN/ADMINISTRATIVO
+ * - Disponibilidade: SUPERADMIN/ADMINISTRATIVO (todos) e GESTOR (própria equipe)
+ * - Log: SUPERADMIN/ADMINISTRATIVO/GESTOR
+ */
+@Controller('lead-assignment')
+export class LeadAssignmentController {
+  constructor(
+    private readonly assignmentService: LeadAssignmentService,
+    private readonly rulesService: AssignmentRulesService,
+  ) {}
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // REGRAS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * GET /lead-assignment/rules
+   * Lista regras na ordem de avaliação (com nomes dos vendedores do pool)
+   */
+  @Get('rules')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+  async findAllRules() {
+    return this.rulesService.findAll();
+  }
+
+  /**
+   * POST /lead-assignment/rules
+   */
+  @Post('rules')
+  @RequirePermission(Module.SETTINGS, 'create')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async createRule(@Body(new ZodValidationPipe(CreateAssignmentRuleSchema)) dto: CreateAssignmentRuleDto) {
+    return this.rulesService.create(dto);
+  }
+
+  /**
+   * PUT /lead-assignment/rules/:id
+   * Atualiza condições/pool ou ativa/desativa (isActive)
+   */
+  @Put('rules/:id')
+  @RequirePermission(Module.SETTINGS, 'edit')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async updateRule(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(UpdateAssignmentRuleSchema)) dto: UpdateAssignmentRuleDto,
+  ) {
+    return this.rulesService.update(id, dto);
+  }
+
+  /**
+   * DELETE /lead-assignment/rules/:id
+   */
+  @Delete('rules/:id')
+  @RequirePermission(Module.SETTINGS, 'delete')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeRule(@Param('id') id: string) {
+    await this.rulesService.remove(id);
+  }
+
+  /**
+   * GET /lead-assignment/preview?productType=&city=&originId=&numberOfUnits=
+   * Simula qual regra/vendedor receberia um lead com esses dados (não avança o round-robin)
+   */
+  @Get('preview')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async preview(
+    @Query('productType') productType?: ProductType,
+    @Query('city') city?: string,
+    @Query('originId') originId?: string,
+    @Query('numberOfUnits') numberOfUnits?: string,
+  ) {
+    const result = await this.assignmentService.resolve(
+      {
+        interestProduct: productType,
+        city,
+        originId,
+        numberOfUnits: numberOfUnits ? parseInt(numberOfUnits, 10) : null,
+      },
+      { dryRun: true },
+    );
+    return result ?? { vendedorId: null, ruleId: null, ruleName: null };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // DISPONIBILIDADE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * GET /lead-assignment/availability
+   * Capacidade, ausência e leads abertos por vendedor
+   */
+  @Get('availability')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+  async getAvailability(@CurrentUser() user: AuthUser) {
+    return this.rulesService.getAvailability(user.id, user.role);
+  }
+
+  /**
+   * PUT /lead-assignment/availability/:userId
+   * Define capacidade (maxOpenLeads) e período de ausência
+   */
+  @Put('availability/:userId')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+  async updateAvailability(
+    @Param('userId') userId: string,
+    @Body(new ZodValidationPipe(UpdateAvailabilitySchema)) dto: UpdateAvailabilityDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.rulesService.updateAvailability(userId, dto, user.id, user.role);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // LOG
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * GET /lead-assignment/logs?ruleId=&source=&limit=
+   * Últimas atribuições (máx. 200)
+   */
+  @Get('logs')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+  async getLogs(
+    @Query('ruleId') ruleId?: string,
+    @Query('source') source?: LeadEntrySource,
+    @Query('limit') limit?: string,
+  ) {
+    return this.assignmentService.getRecentLogs({
+      ruleId,
+      source,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '@/prisma/prisma.module';
+import { LeadAssignmentController } from './lead-assignment.controller';
+import { LeadAssignmentService } from './lead-assignment.service';
+import { AssignmentRulesService } from './assignment-rules.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [LeadAssignmentController],
+  providers: [LeadAssignmentService, AssignmentRulesService],
+  exports: [LeadAssignmentService], // Usado por Leads, Forms e Chat Nexus em cada porta de entrada
+})
+export class LeadAssignmentModule {}
@@ -0,0 +1,427 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '@/prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { toZonedBrasilia } from '../../common/utils/date.utils';
+import {
+  AssignmentReason,
+  AssignmentStrategy,
+  LeadAssignmentRule,
+  LeadEntrySource,
+  LeadStatus,
+  NotificationType,
+  Prisma,
+  ProductType,
+  UserRole,
+} from '@prisma/client';
+
+/** Dados do lead usados para casar as regras */
+export interface AssignmentContext {
+  interestProduct?: ProductType | null;
+  city?: string | null; // "São Paulo - SP"
+  originId?: string | null;
+  numberOfUnits?: number | null;
+}
+
+export interface AssignmentResult {
+  vendedorId: string;
+  ruleId: string;
+  ruleName: string;
+}
+
+export interface LogAssignmentInput {
+  leadId: string;
+  toVendedorId: string | null;
+  fromVendedorId?: string | null;
+  ruleId?: string | null;
+  source: LeadEntrySource;
+  reason: AssignmentReason;
+  details?: string;
+}
+
+interface AvailableVendedor {
+  id: string;
+  openLeads: number;
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * MOTOR DE ATRIBUIÇÃO DE LEADS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Aplicado em todas as portas de entrada (cadastro manual, formulários, LP,
+ * Partner API e Chat Nexus) quando o vendedor não vem definido.
+ *
+ * 1. Regras ativas são avaliadas por prioridade (menor primeiro)
+ * 2. A primeira regra cujas condições casam (produto, UF/cidade, origem,
+ *    nº de unidades e janela de horário) escolhe um vendedor do seu pool
+ * 3. Vendedores inativos, ausentes ou no limite de leads abertos são pulados;
+ *    se ninguém do pool está disponível, tenta a próxima regra
+ * 4. Sem regra aplicável → null (cada porta de entrada tem seu fallback)
+ *
+ * Toda atribuição é registrada em LeadAssignmentLog.
+ */
+@Injectable()
+export class LeadAssignmentService {
+  private readonly logger = new Logger(LeadAssignmentService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Escolhe o vendedor pela primeira regra aplicável (null = nenhuma regra/vendedor disponível)
+   * dryRun = simulação (não avança o round-robin)
+   */
+  async resolve(
+    context: AssignmentContext,
+    options: { at?: Date; dryRun?: boolean } = {},
+  ): Promise<AssignmentResult | null> {
+    const at = options.at ?? new Date();
+    const rules = await this.prisma.leadAssignmentRule.findMany({
+      where: { isActive: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    for (const rule of rules) {
+      if (!this.matches(rule, context, at)) continue;
+
+      const vendedorId = await this.pickVendedor(rule, at, [], options.dryRun);
+      if (vendedorId) {
+        this.logger.debug(`🎯 Regra "${rule.name}" → vendedor ${vendedorId}`);
+        return { vendedorId, ruleId: rule.id, ruleName: rule.name };
+      }
+
+      this.logger.debug(`⏭️ Regra "${rule.name}" casou mas nenhum vendedor do pool está disponível`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Fallback das integrações: vendedor/gestor disponível com menos leads abertos
+   */
+  async resolveLeastLoaded(at: Date = new Date()): Promise<string | null> {
+    const candidates = await this.prisma.user.findMany({
+      where: { isActive: true, role: { in: [UserRole.VENDEDOR, UserRole.GESTOR] } },
+      select: { id: true },
+    });
+
+    const available = await this.getAvailableVendedores(candidates.map((c) => c.id), at);
+    if (available.length === 0) return null;
+
+    return available.reduce((best, v) => (v.openLeads < best.openLeads ? v : best)).id;
+  }
+
+  /**
+   * Registra a atribuição (não falha a operação de origem se o log falhar)
+   */
+  async logAssignment(
+    input: LogAssignmentInput,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    try {
+      await client.leadAssignmentLog.create({
+        data: {
+          leadId: input.leadId,
+          toVendedorId: input.toVendedorId,
+          fromVendedorId: input.fromVendedorId ?? null,
+          ruleId: input.ruleId ?? null,
+          source: input.source,
+          reason: input.reason,
+          details: input.details?.slice(0, 300) ?? null,
+        },
+      });
+    } catch (error) {
+      this.logger.warn(`⚠️ Erro ao registrar atribuição do lead ${input.leadId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Histórico de atribuições do lead (mais recente primeiro)
+   */
+  async getLeadLogs(leadId: string) {
+    return this.prisma.leadAssignmentLog.findMany({
+      where: { leadId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        rule: { select: { id: true, name: true } },
+        fromVendedor: { select: { id: true, name: true } },
+        toVendedor: { select: { id: true, name: true } },
+      },
+    });
+  }
+
+  /**
+   * Últimas atribuições (auditoria em Configurações)
+   */
+  async getRecentLogs(filters: { ruleId?: string; source?: LeadEntrySource; limit?: number }) {
+    return this.prisma.leadAssignmentLog.findMany({
+      where: {
+        ...(filters.ruleId && { ruleId: filters.ruleId }),
+        ...(filters.source && { source: filters.source }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(filters.limit ?? 50, 200),
+      include: {
+        lead: { select: { id: true, name: true, companyName: true } },
+        rule: { select: { id: true, name: true } },
+        fromVendedor: { select: { id: true, name: true } },
+        toVendedor: { select: { id: true, name: true } },
+      },
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // REATRIBUIÇÃO POR SLA (sem primeiro contato)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Leads atribuídos por regra com slaReassignMinutes que continuam sem
+   * interação após o prazo passam para o próximo vendedor disponível do pool.
+   * Cada vendedor do pool tem uma chance — depois disso o lead fica onde está.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'assignment-sla' })
+  async handleSlaBreaches() {
+    const rules = await this.prisma.leadAssignmentRule.findMany({
+      where: { isActive: true, slaReassignMinutes: { not: null } },
+    });
+    if (rules.length === 0) return;
+
+    let reassigned = 0;
+
+    for (const rule of rules) {
+      const cutoff = new Date(Date.now() - rule.slaReassignMinutes! * 60 * 1000);
+      const candidates = await this.prisma.leadAssignmentLog.findMany({
+        where: {
+          ruleId: rule.id,
+          reason: { in: [AssignmentReason.RULE, AssignmentReason.SLA_BREACH] },
+          // Janela de 7 dias evita varrer atribuições antigas a cada execução
+          createdAt: { lte: cutoff, gte: new Date(cutoff.getTime() - 7 * 24 * 60 * 60 * 1000) },
+          lead: { status: LeadStatus.ABERTO },
+        },
+        orderBy: { createdAt: 'desc' },
+        distinct: ['leadId'],
+        select: { leadId: true },
+      });
+
+      for (const { leadId } of candidates) {
+        try {
+          if (await this.reassignForSlaBreach(leadId, rule)) reassigned++;
+        } catch (error) {
+          this.logger.error(`❌ Erro na reatribuição por SLA do lead ${leadId}: ${error.message}`);
+        }
+      }
+    }
+
+    if (reassigned > 0) {
+      this.logger.log(`⏱️ ${reassigned} lead(s) reatribuído(s) por falta de primeiro contato`);
+    }
+  }
+
+  /**
+   * Reatribui o lead ao próximo vendedor do pool da regra se o prazo venceu
+   * sem interação desde a última atribuição. Retorna true se reatribuiu.
+   */
+  async reassignForSlaBreach(leadId: string, rule: LeadAssignmentRule): Promise<boolean> {
+    if (!rule.slaReassignMinutes) return false;
+
+    const [lead, lastLog, breaches] = await Promise.all([
+      this.prisma.lead.findUnique({
+        where: { id: leadId },
+        select: { id: true, name: true, companyName: true, status: true, vendedorId: true, lastInteractionAt: true },
+      }),
+      this.prisma.leadAssignmentLog.findFirst({
+        where: { leadId },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.leadAssignmentLog.count({
+        where: { leadId, ruleId: rule.id, reason: AssignmentReason.SLA_BREACH },
+      }),
+    ]);
+
+    // Só age sobre a atribuição vigente feita por esta regra
+    if (!lead || lead.status !== LeadStatus.ABERTO || !lastLog || lastLog.ruleId !== rule.id) return false;
+    if (lastLog.toVendedorId !== lead.vendedorId) return false;
+    if (Date.now() - lastLog.createdAt.getTime() < rule.slaReassignMinutes * 60 * 1000) return false;
+    if (breaches >= rule.vendedorIds.length - 1) return false;
+
+    const contacted =
+      (lead.lastInteractionAt && lead.lastInteractionAt >= lastLog.createdAt) ||
+      (await this.prisma.interaction.count({
+        where: { leadId, createdAt: { gte: lastLog.createdAt } },
+      })) > 0;
+    if (contacted) return false;
+
+    const nextVendedorId = await this.pickVendedor(rule, new Date(), lead.vendedorId ? [lead.vendedorId] : []);
+    if (!nextVendedorId) return false;
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.lead.update({ where: { id: leadId }, data: { vendedorId: nextVendedorId } });
+      await this.logAssignment(
+        {
+          leadId,
+          fromVendedorId: lead.vendedorId,
+          toVendedorId: nextVendedorId,
+          ruleId: rule.id,
+          source: lastLog.source,
+          reason: AssignmentReason.SLA_BREACH,
+          details: `Sem primeiro contato em ${rule.slaReassignMinutes} min`,
+        },
+        tx,
+      );
+    });
+
+    const leadName = lead.companyName || lead.name;
+    this.notificationsService.create({
+      userId: nextVendedorId,
+      type: NotificationType.LEAD_ASSIGNED,
+      title: 'Lead atribuído a você',
+      message: `${leadName} foi redistribuído para você (sem primeiro contato no prazo).`,
+      link: '/leads',
+      metadata: { leadId, ruleId: rule.id },
+    }).catch(() => {});
+
+    if (lead.vendedorId) {
+      this.notificationsService.create({
+        userId: lead.vendedorId,
+        type: NotificationType.SYSTEM_ALERT,
+        title: 'Lead redistribuído',
+        message: `${leadName} foi transferido por falta de contato em ${rule.slaReassignMinutes} min.`,
+        link: '/leads',
+        metadata: { leadId, ruleId: rule.id },
+      }).catch(() => {});
+    }
+
+    return true;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private matches(rule: LeadAssignmentRule, context: AssignmentContext, at: Date): boolean {
+    if (rule.productType && rule.productType !== context.interestProduct) return false;
+    if (rule.originIds.length > 0 && (!context.originId || !rule.originIds.includes(context.originId))) return false;
+
+    if (rule.states.length > 0 || rule.cities.length > 0) {
+      const { city, state } = this.parseCity(context.city);
+      if (rule.states.length > 0 && (!state || !rule.states.includes(state))) return false;
+      if (rule.cities.length > 0 && (!city || !rule.cities.some((c) => this.normalize(c) === city))) return false;
+    }
+
+    if (rule.minUnits != null || rule.maxUnits != null) {
+      const units = context.numberOfUnits;
+      if (units == null) return false;
+      if (rule.minUnits != null && units < rule.minUnits) return false;
+      if (rule.maxUnits != null && units > rule.maxUnits) return false;
+    }
+
+    // Janela de horário em BRT
+    const local = toZonedBrasilia(at);
+    if (rule.weekdays.length > 0 && !rule.weekdays.includes(local.getDay())) return false;
+    if (rule.startTime && rule.endTime) {
+      const minutes = local.getHours() * 60 + local.getMinutes();
+      const start = this.toMinutes(rule.startTime);
+      const end = this.toMinutes(rule.endTime);
+      // Janela que cruza a meia-noite (ex.: 18:00 → 08:00)
+      const inWindow = start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+      if (!inWindow) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Escolhe um vendedor disponível do pool (avança o ponteiro do round-robin)
+   */
+  private async pickVendedor(
+    rule: LeadAssignmentRule,
+    at: Date,
+    exclude: string[] = [],
+    dryRun = false,
+  ): Promise<string | null> {
+    const pool = rule.vendedorIds.filter((id) => !exclude.includes(id));
+    const available = await this.getAvailableVendedores(pool, at);
+    if (available.length === 0) return null;
+
+    if (rule.strategy === AssignmentStrategy.LEAST_LOADED) {
+      // Empate: ordem do pool
+      return available.reduce((best, v) => (v.openLeads < best.openLeads ? v : best)).id;
+    }
+
+    const availableIds = new Set(available.map((v) => v.id));
+    const size = rule.vendedorIds.length;
+    for (let offset = 0; offset < size; offset++) {
+      const index = (rule.roundRobinIndex + offset) % size;
+      const candidate = rule.vendedorIds[index];
+      if (!availableIds.has(candidate)) continue;
+      if (dryRun) return candidate;
+
+      // Mantém o objeto em sincronia (o cron de SLA reusa a mesma regra em várias reatribuições)
+      rule.roundRobinIndex = (index + 1) % size;
+      await this.prisma.leadAssignmentRule.update({
+        where: { id: rule.id },
+        data: { roundRobinIndex: rule.roundRobinIndex },
+      });
+      return candidate;
+    }
+
+    return null;
+  }
+
+  /**
+   * Vendedores ativos, fora de ausência e abaixo da capacidade (na ordem recebida)
+   */
+  private async getAvailableVendedores(ids: string[], at: Date): Promise<AvailableVendedor[]> {
+    if (ids.length === 0) return [];
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: ids }, isActive: true },
+      select: {
+        id: true,
+        maxOpenLeads: true,
+        absentFrom: true,
+        absentUntil: true,
+        _count: { select: { assignedLeads: { where: { status: LeadStatus.ABERTO } } } },
+      },
+    });
+    const byId = new Map(users.map((u) => [u.id, u]));
+
+    return ids
+      .map((id) => byId.get(id))
+      .filter((u): u is NonNullable<typeof u> => !!u)
+      .filter((u) => {
+        const absent =
+          (u.absentFrom || u.absentUntil) &&
+          (!u.absentFrom || u.absentFrom <= at) &&
+          (!u.absentUntil || at <= u.absentUntil);
+        const full = u.maxOpenLeads != null && u._count.assignedLeads >= u.maxOpenLeads;
+        return !absent && !full;
+      })
+      .map((u) => ({ id: u.id, openLeads: u._count.assignedLeads }));
+  }
+
+  /** "São Paulo - SP" → { city: "sao paulo", state: "SP" } */
+  private parseCity(value?: string | null): { city: string | null; state: string | null } {
+    if (!value) return { city: null, state: null };
+    const match = value.match(/^(.*?)\s*[-/]\s*([A-Za-z]{2})$/);
+    return match
+      ? { city: this.normalize(match[1]), state: match[2].toUpperCase() }
+      : { city: this.normalize(value), state: null };
+  }
+
+  private normalize(value: string): string {
+    return value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .trim();
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
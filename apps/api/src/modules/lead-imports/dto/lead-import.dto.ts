@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { ProductType } from '@prisma/client';
+
+/** Campos do lead que podem receber uma coluna do arquivo */
+export const LEAD_IMPORT_FIELDS = [
+  'name',
+  'email',
+  'phone',
+  'companyName',
+  'cpfCnpj',
+  'role',
+  'city',
+  'numberOfUnits',
+  'instagram',
+  'facebook',
+  'expectedRevenue',
+  'notes',
+  'origin',
+  'vendedor',
+] as const;
+
+export type LeadImportField = (typeof LEAD_IMPORT_FIELDS)[number];
+
+/**
+ * Schema Zod do mapeamento + opções da importação (usado na pré-visualização e na confirmação)
+ *
+ * - mapping: campo do lead → índice da coluna no arquivo (campos ausentes não são importados)
+ * - originId: origem padrão (linhas sem a coluna "origem" ou com origem não cadastrada)
+ * - vendedorId: força um vendedor para todas as linhas; sem ele valem a coluna "vendedor" e as regras de atribuição
+ * - skipDuplicates: linhas que batem com leads existentes (email, telefone ou CPF/CNPJ) não são criadas
+ */
+export const LeadImportMappingSchema = z
+  .object({
+    mapping: z.record(z.enum(LEAD_IMPORT_FIELDS), z.number().int().min(0)),
+    interestProduct: z.nativeEnum(ProductType, {
+      errorMap: () => ({ message: 'Tipo de produto inválido. Valores aceitos: ONE_NEXUS, LOCADORAS' }),
+    }),
+    originId: z.string().min(1, 'Informe a origem padrão dos leads'),
+    stageId: z.string().min(1).optional().nullable(),
+    vendedorId: z.string().min(1).optional().nullable(),
+    skipDuplicates: z.boolean().default(true),
+  })
+  .refine((data) => data.mapping.email !== undefined, {
+    message: 'Mapeie a coluna de email',
+    path: ['mapping'],
+  })
+  .refine((data) => data.mapping.name !== undefined || data.mapping.companyName !== undefined, {
+    message: 'Mapeie a coluna de nome do contato ou de empresa',
+    path: ['mapping'],
+  });
+
+export type LeadImportMappingDto = z.infer<typeof LeadImportMappingSchema>;
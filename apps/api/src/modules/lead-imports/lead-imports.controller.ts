@@ -0,0 +1,80 @@
+import {
+  Controller, Get, Post,
+  Body, Param, UseGuards, HttpCode, HttpStatus,
+  UseInterceptors, UploadedFile, BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { LeadImportsService } from './lead-imports.service';
+import { RolesGuard } from '@/common/guards/roles.guard';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+import { AuthUser } from '@/common/interfaces/auth-user.interface';
+import { UserRole, Module } from '@prisma/client';
+import { LeadImportMappingDto, LeadImportMappingSchema } from './dto/lead-import.dto';
+
+/** Planilhas de eventos e listas compradas raramente passam de 1 MB */
+const MAX_SPREADSHEET_SIZE = 5 * 1024 * 1024;
+
+@RequirePermission(Module.LEADS, 'create')
+@Controller('lead-imports')
+@UseGuards(RolesGuard)
+@Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+export class LeadImportsController {
+  constructor(private readonly service: LeadImportsService) {}
+
+  /**
+   * POST /lead-imports
+   * Envia o arquivo (CSV/XLSX) — devolve cabeçalhos, amostra e mapeamento sugerido
+   */
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_SPREADSHEET_SIZE } }))
+  async upload(
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser('id') userId: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Nenhum arquivo foi enviado');
+    }
+    const data = await this.service.upload(file, userId);
+    return { success: true, data };
+  }
+
+  @Get()
+  async findAll() {
+    const data = await this.service.findAll();
+    return { success: true, data };
+  }
+
+  /**
+   * POST /lead-imports/:id/preview
+   * Dry-run: valida todas as linhas com o mapeamento informado, sem criar leads
+   */
+  @Post(':id/preview')
+  @HttpCode(HttpStatus.OK)
+  async preview(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(LeadImportMappingSchema)) dto: LeadImportMappingDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const data = await this.service.preview(id, dto, user);
+    return { success: true, data };
+  }
+
+  /**
+   * POST /lead-imports/:id/confirm
+   * Cria os leads válidos (duplicados conforme skipDuplicates)
+   */
+  @Post(':id/confirm')
+  @HttpCode(HttpStatus.OK)
+  async confirm(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(LeadImportMappingSchema)) dto: LeadImportMappingDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const data = await this.service.confirm(id, dto, user);
+    return { success: true, data, message: `${data.created} lead(s) importado(s)` };
+  }
+}
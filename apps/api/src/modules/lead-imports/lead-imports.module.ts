@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '@/prisma/prisma.module';
+import { LeadsModule } from '../leads/leads.module';
+import { AuditModule } from '../audit/audit.module';
+import { LeadImportsController } from './lead-imports.controller';
+import { LeadImportsService } from './lead-imports.service';
+
+@Module({
+  imports: [PrismaModule, LeadsModule, AuditModule],
+  controllers: [LeadImportsController],
+  providers: [LeadImportsService],
+})
+export class LeadImportsModule {}
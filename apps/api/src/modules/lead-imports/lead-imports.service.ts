@@ -0,0 +1,634 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ClientRole,
+  LeadEntrySource,
+  LeadImportStatus,
+  LeadStatus,
+  NotificationType,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import { AuthUser } from '@/common/interfaces/auth-user.interface';
+import { validateCpfCnpj } from '@/common/utils/document.utils';
+import { detectSpreadsheetFormat, parseSpreadsheet } from '@/common/utils/spreadsheet.utils';
+import { LeadsService, CLIENT_ROLE_LABELS } from '../leads/leads.service';
+import { normalizeDocument, normalizeEmail, normalizePhoneKey } from '../leads/services/lead-duplicate.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { AuditService } from '../audit/audit.service';
+import { LEAD_IMPORT_FIELDS, LeadImportField, LeadImportMappingDto } from './dto/lead-import.dto';
+
+/** Cada linha vira um lead pelo fluxo completo de criação (score, atribuição, duplicados) */
+const MAX_IMPORT_ROWS = 2000;
+
+/** Perfis que podem continuar importações enviadas por outro usuário */
+const IMPORT_ADMIN_ROLES: UserRole[] = [UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO];
+
+/** Linhas devolvidas no upload para o usuário reconhecer as colunas */
+const SAMPLE_ROWS = 5;
+
+/** Telefone de preenchimento quando a planilha não traz o dado (mesmo padrão dos formulários) */
+const PLACEHOLDER_PHONE = '(00) 00000-0000';
+
+/** Cabeçalhos reconhecidos automaticamente (comparação sem acento/caixa/pontuação) */
+const HEADER_ALIASES: Record<LeadImportField, string[]> = {
+  name: ['nome', 'nome do contato', 'contato', 'responsavel', 'name'],
+  email: ['email', 'e mail', 'email do contato'],
+  phone: ['telefone', 'celular', 'whatsapp', 'fone', 'tel', 'phone'],
+  companyName: ['empresa', 'nome da empresa', 'razao social', 'nome fantasia', 'company'],
+  cpfCnpj: ['cpf cnpj', 'cnpj', 'cpf', 'documento'],
+  role: ['cargo', 'funcao', 'role'],
+  city: ['cidade', 'municipio', 'cidade uf', 'city'],
+  numberOfUnits: ['unidades', 'numero de unidades', 'qtd unidades'],
+  instagram: ['instagram'],
+  facebook: ['facebook'],
+  expectedRevenue: ['receita esperada', 'receita', 'mrr', 'valor'],
+  notes: ['observacoes', 'observacao', 'notas', 'obs'],
+  origin: ['origem', 'fonte', 'origin'],
+  vendedor: ['email do vendedor', 'vendedor', 'responsavel comercial'],
+};
+
+/** Rótulos curtos usados em planilhas de eventos/listas compradas */
+const ROLE_ALIASES: Record<string, ClientRole> = {
+  socio: ClientRole.SOCIO_FUNDADOR,
+  fundador: ClientRole.SOCIO_FUNDADOR,
+  proprietario: ClientRole.SOCIO_FUNDADOR,
+  dono: ClientRole.SOCIO_FUNDADOR,
+  ceo: ClientRole.CEO_PRESIDENTE,
+  presidente: ClientRole.CEO_PRESIDENTE,
+  'ceo presidente': ClientRole.CEO_PRESIDENTE,
+  'c level': ClientRole.VP_CLEVEL,
+  vp: ClientRole.VP_CLEVEL,
+};
+
+export type ImportRowStatus = 'VALID' | 'DUPLICATE' | 'ERROR';
+
+/** Resultado da validação de uma linha (pré-visualização) */
+export interface ImportRowResult {
+  /** Linha no arquivo (1 = cabeçalho) */
+  row: number;
+  status: ImportRowStatus;
+  errors: string[];
+  name: string;
+  email: string;
+  companyName: string | null;
+  city: string | null;
+  duplicateOf?: { id: string | null; label: string; reason: string };
+}
+
+interface ValidatedRow {
+  result: ImportRowResult;
+  data: Record<string, unknown> | null;
+}
+
+/** Leads existentes indexados pelas chaves de duplicidade */
+interface ExistingLeadIndex {
+  email: Map<string, DuplicateRef>;
+  phone: Map<string, DuplicateRef>;
+  document: Map<string, DuplicateRef>;
+}
+
+/** id nulo = linha anterior do próprio arquivo */
+interface DuplicateRef {
+  id: string | null;
+  label: string;
+}
+
+const normalizeText = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Lead Imports Service — Importação em lote de leads (CSV / XLSX)
+ *
+ * FLUXO:
+ * 1. upload(): lê o arquivo, guarda as linhas e sugere o mapeamento pelas colunas
+ * 2. preview(): dry-run com o mapeamento escolhido — erros por linha
+ *    (CPF/CNPJ, telefone, cidade no IBGE) e duplicados (leads existentes ou repetidos no arquivo)
+ * 3. confirm(): cria as linhas válidas via LeadsService.create (regras de atribuição,
+ *    score, fila de duplicados) e envia um resumo por vendedor
+ *
+ * IMPORTANTE:
+ * - Só quem enviou o arquivo (ou SUPERADMIN/ADMINISTRATIVO) pré-visualiza e confirma
+ * - confirm() reserva a importação (PENDING → PROCESSING) antes de criar os leads:
+ *   retry do cliente/proxy ou clique duplo não importam a mesma planilha duas vezes
+ */
+@Injectable()
+export class LeadImportsService {
+  private readonly logger = new Logger(LeadImportsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly leadsService: LeadsService,
+    private readonly notificationsService: NotificationsService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // UPLOAD
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async upload(file: Express.Multer.File, userId: string) {
+    const format = detectSpreadsheetFormat(file.originalname);
+    if (!format) {
+      throw new BadRequestException('Formato não suportado. Envie um arquivo .csv ou .xlsx');
+    }
+
+    let parsed: string[][];
+    try {
+      parsed = parseSpreadsheet(file.buffer, format);
+    } catch (error) {
+      this.logger.warn(`⚠️ Planilha ilegível (${file.originalname}): ${error.message}`);
+      throw new BadRequestException('Não foi possível ler o arquivo. Verifique se é um CSV ou XLSX válido');
+    }
+
+    const [headerRow, ...rows] = parsed;
+    if (!headerRow || rows.length === 0) {
+      throw new BadRequestException('O arquivo não possui linhas de dados abaixo do cabeçalho');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(`O arquivo possui ${rows.length} linhas — o limite por importação é ${MAX_IMPORT_ROWS}`);
+    }
+
+    const headers = headerRow.map((header, index) => header || `Coluna ${index + 1}`);
+    const leadImport = await this.prisma.leadImport.create({
+      data: {
+        fileName: file.originalname,
+        format,
+        headers,
+        rows: rows as unknown as Prisma.InputJsonValue,
+        totalRows: rows.length,
+        createdById: userId,
+      },
+    });
+
+    this.logger.log(`📥 Importação de leads carregada: ${file.originalname} (${rows.length} linha(s))`);
+
+    return {
+      id: leadImport.id,
+      fileName: leadImport.fileName,
+      format,
+      headers,
+      totalRows: rows.length,
+      sampleRows: rows.slice(0, SAMPLE_ROWS),
+      suggestedMapping: this.suggestMapping(headers),
+    };
+  }
+
+  async findAll() {
+    return this.prisma.leadImport.findMany({
+      select: {
+        id: true,
+        fileName: true,
+        format: true,
+        totalRows: true,
+        status: true,
+        createdCount: true,
+        skippedCount: true,
+        errorCount: true,
+        createdAt: true,
+        completedAt: true,
+        createdBy: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+  }
+
+  /**
+   * Campo → coluna pelo nome do cabeçalho (cada coluna é usada uma única vez)
+   */
+  private suggestMapping(headers: string[]): Partial<Record<LeadImportField, number>> {
+    const normalized = headers.map(normalizeText);
+    const used = new Set<number>();
+    const mapping: Partial<Record<LeadImportField, number>> = {};
+
+    for (const field of LEAD_IMPORT_FIELDS) {
+      for (const alias of HEADER_ALIASES[field]) {
+        const index = normalized.findIndex((header, i) => header === alias && !used.has(i));
+        if (index >= 0) {
+          mapping[field] = index;
+          used.add(index);
+          break;
+        }
+      }
+    }
+
+    return mapping;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // PRÉ-VISUALIZAÇÃO (DRY-RUN)
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async preview(id: string, dto: LeadImportMappingDto, user: AuthUser) {
+    const leadImport = await this.findPending(id, user);
+    const validated = await this.validateRows(leadImport.rows as string[][], leadImport.headers.length, dto, user);
+
+    await this.prisma.leadImport.update({
+      where: { id },
+      data: { mapping: dto.mapping as Prisma.InputJsonValue },
+    });
+
+    const results = validated.map((row) => row.result);
+    return {
+      summary: {
+        total: results.length,
+        valid: results.filter((r) => r.status === 'VALID').length,
+        duplicates: results.filter((r) => r.status === 'DUPLICATE').length,
+        errors: results.filter((r) => r.status === 'ERROR').length,
+      },
+      rows: results,
+    };
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // CONFIRMAÇÃO
+  // ════════════════════════════════════════════════════════════════════════════
+
+  async confirm(id: string, dto: LeadImportMappingDto, user: AuthUser) {
+    const leadImport = await this.findPending(id, user);
+    const validated = await this.validateRows(leadImport.rows as string[][], leadImport.headers.length, dto, user);
+
+    // Reserva atômica: só uma confirmação cria os leads desta importação
+    const claimed = await this.prisma.leadImport.updateMany({
+      where: { id, status: LeadImportStatus.PENDING },
+      data: { status: LeadImportStatus.PROCESSING, mapping: dto.mapping as Prisma.InputJsonValue },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictException('Esta importação já está sendo processada ou foi concluída');
+    }
+
+    const failures: Array<{ row: number; errors: string[] }> = [];
+    const assignedByVendedor = new Map<string, number>();
+    let created = 0;
+    let skipped = 0;
+
+    for (const { result, data } of validated) {
+      if (result.status === 'ERROR' || !data) {
+        failures.push({ row: result.row, errors: result.errors });
+        continue;
+      }
+      if (result.status === 'DUPLICATE' && dto.skipDuplicates) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        const lead = await this.leadsService.create(data as any, user.id, user.role, {
+          source: LeadEntrySource.IMPORT,
+          silent: true,
+        });
+        created++;
+        if (lead.vendedorId) {
+          assignedByVendedor.set(lead.vendedorId, (assignedByVendedor.get(lead.vendedorId) ?? 0) + 1);
+        }
+      } catch (error) {
+        failures.push({ row: result.row, errors: [error.message] });
+      }
+    }
+
+    const completed = await this.prisma.leadImport.update({
+      where: { id },
+      data: {
+        status: LeadImportStatus.COMPLETED,
+        mapping: dto.mapping as Prisma.InputJsonValue,
+        createdCount: created,
+        skippedCount: skipped,
+        errorCount: failures.length,
+        errors: failures as unknown as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+
+    this.logger.log(
+      `✅ Importação ${leadImport.fileName}: ${created} lead(s) criado(s), ${skipped} duplicado(s) ignorado(s), ${failures.length} erro(s)`,
+    );
+
+    // Um resumo por vendedor em vez de uma notificação por lead
+    for (const [vendedorId, count] of assignedByVendedor) {
+      this.notificationsService.create({
+        userId: vendedorId,
+        type: NotificationType.LEAD_ASSIGNED,
+        title: 'Novos leads importados',
+        message: `${count} lead(s) da planilha "${leadImport.fileName}" foram atribuídos a você.`,
+        link: '/leads',
+        metadata: { leadImportId: id, count },
+      }).catch(() => {});
+    }
+
+    await this.auditService.log({
+      userId: user.id,
+      action: 'IMPORT',
+      entity: 'LeadImport',
+      entityId: id,
+      newData: {
+        fileName: leadImport.fileName,
+        totalRows: leadImport.totalRows,
+        created,
+        skipped,
+        errors: failures.length,
+      },
+    });
+
+    return {
+      id: completed.id,
+      created,
+      skipped,
+      errors: failures,
+    };
+  }
+
+  private async findPending(id: string, user: AuthUser) {
+    const leadImport = await this.prisma.leadImport.findUnique({ where: { id } });
+    if (!leadImport) {
+      throw new NotFoundException(`Importação ${id} não encontrada`);
+    }
+    if (leadImport.createdById !== user.id && !IMPORT_ADMIN_ROLES.includes(user.role)) {
+      throw new ForbiddenException('Apenas quem enviou o arquivo pode continuar esta importação');
+    }
+    if (leadImport.status === LeadImportStatus.PROCESSING) {
+      throw new ConflictException('Esta importação já está sendo processada');
+    }
+    if (leadImport.status === LeadImportStatus.COMPLETED) {
+      throw new BadRequestException('Esta importação já foi concluída — envie o arquivo novamente');
+    }
+    return leadImport;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════
+  // VALIDAÇÃO
+  // ════════════════════════════════════════════════════════════════════════════
+
+  private async validateRows(
+    rows: string[][],
+    columnCount: number,
+    dto: LeadImportMappingDto,
+    user: AuthUser,
+  ): Promise<ValidatedRow[]> {
+    const outOfRange = Object.entries(dto.mapping).find(([, index]) => index >= columnCount);
+    if (outOfRange) {
+      throw new BadRequestException(`Coluna inválida para o campo "${outOfRange[0]}"`);
+    }
+
+    const [origins, stage, users, existing] = await Promise.all([
+      this.prisma.leadOrigin.findMany({ select: { id: true, name: true } }),
+      dto.stageId ? this.prisma.funnelStage.findUnique({ where: { id: dto.stageId } }) : null,
+      this.prisma.user.findMany({
+        where: { isActive: true, role: { in: [UserRole.VENDEDOR, UserRole.GESTOR, UserRole.SUPERADMIN] } },
+        select: { id: true, name: true, email: true, gestorId: true },
+      }),
+      this.loadExistingLeads(),
+    ]);
+
+    if (!origins.some((origin) => origin.id === dto.originId)) {
+      throw new BadRequestException('Origem padrão não encontrada');
+    }
+    if (dto.stageId && !stage) {
+      throw new BadRequestException(`Estágio ${dto.stageId} não encontrado`);
+    }
+
+    const originsByName = new Map(origins.map((origin) => [normalizeText(origin.name), origin.id]));
+    const usersByKey = new Map<string, (typeof users)[number]>();
+    for (const candidate of users) {
+      usersByKey.set(candidate.email.toLowerCase(), candidate);
+      if (candidate.name) usersByKey.set(normalizeText(candidate.name), candidate);
+    }
+
+    // Vendedor fixo para todas as linhas (GESTOR apenas para a própria equipe)
+    const fixedVendedorId = dto.vendedorId ?? null;
+    if (fixedVendedorId && fixedVendedorId !== user.id) {
+      const fixed = users.find((candidate) => candidate.id === fixedVendedorId);
+      if (!fixed) {
+        throw new BadRequestException('Vendedor selecionado não encontrado ou inativo');
+      }
+      if (user.role === UserRole.GESTOR && fixed.gestorId !== user.id) {
+        throw new ForbiddenException('Você só pode importar leads para sua equipe');
+      }
+    }
+
+    const cityCache = new Map<string, { name: string } | { error: string }>();
+    const seenInFile: ExistingLeadIndex = { email: new Map(), phone: new Map(), document: new Map() };
+    const results: ValidatedRow[] = [];
+
+    for (const [index, cells] of rows.entries()) {
+      const rowNumber = index + 2;
+      const get = (field: LeadImportField) => {
+        const column = dto.mapping[field];
+        return column === undefined ? '' : (cells[column] ?? '').trim();
+      };
+      const errors: string[] = [];
+
+      // Contato
+      const rawEmail = get('email');
+      const email = normalizeEmail(rawEmail);
+      if (!rawEmail) errors.push('Email não informado');
+      else if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) errors.push(`Email inválido: "${rawEmail}"`);
+
+      const companyName = get('companyName') || null;
+      const name = get('name') || companyName || '';
+      if (!name) errors.push('Nome do contato ou empresa não informado');
+
+      const rawPhone = get('phone');
+      let phone = PLACEHOLDER_PHONE;
+      if (rawPhone) {
+        let digits = rawPhone.replace(/\D/g, '');
+        if (digits.length >= 12 && digits.startsWith('55')) digits = digits.slice(2);
+        digits = digits.replace(/^0+/, '');
+        if (digits.length === 10 || digits.length === 11) phone = digits;
+        else errors.push(`Telefone inválido: "${rawPhone}"`);
+      }
+
+      const rawDocument = get('cpfCnpj');
+      const cpfCnpj = rawDocument ? rawDocument.replace(/\D/g, '') : null;
+      if (rawDocument && !validateCpfCnpj(rawDocument)) errors.push(`CPF/CNPJ inválido: "${rawDocument}"`);
+
+      // Cidade (validada contra o IBGE, mesma base do autocomplete)
+      const rawCity = get('city');
+      let city: string | null = null;
+      if (rawCity) {
+        const resolved = await this.resolveCity(rawCity, cityCache);
+        if ('error' in resolved) errors.push(resolved.error);
+        else city = resolved.name;
+      }
+
+      // Numéricos
+      const rawUnits = get('numberOfUnits');
+      let numberOfUnits: number | null = null;
+      if (rawUnits) {
+        numberOfUnits = Number(rawUnits.replace(/\D/g, ''));
+        if (!Number.isInteger(numberOfUnits) || numberOfUnits <= 0) errors.push(`Número de unidades inválido: "${rawUnits}"`);
+      }
+
+      const rawRevenue = get('expectedRevenue');
+      let expectedRevenue: number | null = null;
+      if (rawRevenue) {
+        expectedRevenue = this.parseAmount(rawRevenue);
+        if (expectedRevenue === null || expectedRevenue <= 0) errors.push(`Receita esperada inválida: "${rawRevenue}"`);
+      }
+
+      // Origem: coluna (se cadastrada) ou origem padrão
+      const rawOrigin = get('origin');
+      const originId = (rawOrigin && originsByName.get(normalizeText(rawOrigin))) || dto.originId;
+
+      // Vendedor: fixo > coluna > regras de atribuição (LeadsService.create)
+      let vendedorId = fixedVendedorId;
+      const rawVendedor = get('vendedor');
+      if (!vendedorId && rawVendedor) {
+        const vendedor = usersByKey.get(rawVendedor.toLowerCase()) ?? usersByKey.get(normalizeText(rawVendedor));
+        if (!vendedor) errors.push(`Vendedor não encontrado ou inativo: "${rawVendedor}"`);
+        else if (user.role === UserRole.GESTOR && vendedor.gestorId !== user.id && vendedor.id !== user.id) {
+          errors.push(`Vendedor fora da sua equipe: "${rawVendedor}"`);
+        } else vendedorId = vendedor.id;
+      }
+
+      const result: ImportRowResult = { row: rowNumber, status: 'VALID', errors, name, email: email ?? rawEmail, companyName, city };
+
+      if (errors.length > 0) {
+        result.status = 'ERROR';
+        results.push({ result, data: null });
+        continue;
+      }
+
+      // Duplicados: leads existentes (não convertidos) e linhas anteriores do arquivo
+      const keys = { email, phone: normalizePhoneKey(phone), document: normalizeDocument(cpfCnpj) };
+      const duplicate = this.findDuplicate(existing, keys, 'lead existente') ?? this.findDuplicate(seenInFile, keys, 'repetido no arquivo');
+      if (duplicate) {
+        result.status = 'DUPLICATE';
+        result.duplicateOf = duplicate;
+      }
+
+      const label = `linha ${rowNumber}`;
+      if (keys.email) seenInFile.email.set(keys.email, { id: null, label });
+      if (keys.phone) seenInFile.phone.set(keys.phone, { id: null, label });
+      if (keys.document) seenInFile.document.set(keys.document, { id: null, label });
+
+      results.push({
+        result,
+        data: {
+          name,
+          email,
+          phone,
+          companyName,
+          cpfCnpj,
+          role: this.parseRole(get('role')),
+          city,
+          numberOfUnits,
+          instagram: get('instagram').slice(0, 100) || null,
+          facebook: get('facebook').slice(0, 100) || null,
+          expectedRevenue,
+          notes: get('notes').slice(0, 5000) || null,
+          interestProduct: dto.interestProduct,
+          status: LeadStatus.ABERTO,
+          originId,
+          ...(dto.stageId && { stageId: dto.stageId }),
+          ...(vendedorId && { vendedorId }),
+        },
+      });
+    }
+
+    return results;
+  }
+
+  private findDuplicate(
+    index: ExistingLeadIndex,
+    keys: { email: string | null; phone: string | null; document: string | null },
+    source: string,
+  ): ImportRowResult['duplicateOf'] | null {
+    const checks: Array<[Map<string, DuplicateRef>, string | null, string]> = [
+      [index.document, keys.document, 'CPF/CNPJ'],
+      [index.email, keys.email, 'email'],
+      [index.phone, keys.phone, 'telefone'],
+    ];
+
+    for (const [map, key, field] of checks) {
+      const match = key ? map.get(key) : undefined;
+      if (match) return { id: match.id, label: match.label, reason: `Mesmo ${field} (${source})` };
+    }
+    return null;
+  }
+
+  /**
+   * Chaves de duplicidade dos leads não convertidos (mesma normalização da fila de duplicados)
+   */
+  private async loadExistingLeads(): Promise<ExistingLeadIndex> {
+    const leads = await this.prisma.lead.findMany({
+      where: { status: { not: LeadStatus.GANHO } },
+      select: { id: true, name: true, companyName: true, email: true, phone: true, cpfCnpj: true },
+    });
+
+    const index: ExistingLeadIndex = { email: new Map(), phone: new Map(), document: new Map() };
+    for (const lead of leads) {
+      const entry = { id: lead.id, label: lead.companyName || lead.name };
+      const email = normalizeEmail(lead.email);
+      const phone = normalizePhoneKey(lead.phone);
+      const document = normalizeDocument(lead.cpfCnpj);
+      if (email) index.email.set(email, entry);
+      if (phone) index.phone.set(phone, entry);
+      if (document) index.document.set(document, entry);
+    }
+    return index;
+  }
+
+  /**
+   * "Campinas", "Campinas - SP", "Campinas/SP" → "Campinas - SP" (uma consulta por valor distinto)
+   * Sem a lista do IBGE a cidade é mantida como digitada
+   */
+  private async resolveCity(
+    value: string,
+    cache: Map<string, { name: string } | { error: string }>,
+  ): Promise<{ name: string } | { error: string }> {
+    const key = normalizeText(value);
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const match = value.match(/^(.*?)\s*[-/,(]\s*([A-Za-z]{2})\)?$/);
+    const [cityName, uf] = match ? [match[1], match[2]] : [value, undefined];
+
+    const cities = await this.leadsService.matchCities(cityName, uf);
+    let resolved: { name: string } | { error: string };
+    if (cities === null) resolved = { name: value.slice(0, 100) };
+    else if (cities.length === 1) resolved = { name: cities[0].name };
+    else if (cities.length > 1) resolved = { error: `Cidade "${value}" existe em mais de um estado — informe a UF` };
+    else resolved = { error: `Cidade não encontrada: "${value}"` };
+
+    cache.set(key, resolved);
+    return resolved;
+  }
+
+  /** "R$ 1.234,56", "1234.56", "1,234.56" → 1234.56 | "R$ 1.500" → 1500 */
+  private parseAmount(value: string): number | null {
+    let clean = value.replace(/[^\d,.-]/g, '');
+    if (/^\d{1,3}(\.\d{3})+$/.test(clean)) {
+      clean = clean.replace(/\./g, '');
+    } else if (clean.includes(',') && clean.lastIndexOf(',') > clean.lastIndexOf('.')) {
+      clean = clean.replace(/\./g, '').replace(',', '.');
+    } else {
+      clean = clean.replace(/,/g, '');
+    }
+    const amount = Math.round(Number(clean) * 100) / 100;
+    return clean && Number.isFinite(amount) ? amount : null;
+  }
+
+  /** Rótulo do CRM, nome do enum ou apelido comum; sem correspondência → OUTRO (igual aos formulários) */
+  private parseRole(value: string): ClientRole {
+    if (!value) return ClientRole.OUTRO;
+    const key = normalizeText(value);
+
+    const byLabel = (Object.keys(CLIENT_ROLE_LABELS) as ClientRole[]).find(
+      (role) => normalizeText(CLIENT_ROLE_LABELS[role]) === key || normalizeText(role) === key,
+    );
+    return byLabel ?? ROLE_ALIASES[key] ?? ClientRole.OUTRO;
+  }
+}
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+/**
+ * DTO para criar origem de lead
+ * IMPORTANTE: Campos sincronizados com Prisma schema (LeadOrigin model)
+ */
+export const CreateLeadOriginSchema = z.object({
+  name: z
+    .string()
+    .min(2, 'Nome deve ter no mínimo 2 caracteres')
+    .max(80, 'Nome deve ter no máximo 80 caracteres')
+    .transform((val) => val.trim()),
+  description: z.string().max(200).optional().nullable(),
+  isActive: z.boolean().default(true),
+});
+
+export type CreateLeadOriginDto = z.infer<typeof CreateLeadOriginSchema>;
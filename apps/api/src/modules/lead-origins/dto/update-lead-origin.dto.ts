@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { CreateLeadOriginSchema } from './create-lead-origin.dto';
+
+// Update: todos os campos opcionais (isActive ativa/desativa)
+export const UpdateLeadOriginSchema = CreateLeadOriginSchema.partial();
+
+export type UpdateLeadOriginDto = z.infer<typeof UpdateLeadOriginSchema>;
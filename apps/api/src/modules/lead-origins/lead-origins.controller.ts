@@ -0,0 +1,89 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { LeadOriginsService } from './lead-origins.service';
+import { CreateLeadOriginDto, CreateLeadOriginSchema } from './dto/create-lead-origin.dto';
+import { UpdateLeadOriginDto, UpdateLeadOriginSchema } from './dto/update-lead-origin.dto';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { UserRole, Module } from '@prisma/client';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+
+/**
+ * Lead Origins Controller
+ * Endpoints para gerenciar origens de leads
+ *
+ * GET /leads/origins continua disponível (somente ativas) para o formulário de lead
+ *
+ * PERMISSÕES:
+ * - GET: TODOS usuários autenticados (selects de lead e formulários)
+ * - POST/PUT: SUPERADMIN ou ADMINISTRATIVO
+ * - DELETE: Apenas SUPERADMIN
+ */
+@Controller('lead-origins')
+export class LeadOriginsController {
+  constructor(private readonly leadOriginsService: LeadOriginsService) {}
+
+  /**
+   * GET /lead-origins?includeInactive=true
+   * Lista origens (inativas apenas sob demanda, para Configurações)
+   */
+  @Get()
+  async findAll(@Query('includeInactive') includeInactive?: string) {
+    return this.leadOriginsService.findAll(includeInactive === 'true');
+  }
+
+  /**
+   * GET /lead-origins/:id
+   */
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.leadOriginsService.findOne(id);
+  }
+
+  /**
+   * POST /lead-origins
+   * Cria origem de lead
+   */
+  @Post()
+  @RequirePermission(Module.SETTINGS, 'create')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async create(@Body(new ZodValidationPipe(CreateLeadOriginSchema)) dto: CreateLeadOriginDto) {
+    return this.leadOriginsService.create(dto);
+  }
+
+  /**
+   * PUT /lead-origins/:id
+   * Atualiza nome/descrição ou ativa/desativa (isActive)
+   */
+  @Put(':id')
+  @RequirePermission(Module.SETTINGS, 'edit')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async update(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(UpdateLeadOriginSchema)) dto: UpdateLeadOriginDto,
+  ) {
+    return this.leadOriginsService.update(id, dto);
+  }
+
+  /**
+   * DELETE /lead-origins/:id
+   * Remove origem sem leads nem formulários vinculados
+   */
+  @Delete(':id')
+  @RequirePermission(Module.SETTINGS, 'delete')
+  @Roles(UserRole.SUPERADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string) {
+    await this.leadOriginsService.remove(id);
+  }
+}
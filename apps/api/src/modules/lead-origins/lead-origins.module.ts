@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { LeadOriginsService } from './lead-origins.service';
+import { LeadOriginsController } from './lead-origins.controller';
+import { PrismaModule } from '@/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [LeadOriginsController],
+  providers: [LeadOriginsService],
+  exports: [LeadOriginsService],
+})
+export class LeadOriginsModule {}
@@ -0,0 +1,115 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '@/prisma/prisma.service';
+import { CreateLeadOriginDto } from './dto/create-lead-origin.dto';
+import { UpdateLeadOriginDto } from './dto/update-lead-origin.dto';
+
+/**
+ * Lead Origins Service
+ * Gerencia as origens de leads (site, indicação, formulários, integrações)
+ *
+ * EXCLUSÃO:
+ * - Origem sem leads nem formulários vinculados → removida
+ * - Origem em uso → apenas desativada (some dos selects, histórico preservado)
+ */
+@Injectable()
+export class LeadOriginsService {
+  private readonly logger = new Logger(LeadOriginsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Listar origens (apenas ativas por padrão)
+   */
+  async findAll(includeInactive = false) {
+    return this.prisma.leadOrigin.findMany({
+      where: includeInactive ? undefined : { isActive: true },
+      orderBy: { name: 'asc' },
+      include: {
+        _count: { select: { leads: true, forms: true } },
+      },
+    });
+  }
+
+  /**
+   * Buscar origem por ID
+   */
+  async findOne(id: string) {
+    const origin = await this.prisma.leadOrigin.findUnique({
+      where: { id },
+      include: {
+        _count: { select: { leads: true, forms: true } },
+      },
+    });
+
+    if (!origin) {
+      throw new NotFoundException(`Origem ${id} não encontrada`);
+    }
+
+    return origin;
+  }
+
+  /**
+   * Criar origem
+   */
+  async create(dto: CreateLeadOriginDto) {
+    await this.ensureUniqueName(dto.name);
+
+    const origin = await this.prisma.leadOrigin.create({ data: dto });
+
+    this.logger.log(`✅ Origem de lead criada: ${origin.name}`);
+    return origin;
+  }
+
+  /**
+   * Atualizar origem (inclui ativar/desativar)
+   */
+  async update(id: string, dto: UpdateLeadOriginDto) {
+    const existing = await this.findOne(id);
+
+    if (dto.name && dto.name !== existing.name) {
+      await this.ensureUniqueName(dto.name);
+    }
+
+    const updated = await this.prisma.leadOrigin.update({
+      where: { id },
+      data: dto,
+    });
+
+    this.logger.log(`✅ Origem de lead atualizada: ${updated.name}${updated.isActive ? '' : ' (inativa)'}`);
+    return updated;
+  }
+
+  /**
+   * Remover origem
+   * IMPORTANTE: Origens com leads ou formulários vinculados não são removidas — desative-as
+   */
+  async remove(id: string) {
+    const origin = await this.findOne(id);
+    const { leads, forms } = origin._count;
+
+    if (leads > 0 || forms > 0) {
+      throw new ConflictException(
+        `Origem "${origin.name}" está vinculada a ${leads} lead(s) e ${forms} formulário(s). Desative-a em vez de remover.`,
+      );
+    }
+
+    await this.prisma.leadOrigin.delete({ where: { id } });
+
+    this.logger.warn(`⚠️ Origem de lead removida: ${origin.name}`);
+  }
+
+  private async ensureUniqueName(name: string) {
+    const conflict = await this.prisma.leadOrigin.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+    });
+
+    if (conflict) {
+      throw new ConflictException(`Origem "${name}" já existe`);
+    }
+  }
+}
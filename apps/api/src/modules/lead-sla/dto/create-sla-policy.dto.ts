@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { LeadSlaType, ProductType } from '@prisma/client';
+
+/**
+ * DTO para criar política de SLA de resposta a leads
+ * IMPORTANTE: Campos sincronizados com Prisma schema (LeadSlaPolicy model)
+ *
+ * Prazos em minutos — a tela converte dias/horas (follow-up de 2 dias = 2880)
+ */
+export const SlaPolicyFieldsSchema = z.object({
+  name: z
+    .string()
+    .min(2, 'Nome deve ter no mínimo 2 caracteres')
+    .max(120, 'Nome deve ter no máximo 120 caracteres')
+    .transform((val) => val.trim()),
+  type: z.nativeEnum(LeadSlaType),
+  stageId: z.string().min(1).optional().nullable(),
+  productType: z.nativeEnum(ProductType).optional().nullable(),
+  targetMinutes: z
+    .number()
+    .int()
+    .min(5, 'Prazo mínimo de 5 minutos')
+    .max(60 * 24 * 60, 'Prazo máximo de 60 dias'),
+  escalateAfterMinutes: z.number().int().min(0).max(60 * 24 * 30).optional().nullable(),
+  isActive: z.boolean().default(true),
+});
+
+export const CreateSlaPolicySchema = SlaPolicyFieldsSchema.refine(
+  (d) => d.type === LeadSlaType.FOLLOW_UP || !d.stageId,
+  { message: 'Estágio só se aplica a SLA de follow-up', path: ['stageId'] },
+);
+
+export type CreateSlaPolicyDto = z.infer<typeof CreateSlaPolicySchema>;
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { SlaPolicyFieldsSchema } from './create-sla-policy.dto';
+
+// Update: todos os campos opcionais (tipo x estágio validado no service)
+export const UpdateSlaPolicySchema = SlaPolicyFieldsSchema.partial();
+
+export type UpdateSlaPolicyDto = z.infer<typeof UpdateSlaPolicySchema>;
@@ -0,0 +1,116 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { LeadSlaService } from './lead-sla.service';
+import { SlaPoliciesService } from './sla-policies.service';
+import { SlaComplianceService } from './sla-compliance.service';
+import { CreateSlaPolicyDto, CreateSlaPolicySchema } from './dto/create-sla-policy.dto';
+import { UpdateSlaPolicyDto, UpdateSlaPolicySchema } from './dto/update-sla-policy.dto';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { AuthUser } from '@/common/interfaces/auth-user.interface';
+import { UserRole, Module, LeadSlaType } from '@prisma/client';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+
+/**
+ * Lead SLA Controller
+ * Políticas de SLA de resposta, estouros em aberto e relatório de cumprimento
+ *
+ * PERMISSÕES:
+ * - Políticas: leitura SUPERADMIN/ADMINISTRATIVO/GESTOR; escrita SUPERADMIN/ADMINISTRATIVO
+ * - Estouros e relatório: todos (VENDEDOR vê os próprios, GESTOR a equipe)
+ */
+@Controller('lead-sla')
+export class LeadSlaController {
+  constructor(
+    private readonly leadSlaService: LeadSlaService,
+    private readonly policiesService: SlaPoliciesService,
+    private readonly complianceService: SlaComplianceService,
+  ) {}
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // POLÍTICAS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * GET /lead-sla/policies
+   */
+  @Get('policies')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+  async findAllPolicies() {
+    return this.policiesService.findAll();
+  }
+
+  /**
+   * POST /lead-sla/policies
+   */
+  @Post('policies')
+  @RequirePermission(Module.SETTINGS, 'create')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async createPolicy(@Body(new ZodValidationPipe(CreateSlaPolicySchema)) dto: CreateSlaPolicyDto) {
+    return this.policiesService.create(dto);
+  }
+
+  /**
+   * PUT /lead-sla/policies/:id
+   */
+  @Put('policies/:id')
+  @RequirePermission(Module.SETTINGS, 'edit')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async updatePolicy(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(UpdateSlaPolicySchema)) dto: UpdateSlaPolicyDto,
+  ) {
+    return this.policiesService.update(id, dto);
+  }
+
+  /**
+   * DELETE /lead-sla/policies/:id
+   */
+  @Delete('policies/:id')
+  @RequirePermission(Module.SETTINGS, 'delete')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removePolicy(@Param('id') id: string) {
+    await this.policiesService.remove(id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ACOMPANHAMENTO
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * GET /lead-sla/breaches
+   * Leads com prazo estourado e ainda sem contato (no escopo do usuário)
+   */
+  @Get('breaches')
+  async getOpenBreaches(@CurrentUser() user: AuthUser) {
+    const scope = await this.leadSlaService.resolveVendedorScope(user.id, user.role);
+    return this.leadSlaService.getOpenBreaches(scope);
+  }
+
+  /**
+   * GET /lead-sla/report?from=YYYY-MM-DD&to=YYYY-MM-DD&type=&policyId=
+   * Cumprimento de SLA por equipe e vendedor (padrão: últimos 90 dias)
+   */
+  @Get('report')
+  async getComplianceReport(
+    @CurrentUser() user: AuthUser,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('type') type?: LeadSlaType,
+    @Query('policyId') policyId?: string,
+  ) {
+    return this.complianceService.getComplianceReport({ from, to, type, policyId }, user.id, user.role);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '@/prisma/prisma.module';
+import { LeadSlaController } from './lead-sla.controller';
+import { LeadSlaService } from './lead-sla.service';
+import { SlaPoliciesService } from './sla-policies.service';
+import { SlaComplianceService } from './sla-compliance.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [LeadSlaController],
+  providers: [LeadSlaService, SlaPoliciesService, SlaComplianceService],
+})
+export class LeadSlaModule {}
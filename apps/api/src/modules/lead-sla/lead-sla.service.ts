@@ -0,0 +1,374 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '@/prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  InteractionDirection,
+  InteractionType,
+  LeadSlaPolicy,
+  LeadSlaStatus,
+  LeadSlaType,
+  LeadStatus,
+  NotificationType,
+  UserRole,
+} from '@prisma/client';
+
+/** Anotação interna não conta como contato com o lead */
+const CONTACT_TYPES = Object.values(InteractionType).filter((t) => t !== InteractionType.NOTE);
+
+/** Contato feito pela equipe (e-mails recebidos do lead não cumprem o prazo) */
+const CONTACT_FILTER = { type: { in: CONTACT_TYPES }, direction: InteractionDirection.OUTBOUND };
+
+/** Limite por execução do cron (o restante fica para a próxima) */
+const BATCH_SIZE = 500;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * SLA DE RESPOSTA A LEADS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Cada política abre um prazo (LeadSlaRecord) por lead:
+ * - FIRST_CONTACT: a partir da criação do lead
+ * - FOLLOW_UP: a partir do último contato (ou entrada no estágio), em ciclos
+ *
+ * O prazo é cumprido pela primeira Interaction de contato da equipe (exceto
+ * NOTE e e-mails recebidos) registrada depois do início. Ao estourar, o vendedor é notificado; se
+ * continuar sem contato por escalateAfterMinutes, o gestor (User.gestorId)
+ * também é avisado.
+ */
+@Injectable()
+export class LeadSlaService {
+  private readonly logger = new Logger(LeadSlaService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_5_MINUTES, { name: 'lead-sla' })
+  async handleSlaTracking() {
+    const policies = await this.prisma.leadSlaPolicy.findMany({ where: { isActive: true } });
+    if (policies.length === 0) return;
+
+    const now = new Date();
+
+    try {
+      let opened = 0;
+      for (const policy of policies) {
+        opened += policy.type === LeadSlaType.FIRST_CONTACT
+          ? await this.openFirstContact(policy)
+          : await this.openFollowUp(policy, now);
+      }
+
+      const { met, breached } = await this.evaluateOpenRecords(now);
+      const escalated = await this.escalateBreaches(now);
+
+      if (opened + met + breached + escalated > 0) {
+        this.logger.log(
+          `⏱️ SLA: ${opened} prazo(s) aberto(s), ${met} cumprido(s), ${breached} estourado(s), ${escalated} escalado(s)`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(`❌ Erro na apuração de SLA: ${error.message}`);
+    }
+  }
+
+  /**
+   * Prazos estourados ainda sem contato (badge no Kanban)
+   * vendedorIds = null → todos (SUPERADMIN/ADMINISTRATIVO)
+   */
+  async getOpenBreaches(vendedorIds: string[] | null) {
+    return this.prisma.leadSlaRecord.findMany({
+      where: {
+        status: LeadSlaStatus.BREACHED,
+        metAt: null,
+        lead: { status: LeadStatus.ABERTO },
+        ...(vendedorIds && { vendedorId: { in: vendedorIds } }),
+      },
+      orderBy: { dueAt: 'asc' },
+      select: {
+        id: true,
+        leadId: true,
+        dueAt: true,
+        escalatedAt: true,
+        policy: { select: { id: true, name: true, type: true } },
+      },
+    });
+  }
+
+  /**
+   * Escopo de vendedores visível ao usuário (mesma regra dos relatórios de leads)
+   */
+  async resolveVendedorScope(currentUserId: string, currentUserRole: UserRole): Promise<string[] | null> {
+    if (currentUserRole === UserRole.GESTOR) {
+      const vendedores = await this.prisma.user.findMany({
+        where: { gestorId: currentUserId },
+        select: { id: true },
+      });
+      return [...vendedores.map((v) => v.id), currentUserId];
+    }
+
+    if (currentUserRole === UserRole.VENDEDOR) {
+      return [currentUserId];
+    }
+
+    return null;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ABERTURA DE PRAZOS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Um prazo por lead criado após a política (sem retroativo)
+   */
+  private async openFirstContact(policy: LeadSlaPolicy): Promise<number> {
+    const leads = await this.prisma.lead.findMany({
+      where: {
+        status: LeadStatus.ABERTO,
+        createdAt: { gte: policy.createdAt },
+        ...(policy.productType && { interestProduct: policy.productType }),
+        slaRecords: { none: { policyId: policy.id } },
+      },
+      select: { id: true, createdAt: true, vendedorId: true },
+      take: BATCH_SIZE,
+    });
+    if (leads.length === 0) return 0;
+
+    const { count } = await this.prisma.leadSlaRecord.createMany({
+      data: leads.map((lead) => ({
+        leadId: lead.id,
+        policyId: policy.id,
+        vendedorId: lead.vendedorId,
+        startedAt: lead.createdAt,
+        dueAt: new Date(lead.createdAt.getTime() + policy.targetMinutes * MINUTE_MS),
+      })),
+    });
+    return count;
+  }
+
+  /**
+   * Novo ciclo para leads já contatados sem prazo em aberto na política.
+   * Início = o mais recente entre último contato, entrada no estágio e criação da política.
+   */
+  private async openFollowUp(policy: LeadSlaPolicy, now: Date): Promise<number> {
+    const leads = await this.prisma.lead.findMany({
+      where: {
+        status: LeadStatus.ABERTO,
+        ...(policy.stageId && { stageId: policy.stageId }),
+        ...(policy.productType && { interestProduct: policy.productType }),
+        interactions: { some: CONTACT_FILTER },
+        slaRecords: {
+          none: {
+            policyId: policy.id,
+            OR: [{ status: LeadSlaStatus.PENDING }, { status: LeadSlaStatus.BREACHED, metAt: null }],
+          },
+        },
+      },
+      select: {
+        id: true,
+        vendedorId: true,
+        interactions: {
+          where: CONTACT_FILTER,
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { createdAt: true },
+        },
+        stageHistory: { orderBy: { changedAt: 'desc' }, take: 1, select: { changedAt: true } },
+      },
+      take: BATCH_SIZE,
+    });
+    if (leads.length === 0) return 0;
+
+    const { count } = await this.prisma.leadSlaRecord.createMany({
+      data: leads.map((lead) => {
+        const startedAt = new Date(
+          Math.min(
+            now.getTime(),
+            Math.max(
+              lead.interactions[0]?.createdAt.getTime() ?? 0,
+              lead.stageHistory[0]?.changedAt.getTime() ?? 0,
+              policy.createdAt.getTime(),
+            ),
+          ),
+        );
+        return {
+          leadId: lead.id,
+          policyId: policy.id,
+          vendedorId: lead.vendedorId,
+          startedAt,
+          dueAt: new Date(startedAt.getTime() + policy.targetMinutes * MINUTE_MS),
+        };
+      }),
+    });
+    return count;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // APURAÇÃO
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Fecha prazos com contato, cancela os que saíram do escopo e marca estouros.
+   * Estourados sem contato continuam sendo acompanhados até o contato (metAt).
+   */
+  private async evaluateOpenRecords(now: Date): Promise<{ met: number; breached: number }> {
+    const records = await this.prisma.leadSlaRecord.findMany({
+      where: {
+        OR: [
+          { status: LeadSlaStatus.PENDING },
+          // Estouro de lead já fechado fica como está (não há mais contato a esperar)
+          { status: LeadSlaStatus.BREACHED, metAt: null, lead: { status: LeadStatus.ABERTO } },
+        ],
+      },
+      orderBy: { dueAt: 'asc' },
+      take: BATCH_SIZE * 2,
+      include: {
+        policy: true,
+        lead: { select: { id: true, name: true, companyName: true, status: true, stageId: true, vendedorId: true } },
+      },
+    });
+    if (records.length === 0) return { met: 0, breached: 0 };
+
+    // Contatos de todos os leads em uma consulta
+    const since = new Date(Math.min(...records.map((r) => r.startedAt.getTime())));
+    const interactions = await this.prisma.interaction.findMany({
+      where: {
+        leadId: { in: [...new Set(records.map((r) => r.leadId))] },
+        ...CONTACT_FILTER,
+        createdAt: { gte: since },
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { leadId: true, createdAt: true },
+    });
+    const contactsByLead = new Map<string, Date[]>();
+    for (const i of interactions) {
+      const list = contactsByLead.get(i.leadId!) ?? [];
+      list.push(i.createdAt);
+      contactsByLead.set(i.leadId!, list);
+    }
+
+    let met = 0;
+    let breached = 0;
+
+    for (const record of records) {
+      // Estritamente depois do início: o contato que abriu o ciclo de follow-up não o encerra
+      const contact = contactsByLead.get(record.leadId)?.find((d) => d > record.startedAt);
+
+      if (contact) {
+        const onTime = contact <= record.dueAt;
+        await this.prisma.leadSlaRecord.update({
+          where: { id: record.id },
+          data: {
+            status: onTime ? LeadSlaStatus.MET : LeadSlaStatus.BREACHED,
+            metAt: contact,
+            breachedAt: onTime ? null : record.breachedAt ?? record.dueAt,
+            vendedorId: record.lead.vendedorId ?? record.vendedorId,
+          },
+        });
+        if (onTime) met++;
+        continue;
+      }
+
+      if (record.status !== LeadSlaStatus.PENDING) continue;
+
+      const outOfScope =
+        record.lead.status !== LeadStatus.ABERTO ||
+        (record.policy.type === LeadSlaType.FOLLOW_UP &&
+          record.policy.stageId !== null &&
+          record.lead.stageId !== record.policy.stageId);
+      if (outOfScope) {
+        await this.prisma.leadSlaRecord.update({
+          where: { id: record.id },
+          data: { status: LeadSlaStatus.CANCELLED },
+        });
+        continue;
+      }
+
+      if (record.dueAt > now) continue;
+
+      // Estouro: atribuído ao responsável atual do lead
+      const vendedorId = record.lead.vendedorId ?? record.vendedorId;
+      await this.prisma.leadSlaRecord.update({
+        where: { id: record.id },
+        data: { status: LeadSlaStatus.BREACHED, breachedAt: now, vendedorId },
+      });
+      breached++;
+
+      if (vendedorId) {
+        const leadName = record.lead.companyName || record.lead.name;
+        this.notificationsService.create({
+          userId: vendedorId,
+          type: NotificationType.LEAD_SLA_BREACH,
+          title: 'Prazo de contato estourado',
+          message: `${leadName} está sem contato além do prazo "${record.policy.name}" (${this.formatMinutes(record.policy.targetMinutes)}).`,
+          link: '/leads',
+          metadata: { leadId: record.leadId, policyId: record.policyId, recordId: record.id },
+          dedupeKey: record.id,
+        }).catch(() => {});
+      }
+    }
+
+    return { met, breached };
+  }
+
+  /**
+   * Escala ao gestor os estouros que seguem sem contato após escalateAfterMinutes
+   */
+  private async escalateBreaches(now: Date): Promise<number> {
+    const records = await this.prisma.leadSlaRecord.findMany({
+      where: {
+        status: LeadSlaStatus.BREACHED,
+        metAt: null,
+        escalatedAt: null,
+        breachedAt: { not: null },
+        policy: { escalateAfterMinutes: { not: null } },
+        lead: { status: LeadStatus.ABERTO },
+      },
+      take: BATCH_SIZE,
+      include: {
+        policy: { select: { name: true, escalateAfterMinutes: true } },
+        lead: { select: { name: true, companyName: true } },
+        vendedor: { select: { name: true, gestorId: true } },
+      },
+    });
+
+    let escalated = 0;
+
+    for (const record of records) {
+      const escalateAt = record.breachedAt!.getTime() + record.policy.escalateAfterMinutes! * MINUTE_MS;
+      if (escalateAt > now.getTime()) continue;
+
+      // Sem gestor (ex.: o próprio gestor é o responsável) → não há a quem escalar
+      const gestorId = record.vendedor?.gestorId;
+      if (!gestorId) continue;
+
+      await this.prisma.leadSlaRecord.update({
+        where: { id: record.id },
+        data: { escalatedAt: now, escalatedToId: gestorId },
+      });
+      escalated++;
+
+      const leadName = record.lead.companyName || record.lead.name;
+      this.notificationsService.create({
+        userId: gestorId,
+        type: NotificationType.LEAD_SLA_ESCALATED,
+        title: 'SLA de lead escalado',
+        message: `${leadName} (${record.vendedor!.name}) segue sem contato após o prazo "${record.policy.name}".`,
+        link: '/leads',
+        metadata: { leadId: record.leadId, policyId: record.policyId, recordId: record.id },
+        dedupeKey: record.id,
+      }).catch(() => {});
+    }
+
+    return escalated;
+  }
+
+  private formatMinutes(minutes: number): string {
+    if (minutes % 1440 === 0) return `${minutes / 1440} dia(s)`;
+    if (minutes % 60 === 0) return `${minutes / 60} h`;
+    return `${minutes} min`;
+  }
+}
@@ -0,0 +1,133 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '@/prisma/prisma.service';
+import { LeadSlaStatus, LeadSlaType, UserRole } from '@prisma/client';
+import { LeadSlaService } from './lead-sla.service';
+import { resolveReportPeriod } from '../leads/services/lead-stage-history.service';
+
+export interface SlaComplianceFilters {
+  from?: string;
+  to?: string;
+  type?: LeadSlaType;
+  policyId?: string;
+}
+
+interface ComplianceAccumulator {
+  total: number;
+  met: number;
+  breached: number;
+  escalated: number;
+  responseMinutes: number[];
+}
+
+/**
+ * Relatório de cumprimento de SLA por equipe (gestor) e vendedor
+ * Considera prazos vencidos no período e já apurados (MET/BREACHED)
+ */
+@Injectable()
+export class SlaComplianceService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly leadSlaService: LeadSlaService,
+  ) {}
+
+  async getComplianceReport(filters: SlaComplianceFilters, currentUserId: string, currentUserRole: UserRole) {
+    for (const date of [filters.from, filters.to]) {
+      if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        throw new BadRequestException(`Data inválida: ${date} (use YYYY-MM-DD)`);
+      }
+    }
+
+    const { from, to } = resolveReportPeriod(filters);
+    const scope = await this.leadSlaService.resolveVendedorScope(currentUserId, currentUserRole);
+
+    const records = await this.prisma.leadSlaRecord.findMany({
+      where: {
+        dueAt: { gte: from, lte: to },
+        status: { in: [LeadSlaStatus.MET, LeadSlaStatus.BREACHED] },
+        ...(filters.policyId && { policyId: filters.policyId }),
+        ...(filters.type && { policy: { type: filters.type } }),
+        ...(scope && { vendedorId: { in: scope } }),
+      },
+      select: { vendedorId: true, status: true, startedAt: true, metAt: true, escalatedAt: true },
+    });
+
+    const vendedorIds = [...new Set(records.map((r) => r.vendedorId).filter((id): id is string => !!id))];
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: vendedorIds } },
+      select: { id: true, name: true, role: true, gestorId: true, gestor: { select: { id: true, name: true } } },
+    });
+    const userById = new Map(users.map((u) => [u.id, u]));
+
+    const summary = this.emptyAccumulator();
+    const byVendedor = new Map<string, ComplianceAccumulator>();
+
+    for (const record of records) {
+      const key = record.vendedorId ?? 'none';
+      const acc = byVendedor.get(key) ?? this.emptyAccumulator();
+      byVendedor.set(key, acc);
+
+      for (const target of [summary, acc]) {
+        target.total++;
+        if (record.status === LeadSlaStatus.MET) target.met++;
+        else target.breached++;
+        if (record.escalatedAt) target.escalated++;
+        if (record.metAt) target.responseMinutes.push((record.metAt.getTime() - record.startedAt.getTime()) / 60000);
+      }
+    }
+
+    // Equipe = gestor do vendedor; o próprio gestor entra na sua equipe
+    const teams = new Map<string, { id: string | null; name: string; acc: ComplianceAccumulator; vendedores: any[] }>();
+    for (const [vendedorId, acc] of byVendedor) {
+      const user = userById.get(vendedorId);
+      const team = user?.gestor ?? (user?.role === UserRole.GESTOR ? { id: user.id, name: user.name } : null);
+      const teamKey = team?.id ?? 'none';
+
+      if (!teams.has(teamKey)) {
+        teams.set(teamKey, { id: team?.id ?? null, name: team?.name ?? 'Sem gestor', acc: this.emptyAccumulator(), vendedores: [] });
+      }
+      const entry = teams.get(teamKey)!;
+      this.merge(entry.acc, acc);
+      entry.vendedores.push({ vendedorId: user?.id ?? null, name: user?.name ?? 'Sem responsável', ...this.toStats(acc) });
+    }
+
+    return {
+      period: { from, to },
+      summary: this.toStats(summary),
+      teams: [...teams.values()]
+        .map((t) => ({
+          gestorId: t.id,
+          name: t.name,
+          ...this.toStats(t.acc),
+          vendedores: t.vendedores.sort((a, b) => a.complianceRate - b.complianceRate),
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name, 'pt-BR')),
+    };
+  }
+
+  private emptyAccumulator(): ComplianceAccumulator {
+    return { total: 0, met: 0, breached: 0, escalated: 0, responseMinutes: [] };
+  }
+
+  private merge(target: ComplianceAccumulator, source: ComplianceAccumulator) {
+    target.total += source.total;
+    target.met += source.met;
+    target.breached += source.breached;
+    target.escalated += source.escalated;
+    target.responseMinutes.push(...source.responseMinutes);
+  }
+
+  private toStats(acc: ComplianceAccumulator) {
+    const avg = acc.responseMinutes.length
+      ? acc.responseMinutes.reduce((sum, m) => sum + m, 0) / acc.responseMinutes.length
+      : null;
+
+    return {
+      total: acc.total,
+      met: acc.met,
+      breached: acc.breached,
+      escalated: acc.escalated,
+      complianceRate: acc.total ? Math.round((acc.met / acc.total) * 1000) / 10 : 0,
+      avgResponseMinutes: avg !== null ? Math.round(avg) : null,
+    };
+  }
+}
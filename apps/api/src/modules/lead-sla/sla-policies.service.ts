@@ -0,0 +1,107 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { PrismaService } from '@/prisma/prisma.service';
+import { LeadSlaStatus, LeadSlaType } from '@prisma/client';
+import { CreateSlaPolicyDto } from './dto/create-sla-policy.dto';
+import { UpdateSlaPolicyDto } from './dto/update-sla-policy.dto';
+
+/**
+ * SLA Policies Service
+ * CRUD das políticas de SLA (primeiro contato e follow-up por estágio)
+ */
+@Injectable()
+export class SlaPoliciesService {
+  private readonly logger = new Logger(SlaPoliciesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Listar políticas (com prazos em aberto/estourados de cada uma)
+   */
+  async findAll() {
+    const policies = await this.prisma.leadSlaPolicy.findMany({
+      orderBy: [{ type: 'asc' }, { createdAt: 'asc' }],
+      include: { stage: { select: { id: true, name: true, color: true } } },
+    });
+
+    const open = await this.prisma.leadSlaRecord.groupBy({
+      by: ['policyId', 'status'],
+      where: {
+        OR: [{ status: LeadSlaStatus.PENDING }, { status: LeadSlaStatus.BREACHED, metAt: null }],
+      },
+      _count: { _all: true },
+    });
+
+    return policies.map((policy) => ({
+      ...policy,
+      pending: open.find((o) => o.policyId === policy.id && o.status === LeadSlaStatus.PENDING)?._count._all ?? 0,
+      breached: open.find((o) => o.policyId === policy.id && o.status === LeadSlaStatus.BREACHED)?._count._all ?? 0,
+    }));
+  }
+
+  /**
+   * Buscar política por ID
+   */
+  async findOne(id: string) {
+    const policy = await this.prisma.leadSlaPolicy.findUnique({ where: { id } });
+
+    if (!policy) {
+      throw new NotFoundException(`Política de SLA ${id} não encontrada`);
+    }
+
+    return policy;
+  }
+
+  /**
+   * Criar política
+   * Vale para leads criados/contatados a partir de agora (sem retroativo)
+   */
+  async create(dto: CreateSlaPolicyDto) {
+    await this.validateStage(dto.stageId);
+
+    const policy = await this.prisma.leadSlaPolicy.create({ data: dto });
+
+    this.logger.log(`✅ Política de SLA criada: ${policy.name} (${policy.targetMinutes} min)`);
+    return policy;
+  }
+
+  /**
+   * Atualizar política (inclui ativar/desativar)
+   * Prazos já abertos mantêm o dueAt calculado na abertura
+   */
+  async update(id: string, dto: UpdateSlaPolicyDto) {
+    const existing = await this.findOne(id);
+
+    const type = dto.type ?? existing.type;
+    const stageId = dto.stageId !== undefined ? dto.stageId : existing.stageId;
+    if (type === LeadSlaType.FIRST_CONTACT && stageId) {
+      throw new BadRequestException('Estágio só se aplica a SLA de follow-up');
+    }
+
+    await this.validateStage(dto.stageId);
+
+    const updated = await this.prisma.leadSlaPolicy.update({ where: { id }, data: dto });
+
+    this.logger.log(`✅ Política de SLA atualizada: ${updated.name}${updated.isActive ? '' : ' (inativa)'}`);
+    return updated;
+  }
+
+  /**
+   * Remover política (remove também o histórico de prazos dela)
+   */
+  async remove(id: string) {
+    const policy = await this.findOne(id);
+
+    await this.prisma.leadSlaPolicy.delete({ where: { id } });
+
+    this.logger.warn(`⚠️ Política de SLA removida: ${policy.name}`);
+  }
+
+  private async validateStage(stageId?: string | null) {
+    if (!stageId) return;
+
+    const stage = await this.prisma.funnelStage.findUnique({ where: { id: stageId } });
+    if (!stage) {
+      throw new BadRequestException(`Estágio ${stageId} não encontrado`);
+    }
+  }
+}
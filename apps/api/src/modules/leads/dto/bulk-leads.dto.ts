@@ -0,0 +1,78 @@
+import { z } from 'zod';
+
+/** Limite de leads por ação em lote */
+export const MAX_BULK_LEADS = 500;
+
+const leadIdsSchema = z
+  .array(z.string().min(1))
+  .min(1, 'Selecione ao menos um lead')
+  .max(MAX_BULK_LEADS, `Selecione no máximo ${MAX_BULK_LEADS} leads por vez`)
+  .transform((ids) => [...new Set(ids)]);
+
+/**
+ * Mover para outro estágio aberto do funil
+ * (Ganho e Perdido têm fluxos próprios: conversão e marcar como perdido)
+ */
+export const bulkMoveStageSchema = z.object({
+  leadIds: leadIdsSchema,
+  stageId: z.string().min(1, 'Informe o estágio de destino'),
+});
+
+export type BulkMoveStageDto = z.infer<typeof bulkMoveStageSchema>;
+
+/**
+ * Reatribuir os leads a outro vendedor
+ */
+export const bulkReassignSchema = z.object({
+  leadIds: leadIdsSchema,
+  vendedorId: z.string().min(1, 'Informe o vendedor'),
+});
+
+export type BulkReassignDto = z.infer<typeof bulkReassignSchema>;
+
+/**
+ * Marcar como perdido (motivo obrigatório, mesmo critério do modal individual)
+ */
+export const bulkMarkLostSchema = z.object({
+  leadIds: leadIdsSchema,
+  lossReasonId: z.string().min(1, 'Informe o motivo de perda'),
+  lossNotes: z.string().max(1000).optional().nullable(),
+});
+
+export type BulkMarkLostDto = z.infer<typeof bulkMarkLostSchema>;
+
+/**
+ * Adicionar uma etiqueta (leads que já a possuem ficam como estão)
+ */
+export const bulkAddTagSchema = z.object({
+  leadIds: leadIdsSchema,
+  tag: z
+    .string()
+    .trim()
+    .min(1, 'Informe a etiqueta')
+    .max(40, 'A etiqueta deve ter no máximo 40 caracteres'),
+});
+
+export type BulkAddTagDto = z.infer<typeof bulkAddTagSchema>;
+
+/**
+ * Agendar follow-up: um evento na agenda do vendedor de cada lead
+ */
+export const bulkScheduleFollowUpSchema = z.object({
+  leadIds: leadIdsSchema,
+  startAt: z.coerce.date({ errorMap: () => ({ message: 'Data do follow-up inválida' }) }),
+  durationMinutes: z.number().int().min(5).max(480).default(30),
+  title: z.string().trim().max(200).optional(),
+  description: z.string().max(2000).optional().nullable(),
+});
+
+export type BulkScheduleFollowUpDto = z.infer<typeof bulkScheduleFollowUpSchema>;
+
+/**
+ * Excluir leads (apenas SUPERADMIN/ADMINISTRATIVO)
+ */
+export const bulkDeleteSchema = z.object({
+  leadIds: leadIdsSchema,
+});
+
+export type BulkDeleteDto = z.infer<typeof bulkDeleteSchema>;
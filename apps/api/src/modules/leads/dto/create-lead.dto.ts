@@ -67,6 +67,11 @@ export const CreateLeadSchema = z.object({
     .optional()
     .nullable(),
 
+  // Etiquetas livres e valores dos campos personalizados (validados no service)
+  tags: z.array(z.string().max(40, 'Etiqueta deve ter no máximo 40 caracteres')).optional(),
+
+  customFields: z.record(z.union([z.string(), z.number(), z.null()])).optional(),
+
   city: z
     .string()
     .min(3, 'Cidade deve ter no mínimo 3 caracteres')
@@ -152,3 +157,16 @@ export const CreateLeadSchema = z.object({
 // 3. O service layer faz essa conversão em leads.service.ts:147-158
 
 export type CreateLeadDto = z.infer<typeof CreateLeadSchema>;
+
+/**
+ * Entrada do LeadsService.create para canais automáticos (e-mail recebido, webhooks):
+ * só contato e e-mail são garantidos — empresa, cidade, documento e cargo ficam vazios
+ * (null) em vez de valores de preenchimento
+ */
+export type CreateLeadInput = Omit<CreateLeadDto, 'companyName' | 'city' | 'cpfCnpj' | 'role' | 'origin'> & {
+  companyName?: string | null;
+  city?: string | null;
+  cpfCnpj?: string | null;
+  role?: ClientRole | null;
+  origin?: string;
+};
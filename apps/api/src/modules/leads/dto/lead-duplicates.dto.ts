@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+/**
+ * Mesclagem: o lead da rota (:id) é mantido, o duplicateId é absorvido
+ */
+export const mergeLeadsSchema = z.object({
+  duplicateId: z.string().min(1, 'Informe o lead duplicado'),
+});
+
+export type MergeLeadsDto = z.infer<typeof mergeLeadsSchema>;
+
+/**
+ * Checagem preventiva no cadastro (ao menos um campo preenchido)
+ */
+export const checkDuplicatesSchema = z
+  .object({
+    email: z.string().max(255).optional(),
+    phone: z.string().max(30).optional(),
+    cpfCnpj: z.string().max(20).optional(),
+    companyName: z.string().max(255).optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value?.trim()), {
+    message: 'Informe email, telefone, CPF/CNPJ ou empresa',
+  });
+
+export type CheckDuplicatesDto = z.infer<typeof checkDuplicatesSchema>;
@@ -76,6 +76,11 @@ export const UpdateLeadSchema = z.object({
     .optional()
     .nullable(),
 
+  // Etiquetas livres e valores dos campos personalizados (validados no service)
+  tags: z.array(z.string().max(40, 'Etiqueta deve ter no máximo 40 caracteres')).optional(),
+
+  customFields: z.record(z.union([z.string(), z.number(), z.null()])).optional(),
+
   city: z
     .string()
     .min(3, 'Cidade deve ter no mínimo 3 caracteres')
@@ -173,6 +178,18 @@ export const UpdateLeadSchema = z.object({
     )
     .optional()
     .nullable(),
+
+  // Motivo de perda (LossReason) — enviado junto com status=PERDIDO; null limpa
+  lossReasonId: z
+    .string()
+    .regex(
+      /^([a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}|c[a-z0-9]{10,}|loss-[a-z0-9-]+)$/i,
+      'Motivo de perda deve ser UUID, CUID ou ID de seed válido'
+    )
+    .optional()
+    .nullable(),
+
+  lossNotes: z.string().max(1000, 'Detalhes da perda devem ter no máximo 1000 caracteres').optional().nullable(),
 });
 
 export type UpdateLeadDto = z.infer<typeof UpdateLeadSchema>;
@@ -8,24 +8,39 @@ import {
   Query,
   Body,
   UseGuards,
+  UseInterceptors,
   HttpCode,
   HttpStatus,
   NotFoundException,
 } from '@nestjs/common';
+import { SkipThrottle } from '@nestjs/throttler';
 import { Public } from '@/common/decorators/public.decorator';
+import { RequirePartnerScope } from '@/common/decorators/partner-scope.decorator';
 import { PartnerApiGuard } from '@/common/guards/partner-api.guard';
+import { PartnerApiLogInterceptor } from '@/common/interceptors/partner-api-log.interceptor';
 import { PrismaService } from '@/prisma/prisma.service';
+import { LeadStageHistoryService } from './services/lead-stage-history.service';
+import { LeadAssignmentService } from '../lead-assignment/lead-assignment.service';
 
 /**
  * Partner API — Endpoints para integracoes externas (Nexus Chat).
- * Auth: X-Client-Id + X-Client-Secret (sem JWT).
+ * Auth: X-Client-Id + X-Client-Secret de uma chave emitida em Configurações (sem JWT).
+ * Escopos: leads:read (consultas) e leads:write (alterações).
+ * Limite por chave (PartnerApiGuard) no lugar do throttle global por IP.
  * Prefix: /partner/leads
  */
 @Public()
+@SkipThrottle()
 @UseGuards(PartnerApiGuard)
+@UseInterceptors(PartnerApiLogInterceptor)
+@RequirePartnerScope('leads:read')
 @Controller('partner/leads')
 export class LeadsPartnerController {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly stageHistoryService: LeadStageHistoryService,
+    private readonly assignmentService: LeadAssignmentService,
+  ) {}
 
   // ─── 1. Pipeline Stages ─────────────────────────────────────────────
 
@@ -90,6 +105,7 @@ export class LeadsPartnerController {
   // ─── 4. Update lead stage ──────────────────────────────────────────
 
   @Patch(':leadId/status')
+  @RequirePartnerScope('leads:write')
   async updateStage(
     @Param('leadId') leadId: string,
     @Body() body: { stage: string },
@@ -105,12 +121,19 @@ export class LeadsPartnerController {
       },
     });
 
+    await this.stageHistoryService.record({
+      leadId,
+      fromStageId: lead.stageId,
+      toStageId: updated.stageId,
+    });
+
     return { data: this.formatLead(updated) };
   }
 
   // ─── 5. Register contact type ────────────────────────────────────
 
   @Patch(':leadId/contact')
+  @RequirePartnerScope('leads:write')
   async registerContact(
     @Param('leadId') leadId: string,
     @Body() body: { type: string },
@@ -168,6 +191,7 @@ export class LeadsPartnerController {
   // ─── 6. Create lead ───────────────────────────────────────────────
 
   @Post()
+  @RequirePartnerScope('leads:write')
   @HttpCode(HttpStatus.CREATED)
   async createLead(
     @Body()
@@ -202,11 +226,12 @@ export class LeadsPartnerController {
       });
     }
 
-    // Round-robin vendedor
-    const vendedor = await this.prisma.user.findFirst({
-      where: { isActive: true, role: { in: ['VENDEDOR', 'GESTOR'] } },
-      orderBy: { assignedLeads: { _count: 'asc' } },
+    // Regras de atribuição → fallback: vendedor disponível com menos leads abertos
+    const resolved = await this.assignmentService.resolve({
+      interestProduct: 'ONE_NEXUS',
+      originId: chatOrigin.id,
     });
+    const vendedorId = resolved?.vendedorId ?? (await this.assignmentService.resolveLeastLoaded());
 
     const lead = await this.prisma.lead.create({
       data: {
@@ -217,21 +242,32 @@ export class LeadsPartnerController {
         chatContactId: body.chatContactId || null,
         stageId: defaultStage.id,
         originId: chatOrigin.id,
-        vendedorId: vendedor?.id || null,
+        vendedorId,
         interestProduct: 'ONE_NEXUS',
         status: 'ABERTO',
+        stageHistory: { create: { toStageId: defaultStage.id } },
       },
       include: {
         stage: { select: { id: true, name: true, color: true } },
       },
     });
 
+    await this.assignmentService.logAssignment({
+      leadId: lead.id,
+      toVendedorId: vendedorId,
+      ruleId: resolved?.ruleId,
+      source: 'PARTNER_API',
+      reason: resolved ? 'RULE' : 'FALLBACK',
+      details: resolved ? `Regra "${resolved.ruleName}"` : 'Menor carga de leads abertos',
+    });
+
     return { data: this.formatLead(lead) };
   }
 
   // ─── 7. Update lead ───────────────────────────────────────────────
 
   @Put(':leadId')
+  @RequirePartnerScope('leads:write')
   async updateLead(
     @Param('leadId') leadId: string,
     @Body() body: Record<string, any>,
@@ -257,12 +293,21 @@ export class LeadsPartnerController {
       },
     });
 
+    if (data.stageId) {
+      await this.stageHistoryService.record({
+        leadId,
+        fromStageId: lead.stageId,
+        toStageId: updated.stageId,
+      });
+    }
+
     return { data: this.formatLead(updated) };
   }
 
   // ─── 8. Register activity ─────────────────────────────────────────
 
   @Post(':leadId/activities')
+  @RequirePartnerScope('leads:write')
   @HttpCode(HttpStatus.CREATED)
   async addActivity(
     @Param('leadId') leadId: string,
@@ -298,6 +343,7 @@ export class LeadsPartnerController {
   // ─── 9. Add observation ───────────────────────────────────────────
 
   @Post(':leadId/observations')
+  @RequirePartnerScope('leads:write')
   @HttpCode(HttpStatus.CREATED)
   async addObservation(
     @Param('leadId') leadId: string,
@@ -10,17 +10,44 @@ import {
   Query,
   HttpCode,
   HttpStatus,
+  Res,
+  BadRequestException,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { LeadsService } from './leads.service';
 import { LeadScoreService } from './services/lead-score.service';
+import { LeadBulkService } from './services/lead-bulk.service';
+import { parseCustomFieldQuery, parseTagsQuery } from '../custom-fields/custom-fields.service';
 import { CreateLeadDto, CreateLeadSchema } from './dto/create-lead.dto';
 import { UpdateLeadDto, UpdateLeadSchema } from './dto/update-lead.dto';
 import { ConvertLeadDto, convertLeadSchema } from './dto/convert-lead.dto';
+import {
+  MergeLeadsDto,
+  mergeLeadsSchema,
+  CheckDuplicatesDto,
+  checkDuplicatesSchema,
+} from './dto/lead-duplicates.dto';
+import {
+  BulkMoveStageDto,
+  bulkMoveStageSchema,
+  BulkReassignDto,
+  bulkReassignSchema,
+  BulkMarkLostDto,
+  bulkMarkLostSchema,
+  BulkAddTagDto,
+  bulkAddTagSchema,
+  BulkScheduleFollowUpDto,
+  bulkScheduleFollowUpSchema,
+  BulkDeleteDto,
+  bulkDeleteSchema,
+} from './dto/bulk-leads.dto';
 import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
 import { CurrentUser } from '@/common/decorators/current-user.decorator';
-import { UserRole, LeadStatus, ProductType } from '@prisma/client';
+import { UserRole, LeadStatus, ProductType, Module } from '@prisma/client';
 import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
 import { AuthUser } from '@/common/interfaces/auth-user.interface';
+import { SpreadsheetFormat } from '@/common/utils/spreadsheet.utils';
 
 /**
  * Leads Controller
@@ -37,11 +64,13 @@ import { AuthUser } from '@/common/interfaces/auth-user.interface';
  * - GESTOR: Vê leads da sua equipe
  * - VENDEDOR: Vê apenas seus próprios leads
  */
+@RequirePermission(Module.LEADS, 'view')
 @Controller('leads')
 export class LeadsController {
   constructor(
     private readonly leadsService: LeadsService,
     private readonly leadScoreService: LeadScoreService,
+    private readonly leadBulkService: LeadBulkService,
   ) {}
 
   /**
@@ -53,6 +82,8 @@ export class LeadsController {
    * - productType?: ProductType
    * - origin?: LeadOrigin
    * - vendedorId?: string (apenas admins/gestor)
+   * - tags?: string (separadas por vírgula; exige todas)
+   * - cf[chave]?: string (campos personalizados)
    */
   @Get()
   async findAll(
@@ -61,6 +92,8 @@ export class LeadsController {
     @Query('productType') productType?: ProductType,
     @Query('origin') origin?: string,
     @Query('vendedorId') vendedorId?: string,
+    @Query('tags') tags?: string | string[],
+    @Query('cf') cf?: unknown,
   ) {
     return this.leadsService.findAll({
       currentUserId: user.id,
@@ -69,9 +102,55 @@ export class LeadsController {
       productType,
       origin,
       vendedorId,
+      tags: parseTagsQuery(tags),
+      customFields: parseCustomFieldQuery(cf),
     });
   }
 
+  /**
+   * GET /leads/export
+   * Exporta a listagem filtrada em CSV ou XLSX
+   * (declarada antes de /leads/:id para não ser capturada pela rota dinâmica)
+   *
+   * Query params: os mesmos do GET /leads + search? e format? (csv | xlsx)
+   */
+  @Get('export')
+  async export(
+    @CurrentUser() user: AuthUser,
+    @Res() res: Response,
+    @Query('format') format: SpreadsheetFormat = 'csv',
+    @Query('status') status?: LeadStatus,
+    @Query('productType') productType?: ProductType,
+    @Query('origin') origin?: string,
+    @Query('vendedorId') vendedorId?: string,
+    @Query('search') search?: string,
+    @Query('tags') tags?: string | string[],
+    @Query('cf') cf?: unknown,
+  ) {
+    if (format !== 'csv' && format !== 'xlsx') {
+      throw new BadRequestException('Formato inválido (use csv ou xlsx)');
+    }
+
+    const file = await this.leadsService.exportLeads(
+      {
+        currentUserId: user.id,
+        currentUserRole: user.role,
+        status,
+        productType,
+        origin,
+        vendedorId,
+        search,
+        tags: parseTagsQuery(tags),
+        customFields: parseCustomFieldQuery(cf),
+      },
+      format,
+    );
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename=${file.fileName}`);
+    res.send(file.buffer);
+  }
+
   /**
    * GET /leads/my
    * Lista leads do usuário logado
@@ -119,6 +198,181 @@ export class LeadsController {
     return this.leadsService.checkDuplicateCnpj(cnpj);
   }
 
+  /**
+   * POST /leads/duplicates/check
+   * Possíveis duplicados por email, telefone, CPF/CNPJ e nome da empresa
+   * Usado no formulário de cadastro (alerta, não bloqueia)
+   */
+  @Post('duplicates/check')
+  async checkDuplicates(
+    @Body(new ZodValidationPipe(checkDuplicatesSchema)) dto: CheckDuplicatesDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.leadsService.checkDuplicates(dto, user.id, user.role);
+  }
+
+  /**
+   * GET /leads/duplicates
+   * Fila de possíveis duplicados pendentes de revisão
+   *
+   * REQUER: SUPERADMIN, ADMINISTRATIVO ou GESTOR (equipe)
+   */
+  @Get('duplicates')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+  async getDuplicateQueue(@CurrentUser() user: AuthUser) {
+    return this.leadsService.getDuplicateQueue(user.id, user.role);
+  }
+
+  /**
+   * PATCH /leads/duplicates/:candidateId/dismiss
+   * Marca o par como "não é duplicado" (sai da fila definitivamente)
+   */
+  @Patch('duplicates/:candidateId/dismiss')
+  @RequirePermission(Module.LEADS, 'edit')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+  async dismissDuplicate(@Param('candidateId') candidateId: string, @CurrentUser() user: AuthUser) {
+    return this.leadsService.dismissDuplicate(candidateId, user.id, user.role);
+  }
+
+  /**
+   * POST /leads/bulk/stage
+   * Move os leads selecionados para um estágio aberto do funil
+   *
+   * Ações em lote: o lote é recusado se algum lead estiver fora do alcance do usuário;
+   * leads que não se aplicam à ação voltam em "skipped" com o motivo
+   */
+  @Post('bulk/stage')
+  @RequirePermission(Module.LEADS, 'edit')
+  @HttpCode(HttpStatus.OK)
+  async bulkMoveStage(
+    @Body(new ZodValidationPipe(bulkMoveStageSchema)) dto: BulkMoveStageDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.leadBulkService.moveStage(dto, user);
+  }
+
+  /**
+   * POST /leads/bulk/reassign
+   * Reatribui os leads selecionados
+   *
+   * REQUER: SUPERADMIN, ADMINISTRATIVO ou GESTOR (dentro da equipe)
+   */
+  @Post('bulk/reassign')
+  @RequirePermission(Module.LEADS, 'edit')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+  @HttpCode(HttpStatus.OK)
+  async bulkReassign(
+    @Body(new ZodValidationPipe(bulkReassignSchema)) dto: BulkReassignDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.leadBulkService.reassign(dto, user);
+  }
+
+  /**
+   * POST /leads/bulk/lose
+   * Marca os leads selecionados como perdidos (motivo obrigatório)
+   */
+  @Post('bulk/lose')
+  @RequirePermission(Module.LEADS, 'edit')
+  @HttpCode(HttpStatus.OK)
+  async bulkMarkLost(
+    @Body(new ZodValidationPipe(bulkMarkLostSchema)) dto: BulkMarkLostDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.leadBulkService.markLost(dto, user);
+  }
+
+  /**
+   * POST /leads/bulk/tags
+   * Adiciona uma etiqueta aos leads selecionados
+   */
+  @Post('bulk/tags')
+  @RequirePermission(Module.LEADS, 'edit')
+  @HttpCode(HttpStatus.OK)
+  async bulkAddTag(
+    @Body(new ZodValidationPipe(bulkAddTagSchema)) dto: BulkAddTagDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.leadBulkService.addTag(dto, user);
+  }
+
+  /**
+   * POST /leads/bulk/follow-up
+   * Agenda um follow-up (evento na agenda do vendedor) para cada lead selecionado
+   */
+  @Post('bulk/follow-up')
+  @RequirePermission(Module.LEADS, 'edit')
+  @HttpCode(HttpStatus.OK)
+  async bulkScheduleFollowUp(
+    @Body(new ZodValidationPipe(bulkScheduleFollowUpSchema)) dto: BulkScheduleFollowUpDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.leadBulkService.scheduleFollowUp(dto, user);
+  }
+
+  /**
+   * POST /leads/bulk/delete
+   * Exclui os leads selecionados (convertidos são preservados)
+   *
+   * REQUER: SUPERADMIN ou ADMINISTRATIVO
+   */
+  @Post('bulk/delete')
+  @RequirePermission(Module.LEADS, 'delete')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  @HttpCode(HttpStatus.OK)
+  async bulkDelete(
+    @Body(new ZodValidationPipe(bulkDeleteSchema)) dto: BulkDeleteDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.leadBulkService.remove(dto, user);
+  }
+
+  /**
+   * GET /leads/reports/funnel
+   * Tempo médio por estágio, conversão entre estágios e velocidade do funil
+   *
+   * Query params:
+   * - from?, to?: YYYY-MM-DD (criação do lead; padrão últimos 90 dias)
+   * - vendedorId?, originId?, productType?
+   */
+  @Get('reports/funnel')
+  async getFunnelReport(
+    @CurrentUser() user: AuthUser,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('vendedorId') vendedorId?: string,
+    @Query('originId') originId?: string,
+    @Query('productType') productType?: ProductType,
+  ) {
+    return this.leadsService.getFunnelReport(
+      { from, to, vendedorId, originId, productType },
+      user.id,
+      user.role,
+    );
+  }
+
+  /**
+   * GET /leads/reports/losses
+   * Análise de perdas: quantidade e receita perdida por motivo, estágio e vendedor
+   *
+   * Query params: mesmos do relatório do funil (período = data da perda)
+   */
+  @Get('reports/losses')
+  async getLossReport(
+    @CurrentUser() user: AuthUser,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('vendedorId') vendedorId?: string,
+    @Query('originId') originId?: string,
+    @Query('productType') productType?: ProductType,
+  ) {
+    return this.leadsService.getLossReport(
+      { from, to, vendedorId, originId, productType },
+      user.id,
+      user.role,
+    );
+  }
+
   /**
    * GET /leads/:id
    * Busca lead por ID (com validação de acesso)
@@ -138,6 +392,7 @@ export class LeadsController {
    * - SUPERADMIN/ADMINISTRATIVO podem criar para qualquer vendedor
    */
   @Post()
+  @RequirePermission(Module.LEADS, 'create')
   async create(
     @Body(new ZodValidationPipe(CreateLeadSchema)) dto: CreateLeadDto,
     @CurrentUser() user: AuthUser,
@@ -157,6 +412,7 @@ export class LeadsController {
    * - Lead GANHO só pode ser editado por admins
    */
   @Patch(':id')
+  @RequirePermission(Module.LEADS, 'edit')
   async updatePatch(
     @Param('id') id: string,
     @Body(new ZodValidationPipe(UpdateLeadSchema)) dto: UpdateLeadDto,
@@ -177,6 +433,7 @@ export class LeadsController {
    * - Lead GANHO só pode ser editado por admins
    */
   @Put(':id')
+  @RequirePermission(Module.LEADS, 'edit')
   async update(
     @Param('id') id: string,
     @Body(new ZodValidationPipe(UpdateLeadSchema)) dto: UpdateLeadDto,
@@ -193,6 +450,7 @@ export class LeadsController {
    * IMPORTANTE: Trava inteligente - requer dados estratégicos obrigatórios
    */
   @Post(':id/convert')
+  @RequirePermission(Module.LEADS, 'edit')
   async convert(
     @Param('id') id: string,
     @Body(new ZodValidationPipe(convertLeadSchema)) dto: ConvertLeadDto,
@@ -210,6 +468,7 @@ export class LeadsController {
    * @param body - Optional: { planId?: string } para usar plano específico
    */
   @Post(':id/generate-summary')
+  @RequirePermission(Module.LEADS, 'view')
   async generateSummary(@Param('id') id: string, @Body() body?: { planId?: string }) {
     return this.leadsService.generateSummary(id, body?.planId);
   }
@@ -225,11 +484,57 @@ export class LeadsController {
     return this.leadScoreService.updateLeadScore(id);
   }
 
+  /**
+   * GET /leads/:id/stage-history
+   * Linha do tempo de mudanças de estágio (quem, de, para, quando)
+   */
+  @Get(':id/stage-history')
+  async getStageHistory(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.leadsService.getStageHistory(id, user.id, user.role);
+  }
+
+  /**
+   * GET /leads/:id/assignments
+   * Histórico de atribuições (regra aplicada, origem da entrada, reatribuições)
+   */
+  @Get(':id/assignments')
+  async getAssignments(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.leadsService.getAssignmentHistory(id, user.id, user.role);
+  }
+
+  /**
+   * GET /leads/:id/duplicates
+   * Possíveis duplicados deste lead (visíveis para o usuário)
+   */
+  @Get(':id/duplicates')
+  async findDuplicates(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.leadsService.findDuplicates(id, user.id, user.role);
+  }
+
+  /**
+   * POST /leads/:id/merge
+   * Mescla o lead duplicado neste lead (interações, agenda, submissões e notas)
+   * O duplicado é removido
+   *
+   * REQUER: SUPERADMIN, ADMINISTRATIVO ou GESTOR (acesso aos dois leads)
+   */
+  @Post(':id/merge')
+  @RequirePermission(Module.LEADS, 'edit')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+  async merge(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(mergeLeadsSchema)) dto: MergeLeadsDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.leadsService.mergeLeads(id, dto.duplicateId, user.id, user.role);
+  }
+
   /**
    * POST /leads/:id/interactions
    * Adiciona interação à linha do tempo do lead
    */
   @Post(':id/interactions')
+  @RequirePermission(Module.LEADS, 'edit')
   async addInteraction(
     @Param('id') id: string,
     @Body() body: { content: string },
@@ -246,6 +551,7 @@ export class LeadsController {
    * IMPORTANTE: Não pode deletar lead convertido (GANHO)
    */
   @Delete(':id')
+  @RequirePermission(Module.LEADS, 'delete')
   @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
   @HttpCode(HttpStatus.NO_CONTENT)
   async remove(@Param('id') id: string, @CurrentUser() user: AuthUser) {
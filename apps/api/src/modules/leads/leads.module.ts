@@ -4,13 +4,21 @@ import { LeadsController } from './leads.controller';
 import { LeadsPartnerController } from './leads-partner.controller';
 import { LeadsService } from './leads.service';
 import { LeadScoreService } from './services/lead-score.service';
+import { LeadStageHistoryService } from './services/lead-stage-history.service';
+import { LeadLossReportService } from './services/lead-loss-report.service';
+import { LeadDuplicateService } from './services/lead-duplicate.service';
+import { LeadBulkService } from './services/lead-bulk.service';
 import { SubscriptionModule } from '../subscriptions/subscriptions.module';
 import { TenantsModule } from '../tenants/tenants.module';
+import { LeadAssignmentModule } from '../lead-assignment/lead-assignment.module';
+import { AuditModule } from '../audit/audit.module';
+import { CalendarModule } from '../calendar/calendar.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
 
 @Module({
-  imports: [SubscriptionModule, TenantsModule, ConfigModule],
+  imports: [SubscriptionModule, TenantsModule, ConfigModule, LeadAssignmentModule, AuditModule, CalendarModule, CustomFieldsModule],
   controllers: [LeadsController, LeadsPartnerController],
-  providers: [LeadsService, LeadScoreService],
-  exports: [LeadsService, LeadScoreService], // Exportar para uso em ClientsModule (conversão de lead)
+  providers: [LeadsService, LeadScoreService, LeadStageHistoryService, LeadLossReportService, LeadDuplicateService, LeadBulkService],
+  exports: [LeadsService, LeadScoreService, LeadStageHistoryService, LeadDuplicateService], // Exportar para uso em ClientsModule (conversão de lead)
 })
 export class LeadsModule {}
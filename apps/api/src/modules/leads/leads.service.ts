@@ -7,15 +7,33 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '@/prisma/prisma.service';
-import { CreateLeadDto } from './dto/create-lead.dto';
+import { CreateLeadInput } from './dto/create-lead.dto';
 import { UpdateLeadDto } from './dto/update-lead.dto';
 import { ConvertLeadDto } from './dto/convert-lead.dto';
 import { LeadScoreService } from './services/lead-score.service';
+import { LeadStageHistoryService, FunnelReportFilters } from './services/lead-stage-history.service';
+import { LeadLossReportService } from './services/lead-loss-report.service';
+import { LeadDuplicateService, DuplicateLookup } from './services/lead-duplicate.service';
+import { LeadAssignmentService } from '../lead-assignment/lead-assignment.service';
 import { SubscriptionService } from '../subscriptions/subscriptions.service';
 import { TenantsService } from '../tenants/tenants.service';
 import { parseDateBrasilia, nowBrasilia } from '../../common/utils/date.utils';
-import { UserRole, LeadStatus, ProductType, ClientStatus, BillingCycle, NotificationType } from '@prisma/client';
+import { buildSpreadsheet, SpreadsheetCell, SpreadsheetFormat } from '../../common/utils/spreadsheet.utils';
+import {
+  UserRole,
+  LeadStatus,
+  ProductType,
+  ClientStatus,
+  BillingCycle,
+  NotificationType,
+  AssignmentReason,
+  LeadEntrySource,
+  ClientRole,
+  CustomFieldEntity,
+  Prisma,
+} from '@prisma/client';
 import { NotificationsService } from '../notifications/notifications.service';
+import { CustomFieldsService, normalizeTags } from '../custom-fields/custom-fields.service';
 
 /**
  * Leads Service
@@ -30,36 +48,156 @@ import { NotificationsService } from '../notifications/notifications.service';
  * - Lead GANHO pode ser convertido em Client
  * - Lead PERDIDO não pode mais ser editado (apenas visualizado)
  */
+/** Filtros da listagem de leads (GET /leads e exportação) */
+export interface LeadListFilters {
+  currentUserId: string;
+  currentUserRole: UserRole;
+  status?: LeadStatus;
+  productType?: ProductType;
+  origin?: string;
+  vendedorId?: string;
+  search?: string;
+  /** Leads com todas as etiquetas informadas */
+  tags?: string[];
+  /** Campos personalizados por chave (texto: contém; demais: igual) */
+  customFields?: Record<string, string>;
+}
+
+/** Contexto de atribuição informado pela porta de entrada */
+export interface LeadEntryAssignment {
+  source: LeadEntrySource;
+  reason?: AssignmentReason;
+  ruleId?: string | null;
+  details?: string;
+  /** Sem notificação por lead (a importação em lote envia um resumo por vendedor) */
+  silent?: boolean;
+}
+
+/** Cargos como exibidos no CRM (planilhas de exportação/importação) */
+export const CLIENT_ROLE_LABELS: Record<ClientRole, string> = {
+  SOCIO_FUNDADOR: 'Sócio ou Fundador',
+  CEO_PRESIDENTE: 'Presidente ou CEO',
+  VP_CLEVEL: 'Vice-presidente ou C-Level',
+  DIRETOR: 'Diretor',
+  GERENTE: 'Gerente',
+  COORDENADOR: 'Coordenador',
+  SUPERVISOR: 'Supervisor',
+  ANALISTA: 'Analista',
+  RECEPCIONISTA: 'Recepcionista',
+  OUTRO: 'Outro',
+};
+
 @Injectable()
 export class LeadsService {
   private readonly logger = new Logger(LeadsService.name);
+  private ibgeCitiesCache: { loadedAt: number; cities: Array<{ id: number; name: string; search: string }> } | null = null;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly leadScoreService: LeadScoreService,
+    private readonly stageHistoryService: LeadStageHistoryService,
+    private readonly lossReportService: LeadLossReportService,
+    private readonly duplicateService: LeadDuplicateService,
+    private readonly assignmentService: LeadAssignmentService,
     private readonly subscriptionService: SubscriptionService,
     private readonly tenantsService: TenantsService,
     private readonly notificationsService: NotificationsService,
+    private readonly customFieldsService: CustomFieldsService,
   ) {}
 
   /**
    * Listar leads (com scoping por role)
    */
-  async findAll(params: {
-    currentUserId: string;
-    currentUserRole: UserRole;
-    status?: LeadStatus;
-    productType?: ProductType;
-    origin?: string;
-    vendedorId?: string;
-  }) {
-    const { currentUserId, currentUserRole, status, productType, origin, vendedorId } = params;
+  async findAll(params: LeadListFilters) {
+    const where = await this.buildListWhere(params);
+
+    return this.prisma.lead.findMany({
+      where,
+      include: {
+        vendedor: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        interestPlan: {
+          select: {
+            id: true,
+            name: true,
+            product: true,
+          },
+        },
+        origin: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        stage: {
+          select: {
+            id: true,
+            name: true,
+            order: true,
+            color: true,
+          },
+        },
+        lossReason: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        interactions: {
+          select: {
+            id: true,
+            type: true,
+            direction: true,
+            title: true,
+            content: true,
+            createdAt: true,
+            user: { select: { id: true, name: true } },
+            // E-mail recebido pela caixa de captura (anexos para download)
+            inboundEmail: {
+              select: {
+                fromEmail: true,
+                attachments: { select: { id: true, fileName: true, size: true } },
+              },
+            },
+          },
+          orderBy: { createdAt: 'desc' as const },
+        },
+        // Entrada no estágio atual (dias na coluna do Kanban)
+        stageHistory: {
+          select: { changedAt: true },
+          orderBy: { changedAt: 'desc' as const },
+          take: 1,
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Filtros da listagem com scoping por role (também usados na exportação)
+   */
+  private async buildListWhere(params: LeadListFilters): Promise<Prisma.LeadWhereInput> {
+    const { currentUserId, currentUserRole, status, productType, origin, vendedorId, search, tags, customFields } = params;
 
     // Construir filtros baseado na role
     const where: any = {};
     if (status) where.status = status;
     if (productType) where.interestProduct = productType;
     if (origin) where.origin = { name: origin };
+    if (search?.trim()) {
+      const term = search.trim();
+      where.OR = ['name', 'email', 'companyName', 'phone', 'cpfCnpj'].map((field) => ({
+        [field]: { contains: term, mode: 'insensitive' },
+      }));
+    }
+    if (tags?.length) where.tags = { hasEvery: tags };
+    const customFieldFilters = await this.customFieldsService.buildFilters(CustomFieldEntity.LEAD, customFields);
+    if (customFieldFilters.length > 0) where.AND = customFieldFilters;
 
     // GESTOR: Ver apenas leads da sua equipe
     if (currentUserRole === UserRole.GESTOR) {
@@ -99,51 +237,73 @@ export class LeadsService {
       where.vendedorId = vendedorId;
     }
 
-    return this.prisma.lead.findMany({
+    return where;
+  }
+
+  /**
+   * Exporta os leads da listagem (mesmos filtros e scoping do GET /leads)
+   * Colunas compatíveis com a importação em lote
+   */
+  async exportLeads(params: LeadListFilters, format: SpreadsheetFormat) {
+    const where = await this.buildListWhere(params);
+
+    const leads = await this.prisma.lead.findMany({
       where,
       include: {
-        vendedor: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-        interestPlan: {
-          select: {
-            id: true,
-            name: true,
-            product: true,
-          },
-        },
-        origin: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        stage: {
-          select: {
-            id: true,
-            name: true,
-            order: true,
-            color: true,
-          },
-        },
-        interactions: {
-          select: {
-            id: true,
-            type: true,
-            title: true,
-            content: true,
-            createdAt: true,
-            user: { select: { id: true, name: true } },
-          },
-          orderBy: { createdAt: 'desc' as const },
-        },
+        vendedor: { select: { name: true, email: true } },
+        interestPlan: { select: { name: true } },
+        origin: { select: { name: true } },
+        stage: { select: { name: true } },
+        lossReason: { select: { name: true } },
       },
       orderBy: { createdAt: 'desc' },
     });
+
+    const formatDate = (date: Date | null) =>
+      date ? date.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' }) : '';
+
+    const rows: SpreadsheetCell[][] = [
+      [
+        'Nome', 'Email', 'Telefone', 'Empresa', 'CPF/CNPJ', 'Cargo', 'Cidade', 'Unidades', 'Instagram', 'Facebook',
+        'Estágio', 'Status', 'Origem', 'Produto', 'Plano', 'Vendedor', 'Email do vendedor',
+        'Receita esperada', 'Score', 'Motivo de perda', 'Criado em', 'Última interação', 'Observações',
+      ],
+      ...leads.map((lead) => [
+        lead.name,
+        lead.email,
+        lead.phone,
+        lead.companyName,
+        lead.cpfCnpj,
+        lead.role ? CLIENT_ROLE_LABELS[lead.role] : null,
+        lead.city,
+        lead.numberOfUnits,
+        lead.instagram,
+        lead.facebook,
+        lead.stage.name,
+        lead.status,
+        lead.origin.name,
+        lead.interestProduct === ProductType.ONE_NEXUS ? 'One Nexus' : 'Nexloc',
+        lead.interestPlan?.name,
+        lead.vendedor?.name,
+        lead.vendedor?.email,
+        lead.expectedRevenue !== null ? Number(lead.expectedRevenue) : null,
+        lead.score,
+        lead.lossReason?.name,
+        formatDate(lead.createdAt),
+        formatDate(lead.lastInteractionAt),
+        lead.notes,
+      ]),
+    ];
+
+    this.logger.log(`📤 Exportação de leads: ${leads.length} registro(s) em ${format.toUpperCase()}`);
+
+    return {
+      buffer: buildSpreadsheet(rows, format),
+      fileName: `leads-${new Date().toISOString().slice(0, 10)}.${format}`,
+      contentType: format === 'xlsx'
+        ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        : 'text/csv; charset=utf-8',
+    };
   }
 
   /**
@@ -188,14 +348,28 @@ export class LeadsService {
             color: true,
           },
         },
+        lossReason: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
         interactions: {
           select: {
             id: true,
             type: true,
+            direction: true,
             title: true,
             content: true,
             createdAt: true,
             user: { select: { id: true, name: true } },
+            // E-mail recebido pela caixa de captura (anexos para download)
+            inboundEmail: {
+              select: {
+                fromEmail: true,
+                attachments: { select: { id: true, fileName: true, size: true } },
+              },
+            },
           },
           orderBy: { createdAt: 'desc' as const },
         },
@@ -216,8 +390,16 @@ export class LeadsService {
 
   /**
    * Criar lead
+   *
+   * @param entry - Porta de entrada e, quando o chamador já resolveu o vendedor
+   *   (ex.: formulários), o motivo/regra da atribuição para o log
    */
-  async create(dto: CreateLeadDto, currentUserId: string, currentUserRole: UserRole) {
+  async create(
+    dto: CreateLeadInput,
+    currentUserId: string,
+    currentUserRole: UserRole,
+    entry: LeadEntryAssignment = { source: LeadEntrySource.MANUAL },
+  ) {
     // TEMPORARY: Convert origin name to originId if needed
     if ((dto as any).origin && !(dto as any).originId) {
       const originName = (dto as any).origin;
@@ -255,22 +437,34 @@ export class LeadsService {
       }
     }
 
-    // Se vendedorId não foi fornecido, atribuir ao usuário atual
-    // (Todos os usuários podem criar leads para si mesmos por padrão)
-    if (!dto.vendedorId) {
-      dto.vendedorId = currentUserId;
-    }
-
+    // Atribuição: vendedor explícito > regras de atribuição > usuário atual
     // VENDEDOR sempre cria lead para si mesmo (override se tentou especificar outro)
+    let assignment: LeadEntryAssignment & { reason: AssignmentReason } = {
+      reason: AssignmentReason.EXPLICIT,
+      ...entry,
+    };
+
     if (currentUserRole === UserRole.VENDEDOR) {
       dto.vendedorId = currentUserId;
+    } else if (!dto.vendedorId) {
+      const resolved = await this.assignmentService.resolve({
+        interestProduct: dto.interestProduct,
+        city: dto.city,
+        originId: (dto as any).originId,
+        numberOfUnits: dto.numberOfUnits,
+      });
+
+      dto.vendedorId = resolved?.vendedorId ?? currentUserId;
+      assignment = resolved
+        ? { ...entry, reason: AssignmentReason.RULE, ruleId: resolved.ruleId, details: `Regra "${resolved.ruleName}"` }
+        : { ...entry, reason: AssignmentReason.FALLBACK, details: 'Nenhuma regra aplicável — atribuído a quem cadastrou' };
     }
 
     // Validar vendedor se fornecido
     let vendedor = null;
     if (dto.vendedorId) {
-      // GESTOR pode criar lead para seus vendedores
-      if (currentUserRole === UserRole.GESTOR) {
+      // GESTOR pode criar lead para seus vendedores (distribuição por regra é global)
+      if (currentUserRole === UserRole.GESTOR && assignment.reason !== AssignmentReason.RULE) {
         // Verificar se vendedor pertence à equipe
         const checkVendedor = await this.prisma.user.findUnique({
           where: { id: dto.vendedorId },
@@ -319,10 +513,16 @@ export class LeadsService {
 
     // Remove temporary fields before creating in database
     const { origin, ...createData } = dto as any;
+    createData.tags = normalizeTags(dto.tags ?? []);
+    createData.customFields = await this.customFieldsService.normalizeValues(CustomFieldEntity.LEAD, dto.customFields);
 
     // ✅ CORREÇÃO v2.28.0: Retornar lead com TODAS as relations (igual findAll)
     const lead = await this.prisma.lead.create({
-      data: createData,
+      data: {
+        ...createData,
+        // Entrada no funil: primeira linha do histórico de estágios
+        stageHistory: { create: { toStageId: createData.stageId, changedById: currentUserId } },
+      },
       include: {
         vendedor: {
           select: {
@@ -359,6 +559,15 @@ export class LeadsService {
       `✅ Lead criado: ${lead.companyName || lead.name} (${lead.email})${vendedor ? ` - Vendedor: ${vendedor.name}` : ''}`,
     );
 
+    await this.assignmentService.logAssignment({
+      leadId: lead.id,
+      toVendedorId: lead.vendedorId,
+      ruleId: assignment.ruleId,
+      source: assignment.source,
+      reason: assignment.reason,
+      details: assignment.details,
+    });
+
     // ✅ v2.29.0: Debug log para confirmar relations
     this.logger.debug(
       `Relations retornadas: vendedor=${!!lead.vendedor}, interestPlan=${!!lead.interestPlan}, origin=${!!lead.origin}, stage=${!!lead.stage}, role=${lead.role}`,
@@ -373,8 +582,13 @@ export class LeadsService {
       // Não falhar a criação do lead se o score falhar
     }
 
+    // Possíveis duplicados entram na fila de revisão (demais entradas: cron)
+    this.duplicateService.scanLead(lead.id).catch((error) => {
+      this.logger.warn(`⚠️ Erro ao verificar duplicados: ${error.message}`);
+    });
+
     // ✅ v2.58.0: Notificar vendedor sobre novo lead atribuído
-    if (lead.vendedorId) {
+    if (lead.vendedorId && !entry.silent) {
       this.notificationsService.create({
         userId: lead.vendedorId,
         type: NotificationType.LEAD_ASSIGNED,
@@ -522,6 +736,14 @@ export class LeadsService {
 
     // Se status mudou para GANHO ou PERDIDO, atualizar stageId para o estágio correto
     const dataToUpdate: any = { ...updateData };
+    if (dto.tags !== undefined) dataToUpdate.tags = normalizeTags(dto.tags);
+    if (dto.customFields !== undefined) {
+      dataToUpdate.customFields = await this.customFieldsService.normalizeValues(
+        CustomFieldEntity.LEAD,
+        dto.customFields,
+        { current: lead.customFields },
+      );
+    }
     if (dto.status === LeadStatus.GANHO || dto.status === LeadStatus.PERDIDO) {
       // Buscar estágio final correspondente
       const finalStage = await this.prisma.funnelStage.findFirst({
@@ -558,6 +780,35 @@ export class LeadsService {
       }
     }
 
+    // ═══════════════════════════════════════════════════════════════════════════
+    // MOTIVO DE PERDA: só vale para lead PERDIDO; reabrir/ganhar limpa o motivo
+    // ═══════════════════════════════════════════════════════════════════════════
+    if ((dataToUpdate.status ?? lead.status) === LeadStatus.PERDIDO) {
+      if (dto.lossReasonId) {
+        const reason = await this.prisma.lossReason.findUnique({
+          where: { id: dto.lossReasonId },
+        });
+
+        if (!reason || !reason.isActive) {
+          throw new BadRequestException('Motivo de perda inválido ou inativo');
+        }
+      }
+    } else {
+      delete dataToUpdate.lossReasonId;
+      delete dataToUpdate.lossNotes;
+
+      if (lead.status === LeadStatus.PERDIDO) {
+        dataToUpdate.lossReasonId = null;
+        dataToUpdate.lossNotes = null;
+      }
+    }
+
+    // Contato alterado → lead volta para a varredura de duplicados
+    const contactFields = ['email', 'phone', 'cpfCnpj', 'companyName'] as const;
+    if (contactFields.some((field) => dto[field] !== undefined && dto[field] !== lead[field])) {
+      dataToUpdate.duplicateCheckedAt = null;
+    }
+
     // Se status mudou para GANHO, tentar conversão automática para Cliente
     if (dto.status === LeadStatus.GANHO && lead.status !== LeadStatus.GANHO) {
       dataToUpdate.convertedAt = new Date();
@@ -605,6 +856,13 @@ export class LeadsService {
                   },
                 });
 
+                if (dataToUpdate.stageId) {
+                  await this.stageHistoryService.record(
+                    { leadId: id, fromStageId: lead.stageId, toStageId: dataToUpdate.stageId, changedById: currentUserId },
+                    tx,
+                  );
+                }
+
                 // Criar cliente automaticamente com o produto do plano contratado
                 await tx.client.create({
                   data: {
@@ -619,6 +877,7 @@ export class LeadsService {
                     status: ClientStatus.EM_TRIAL,
                     leadId: lead.id,
                     notes: lead.notes,
+                    tags: lead.tags,
                   },
                 });
 
@@ -703,6 +962,21 @@ export class LeadsService {
 
     this.logger.log(`✅ Lead atualizado: ${updated.companyName || updated.name} (${updated.email})`);
 
+    // Histórico de estágios (drag-and-drop, status legado ou GANHO/PERDIDO)
+    if (updated.stageId !== lead.stageId) {
+      try {
+        await this.stageHistoryService.record({
+          leadId: id,
+          fromStageId: lead.stageId,
+          toStageId: updated.stageId,
+          changedById: currentUserId,
+        });
+      } catch (error) {
+        this.logger.warn(`⚠️ Erro ao registrar histórico de estágio do lead ${id}: ${error.message}`);
+        // Não falhar a movimentação do lead se o histórico falhar
+      }
+    }
+
     // ✅ v2.34.0: Recalcular Lead Score após atualização
     try {
       await this.leadScoreService.updateLeadScore(updated.id);
@@ -714,6 +988,14 @@ export class LeadsService {
 
     // ✅ v2.58.0: Notificar novo vendedor quando lead for reatribuído
     if (dto.vendedorId && dto.vendedorId !== lead.vendedorId) {
+      await this.assignmentService.logAssignment({
+        leadId: id,
+        fromVendedorId: lead.vendedorId,
+        toVendedorId: dto.vendedorId,
+        source: LeadEntrySource.MANUAL,
+        reason: AssignmentReason.MANUAL_REASSIGN,
+      });
+
       this.notificationsService.create({
         userId: dto.vendedorId,
         type: NotificationType.LEAD_ASSIGNED,
@@ -912,12 +1194,49 @@ export class LeadsService {
 
   /**
    * Buscar cidades na API IBGE
+   * Busca sem acento ("sao paulo" encontra "São Paulo")
    */
   async searchCities(query: string): Promise<Array<{ name: string; id: number }>> {
     if (!query || query.length < 2) {
       return [];
     }
 
+    const cities = await this.loadIbgeCities();
+    const term = this.normalizeCityText(query);
+
+    return cities
+      .filter((city) => city.search.includes(term))
+      .slice(0, 20) // Limit to 20 results
+      .map(({ id, name }) => ({ id, name }));
+  }
+
+  /**
+   * Municípios com exatamente este nome (sem acento/caixa), opcionalmente filtrados pela UF
+   * Usado na validação da importação em lote — a busca do autocomplete casa por trecho do nome
+   *
+   * @returns null quando a lista do IBGE está indisponível (cidade não pode ser validada)
+   */
+  async matchCities(name: string, uf?: string): Promise<Array<{ name: string; id: number }> | null> {
+    const cities = await this.loadIbgeCities();
+    if (cities.length === 0) return null;
+
+    const term = this.normalizeCityText(name);
+    const suffix = uf ? ` - ${uf.toUpperCase()}` : null;
+
+    return cities
+      .filter((city) => city.search === term && (!suffix || city.name.endsWith(suffix)))
+      .map(({ id, name }) => ({ id, name }));
+  }
+
+  /**
+   * Lista de municípios do IBGE em memória (24h)
+   * A importação em lote consulta centenas de cidades — uma requisição por busca seria inviável
+   */
+  private async loadIbgeCities(): Promise<Array<{ id: number; name: string; search: string }>> {
+    if (this.ibgeCitiesCache && Date.now() - this.ibgeCitiesCache.loadedAt < 24 * 60 * 60 * 1000) {
+      return this.ibgeCitiesCache.cities;
+    }
+
     try {
       const response = await fetch(
         `https://servicodados.ibge.gov.br/api/v1/localidades/municipios?orderBy=nome`,
@@ -928,10 +1247,10 @@ export class LeadsService {
 
       if (!response.ok) {
         this.logger.error(`IBGE API error: ${response.status} ${response.statusText}`);
-        return [];
+        return this.ibgeCitiesCache?.cities ?? [];
       }
 
-      const cities: Array<{
+      const data: Array<{
         id: number;
         nome: string;
         microrregiao: {
@@ -943,22 +1262,25 @@ export class LeadsService {
         };
       }> = await response.json();
 
-      // Filter cities by query (case-insensitive)
-      const filtered = cities
-        .filter((city) => city.nome.toLowerCase().includes(query.toLowerCase()))
-        .slice(0, 20) // Limit to 20 results
-        .map((city) => ({
-          id: city.id,
-          name: `${city.nome} - ${city.microrregiao.mesorregiao.UF.sigla}`,
-        }));
+      const cities = data.map((city) => ({
+        id: city.id,
+        name: `${city.nome} - ${city.microrregiao.mesorregiao.UF.sigla}`,
+        search: this.normalizeCityText(city.nome),
+      }));
 
-      return filtered;
+      this.ibgeCitiesCache = { loadedAt: Date.now(), cities };
+      return cities;
     } catch (error) {
       this.logger.error(`Error fetching cities from IBGE: ${error.message}`, error.stack);
-      return [];
+      return this.ibgeCitiesCache?.cities ?? [];
     }
   }
 
+  private normalizeCityText(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+  }
+
+
   /**
    * Adicionar interação à linha do tempo de um lead
    */
@@ -1085,6 +1407,7 @@ export class LeadsService {
           phone: lead.phone,
           cpfCnpj: lead.cpfCnpj || 'PENDING',
           role: lead.role,
+          tags: lead.tags,
 
           // Plano e produto
           planId: dto.planId,
@@ -1123,9 +1446,18 @@ export class LeadsService {
           stageId: ganhoStage?.id || lead.stageId,
           convertedAt: parseDateBrasilia(new Date().toISOString().split('T')[0]),
           interestPlanId: dto.planId, // Atualiza plano de interesse com plano fechado
+          lossReasonId: null, // Segunda chance: lead PERDIDO reconvertido deixa de ter motivo
+          lossNotes: null,
         },
       });
 
+      if (ganhoStage && ganhoStage.id !== lead.stageId) {
+        await this.stageHistoryService.record(
+          { leadId, fromStageId: lead.stageId, toStageId: ganhoStage.id, changedById: currentUserId },
+          tx,
+        );
+      }
+
       this.logger.log(`✅ Lead atualizado para GANHO`);
 
       // 4.x Limpar interações do lead (não são mais necessárias após conversão)
@@ -1369,6 +1701,196 @@ ${lead.notes ? `Observações: ${lead.notes.substring(0, 200)}` : 'Sem observaç
     return { summary: fallbackSummary };
   }
 
+  /**
+   * Linha do tempo de estágios do lead (com validação de acesso)
+   */
+  async getStageHistory(id: string, currentUserId: string, currentUserRole: UserRole) {
+    const lead = await this.prisma.lead.findUnique({
+      where: { id },
+      select: { vendedorId: true },
+    });
+
+    if (!lead) {
+      throw new NotFoundException(`Lead ${id} não encontrado`);
+    }
+
+    if (lead.vendedorId) {
+      await this.validateAccess(lead.vendedorId, currentUserId, currentUserRole);
+    }
+
+    return this.stageHistoryService.getTimeline(id);
+  }
+
+  /**
+   * Histórico de atribuições do lead
+   */
+  async getAssignmentHistory(id: string, currentUserId: string, currentUserRole: UserRole) {
+    const lead = await this.prisma.lead.findUnique({
+      where: { id },
+      select: { vendedorId: true },
+    });
+
+    if (!lead) {
+      throw new NotFoundException(`Lead ${id} não encontrado`);
+    }
+
+    if (lead.vendedorId) {
+      await this.validateAccess(lead.vendedorId, currentUserId, currentUserRole);
+    }
+
+    return this.assignmentService.getLeadLogs(id);
+  }
+
+  /**
+   * Possíveis duplicados de um lead (checagem ao vivo)
+   * Retorna apenas os leads que o usuário pode acessar
+   */
+  async findDuplicates(id: string, currentUserId: string, currentUserRole: UserRole) {
+    const lead = await this.prisma.lead.findUnique({
+      where: { id },
+      select: { vendedorId: true, email: true, phone: true, cpfCnpj: true, companyName: true },
+    });
+
+    if (!lead) {
+      throw new NotFoundException(`Lead ${id} não encontrado`);
+    }
+
+    if (lead.vendedorId) {
+      await this.validateAccess(lead.vendedorId, currentUserId, currentUserRole);
+    }
+
+    const matches = await this.duplicateService.findMatches(lead, id);
+    const scope = await this.resolveReportScope({}, currentUserId, currentUserRole);
+    return scope ? matches.filter((m) => m.lead.vendedorId && scope.includes(m.lead.vendedorId)) : matches;
+  }
+
+  /**
+   * Checagem preventiva no formulário de cadastro
+   * Leads fora do alcance do usuário aparecem sem dados de contato
+   */
+  async checkDuplicates(lookup: DuplicateLookup, currentUserId: string, currentUserRole: UserRole) {
+    const matches = await this.duplicateService.findMatches(lookup);
+    const scope = await this.resolveReportScope({}, currentUserId, currentUserRole);
+
+    return matches.slice(0, 5).map((match) => {
+      if (!scope || (match.lead.vendedorId && scope.includes(match.lead.vendedorId))) return match;
+      return {
+        ...match,
+        lead: {
+          ...match.lead,
+          email: '',
+          phone: '',
+          cpfCnpj: null,
+          _count: { interactions: 0, calendarEvents: 0, formSubmissions: 0 },
+        },
+        restricted: true,
+      };
+    });
+  }
+
+  /**
+   * Fila de possíveis duplicados (GESTOR: pares que envolvem a equipe)
+   */
+  async getDuplicateQueue(currentUserId: string, currentUserRole: UserRole) {
+    const scope = await this.resolveReportScope({}, currentUserId, currentUserRole);
+    return this.duplicateService.getQueue(scope);
+  }
+
+  /**
+   * Marca o par como "não é duplicado"
+   */
+  async dismissDuplicate(candidateId: string, currentUserId: string, currentUserRole: UserRole) {
+    const candidate = await this.duplicateService.findCandidate(candidateId);
+
+    for (const vendedorId of [candidate.lead.vendedorId, candidate.duplicateOf.vendedorId]) {
+      if (vendedorId) await this.validateAccess(vendedorId, currentUserId, currentUserRole);
+    }
+
+    return this.duplicateService.dismiss(candidateId, currentUserId);
+  }
+
+  /**
+   * Mescla duplicateId no lead :id (exige acesso aos dois leads)
+   */
+  async mergeLeads(id: string, duplicateId: string, currentUserId: string, currentUserRole: UserRole) {
+    const leads = await this.prisma.lead.findMany({
+      where: { id: { in: [id, duplicateId] } },
+      select: { id: true, vendedorId: true },
+    });
+
+    for (const lead of leads) {
+      if (lead.vendedorId) await this.validateAccess(lead.vendedorId, currentUserId, currentUserRole);
+    }
+
+    await this.duplicateService.merge(id, duplicateId, currentUserId);
+    return this.findOne(id, currentUserId, currentUserRole);
+  }
+
+  /**
+   * Relatório do funil (tempo por estágio, conversão e velocidade)
+   * Mesmo scoping do findAll: GESTOR vê a equipe, VENDEDOR apenas os próprios leads
+   */
+  async getFunnelReport(filters: FunnelReportFilters, currentUserId: string, currentUserRole: UserRole) {
+    const scope = await this.resolveReportScope(filters, currentUserId, currentUserRole);
+    return this.stageHistoryService.getFunnelReport(filters, scope);
+  }
+
+  /**
+   * Análise de perdas: receita perdida por motivo, estágio e vendedor
+   */
+  async getLossReport(filters: FunnelReportFilters, currentUserId: string, currentUserRole: UserRole) {
+    const scope = await this.resolveReportScope(filters, currentUserId, currentUserRole);
+    return this.lossReportService.getLossReport(filters, scope);
+  }
+
+  /**
+   * Valida o período e devolve os vendedores visíveis nos relatórios
+   * (null = sem restrição; mesmo scoping do findAll)
+   */
+  private async resolveReportScope(
+    filters: FunnelReportFilters,
+    currentUserId: string,
+    currentUserRole: UserRole,
+  ): Promise<string[] | null> {
+    for (const date of [filters.from, filters.to]) {
+      if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        throw new BadRequestException(`Data inválida: ${date} (use YYYY-MM-DD)`);
+      }
+    }
+
+    const scope = await this.resolveVendedorScope(currentUserId, currentUserRole);
+
+    if (scope && filters.vendedorId && !scope.includes(filters.vendedorId)) {
+      throw new ForbiddenException(
+        currentUserRole === UserRole.VENDEDOR
+          ? 'Você só pode visualizar seus próprios leads'
+          : 'Você não tem acesso aos leads deste vendedor',
+      );
+    }
+
+    return scope;
+  }
+
+  /**
+   * Vendedores cujos leads o usuário alcança (null = todos)
+   * GESTOR: equipe + ele mesmo; VENDEDOR: apenas ele mesmo
+   */
+  async resolveVendedorScope(currentUserId: string, currentUserRole: UserRole): Promise<string[] | null> {
+    if (currentUserRole === UserRole.GESTOR) {
+      const vendedores = await this.prisma.user.findMany({
+        where: { gestorId: currentUserId },
+        select: { id: true },
+      });
+      return [...vendedores.map((v) => v.id), currentUserId];
+    }
+
+    if (currentUserRole === UserRole.VENDEDOR) {
+      return [currentUserId];
+    }
+
+    return null;
+  }
+
   /**
    * Listar todas as origens de leads ativas
    */
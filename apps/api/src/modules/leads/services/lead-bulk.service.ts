@@ -0,0 +1,433 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  AssignmentReason,
+  EventType,
+  Lead,
+  LeadEntrySource,
+  LeadStatus,
+  NotificationType,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import { AuthUser } from '@/common/interfaces/auth-user.interface';
+import { LeadsService } from '../leads.service';
+import { LeadScoreService } from './lead-score.service';
+import { LeadStageHistoryService } from './lead-stage-history.service';
+import { LeadAssignmentService } from '../../lead-assignment/lead-assignment.service';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { AuditService } from '../../audit/audit.service';
+import { CalendarGoogleService } from '../../calendar/calendar-google.service';
+import {
+  BulkAddTagDto,
+  BulkDeleteDto,
+  BulkMarkLostDto,
+  BulkMoveStageDto,
+  BulkReassignDto,
+  BulkScheduleFollowUpDto,
+} from '../dto/bulk-leads.dto';
+
+/** Lead que ficou de fora da ação (regra de negócio, não permissão) */
+export interface BulkSkippedLead {
+  leadId: string;
+  reason: string;
+}
+
+/** Resultado de uma ação em lote */
+export interface BulkActionResult {
+  batchId: string;
+  updated: number;
+  skipped: BulkSkippedLead[];
+}
+
+type BulkAction = 'STAGE' | 'REASSIGN' | 'LOSE' | 'TAG' | 'FOLLOW_UP' | 'DELETE';
+
+/**
+ * Ações em lote sobre leads (Kanban e lista)
+ *
+ * - Permissão: o lote inteiro é recusado se algum lead estiver fora do alcance do usuário
+ * - Regras de negócio (ex.: lead já convertido) apenas pulam o lead, informando o motivo
+ * - Auditoria: uma entrada por lote (BULK_<AÇÃO>), com os leads afetados e os parâmetros
+ */
+@Injectable()
+export class LeadBulkService {
+  private readonly logger = new Logger(LeadBulkService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly leadsService: LeadsService,
+    private readonly leadScoreService: LeadScoreService,
+    private readonly stageHistoryService: LeadStageHistoryService,
+    private readonly assignmentService: LeadAssignmentService,
+    private readonly notificationsService: NotificationsService,
+    private readonly auditService: AuditService,
+    private readonly googleService: CalendarGoogleService,
+  ) {}
+
+  /**
+   * Mover leads para um estágio aberto do funil
+   * Leads perdidos são reabertos (motivo de perda é limpo); convertidos são pulados
+   */
+  async moveStage(dto: BulkMoveStageDto, user: AuthUser): Promise<BulkActionResult> {
+    const stage = await this.prisma.funnelStage.findUnique({ where: { id: dto.stageId } });
+
+    if (!stage || !stage.isActive) {
+      throw new NotFoundException('Estágio não encontrado ou inativo');
+    }
+
+    if (stage.name === 'Ganho' || stage.name === 'Perdido') {
+      throw new BadRequestException(
+        stage.name === 'Ganho'
+          ? 'Para ganhar leads use a conversão em cliente'
+          : 'Para perder leads use "Marcar como perdido" com o motivo',
+      );
+    }
+
+    const leads = await this.loadLeads(dto.leadIds, user);
+    const skipped: BulkSkippedLead[] = [];
+    const moved: Lead[] = [];
+
+    for (const lead of leads) {
+      if (lead.status === LeadStatus.GANHO) {
+        skipped.push({ leadId: lead.id, reason: 'Lead já convertido em cliente' });
+      } else if (lead.stageId === stage.id) {
+        skipped.push({ leadId: lead.id, reason: `Lead já está em ${stage.name}` });
+      } else {
+        moved.push(lead);
+      }
+    }
+
+    if (moved.length > 0) {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.lead.updateMany({
+          where: { id: { in: moved.map((l) => l.id) } },
+          data: { stageId: stage.id, status: LeadStatus.ABERTO, lossReasonId: null, lossNotes: null },
+        });
+
+        for (const lead of moved) {
+          await this.stageHistoryService.record(
+            { leadId: lead.id, fromStageId: lead.stageId, toStageId: stage.id, changedById: user.id },
+            tx,
+          );
+        }
+      });
+
+      await this.recalculateScores(moved.map((l) => l.id));
+    }
+
+    return this.finish('STAGE', user, moved, skipped, { stageId: stage.id, stageName: stage.name });
+  }
+
+  /**
+   * Reatribuir leads (VENDEDOR não reatribui; GESTOR apenas dentro da equipe)
+   * O novo vendedor recebe uma única notificação com o total
+   */
+  async reassign(dto: BulkReassignDto, user: AuthUser): Promise<BulkActionResult> {
+    if (user.role === UserRole.VENDEDOR) {
+      throw new ForbiddenException('Você não pode reatribuir seus próprios leads');
+    }
+
+    const vendedor = await this.prisma.user.findUnique({ where: { id: dto.vendedorId } });
+
+    if (!vendedor || !vendedor.isActive) {
+      throw new BadRequestException('Vendedor inválido ou inativo');
+    }
+
+    if (user.role === UserRole.GESTOR && vendedor.gestorId !== user.id && vendedor.id !== user.id) {
+      throw new ForbiddenException('Você só pode reatribuir leads dentro da sua equipe');
+    }
+
+    const leads = await this.loadLeads(dto.leadIds, user);
+    const skipped: BulkSkippedLead[] = [];
+    const reassigned: Lead[] = [];
+
+    for (const lead of leads) {
+      if (lead.vendedorId === vendedor.id) {
+        skipped.push({ leadId: lead.id, reason: `Lead já pertence a ${vendedor.name}` });
+      } else {
+        reassigned.push(lead);
+      }
+    }
+
+    if (reassigned.length > 0) {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.lead.updateMany({
+          where: { id: { in: reassigned.map((l) => l.id) } },
+          data: { vendedorId: vendedor.id },
+        });
+
+        for (const lead of reassigned) {
+          await this.assignmentService.logAssignment(
+            {
+              leadId: lead.id,
+              fromVendedorId: lead.vendedorId,
+              toVendedorId: vendedor.id,
+              source: LeadEntrySource.MANUAL,
+              reason: AssignmentReason.MANUAL_REASSIGN,
+              details: 'Reatribuição em lote',
+            },
+            tx,
+          );
+        }
+      });
+
+      if (vendedor.id !== user.id) {
+        this.notificationsService.create({
+          userId: vendedor.id,
+          type: NotificationType.LEAD_ASSIGNED,
+          title: 'Leads atribuídos a você',
+          message: `${reassigned.length} lead(s) foram transferidos para você.`,
+          link: '/leads',
+          metadata: { count: reassigned.length },
+        }).catch(() => {});
+      }
+    }
+
+    return this.finish('REASSIGN', user, reassigned, skipped, { vendedorId: vendedor.id, vendedorName: vendedor.name });
+  }
+
+  /**
+   * Marcar leads como perdidos com motivo (move para o estágio "Perdido")
+   */
+  async markLost(dto: BulkMarkLostDto, user: AuthUser): Promise<BulkActionResult> {
+    const reason = await this.prisma.lossReason.findUnique({ where: { id: dto.lossReasonId } });
+
+    if (!reason || !reason.isActive) {
+      throw new BadRequestException('Motivo de perda inválido ou inativo');
+    }
+
+    const lostStage = await this.prisma.funnelStage.findFirst({ where: { name: 'Perdido' } });
+
+    if (!lostStage) {
+      throw new NotFoundException('Estágio "Perdido" não encontrado no funil');
+    }
+
+    const leads = await this.loadLeads(dto.leadIds, user);
+    const skipped: BulkSkippedLead[] = [];
+    const lost: Lead[] = [];
+
+    for (const lead of leads) {
+      if (lead.status === LeadStatus.GANHO) {
+        skipped.push({ leadId: lead.id, reason: 'Lead já convertido em cliente' });
+      } else if (lead.status === LeadStatus.PERDIDO) {
+        skipped.push({ leadId: lead.id, reason: 'Lead já está perdido' });
+      } else {
+        lost.push(lead);
+      }
+    }
+
+    if (lost.length > 0) {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.lead.updateMany({
+          where: { id: { in: lost.map((l) => l.id) } },
+          data: {
+            stageId: lostStage.id,
+            status: LeadStatus.PERDIDO,
+            lossReasonId: reason.id,
+            lossNotes: dto.lossNotes?.trim() || null,
+          },
+        });
+
+        for (const lead of lost) {
+          await this.stageHistoryService.record(
+            { leadId: lead.id, fromStageId: lead.stageId, toStageId: lostStage.id, changedById: user.id },
+            tx,
+          );
+        }
+      });
+
+      await this.recalculateScores(lost.map((l) => l.id));
+    }
+
+    return this.finish('LOSE', user, lost, skipped, { lossReasonId: reason.id, lossReason: reason.name });
+  }
+
+  /**
+   * Adicionar etiqueta aos leads
+   */
+  async addTag(dto: BulkAddTagDto, user: AuthUser): Promise<BulkActionResult> {
+    const leads = await this.loadLeads(dto.leadIds, user);
+    const skipped: BulkSkippedLead[] = [];
+    const tagged: Lead[] = [];
+
+    for (const lead of leads) {
+      if (lead.tags.some((tag) => tag.toLowerCase() === dto.tag.toLowerCase())) {
+        skipped.push({ leadId: lead.id, reason: `Lead já possui a etiqueta "${dto.tag}"` });
+      } else {
+        tagged.push(lead);
+      }
+    }
+
+    if (tagged.length > 0) {
+      await this.prisma.lead.updateMany({
+        where: { id: { in: tagged.map((l) => l.id) } },
+        data: { tags: { push: dto.tag } },
+      });
+    }
+
+    return this.finish('TAG', user, tagged, skipped, { tag: dto.tag });
+  }
+
+  /**
+   * Agendar follow-up: um evento FOLLOWUP por lead na agenda do vendedor responsável
+   * (leads sem vendedor ficam na agenda de quem agendou)
+   *
+   * Não checa conflito de horário: é um lembrete em massa, não uma reunião.
+   */
+  async scheduleFollowUp(dto: BulkScheduleFollowUpDto, user: AuthUser): Promise<BulkActionResult> {
+    if (dto.startAt.getTime() < Date.now() - 60_000) {
+      throw new BadRequestException('O follow-up deve ser agendado para uma data futura');
+    }
+
+    const leads = await this.loadLeads(dto.leadIds, user);
+    const skipped: BulkSkippedLead[] = [];
+    const scheduled: Lead[] = [];
+
+    for (const lead of leads) {
+      if (lead.status !== LeadStatus.ABERTO) {
+        skipped.push({
+          leadId: lead.id,
+          reason: lead.status === LeadStatus.GANHO ? 'Lead já convertido em cliente' : 'Lead perdido',
+        });
+      } else {
+        scheduled.push(lead);
+      }
+    }
+
+    const endAt = new Date(dto.startAt.getTime() + dto.durationMinutes * 60_000);
+    const ownerCounts = new Map<string, number>();
+
+    for (const lead of scheduled) {
+      const ownerId = lead.vendedorId ?? user.id;
+      const event = await this.prisma.calendarEvent.create({
+        data: {
+          userId: ownerId,
+          title: `${dto.title || 'Follow-up'}: ${lead.companyName || lead.name}`,
+          description: dto.description ?? null,
+          type: EventType.FOLLOWUP,
+          startAt: dto.startAt,
+          endAt,
+          leadId: lead.id,
+        },
+      });
+
+      ownerCounts.set(ownerId, (ownerCounts.get(ownerId) ?? 0) + 1);
+
+      // Sincronizar com Google Calendar (não bloqueia em caso de erro)
+      this.googleService.syncEventToGoogle(event, ownerId).catch((error) => {
+        this.logger.warn(`⚠️ Erro ao sincronizar follow-up ${event.id} com Google: ${error.message}`);
+      });
+    }
+
+    // Vendedores que receberam eventos agendados por outra pessoa
+    for (const [ownerId, count] of ownerCounts) {
+      if (ownerId === user.id) continue;
+      this.notificationsService.create({
+        userId: ownerId,
+        type: NotificationType.SYSTEM_ALERT,
+        title: 'Follow-ups agendados',
+        message: `${user.name} agendou ${count} follow-up(s) na sua agenda para ${dto.startAt.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' })}.`,
+        link: '/calendar',
+        metadata: { count },
+      }).catch(() => {});
+    }
+
+    return this.finish('FOLLOW_UP', user, scheduled, skipped, {
+      startAt: dto.startAt.toISOString(),
+      durationMinutes: dto.durationMinutes,
+      title: dto.title ?? null,
+    });
+  }
+
+  /**
+   * Excluir leads (apenas SUPERADMIN/ADMINISTRATIVO, como na exclusão individual)
+   * Leads convertidos são preservados: o cliente referencia a origem
+   */
+  async remove(dto: BulkDeleteDto, user: AuthUser): Promise<BulkActionResult> {
+    if (user.role !== UserRole.SUPERADMIN && user.role !== UserRole.ADMINISTRATIVO) {
+      throw new ForbiddenException('Apenas administradores podem deletar leads');
+    }
+
+    const leads = await this.loadLeads(dto.leadIds, user);
+    const skipped: BulkSkippedLead[] = [];
+    const removed: Lead[] = [];
+
+    for (const lead of leads) {
+      if (lead.status === LeadStatus.GANHO) {
+        skipped.push({ leadId: lead.id, reason: 'Lead convertido em cliente não pode ser excluído' });
+      } else {
+        removed.push(lead);
+      }
+    }
+
+    if (removed.length > 0) {
+      await this.prisma.lead.deleteMany({ where: { id: { in: removed.map((l) => l.id) } } });
+      this.logger.warn(`⚠️ ${removed.length} lead(s) deletado(s) em lote por ${user.email}`);
+    }
+
+    return this.finish('DELETE', user, removed, skipped, {
+      leads: removed.map((l) => ({ id: l.id, name: l.companyName || l.name, email: l.email })),
+    });
+  }
+
+  /**
+   * Carrega os leads do lote e garante que todos estão no alcance do usuário
+   * (mesmo scoping da listagem: GESTOR equipe, VENDEDOR apenas os próprios)
+   */
+  private async loadLeads(leadIds: string[], user: AuthUser): Promise<Lead[]> {
+    const leads = await this.prisma.lead.findMany({ where: { id: { in: leadIds } } });
+
+    if (leads.length !== leadIds.length) {
+      const found = new Set(leads.map((l) => l.id));
+      const missing = leadIds.filter((id) => !found.has(id));
+      throw new NotFoundException(`Lead(s) não encontrado(s): ${missing.slice(0, 5).join(', ')}`);
+    }
+
+    const scope = await this.leadsService.resolveVendedorScope(user.id, user.role);
+    if (scope && leads.some((lead) => !lead.vendedorId || !scope.includes(lead.vendedorId))) {
+      throw new ForbiddenException('A seleção inclui leads aos quais você não tem acesso');
+    }
+
+    return leads;
+  }
+
+  private async recalculateScores(leadIds: string[]) {
+    for (const id of leadIds) {
+      try {
+        await this.leadScoreService.updateLeadScore(id);
+      } catch (error) {
+        this.logger.warn(`⚠️ Erro ao recalcular Lead Score do lead ${id}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Registra a auditoria do lote e monta a resposta
+   */
+  private async finish(
+    action: BulkAction,
+    user: AuthUser,
+    affected: Lead[],
+    skipped: BulkSkippedLead[],
+    params: Record<string, unknown>,
+  ): Promise<BulkActionResult> {
+    const batchId = randomUUID();
+
+    if (affected.length > 0) {
+      await this.auditService.log({
+        userId: user.id,
+        action: `BULK_${action}`,
+        entity: 'Lead',
+        entityId: batchId,
+        oldData: {
+          leads: affected.map((l) => ({ id: l.id, stageId: l.stageId, status: l.status, vendedorId: l.vendedorId })),
+        },
+        newData: { ...params, leadIds: affected.map((l) => l.id), skipped: skipped.length },
+      });
+    }
+
+    this.logger.log(`✅ Ação em lote ${action}: ${affected.length} lead(s) afetado(s), ${skipped.length} pulado(s)`);
+
+    return { batchId, updated: affected.length, skipped };
+  }
+}
@@ -0,0 +1,484 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '@/prisma/prisma.service';
+import { AuditService } from '../../audit/audit.service';
+import {
+  InteractionType,
+  Lead,
+  LeadDuplicateMatch,
+  LeadDuplicateStatus,
+  LeadStatus,
+  Prisma,
+} from '@prisma/client';
+
+/** Peso de cada critério no score (o maior vale, critérios extras somam +5) */
+const MATCH_WEIGHT: Record<LeadDuplicateMatch, number> = {
+  CNPJ: 95,
+  EMAIL: 90,
+  PHONE: 80,
+  COMPANY_NAME: 75,
+};
+
+/** Similaridade mínima (Dice sobre bigramas) para considerar nomes de empresa iguais */
+const COMPANY_SIMILARITY_THRESHOLD = 0.85;
+
+/** Leads varridos por execução do cron */
+const SCAN_BATCH_SIZE = 200;
+
+/** Termos que não distinguem uma empresa de outra (sufixos societários, conectivos) */
+const COMPANY_STOPWORDS = new Set(['ltda', 'me', 'epp', 'eireli', 'sa', 's', 'a', 'de', 'da', 'do', 'das', 'dos', 'e']);
+
+/** Valores usados como preenchimento quando a origem não traz o dado */
+const PLACEHOLDER_COMPANIES = new Set(['empresa nao informada', 'nao informado']);
+
+export interface DuplicateLookup {
+  email?: string | null;
+  phone?: string | null;
+  cpfCnpj?: string | null;
+  companyName?: string | null;
+}
+
+const DUPLICATE_LEAD_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  phone: true,
+  companyName: true,
+  cpfCnpj: true,
+  status: true,
+  createdAt: true,
+  lastInteractionAt: true,
+  vendedorId: true,
+  stage: { select: { id: true, name: true, color: true } },
+  vendedor: { select: { id: true, name: true } },
+  _count: { select: { interactions: true, calendarEvents: true, formSubmissions: true } },
+} satisfies Prisma.LeadSelect;
+
+export type DuplicateLeadSummary = Prisma.LeadGetPayload<{ select: typeof DUPLICATE_LEAD_SELECT }>;
+
+export interface DuplicateMatchResult {
+  lead: DuplicateLeadSummary;
+  score: number;
+  reasons: LeadDuplicateMatch[];
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// NORMALIZAÇÃO
+// ════════════════════════════════════════════════════════════════════════════
+
+export function normalizeEmail(email?: string | null): string | null {
+  const value = email?.trim().toLowerCase();
+  return value && value.includes('@') ? value : null;
+}
+
+/**
+ * Chave de telefone = DDD + 8 últimos dígitos
+ * (ignora DDI 55, zero de operadora e o nono dígito do celular)
+ */
+export function normalizePhoneKey(phone?: string | null): string | null {
+  let digits = (phone ?? '').replace(/\D/g, '');
+  if (digits.length >= 12 && digits.startsWith('55')) digits = digits.slice(2);
+  digits = digits.replace(/^0+/, '');
+  if (digits.length < 10 || /^(\d)\1+$/.test(digits)) return null;
+  return digits.slice(0, 2) + digits.slice(-8);
+}
+
+export function normalizeDocument(cpfCnpj?: string | null): string | null {
+  const digits = (cpfCnpj ?? '').replace(/\D/g, '');
+  if (digits.length !== 11 && digits.length !== 14) return null;
+  return /^(\d)\1+$/.test(digits) ? null : digits;
+}
+
+function companyTokens(name?: string | null): string[] {
+  return (name ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !COMPANY_STOPWORDS.has(token));
+}
+
+export function normalizeCompanyName(name?: string | null): string | null {
+  const normalized = companyTokens(name).join(' ');
+  if (normalized.length < 4 || PLACEHOLDER_COMPANIES.has(normalized)) return null;
+  return normalized;
+}
+
+/** Coeficiente de Dice sobre bigramas de caracteres (0-1) */
+export function companySimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const bigrams = (value: string) => {
+    const compact = value.replace(/\s+/g, '');
+    const counts = new Map<string, number>();
+    for (let i = 0; i < compact.length - 1; i++) {
+      const pair = compact.slice(i, i + 2);
+      counts.set(pair, (counts.get(pair) ?? 0) + 1);
+    }
+    return { counts, total: Math.max(compact.length - 1, 0) };
+  };
+
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.total === 0 || right.total === 0) return 0;
+
+  let intersection = 0;
+  for (const [pair, count] of left.counts) {
+    intersection += Math.min(count, right.counts.get(pair) ?? 0);
+  }
+  return (2 * intersection) / (left.total + right.total);
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * DEDUPLICAÇÃO DE LEADS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Critérios (normalizados): email, telefone (DDD + 8 dígitos), CPF/CNPJ e
+ * nome da empresa semelhante. Leads GANHO ficam de fora — já viraram cliente
+ * e são cobertos pelo checkDuplicateCnpj.
+ *
+ * - Cron: varre leads com duplicateCheckedAt = null (novos ou com contato
+ *   alterado) e alimenta a fila LeadDuplicateCandidate
+ * - Mesclagem: interações, eventos de agenda, submissões de formulário e
+ *   observações do duplicado passam para o lead principal; o duplicado é
+ *   removido e a operação fica no AuditLog
+ */
+@Injectable()
+export class LeadDuplicateService {
+  private readonly logger = new Logger(LeadDuplicateService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_30_MINUTES, { name: 'lead-duplicates' })
+  async handleDuplicateScan() {
+    try {
+      const leads = await this.prisma.lead.findMany({
+        where: { duplicateCheckedAt: null, status: { not: LeadStatus.GANHO } },
+        orderBy: { createdAt: 'asc' },
+        take: SCAN_BATCH_SIZE,
+        select: { id: true },
+      });
+
+      let flagged = 0;
+      for (const lead of leads) {
+        flagged += await this.scanLead(lead.id);
+      }
+
+      if (flagged > 0) {
+        this.logger.log(`🔁 Duplicados: ${flagged} novo(s) par(es) na fila (${leads.length} lead(s) verificados)`);
+      }
+    } catch (error) {
+      this.logger.error(`❌ Erro na varredura de duplicados: ${error.message}`);
+    }
+  }
+
+  /**
+   * Busca leads que batem com os dados informados (mais prováveis primeiro)
+   */
+  async findMatches(input: DuplicateLookup, excludeLeadId?: string): Promise<DuplicateMatchResult[]> {
+    const email = normalizeEmail(input.email);
+    const phoneKey = normalizePhoneKey(input.phone);
+    const document = normalizeDocument(input.cpfCnpj);
+    const company = normalizeCompanyName(input.companyName);
+
+    // Pré-filtro no banco; a comparação exata (DDD, similaridade) é feita abaixo
+    const conditions: Prisma.Sql[] = [];
+    if (email) conditions.push(Prisma.sql`LOWER(TRIM(l.email)) = ${email}`);
+    if (phoneKey) {
+      conditions.push(Prisma.sql`RIGHT(REGEXP_REPLACE(l.phone, '[^0-9]', '', 'g'), 8) = ${phoneKey.slice(-8)}`);
+    }
+    if (document) conditions.push(Prisma.sql`REGEXP_REPLACE(l."cpfCnpj", '[^0-9]', '', 'g') = ${document}`);
+    if (company) {
+      const longestToken = [...company.split(' ')].sort((a, b) => b.length - a.length)[0];
+      if (longestToken.length >= 4) {
+        conditions.push(
+          Prisma.sql`TRANSLATE(LOWER(l."companyName"), 'áàâãäéèêëíìîïóòôõöúùûüç', 'aaaaaeeeeiiiiooooouuuuc') LIKE ${`%${longestToken}%`}`,
+        );
+      }
+    }
+    if (conditions.length === 0) return [];
+
+    const rows = await this.prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT l.id
+      FROM "Lead" l
+      WHERE l.status <> 'GANHO'
+        ${excludeLeadId ? Prisma.sql`AND l.id <> ${excludeLeadId}` : Prisma.empty}
+        AND (${Prisma.join(conditions, ' OR ')})
+      ORDER BY l."createdAt" ASC
+      LIMIT 50
+    `;
+    if (rows.length === 0) return [];
+
+    const leads = await this.prisma.lead.findMany({
+      where: { id: { in: rows.map((r) => r.id) } },
+      select: DUPLICATE_LEAD_SELECT,
+    });
+
+    const results: DuplicateMatchResult[] = [];
+    for (const lead of leads) {
+      const reasons: LeadDuplicateMatch[] = [];
+      let companyWeight = 0;
+
+      if (document && normalizeDocument(lead.cpfCnpj) === document) reasons.push(LeadDuplicateMatch.CNPJ);
+      if (email && normalizeEmail(lead.email) === email) reasons.push(LeadDuplicateMatch.EMAIL);
+      if (phoneKey && normalizePhoneKey(lead.phone) === phoneKey) reasons.push(LeadDuplicateMatch.PHONE);
+
+      const otherCompany = normalizeCompanyName(lead.companyName);
+      if (company && otherCompany) {
+        const similarity = companySimilarity(company, otherCompany);
+        if (similarity >= COMPANY_SIMILARITY_THRESHOLD) {
+          reasons.push(LeadDuplicateMatch.COMPANY_NAME);
+          companyWeight = Math.round(similarity * MATCH_WEIGHT.COMPANY_NAME);
+        }
+      }
+
+      if (reasons.length === 0) continue;
+
+      const best = Math.max(
+        ...reasons.map((r) => (r === LeadDuplicateMatch.COMPANY_NAME ? companyWeight : MATCH_WEIGHT[r])),
+      );
+      results.push({ lead, reasons, score: Math.min(100, best + 5 * (reasons.length - 1)) });
+    }
+
+    return results.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Lead ABERTO com o mesmo email ou telefone (entrada por canais externos)
+   * Prioriza o contato mais recente
+   */
+  async findOpenLeadByContact(email?: string | null, phone?: string | null): Promise<Lead | null> {
+    const matches = await this.findMatches({ email, phone });
+    const ids = matches
+      .filter((m) => m.lead.status === LeadStatus.ABERTO)
+      .filter((m) => m.reasons.includes(LeadDuplicateMatch.EMAIL) || m.reasons.includes(LeadDuplicateMatch.PHONE))
+      .map((m) => m.lead.id);
+    if (ids.length === 0) return null;
+
+    return this.prisma.lead.findFirst({
+      where: { id: { in: ids } },
+      orderBy: [{ lastInteractionAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+    });
+  }
+
+  /**
+   * Verifica um lead e registra os pares encontrados na fila
+   * @returns quantidade de pares novos
+   */
+  async scanLead(leadId: string): Promise<number> {
+    const lead = await this.prisma.lead.findUnique({
+      where: { id: leadId },
+      select: { id: true, email: true, phone: true, cpfCnpj: true, companyName: true, createdAt: true },
+    });
+    if (!lead) return 0;
+
+    const matches = await this.findMatches(lead, lead.id);
+    let created = 0;
+
+    for (const match of matches) {
+      // Par ordenado: o mais novo aponta para o mais antigo
+      const [newer, older] = match.lead.createdAt > lead.createdAt ? [match.lead.id, lead.id] : [lead.id, match.lead.id];
+
+      const existing = await this.prisma.leadDuplicateCandidate.findUnique({
+        where: { leadId_duplicateOfId: { leadId: newer, duplicateOfId: older } },
+        select: { id: true, status: true },
+      });
+
+      if (!existing) {
+        await this.prisma.leadDuplicateCandidate.create({
+          data: { leadId: newer, duplicateOfId: older, score: match.score, reasons: match.reasons },
+        });
+        created++;
+      } else if (existing.status === LeadDuplicateStatus.PENDING) {
+        await this.prisma.leadDuplicateCandidate.update({
+          where: { id: existing.id },
+          data: { score: match.score, reasons: match.reasons },
+        });
+      }
+    }
+
+    await this.prisma.lead.update({
+      where: { id: lead.id },
+      data: { duplicateCheckedAt: new Date() },
+    });
+
+    return created;
+  }
+
+  /**
+   * Fila de possíveis duplicados
+   * @param vendedorScope - pares com ao menos um lead da equipe (null = todos)
+   */
+  async getQueue(vendedorScope: string[] | null) {
+    const inScope = vendedorScope ? { vendedorId: { in: vendedorScope } } : undefined;
+
+    return this.prisma.leadDuplicateCandidate.findMany({
+      where: {
+        status: LeadDuplicateStatus.PENDING,
+        ...(inScope && { OR: [{ lead: inScope }, { duplicateOf: inScope }] }),
+      },
+      include: {
+        lead: { select: DUPLICATE_LEAD_SELECT },
+        duplicateOf: { select: DUPLICATE_LEAD_SELECT },
+      },
+      orderBy: [{ score: 'desc' }, { createdAt: 'desc' }],
+      take: 200,
+    });
+  }
+
+  async findCandidate(candidateId: string) {
+    const candidate = await this.prisma.leadDuplicateCandidate.findUnique({
+      where: { id: candidateId },
+      include: {
+        lead: { select: { vendedorId: true } },
+        duplicateOf: { select: { vendedorId: true } },
+      },
+    });
+
+    if (!candidate) {
+      throw new NotFoundException(`Par de duplicados ${candidateId} não encontrado`);
+    }
+    return candidate;
+  }
+
+  async dismiss(candidateId: string, currentUserId: string) {
+    return this.prisma.leadDuplicateCandidate.update({
+      where: { id: candidateId },
+      data: {
+        status: LeadDuplicateStatus.DISMISSED,
+        resolvedById: currentUserId,
+        resolvedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Mescla o duplicado no lead principal e remove o duplicado
+   * Histórico de estágios, atribuições e prazos de SLA do duplicado não são
+   * transferidos (pertencem à trajetória dele no funil)
+   */
+  async merge(survivorId: string, duplicateId: string, currentUserId: string) {
+    if (survivorId === duplicateId) {
+      throw new BadRequestException('Selecione dois leads diferentes para mesclar');
+    }
+
+    const [survivor, duplicate] = await Promise.all([
+      this.prisma.lead.findUnique({ where: { id: survivorId } }),
+      this.prisma.lead.findUnique({
+        where: { id: duplicateId },
+        include: {
+          convertedToClient: { select: { id: true } },
+          _count: { select: { interactions: true, calendarEvents: true, formSubmissions: true } },
+        },
+      }),
+    ]);
+
+    if (!survivor) throw new NotFoundException(`Lead ${survivorId} não encontrado`);
+    if (!duplicate) throw new NotFoundException(`Lead ${duplicateId} não encontrado`);
+
+    if (duplicate.status === LeadStatus.GANHO || duplicate.convertedToClient) {
+      throw new BadRequestException(
+        'O lead duplicado já foi convertido em cliente — mantenha-o como lead principal',
+      );
+    }
+
+    const mergedAt = new Date();
+    const label = duplicate.companyName || duplicate.name;
+    const header = `--- Mesclado de ${label} (${duplicate.email}) em ${mergedAt.toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' })} ---`;
+    const notes = duplicate.notes?.trim()
+      ? [survivor.notes?.trim(), `${header}\n${duplicate.notes.trim()}`].filter(Boolean).join('\n\n')
+      : survivor.notes;
+
+    const lastInteractionAt = [survivor.lastInteractionAt, duplicate.lastInteractionAt]
+      .filter((d): d is Date => !!d)
+      .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.interaction.updateMany({ where: { leadId: duplicate.id }, data: { leadId: survivor.id } });
+      await tx.calendarEvent.updateMany({ where: { leadId: duplicate.id }, data: { leadId: survivor.id } });
+      await tx.formSubmission.updateMany({ where: { leadId: duplicate.id }, data: { leadId: survivor.id } });
+      await tx.inboundEmail.updateMany({ where: { leadId: duplicate.id }, data: { leadId: survivor.id } });
+      await tx.outboundEmail.updateMany({ where: { leadId: duplicate.id }, data: { leadId: survivor.id } });
+
+      await tx.lead.update({
+        where: { id: survivor.id },
+        data: {
+          ...this.fillMissingFields(survivor, duplicate),
+          notes,
+          lastInteractionAt,
+          duplicateCheckedAt: null,
+        },
+      });
+
+      await tx.interaction.create({
+        data: {
+          leadId: survivor.id,
+          userId: currentUserId,
+          type: InteractionType.NOTE,
+          title: 'Lead mesclado',
+          content: `${label} (${duplicate.email} · ${duplicate.phone}) foi mesclado neste lead: ${duplicate._count.interactions} interação(ões), ${duplicate._count.calendarEvents} evento(s) e ${duplicate._count.formSubmissions} submissão(ões) transferidos.`,
+        },
+      });
+
+      await tx.lead.delete({ where: { id: duplicate.id } });
+    });
+
+    await this.auditService.log({
+      userId: currentUserId,
+      action: 'MERGE',
+      entity: 'Lead',
+      entityId: survivor.id,
+      oldData: {
+        id: duplicate.id,
+        name: duplicate.name,
+        email: duplicate.email,
+        phone: duplicate.phone,
+        companyName: duplicate.companyName,
+        cpfCnpj: duplicate.cpfCnpj,
+        vendedorId: duplicate.vendedorId,
+        status: duplicate.status,
+        createdAt: duplicate.createdAt,
+      },
+      newData: { survivorId: survivor.id, moved: duplicate._count },
+    });
+
+    this.logger.log(`🔀 Lead ${duplicate.id} (${label}) mesclado em ${survivor.id}`);
+  }
+
+  /** Campos vazios (ou de preenchimento) do principal herdam o valor do duplicado */
+  private fillMissingFields(survivor: Lead, duplicate: Lead): Prisma.LeadUncheckedUpdateInput {
+    const data: Prisma.LeadUncheckedUpdateInput = {};
+
+    if (!normalizePhoneKey(survivor.phone) && normalizePhoneKey(duplicate.phone)) data.phone = duplicate.phone;
+    if (!normalizeDocument(survivor.cpfCnpj) && normalizeDocument(duplicate.cpfCnpj)) data.cpfCnpj = duplicate.cpfCnpj;
+    if (!normalizeCompanyName(survivor.companyName) && normalizeCompanyName(duplicate.companyName)) {
+      data.companyName = duplicate.companyName;
+    }
+
+    const optionalFields = [
+      'role',
+      'instagram',
+      'facebook',
+      'city',
+      'numberOfUnits',
+      'chatContactId',
+      'interestPlanId',
+      'expectedRevenue',
+    ] as const;
+    for (const field of optionalFields) {
+      if ((survivor[field] === null || survivor[field] === '') && duplicate[field] !== null) {
+        (data as any)[field] = duplicate[field];
+      }
+    }
+
+    // Plano de interesse só vale para o mesmo produto
+    if (data.interestPlanId && survivor.interestProduct !== duplicate.interestProduct) {
+      delete data.interestPlanId;
+    }
+
+    return data;
+  }
+}
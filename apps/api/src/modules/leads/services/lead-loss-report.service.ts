@@ -0,0 +1,133 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '@/prisma/prisma.service';
+import { LeadStatus, Prisma } from '@prisma/client';
+import { FunnelReportFilters, resolveReportPeriod } from './lead-stage-history.service';
+
+const LOST_STAGE = 'Perdido';
+
+interface LossAccumulator {
+  key: string;
+  name: string;
+  color?: string;
+  count: number;
+  revenue: number;
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * ANÁLISE DE PERDAS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Considera leads PERDIDOS cuja perda ocorreu no período:
+ * - Data da perda = última entrada no estágio "Perdido" (fallback: updatedAt)
+ * - Estágio em que perdeu = estágio de origem dessa transição
+ * - Receita perdida = expectedRevenue ou, na falta, MRR do plano de interesse
+ */
+@Injectable()
+export class LeadLossReportService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * @param filters - Período (data da perda) e recortes opcionais
+   * @param vendedorScope - IDs visíveis para o usuário (null = sem restrição)
+   */
+  async getLossReport(filters: FunnelReportFilters, vendedorScope: string[] | null) {
+    const { from, to } = resolveReportPeriod(filters);
+
+    // Pré-filtro amplo (updatedAt >= início); a data exata da perda é conferida abaixo
+    const where: Prisma.LeadWhereInput = {
+      status: LeadStatus.PERDIDO,
+      updatedAt: { gte: from },
+    };
+    if (filters.originId) where.originId = filters.originId;
+    if (filters.productType) where.interestProduct = filters.productType;
+    if (vendedorScope) {
+      where.vendedorId = filters.vendedorId && vendedorScope.includes(filters.vendedorId)
+        ? filters.vendedorId
+        : { in: vendedorScope };
+    } else if (filters.vendedorId) {
+      where.vendedorId = filters.vendedorId;
+    }
+
+    const leads = await this.prisma.lead.findMany({
+      where,
+      select: {
+        id: true,
+        expectedRevenue: true,
+        updatedAt: true,
+        vendedor: { select: { id: true, name: true } },
+        lossReason: { select: { id: true, name: true } },
+        interestPlan: { select: { priceMonthly: true } },
+        stage: { select: { id: true, name: true, color: true } },
+        stageHistory: {
+          where: { toStage: { name: LOST_STAGE } },
+          orderBy: { changedAt: 'desc' },
+          take: 1,
+          select: {
+            changedAt: true,
+            fromStage: { select: { id: true, name: true, color: true } },
+          },
+        },
+      },
+    });
+
+    const byReason = new Map<string, LossAccumulator>();
+    const byStage = new Map<string, LossAccumulator>();
+    const byVendedor = new Map<string, LossAccumulator>();
+    let totalLost = 0;
+    let lostRevenue = 0;
+
+    for (const lead of leads) {
+      const lossEntry = lead.stageHistory[0];
+      const lostAt = lossEntry?.changedAt ?? lead.updatedAt;
+      if (lostAt < from || lostAt > to) continue;
+
+      const revenue = Number(lead.expectedRevenue ?? lead.interestPlan?.priceMonthly ?? 0);
+      // Perdas sem histórico (legado ou marcadas fora do funil) ficam no estágio atual
+      const stage = lossEntry?.fromStage ?? lead.stage;
+
+      const groups: Array<[Map<string, LossAccumulator>, string, string, string?]> = [
+        [byReason, lead.lossReason?.id ?? 'none', lead.lossReason?.name ?? 'Sem motivo'],
+        [byStage, stage.id, stage.name, stage.color],
+        [byVendedor, lead.vendedor?.id ?? 'none', lead.vendedor?.name ?? 'Sem vendedor'],
+      ];
+
+      for (const [map, key, name, color] of groups) {
+        const acc = map.get(key) ?? { key, name, color, count: 0, revenue: 0 };
+        acc.count++;
+        acc.revenue += revenue;
+        map.set(key, acc);
+      }
+
+      totalLost++;
+      lostRevenue += revenue;
+    }
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      totalLost,
+      lostRevenue: this.round(lostRevenue),
+      byReason: this.toRows(byReason, totalLost),
+      byStage: this.toRows(byStage, totalLost),
+      byVendedor: this.toRows(byVendedor, totalLost),
+    };
+  }
+
+  private toRows(map: Map<string, LossAccumulator>, total: number) {
+    return [...map.values()]
+      .map((acc) => ({
+        key: acc.key,
+        name: acc.name,
+        color: acc.color ?? null,
+        count: acc.count,
+        share: total > 0 ? this.round((acc.count / total) * 100) : 0,
+        revenue: this.round(acc.revenue),
+      }))
+      .sort((a, b) => b.revenue - a.revenue || b.count - a.count);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -14,7 +14,7 @@ import { Lead, Plan, LeadOrigin, FunnelStage, NotificationType } from '@prisma/c
  * - Stage Score (0-60 pontos): Progresso no funil (DINÂMICO)
  *
  * FÓRMULA:
- * Score Final = Base Score + Stage Score
+ * Score Final = Base Score + Stage Score (+ ajuste das respostas do formulário, -20 a +20)
  * Stage Score = (ordem_atual / ordem_máxima) × 60
  *
  * VANTAGENS:
@@ -37,6 +37,9 @@ export interface ScoreFactors {
 
   // STAGE SCORE (0-60 pontos)
   stageProgress: number; // 0-60 pontos (posição no funil - DINÂMICO)
+
+  // AJUSTE (-20 a +20 pontos)
+  formAnswers: number; // regras de pontuação das respostas do formulário de captura
 }
 
 interface LeadWithRelations extends Lead {
@@ -129,9 +132,13 @@ export class LeadScoreService implements OnModuleInit {
 
       // STAGE SCORE (0-60 pontos) - DINÂMICO baseado em order
       stageProgress: await this.calculateStageProgress(lead.stage),
+
+      // AJUSTE (-20 a +20 pontos) - gravado na submissão do formulário
+      formAnswers: lead.formScoreBonus ?? 0,
     };
 
-    const score = Math.min(100, Math.round(Object.values(factors).reduce((a, b) => a + b, 0)));
+    const total = Math.round(Object.values(factors).reduce((a, b) => a + b, 0));
+    const score = Math.max(0, Math.min(100, total));
 
     this.logger.debug(`📊 Lead Score calculado para ${lead.id}: ${score}%`);
     this.logger.debug(`   Fatores: ${JSON.stringify(factors)}`);
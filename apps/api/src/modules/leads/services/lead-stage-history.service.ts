@@ -0,0 +1,324 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '@/prisma/prisma.service';
+import { LeadStatus, Prisma, ProductType } from '@prisma/client';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/** Estágios terminais — mesmos nomes usados na sincronização status ↔ stage */
+const WON_STAGE = 'Ganho';
+const LOST_STAGE = 'Perdido';
+
+export interface RecordStageChangeInput {
+  leadId: string;
+  fromStageId: string | null;
+  toStageId: string;
+  changedById?: string | null;
+}
+
+export interface FunnelReportFilters {
+  from?: string;
+  to?: string;
+  vendedorId?: string;
+  originId?: string;
+  productType?: ProductType;
+}
+
+/**
+ * Período dos relatórios (datas em BRT); padrão = últimos 90 dias
+ */
+export function resolveReportPeriod(filters: Pick<FunnelReportFilters, 'from' | 'to'>) {
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999-03:00`) : new Date();
+  const from = filters.from
+    ? new Date(`${filters.from}T00:00:00-03:00`)
+    : new Date(to.getTime() - 90 * DAY_SECONDS * 1000);
+  return { from, to };
+}
+
+interface VelocityAccumulator {
+  key: string;
+  name: string;
+  leads: number;
+  won: number;
+  lost: number;
+  dealValue: number;
+  cycleDays: number;
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * HISTÓRICO DE ESTÁGIOS DO LEAD
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Cada mudança de coluna no funil grava uma linha em LeadStageHistory
+ * (quem, de onde, para onde, quando e quanto tempo ficou no estágio anterior).
+ *
+ * RELATÓRIOS (coorte = leads criados no período):
+ * - Tempo médio por estágio: média/mediana de timeInStageSeconds das saídas
+ * - Conversão estágio → estágio: leads que alcançaram o próximo estágio
+ *   (pular colunas conta como ter passado pelas anteriores)
+ * - Velocidade do funil: (leads × win rate × ticket médio) / ciclo médio,
+ *   em R$/dia, por vendedor, origem e produto
+ */
+@Injectable()
+export class LeadStageHistoryService {
+  private readonly logger = new Logger(LeadStageHistoryService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Registra a transição de estágio (no-op se o estágio não mudou)
+   * Aceita o client da transação para gravar junto com o update do lead
+   */
+  async record(
+    input: RecordStageChangeInput,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    if (input.fromStageId === input.toStageId) return;
+
+    const now = new Date();
+    let timeInStageSeconds: number | null = null;
+
+    if (input.fromStageId) {
+      // Entrada no estágio atual = última transição; leads antigos caem no createdAt
+      const lastEntry = await client.leadStageHistory.findFirst({
+        where: { leadId: input.leadId },
+        orderBy: { changedAt: 'desc' },
+        select: { changedAt: true },
+      });
+      const enteredAt =
+        lastEntry?.changedAt ??
+        (await client.lead.findUnique({ where: { id: input.leadId }, select: { createdAt: true } }))?.createdAt;
+
+      if (enteredAt) {
+        timeInStageSeconds = Math.max(0, Math.round((now.getTime() - enteredAt.getTime()) / 1000));
+      }
+    }
+
+    await client.leadStageHistory.create({
+      data: {
+        leadId: input.leadId,
+        fromStageId: input.fromStageId,
+        toStageId: input.toStageId,
+        changedById: input.changedById ?? null,
+        timeInStageSeconds,
+        changedAt: now,
+      },
+    });
+
+    this.logger.debug(`📈 Lead ${input.leadId}: ${input.fromStageId ?? '∅'} → ${input.toStageId}`);
+  }
+
+  /**
+   * Linha do tempo de estágios do lead (mais recente primeiro)
+   */
+  async getTimeline(leadId: string) {
+    return this.prisma.leadStageHistory.findMany({
+      where: { leadId },
+      orderBy: { changedAt: 'desc' },
+      select: {
+        id: true,
+        changedAt: true,
+        timeInStageSeconds: true,
+        fromStage: { select: { id: true, name: true, color: true } },
+        toStage: { select: { id: true, name: true, color: true } },
+        changedBy: { select: { id: true, name: true } },
+      },
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // RELATÓRIO DO FUNIL
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Tempo por estágio, conversão entre estágios e velocidade do funil
+   *
+   * @param filters - Período (criação do lead) e recortes opcionais
+   * @param vendedorScope - IDs visíveis para o usuário (null = sem restrição)
+   */
+  async getFunnelReport(filters: FunnelReportFilters, vendedorScope: string[] | null) {
+    const { from, to } = resolveReportPeriod(filters);
+
+    const where: Prisma.LeadWhereInput = { createdAt: { gte: from, lte: to } };
+    if (filters.originId) where.originId = filters.originId;
+    if (filters.productType) where.interestProduct = filters.productType;
+    if (vendedorScope) {
+      where.vendedorId = filters.vendedorId && vendedorScope.includes(filters.vendedorId)
+        ? filters.vendedorId
+        : { in: vendedorScope };
+    } else if (filters.vendedorId) {
+      where.vendedorId = filters.vendedorId;
+    }
+
+    const [stages, leads] = await Promise.all([
+      this.prisma.funnelStage.findMany({ orderBy: { order: 'asc' } }),
+      this.prisma.lead.findMany({
+        where,
+        select: {
+          id: true,
+          stageId: true,
+          status: true,
+          interestProduct: true,
+          expectedRevenue: true,
+          createdAt: true,
+          convertedAt: true,
+          vendedor: { select: { id: true, name: true } },
+          origin: { select: { id: true, name: true } },
+          interestPlan: { select: { priceMonthly: true } },
+          stageHistory: {
+            orderBy: { changedAt: 'asc' },
+            select: { fromStageId: true, toStageId: true, timeInStageSeconds: true, changedAt: true },
+          },
+        },
+      }),
+    ]);
+
+    const wonStage = stages.find((s) => s.name === WON_STAGE);
+    const lostStage = stages.find((s) => s.name === LOST_STAGE);
+
+    // ─── Tempo por estágio ───────────────────────────────────────────────────
+    const durations = new Map<string, number[]>();
+    const currentCount = new Map<string, number>();
+
+    for (const lead of leads) {
+      for (const entry of lead.stageHistory) {
+        if (!entry.fromStageId || entry.timeInStageSeconds === null) continue;
+        const list = durations.get(entry.fromStageId) ?? [];
+        list.push(entry.timeInStageSeconds);
+        durations.set(entry.fromStageId, list);
+      }
+      if (lead.status === LeadStatus.ABERTO) {
+        currentCount.set(lead.stageId, (currentCount.get(lead.stageId) ?? 0) + 1);
+      }
+    }
+
+    const timeInStage = stages
+      .filter((s) => s.id !== wonStage?.id && s.id !== lostStage?.id)
+      .map((stage) => {
+        const values = durations.get(stage.id) ?? [];
+        return {
+          stageId: stage.id,
+          name: stage.name,
+          color: stage.color,
+          exits: values.length,
+          avgDays: values.length ? this.toDays(values.reduce((sum, v) => sum + v, 0) / values.length) : null,
+          medianDays: values.length ? this.toDays(this.median(values)) : null,
+          currentLeads: currentCount.get(stage.id) ?? 0,
+        };
+      });
+
+    // ─── Conversão estágio → estágio ─────────────────────────────────────────
+    // Sequência = estágios ativos em ordem + Ganho no fim (Perdido fica de fora)
+    const pipeline = [
+      ...stages.filter((s) => s.isActive && s.id !== wonStage?.id && s.id !== lostStage?.id),
+      ...(wonStage ? [wonStage] : []),
+    ];
+    const position = new Map(pipeline.map((s, index) => [s.id, index]));
+    const reached = new Array<number>(pipeline.length).fill(0);
+
+    for (const lead of leads) {
+      let furthest = lead.status === LeadStatus.GANHO ? pipeline.length - 1 : -1;
+      for (const stageId of [lead.stageId, ...lead.stageHistory.map((e) => e.toStageId)]) {
+        furthest = Math.max(furthest, position.get(stageId) ?? -1);
+      }
+      // Todo lead entra no funil pelo menos no primeiro estágio
+      for (let i = 0; i <= Math.max(furthest, 0) && i < pipeline.length; i++) reached[i]++;
+    }
+
+    const conversion = pipeline.map((stage, index) => ({
+      stageId: stage.id,
+      name: stage.name,
+      color: stage.color,
+      reached: reached[index],
+      conversionToNext:
+        index < pipeline.length - 1 && reached[index] > 0
+          ? this.round((reached[index + 1] / reached[index]) * 100)
+          : null,
+    }));
+
+    // ─── Velocidade por vendedor, origem e produto ───────────────────────────
+    const byVendedor = new Map<string, VelocityAccumulator>();
+    const byOrigin = new Map<string, VelocityAccumulator>();
+    const byProduct = new Map<string, VelocityAccumulator>();
+
+    for (const lead of leads) {
+      const won = lead.status === LeadStatus.GANHO;
+      const wonAt = won
+        ? lead.convertedAt ??
+          [...lead.stageHistory].reverse().find((e) => e.toStageId === wonStage?.id)?.changedAt ??
+          null
+        : null;
+      const dealValue = Number(lead.expectedRevenue ?? lead.interestPlan?.priceMonthly ?? 0);
+      const cycleDays = wonAt ? Math.max(0, (wonAt.getTime() - lead.createdAt.getTime()) / (DAY_SECONDS * 1000)) : 0;
+
+      const groups: Array<[Map<string, VelocityAccumulator>, string, string]> = [
+        [byVendedor, lead.vendedor?.id ?? 'none', lead.vendedor?.name ?? 'Sem vendedor'],
+        [byOrigin, lead.origin.id, lead.origin.name],
+        [byProduct, lead.interestProduct, lead.interestProduct],
+      ];
+
+      for (const [map, key, name] of groups) {
+        const acc = map.get(key) ?? { key, name, leads: 0, won: 0, lost: 0, dealValue: 0, cycleDays: 0 };
+        acc.leads++;
+        if (won) {
+          acc.won++;
+          acc.dealValue += dealValue;
+          acc.cycleDays += cycleDays;
+        } else if (lead.status === LeadStatus.PERDIDO) {
+          acc.lost++;
+        }
+        map.set(key, acc);
+      }
+    }
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      totalLeads: leads.length,
+      timeInStage,
+      conversion,
+      velocity: {
+        vendedor: this.toVelocityRows(byVendedor),
+        origin: this.toVelocityRows(byOrigin),
+        product: this.toVelocityRows(byProduct),
+      },
+    };
+  }
+
+  private toVelocityRows(map: Map<string, VelocityAccumulator>) {
+    return [...map.values()]
+      .map((acc) => {
+        const winRate = acc.leads > 0 ? acc.won / acc.leads : 0;
+        const avgDealValue = acc.won > 0 ? acc.dealValue / acc.won : 0;
+        // Ciclo mínimo de 1 dia para não explodir a velocidade de fechamentos no mesmo dia
+        const avgCycleDays = acc.won > 0 ? Math.max(acc.cycleDays / acc.won, 1) : null;
+
+        return {
+          key: acc.key,
+          name: acc.name,
+          leads: acc.leads,
+          won: acc.won,
+          lost: acc.lost,
+          winRate: this.round(winRate * 100),
+          avgDealValue: this.round(avgDealValue),
+          avgCycleDays: avgCycleDays !== null ? this.round(avgCycleDays) : null,
+          velocity: avgCycleDays ? this.round((acc.leads * winRate * avgDealValue) / avgCycleDays) : null,
+        };
+      })
+      .sort((a, b) => (b.velocity ?? -1) - (a.velocity ?? -1) || b.leads - a.leads);
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  }
+
+  private toDays(seconds: number): number {
+    return this.round(seconds / DAY_SECONDS);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { CreateLossReasonSchema } from './create-loss-reason.dto';
+
+// Update: todos os campos opcionais (isActive ativa/desativa)
+export const UpdateLossReasonSchema = CreateLossReasonSchema.partial();
+
+export type UpdateLossReasonDto = z.infer<typeof UpdateLossReasonSchema>;
@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { LossReasonsService } from './loss-reasons.service';
+import { CreateLossReasonDto, CreateLossReasonSchema } from './dto/create-loss-reason.dto';
+import { UpdateLossReasonDto, UpdateLossReasonSchema } from './dto/update-loss-reason.dto';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { UserRole, Module } from '@prisma/client';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+
+/**
+ * Loss Reasons Controller
+ * Endpoints para gerenciar motivos de perda de leads
+ *
+ * PERMISSÕES:
+ * - GET: TODOS usuários autenticados (select do "Marcar Perdido")
+ * - POST/PUT: SUPERADMIN ou ADMINISTRATIVO
+ * - DELETE: Apenas SUPERADMIN
+ */
+@Controller('loss-reasons')
+export class LossReasonsController {
+  constructor(private readonly lossReasonsService: LossReasonsService) {}
+
+  /**
+   * GET /loss-reasons?includeInactive=true
+   * Lista motivos (inativos apenas sob demanda, para Configurações)
+   */
+  @Get()
+  async findAll(@Query('includeInactive') includeInactive?: string) {
+    return this.lossReasonsService.findAll(includeInactive === 'true');
+  }
+
+  /**
+   * GET /loss-reasons/:id
+   */
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.lossReasonsService.findOne(id);
+  }
+
+  /**
+   * POST /loss-reasons
+   * Cria motivo de perda
+   */
+  @Post()
+  @RequirePermission(Module.SETTINGS, 'create')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async create(@Body(new ZodValidationPipe(CreateLossReasonSchema)) dto: CreateLossReasonDto) {
+    return this.lossReasonsService.create(dto);
+  }
+
+  /**
+   * PUT /loss-reasons/:id
+   * Atualiza nome/descrição ou ativa/desativa (isActive)
+   */
+  @Put(':id')
+  @RequirePermission(Module.SETTINGS, 'edit')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async update(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(UpdateLossReasonSchema)) dto: UpdateLossReasonDto,
+  ) {
+    return this.lossReasonsService.update(id, dto);
+  }
+
+  /**
+   * DELETE /loss-reasons/:id
+   * Remove motivo sem leads vinculados
+   */
+  @Delete(':id')
+  @RequirePermission(Module.SETTINGS, 'delete')
+  @Roles(UserRole.SUPERADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string) {
+    await this.lossReasonsService.remove(id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { LossReasonsService } from './loss-reasons.service';
+import { LossReasonsController } from './loss-reasons.controller';
+import { PrismaModule } from '@/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [LossReasonsController],
+  providers: [LossReasonsService],
+  exports: [LossReasonsService],
+})
+export class LossReasonsModule {}
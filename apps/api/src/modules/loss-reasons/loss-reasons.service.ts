@@ -0,0 +1,114 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '@/prisma/prisma.service';
+import { CreateLossReasonDto } from './dto/create-loss-reason.dto';
+import { UpdateLossReasonDto } from './dto/update-loss-reason.dto';
+
+/**
+ * Loss Reasons Service
+ * Gerencia os motivos de perda usados ao marcar um lead como PERDIDO
+ *
+ * EXCLUSÃO:
+ * - Motivo sem leads vinculados → removido
+ * - Motivo já usado → apenas desativado (preserva o relatório de perdas)
+ */
+@Injectable()
+export class LossReasonsService {
+  private readonly logger = new Logger(LossReasonsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Listar motivos (apenas ativos por padrão)
+   */
+  async findAll(includeInactive = false) {
+    return this.prisma.lossReason.findMany({
+      where: includeInactive ? undefined : { isActive: true },
+      orderBy: { name: 'asc' },
+      include: {
+        _count: { select: { leads: true } },
+      },
+    });
+  }
+
+  /**
+   * Buscar motivo por ID
+   */
+  async findOne(id: string) {
+    const reason = await this.prisma.lossReason.findUnique({
+      where: { id },
+      include: {
+        _count: { select: { leads: true } },
+      },
+    });
+
+    if (!reason) {
+      throw new NotFoundException(`Motivo de perda ${id} não encontrado`);
+    }
+
+    return reason;
+  }
+
+  /**
+   * Criar motivo de perda
+   */
+  async create(dto: CreateLossReasonDto) {
+    await this.ensureUniqueName(dto.name);
+
+    const reason = await this.prisma.lossReason.create({ data: dto });
+
+    this.logger.log(`✅ Motivo de perda criado: ${reason.name}`);
+    return reason;
+  }
+
+  /**
+   * Atualizar motivo (inclui ativar/desativar)
+   */
+  async update(id: string, dto: UpdateLossReasonDto) {
+    const existing = await this.findOne(id);
+
+    if (dto.name && dto.name !== existing.name) {
+      await this.ensureUniqueName(dto.name);
+    }
+
+    const updated = await this.prisma.lossReason.update({
+      where: { id },
+      data: dto,
+    });
+
+    this.logger.log(`✅ Motivo de perda atualizado: ${updated.name}${updated.isActive ? '' : ' (inativo)'}`);
+    return updated;
+  }
+
+  /**
+   * Remover motivo
+   * IMPORTANTE: Motivos já usados em leads não são removidos — desative-os
+   */
+  async remove(id: string) {
+    const reason = await this.findOne(id);
+
+    if (reason._count.leads > 0) {
+      throw new ConflictException(
+        `Motivo "${reason.name}" está vinculado a ${reason._count.leads} lead(s). Desative-o em vez de remover.`,
+      );
+    }
+
+    await this.prisma.lossReason.delete({ where: { id } });
+
+    this.logger.warn(`⚠️ Motivo de perda removido: ${reason.name}`);
+  }
+
+  private async ensureUniqueName(name: string) {
+    const conflict = await this.prisma.lossReason.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+    });
+
+    if (conflict) {
+      throw new ConflictException(`Motivo de perda "${name}" já existe`);
+    }
+  }
+}
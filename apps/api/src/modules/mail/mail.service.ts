@@ -264,6 +264,10 @@ export class MailService {
       NEW_LEAD:              '🎯',
       LEAD_ASSIGNED:         '👤',
       LEAD_CONVERTED:        '✅',
+      LEAD_SLA_BREACH:       '⏱️',
+      LEAD_SLA_ESCALATED:    '📣',
+      LEAD_EMAIL_RECEIVED:   '📧',
+      EMAIL_BOUNCED:         '↩️',
       AI_CHURN_ALERT:        '🔴',
       AI_OPPORTUNITY:        '⚡',
       AI_LEAD_SCORE:         '📊',
@@ -362,6 +366,208 @@ export class MailService {
     }
   }
 
+  /**
+   * Envia lembrete de cobrança vencida ao cliente (régua de cobrança)
+   * Retorna false se o envio falhar — o passo é registrado como FAILED
+   */
+  async sendPaymentReminderEmail(params: {
+    to: string;
+    name: string;
+    company: string;
+    amount: number;
+    dueDate: Date;
+    daysOverdue: number;
+    message?: string | null;
+  }): Promise<boolean> {
+    const { to, name, company, amount, dueDate, daysOverdue, message } = params;
+    const fromAddress = this.config.get('SMTP_FROM', 'Gestor Nexus <contato@nexusatemporal.com.br>');
+
+    const valor = amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+    const vencimento = new Intl.DateTimeFormat('pt-BR', { timeZone: 'America/Sao_Paulo' }).format(dueDate);
+    const body =
+      message ||
+      `Identificamos que a cobrança de <strong>${valor}</strong> referente à assinatura de <strong>${company}</strong>, ` +
+        `com vencimento em ${vencimento}, está em aberto há ${daysOverdue} dia(s). ` +
+        `Caso o pagamento já tenha sido feito, por favor desconsidere esta mensagem.`;
+
+    const html = `
+<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Lembrete de pagamento</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f4f5;font-family:'Segoe UI',Arial,sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background:#f4f4f5;padding:40px 0;">
+    <tr>
+      <td align="center">
+        <table width="560" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:16px;overflow:hidden;box-shadow:0 4px 24px rgba(0,0,0,0.08);">
+          <tr>
+            <td style="background:linear-gradient(135deg,#FF7300,#cc5a00);padding:32px 40px;text-align:center;">
+              <h1 style="margin:0;color:#ffffff;font-size:24px;font-weight:800;">Nexus Atemporal</h1>
+              <p style="margin:6px 0 0;color:rgba(255,255,255,0.8);font-size:12px;letter-spacing:1px;text-transform:uppercase;">Lembrete de pagamento</p>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:32px 40px;">
+              <p style="margin:0 0 20px;color:#71717a;font-size:14px;">Olá, <strong>${name}</strong>!</p>
+              <div style="background:#FEF2F2;border:1px solid #FECACA;border-radius:12px;padding:20px 24px;">
+                <p style="margin:0 0 4px;color:#DC2626;font-size:11px;font-weight:700;text-transform:uppercase;letter-spacing:0.5px;">⚠️ ${valor} · vencido em ${vencimento}</p>
+                <p style="margin:8px 0 0;color:#52525b;font-size:14px;line-height:1.6;">${body}</p>
+              </div>
+            </td>
+          </tr>
+          <tr>
+            <td style="background:#f4f4f5;padding:16px 40px;text-align:center;border-top:1px solid #e4e4e7;">
+              <p style="margin:0;color:#a1a1aa;font-size:12px;">© ${new Date().getFullYear()} Nexus Atemporal</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+    try {
+      await this.transporter.sendMail({
+        from: fromAddress,
+        to,
+        subject: `⚠️ Pagamento em aberto — ${company}`,
+        html,
+      });
+      this.logger.log(`Lembrete de cobrança enviado para ${to} (D+${daysOverdue})`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Falha ao enviar lembrete de cobrança para ${to}: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Envia a segunda via de uma cobrança em aberto (link do boleto/fatura e PIX copia e cola)
+   * Retorna false se o envio falhar
+   */
+  async sendPaymentCopyEmail(params: {
+    to: string;
+    name: string;
+    company: string;
+    amount: number;
+    dueDate: Date | null;
+    invoiceUrl: string | null;
+    bankSlipUrl?: string | null;
+    pixQrCode?: string | null;
+  }): Promise<boolean> {
+    const { to, name, company, amount, dueDate, invoiceUrl, bankSlipUrl, pixQrCode } = params;
+    const fromAddress = this.config.get('SMTP_FROM', 'Gestor Nexus <contato@nexusatemporal.com.br>');
+
+    const valor = amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+    const vencimento = dueDate
+      ? new Intl.DateTimeFormat('pt-BR', { timeZone: 'America/Sao_Paulo' }).format(dueDate)
+      : null;
+
+    const button = (href: string, label: string) =>
+      `<a href="${href}" style="display:inline-block;margin:8px 8px 0 0;padding:12px 24px;background:#FF7300;color:#ffffff;text-decoration:none;border-radius:10px;font-size:14px;font-weight:600;">${label}</a>`;
+
+    const html = `
+<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Segunda via</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f4f5;font-family:'Segoe UI',Arial,sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background:#f4f4f5;padding:40px 0;">
+    <tr>
+      <td align="center">
+        <table width="560" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:16px;overflow:hidden;box-shadow:0 4px 24px rgba(0,0,0,0.08);">
+          <tr>
+            <td style="background:linear-gradient(135deg,#FF7300,#cc5a00);padding:32px 40px;text-align:center;">
+              <h1 style="margin:0;color:#ffffff;font-size:24px;font-weight:800;">Nexus Atemporal</h1>
+              <p style="margin:6px 0 0;color:rgba(255,255,255,0.8);font-size:12px;letter-spacing:1px;text-transform:uppercase;">Segunda via de cobrança</p>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:32px 40px;">
+              <p style="margin:0 0 20px;color:#71717a;font-size:14px;">Olá, <strong>${name}</strong>!</p>
+              <p style="margin:0 0 16px;color:#52525b;font-size:14px;line-height:1.6;">
+                Segue a segunda via da cobrança de <strong>${valor}</strong> referente à assinatura de <strong>${company}</strong>${vencimento ? `, com vencimento em ${vencimento}` : ''}.
+              </p>
+              ${invoiceUrl ? button(invoiceUrl, 'Ver fatura') : ''}${bankSlipUrl ? button(bankSlipUrl, 'Baixar boleto') : ''}
+              ${
+                pixQrCode
+                  ? `<div style="margin-top:24px;background:#f4f4f5;border-radius:12px;padding:16px 20px;">
+                <p style="margin:0 0 8px;color:#71717a;font-size:11px;font-weight:700;text-transform:uppercase;letter-spacing:0.5px;">PIX copia e cola</p>
+                <p style="margin:0;color:#3f3f46;font-size:12px;font-family:monospace;word-break:break-all;">${pixQrCode}</p>
+              </div>`
+                  : ''
+              }
+              <p style="margin:24px 0 0;color:#a1a1aa;font-size:12px;">Caso o pagamento já tenha sido feito, por favor desconsidere esta mensagem.</p>
+            </td>
+          </tr>
+          <tr>
+            <td style="background:#f4f4f5;padding:16px 40px;text-align:center;border-top:1px solid #e4e4e7;">
+              <p style="margin:0;color:#a1a1aa;font-size:12px;">© ${new Date().getFullYear()} Nexus Atemporal</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+    try {
+      await this.transporter.sendMail({
+        from: fromAddress,
+        to,
+        subject: `Segunda via da cobrança — ${company}`,
+        html,
+      });
+      this.logger.log(`Segunda via enviada para ${to}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Falha ao enviar segunda via para ${to}: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Envia e-mail do vendedor para lead/cliente (e-mails do CRM)
+   * Remetente: endereço do SMTP_FROM com o nome do vendedor (o SMTP só aceita o endereço autenticado)
+   * Lança erro se o SMTP recusar — o envio é registrado como FAILED. Retorna o Message-ID gerado.
+   */
+  async sendCrmEmail(params: {
+    to: string;
+    fromName: string;
+    replyTo?: string;
+    subject: string;
+    html: string;
+    text: string;
+  }): Promise<string> {
+    const { to, fromName, replyTo, subject, html, text } = params;
+    const fromAddress: string = this.config.get('SMTP_FROM', 'Gestor Nexus <contato@nexusatemporal.com.br>');
+    const address = fromAddress.match(/<([^>]+)>/)?.[1] ?? fromAddress;
+
+    const info = await this.transporter.sendMail({
+      from: { name: fromName, address },
+      to,
+      replyTo,
+      subject,
+      html,
+      text,
+    });
+
+    if (info.rejected?.length) {
+      throw new Error(`Destinatário recusado pelo servidor: ${info.rejected.join(', ')}`);
+    }
+
+    this.logger.log(`Email do CRM enviado para ${to} (${info.messageId})`);
+    return info.messageId;
+  }
+
   /**
    * Verifica a conexão SMTP
    */
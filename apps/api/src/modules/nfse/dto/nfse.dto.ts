@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+/**
+ * Schema Zod para cancelamento manual de NFS-e
+ * (as prefeituras exigem justificativa entre 15 e 255 caracteres)
+ */
+export const CancelServiceInvoiceSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(15, 'Justificativa deve ter ao menos 15 caracteres')
+    .max(255, 'Justificativa deve ter no máximo 255 caracteres'),
+});
+
+export type CancelServiceInvoiceDto = z.infer<typeof CancelServiceInvoiceSchema>;
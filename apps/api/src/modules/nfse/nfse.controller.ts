@@ -0,0 +1,68 @@
+import {
+  Controller, Get, Post,
+  Body, Param, Query, UseGuards,
+} from '@nestjs/common';
+import { NfseService } from './nfse.service';
+import { RolesGuard } from '@/common/guards/roles.guard';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+import { UserRole, Module, ServiceInvoiceStatus } from '@prisma/client';
+import { CancelServiceInvoiceDto, CancelServiceInvoiceSchema } from './dto/nfse.dto';
+
+/**
+ * NFS-e Controller
+ *
+ * A emissão é automática quando o pagamento é confirmado; estas rotas
+ * servem para acompanhar a fila e intervir (emitir, reprocessar, cancelar).
+ *
+ * REQUER: SUPERADMIN ou ADMINISTRATIVO
+ */
+@RequirePermission(Module.FINANCE, 'view')
+@Controller('nfse')
+@UseGuards(RolesGuard)
+@Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+export class NfseController {
+  constructor(private readonly service: NfseService) {}
+
+  @Get()
+  async findAll(
+    @Query('status') status?: ServiceInvoiceStatus,
+    @Query('clientId') clientId?: string,
+  ) {
+    return this.service.findAll({ status, clientId });
+  }
+
+  @Get('payment/:paymentId')
+  async findByPayment(@Param('paymentId') paymentId: string) {
+    return this.service.findByPayment(paymentId);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.service.findOne(id);
+  }
+
+  /** Emissão manual para pagamento PAID sem nota */
+  @Post('payment/:paymentId/issue')
+  @RequirePermission(Module.FINANCE, 'create')
+  async issue(@Param('paymentId') paymentId: string) {
+    return this.service.issueForPayment(paymentId);
+  }
+
+  /** Reprocessa nota com falha, em processamento ou cancelamento travado */
+  @Post(':id/retry')
+  @RequirePermission(Module.FINANCE, 'edit')
+  async retry(@Param('id') id: string) {
+    return this.service.retry(id);
+  }
+
+  @Post(':id/cancel')
+  @RequirePermission(Module.FINANCE, 'delete')
+  async cancel(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(CancelServiceInvoiceSchema)) dto: CancelServiceInvoiceDto,
+  ) {
+    return this.service.cancel(id, dto.reason);
+  }
+}
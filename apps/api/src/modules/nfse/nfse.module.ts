@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { NfseController } from './nfse.controller';
+import { NfseService } from './nfse.service';
+import { FocusNfeProvider } from './providers/focus-nfe.provider';
+import { NfseProviderRegistry } from './providers/nfse-provider.registry';
+
+@Module({
+  imports: [
+    HttpModule.register({
+      timeout: 20000,
+      maxRedirects: 3,
+    }),
+  ],
+  controllers: [NfseController],
+  providers: [
+    NfseService,
+    // Adapters municipais
+    FocusNfeProvider,
+    NfseProviderRegistry,
+  ],
+  exports: [NfseService], // Gatilhos em Payments, Webhooks e Conciliação
+})
+export class NfseModule {}
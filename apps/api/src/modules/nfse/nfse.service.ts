@@ -0,0 +1,561 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  NotificationType,
+  PaymentStatus,
+  Prisma,
+  ServiceInvoice,
+  ServiceInvoiceStatus,
+} from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NfseProviderRegistry } from './providers/nfse-provider.registry';
+import { NfseProviderAdapter, NfseProviderResult } from './providers/nfse-provider.interface';
+
+/** Tentativas de emissão antes de marcar a nota como FAILED */
+const MAX_ATTEMPTS = 5;
+
+/** Espera antes de cada nova tentativa (minutos), indexada pela tentativa que falhou */
+const RETRY_DELAYS_MINUTES = [5, 15, 60, 180, 720];
+
+/** Intervalo de consulta enquanto a prefeitura processa o RPS */
+const POLL_INTERVAL_MINUTES = 5;
+
+const INVOICE_INCLUDE = {
+  payment: { select: { id: true, amount: true, status: true, paidAt: true, description: true } },
+  client: { select: { id: true, company: true, cpfCnpj: true } },
+} satisfies Prisma.ServiceInvoiceInclude;
+
+/**
+ * NFS-e Service — Nota fiscal de serviço dos pagamentos confirmados
+ *
+ * FLUXO:
+ * 1. Pagamento vira PAID (markAsPaid, webhooks, conciliação) → requestIssuance()
+ * 2. Cria ServiceInvoice PENDING e envia o RPS ao provedor configurado
+ * 3. Prefeitura assíncrona → PROCESSING, consultada pelo cron nfse-queue
+ * 4. Autorizada → ISSUED (número, código de verificação, XML, PDF) e
+ *    Payment.invoiceNumber preenchido
+ * 5. Erro de comunicação → retry com backoff; esgotou → FAILED (admins notificados)
+ * 6. Pagamento estornado → cancelForPayment() cancela a nota na prefeitura
+ *
+ * Payment.invoiceUrl continua sendo a página de pagamento do gateway;
+ * o PDF da nota fica em ServiceInvoice.pdfUrl.
+ *
+ * Graceful degradation: os gatilhos automáticos nunca lançam erro —
+ * falhas ficam em lastError e a nota pode ser reprocessada via POST /nfse/:id/retry.
+ */
+@Injectable()
+export class NfseService {
+  private readonly logger = new Logger(NfseService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly registry: NfseProviderRegistry,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════
+  // CONSULTAS
+  // ════════════════════════════════════════════════════════════════
+
+  async findAll(filters: { status?: ServiceInvoiceStatus; clientId?: string }) {
+    return this.prisma.serviceInvoice.findMany({
+      where: { status: filters.status, clientId: filters.clientId },
+      include: INVOICE_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    });
+  }
+
+  async findOne(id: string) {
+    const invoice = await this.prisma.serviceInvoice.findUnique({
+      where: { id },
+      include: INVOICE_INCLUDE,
+    });
+
+    if (!invoice) {
+      throw new NotFoundException(`NFS-e ${id} não encontrada`);
+    }
+
+    return invoice;
+  }
+
+  async findByPayment(paymentId: string) {
+    return this.prisma.serviceInvoice.findUnique({
+      where: { paymentId },
+      include: INVOICE_INCLUDE,
+    });
+  }
+
+  // ════════════════════════════════════════════════════════════════
+  // GATILHOS AUTOMÁTICOS (não lançam erro)
+  // ════════════════════════════════════════════════════════════════
+
+  /**
+   * Agenda e tenta emitir a NFS-e de um pagamento recém-confirmado.
+   * Idempotente: um pagamento tem no máximo uma nota.
+   */
+  async requestIssuance(paymentId: string): Promise<ServiceInvoice | null> {
+    try {
+      const adapter = this.registry.current;
+      if (!adapter) return null;
+
+      const existing = await this.prisma.serviceInvoice.findUnique({ where: { paymentId } });
+      if (existing) return existing;
+
+      const invoice = await this.createForPayment(paymentId, adapter);
+      if (!invoice) return null;
+
+      return await this.attemptIssue(invoice, adapter);
+    } catch (error) {
+      this.logger.error(`❌ Erro ao solicitar NFS-e do pagamento ${paymentId}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Cancela a NFS-e de um pagamento estornado.
+   * Nota ainda não autorizada é apenas descartada; autorizada é cancelada na prefeitura.
+   */
+  async cancelForPayment(paymentId: string, reason: string): Promise<ServiceInvoice | null> {
+    try {
+      const invoice = await this.prisma.serviceInvoice.findUnique({ where: { paymentId } });
+      if (!invoice) return null;
+
+      return await this.startCancellation(invoice, reason);
+    } catch (error) {
+      this.logger.error(`❌ Erro ao cancelar NFS-e do pagamento ${paymentId}: ${error.message}`);
+      return null;
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════
+  // AÇÕES MANUAIS (tela financeira)
+  // ════════════════════════════════════════════════════════════════
+
+  /**
+   * Emissão manual para pagamentos PAID sem nota (ex: pagos antes da configuração)
+   */
+  async issueForPayment(paymentId: string) {
+    const adapter = this.requireAdapter();
+
+    const existing = await this.prisma.serviceInvoice.findUnique({ where: { paymentId } });
+    if (existing) {
+      throw new BadRequestException(`Pagamento já possui NFS-e (${existing.status})`);
+    }
+
+    const invoice = await this.createForPayment(paymentId, adapter);
+    if (!invoice) {
+      throw new BadRequestException('NFS-e só pode ser emitida para pagamentos confirmados');
+    }
+
+    await this.attemptIssue(invoice, adapter);
+    return this.findOne(invoice.id);
+  }
+
+  /**
+   * Reprocessa uma nota FAILED/PENDING (zera as tentativas) ou um cancelamento travado
+   */
+  async retry(id: string) {
+    const adapter = this.requireAdapter();
+    const invoice = await this.findOne(id);
+
+    switch (invoice.status) {
+      case ServiceInvoiceStatus.FAILED:
+      case ServiceInvoiceStatus.PENDING: {
+        const reset = await this.prisma.serviceInvoice.update({
+          where: { id },
+          data: { status: ServiceInvoiceStatus.PENDING, attempts: 0, lastError: null },
+        });
+        await this.attemptIssue(reset, adapter);
+        break;
+      }
+      case ServiceInvoiceStatus.PROCESSING:
+        await this.attemptQuery(invoice, adapter);
+        break;
+      case ServiceInvoiceStatus.CANCELLING: {
+        const reset = await this.prisma.serviceInvoice.update({
+          where: { id },
+          data: { attempts: 0, lastError: null },
+        });
+        await this.attemptCancel(reset, adapter);
+        break;
+      }
+      default:
+        throw new BadRequestException(`NFS-e ${invoice.status} não pode ser reprocessada`);
+    }
+
+    return this.findOne(id);
+  }
+
+  async cancel(id: string, reason: string) {
+    const invoice = await this.findOne(id);
+
+    if (invoice.status === ServiceInvoiceStatus.CANCELLED || invoice.status === ServiceInvoiceStatus.CANCELLING) {
+      throw new BadRequestException('NFS-e já cancelada');
+    }
+
+    await this.startCancellation(invoice, reason);
+    return this.findOne(id);
+  }
+
+  // ════════════════════════════════════════════════════════════════
+  // CRON
+  // ════════════════════════════════════════════════════════════════
+
+  /**
+   * Processa a fila: emissões pendentes, notas em processamento e cancelamentos
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'nfse-queue' })
+  async processQueue(): Promise<void> {
+    const adapter = this.registry.current;
+    if (!adapter) return;
+
+    const due = await this.prisma.serviceInvoice.findMany({
+      where: {
+        provider: adapter.provider,
+        status: {
+          in: [ServiceInvoiceStatus.PENDING, ServiceInvoiceStatus.PROCESSING, ServiceInvoiceStatus.CANCELLING],
+        },
+        nextAttemptAt: { lte: new Date() },
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: 50,
+    });
+
+    if (due.length === 0) return;
+
+    this.logger.log(`🧾 [CRON] Processando ${due.length} NFS-e na fila`);
+
+    for (const invoice of due) {
+      try {
+        if (invoice.status === ServiceInvoiceStatus.PENDING) {
+          await this.attemptIssue(invoice, adapter);
+        } else if (invoice.status === ServiceInvoiceStatus.PROCESSING) {
+          await this.attemptQuery(invoice, adapter);
+        } else {
+          await this.attemptCancel(invoice, adapter);
+        }
+      } catch (error) {
+        this.logger.error(`❌ Erro ao processar NFS-e ${invoice.id}: ${error.message}`);
+      }
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════
+  // PIPELINE
+  // ════════════════════════════════════════════════════════════════
+
+  private async createForPayment(paymentId: string, adapter: NfseProviderAdapter) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { client: { select: { company: true } } },
+    });
+
+    if (!payment) {
+      throw new NotFoundException(`Pagamento ${paymentId} não encontrado`);
+    }
+
+    if (payment.status !== PaymentStatus.PAID) return null;
+
+    return this.prisma.serviceInvoice.create({
+      data: {
+        paymentId,
+        clientId: payment.clientId,
+        provider: adapter.provider,
+        amount: payment.amount,
+        serviceDescription: this.buildServiceDescription(payment),
+        nextAttemptAt: new Date(),
+      },
+    });
+  }
+
+  private async attemptIssue(invoice: ServiceInvoice, adapter: NfseProviderAdapter) {
+    const client = await this.prisma.client.findUnique({
+      where: { id: invoice.clientId },
+      select: { company: true, contactName: true, email: true, cpfCnpj: true },
+    });
+
+    if (!client) {
+      throw new NotFoundException(`Cliente ${invoice.clientId} não encontrado`);
+    }
+
+    const attempts = invoice.attempts + 1;
+
+    try {
+      const result = await adapter.issue({
+        reference: invoice.id,
+        amount: Number(invoice.amount),
+        serviceDescription: invoice.serviceDescription,
+        issueDate: new Date(),
+        customer: {
+          name: client.company || client.contactName,
+          email: client.email,
+          cpfCnpj: client.cpfCnpj,
+        },
+      });
+
+      return await this.applyResult(invoice, result, { attempts });
+    } catch (error) {
+      return this.scheduleRetry(invoice, attempts, this.errorMessage(error));
+    }
+  }
+
+  private async attemptQuery(invoice: ServiceInvoice, adapter: NfseProviderAdapter) {
+    try {
+      const result = await adapter.query(invoice.id);
+      return await this.applyResult(invoice, result);
+    } catch (error) {
+      return this.scheduleRetry(invoice, invoice.attempts + 1, this.errorMessage(error));
+    }
+  }
+
+  private async attemptCancel(invoice: ServiceInvoice, adapter: NfseProviderAdapter) {
+    const attempts = invoice.attempts + 1;
+    const reason = invoice.cancelReason || 'Pagamento estornado';
+
+    try {
+      // Nota nunca autorizada: consulta antes — rejeitada não precisa de cancelamento
+      if (!invoice.number) {
+        const current = await adapter.query(invoice.id);
+
+        if (current.status === 'REJECTED' || current.status === 'CANCELLED') {
+          return this.markCancelled(invoice, current.raw);
+        }
+        if (current.status === 'PROCESSING') {
+          return this.prisma.serviceInvoice.update({
+            where: { id: invoice.id },
+            data: { nextAttemptAt: this.minutesFromNow(POLL_INTERVAL_MINUTES) },
+          });
+        }
+      }
+
+      const result = await adapter.cancel(invoice.id, reason);
+      return this.markCancelled(invoice, result.raw);
+    } catch (error) {
+      return this.scheduleRetry(invoice, attempts, this.errorMessage(error));
+    }
+  }
+
+  private async applyResult(
+    invoice: ServiceInvoice,
+    result: NfseProviderResult,
+    extra: Prisma.ServiceInvoiceUpdateInput = {},
+  ) {
+    const providerData = result.raw as Prisma.InputJsonObject;
+
+    switch (result.status) {
+      case 'ISSUED': {
+        const updated = await this.prisma.serviceInvoice.update({
+          where: { id: invoice.id },
+          data: {
+            ...extra,
+            status: ServiceInvoiceStatus.ISSUED,
+            number: result.number ?? null,
+            verificationCode: result.verificationCode ?? null,
+            rpsNumber: result.rpsNumber ?? null,
+            rpsSeries: result.rpsSeries ?? null,
+            xml: result.xml ?? null,
+            pdfUrl: result.pdfUrl ?? null,
+            issuedAt: new Date(),
+            nextAttemptAt: null,
+            lastError: null,
+            providerData,
+          },
+        });
+
+        if (result.number) {
+          await this.prisma.payment.update({
+            where: { id: invoice.paymentId },
+            data: { invoiceNumber: result.number },
+          });
+        }
+
+        this.logger.log(`🧾 NFS-e ${result.number} emitida para o pagamento ${invoice.paymentId}`);
+        return updated;
+      }
+
+      case 'PROCESSING':
+        return this.prisma.serviceInvoice.update({
+          where: { id: invoice.id },
+          data: {
+            ...extra,
+            status: ServiceInvoiceStatus.PROCESSING,
+            nextAttemptAt: this.minutesFromNow(POLL_INTERVAL_MINUTES),
+            providerData,
+          },
+        });
+
+      case 'CANCELLED':
+        return this.markCancelled(invoice, result.raw);
+
+      case 'REJECTED':
+      default: {
+        const updated = await this.prisma.serviceInvoice.update({
+          where: { id: invoice.id },
+          data: {
+            ...extra,
+            status: ServiceInvoiceStatus.FAILED,
+            nextAttemptAt: null,
+            lastError: result.error ?? 'Rejeitada pelo provedor',
+            providerData,
+          },
+        });
+
+        this.logger.error(`❌ NFS-e rejeitada (pagamento ${invoice.paymentId}): ${updated.lastError}`);
+        this.notifyAdmins(updated);
+        return updated;
+      }
+    }
+  }
+
+  /**
+   * Falha de comunicação: agenda nova tentativa com backoff.
+   * Emissão esgotada vira FAILED; cancelamento esgotado fica CANCELLING sem agenda (retry manual).
+   */
+  private async scheduleRetry(invoice: ServiceInvoice, attempts: number, error: string) {
+    const exhausted = attempts >= MAX_ATTEMPTS;
+    const isIssuance = invoice.status === ServiceInvoiceStatus.PENDING || invoice.status === ServiceInvoiceStatus.PROCESSING;
+    const delay = RETRY_DELAYS_MINUTES[Math.min(attempts, RETRY_DELAYS_MINUTES.length) - 1];
+
+    const updated = await this.prisma.serviceInvoice.update({
+      where: { id: invoice.id },
+      data: {
+        attempts,
+        lastError: error,
+        status: exhausted && isIssuance ? ServiceInvoiceStatus.FAILED : invoice.status,
+        nextAttemptAt: exhausted ? null : this.minutesFromNow(delay),
+      },
+    });
+
+    if (exhausted) {
+      this.logger.error(`❌ NFS-e ${invoice.id}: ${attempts} tentativas esgotadas — ${error}`);
+      this.notifyAdmins(updated);
+    } else {
+      this.logger.warn(`⚠️ NFS-e ${invoice.id}: tentativa ${attempts} falhou (${error}), nova tentativa em ${delay} min`);
+    }
+
+    return updated;
+  }
+
+  private async startCancellation(invoice: ServiceInvoice, reason: string) {
+    switch (invoice.status) {
+      case ServiceInvoiceStatus.CANCELLED:
+      case ServiceInvoiceStatus.CANCELLING:
+        return invoice;
+
+      // Nada foi enviado à prefeitura (ou foi rejeitado): só descartar
+      case ServiceInvoiceStatus.PENDING:
+      case ServiceInvoiceStatus.FAILED:
+        return this.prisma.serviceInvoice.update({
+          where: { id: invoice.id },
+          data: {
+            status: ServiceInvoiceStatus.CANCELLED,
+            cancelReason: reason,
+            cancelledAt: new Date(),
+            nextAttemptAt: null,
+          },
+        });
+
+      default: {
+        const cancelling = await this.prisma.serviceInvoice.update({
+          where: { id: invoice.id },
+          data: {
+            status: ServiceInvoiceStatus.CANCELLING,
+            cancelReason: reason,
+            attempts: 0,
+            lastError: null,
+            nextAttemptAt: new Date(),
+          },
+        });
+
+        const adapter = this.registry.current;
+        if (!adapter || adapter.provider !== invoice.provider) {
+          this.logger.warn(`⚠️ Provedor ${invoice.provider} inativo — cancelamento da NFS-e ${invoice.id} pendente`);
+          return cancelling;
+        }
+
+        return this.attemptCancel(cancelling, adapter);
+      }
+    }
+  }
+
+  private async markCancelled(invoice: ServiceInvoice, raw: Record<string, unknown>) {
+    const updated = await this.prisma.serviceInvoice.update({
+      where: { id: invoice.id },
+      data: {
+        status: ServiceInvoiceStatus.CANCELLED,
+        cancelledAt: new Date(),
+        nextAttemptAt: null,
+        lastError: null,
+        providerData: raw as Prisma.InputJsonObject,
+      },
+    });
+
+    this.logger.log(`🗑️ NFS-e ${invoice.number ?? invoice.id} cancelada (pagamento ${invoice.paymentId})`);
+    return updated;
+  }
+
+  // ════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ════════════════════════════════════════════════════════════════
+
+  private requireAdapter(): NfseProviderAdapter {
+    const adapter = this.registry.current;
+    if (!adapter) {
+      throw new BadRequestException('Emissão de NFS-e não configurada (NFSE_PROVIDER)');
+    }
+    return adapter;
+  }
+
+  private buildServiceDescription(payment: {
+    description: string | null;
+    periodStart: Date | null;
+    periodEnd: Date | null;
+    client: { company: string };
+  }): string {
+    const parts = [payment.description || `Licença de uso de software - ${payment.client.company}`];
+
+    if (payment.periodStart && payment.periodEnd) {
+      const format = (date: Date) => date.toISOString().split('T')[0].split('-').reverse().join('/');
+      parts.push(`Período: ${format(payment.periodStart)} a ${format(payment.periodEnd)}`);
+    }
+
+    return parts.join(' | ');
+  }
+
+  private minutesFromNow(minutes: number): Date {
+    return new Date(Date.now() + minutes * 60 * 1000);
+  }
+
+  private errorMessage(error: any): string {
+    return (
+      error?.response?.data?.mensagem ||
+      error?.response?.data?.message ||
+      error?.message ||
+      'Erro desconhecido'
+    );
+  }
+
+  /**
+   * Alerta SUPERADMIN/ADMINISTRATIVO (fire-and-forget)
+   */
+  private notifyAdmins(invoice: ServiceInvoice) {
+    const action = invoice.status === ServiceInvoiceStatus.CANCELLING ? 'cancelar' : 'emitir';
+
+    this.prisma.user.findMany({
+      where: { role: { in: ['SUPERADMIN', 'ADMINISTRATIVO'] }, isActive: true },
+      select: { id: true },
+    }).then((admins) => {
+      if (admins.length > 0) {
+        this.notificationsService.createBulk({
+          userIds: admins.map((u) => u.id),
+          type: NotificationType.SYSTEM_ALERT,
+          title: `Falha ao ${action} NFS-e`,
+          message: `Pagamento ${invoice.paymentId}: ${invoice.lastError}`,
+          link: '/payments',
+        }).catch(() => {});
+      }
+    }).catch(() => {});
+  }
+}
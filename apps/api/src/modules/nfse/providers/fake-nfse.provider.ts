@@ -0,0 +1,90 @@
+import { Logger } from '@nestjs/common';
+import { NfseProvider } from '@prisma/client';
+import {
+  IssueNfseInput,
+  NfseProviderAdapter,
+  NfseProviderResult,
+} from './nfse-provider.interface';
+
+export interface FakeNfse {
+  reference: string;
+  number: string;
+  input: IssueNfseInput;
+  cancelled: boolean;
+}
+
+/**
+ * Fake NFS-e Provider (testes e desenvolvimento local)
+ *
+ * Ativado com NFSE_PROVIDER=fake. Não faz chamadas HTTP: autoriza
+ * na hora, numera sequencialmente e guarda as notas em memória.
+ * `failNext` permite simular rejeições/erros para exercitar o retry.
+ */
+export class FakeNfseProvider implements NfseProviderAdapter {
+  readonly provider = NfseProvider.FAKE;
+
+  /** Notas emitidas (compartilhado entre instâncias) */
+  static readonly invoices = new Map<string, FakeNfse>();
+
+  /** Próximas emissões que devem falhar (ex: 'Erro de comunicação') */
+  static readonly failNext: string[] = [];
+
+  private readonly logger = new Logger(FakeNfseProvider.name);
+
+  async issue(input: IssueNfseInput): Promise<NfseProviderResult> {
+    const failure = FakeNfseProvider.failNext.shift();
+    if (failure) {
+      throw new Error(failure);
+    }
+
+    const existing = FakeNfseProvider.invoices.get(input.reference);
+    if (existing) {
+      return this.toResult(existing);
+    }
+
+    const invoice: FakeNfse = {
+      reference: input.reference,
+      number: String(FakeNfseProvider.invoices.size + 1).padStart(6, '0'),
+      input,
+      cancelled: false,
+    };
+    FakeNfseProvider.invoices.set(input.reference, invoice);
+
+    this.logger.log(`[Fake:NFS-e] Nota simulada: ${invoice.number} (R$ ${input.amount})`);
+
+    return this.toResult(invoice);
+  }
+
+  async query(reference: string): Promise<NfseProviderResult> {
+    const invoice = FakeNfseProvider.invoices.get(reference);
+    if (!invoice) {
+      return { status: 'REJECTED', error: 'Nota não encontrada', raw: { reference } };
+    }
+    return this.toResult(invoice);
+  }
+
+  async cancel(reference: string, reason: string): Promise<NfseProviderResult> {
+    const invoice = FakeNfseProvider.invoices.get(reference);
+    if (!invoice) {
+      throw new Error(`Nota ${reference} não encontrada`);
+    }
+    invoice.cancelled = true;
+    this.logger.log(`[Fake:NFS-e] Nota ${invoice.number} cancelada: ${reason}`);
+    return this.toResult(invoice);
+  }
+
+  private toResult(invoice: FakeNfse): NfseProviderResult {
+    return {
+      status: invoice.cancelled ? 'CANCELLED' : 'ISSUED',
+      number: invoice.number,
+      verificationCode: `FAKE${invoice.number}`,
+      rpsNumber: invoice.number,
+      rpsSeries: 'FAKE',
+      xml:
+        `<CompNfse><Nfse><InfNfse><Numero>${invoice.number}</Numero>` +
+        `<ValorServicos>${invoice.input.amount.toFixed(2)}</ValorServicos></InfNfse></Nfse></CompNfse>`,
+      pdfUrl: `http://localhost/fake-nfse/${invoice.reference}.pdf`,
+      raw: { reference: invoice.reference, number: invoice.number, fake: true, cancelled: invoice.cancelled },
+    };
+  }
+}
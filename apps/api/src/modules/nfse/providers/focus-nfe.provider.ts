@@ -0,0 +1,184 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { NfseProvider } from '@prisma/client';
+import {
+  IssueNfseInput,
+  NfseProviderAdapter,
+  NfseProviderResult,
+} from './nfse-provider.interface';
+
+/**
+ * Focus NFe Provider
+ *
+ * Emite NFS-e via API v2 da Focus NFe, que abstrai o webservice de cada
+ * prefeitura (ABRASF, Ginfes, ISS.net etc.) atrás de um JSON único.
+ *
+ * FLUXO:
+ * 1. POST /v2/nfse?ref={ServiceInvoice.id} → processando_autorizacao
+ * 2. GET /v2/nfse/{ref} até autorizado / erro_autorizacao
+ * 3. Autorizada: baixa o XML (caminho_xml_nota_fiscal) e guarda o link do PDF
+ * 4. Estorno: DELETE /v2/nfse/{ref} com justificativa
+ *
+ * REFERÊNCIA:
+ * - https://focusnfe.com.br/doc/#nfse
+ */
+@Injectable()
+export class FocusNfeProvider implements NfseProviderAdapter {
+  readonly provider = NfseProvider.FOCUS_NFE;
+  private readonly logger = new Logger(FocusNfeProvider.name);
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  private get apiUrl(): string {
+    const env = this.configService.get<string>('FOCUS_NFE_ENV', 'homologacao');
+    return env === 'producao'
+      ? 'https://api.focusnfe.com.br'
+      : 'https://homologacao.focusnfe.com.br';
+  }
+
+  private get auth() {
+    // Token vai como usuário do Basic Auth, senha vazia
+    return { username: this.configService.get<string>('FOCUS_NFE_TOKEN', ''), password: '' };
+  }
+
+  async issue(input: IssueNfseInput): Promise<NfseProviderResult> {
+    const document = input.customer.cpfCnpj.replace(/\D/g, '');
+
+    try {
+      const { data } = await firstValueFrom(
+        this.httpService.post(
+          `${this.apiUrl}/v2/nfse`,
+          {
+            data_emissao: input.issueDate.toISOString(),
+            prestador: {
+              cnpj: this.configService.get<string>('NFSE_PRESTADOR_CNPJ', ''),
+              inscricao_municipal: this.configService.get<string>('NFSE_INSCRICAO_MUNICIPAL', ''),
+              codigo_municipio: this.configService.get<string>('NFSE_CODIGO_MUNICIPIO', ''),
+            },
+            tomador: {
+              ...(document.length === 14 ? { cnpj: document } : { cpf: document }),
+              razao_social: input.customer.name,
+              email: input.customer.email,
+            },
+            servico: {
+              aliquota: Number(this.configService.get<string>('NFSE_ALIQUOTA_ISS', '2')),
+              discriminacao: input.serviceDescription,
+              iss_retido: false,
+              item_lista_servico: this.configService.get<string>('NFSE_ITEM_LISTA_SERVICO', '0107'),
+              codigo_tributario_municipio: this.configService.get<string>('NFSE_CODIGO_TRIBUTARIO_MUNICIPIO'),
+              valor_servicos: input.amount,
+            },
+          },
+          { params: { ref: input.reference }, auth: this.auth },
+        ),
+      );
+
+      this.logger.log(`[FocusNFe] 📤 RPS enviado: ${input.reference} (${data?.status})`);
+
+      return this.toResult(data);
+    } catch (error) {
+      // Referência já enviada antes (retry após timeout) — segue pela consulta
+      if (error?.response?.data?.codigo === 'already_processed' || error?.response?.status === 409) {
+        return this.query(input.reference);
+      }
+
+      const validation = this.validationError(error);
+      if (validation) {
+        return { status: 'REJECTED', error: validation, raw: error.response.data };
+      }
+
+      throw error;
+    }
+  }
+
+  async query(reference: string): Promise<NfseProviderResult> {
+    const { data } = await firstValueFrom(
+      this.httpService.get(`${this.apiUrl}/v2/nfse/${reference}`, { auth: this.auth }),
+    );
+
+    const result = this.toResult(data);
+
+    if (result.status === 'ISSUED' && data.caminho_xml_nota_fiscal) {
+      result.xml = await this.downloadXml(data.caminho_xml_nota_fiscal);
+    }
+
+    return result;
+  }
+
+  async cancel(reference: string, reason: string): Promise<NfseProviderResult> {
+    const { data } = await firstValueFrom(
+      this.httpService.delete(`${this.apiUrl}/v2/nfse/${reference}`, {
+        data: { justificativa: reason },
+        auth: this.auth,
+      }),
+    );
+
+    if (data?.status === 'erro_cancelamento') {
+      throw new Error(`FocusNFe: ${this.joinErrors(data) || 'cancelamento recusado pela prefeitura'}`);
+    }
+
+    this.logger.log(`[FocusNFe] 🗑️ NFS-e cancelada: ${reference}`);
+
+    return this.toResult(data);
+  }
+
+  /**
+   * Converte a resposta da Focus NFe para o formato comum
+   */
+  private toResult(data: any): NfseProviderResult {
+    const base = { raw: data ?? {} };
+
+    switch (data?.status) {
+      case 'autorizado':
+        return {
+          ...base,
+          status: 'ISSUED',
+          number: data.numero ? String(data.numero) : null,
+          verificationCode: data.codigo_verificacao ?? null,
+          rpsNumber: data.numero_rps ? String(data.numero_rps) : null,
+          rpsSeries: data.serie_rps ?? null,
+          pdfUrl: data.url_danfse ?? data.url ?? null,
+        };
+      case 'cancelado':
+        return { ...base, status: 'CANCELLED' };
+      case 'erro_autorizacao':
+        return { ...base, status: 'REJECTED', error: this.joinErrors(data) || 'Rejeitada pela prefeitura' };
+      default:
+        return { ...base, status: 'PROCESSING' };
+    }
+  }
+
+  private async downloadXml(path: string): Promise<string | null> {
+    try {
+      const { data } = await firstValueFrom(
+        this.httpService.get(`${this.apiUrl}${path}`, { auth: this.auth, responseType: 'text' }),
+      );
+      return typeof data === 'string' ? data : null;
+    } catch (error) {
+      // XML é complementar — a nota segue autorizada e o PDF continua acessível
+      this.logger.warn(`[FocusNFe] XML indisponível (${path}): ${error?.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Erros de validação (4xx) não adiantam retry — dado do cadastro precisa ser corrigido
+   */
+  private validationError(error: any): string | null {
+    const status = error?.response?.status;
+    if (!status || status < 400 || status >= 500 || status === 401 || status === 429) return null;
+    const data = error.response.data;
+    return this.joinErrors(data) || data?.mensagem || `HTTP ${status}`;
+  }
+
+  private joinErrors(data: any): string {
+    return (data?.erros ?? [])
+      .map((e: { codigo?: string; mensagem?: string }) => [e.codigo, e.mensagem].filter(Boolean).join(': '))
+      .join('; ');
+  }
+}
@@ -0,0 +1,59 @@
+import { NfseProvider } from '@prisma/client';
+
+/**
+ * Tomador do serviço (cliente) enviado na emissão
+ */
+export interface NfseCustomer {
+  name: string;
+  email: string;
+  cpfCnpj: string; // Só dígitos (11 ou 14)
+}
+
+/**
+ * Entrada para emissão de uma NFS-e
+ */
+export interface IssueNfseInput {
+  reference: string; // Nosso ServiceInvoice.id (idempotência no provedor)
+  amount: number; // Valor do serviço em reais
+  serviceDescription: string;
+  issueDate: Date;
+  customer: NfseCustomer;
+}
+
+/**
+ * Resultado de uma emissão/consulta no provedor
+ *
+ * A maioria das prefeituras processa o RPS de forma assíncrona:
+ * PROCESSING indica que a nota deve ser consultada depois (cron nfse-queue).
+ */
+export interface NfseProviderResult {
+  status: 'PROCESSING' | 'ISSUED' | 'REJECTED' | 'CANCELLED';
+  number?: string | null;
+  verificationCode?: string | null;
+  rpsNumber?: string | null;
+  rpsSeries?: string | null;
+  xml?: string | null;
+  pdfUrl?: string | null;
+  error?: string | null; // Motivo da rejeição (status REJECTED)
+  raw: Record<string, unknown>; // Resposta bruta (salva em providerData)
+}
+
+/**
+ * Contrato comum dos adapters de NFS-e.
+ *
+ * Cada valor do enum NfseProvider tem um adapter correspondente,
+ * resolvido via NfseProviderRegistry. Erros de rede/HTTP são lançados
+ * (o NfseService agenda retry); rejeições da prefeitura voltam como REJECTED.
+ */
+export interface NfseProviderAdapter {
+  readonly provider: NfseProvider;
+
+  /** Envia o RPS para emissão */
+  issue(input: IssueNfseInput): Promise<NfseProviderResult>;
+
+  /** Consulta a situação de uma nota enviada (PROCESSING) */
+  query(reference: string): Promise<NfseProviderResult>;
+
+  /** Cancela uma NFS-e autorizada (estorno do pagamento) */
+  cancel(reference: string, reason: string): Promise<NfseProviderResult>;
+}
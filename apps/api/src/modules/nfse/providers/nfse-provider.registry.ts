@@ -0,0 +1,52 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NfseProviderAdapter } from './nfse-provider.interface';
+import { FocusNfeProvider } from './focus-nfe.provider';
+import { FakeNfseProvider } from './fake-nfse.provider';
+
+/**
+ * NFS-e Provider Registry
+ *
+ * Resolve o adapter municipal configurado em NFSE_PROVIDER:
+ * - focus_nfe: Focus NFe
+ * - fake: FakeNfseProvider (sem HTTP)
+ * - vazio: emissão desligada (pagamentos seguem sem nota)
+ */
+@Injectable()
+export class NfseProviderRegistry implements OnModuleInit {
+  private readonly logger = new Logger(NfseProviderRegistry.name);
+  private readonly adapter: NfseProviderAdapter | null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    focusNfe: FocusNfeProvider,
+  ) {
+    switch (this.mode) {
+      case 'focus_nfe':
+        this.adapter = focusNfe;
+        break;
+      case 'fake':
+        this.adapter = new FakeNfseProvider();
+        break;
+      default:
+        this.adapter = null;
+    }
+  }
+
+  onModuleInit() {
+    if (this.mode === 'fake') {
+      this.logger.warn('⚠️ NFSE_PROVIDER=fake — notas fiscais NÃO serão emitidas na prefeitura');
+    } else if (!this.adapter) {
+      this.logger.log('ℹ️ NFSE_PROVIDER não configurado — emissão de NFS-e desligada');
+    }
+  }
+
+  private get mode(): string {
+    return this.configService.get<string>('NFSE_PROVIDER', '').toLowerCase();
+  }
+
+  /** Adapter ativo (null = emissão desligada) */
+  get current(): NfseProviderAdapter | null {
+    return this.adapter;
+  }
+}
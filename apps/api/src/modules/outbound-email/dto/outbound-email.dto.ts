@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+/**
+ * DTO para criar modelo de e-mail
+ * - subject/body aceitam variáveis {{nome}}, {{empresa}}... (GET /email-templates/variables)
+ */
+export const CreateEmailTemplateSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Nome deve ter no mínimo 2 caracteres')
+    .max(80, 'Nome deve ter no máximo 80 caracteres'),
+  subject: z.string().trim().min(1, 'Assunto é obrigatório').max(200, 'Assunto deve ter no máximo 200 caracteres'),
+  body: z.string().trim().min(1, 'Corpo do e-mail é obrigatório').max(20000, 'Corpo deve ter no máximo 20000 caracteres'),
+  isActive: z.boolean().default(true),
+});
+
+export type CreateEmailTemplateDto = z.infer<typeof CreateEmailTemplateSchema>;
+
+export const UpdateEmailTemplateSchema = CreateEmailTemplateSchema.partial();
+
+export type UpdateEmailTemplateDto = z.infer<typeof UpdateEmailTemplateSchema>;
+
+/**
+ * DTO para enviar (ou pré-visualizar) e-mail a um lead OU cliente
+ * - subject/body já editados pelo vendedor (modelo e texto da IA são preenchidos no frontend)
+ * - templateId: apenas registra o modelo de origem
+ */
+export const SendEmailSchema = z
+  .object({
+    leadId: z.string().optional(),
+    clientId: z.string().optional(),
+    templateId: z.string().optional(),
+    subject: z.string().trim().min(1, 'Assunto é obrigatório').max(200),
+    body: z.string().trim().min(1, 'Corpo do e-mail é obrigatório').max(20000),
+  })
+  .refine((data) => !!data.leadId !== !!data.clientId, {
+    message: 'Informe o lead ou o cliente (apenas um)',
+    path: ['leadId'],
+  });
+
+export type SendEmailDto = z.infer<typeof SendEmailSchema>;
+
+/** Filtros do histórico de e-mails enviados */
+export const OutboundEmailQuerySchema = z
+  .object({
+    leadId: z.string().optional(),
+    clientId: z.string().optional(),
+  })
+  .refine((data) => !!data.leadId || !!data.clientId, {
+    message: 'Informe leadId ou clientId',
+    path: ['leadId'],
+  });
+
+export type OutboundEmailQueryDto = z.infer<typeof OutboundEmailQuerySchema>;
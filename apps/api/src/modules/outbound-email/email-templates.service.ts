@@ -0,0 +1,113 @@
+import { Injectable, NotFoundException, ConflictException, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import { CreateEmailTemplateDto, UpdateEmailTemplateDto } from './dto/outbound-email.dto';
+
+/** Variáveis aceitas em assunto e corpo ({{chave}}) */
+export const EMAIL_TEMPLATE_VARIABLES = [
+  { key: 'nome', description: 'Nome do contato' },
+  { key: 'primeiro_nome', description: 'Primeiro nome do contato' },
+  { key: 'email', description: 'E-mail do contato' },
+  { key: 'empresa', description: 'Empresa/clínica' },
+  { key: 'cidade', description: 'Cidade (apenas leads)' },
+  { key: 'produto', description: 'Produto de interesse ou contratado' },
+  { key: 'plano', description: 'Plano de interesse ou contratado' },
+  { key: 'plano_valor', description: 'Mensalidade do plano' },
+  { key: 'vendedor', description: 'Nome do vendedor responsável' },
+  { key: 'vendedor_email', description: 'E-mail do vendedor responsável' },
+] as const;
+
+export type EmailTemplateVariable = (typeof EMAIL_TEMPLATE_VARIABLES)[number]['key'];
+
+export type EmailTemplateValues = Record<EmailTemplateVariable, string>;
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/gi;
+
+/**
+ * Substitui {{variáveis}} pelos valores do lead/cliente
+ * Variáveis desconhecidas ficam no texto e voltam em `unknown` (a pré-visualização avisa)
+ */
+export function renderTemplateVariables(
+  text: string,
+  values: EmailTemplateValues,
+): { text: string; unknown: string[] } {
+  const unknown = new Set<string>();
+
+  const rendered = text.replace(VARIABLE_PATTERN, (match, name: string) => {
+    const key = name.toLowerCase();
+    if (key in values) return values[key as EmailTemplateVariable];
+    unknown.add(key);
+    return match;
+  });
+
+  return { text: rendered, unknown: [...unknown] };
+}
+
+/**
+ * Email Templates Service
+ * Modelos de e-mail compartilhados pela equipe comercial
+ */
+@Injectable()
+export class EmailTemplatesService {
+  private readonly logger = new Logger(EmailTemplatesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll(includeInactive = false) {
+    return this.prisma.emailTemplate.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { name: 'asc' },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        _count: { select: { outboundEmails: true } },
+      },
+    });
+  }
+
+  async findOne(id: string) {
+    const template = await this.prisma.emailTemplate.findUnique({ where: { id } });
+    if (!template) {
+      throw new NotFoundException(`Modelo de e-mail ${id} não encontrado`);
+    }
+    return template;
+  }
+
+  async create(dto: CreateEmailTemplateDto, userId: string) {
+    try {
+      const template = await this.prisma.emailTemplate.create({
+        data: { ...dto, createdById: userId },
+      });
+      this.logger.log(`✉️ Modelo de e-mail criado: ${template.name}`);
+      return template;
+    } catch (error) {
+      this.handleUniqueError(error, dto.name);
+      throw error;
+    }
+  }
+
+  async update(id: string, dto: UpdateEmailTemplateDto) {
+    await this.findOne(id);
+
+    try {
+      return await this.prisma.emailTemplate.update({ where: { id }, data: dto });
+    } catch (error) {
+      this.handleUniqueError(error, dto.name);
+      throw error;
+    }
+  }
+
+  /**
+   * Exclui o modelo — e-mails já enviados mantêm o texto (templateId vira null)
+   */
+  async remove(id: string) {
+    await this.findOne(id);
+    await this.prisma.emailTemplate.delete({ where: { id } });
+    this.logger.log(`🗑️ Modelo de e-mail removido: ${id}`);
+  }
+
+  private handleUniqueError(error: unknown, name?: string) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictException(`Já existe um modelo de e-mail chamado "${name}"`);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { UserRole, Module } from '@prisma/client';
+import { Public } from '@/common/decorators/public.decorator';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+import { AuthUser } from '@/common/interfaces/auth-user.interface';
+import { EMAIL_TEMPLATE_VARIABLES, EmailTemplatesService } from './email-templates.service';
+import { OutboundEmailService, TRACKING_PIXEL } from './outbound-email.service';
+import {
+  CreateEmailTemplateDto,
+  CreateEmailTemplateSchema,
+  UpdateEmailTemplateDto,
+  UpdateEmailTemplateSchema,
+  SendEmailDto,
+  SendEmailSchema,
+  OutboundEmailQueryDto,
+  OutboundEmailQuerySchema,
+} from './dto/outbound-email.dto';
+
+/**
+ * Outbound Email Controller
+ * Modelos de e-mail, envio para leads/clientes e rastreamento de abertura/clique
+ *
+ * PERMISSÕES:
+ * - Modelos: leitura TODOS; escrita SUPERADMIN/ADMINISTRATIVO/GESTOR; exclusão SUPERADMIN/ADMINISTRATIVO
+ * - Envio e histórico: quem tem acesso ao lead/cliente (VENDEDOR os próprios, GESTOR a equipe)
+ * - Rastreamento: público (carregado pelo cliente de e-mail do destinatário)
+ */
+@Controller()
+export class OutboundEmailController {
+  constructor(
+    private readonly templatesService: EmailTemplatesService,
+    private readonly outboundEmailService: OutboundEmailService,
+  ) {}
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // MODELOS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * GET /email-templates?includeInactive=true
+   */
+  @Get('email-templates')
+  async findAllTemplates(@Query('includeInactive') includeInactive?: string) {
+    return this.templatesService.findAll(includeInactive === 'true');
+  }
+
+  /**
+   * GET /email-templates/variables
+   * Variáveis aceitas em assunto e corpo ({{chave}})
+   */
+  @Get('email-templates/variables')
+  getVariables() {
+    return EMAIL_TEMPLATE_VARIABLES;
+  }
+
+  @Post('email-templates')
+  @RequirePermission(Module.SETTINGS, 'create')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+  async createTemplate(
+    @Body(new ZodValidationPipe(CreateEmailTemplateSchema)) dto: CreateEmailTemplateDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.templatesService.create(dto, userId);
+  }
+
+  @Put('email-templates/:id')
+  @RequirePermission(Module.SETTINGS, 'edit')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+  async updateTemplate(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(UpdateEmailTemplateSchema)) dto: UpdateEmailTemplateDto,
+  ) {
+    return this.templatesService.update(id, dto);
+  }
+
+  @Delete('email-templates/:id')
+  @RequirePermission(Module.SETTINGS, 'delete')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeTemplate(@Param('id') id: string) {
+    await this.templatesService.remove(id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ENVIO
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * GET /emails?leadId=... | ?clientId=...
+   * E-mails enviados com status, aberturas e cliques
+   */
+  @Get('emails')
+  async findAll(
+    @Query(new ZodValidationPipe(OutboundEmailQuerySchema)) query: OutboundEmailQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.outboundEmailService.findAll(query, user);
+  }
+
+  /**
+   * POST /emails/preview
+   * Substitui as variáveis sem enviar (avisa variáveis desconhecidas)
+   */
+  @Post('emails/preview')
+  @HttpCode(HttpStatus.OK)
+  async preview(@Body(new ZodValidationPipe(SendEmailSchema)) dto: SendEmailDto, @CurrentUser() user: AuthUser) {
+    return this.outboundEmailService.preview(dto, user);
+  }
+
+  /**
+   * POST /emails/send
+   * Envia pelo SMTP e registra a interação no lead/cliente
+   */
+  @Post('emails/send')
+  async send(@Body(new ZodValidationPipe(SendEmailSchema)) dto: SendEmailDto, @CurrentUser() user: AuthUser) {
+    return this.outboundEmailService.send(dto, user);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // RASTREAMENTO (público)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * GET /email-tracking/:token/open.gif
+   */
+  @Public()
+  @Get('email-tracking/:token/open.gif')
+  async trackOpen(@Param('token') token: string, @Res() res: Response) {
+    await this.outboundEmailService.trackOpen(token);
+
+    res.setHeader('Content-Type', 'image/gif');
+    res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate');
+    res.send(TRACKING_PIXEL);
+  }
+
+  /**
+   * GET /email-tracking/:token/click/:index
+   * Redireciona para a URL gravada no envio
+   */
+  @Public()
+  @Get('email-tracking/:token/click/:index')
+  async trackClick(
+    @Param('token') token: string,
+    @Param('index', ParseIntPipe) index: number,
+    @Res() res: Response,
+  ) {
+    const url = await this.outboundEmailService.trackClick(token, index);
+    if (!url) {
+      throw new NotFoundException('Link não encontrado');
+    }
+    res.redirect(302, url);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '@/prisma/prisma.module';
+import { LeadsModule } from '../leads/leads.module';
+import { ClientsModule } from '../clients/clients.module';
+import { OutboundEmailController } from './outbound-email.controller';
+import { OutboundEmailService } from './outbound-email.service';
+import { EmailTemplatesService } from './email-templates.service';
+
+@Module({
+  imports: [ConfigModule, PrismaModule, LeadsModule, ClientsModule],
+  controllers: [OutboundEmailController],
+  providers: [OutboundEmailService, EmailTemplatesService],
+  exports: [OutboundEmailService], // Caixa de captura registra avisos de não entrega
+})
+export class OutboundEmailModule {}
@@ -0,0 +1,408 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import {
+  InteractionDirection,
+  InteractionType,
+  NotificationType,
+  OutboundEmailStatus,
+  Prisma,
+  ProductType,
+} from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import { AuthUser } from '@/common/interfaces/auth-user.interface';
+import { MailService } from '../mail/mail.service';
+import { LeadsService } from '../leads/leads.service';
+import { ClientsService } from '../clients/clients.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { EmailTemplateValues, renderTemplateVariables } from './email-templates.service';
+import { OutboundEmailQueryDto, SendEmailDto } from './dto/outbound-email.dto';
+
+/** Texto guardado na interação (o e-mail completo fica em OutboundEmail) */
+const MAX_INTERACTION_CONTENT = 10_000;
+
+/** URLs no texto (pontuação final fica fora do link) */
+const URL_PATTERN = /https?:\/\/[^\s<>"]+[^\s<>".,;:!?)\]']/g;
+
+/** GIF transparente 1x1 do pixel de abertura */
+export const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/** Histórico exibido no lead/cliente */
+const OUTBOUND_EMAIL_SELECT = {
+  id: true,
+  toEmail: true,
+  subject: true,
+  status: true,
+  error: true,
+  openCount: true,
+  firstOpenedAt: true,
+  lastOpenedAt: true,
+  clickCount: true,
+  lastClickedAt: true,
+  bouncedAt: true,
+  createdAt: true,
+  sentBy: { select: { id: true, name: true } },
+  template: { select: { id: true, name: true } },
+} satisfies Prisma.OutboundEmailSelect;
+
+/** Destinatário resolvido (lead OU cliente) */
+interface EmailRecipient {
+  kind: 'lead' | 'client';
+  id: string;
+  email: string;
+  values: EmailTemplateValues;
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * E-MAILS DO CRM (VENDEDOR → LEAD/CLIENTE)
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * O vendedor escolhe um modelo (ou gera o texto no Sales AI), edita e envia.
+ * O envio usa o SMTP configurado e vira uma Interaction EMAIL de saída no
+ * lead/cliente (conta como contato no SLA).
+ *
+ * Rastreamento:
+ * - Abertura: pixel /email-tracking/:token/open.gif
+ * - Clique: URLs do texto viram /email-tracking/:token/click/:índice
+ *   (redireciona só para as URLs gravadas no envio)
+ * - Resposta: Reply-To na caixa de captura; o In-Reply-To encadeia no mesmo lead
+ * - Não entrega: recusa do SMTP → FAILED; aviso de não entrega (DSN) recebido
+ *   na caixa de captura → BOUNCED e notificação ao vendedor
+ */
+@Injectable()
+export class OutboundEmailService {
+  private readonly logger = new Logger(OutboundEmailService.name);
+  private readonly trackingUrl: string;
+  private readonly replyTo: string | undefined;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    private readonly mailService: MailService,
+    private readonly leadsService: LeadsService,
+    private readonly clientsService: ClientsService,
+    private readonly notificationsService: NotificationsService,
+  ) {
+    const apiUrl = this.config.get<string>('API_URL', 'http://localhost:3001').replace(/\/$/, '');
+    const apiPrefix = this.config.get<string>('API_PREFIX', 'api/v1');
+    this.trackingUrl = `${apiUrl}/${apiPrefix}/email-tracking`;
+    // Respostas voltam pela caixa de captura (primeiro endereço configurado)
+    this.replyTo = this.config.get<string>('INBOUND_EMAIL_ADDRESS', '').split(',')[0].trim() || undefined;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ENVIO
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Assunto e corpo com as variáveis substituídas (sem enviar)
+   */
+  async preview(dto: SendEmailDto, user: AuthUser) {
+    const recipient = await this.resolveRecipient(dto, user);
+    const subject = renderTemplateVariables(dto.subject, recipient.values);
+    const body = renderTemplateVariables(dto.body, recipient.values);
+
+    return {
+      to: recipient.email,
+      subject: subject.text,
+      body: body.text,
+      unknownVariables: [...new Set([...subject.unknown, ...body.unknown])],
+    };
+  }
+
+  async send(dto: SendEmailDto, user: AuthUser) {
+    const recipient = await this.resolveRecipient(dto, user);
+    const subject = renderTemplateVariables(dto.subject, recipient.values);
+    const body = renderTemplateVariables(dto.body, recipient.values);
+
+    const unknown = [...new Set([...subject.unknown, ...body.unknown])];
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Variáveis desconhecidas: ${unknown.map((key) => `{{${key}}}`).join(', ')}`);
+    }
+
+    if (dto.templateId) {
+      const template = await this.prisma.emailTemplate.findUnique({ where: { id: dto.templateId }, select: { id: true } });
+      if (!template) dto.templateId = undefined;
+    }
+
+    const trackingToken = randomBytes(16).toString('hex');
+    const { html, links } = this.buildHtml(body.text, trackingToken);
+    const target = recipient.kind === 'lead' ? { leadId: recipient.id } : { clientId: recipient.id };
+
+    const email = await this.prisma.outboundEmail.create({
+      data: {
+        ...target,
+        templateId: dto.templateId,
+        sentById: user.id,
+        toEmail: recipient.email,
+        subject: subject.text,
+        textBody: body.text,
+        trackingToken,
+        links,
+      },
+    });
+
+    let messageId: string;
+    try {
+      messageId = await this.mailService.sendCrmEmail({
+        to: recipient.email,
+        fromName: user.name,
+        replyTo: this.replyTo ?? user.email,
+        subject: subject.text,
+        html,
+        text: body.text,
+      });
+    } catch (error) {
+      await this.prisma.outboundEmail.update({
+        where: { id: email.id },
+        data: { status: OutboundEmailStatus.FAILED, error: String(error?.message ?? error).slice(0, 500) },
+      });
+      this.logger.error(`❌ Falha ao enviar e-mail para ${recipient.email}: ${error?.message}`);
+      throw new BadRequestException(`Falha ao enviar o e-mail: ${error?.message ?? 'erro no servidor SMTP'}`);
+    }
+
+    const interaction = await this.prisma.interaction.create({
+      data: {
+        ...target,
+        userId: user.id,
+        type: InteractionType.EMAIL,
+        direction: InteractionDirection.OUTBOUND,
+        title: `E-mail enviado: ${subject.text}`.slice(0, 255),
+        content:
+          body.text.length > MAX_INTERACTION_CONTENT ? `${body.text.slice(0, MAX_INTERACTION_CONTENT)}…` : body.text,
+      },
+    });
+
+    if (recipient.kind === 'lead') {
+      await this.prisma.lead.update({ where: { id: recipient.id }, data: { lastInteractionAt: new Date() } });
+    }
+
+    this.logger.log(`📤 E-mail enviado para ${recipient.kind} ${recipient.id} por ${user.email}`);
+
+    return this.prisma.outboundEmail.update({
+      where: { id: email.id },
+      data: { messageId: this.stripBrackets(messageId), interactionId: interaction.id },
+      select: OUTBOUND_EMAIL_SELECT,
+    });
+  }
+
+  /**
+   * Histórico de e-mails enviados ao lead/cliente, com abertura e cliques
+   */
+  async findAll(query: OutboundEmailQueryDto, user: AuthUser) {
+    if (query.leadId) {
+      await this.leadsService.findOne(query.leadId, user.id, user.role);
+    } else if (query.clientId) {
+      await this.clientsService.findOne(query.clientId, user.id, user.role);
+    }
+
+    return this.prisma.outboundEmail.findMany({
+      where: query.leadId ? { leadId: query.leadId } : { clientId: query.clientId },
+      orderBy: { createdAt: 'desc' },
+      select: OUTBOUND_EMAIL_SELECT,
+    });
+  }
+
+  /**
+   * Lead ou cliente (com validação de acesso) e valores das variáveis
+   */
+  private async resolveRecipient(dto: SendEmailDto, user: AuthUser): Promise<EmailRecipient> {
+    if (dto.leadId) {
+      await this.leadsService.findOne(dto.leadId, user.id, user.role);
+      const lead = await this.prisma.lead.findUniqueOrThrow({
+        where: { id: dto.leadId },
+        include: {
+          vendedor: { select: { name: true, email: true } },
+          interestPlan: { select: { name: true, priceMonthly: true } },
+        },
+      });
+
+      return {
+        kind: 'lead',
+        id: lead.id,
+        email: lead.email,
+        values: this.buildValues({
+          name: lead.name,
+          email: lead.email,
+          company: lead.companyName ?? '',
+          city: lead.city,
+          product: lead.interestProduct,
+          plan: lead.interestPlan,
+          vendedor: lead.vendedor,
+        }),
+      };
+    }
+
+    await this.clientsService.findOne(dto.clientId!, user.id, user.role);
+    const client = await this.prisma.client.findUniqueOrThrow({
+      where: { id: dto.clientId },
+      include: {
+        vendedor: { select: { name: true, email: true } },
+        plan: { select: { name: true, priceMonthly: true } },
+      },
+    });
+
+    return {
+      kind: 'client',
+      id: client.id,
+      email: client.email,
+      values: this.buildValues({
+        name: client.contactName,
+        email: client.email,
+        company: client.company,
+        city: null,
+        product: client.productType,
+        plan: client.plan,
+        vendedor: client.vendedor,
+      }),
+    };
+  }
+
+  private buildValues(data: {
+    name: string;
+    email: string;
+    company: string;
+    city: string | null;
+    product: ProductType;
+    plan: { name: string; priceMonthly: Prisma.Decimal } | null;
+    vendedor: { name: string; email: string } | null;
+  }): EmailTemplateValues {
+    return {
+      nome: data.name,
+      primeiro_nome: data.name.trim().split(/\s+/)[0] ?? '',
+      email: data.email,
+      empresa: data.company,
+      cidade: data.city ?? '',
+      produto: data.product === ProductType.ONE_NEXUS ? 'One Nexus' : 'Nexloc',
+      plano: data.plan?.name ?? '',
+      plano_valor: data.plan
+        ? Number(data.plan.priceMonthly).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })
+        : '',
+      vendedor: data.vendedor?.name ?? '',
+      vendedor_email: data.vendedor?.email ?? '',
+    };
+  }
+
+  /**
+   * Texto → HTML com links rastreados e pixel de abertura
+   */
+  private buildHtml(text: string, token: string): { html: string; links: string[] } {
+    const links: string[] = [];
+    let html = '';
+    let last = 0;
+
+    for (const match of text.matchAll(URL_PATTERN)) {
+      const url = match[0];
+      html += this.escapeHtml(text.slice(last, match.index));
+      html += `<a href="${this.trackingUrl}/${token}/click/${links.length}">${this.escapeHtml(url)}</a>`;
+      links.push(url);
+      last = match.index! + url.length;
+    }
+    html += this.escapeHtml(text.slice(last));
+
+    const paragraphs = html
+      .split(/\n{2,}/)
+      .map((paragraph) => `<p style="margin:0 0 16px;">${paragraph.replace(/\n/g, '<br>')}</p>`)
+      .join('\n');
+
+    return {
+      links,
+      html: `<div style="font-family:Arial,sans-serif;font-size:14px;line-height:1.6;color:#18181b;">
+${paragraphs}
+</div>
+<img src="${this.trackingUrl}/${token}/open.gif" width="1" height="1" alt="" style="display:none;">`,
+    };
+  }
+
+  private escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  private stripBrackets(value: string): string {
+    return value.trim().replace(/^<|>$/g, '');
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // RASTREAMENTO
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Pixel carregado pelo cliente de e-mail (token desconhecido é ignorado)
+   */
+  async trackOpen(token: string): Promise<void> {
+    const now = new Date();
+    await this.prisma.outboundEmail.updateMany({
+      where: { trackingToken: token },
+      data: { openCount: { increment: 1 }, lastOpenedAt: now },
+    });
+    await this.prisma.outboundEmail.updateMany({
+      where: { trackingToken: token, firstOpenedAt: null },
+      data: { firstOpenedAt: now },
+    });
+  }
+
+  /**
+   * Clique em link: registra e devolve a URL original (null = link inexistente)
+   * Clique conta como abertura quando o pixel foi bloqueado
+   */
+  async trackClick(token: string, index: number): Promise<string | null> {
+    const email = await this.prisma.outboundEmail.findUnique({
+      where: { trackingToken: token },
+      select: { id: true, links: true, firstOpenedAt: true },
+    });
+    const url = email?.links[index];
+    if (!email || !url) return null;
+
+    const now = new Date();
+    await this.prisma.outboundEmail.update({
+      where: { id: email.id },
+      data: {
+        clickCount: { increment: 1 },
+        lastClickedAt: now,
+        ...(!email.firstOpenedAt && { firstOpenedAt: now, lastOpenedAt: now, openCount: { increment: 1 } }),
+      },
+    });
+
+    return url;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // NÃO ENTREGA (BOUNCE)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * E-mail enviado com um destes Message-IDs → BOUNCED e aviso ao vendedor
+   * Chamado pela caixa de captura ao receber um aviso de não entrega (DSN)
+   */
+  async registerBounce(messageIds: string[], reason: string): Promise<number> {
+    if (messageIds.length === 0) return 0;
+
+    const emails = await this.prisma.outboundEmail.findMany({
+      where: { messageId: { in: messageIds }, status: OutboundEmailStatus.SENT },
+      select: { id: true, sentById: true, toEmail: true, subject: true, leadId: true, clientId: true },
+    });
+
+    for (const email of emails) {
+      await this.prisma.outboundEmail.update({
+        where: { id: email.id },
+        data: { status: OutboundEmailStatus.BOUNCED, bouncedAt: new Date(), error: reason.slice(0, 500) },
+      });
+
+      this.notificationsService
+        .create({
+          userId: email.sentById,
+          type: NotificationType.EMAIL_BOUNCED,
+          title: 'E-mail não entregue',
+          message: `"${email.subject}" para ${email.toEmail} voltou: ${reason}`,
+          link: email.leadId ? '/leads' : '/clients',
+          metadata: { outboundEmailId: email.id, leadId: email.leadId, clientId: email.clientId },
+        })
+        .catch(() => {});
+
+      this.logger.warn(`↩️ E-mail ${email.id} para ${email.toEmail} não entregue: ${reason}`);
+    }
+
+    return emails.length;
+  }
+}
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import { OUTBOUND_WEBHOOK_EVENTS, OutboundWebhookEventName } from '@/prisma/webhook-events.middleware';
+
+const eventSchema = z.enum(OUTBOUND_WEBHOOK_EVENTS.map((e) => e.event) as [OutboundWebhookEventName, ...OutboundWebhookEventName[]]);
+
+/**
+ * Schema Zod da assinatura de webhook de saída
+ * O segredo HMAC é gerado pelo servidor
+ */
+export const CreateWebhookSubscriptionSchema = z.object({
+  name: z.string().trim().min(2, 'Nome deve ter no mínimo 2 caracteres').max(80),
+  url: z
+    .string()
+    .trim()
+    .url('URL inválida')
+    .max(2000)
+    .refine((url) => /^https?:\/\//i.test(url), 'Use uma URL http(s)'),
+  events: z.array(eventSchema).min(1, 'Selecione ao menos um evento'),
+  isActive: z.boolean().default(true),
+});
+
+export type CreateWebhookSubscriptionDto = z.infer<typeof CreateWebhookSubscriptionSchema>;
+
+export const UpdateWebhookSubscriptionSchema = CreateWebhookSubscriptionSchema.partial();
+
+export type UpdateWebhookSubscriptionDto = z.infer<typeof UpdateWebhookSubscriptionSchema>;
+
+/** Filtros do log de entregas */
+export const WebhookDeliveryQuerySchema = z.object({
+  subscriptionId: z.string().optional(),
+  status: z.nativeEnum(WebhookDeliveryStatus).optional(),
+  event: z.string().max(50).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type WebhookDeliveryQueryDto = z.infer<typeof WebhookDeliveryQuerySchema>;
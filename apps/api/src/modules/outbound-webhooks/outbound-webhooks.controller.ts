@@ -0,0 +1,148 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { UserRole, Module } from '@prisma/client';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+import { OUTBOUND_WEBHOOK_EVENTS } from '@/prisma/webhook-events.middleware';
+import { OutboundWebhooksService } from './outbound-webhooks.service';
+import {
+  CreateWebhookSubscriptionDto,
+  CreateWebhookSubscriptionSchema,
+  UpdateWebhookSubscriptionDto,
+  UpdateWebhookSubscriptionSchema,
+  WebhookDeliveryQueryDto,
+  WebhookDeliveryQuerySchema,
+} from './dto/outbound-webhook.dto';
+
+/**
+ * Outbound Webhooks Controller
+ * Assinaturas de webhooks de saída (eventos do CRM enviados a sistemas externos)
+ *
+ * PERMISSÕES:
+ * - SUPERADMIN e ADMINISTRATIVO (os payloads levam dados de leads, clientes e pagamentos)
+ * - O receptor de teste (POST /outbound-webhooks/echo) fica no WebhookEchoController
+ */
+@Controller('outbound-webhooks')
+@RequirePermission(Module.SETTINGS, 'view')
+@Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+export class OutboundWebhooksController {
+  constructor(private readonly webhooksService: OutboundWebhooksService) {}
+
+  @Get()
+  async findAll() {
+    return this.webhooksService.findAll();
+  }
+
+  /**
+   * GET /outbound-webhooks/events
+   * Eventos disponíveis com descrição
+   */
+  @Get('events')
+  getEvents() {
+    return OUTBOUND_WEBHOOK_EVENTS;
+  }
+
+  /**
+   * GET /outbound-webhooks/deliveries?subscriptionId=&status=&event=&limit=50
+   */
+  @Get('deliveries')
+  async findDeliveries(
+    @Query(new ZodValidationPipe(WebhookDeliveryQuerySchema)) query: WebhookDeliveryQueryDto,
+  ) {
+    return this.webhooksService.findDeliveries(query);
+  }
+
+  /**
+   * POST /outbound-webhooks/deliveries/:id/replay
+   * Reenvia o payload como nova entrega
+   */
+  @Post('deliveries/:id/replay')
+  @RequirePermission(Module.SETTINGS, 'edit')
+  @HttpCode(HttpStatus.OK)
+  async replay(@Param('id') id: string) {
+    return this.webhooksService.replay(id);
+  }
+
+  /**
+   * GET /outbound-webhooks/echo
+   * URL do receptor de teste e entregas recebidas por ele
+   */
+  @Get('echo')
+  getEcho() {
+    return this.webhooksService.getEcho();
+  }
+
+  @Delete('echo')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  clearEcho() {
+    this.webhooksService.clearEchoEntries();
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.webhooksService.findOne(id);
+  }
+
+  /**
+   * POST /outbound-webhooks
+   * Retorna o segredo HMAC gerado
+   */
+  @Post()
+  @RequirePermission(Module.SETTINGS, 'create')
+  async create(
+    @Body(new ZodValidationPipe(CreateWebhookSubscriptionSchema)) dto: CreateWebhookSubscriptionDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.webhooksService.create(dto, userId);
+  }
+
+  @Patch(':id')
+  @RequirePermission(Module.SETTINGS, 'edit')
+  async update(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(UpdateWebhookSubscriptionSchema)) dto: UpdateWebhookSubscriptionDto,
+  ) {
+    return this.webhooksService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @RequirePermission(Module.SETTINGS, 'delete')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string) {
+    await this.webhooksService.remove(id);
+  }
+
+  @Get(':id/secret')
+  async getSecret(@Param('id') id: string) {
+    return this.webhooksService.getSecret(id);
+  }
+
+  @Post(':id/rotate-secret')
+  @RequirePermission(Module.SETTINGS, 'edit')
+  @HttpCode(HttpStatus.OK)
+  async rotateSecret(@Param('id') id: string) {
+    return this.webhooksService.rotateSecret(id);
+  }
+
+  /**
+   * POST /outbound-webhooks/:id/test
+   * Envia um evento "ping" imediatamente e retorna a entrega
+   */
+  @Post(':id/test')
+  @HttpCode(HttpStatus.OK)
+  async test(@Param('id') id: string) {
+    return this.webhooksService.test(id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '@/prisma/prisma.module';
+import { OutboundWebhooksController } from './outbound-webhooks.controller';
+import { WebhookEchoController } from './webhook-echo.controller';
+import { OutboundWebhooksService } from './outbound-webhooks.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+
+@Module({
+  imports: [ConfigModule, PrismaModule],
+  controllers: [OutboundWebhooksController, WebhookEchoController],
+  providers: [OutboundWebhooksService, WebhookDispatcherService],
+})
+export class OutboundWebhooksModule {}
@@ -0,0 +1,317 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '@/prisma/prisma.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { verifyWebhookSignature } from './webhook-signature';
+import {
+  CreateWebhookSubscriptionDto,
+  UpdateWebhookSubscriptionDto,
+  WebhookDeliveryQueryDto,
+} from './dto/outbound-webhook.dto';
+
+/** Dados da assinatura expostos na listagem (segredo só em GET :id/secret) */
+const WEBHOOK_SUBSCRIPTION_SELECT = {
+  id: true,
+  name: true,
+  url: true,
+  events: true,
+  isActive: true,
+  createdBy: { select: { id: true, name: true } },
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.WebhookSubscriptionSelect;
+
+const WEBHOOK_DELIVERY_SELECT = {
+  id: true,
+  subscriptionId: true,
+  subscription: { select: { id: true, name: true, url: true } },
+  eventId: true,
+  event: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastAttemptAt: true,
+  deliveredAt: true,
+  responseStatus: true,
+  responseBody: true,
+  error: true,
+  durationMs: true,
+  replayOfId: true,
+  createdAt: true,
+} satisfies Prisma.WebhookDeliverySelect;
+
+/** Entradas mantidas pelo receptor de teste */
+const ECHO_LIMIT = 50;
+
+export interface WebhookEchoEntry {
+  receivedAt: string;
+  event: string | null;
+  deliveryId: string | null;
+  subscriptionId: string | null;
+  /** null quando a assinatura não foi encontrada (segredo indisponível) */
+  signatureValid: boolean | null;
+  respondedWith: number;
+  body: unknown;
+}
+
+/**
+ * Outbound Webhooks Service
+ * Assinaturas de webhooks de saída, log de entregas, reenvio e receptor de teste (echo)
+ */
+@Injectable()
+export class OutboundWebhooksService {
+  private readonly logger = new Logger(OutboundWebhooksService.name);
+  private readonly echoEntries: WebhookEchoEntry[] = [];
+  private readonly echoUrl: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    private readonly dispatcher: WebhookDispatcherService,
+  ) {
+    const apiUrl = this.config.get<string>('API_URL', 'http://localhost:3001').replace(/\/$/, '');
+    const apiPrefix = this.config.get<string>('API_PREFIX', 'api/v1');
+    this.echoUrl = `${apiUrl}/${apiPrefix}/outbound-webhooks/echo`;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ASSINATURAS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  async findAll() {
+    const subscriptions = await this.prisma.webhookSubscription.findMany({
+      orderBy: { createdAt: 'desc' },
+      select: WEBHOOK_SUBSCRIPTION_SELECT,
+    });
+
+    // Resumo das entregas das últimas 24h por assinatura
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const stats = await this.prisma.webhookDelivery.groupBy({
+      by: ['subscriptionId', 'status'],
+      where: { createdAt: { gte: since } },
+      _count: { _all: true },
+    });
+
+    return subscriptions.map((subscription) => {
+      const own = stats.filter((s) => s.subscriptionId === subscription.id);
+      const count = (status: string) => own.find((s) => s.status === status)?._count._all ?? 0;
+      return {
+        ...subscription,
+        last24h: { success: count('SUCCESS'), failed: count('FAILED'), pending: count('PENDING') },
+      };
+    });
+  }
+
+  async findOne(id: string) {
+    const subscription = await this.prisma.webhookSubscription.findUnique({
+      where: { id },
+      select: WEBHOOK_SUBSCRIPTION_SELECT,
+    });
+    if (!subscription) {
+      throw new NotFoundException(`Webhook ${id} não encontrado`);
+    }
+    return subscription;
+  }
+
+  /**
+   * Cria a assinatura — o segredo HMAC volta nesta resposta (e em GET :id/secret)
+   */
+  async create(dto: CreateWebhookSubscriptionDto, userId: string) {
+    const secret = this.generateSecret();
+    const subscription = await this.prisma.webhookSubscription.create({
+      data: { ...dto, events: [...new Set(dto.events)], secret, createdById: userId },
+      select: WEBHOOK_SUBSCRIPTION_SELECT,
+    });
+
+    this.logger.log(`🪝 Webhook cadastrado: ${subscription.name} → ${subscription.url}`);
+    return { ...subscription, secret };
+  }
+
+  async update(id: string, dto: UpdateWebhookSubscriptionDto) {
+    await this.findOne(id);
+    return this.prisma.webhookSubscription.update({
+      where: { id },
+      data: { ...dto, ...(dto.events && { events: [...new Set(dto.events)] }) },
+      select: WEBHOOK_SUBSCRIPTION_SELECT,
+    });
+  }
+
+  /**
+   * Exclui a assinatura e seu histórico de entregas
+   */
+  async remove(id: string) {
+    await this.findOne(id);
+    await this.prisma.webhookSubscription.delete({ where: { id } });
+    this.logger.log(`🗑️ Webhook removido: ${id}`);
+  }
+
+  async getSecret(id: string) {
+    const subscription = await this.prisma.webhookSubscription.findUnique({
+      where: { id },
+      select: { id: true, secret: true },
+    });
+    if (!subscription) {
+      throw new NotFoundException(`Webhook ${id} não encontrado`);
+    }
+    return subscription;
+  }
+
+  /**
+   * Gera um novo segredo — entregas pendentes passam a ser assinadas com ele
+   */
+  async rotateSecret(id: string) {
+    await this.findOne(id);
+    const secret = this.generateSecret();
+    await this.prisma.webhookSubscription.update({ where: { id }, data: { secret } });
+    this.logger.log(`🔄 Segredo do webhook ${id} renovado`);
+    return { id, secret };
+  }
+
+  /**
+   * Envia um evento "ping" agora, fora da fila
+   */
+  async test(id: string) {
+    const subscription = await this.prisma.webhookSubscription.findUnique({ where: { id } });
+    if (!subscription) {
+      throw new NotFoundException(`Webhook ${id} não encontrado`);
+    }
+
+    const delivery = await this.prisma.webhookDelivery.create({
+      data: {
+        subscriptionId: id,
+        event: 'ping',
+        payload: {
+          id: `ping_${randomBytes(8).toString('hex')}`,
+          event: 'ping',
+          createdAt: new Date().toISOString(),
+          data: { webhook: { id: subscription.id, name: subscription.name, events: subscription.events } },
+        },
+      },
+      include: { subscription: true },
+    });
+
+    await this.dispatcher.attempt(delivery);
+    return this.findDelivery(delivery.id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ENTREGAS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  async findDeliveries(query: WebhookDeliveryQueryDto) {
+    return this.prisma.webhookDelivery.findMany({
+      where: {
+        ...(query.subscriptionId && { subscriptionId: query.subscriptionId }),
+        ...(query.status && { status: query.status }),
+        ...(query.event && { event: query.event }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit,
+      select: WEBHOOK_DELIVERY_SELECT,
+    });
+  }
+
+  async findDelivery(id: string) {
+    const delivery = await this.prisma.webhookDelivery.findUnique({ where: { id }, select: WEBHOOK_DELIVERY_SELECT });
+    if (!delivery) {
+      throw new NotFoundException(`Entrega ${id} não encontrada`);
+    }
+    return delivery;
+  }
+
+  /**
+   * Reenvia o mesmo payload como nova entrega (o histórico da original é preservado)
+   */
+  async replay(id: string) {
+    const original = await this.prisma.webhookDelivery.findUnique({
+      where: { id },
+      include: { subscription: { select: { isActive: true } } },
+    });
+    if (!original) {
+      throw new NotFoundException(`Entrega ${id} não encontrada`);
+    }
+    if (!original.subscription.isActive) {
+      throw new BadRequestException('Reative o webhook antes de reenviar entregas');
+    }
+
+    const delivery = await this.prisma.webhookDelivery.create({
+      data: {
+        subscriptionId: original.subscriptionId,
+        eventId: original.eventId,
+        event: original.event,
+        payload: original.payload as Prisma.InputJsonValue,
+        replayOfId: original.id,
+      },
+      include: { subscription: true },
+    });
+
+    this.logger.log(`🔁 Entrega ${original.id} reenviada como ${delivery.id}`);
+    await this.dispatcher.attempt(delivery);
+    return this.findDelivery(delivery.id);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // RECEPTOR DE TESTE (echo)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Registra uma entrega recebida pelo endpoint echo e confere a assinatura
+   * Guardado em memória (últimas ECHO_LIMIT) — serve apenas para testar o fluxo
+   */
+  async receiveEcho(
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: string,
+    respondWith: number,
+  ): Promise<WebhookEchoEntry> {
+    const header = (name: string) => {
+      const value = headers[name];
+      return (Array.isArray(value) ? value[0] : value) ?? null;
+    };
+
+    const subscriptionId = header('x-nexus-webhook-id');
+    const subscription = subscriptionId
+      ? await this.prisma.webhookSubscription.findUnique({ where: { id: subscriptionId }, select: { secret: true } })
+      : null;
+
+    let body: unknown = rawBody;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      // Mantém o corpo cru
+    }
+
+    const entry: WebhookEchoEntry = {
+      receivedAt: new Date().toISOString(),
+      event: header('x-nexus-event'),
+      deliveryId: header('x-nexus-delivery'),
+      subscriptionId,
+      signatureValid: subscription
+        ? verifyWebhookSignature(subscription.secret, header('x-nexus-signature') ?? undefined, rawBody)
+        : null,
+      respondedWith: respondWith,
+      body,
+    };
+
+    this.echoEntries.unshift(entry);
+    this.echoEntries.splice(ECHO_LIMIT);
+    return entry;
+  }
+
+  /**
+   * URL do receptor (para cadastrar como webhook) e últimas entregas recebidas
+   */
+  getEcho() {
+    return { url: this.echoUrl, entries: this.echoEntries };
+  }
+
+  clearEchoEntries() {
+    this.echoEntries.length = 0;
+  }
+
+  private generateSecret() {
+    return `whsec_${randomBytes(24).toString('base64url')}`;
+  }
+}
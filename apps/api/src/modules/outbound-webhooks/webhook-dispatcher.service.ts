@@ -0,0 +1,332 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { OutboundWebhookEvent, Prisma, WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import { signWebhookPayload } from './webhook-signature';
+
+/** Espera antes de despachar: a operação que gerou o evento precisa ter sido confirmada */
+const DISPATCH_DELAY_MS = 5_000;
+const EVENT_BATCH = 100;
+const DELIVERY_BATCH = 50;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const MAX_ATTEMPTS = 8;
+/** Backoff exponencial: 30s, 2min, 8min, 32min, ~2h, 6h, 6h */
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+const RESPONSE_BODY_LIMIT = 2000;
+const EVENT_RETENTION_DAYS = 30;
+const DELIVERY_RETENTION_DAYS = 90;
+
+const LEAD_PAYLOAD_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  phone: true,
+  companyName: true,
+  status: true,
+  interestProduct: true,
+  stage: { select: { id: true, name: true } },
+  origin: { select: { id: true, name: true } },
+  interestPlan: { select: { id: true, name: true } },
+  vendedor: { select: { id: true, name: true, email: true } },
+  convertedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.LeadSelect;
+
+const CLIENT_SUMMARY_SELECT = { id: true, company: true, contactName: true, email: true } satisfies Prisma.ClientSelect;
+
+type EntityPayload = Record<string, unknown>;
+
+/**
+ * Webhook Dispatcher Service
+ * Despacha os eventos enfileirados pelo middleware Prisma e entrega às assinaturas
+ *
+ * FLUXO:
+ * 1. Evento PENDING (gravado pelo webhook-events.middleware) → monta o payload a partir
+ *    do registro atual; descarta se o registro sumiu ou a mudança foi revertida
+ * 2. Cria uma WebhookDelivery por assinatura ativa inscrita no evento
+ * 3. POST assinado (HMAC) — 2xx é sucesso; falhas voltam com backoff exponencial
+ *    até MAX_ATTEMPTS
+ */
+@Injectable()
+export class WebhookDispatcherService {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private isRunning = false;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  @Cron(CronExpression.EVERY_10_SECONDS, { name: 'outbound-webhooks' })
+  async run() {
+    if (this.isRunning) return; // Ciclo anterior ainda entregando
+    this.isRunning = true;
+
+    try {
+      await this.dispatchEvents();
+      await this.deliverPending();
+    } catch (error) {
+      this.logger.error(`Falha no ciclo de webhooks de saída: ${error.message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Envia uma entrega agora (teste, reenvio ou ciclo do cron)
+   */
+  async attempt(delivery: WebhookDelivery & { subscription: WebhookSubscription }) {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(delivery.subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'GestorNexus-Webhooks/1.0',
+          'X-Nexus-Event': delivery.event,
+          'X-Nexus-Delivery': delivery.id,
+          'X-Nexus-Webhook-Id': delivery.subscriptionId,
+          'X-Nexus-Signature': signWebhookPayload(delivery.subscription.secret, timestamp, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text().catch(() => '')).slice(0, RESPONSE_BODY_LIMIT) || null;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error = err.name === 'TimeoutError' ? `Sem resposta em ${DELIVERY_TIMEOUT_MS / 1000}s` : err.message;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const succeeded = !error;
+    const exhausted = !succeeded && attempts >= MAX_ATTEMPTS;
+
+    const updated = await this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        attempts,
+        status: succeeded ? 'SUCCESS' : exhausted ? 'FAILED' : 'PENDING',
+        lastAttemptAt: new Date(),
+        nextAttemptAt: succeeded || exhausted ? null : new Date(Date.now() + this.retryDelay(attempts)),
+        deliveredAt: succeeded ? new Date() : null,
+        responseStatus,
+        responseBody,
+        error,
+        durationMs: Date.now() - startedAt,
+      },
+    });
+
+    if (exhausted) {
+      this.logger.warn(`⚠️ Webhook ${delivery.event} → ${delivery.subscription.url} falhou ${attempts}x: ${error}`);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Eventos pendentes → entregas por assinatura
+   */
+  private async dispatchEvents() {
+    const events = await this.prisma.outboundWebhookEvent.findMany({
+      where: { status: 'PENDING', createdAt: { lte: new Date(Date.now() - DISPATCH_DELAY_MS) } },
+      orderBy: { createdAt: 'asc' },
+      take: EVENT_BATCH,
+    });
+    if (events.length === 0) return;
+
+    const subscriptions = await this.prisma.webhookSubscription.findMany({
+      where: { isActive: true },
+      select: { id: true, events: true },
+    });
+
+    for (const event of events) {
+      const targets = subscriptions.filter((s) => s.events.includes(event.event));
+      const data = targets.length > 0 ? await this.buildEventData(event) : null;
+
+      await this.prisma.$transaction([
+        ...(data
+          ? targets.map((subscription) =>
+              this.prisma.webhookDelivery.create({
+                data: {
+                  subscriptionId: subscription.id,
+                  eventId: event.id,
+                  event: event.event,
+                  payload: {
+                    id: event.id,
+                    event: event.event,
+                    createdAt: event.createdAt.toISOString(),
+                    data,
+                  } as Prisma.InputJsonObject,
+                  nextAttemptAt: new Date(),
+                },
+              }),
+            )
+          : []),
+        this.prisma.outboundWebhookEvent.update({
+          where: { id: event.id },
+          // Sem assinantes também conta como despachado; sem dados = registro sumiu/revertido
+          data: { status: targets.length > 0 && !data ? 'DISCARDED' : 'DISPATCHED', processedAt: new Date() },
+        }),
+      ]);
+    }
+  }
+
+  private async deliverPending() {
+    const deliveries = await this.prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: new Date() }, subscription: { isActive: true } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: DELIVERY_BATCH,
+      include: { subscription: true },
+    });
+
+    for (const delivery of deliveries) {
+      await this.attempt(delivery);
+    }
+  }
+
+  /**
+   * Payload do evento a partir do estado atual do registro
+   * Retorna null quando o registro não existe ou não reflete mais a mudança capturada
+   */
+  private async buildEventData(event: OutboundWebhookEvent): Promise<EntityPayload | null> {
+    const captured = (event.data ?? {}) as Record<string, unknown>;
+
+    switch (event.entity) {
+      case 'Lead': {
+        const lead = await this.prisma.lead.findUnique({ where: { id: event.entityId }, select: LEAD_PAYLOAD_SELECT });
+        if (!lead) return null;
+
+        if (event.event === 'lead.stage_changed') {
+          if (lead.stage.id !== captured.toStageId) return null;
+          const previousStage = await this.prisma.funnelStage.findUnique({
+            where: { id: String(captured.fromStageId) },
+            select: { id: true, name: true },
+          });
+          return this.serialize({ lead, previousStage });
+        }
+        if (captured.status && lead.status !== captured.status) return null;
+        return this.serialize({ lead });
+      }
+
+      case 'Client': {
+        const client = await this.prisma.client.findUnique({
+          where: { id: event.entityId },
+          select: {
+            ...CLIENT_SUMMARY_SELECT,
+            phone: true,
+            cpfCnpj: true,
+            status: true,
+            productType: true,
+            billingCycle: true,
+            plan: { select: { id: true, name: true } },
+            vendedor: { select: { id: true, name: true, email: true } },
+            convertedFromLeadId: true,
+            closedAt: true,
+            createdAt: true,
+          },
+        });
+        return client ? this.serialize({ client }) : null;
+      }
+
+      case 'Payment': {
+        const payment = await this.prisma.payment.findUnique({
+          where: { id: event.entityId },
+          select: {
+            id: true,
+            amount: true,
+            currency: true,
+            method: true,
+            gateway: true,
+            status: true,
+            dueDate: true,
+            paidAt: true,
+            description: true,
+            invoiceUrl: true,
+            subscriptionId: true,
+            client: { select: CLIENT_SUMMARY_SELECT },
+          },
+        });
+        if (!payment || payment.status !== captured.status) return null;
+        return this.serialize({ payment });
+      }
+
+      case 'Subscription': {
+        const subscription = await this.prisma.subscription.findUnique({
+          where: { id: event.entityId },
+          select: {
+            id: true,
+            status: true,
+            billingCycle: true,
+            amount: true,
+            currentPeriodStart: true,
+            currentPeriodEnd: true,
+            nextBillingDate: true,
+            canceledAt: true,
+            cancellationReason: true,
+            plan: { select: { id: true, name: true } },
+            client: { select: CLIENT_SUMMARY_SELECT },
+          },
+        });
+        if (!subscription || subscription.status !== captured.status) return null;
+        return this.serialize({ subscription });
+      }
+
+      case 'Tenant': {
+        const tenant = await this.prisma.tenant.findUnique({
+          where: { id: event.entityId },
+          select: {
+            id: true,
+            name: true,
+            status: true,
+            systemUrl: true,
+            client: { select: CLIENT_SUMMARY_SELECT },
+          },
+        });
+        if (!tenant || tenant.status !== captured.status) return null;
+        return this.serialize({ tenant });
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Expurgo diário: eventos processados (30 dias) e entregas (90 dias)
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM, { name: 'outbound-webhooks-purge' })
+  async purgeOld() {
+    const day = 24 * 60 * 60 * 1000;
+    const [deliveries, events] = await this.prisma.$transaction([
+      this.prisma.webhookDelivery.deleteMany({
+        where: { createdAt: { lt: new Date(Date.now() - DELIVERY_RETENTION_DAYS * day) }, status: { not: 'PENDING' } },
+      }),
+      this.prisma.outboundWebhookEvent.deleteMany({
+        where: { createdAt: { lt: new Date(Date.now() - EVENT_RETENTION_DAYS * day) }, status: { not: 'PENDING' } },
+      }),
+    ]);
+    if (deliveries.count + events.count > 0) {
+      this.logger.log(`🧹 Webhooks de saída: ${deliveries.count} entregas e ${events.count} eventos antigos removidos`);
+    }
+  }
+
+  private retryDelay(attempts: number) {
+    return Math.min(RETRY_BASE_MS * 4 ** (attempts - 1), RETRY_MAX_MS);
+  }
+
+  /** Decimal → string e Date → ISO (JSON gravado e enviado) */
+  private serialize(data: EntityPayload): EntityPayload {
+    return JSON.parse(JSON.stringify(data));
+  }
+}
@@ -0,0 +1,38 @@
+import { Controller, Post, Query, Req, Res, HttpStatus, RawBodyRequest } from '@nestjs/common';
+import { SkipThrottle } from '@nestjs/throttler';
+import { Request, Response } from 'express';
+import { Public } from '@/common/decorators/public.decorator';
+import { OutboundWebhooksService } from './outbound-webhooks.service';
+
+/**
+ * Webhook Echo Controller
+ * Receptor de teste dos webhooks de saída: cadastre a URL como webhook e acompanhe
+ * as entregas (e a validade da assinatura) em Configurações > Webhooks
+ *
+ * PERMISSÕES:
+ * - Público (como um sistema externo); só registra em memória, sem efeito no CRM
+ */
+@Controller('outbound-webhooks/echo')
+export class WebhookEchoController {
+  constructor(private readonly webhooksService: OutboundWebhooksService) {}
+
+  /**
+   * POST /outbound-webhooks/echo?status=500
+   * ?status=<código> responde com o código informado (simula falhas para testar os reenvios)
+   */
+  @Public()
+  @SkipThrottle()
+  @Post()
+  async receive(
+    @Req() req: RawBodyRequest<Request>,
+    @Res() res: Response,
+    @Query('status') status?: string,
+  ) {
+    const code = Number(status);
+    const respondWith = Number.isInteger(code) && code >= 200 && code <= 599 ? code : HttpStatus.OK;
+    const rawBody = req.rawBody?.toString('utf8') ?? JSON.stringify(req.body ?? {});
+
+    const entry = await this.webhooksService.receiveEcho(req.headers, rawBody, respondWith);
+    res.status(respondWith).json({ received: true, signatureValid: entry.signatureValid });
+  }
+}
@@ -0,0 +1,29 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/** Tolerância do timestamp na verificação (replay de requisições antigas) */
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Assinatura das entregas: X-Nexus-Signature: t=<unix>,v1=<hex>
+ * v1 = HMAC-SHA256(secret, "<t>.<corpo>") — mesmo esquema documentado para os assinantes
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Verifica o cabeçalho X-Nexus-Signature (usado pelo receptor de teste)
+ */
+export function verifyWebhookSignature(secret: string, header: string | undefined, body: string): boolean {
+  if (!header) return false;
+
+  const parts = Object.fromEntries(header.split(',').map((part) => part.trim().split('=', 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body).split('v1=')[1], 'hex');
+  const received = Buffer.from(parts.v1, 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { PARTNER_API_SCOPES, PartnerApiScope } from '@/common/decorators/partner-scope.decorator';
+import { isValidIpRule } from '@/common/utils/ip.utils';
+
+const scopeSchema = z.enum(PARTNER_API_SCOPES.map((s) => s.scope) as [PartnerApiScope, ...PartnerApiScope[]]);
+
+const ipRuleSchema = z
+  .string()
+  .trim()
+  .refine(isValidIpRule, (rule) => ({ message: `IP ou faixa CIDR inválida: ${rule}` }));
+
+/**
+ * Schema Zod para emissão de chave da Partner API
+ * O segredo é gerado pelo servidor e devolvido apenas na resposta da criação
+ */
+export const CreatePartnerApiKeySchema = z.object({
+  name: z.string().trim().min(2, 'Nome deve ter no mínimo 2 caracteres').max(80),
+  scopes: z.array(scopeSchema).min(1, 'Selecione ao menos um escopo'),
+  allowedIps: z.array(ipRuleSchema).max(50).default([]),
+  rateLimitPerMinute: z.coerce.number().int().min(1).max(3000).default(60),
+  expiresAt: z.coerce.date().nullable().optional(),
+});
+
+export type CreatePartnerApiKeyDto = z.infer<typeof CreatePartnerApiKeySchema>;
+
+export const UpdatePartnerApiKeySchema = CreatePartnerApiKeySchema.partial();
+
+export type UpdatePartnerApiKeyDto = z.infer<typeof UpdatePartnerApiKeySchema>;
+
+export const PartnerApiLogQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type PartnerApiLogQueryDto = z.infer<typeof PartnerApiLogQuerySchema>;
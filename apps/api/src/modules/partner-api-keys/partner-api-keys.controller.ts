@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { UserRole, Module } from '@prisma/client';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { PARTNER_API_SCOPES } from '@/common/decorators/partner-scope.decorator';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+import { PartnerApiKeysService } from './partner-api-keys.service';
+import {
+  CreatePartnerApiKeyDto,
+  CreatePartnerApiKeySchema,
+  UpdatePartnerApiKeyDto,
+  UpdatePartnerApiKeySchema,
+  PartnerApiLogQueryDto,
+  PartnerApiLogQuerySchema,
+} from './dto/partner-api-key.dto';
+
+/**
+ * Partner API Keys Controller
+ * Emissão e revogação das credenciais da Partner API (/partner/*)
+ *
+ * PERMISSÕES:
+ * - SUPERADMIN e ADMINISTRATIVO (credenciais dão acesso a dados fora do controle de usuário)
+ */
+@Controller('partner-api-keys')
+@RequirePermission(Module.SETTINGS, 'view')
+@Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+export class PartnerApiKeysController {
+  constructor(private readonly apiKeysService: PartnerApiKeysService) {}
+
+  @Get()
+  async findAll() {
+    return this.apiKeysService.findAll();
+  }
+
+  /**
+   * GET /partner-api-keys/scopes
+   * Escopos disponíveis com descrição
+   */
+  @Get('scopes')
+  getScopes() {
+    return PARTNER_API_SCOPES;
+  }
+
+  /**
+   * POST /partner-api-keys
+   * Retorna o segredo (X-Client-Secret) uma única vez
+   */
+  @Post()
+  @RequirePermission(Module.SETTINGS, 'create')
+  async create(
+    @Body(new ZodValidationPipe(CreatePartnerApiKeySchema)) dto: CreatePartnerApiKeyDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.apiKeysService.create(dto, userId);
+  }
+
+  @Patch(':id')
+  @RequirePermission(Module.SETTINGS, 'edit')
+  async update(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(UpdatePartnerApiKeySchema)) dto: UpdatePartnerApiKeyDto,
+  ) {
+    return this.apiKeysService.update(id, dto);
+  }
+
+  @Post(':id/revoke')
+  @RequirePermission(Module.SETTINGS, 'delete')
+  @HttpCode(HttpStatus.OK)
+  async revoke(@Param('id') id: string, @CurrentUser('id') userId: string) {
+    return this.apiKeysService.revoke(id, userId);
+  }
+
+  /**
+   * GET /partner-api-keys/:id/logs?limit=100
+   * Últimas requisições feitas com a chave
+   */
+  @Get(':id/logs')
+  async findLogs(
+    @Param('id') id: string,
+    @Query(new ZodValidationPipe(PartnerApiLogQuerySchema)) query: PartnerApiLogQueryDto,
+  ) {
+    return this.apiKeysService.findLogs(id, query);
+  }
+}
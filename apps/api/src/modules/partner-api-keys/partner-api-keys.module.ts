@@ -0,0 +1,18 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '@/prisma/prisma.module';
+import { PartnerApiKeysController } from './partner-api-keys.controller';
+import { PartnerApiKeysService } from './partner-api-keys.service';
+
+/**
+ * PartnerApiKeysModule - Global: o PartnerApiGuard e o PartnerApiLogInterceptor
+ * são usados pelos controllers /partner/* de vários módulos
+ */
+@Global()
+@Module({
+  imports: [ConfigModule, PrismaModule],
+  controllers: [PartnerApiKeysController],
+  providers: [PartnerApiKeysService],
+  exports: [PartnerApiKeysService],
+})
+export class PartnerApiKeysModule {}
@@ -0,0 +1,286 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, PartnerApiKey } from '@prisma/client';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { PrismaService } from '@/prisma/prisma.service';
+import {
+  CreatePartnerApiKeyDto,
+  UpdatePartnerApiKeyDto,
+  PartnerApiLogQueryDto,
+} from './dto/partner-api-key.dto';
+
+/** Dados da chave expostos na API (nunca o hash do segredo) */
+const PARTNER_API_KEY_SELECT = {
+  id: true,
+  name: true,
+  clientId: true,
+  secretHint: true,
+  scopes: true,
+  allowedIps: true,
+  rateLimitPerMinute: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  revokedBy: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true } },
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.PartnerApiKeySelect;
+
+/** Escopos da credencial única do Chat Nexus importada do .env */
+const LEGACY_SCOPES = ['leads:read', 'leads:write'];
+
+const LOG_RETENTION_DAYS = 90;
+const RATE_WINDOW_MS = 60_000;
+/** lastUsedAt é gravado no máximo uma vez por minuto por chave */
+const TOUCH_INTERVAL_MS = 60_000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Segundos até a janela reabrir */
+  resetIn: number;
+}
+
+/**
+ * Partner API Keys Service
+ * Credenciais das integrações externas (/partner/*): emissão, revogação, autenticação,
+ * limite de requisições por chave e log de uso
+ *
+ * O limite por minuto é contado em memória — com várias instâncias da API, cada uma
+ * aplica o limite separadamente.
+ */
+@Injectable()
+export class PartnerApiKeysService implements OnModuleInit {
+  private readonly logger = new Logger(PartnerApiKeysService.name);
+  private readonly rateWindows = new Map<string, { start: number; count: number }>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async onModuleInit() {
+    await this.importLegacyCredential().catch((error) =>
+      this.logger.error(`Falha ao importar credencial legada da Partner API: ${error.message}`),
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // GESTÃO (Configurações)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  async findAll() {
+    return this.prisma.partnerApiKey.findMany({
+      orderBy: [{ revokedAt: { sort: 'desc', nulls: 'first' } }, { createdAt: 'desc' }],
+      select: PARTNER_API_KEY_SELECT,
+    });
+  }
+
+  async findOne(id: string) {
+    const key = await this.prisma.partnerApiKey.findUnique({ where: { id }, select: PARTNER_API_KEY_SELECT });
+    if (!key) {
+      throw new NotFoundException(`Chave de API ${id} não encontrada`);
+    }
+    return key;
+  }
+
+  /**
+   * Emite uma chave — o segredo volta somente nesta resposta
+   */
+  async create(dto: CreatePartnerApiKeyDto, userId: string) {
+    const clientId = `nxk_${randomBytes(8).toString('hex')}`;
+    const secret = `nxs_${randomBytes(32).toString('base64url')}`;
+
+    const key = await this.prisma.partnerApiKey.create({
+      data: {
+        name: dto.name,
+        clientId,
+        secretHash: this.hashSecret(secret),
+        secretHint: secret.slice(-4),
+        scopes: [...new Set(dto.scopes)],
+        allowedIps: dto.allowedIps,
+        rateLimitPerMinute: dto.rateLimitPerMinute,
+        expiresAt: dto.expiresAt ?? null,
+        createdById: userId,
+      },
+      select: PARTNER_API_KEY_SELECT,
+    });
+
+    this.logger.log(`🔑 Chave da Partner API emitida: ${key.name} (${clientId})`);
+    return { ...key, secret };
+  }
+
+  async update(id: string, dto: UpdatePartnerApiKeyDto) {
+    const key = await this.findOne(id);
+    if (key.revokedAt) {
+      throw new BadRequestException('Chave revogada não pode ser alterada');
+    }
+
+    return this.prisma.partnerApiKey.update({
+      where: { id },
+      data: {
+        ...dto,
+        ...(dto.scopes && { scopes: [...new Set(dto.scopes)] }),
+      },
+      select: PARTNER_API_KEY_SELECT,
+    });
+  }
+
+  /**
+   * Revoga a chave — definitivo; a integração precisa de uma nova chave
+   */
+  async revoke(id: string, userId: string) {
+    const key = await this.findOne(id);
+    if (key.revokedAt) {
+      throw new BadRequestException('Chave já revogada');
+    }
+
+    const revoked = await this.prisma.partnerApiKey.update({
+      where: { id },
+      data: { revokedAt: new Date(), revokedById: userId },
+      select: PARTNER_API_KEY_SELECT,
+    });
+
+    this.rateWindows.delete(id);
+    this.logger.log(`🚫 Chave da Partner API revogada: ${key.name} (${key.clientId})`);
+    return revoked;
+  }
+
+  async findLogs(id: string, query: PartnerApiLogQueryDto) {
+    await this.findOne(id);
+    return this.prisma.partnerApiRequestLog.findMany({
+      where: { apiKeyId: id },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit,
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // AUTENTICAÇÃO (PartnerApiGuard)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Valida X-Client-Id + X-Client-Secret
+   * Mensagem genérica para não revelar se o clientId existe
+   */
+  async authenticate(clientId: string, secret: string): Promise<PartnerApiKey> {
+    const key = await this.prisma.partnerApiKey.findUnique({ where: { clientId } });
+
+    const expected = Buffer.from(key?.secretHash ?? this.hashSecret(''), 'hex');
+    const received = Buffer.from(this.hashSecret(secret), 'hex');
+    const matches = timingSafeEqual(expected, received);
+
+    if (!key || !matches) {
+      throw new UnauthorizedException('Invalid partner credentials');
+    }
+    if (key.revokedAt) {
+      throw new UnauthorizedException('Partner credentials revoked');
+    }
+    if (key.expiresAt && key.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Partner credentials expired');
+    }
+
+    return key;
+  }
+
+  /**
+   * Janela fixa de 1 minuto por chave
+   */
+  consumeRateLimit(key: Pick<PartnerApiKey, 'id' | 'rateLimitPerMinute'>): RateLimitResult {
+    const now = Date.now();
+    let window = this.rateWindows.get(key.id);
+
+    if (!window || now - window.start >= RATE_WINDOW_MS) {
+      window = { start: now, count: 0 };
+      this.rateWindows.set(key.id, window);
+    }
+
+    window.count++;
+
+    return {
+      allowed: window.count <= key.rateLimitPerMinute,
+      limit: key.rateLimitPerMinute,
+      remaining: Math.max(0, key.rateLimitPerMinute - window.count),
+      resetIn: Math.ceil((window.start + RATE_WINDOW_MS - now) / 1000),
+    };
+  }
+
+  /**
+   * Atualiza último uso (no máximo uma gravação por minuto por chave)
+   */
+  async touch(key: Pick<PartnerApiKey, 'id' | 'lastUsedAt' | 'lastUsedIp'>, ip: string | null) {
+    const isStale = !key.lastUsedAt || Date.now() - key.lastUsedAt.getTime() >= TOUCH_INTERVAL_MS;
+    if (!isStale && key.lastUsedIp === ip) return;
+
+    await this.prisma.partnerApiKey.update({
+      where: { id: key.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ip },
+    });
+  }
+
+  async logRequest(data: {
+    apiKeyId: string;
+    method: string;
+    path: string;
+    statusCode: number;
+    durationMs: number;
+    ip: string | null;
+  }) {
+    await this.prisma.partnerApiRequestLog.create({ data });
+  }
+
+  /**
+   * Expurgo diário dos logs de requisição
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM, { name: 'partner-api-logs-purge' })
+  async purgeOldLogs() {
+    const cutoff = new Date(Date.now() - LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const { count } = await this.prisma.partnerApiRequestLog.deleteMany({ where: { createdAt: { lt: cutoff } } });
+    if (count > 0) {
+      this.logger.log(`🧹 ${count} logs da Partner API removidos (> ${LOG_RETENTION_DAYS} dias)`);
+    }
+  }
+
+  /**
+   * Migra o par CHAT_NEXUS_CLIENT_ID/CHAT_NEXUS_CLIENT_SECRET do .env para uma chave
+   * gerenciável (escopos de leads), mantendo o Chat Nexus funcionando sem troca de credencial.
+   * Depois de importada, a chave é revogável/editável em Configurações como qualquer outra.
+   */
+  private async importLegacyCredential() {
+    const clientId = this.configService.get<string>('CHAT_NEXUS_CLIENT_ID', 'nxc_partner_gestornexus');
+    const secret = this.configService.get<string>('CHAT_NEXUS_CLIENT_SECRET', '');
+    if (!secret) return;
+
+    const existing = await this.prisma.partnerApiKey.findUnique({ where: { clientId }, select: { id: true } });
+    if (existing) return;
+
+    await this.prisma.partnerApiKey.create({
+      data: {
+        name: 'Chat Nexus',
+        clientId,
+        secretHash: this.hashSecret(secret),
+        secretHint: secret.slice(-4),
+        scopes: LEGACY_SCOPES,
+        rateLimitPerMinute: 300,
+      },
+    });
+
+    this.logger.log(`🔑 Credencial do Chat Nexus importada para as chaves da Partner API (${clientId})`);
+  }
+
+  /** Segredos têm 256 bits aleatórios — SHA-256 basta (sem necessidade de bcrypt) */
+  private hashSecret(secret: string) {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+}
@@ -0,0 +1,100 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { PaymentGateway } from '@prisma/client';
+import {
+  CreateChargeInput,
+  GatewayChargeResult,
+  PaymentGatewayAdapter,
+} from './payment-gateway.interface';
+
+/**
+ * AbacatePay Gateway Adapter
+ *
+ * Emite cobranças PIX (billing ONE_TIME) via API v1 do AbacatePay.
+ *
+ * O metadata.payment_id enviado aqui volta no webhook billing.paid,
+ * permitindo ao AbacatePayWebhookService localizar o Payment.
+ *
+ * REFERÊNCIA:
+ * - https://docs.abacatepay.com/pages/payment/create
+ */
+@Injectable()
+export class AbacatePayGatewayAdapter implements PaymentGatewayAdapter {
+  readonly gateway = PaymentGateway.ABACATEPAY;
+  private readonly logger = new Logger(AbacatePayGatewayAdapter.name);
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  private get apiUrl(): string {
+    return this.configService.get<string>('ABACATEPAY_API_URL', 'https://api.abacatepay.com/v1');
+  }
+
+  private get headers(): Record<string, string> {
+    return {
+      Authorization: `Bearer ${this.configService.get<string>('ABACATEPAY_API_KEY', '')}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  async createCharge(input: CreateChargeInput): Promise<GatewayChargeResult> {
+    const webUrl = this.configService.get<string>('WEB_URL', 'http://localhost:5173');
+
+    const { data: response } = await firstValueFrom(
+      this.httpService.post(
+        `${this.apiUrl}/billing/create`,
+        {
+          frequency: 'ONE_TIME',
+          methods: ['PIX'],
+          products: [
+            {
+              externalId: input.paymentId,
+              name: input.description,
+              quantity: 1,
+              price: Math.round(input.amount * 100), // centavos
+            },
+          ],
+          returnUrl: webUrl,
+          completionUrl: webUrl,
+          customer: {
+            name: input.customer.name,
+            email: input.customer.email,
+            cellphone: input.customer.phone,
+            taxId: input.customer.cpfCnpj,
+          },
+          metadata: {
+            payment_id: input.paymentId,
+            client_id: input.customer.clientId,
+          },
+        },
+        { headers: this.headers },
+      ),
+    );
+
+    if (response?.error) {
+      throw new Error(`AbacatePay: ${response.error}`);
+    }
+
+    const billing = response.data;
+
+    this.logger.log(`[AbacatePay] ✅ Cobrança PIX emitida: ${billing.id}`);
+
+    return {
+      externalId: billing.id,
+      invoiceUrl: billing.url ?? null,
+      pixQrCode: billing.qrcode?.qrcode ?? null,
+      pixQrCodeImage: billing.qrcode?.pix_url ?? null,
+      raw: billing,
+    };
+  }
+
+  async cancelCharge(externalId: string): Promise<boolean> {
+    // API v1 não expõe cancelamento de billing — a cobrança expira sozinha (billing.expired)
+    this.logger.warn(`[AbacatePay] Cancelamento não suportado pela API, aguardando expiração: ${externalId}`);
+    return false;
+  }
+}
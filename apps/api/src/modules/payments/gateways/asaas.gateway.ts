@@ -0,0 +1,167 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { PaymentGateway, PaymentMethod } from '@prisma/client';
+import {
+  CreateChargeInput,
+  GatewayChargeResult,
+  GatewayCustomer,
+  PaymentGatewayAdapter,
+  toGatewayDate,
+} from './payment-gateway.interface';
+
+/**
+ * Asaas Gateway Adapter
+ *
+ * Emite cobranças de boleto, cartão e PIX via API v3 do Asaas.
+ *
+ * FLUXO:
+ * 1. Busca customer pelo CPF/CNPJ (cria se não existir)
+ * 2. POST /payments com externalReference = nosso Payment.id
+ * 3. Para PIX, busca o QR Code da cobrança
+ *
+ * O webhook (AsaasWebhookService) localiza o Payment pelo gatewayId
+ * ou pelo externalReference.
+ *
+ * REFERÊNCIA:
+ * - https://docs.asaas.com/reference/criar-nova-cobranca
+ */
+@Injectable()
+export class AsaasGatewayAdapter implements PaymentGatewayAdapter {
+  readonly gateway = PaymentGateway.ASAAS;
+  private readonly logger = new Logger(AsaasGatewayAdapter.name);
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  private get apiUrl(): string {
+    const env = this.configService.get<string>('ASAAS_ENV', 'sandbox');
+    return env === 'production'
+      ? 'https://api.asaas.com/v3'
+      : 'https://api-sandbox.asaas.com/v3';
+  }
+
+  private get headers(): Record<string, string> {
+    return {
+      access_token: this.configService.get<string>('ASAAS_API_KEY', ''),
+      'Content-Type': 'application/json',
+    };
+  }
+
+  async createCharge(input: CreateChargeInput): Promise<GatewayChargeResult> {
+    const customerId = await this.findOrCreateCustomer(input.customer);
+
+    const { data: charge } = await firstValueFrom(
+      this.httpService.post(
+        `${this.apiUrl}/payments`,
+        {
+          customer: customerId,
+          billingType: this.toBillingType(input.method),
+          value: input.amount,
+          dueDate: toGatewayDate(input.dueDate),
+          description: input.description,
+          externalReference: input.paymentId,
+        },
+        { headers: this.headers },
+      ),
+    );
+
+    let pixQrCode: string | null = null;
+    let pixQrCodeImage: string | null = null;
+
+    if (input.method === PaymentMethod.PIX) {
+      try {
+        const { data: pix } = await firstValueFrom(
+          this.httpService.get(`${this.apiUrl}/payments/${charge.id}/pixQrCode`, {
+            headers: this.headers,
+          }),
+        );
+        pixQrCode = pix.payload ?? null;
+        pixQrCodeImage = pix.encodedImage ?? null;
+      } catch (error) {
+        // QR Code pode não estar disponível imediatamente — invoiceUrl continua válido
+        this.logger.warn(`[Asaas] QR Code PIX indisponível para ${charge.id}: ${error?.message}`);
+      }
+    }
+
+    this.logger.log(`[Asaas] ✅ Cobrança emitida: ${charge.id} (${charge.billingType})`);
+
+    return {
+      externalId: charge.id,
+      invoiceUrl: charge.invoiceUrl ?? null,
+      bankSlipUrl: charge.bankSlipUrl ?? null,
+      pixQrCode,
+      pixQrCodeImage,
+      raw: charge,
+    };
+  }
+
+  async cancelCharge(externalId: string): Promise<boolean> {
+    try {
+      await firstValueFrom(
+        this.httpService.delete(`${this.apiUrl}/payments/${externalId}`, {
+          headers: this.headers,
+        }),
+      );
+      this.logger.log(`[Asaas] ✅ Cobrança removida: ${externalId}`);
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `[Asaas] ❌ Falha ao remover cobrança ${externalId}: ` +
+        (error?.response?.data?.errors?.[0]?.description || error?.message || 'Erro desconhecido'),
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Busca customer pelo CPF/CNPJ; cria se não existir
+   */
+  private async findOrCreateCustomer(customer: GatewayCustomer): Promise<string> {
+    const cpfCnpj = customer.cpfCnpj.replace(/\D/g, '');
+
+    const { data: existing } = await firstValueFrom(
+      this.httpService.get(`${this.apiUrl}/customers`, {
+        headers: this.headers,
+        params: { cpfCnpj },
+      }),
+    );
+
+    if (existing?.data?.length > 0) {
+      return existing.data[0].id;
+    }
+
+    const { data: created } = await firstValueFrom(
+      this.httpService.post(
+        `${this.apiUrl}/customers`,
+        {
+          name: customer.name,
+          cpfCnpj,
+          email: customer.email,
+          mobilePhone: customer.phone.replace(/\D/g, ''),
+          externalReference: customer.clientId,
+        },
+        { headers: this.headers },
+      ),
+    );
+
+    this.logger.log(`[Asaas] Customer criado: ${created.id} (${customer.name})`);
+    return created.id;
+  }
+
+  private toBillingType(method: PaymentMethod): string {
+    switch (method) {
+      case PaymentMethod.BOLETO:
+        return 'BOLETO';
+      case PaymentMethod.CARTAO:
+        return 'CREDIT_CARD';
+      case PaymentMethod.PIX:
+        return 'PIX';
+      default:
+        return 'UNDEFINED'; // Cliente escolhe na fatura
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { PaymentGateway } from '@prisma/client';
+import {
+  CreateChargeInput,
+  GatewayChargeResult,
+  PaymentGatewayAdapter,
+} from './payment-gateway.interface';
+
+export interface FakeCharge {
+  externalId: string;
+  gateway: PaymentGateway;
+  input: CreateChargeInput;
+  cancelled: boolean;
+}
+
+/**
+ * Fake Gateway Adapter (testes e desenvolvimento local)
+ *
+ * Ativado com PAYMENT_GATEWAY_MODE=fake. Não faz chamadas HTTP:
+ * gera IDs e URLs locais e guarda as cobranças em memória, para que
+ * testes possam simular o webhook com o externalId retornado.
+ */
+export class FakeGatewayAdapter implements PaymentGatewayAdapter {
+  /** Cobranças emitidas (compartilhado entre instâncias) */
+  static readonly charges = new Map<string, FakeCharge>();
+
+  private readonly logger = new Logger(FakeGatewayAdapter.name);
+
+  constructor(readonly gateway: PaymentGateway) {}
+
+  async createCharge(input: CreateChargeInput): Promise<GatewayChargeResult> {
+    const externalId = `fake_${this.gateway.toLowerCase()}_${randomUUID()}`;
+
+    FakeGatewayAdapter.charges.set(externalId, {
+      externalId,
+      gateway: this.gateway,
+      input,
+      cancelled: false,
+    });
+
+    this.logger.log(`[Fake:${this.gateway}] Cobrança simulada: ${externalId} (R$ ${input.amount})`);
+
+    return {
+      externalId,
+      invoiceUrl: `http://localhost/fake-gateway/${externalId}`,
+      pixQrCode: input.method === 'PIX' ? `00020126FAKE${externalId}` : null,
+      pixQrCodeImage: null,
+      bankSlipUrl: input.method === 'BOLETO' ? `http://localhost/fake-gateway/${externalId}.pdf` : null,
+      raw: { id: externalId, fake: true, amount: input.amount },
+    };
+  }
+
+  async cancelCharge(externalId: string): Promise<boolean> {
+    const charge = FakeGatewayAdapter.charges.get(externalId);
+    if (!charge) return false;
+    charge.cancelled = true;
+    return true;
+  }
+}
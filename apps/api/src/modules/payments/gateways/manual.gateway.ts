@@ -0,0 +1,22 @@
+import { Injectable } from '@nestjs/common';
+import { PaymentGateway } from '@prisma/client';
+import { GatewayChargeResult, PaymentGatewayAdapter } from './payment-gateway.interface';
+
+/**
+ * Manual Gateway Adapter
+ *
+ * Pagamentos manuais (transferência, dinheiro) não geram cobrança externa.
+ * A baixa é feita via POST /payments/:id/mark-as-paid.
+ */
+@Injectable()
+export class ManualGatewayAdapter implements PaymentGatewayAdapter {
+  readonly gateway = PaymentGateway.MANUAL;
+
+  async createCharge(): Promise<GatewayChargeResult | null> {
+    return null;
+  }
+
+  async cancelCharge(): Promise<boolean> {
+    return true;
+  }
+}
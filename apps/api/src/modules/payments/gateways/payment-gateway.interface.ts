@@ -0,0 +1,83 @@
+import { PaymentGateway, PaymentMethod } from '@prisma/client';
+
+/**
+ * Dados do pagador enviados ao gateway na emissão da cobrança
+ */
+export interface GatewayCustomer {
+  clientId: string;
+  name: string;
+  email: string;
+  phone: string;
+  cpfCnpj: string;
+}
+
+/**
+ * Entrada para emissão de uma cobrança (boleto, cartão ou PIX)
+ */
+export interface CreateChargeInput {
+  paymentId: string; // Nosso Payment.id (enviado como referência externa)
+  amount: number; // Valor em reais (ex: 199.90)
+  method: PaymentMethod;
+  dueDate: Date;
+  description: string;
+  customer: GatewayCustomer;
+}
+
+/**
+ * Resultado da emissão no gateway
+ */
+export interface GatewayChargeResult {
+  externalId: string; // ID da cobrança no gateway (usado pelos webhooks)
+  invoiceUrl: string | null; // Página de pagamento / fatura
+  pixQrCode?: string | null; // Código PIX copia e cola
+  pixQrCodeImage?: string | null; // Imagem do QR Code (URL ou base64)
+  bankSlipUrl?: string | null; // PDF do boleto
+  raw: Record<string, unknown>; // Resposta bruta do gateway (salva em gatewayData)
+}
+
+/**
+ * Contrato comum dos adapters de gateway de pagamento.
+ *
+ * Cada valor do enum PaymentGateway tem um adapter correspondente,
+ * resolvido via PaymentGatewayRegistry.
+ */
+export interface PaymentGatewayAdapter {
+  readonly gateway: PaymentGateway;
+
+  /**
+   * Emite a cobrança no gateway.
+   * Retorna null quando o gateway não emite cobranças (ex: MANUAL).
+   */
+  createCharge(input: CreateChargeInput): Promise<GatewayChargeResult | null>;
+
+  /**
+   * Cancela/remove a cobrança no gateway.
+   * Retorna false se o gateway não suporta cancelamento ou a chamada falhou.
+   */
+  cancelCharge(externalId: string): Promise<boolean>;
+}
+
+/**
+ * Gateway padrão por método de pagamento (quando o cliente não define um):
+ * - PIX → AbacatePay
+ * - CARTAO/BOLETO → Asaas
+ * - TRANSFERENCIA → Manual
+ */
+export function defaultGatewayForMethod(method: PaymentMethod): PaymentGateway {
+  switch (method) {
+    case PaymentMethod.PIX:
+      return PaymentGateway.ABACATEPAY;
+    case PaymentMethod.CARTAO:
+    case PaymentMethod.BOLETO:
+      return PaymentGateway.ASAAS;
+    default:
+      return PaymentGateway.MANUAL;
+  }
+}
+
+/**
+ * Converte data para o formato YYYY-MM-DD esperado pelos gateways
+ */
+export function toGatewayDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
@@ -0,0 +1,58 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentGateway } from '@prisma/client';
+import { PaymentGatewayAdapter } from './payment-gateway.interface';
+import { AsaasGatewayAdapter } from './asaas.gateway';
+import { AbacatePayGatewayAdapter } from './abacatepay.gateway';
+import { ManualGatewayAdapter } from './manual.gateway';
+import { FakeGatewayAdapter } from './fake.gateway';
+
+/**
+ * Payment Gateway Registry
+ *
+ * Resolve o adapter correspondente a cada valor de PaymentGateway.
+ *
+ * MODOS (PAYMENT_GATEWAY_MODE):
+ * - live (padrão): Asaas/AbacatePay reais
+ * - fake: todos os gateways (exceto MANUAL) usam FakeGatewayAdapter
+ */
+@Injectable()
+export class PaymentGatewayRegistry implements OnModuleInit {
+  private readonly logger = new Logger(PaymentGatewayRegistry.name);
+  private readonly adapters = new Map<PaymentGateway, PaymentGatewayAdapter>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    asaas: AsaasGatewayAdapter,
+    abacatePay: AbacatePayGatewayAdapter,
+    manual: ManualGatewayAdapter,
+  ) {
+    const useFake = this.isFakeMode;
+
+    for (const adapter of [asaas, abacatePay]) {
+      this.adapters.set(
+        adapter.gateway,
+        useFake ? new FakeGatewayAdapter(adapter.gateway) : adapter,
+      );
+    }
+    this.adapters.set(manual.gateway, manual);
+  }
+
+  onModuleInit() {
+    if (this.isFakeMode) {
+      this.logger.warn('⚠️ PAYMENT_GATEWAY_MODE=fake — cobranças NÃO serão emitidas nos gateways reais');
+    }
+  }
+
+  private get isFakeMode(): boolean {
+    return this.configService.get<string>('PAYMENT_GATEWAY_MODE', 'live') === 'fake';
+  }
+
+  get(gateway: PaymentGateway): PaymentGatewayAdapter {
+    const adapter = this.adapters.get(gateway);
+    if (!adapter) {
+      throw new Error(`Gateway de pagamento não suportado: ${gateway}`);
+    }
+    return adapter;
+  }
+}
@@ -27,6 +27,7 @@ import { AuthUser } from '@/common/interfaces/auth-user.interface';
  * - GET: Todos usuários autenticados (com scoping por role)
  * - POST/PUT: Apenas SUPERADMIN e ADMINISTRATIVO
  * - Webhooks dos gateways também podem criar/atualizar (via WebhooksModule)
+ * - Criar um pagamento emite a cobrança no gateway (Asaas/AbacatePay)
  *
  * SCOPING:
  * - SUPERADMIN/ADMINISTRATIVO: Veem todos os pagamentos
@@ -135,6 +136,19 @@ export class PaymentsController {
     return this.paymentsService.markAsPaid(id, user.id, user.role);
   }
 
+  /**
+   * POST /payments/:id/issue-charge
+   * (Re)emite a cobrança no gateway (boleto, cartão ou PIX)
+   * Útil quando a emissão automática falhou (ver gatewayData.chargeError)
+   *
+   * REQUER: SUPERADMIN ou ADMINISTRATIVO
+   */
+  @Post(':id/issue-charge')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async issueCharge(@Param('id') id: string) {
+    return this.paymentsService.issueCharge(id);
+  }
+
   /**
    * POST /payments/:id/cancel
    * Cancela um pagamento
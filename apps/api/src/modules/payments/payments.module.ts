@@ -1,10 +1,32 @@
 import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
 import { PaymentsController } from './payments.controller';
 import { PaymentsService } from './payments.service';
+import { FinanceModule } from '../finance/finance.module';
+import { NfseModule } from '../nfse/nfse.module';
+import { AsaasGatewayAdapter } from './gateways/asaas.gateway';
+import { AbacatePayGatewayAdapter } from './gateways/abacatepay.gateway';
+import { ManualGatewayAdapter } from './gateways/manual.gateway';
+import { PaymentGatewayRegistry } from './gateways/payment-gateway.registry';
 
 @Module({
+  imports: [
+    HttpModule.register({
+      timeout: 15000,
+      maxRedirects: 3,
+    }),
+    FinanceModule,
+    NfseModule,
+  ],
   controllers: [PaymentsController],
-  providers: [PaymentsService],
-  exports: [PaymentsService], // Exportar para uso em WebhooksModule
+  providers: [
+    PaymentsService,
+    // Adapters de gateway (emissão de cobranças)
+    AsaasGatewayAdapter,
+    AbacatePayGatewayAdapter,
+    ManualGatewayAdapter,
+    PaymentGatewayRegistry,
+  ],
+  exports: [PaymentsService, PaymentGatewayRegistry], // Exportar para uso em WebhooksModule e SubscriptionModule
 })
 export class PaymentsModule {}
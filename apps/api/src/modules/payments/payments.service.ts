@@ -6,9 +6,13 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '@/prisma/prisma.service';
+import { FinanceService } from '../finance/finance.service';
+import { NfseService } from '../nfse/nfse.service';
+import { MailService } from '../mail/mail.service';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { UpdatePaymentDto } from './dto/update-payment.dto';
-import { UserRole, PaymentStatus, PaymentMethod } from '@prisma/client';
+import { PaymentGatewayRegistry } from './gateways/payment-gateway.registry';
+import { UserRole, PaymentStatus, PaymentMethod, Payment, Prisma } from '@prisma/client';
 
 /**
  * Payments Service
@@ -22,12 +26,21 @@ import { UserRole, PaymentStatus, PaymentMethod } from '@prisma/client';
  * AUTOMAÇÃO:
  * - Pagamentos são geralmente criados/atualizados por webhooks dos gateways
  * - Este service também permite criação/atualização manual por admins
+ * - Ao criar um pagamento (manual ou renovação), a cobrança é emitida no
+ *   gateway via PaymentGatewayRegistry (Asaas, AbacatePay ou fake)
+ * - Pagamento confirmado dispara a emissão da NFS-e; estorno cancela a nota
  */
 @Injectable()
 export class PaymentsService {
   private readonly logger = new Logger(PaymentsService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly gatewayRegistry: PaymentGatewayRegistry,
+    private readonly financeService: FinanceService,
+    private readonly nfseService: NfseService,
+    private readonly mailService: MailService,
+  ) {}
 
   /**
    * Listar pagamentos (com scoping por role)
@@ -121,6 +134,9 @@ export class PaymentsService {
             },
           },
         },
+        serviceInvoice: {
+          select: { id: true, status: true, number: true, pdfUrl: true, lastError: true },
+        },
       },
       orderBy: { dueDate: 'desc' },
     });
@@ -232,9 +248,232 @@ export class PaymentsService {
       `✅ Pagamento criado: R$ ${payment.amount} - Cliente: ${client.company}${payment.dueDate ? ` - Vencimento: ${payment.dueDate.toLocaleDateString('pt-BR')}` : ''}`,
     );
 
+    // Emitir cobrança no gateway (exceto se já veio com externalId ou já está pago)
+    if (!payment.externalId && payment.status === PaymentStatus.PENDING) {
+      const charged = await this.issueCharge(payment.id);
+      return { ...payment, ...charged };
+    }
+
     return payment;
   }
 
+  /**
+   * Emite a cobrança no gateway do pagamento (boleto, cartão ou PIX)
+   * e grava externalId/gatewayId/invoiceUrl para os webhooks fecharem o ciclo.
+   *
+   * Graceful degradation: falha no gateway NÃO desfaz o Payment —
+   * o erro fica em gatewayData.chargeError (mesclado aos dados já gravados,
+   * sem perder link/QR de emissões anteriores) e a emissão pode ser refeita via
+   * POST /payments/:id/issue-charge.
+   */
+  async issueCharge(id: string) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id },
+      include: { client: true },
+    });
+
+    if (!payment) {
+      throw new NotFoundException(`Pagamento ${id} não encontrado`);
+    }
+
+    if (payment.externalId) {
+      throw new BadRequestException('Cobrança já emitida no gateway');
+    }
+
+    if (payment.status !== PaymentStatus.PENDING && payment.status !== PaymentStatus.OVERDUE) {
+      throw new BadRequestException(`Não é possível emitir cobrança para pagamento ${payment.status}`);
+    }
+
+    const adapter = this.gatewayRegistry.get(payment.gateway);
+    const { chargeError: _error, chargeFailedAt: _failedAt, ...previousData } =
+      (payment.gatewayData as Record<string, unknown> | null) ?? {};
+
+    try {
+      const charge = await adapter.createCharge({
+        paymentId: payment.id,
+        amount: Number(payment.amount),
+        method: payment.method,
+        dueDate: payment.dueDate ?? new Date(),
+        description: payment.description || `Mensalidade - ${payment.client.company}`,
+        customer: {
+          clientId: payment.clientId,
+          name: payment.client.company || payment.client.contactName,
+          email: payment.client.email,
+          phone: payment.client.phone,
+          cpfCnpj: payment.client.cpfCnpj,
+        },
+      });
+
+      // Gateway sem cobrança externa (MANUAL)
+      if (!charge) {
+        return payment;
+      }
+
+      const updated = await this.prisma.payment.update({
+        where: { id },
+        data: {
+          externalId: charge.externalId,
+          gatewayId: charge.externalId,
+          invoiceUrl: charge.invoiceUrl,
+          gatewayData: {
+            ...previousData,
+            ...charge.raw,
+            pixQrCode: charge.pixQrCode ?? null,
+            pixQrCodeImage: charge.pixQrCodeImage ?? null,
+            bankSlipUrl: charge.bankSlipUrl ?? null,
+          } as Prisma.InputJsonValue,
+        },
+      });
+
+      this.logger.log(
+        `💳 Cobrança emitida (${payment.gateway}): ${charge.externalId} - Cliente: ${payment.client.company}`,
+      );
+
+      return updated;
+    } catch (error) {
+      const message =
+        error?.response?.data?.errors?.[0]?.description ||
+        error?.response?.data?.error ||
+        error?.message ||
+        'Erro desconhecido';
+
+      this.logger.error(
+        `❌ Falha ao emitir cobrança ${payment.gateway} para pagamento ${id}: ${message}`,
+      );
+
+      return this.prisma.payment.update({
+        where: { id },
+        data: {
+          gatewayData: {
+            ...previousData,
+            chargeError: message,
+            chargeFailedAt: new Date().toISOString(),
+          } as Prisma.InputJsonValue,
+        },
+      });
+    }
+  }
+
+  /**
+   * Segunda via de uma cobrança em aberto (boleto/PIX)
+   * Emite a cobrança antes se a emissão automática tiver falhado e, com sendEmail,
+   * reenvia o link da fatura e o PIX copia e cola para o e-mail do cliente
+   */
+  async sendSecondCopy(id: string, sendEmail = true) {
+    let payment = await this.prisma.payment.findUnique({
+      where: { id },
+      include: { client: true },
+    });
+
+    if (!payment) {
+      throw new NotFoundException(`Pagamento ${id} não encontrado`);
+    }
+
+    if (payment.status !== PaymentStatus.PENDING && payment.status !== PaymentStatus.OVERDUE) {
+      throw new BadRequestException(`Pagamento ${payment.status} não tem cobrança em aberto`);
+    }
+
+    if (!payment.externalId) {
+      await this.issueCharge(id);
+      payment = await this.prisma.payment.findUniqueOrThrow({ where: { id }, include: { client: true } });
+    }
+
+    const gatewayData = (payment.gatewayData ?? {}) as Record<string, unknown>;
+    const copy = {
+      paymentId: payment.id,
+      amount: Number(payment.amount),
+      dueDate: payment.dueDate,
+      method: payment.method,
+      invoiceUrl: payment.invoiceUrl,
+      bankSlipUrl: (gatewayData.bankSlipUrl as string | null) ?? null,
+      pixQrCode: (gatewayData.pixQrCode as string | null) ?? null,
+    };
+
+    if (!copy.invoiceUrl && !copy.bankSlipUrl && !copy.pixQrCode) {
+      throw new BadRequestException(
+        (gatewayData.chargeError as string) || 'Cobrança sem boleto ou PIX disponível no gateway',
+      );
+    }
+
+    let emailSent = false;
+    if (sendEmail && payment.client.email) {
+      emailSent = await this.mailService.sendPaymentCopyEmail({
+        to: payment.client.email,
+        name: payment.client.contactName,
+        company: payment.client.company,
+        amount: copy.amount,
+        dueDate: payment.dueDate,
+        invoiceUrl: copy.invoiceUrl,
+        bankSlipUrl: copy.bankSlipUrl,
+        pixQrCode: copy.pixQrCode,
+      });
+    }
+
+    return { ...copy, emailSent, email: emailSent ? payment.client.email : null };
+  }
+
+  /**
+   * Dá baixa na FinanceTransaction da subscription quando o pagamento é confirmado
+   * (manual ou via webhook). Reaproveita FinanceService.markAsPaid, que reativa
+   * cliente/subscription, sincroniza o tenant e notifica o vendedor.
+   *
+   * Só quita a receita do mesmo valor com vencimento dentro do período pago —
+   * sem correspondência, registra no log e não mexe em nada.
+   */
+  async settleSubscriptionCharge(
+    payment: Pick<Payment, 'id' | 'subscriptionId' | 'amount' | 'dueDate' | 'periodStart' | 'periodEnd'>,
+  ) {
+    if (!payment.subscriptionId) return;
+
+    try {
+      const transaction = await this.prisma.financeTransaction.findFirst({
+        where: {
+          subscriptionId: payment.subscriptionId,
+          type: 'INCOME',
+          status: { in: ['PENDING', 'OVERDUE'] },
+          amount: payment.amount,
+          dueDate: this.paymentPeriodFilter(payment),
+        },
+        orderBy: { dueDate: 'asc' },
+      });
+
+      if (!transaction) {
+        this.logger.warn(
+          `⚠️ Pagamento ${payment.id} sem cobrança correspondente na subscription ${payment.subscriptionId} (R$ ${payment.amount}) — nada quitado`,
+        );
+        return;
+      }
+
+      await this.financeService.markAsPaid(transaction.id);
+
+      this.logger.log(
+        `✅ FinanceTransaction ${transaction.id} quitada pelo pagamento ${payment.id}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `❌ Erro ao quitar transação da subscription ${payment.subscriptionId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Janela de vencimento da FinanceTransaction correspondente ao pagamento:
+   * do dia de início do período (ou do vencimento) até o fim do período
+   * (dueDate da transação é @db.Date — compara pelo dia em UTC)
+   */
+  private paymentPeriodFilter(
+    payment: Pick<Payment, 'dueDate' | 'periodStart' | 'periodEnd'>,
+  ): Prisma.DateTimeNullableFilter | undefined {
+    const start = payment.periodStart ?? payment.dueDate;
+    if (!start) return undefined;
+
+    const startDay = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
+    const nextDay = new Date(startDay.getTime() + 24 * 60 * 60 * 1000);
+    const end = payment.periodEnd && payment.periodEnd > nextDay ? payment.periodEnd : nextDay;
+
+    return { gte: startDay, lt: end };
+  }
+
   /**
    * Atualizar pagamento
    */
@@ -296,6 +535,13 @@ export class PaymentsService {
       `✅ Pagamento atualizado: R$ ${updated.amount} - Cliente: ${payment.client.company}`,
     );
 
+    // NFS-e acompanha a mudança manual de status
+    if (dto.status === PaymentStatus.PAID && payment.status !== PaymentStatus.PAID) {
+      await this.nfseService.requestIssuance(id);
+    } else if (dto.status === PaymentStatus.REFUNDED && payment.status !== PaymentStatus.REFUNDED) {
+      await this.nfseService.cancelForPayment(id, 'Pagamento estornado ao cliente');
+    }
+
     return updated;
   }
 
@@ -342,6 +588,9 @@ export class PaymentsService {
       `✅ Pagamento marcado como pago: R$ ${updated.amount} - Cliente: ${payment.client.company}`,
     );
 
+    await this.settleSubscriptionCharge(updated);
+    await this.nfseService.requestIssuance(updated.id);
+
     return updated;
   }
 
@@ -376,6 +625,11 @@ export class PaymentsService {
       throw new BadRequestException('Pagamento já está cancelado');
     }
 
+    // Remover cobrança no gateway (best-effort — não bloqueia o cancelamento local)
+    if (payment.externalId) {
+      await this.gatewayRegistry.get(payment.gateway).cancelCharge(payment.externalId);
+    }
+
     const updated = await this.prisma.payment.update({
       where: { id },
       data: {
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+/**
+ * Schema Zod para ajuste manual da correspondência de um lançamento
+ * - ignore: descarta o lançamento
+ * - financeTransactionId/paymentId: substitui a sugestão automática
+ * - ambos nulos (sem ignore): volta para "sem correspondência"
+ */
+export const UpdateEntryMatchSchema = z
+  .object({
+    financeTransactionId: z.string().min(1).nullable().optional(),
+    paymentId: z.string().min(1).nullable().optional(),
+    ignore: z.boolean().optional(),
+  })
+  .refine((data) => !(data.ignore && (data.financeTransactionId || data.paymentId)), {
+    message: 'Não é possível ignorar e vincular o lançamento ao mesmo tempo',
+  });
+
+/**
+ * Schema Zod para confirmar lançamentos sugeridos (baixa como pago)
+ */
+export const ConfirmEntriesSchema = z.object({
+  entryIds: z.array(z.string().min(1)).min(1, 'Selecione ao menos um lançamento'),
+});
+
+export type UpdateEntryMatchDto = z.infer<typeof UpdateEntryMatchSchema>;
+export type ConfirmEntriesDto = z.infer<typeof ConfirmEntriesSchema>;
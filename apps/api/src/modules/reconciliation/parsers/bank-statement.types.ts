@@ -0,0 +1,42 @@
+import { BankStatementFormat } from '@prisma/client';
+
+/**
+ * Crédito extraído de um arquivo bancário (valor sempre positivo)
+ */
+export interface ParsedBankEntry {
+  externalId: string | null;      // FITID (OFX) ou nosso número (CNAB)
+  documentNumber: string | null;  // Seu número / número do documento (CNAB)
+  date: Date;                     // Data do crédito (UTC 00:00)
+  amount: number;
+  description: string;
+  payerDocument: string | null;   // CPF/CNPJ, somente dígitos
+  payerName: string | null;
+}
+
+export interface ParsedBankStatement {
+  format: BankStatementFormat;
+  bankCode: string | null;
+  entries: ParsedBankEntry[];
+}
+
+/**
+ * Data de calendário sem fuso (colunas @db.Date)
+ */
+export function toDateOnly(year: number, month: number, day: number): Date | null {
+  if (!year || !month || !day || month > 12 || day > 31) return null;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * CPF/CNPJ somente dígitos. No CNAB o documento vem com zeros à esquerda
+ * e o tipo de inscrição informa o tamanho real (1 = CPF, 2 = CNPJ)
+ */
+export function normalizeDocument(value: string | null | undefined, kind?: 'CPF' | 'CNPJ'): string | null {
+  const digits = (value ?? '').replace(/\D/g, '');
+  if (!digits || /^0+$/.test(digits)) return null;
+
+  if (kind === 'CPF') return digits.slice(-11).padStart(11, '0');
+  if (kind === 'CNPJ') return digits.slice(-14).padStart(14, '0');
+
+  return digits.length === 11 || digits.length === 14 ? digits : null;
+}
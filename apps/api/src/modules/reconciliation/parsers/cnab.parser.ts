@@ -0,0 +1,150 @@
+import { BankStatementFormat } from '@prisma/client';
+import { ParsedBankEntry, ParsedBankStatement, normalizeDocument, toDateOnly } from './bank-statement.types';
+
+/**
+ * Parsers de arquivo RETORNO de cobrança (CNAB)
+ *
+ * Só entram ocorrências de liquidação (título pago). Entradas confirmadas,
+ * baixas e rejeições são ignoradas. Posições abaixo são 1-based, como
+ * nos manuais dos bancos.
+ */
+
+/** Movimentos de liquidação no CNAB 240 (segmento T/U) */
+const CNAB240_SETTLEMENT_CODES = ['06', '17'];
+
+/** Ocorrências de liquidação no CNAB 400 (Bradesco/Itaú) */
+const CNAB400_SETTLEMENT_CODES = ['06', '07', '08', '15', '17'];
+
+/**
+ * CNAB 240 (FEBRABAN): registros detalhe tipo 3, segmentos T + U por título
+ * - T: nosso número, seu número, vencimento, valor do título, sacado
+ * - U: valor pago, data da ocorrência e data do crédito
+ */
+export function parseCnab240(content: string): ParsedBankStatement {
+  const lines = splitLines(content, 240);
+  const entries: ParsedBankEntry[] = [];
+  const bankCode = lines[0] ? slice(lines[0], 1, 3) : null;
+
+  let pendingT: string | null = null;
+
+  for (const line of lines) {
+    if (slice(line, 8, 8) !== '3') continue;
+
+    const segment = slice(line, 14, 14).toUpperCase();
+
+    if (segment === 'T') {
+      pendingT = line;
+      continue;
+    }
+
+    if (segment !== 'U' || !pendingT) continue;
+
+    const t = pendingT;
+    pendingT = null;
+
+    const movement = slice(t, 16, 17);
+    if (!CNAB240_SETTLEMENT_CODES.includes(movement)) continue;
+
+    const amount = parseCents(slice(line, 78, 92)) || parseCents(slice(t, 82, 96));
+    const date = parseDdMmYyyy(slice(line, 146, 153)) || parseDdMmYyyy(slice(line, 138, 145));
+    if (!amount || !date) continue;
+
+    const ourNumber = slice(t, 38, 57).trim() || null;
+    const documentNumber = slice(t, 59, 73).trim() || null;
+    const payerName = slice(t, 149, 188).trim() || null;
+    const documentKind = slice(t, 133, 133) === '1' ? 'CPF' : 'CNPJ';
+
+    entries.push({
+      externalId: ourNumber,
+      documentNumber,
+      date,
+      amount,
+      description: buildDescription(payerName, documentNumber, ourNumber),
+      payerDocument: normalizeDocument(slice(t, 134, 148), documentKind),
+      payerName,
+    });
+  }
+
+  return { format: BankStatementFormat.CNAB240, bankCode, entries };
+}
+
+/**
+ * CNAB 400: registros detalhe tipo 1 (layout comum Bradesco/Itaú)
+ * O 400 não traz o CPF/CNPJ do pagador de forma padronizada — o match
+ * depende de valor, data e nosso número/seu número
+ */
+export function parseCnab400(content: string): ParsedBankStatement {
+  const lines = splitLines(content, 400);
+  const entries: ParsedBankEntry[] = [];
+  const bankCode = lines[0] ? slice(lines[0], 77, 79) : null;
+
+  for (const line of lines) {
+    if (slice(line, 1, 1) !== '1') continue;
+
+    const occurrence = slice(line, 109, 110);
+    if (!CNAB400_SETTLEMENT_CODES.includes(occurrence)) continue;
+
+    const amount = parseCents(slice(line, 254, 266)) || parseCents(slice(line, 153, 165));
+    const date = parseDdMmYy(slice(line, 296, 301)) || parseDdMmYy(slice(line, 111, 116));
+    if (!amount || !date) continue;
+
+    // Nosso número: Itaú 63-70, Bradesco 71-82
+    const ourNumber = (bankCode === '237' ? slice(line, 71, 82) : slice(line, 63, 70)).trim() || null;
+    const documentNumber = slice(line, 117, 126).trim() || slice(line, 38, 62).trim() || null;
+
+    entries.push({
+      externalId: ourNumber,
+      documentNumber,
+      date,
+      amount,
+      description: buildDescription(null, documentNumber, ourNumber),
+      payerDocument: null,
+      payerName: null,
+    });
+  }
+
+  return { format: BankStatementFormat.CNAB400, bankCode, entries };
+}
+
+// ──────────────────────────────────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────────────────────────────────
+
+function splitLines(content: string, width: number): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\r$/, ''))
+    .filter((line) => line.length >= width - 2);
+}
+
+/** Trecho por posição 1-based inclusiva */
+function slice(line: string, start: number, end: number): string {
+  return line.substring(start - 1, end);
+}
+
+function parseCents(value: string): number | null {
+  const digits = value.replace(/\D/g, '');
+  if (!digits) return null;
+  const amount = parseInt(digits, 10) / 100;
+  return amount > 0 ? amount : null;
+}
+
+function parseDdMmYyyy(value: string): Date | null {
+  const match = value.match(/^(\d{2})(\d{2})(\d{4})$/);
+  if (!match) return null;
+  return toDateOnly(Number(match[3]), Number(match[2]), Number(match[1]));
+}
+
+function parseDdMmYy(value: string): Date | null {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return null;
+  return toDateOnly(2000 + Number(match[3]), Number(match[2]), Number(match[1]));
+}
+
+function buildDescription(payerName: string | null, documentNumber: string | null, ourNumber: string | null): string {
+  const parts = ['Liquidação de título'];
+  if (payerName) parts.push(payerName);
+  if (documentNumber) parts.push(`doc ${documentNumber}`);
+  else if (ourNumber) parts.push(`nosso nº ${ourNumber}`);
+  return parts.join(' - ').substring(0, 300);
+}
@@ -0,0 +1,28 @@
+import { BadRequestException } from '@nestjs/common';
+import { ParsedBankStatement } from './bank-statement.types';
+import { parseOfx } from './ofx.parser';
+import { parseCnab240, parseCnab400 } from './cnab.parser';
+
+export * from './bank-statement.types';
+
+/**
+ * Detecta o formato pelo conteúdo (não pela extensão) e extrai os créditos
+ * OFX: cabeçalho OFXHEADER ou tag <OFX> · CNAB: largura fixa das linhas (240/400)
+ */
+export function parseBankStatement(buffer: Buffer): ParsedBankStatement {
+  // CNAB e OFX 1.x são gerados em Latin-1 pelos bancos
+  const content = buffer.toString('latin1');
+
+  if (/OFXHEADER|<OFX>/i.test(content.substring(0, 2000))) {
+    return parseOfx(content);
+  }
+
+  const firstLine = content.split(/\r?\n/)[0]?.replace(/\r$/, '') ?? '';
+
+  if (firstLine.length === 240) return parseCnab240(content);
+  if (firstLine.length === 400) return parseCnab400(content);
+
+  throw new BadRequestException(
+    'Formato não reconhecido. Envie um extrato OFX ou um arquivo retorno CNAB 240/400.',
+  );
+}
@@ -0,0 +1,16 @@
+import { parseOfx } from './ofx.parser';
+
+const ofx = (amount: string) =>
+  `<OFX><BANKID>341<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260810<TRNAMT>${amount}<FITID>1<NAME>PIX RECEBIDO</STMTTRN></OFX>`;
+
+describe('parseOfx', () => {
+  it.each([
+    ['1234.56', 1234.56],
+    ['1,234.56', 1234.56],
+    ['1234,56', 1234.56],
+    ['1.234,56', 1234.56],
+    ['1.234.567,89', 1234567.89],
+  ])('lê o valor %s', (amount, expected) => {
+    expect(parseOfx(ofx(amount)).entries[0]?.amount).toBe(expected);
+  });
+});
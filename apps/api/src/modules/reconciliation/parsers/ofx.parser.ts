@@ -0,0 +1,97 @@
+import { BankStatementFormat } from '@prisma/client';
+import { ParsedBankEntry, ParsedBankStatement, normalizeDocument, toDateOnly } from './bank-statement.types';
+
+/**
+ * Parser de extrato OFX (SGML 1.x e XML 2.x)
+ *
+ * Lê cada <STMTTRN> e mantém apenas créditos (TRNAMT > 0).
+ * Bancos brasileiros costumam exportar SGML sem tags de fechamento
+ * e com vírgula decimal — ambos tratados aqui.
+ * O CPF/CNPJ do pagador, quando existe, vem no NAME/MEMO do PIX/TED.
+ */
+export function parseOfx(content: string): ParsedBankStatement {
+  const bankCode = readTag(content, 'BANKID');
+  const entries: ParsedBankEntry[] = [];
+
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+
+  for (const raw of blocks) {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+
+    const amount = parseAmount(readTag(block, 'TRNAMT'));
+    if (!amount || amount <= 0) continue;
+
+    const date = parseOfxDate(readTag(block, 'DTPOSTED'));
+    if (!date) continue;
+
+    const name = readTag(block, 'NAME');
+    const memo = readTag(block, 'MEMO');
+    const description = [name, memo].filter(Boolean).join(' - ') || 'Crédito';
+
+    entries.push({
+      externalId: readTag(block, 'FITID'),
+      documentNumber: readTag(block, 'CHECKNUM') || readTag(block, 'REFNUM'),
+      date,
+      amount,
+      description: description.substring(0, 300),
+      payerDocument: extractDocument(`${name ?? ''} ${memo ?? ''}`),
+      payerName: name,
+    });
+  }
+
+  return {
+    format: BankStatementFormat.OFX,
+    bankCode: bankCode ? bankCode.replace(/\D/g, '').slice(-3) || null : null,
+    entries,
+  };
+}
+
+/**
+ * Valor de uma tag OFX — funciona com e sem </TAG>
+ */
+function readTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1]?.trim();
+  return value ? decodeEntities(value) : null;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+}
+
+/**
+ * TRNAMT: ponto decimal (padrão OFX) ou formato pt-BR de alguns bancos (1.234,56)
+ * O último separador é o decimal; o outro é de milhar e é descartado
+ */
+function parseAmount(value: string | null): number | null {
+  if (!value) return null;
+  const decimalComma = value.lastIndexOf(',') > value.lastIndexOf('.');
+  const normalized = decimalComma
+    ? value.replace(/\./g, '').replace(',', '.')
+    : value.replace(/,/g, '');
+  const amount = parseFloat(normalized);
+  return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : null;
+}
+
+/**
+ * DTPOSTED: YYYYMMDD[HHMMSS[.XXX]][[-3:BRT]]
+ */
+function parseOfxDate(value: string | null): Date | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return toDateOnly(Number(match[1]), Number(match[2]), Number(match[3]));
+}
+
+/**
+ * CPF/CNPJ formatado ou só dígitos dentro do texto livre
+ */
+function extractDocument(text: string): string | null {
+  const formatted = text.match(/\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}|\d{3}\.\d{3}\.\d{3}-\d{2}/);
+  if (formatted) return normalizeDocument(formatted[0]);
+
+  const digits = text.match(/(?<!\d)(\d{14}|\d{11})(?!\d)/);
+  return digits ? normalizeDocument(digits[1]) : null;
+}
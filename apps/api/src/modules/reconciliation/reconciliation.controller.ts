@@ -0,0 +1,85 @@
+import {
+  Controller, Get, Post, Patch,
+  Body, Param, UseGuards, HttpCode, HttpStatus,
+  UseInterceptors, UploadedFile, BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ReconciliationService } from './reconciliation.service';
+import { RolesGuard } from '@/common/guards/roles.guard';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
+import { UserRole, Module } from '@prisma/client';
+import {
+  UpdateEntryMatchDto, UpdateEntryMatchSchema,
+  ConfirmEntriesDto, ConfirmEntriesSchema,
+} from './dto/reconciliation.dto';
+
+/** Extratos e retornos costumam ter poucas centenas de KB */
+const MAX_STATEMENT_SIZE = 5 * 1024 * 1024;
+
+@RequirePermission(Module.FINANCE, 'view')
+@Controller('finance/reconciliation')
+@UseGuards(RolesGuard)
+@Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+export class ReconciliationController {
+  constructor(private readonly service: ReconciliationService) {}
+
+  // IMPORTAÇÃO (OFX / CNAB 240 / CNAB 400)
+  @Post('import')
+  @RequirePermission(Module.FINANCE, 'create')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_STATEMENT_SIZE } }))
+  async importStatement(
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser('id') userId: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Nenhum arquivo foi enviado');
+    }
+    const data = await this.service.importStatement(file, userId);
+    return { success: true, data, message: 'Arquivo processado' };
+  }
+
+  @Get('imports')
+  async findImports() {
+    const data = await this.service.findImports();
+    return { success: true, data };
+  }
+
+  @Get('imports/:id')
+  async findImport(@Param('id') id: string) {
+    const data = await this.service.findImport(id);
+    return { success: true, data };
+  }
+
+  // REVISÃO
+  @Get('entries/:id/candidates')
+  async getCandidates(@Param('id') id: string) {
+    const data = await this.service.getCandidates(id);
+    return { success: true, data };
+  }
+
+  @Patch('entries/:id')
+  @RequirePermission(Module.FINANCE, 'edit')
+  async updateMatch(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(UpdateEntryMatchSchema)) dto: UpdateEntryMatchDto,
+  ) {
+    const data = await this.service.updateMatch(id, dto);
+    return { success: true, data };
+  }
+
+  @Post('imports/:id/confirm')
+  @RequirePermission(Module.FINANCE, 'edit')
+  @HttpCode(HttpStatus.OK)
+  async confirm(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(ConfirmEntriesSchema)) dto: ConfirmEntriesDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    const data = await this.service.confirm(id, dto.entryIds, userId);
+    return { success: true, data, message: `${data.confirmed} lançamento(s) conciliado(s)` };
+  }
+}
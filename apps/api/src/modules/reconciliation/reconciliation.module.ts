@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ReconciliationController } from './reconciliation.controller';
+import { ReconciliationService } from './reconciliation.service';
+import { FinanceModule } from '../finance/finance.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { NfseModule } from '../nfse/nfse.module';
+
+@Module({
+  imports: [FinanceModule, PaymentsModule, NfseModule],
+  controllers: [ReconciliationController],
+  providers: [ReconciliationService],
+})
+export class ReconciliationModule {}
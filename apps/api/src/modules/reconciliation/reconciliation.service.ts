@@ -0,0 +1,543 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { BankEntryStatus, PaymentStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import { FinanceService } from '../finance/finance.service';
+import { PaymentsService } from '../payments/payments.service';
+import { NfseService } from '../nfse/nfse.service';
+import { parseBankStatement, ParsedBankEntry } from './parsers';
+import { UpdateEntryMatchDto } from './dto/reconciliation.dto';
+
+/**
+ * Cobrança candidata a corresponder a um crédito do extrato
+ * (Payment e FinanceTransaction da mesma assinatura são unidos em um candidato)
+ */
+export interface MatchCandidate {
+  financeTransactionId: string | null;
+  paymentId: string | null;
+  clientId: string | null;
+  clientName: string | null;
+  description: string;
+  amount: number;
+  dueDate: Date | null;
+  score: number;
+  reasons: string[];
+}
+
+/** Janela de vencimento considerada em torno da data do crédito */
+const WINDOW_DAYS_BEFORE = 45;
+const WINDOW_DAYS_AFTER = 10;
+
+/** Pontuação mínima para sugerir automaticamente */
+const MIN_SUGGESTION_SCORE = 55;
+
+const OPEN_PAYMENT_STATUSES = [PaymentStatus.PENDING, PaymentStatus.OVERDUE];
+
+/** Cobranças ainda não reservadas por outro lançamento */
+const NOT_CLAIMED = {
+  bankEntries: { none: { status: { in: [BankEntryStatus.SUGGESTED, BankEntryStatus.CONFIRMED] } } },
+};
+
+const CLIENT_SELECT = { select: { id: true, company: true, cpfCnpj: true } } as const;
+
+const ENTRY_INCLUDE = {
+  financeTransaction: {
+    select: {
+      id: true, description: true, amount: true, dueDate: true, status: true,
+      client: { select: { id: true, company: true } },
+    },
+  },
+  payment: {
+    select: {
+      id: true, description: true, amount: true, dueDate: true, status: true,
+      client: { select: { id: true, company: true } },
+    },
+  },
+} satisfies Prisma.BankStatementEntryInclude;
+
+/**
+ * Reconciliation Service — Conciliação bancária (OFX / CNAB 240 / CNAB 400)
+ *
+ * FLUXO:
+ * 1. importStatement(): lê o arquivo, descarta créditos já importados e
+ *    sugere a cobrança correspondente (valor + janela de vencimento + CPF/CNPJ
+ *    + nosso número/seu número)
+ * 2. Revisão: o financeiro troca, limpa ou ignora as sugestões
+ * 3. confirm(): baixa as cobranças como pagas na data do crédito
+ *    (FinanceService.markAsPaid / Payment PAID → mesma sincronização de cliente e tenant)
+ */
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly financeService: FinanceService,
+    private readonly paymentsService: PaymentsService,
+    private readonly nfseService: NfseService,
+  ) {}
+
+  // ════════════════════════════════════════════════════════════════
+  // IMPORTAÇÃO
+  // ════════════════════════════════════════════════════════════════
+
+  async importStatement(file: { buffer: Buffer; originalname: string }, userId: string) {
+    const parsed = parseBankStatement(file.buffer);
+
+    if (parsed.entries.length === 0) {
+      throw new BadRequestException('Nenhum crédito ou liquidação encontrado no arquivo');
+    }
+
+    // Deduplicar dentro do arquivo e contra importações anteriores
+    const withFingerprint = new Map<string, ParsedBankEntry>();
+    for (const entry of parsed.entries) {
+      withFingerprint.set(this.fingerprint(parsed.format, entry), entry);
+    }
+
+    const existing = await this.prisma.bankStatementEntry.findMany({
+      where: { fingerprint: { in: [...withFingerprint.keys()] } },
+      select: { fingerprint: true },
+    });
+    const alreadyImported = new Set(existing.map((e) => e.fingerprint));
+    const fresh = [...withFingerprint.entries()].filter(([fingerprint]) => !alreadyImported.has(fingerprint));
+
+    if (fresh.length === 0) {
+      throw new BadRequestException('Todos os créditos deste arquivo já foram importados anteriormente');
+    }
+
+    const dates = parsed.entries.map((e) => e.date.getTime());
+
+    const statement = await this.prisma.bankStatementImport.create({
+      data: {
+        fileName: file.originalname.substring(0, 255),
+        format: parsed.format,
+        bankCode: parsed.bankCode,
+        periodStart: new Date(Math.min(...dates)),
+        periodEnd: new Date(Math.max(...dates)),
+        createdBy: userId,
+        entries: {
+          create: fresh.map(([fingerprint, entry]) => ({
+            fingerprint,
+            externalId: entry.externalId,
+            documentNumber: entry.documentNumber,
+            date: entry.date,
+            amount: entry.amount,
+            description: entry.description,
+            payerDocument: entry.payerDocument,
+            payerName: entry.payerName,
+          })),
+        },
+      },
+    });
+
+    const suggested = await this.autoMatch(statement.id);
+
+    this.logger.log(
+      `🏦 Extrato importado: ${file.originalname} (${parsed.format}) | ` +
+        `${fresh.length} créditos, ${suggested} sugestões, ${parsed.entries.length - fresh.length} duplicados`,
+    );
+
+    return {
+      ...(await this.findImport(statement.id)),
+      summary: {
+        total: parsed.entries.length,
+        imported: fresh.length,
+        duplicates: parsed.entries.length - fresh.length,
+        suggested,
+      },
+    };
+  }
+
+  async findImports() {
+    const imports = await this.prisma.bankStatementImport.findMany({
+      include: {
+        creator: { select: { id: true, name: true } },
+        entries: { select: { status: true, amount: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+
+    return imports.map(({ entries, ...statement }) => ({
+      ...statement,
+      counts: Object.fromEntries(
+        Object.values(BankEntryStatus).map((status) => [status, entries.filter((e) => e.status === status).length]),
+      ) as Record<BankEntryStatus, number>,
+      totalAmount: entries.reduce((sum, e) => sum + Number(e.amount), 0),
+    }));
+  }
+
+  async findImport(id: string) {
+    const statement = await this.prisma.bankStatementImport.findUnique({
+      where: { id },
+      include: {
+        creator: { select: { id: true, name: true } },
+        entries: { include: ENTRY_INCLUDE, orderBy: [{ date: 'asc' }, { amount: 'desc' }] },
+      },
+    });
+
+    if (!statement) {
+      throw new NotFoundException(`Importação ${id} não encontrada`);
+    }
+
+    return statement;
+  }
+
+  // ════════════════════════════════════════════════════════════════
+  // REVISÃO
+  // ════════════════════════════════════════════════════════════════
+
+  /**
+   * Candidatos para troca manual na tela de revisão (melhores primeiro)
+   */
+  async getCandidates(entryId: string): Promise<MatchCandidate[]> {
+    const entry = await this.findEntry(entryId);
+    return this.findCandidates(entry, entry.id);
+  }
+
+  async updateMatch(entryId: string, dto: UpdateEntryMatchDto) {
+    const entry = await this.findEntry(entryId);
+
+    if (entry.status === BankEntryStatus.CONFIRMED) {
+      throw new BadRequestException('Lançamento já conciliado não pode ser alterado');
+    }
+
+    if (dto.ignore) {
+      return this.prisma.bankStatementEntry.update({
+        where: { id: entryId },
+        data: { status: BankEntryStatus.IGNORED, financeTransactionId: null, paymentId: null, matchScore: null },
+        include: ENTRY_INCLUDE,
+      });
+    }
+
+    const financeTransactionId = dto.financeTransactionId ?? null;
+    const paymentId = dto.paymentId ?? null;
+
+    if (financeTransactionId) {
+      const transaction = await this.prisma.financeTransaction.findUnique({ where: { id: financeTransactionId } });
+      if (!transaction) throw new NotFoundException('Transação não encontrada');
+      if (transaction.type !== 'INCOME' || transaction.status === 'PAID' || transaction.status === 'CANCELLED') {
+        throw new BadRequestException('A transação precisa ser uma receita em aberto');
+      }
+    }
+
+    if (paymentId) {
+      const payment = await this.prisma.payment.findUnique({ where: { id: paymentId } });
+      if (!payment) throw new NotFoundException('Pagamento não encontrado');
+      if (!OPEN_PAYMENT_STATUSES.includes(payment.status as (typeof OPEN_PAYMENT_STATUSES)[number])) {
+        throw new BadRequestException('O pagamento precisa estar pendente ou vencido');
+      }
+    }
+
+    const hasMatch = !!(financeTransactionId || paymentId);
+
+    return this.prisma.bankStatementEntry.update({
+      where: { id: entryId },
+      data: {
+        status: hasMatch ? BankEntryStatus.SUGGESTED : BankEntryStatus.UNMATCHED,
+        financeTransactionId,
+        paymentId,
+        matchScore: null, // vínculo manual
+      },
+      include: ENTRY_INCLUDE,
+    });
+  }
+
+  /**
+   * Baixa as cobranças dos lançamentos sugeridos selecionados
+   * Cada lançamento é independente: uma falha não impede os demais
+   */
+  async confirm(importId: string, entryIds: string[], userId: string) {
+    const entries = await this.prisma.bankStatementEntry.findMany({
+      where: { id: { in: entryIds }, importId, status: BankEntryStatus.SUGGESTED },
+    });
+
+    const confirmed: string[] = [];
+    const failed: Array<{ id: string; error: string }> = [];
+
+    for (const entry of entries) {
+      try {
+        await this.settle(entry);
+
+        await this.prisma.bankStatementEntry.update({
+          where: { id: entry.id },
+          data: { status: BankEntryStatus.CONFIRMED, confirmedAt: new Date(), confirmedBy: userId },
+        });
+        confirmed.push(entry.id);
+      } catch (error) {
+        this.logger.error(`❌ Erro ao conciliar lançamento ${entry.id}: ${error.message}`);
+        failed.push({ id: entry.id, error: error.message });
+      }
+    }
+
+    const skipped = entryIds.length - entries.length;
+    this.logger.log(`✅ Conciliação ${importId}: ${confirmed.length} confirmados, ${failed.length} falhas`);
+
+    return { confirmed: confirmed.length, failed, skipped };
+  }
+
+  // ════════════════════════════════════════════════════════════════
+  // MATCHING
+  // ════════════════════════════════════════════════════════════════
+
+  /**
+   * Sugere a melhor cobrança para cada lançamento (em ordem de data).
+   * Empates sem CPF/CNPJ ou referência ficam para revisão manual.
+   */
+  private async autoMatch(importId: string): Promise<number> {
+    const entries = await this.prisma.bankStatementEntry.findMany({
+      where: { importId, status: BankEntryStatus.UNMATCHED },
+      orderBy: { date: 'asc' },
+    });
+
+    let suggested = 0;
+
+    for (const entry of entries) {
+      const [best, second] = await this.findCandidates(entry);
+      if (!best || best.score < MIN_SUGGESTION_SCORE) continue;
+      if (second && second.score === best.score && best.reasons.length <= 2) continue;
+
+      await this.prisma.bankStatementEntry.update({
+        where: { id: entry.id },
+        data: {
+          status: BankEntryStatus.SUGGESTED,
+          financeTransactionId: best.financeTransactionId,
+          paymentId: best.paymentId,
+          matchScore: best.score,
+        },
+      });
+      suggested++;
+    }
+
+    return suggested;
+  }
+
+  private async findCandidates(
+    entry: {
+      date: Date;
+      amount: Prisma.Decimal;
+      externalId: string | null;
+      documentNumber: string | null;
+      payerDocument: string | null;
+    },
+    currentEntryId?: string,
+  ): Promise<MatchCandidate[]> {
+    const amount = Number(entry.amount);
+    const from = this.addDays(entry.date, -WINDOW_DAYS_BEFORE);
+    const to = this.addDays(entry.date, WINDOW_DAYS_AFTER);
+    const amountRange = { gte: amount - 0.01, lte: amount + 0.01 };
+    const references = [entry.externalId, entry.documentNumber].filter((r): r is string => !!r);
+
+    // A própria reserva do lançamento em revisão não exclui o candidato
+    const claimFilter = currentEntryId
+      ? { bankEntries: { none: { id: { not: currentEntryId }, status: { in: [BankEntryStatus.SUGGESTED, BankEntryStatus.CONFIRMED] } } } }
+      : NOT_CLAIMED;
+
+    const [transactions, payments] = await Promise.all([
+      this.prisma.financeTransaction.findMany({
+        where: {
+          type: 'INCOME',
+          status: { in: ['PENDING', 'OVERDUE'] },
+          amount: amountRange,
+          dueDate: { gte: from, lte: to },
+          ...claimFilter,
+        },
+        include: { client: CLIENT_SELECT },
+        take: 50,
+      }),
+      this.prisma.payment.findMany({
+        where: {
+          status: { in: OPEN_PAYMENT_STATUSES },
+          ...claimFilter,
+          OR: [
+            { amount: amountRange, dueDate: { gte: from, lte: to } },
+            ...(references.length > 0
+              ? [
+                  { externalId: { in: references } },
+                  { gatewayId: { in: references } },
+                  { invoiceNumber: { in: references } },
+                  { id: { in: references } },
+                ]
+              : []),
+          ],
+        },
+        include: { client: CLIENT_SELECT },
+        take: 50,
+      }),
+    ]);
+
+    const candidates: MatchCandidate[] = [];
+    const pairedTransactions = new Set<string>();
+
+    for (const payment of payments) {
+      // Renovação gera Payment + FinanceTransaction: unir no mesmo candidato
+      const transaction = payment.subscriptionId
+        ? transactions.find(
+            (t) => t.subscriptionId === payment.subscriptionId && Math.abs(Number(t.amount) - Number(payment.amount)) < 0.01,
+          )
+        : undefined;
+      if (transaction) pairedTransactions.add(transaction.id);
+
+      const referenceHit = references.some((ref) =>
+        [payment.externalId, payment.gatewayId, payment.invoiceNumber, payment.id].includes(ref),
+      );
+
+      candidates.push(
+        this.scoreCandidate(entry, {
+          financeTransactionId: transaction?.id ?? null,
+          paymentId: payment.id,
+          client: payment.client,
+          description: payment.description || transaction?.description || 'Pagamento',
+          amount: Number(payment.amount),
+          dueDate: payment.dueDate,
+          referenceHit,
+        }),
+      );
+    }
+
+    for (const transaction of transactions) {
+      if (pairedTransactions.has(transaction.id)) continue;
+
+      candidates.push(
+        this.scoreCandidate(entry, {
+          financeTransactionId: transaction.id,
+          paymentId: null,
+          client: transaction.client,
+          description: transaction.description,
+          amount: Number(transaction.amount),
+          dueDate: transaction.dueDate,
+          referenceHit: false,
+        }),
+      );
+    }
+
+    return candidates.sort((a, b) => b.score - a.score).slice(0, 20);
+  }
+
+  private scoreCandidate(
+    entry: { date: Date; amount: Prisma.Decimal; payerDocument: string | null },
+    candidate: {
+      financeTransactionId: string | null;
+      paymentId: string | null;
+      client: { id: string; company: string; cpfCnpj: string | null } | null;
+      description: string;
+      amount: number;
+      dueDate: Date | null;
+      referenceHit: boolean;
+    },
+  ): MatchCandidate {
+    let score = 0;
+    const reasons: string[] = [];
+
+    if (Math.abs(candidate.amount - Number(entry.amount)) < 0.01) {
+      score += 40;
+      reasons.push('valor');
+    }
+
+    if (candidate.referenceHit) {
+      score += 50;
+      reasons.push('nosso número / seu número');
+    }
+
+    const clientDocument = candidate.client?.cpfCnpj?.replace(/\D/g, '');
+    if (entry.payerDocument && clientDocument && entry.payerDocument === clientDocument) {
+      score += 35;
+      reasons.push('CPF/CNPJ');
+    }
+
+    if (candidate.dueDate) {
+      const distance = Math.abs(entry.date.getTime() - candidate.dueDate.getTime()) / (1000 * 60 * 60 * 24);
+      if (distance <= 3) {
+        score += 15;
+        reasons.push('vencimento próximo');
+      } else if (distance <= 10) {
+        score += 10;
+        reasons.push('vencimento na semana');
+      } else {
+        score += 5;
+      }
+    }
+
+    return {
+      financeTransactionId: candidate.financeTransactionId,
+      paymentId: candidate.paymentId,
+      clientId: candidate.client?.id ?? null,
+      clientName: candidate.client?.company ?? null,
+      description: candidate.description,
+      amount: candidate.amount,
+      dueDate: candidate.dueDate,
+      score: Math.min(score, 100),
+      reasons,
+    };
+  }
+
+  // ════════════════════════════════════════════════════════════════
+  // BAIXA
+  // ════════════════════════════════════════════════════════════════
+
+  private async settle(entry: { id: string; date: Date; financeTransactionId: string | null; paymentId: string | null }) {
+    if (entry.paymentId) {
+      const payment = await this.prisma.payment.findUnique({ where: { id: entry.paymentId } });
+      if (!payment) throw new NotFoundException('Pagamento vinculado não existe mais');
+      if (payment.status === PaymentStatus.CANCELLED) {
+        throw new BadRequestException('Pagamento vinculado foi cancelado');
+      }
+
+      const updated = payment.status === PaymentStatus.PAID
+        ? payment
+        : await this.prisma.payment.update({
+            where: { id: payment.id },
+            data: { status: PaymentStatus.PAID, paidAt: entry.date },
+          });
+
+      await this.nfseService.requestIssuance(updated.id);
+
+      // Sem transação vinculada: quitar a cobrança da assinatura (mesmo fluxo do webhook)
+      if (!entry.financeTransactionId) {
+        await this.paymentsService.settleSubscriptionCharge(updated);
+        return;
+      }
+    }
+
+    if (entry.financeTransactionId) {
+      const transaction = await this.prisma.financeTransaction.findUnique({
+        where: { id: entry.financeTransactionId },
+        select: { status: true },
+      });
+      if (!transaction) throw new NotFoundException('Transação vinculada não existe mais');
+      if (transaction.status === 'CANCELLED') {
+        throw new BadRequestException('Transação vinculada foi cancelada');
+      }
+
+      if (transaction.status !== 'PAID') {
+        await this.financeService.markAsPaid(entry.financeTransactionId, entry.date);
+      }
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ════════════════════════════════════════════════════════════════
+
+  private async findEntry(id: string) {
+    const entry = await this.prisma.bankStatementEntry.findUnique({ where: { id } });
+    if (!entry) {
+      throw new NotFoundException(`Lançamento ${id} não encontrado`);
+    }
+    return entry;
+  }
+
+  private fingerprint(format: string, entry: ParsedBankEntry): string {
+    return createHash('sha1')
+      .update(
+        [format, entry.externalId ?? '', entry.documentNumber ?? '', entry.date.toISOString().slice(0, 10), entry.amount.toFixed(2)].join('|'),
+      )
+      .digest('hex');
+  }
+
+  private addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result;
+  }
+}
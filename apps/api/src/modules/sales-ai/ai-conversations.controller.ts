@@ -0,0 +1,88 @@
+/**
+ * 💬 AI CONVERSATIONS CONTROLLER
+ *
+ * Sessões do chat do Sales AI (listar, retomar, renomear, excluir)
+ * Novas mensagens entram por POST /sales-ai/chat e /sales-ai/chat/stream
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { AIContextType, Module } from '@prisma/client';
+import { AIConversationsService } from './ai-conversations.service';
+import { RequirePermission } from '../../common/decorators/require-permission.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AuthUser } from '../../common/interfaces/auth-user.interface';
+import {
+  ListConversationsDto,
+  CreateConversationDto,
+  RenameConversationDto,
+} from './dto/sales-ai.dto';
+
+@RequirePermission(Module.SALES_AI, 'view')
+@Controller('sales-ai/conversations')
+export class AIConversationsController {
+  constructor(private readonly conversationsService: AIConversationsService) {}
+
+  // ========================================
+  // GET /api/v1/sales-ai/conversations
+  // Com contextId (drawer do lead/cliente) inclui sessões da equipe
+  // ========================================
+  @Get()
+  async findAll(@Query() query: ListConversationsDto, @CurrentUser() user: AuthUser) {
+    return this.conversationsService.findAll(user, {
+      contextType: query.contextType as AIContextType | undefined,
+      contextId: query.contextId,
+    });
+  }
+
+  // ========================================
+  // GET /api/v1/sales-ai/conversations/:id
+  // ========================================
+  @Get(':id')
+  async findOne(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.conversationsService.findOne(id, user);
+  }
+
+  // ========================================
+  // POST /api/v1/sales-ai/conversations
+  // ========================================
+  @Post()
+  async create(@Body() dto: CreateConversationDto, @CurrentUser() user: AuthUser) {
+    return this.conversationsService.create(
+      {
+        contextType: dto.contextType as AIContextType,
+        contextId: dto.contextId,
+        title: dto.title,
+      },
+      user.id,
+    );
+  }
+
+  // ========================================
+  // PATCH /api/v1/sales-ai/conversations/:id
+  // ========================================
+  @Patch(':id')
+  async rename(
+    @Param('id') id: string,
+    @Body() dto: RenameConversationDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.conversationsService.rename(id, dto.title, user.id);
+  }
+
+  // ========================================
+  // DELETE /api/v1/sales-ai/conversations/:id
+  // ========================================
+  @Delete(':id')
+  async remove(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.conversationsService.remove(id, user.id);
+  }
+}
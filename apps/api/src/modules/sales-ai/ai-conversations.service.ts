@@ -0,0 +1,286 @@
+/**
+ * 💬 AI CONVERSATIONS SERVICE
+ *
+ * Histórico do chat do Sales AI persistido em AIConversation/AIMessage
+ *
+ * REGRAS:
+ * - Uma sessão de chat é uma AIConversation com mensagens de feature 'chat'
+ *   (ou recém-criada, ainda vazia). As demais features (briefing, insights...)
+ *   ficam em conversas de uso separadas e não aparecem na lista
+ * - Apenas o dono pode continuar, renomear ou excluir uma sessão
+ * - Sessões de um lead/cliente são visíveis para quem gerencia o dono
+ *   (SUPERADMIN/ADMINISTRATIVO: todas, GESTOR: equipe)
+ */
+
+import { Injectable, Logger, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { AIContextType, AIFeedbackRating, AIRole, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import { AuthUser } from '@/common/interfaces/auth-user.interface';
+import type {
+  ConversationSummary,
+  ConversationDetail,
+  ConversationMessage,
+} from '../../lib/ai/types';
+
+/** Mensagens anteriores enviadas ao modelo como contexto */
+const HISTORY_LIMIT = 20;
+
+/** Tamanho máximo do título gerado a partir da primeira pergunta */
+const TITLE_MAX_LENGTH = 60;
+
+const CHAT_FEATURE = 'chat';
+
+const CHAT_SESSION_WHERE: Prisma.AIConversationWhereInput = {
+  OR: [
+    { messages: { some: { feature: CHAT_FEATURE } } },
+    { messages: { none: {} } },
+  ],
+};
+
+const SUMMARY_INCLUDE = {
+  user: { select: { id: true, name: true } },
+  messages: {
+    where: { feature: CHAT_FEATURE },
+    orderBy: { createdAt: 'desc' },
+    take: 1,
+    select: { content: true },
+  },
+  _count: { select: { messages: { where: { feature: CHAT_FEATURE } } } },
+} satisfies Prisma.AIConversationInclude;
+
+type ConversationWithSummary = Prisma.AIConversationGetPayload<{ include: typeof SUMMARY_INCLUDE }>;
+
+@Injectable()
+export class AIConversationsService {
+  private readonly logger = new Logger(AIConversationsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Lista sessões de chat (mais recentes primeiro)
+   * Sem contextId, retorna apenas as sessões do próprio usuário
+   */
+  async findAll(
+    user: AuthUser,
+    filters: { contextType?: AIContextType; contextId?: string },
+  ): Promise<ConversationSummary[]> {
+    const ownerWhere = filters.contextId
+      ? this.visibleOwnersWhere(user)
+      : { userId: user.id };
+
+    const conversations = await this.prisma.aIConversation.findMany({
+      where: {
+        AND: [
+          CHAT_SESSION_WHERE,
+          ownerWhere,
+          {
+            contextType: filters.contextType,
+            contextId: filters.contextId,
+          },
+        ],
+      },
+      include: SUMMARY_INCLUDE,
+      orderBy: { updatedAt: 'desc' },
+      take: 100,
+    });
+
+    return conversations.map((conversation) => this.toSummary(conversation));
+  }
+
+  /**
+   * Sessão com todas as mensagens do chat (ordem cronológica)
+   */
+  async findOne(id: string, user: AuthUser): Promise<ConversationDetail> {
+    const conversation = await this.prisma.aIConversation.findFirst({
+      where: { AND: [{ id }, this.visibleOwnersWhere(user)] },
+      include: SUMMARY_INCLUDE,
+    });
+
+    if (!conversation) {
+      throw new NotFoundException(`Conversa ${id} não encontrada`);
+    }
+
+    const messages = await this.prisma.aIMessage.findMany({
+      where: { conversationId: id, feature: CHAT_FEATURE },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      ...this.toSummary(conversation),
+      messages: messages.map((message): ConversationMessage => ({
+        id: message.id,
+        role: message.role === AIRole.USER ? 'user' : 'assistant',
+        content: message.content,
+        model: message.model,
+        tokensUsed: message.tokensUsed,
+        rating: message.feedbackRating
+          ? message.feedbackRating === AIFeedbackRating.HELPFUL ? 'helpful' : 'not_helpful'
+          : null,
+        createdAt: message.createdAt,
+      })),
+    };
+  }
+
+  async create(
+    data: { contextType: AIContextType; contextId?: string; title?: string },
+    userId: string,
+  ): Promise<ConversationSummary> {
+    const conversation = await this.prisma.aIConversation.create({
+      data: {
+        userId,
+        contextType: data.contextType,
+        contextId: data.contextType === AIContextType.GENERAL ? null : data.contextId || null,
+        title: data.title?.trim() || null,
+      },
+      include: SUMMARY_INCLUDE,
+    });
+
+    this.logger.log(`✅ Conversa criada: ${conversation.id} (${conversation.contextType})`);
+    return this.toSummary(conversation);
+  }
+
+  async rename(id: string, title: string, userId: string): Promise<ConversationSummary> {
+    await this.findOwned(id, userId);
+
+    const conversation = await this.prisma.aIConversation.update({
+      where: { id },
+      data: { title: title.trim() },
+      include: SUMMARY_INCLUDE,
+    });
+
+    return this.toSummary(conversation);
+  }
+
+  async remove(id: string, userId: string): Promise<{ message: string }> {
+    await this.findOwned(id, userId);
+
+    // AIMessage tem onDelete: Cascade
+    await this.prisma.aIConversation.delete({ where: { id } });
+
+    this.logger.log(`🗑️ Conversa excluída: ${id}`);
+    return { message: 'Conversa excluída com sucesso' };
+  }
+
+  /**
+   * Prepara uma rodada do chat:
+   * - Com conversationId: valida o dono e carrega o histórico do banco
+   * - Sem conversationId: cria a sessão do lead, titulada pela pergunta
+   * Em seguida grava a mensagem do vendedor
+   */
+  async startTurn(
+    userId: string,
+    params: {
+      conversationId?: string;
+      leadContext?: { id?: string; name?: string };
+      message: string;
+    },
+  ): Promise<{ conversationId: string; history: Array<{ role: 'user' | 'assistant'; content: string }> | null }> {
+    let conversationId = params.conversationId;
+    let history: Array<{ role: 'user' | 'assistant'; content: string }> | null = null;
+
+    if (conversationId) {
+      await this.findOwned(conversationId, userId);
+
+      const previous = await this.prisma.aIMessage.findMany({
+        where: { conversationId, feature: CHAT_FEATURE },
+        orderBy: { createdAt: 'desc' },
+        take: HISTORY_LIMIT,
+        select: { role: true, content: true },
+      });
+
+      history = previous.reverse().map((message) => ({
+        role: message.role === AIRole.USER ? 'user' : 'assistant',
+        content: message.content,
+      }));
+    } else {
+      const contextId = params.leadContext?.id || null;
+      const conversation = await this.prisma.aIConversation.create({
+        data: {
+          userId,
+          contextType: contextId ? AIContextType.LEAD : AIContextType.GENERAL,
+          contextId,
+          title: this.buildTitle(params.message),
+        },
+        select: { id: true },
+      });
+      conversationId = conversation.id;
+    }
+
+    await this.prisma.aIMessage.create({
+      data: {
+        conversationId,
+        role: AIRole.USER,
+        content: params.message,
+        feature: CHAT_FEATURE,
+      },
+    });
+
+    return { conversationId, history };
+  }
+
+  /**
+   * Atualiza updatedAt para a sessão subir na lista
+   */
+  async touch(conversationId: string): Promise<void> {
+    await this.prisma.aIConversation
+      .update({ where: { id: conversationId }, data: { updatedAt: new Date() } })
+      .catch((error) => this.logger.warn(`⚠️ Falha ao atualizar conversa ${conversationId}: ${error.message}`));
+  }
+
+  // ========================================
+  // HELPERS
+  // ========================================
+
+  private async findOwned(id: string, userId: string) {
+    const conversation = await this.prisma.aIConversation.findUnique({
+      where: { id },
+      select: { id: true, userId: true },
+    });
+
+    if (!conversation) {
+      throw new NotFoundException(`Conversa ${id} não encontrada`);
+    }
+
+    if (conversation.userId !== userId) {
+      throw new ForbiddenException('Apenas o autor pode alterar esta conversa');
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Donos de conversa cujas sessões o usuário pode ler
+   */
+  private visibleOwnersWhere(user: AuthUser): Prisma.AIConversationWhereInput {
+    if (user.role === UserRole.SUPERADMIN || user.role === UserRole.ADMINISTRATIVO) {
+      return {};
+    }
+
+    if (user.role === UserRole.GESTOR) {
+      return { user: { OR: [{ id: user.id }, { gestorId: user.id }] } };
+    }
+
+    return { userId: user.id };
+  }
+
+  private buildTitle(message: string): string {
+    const title = message.replace(/\s+/g, ' ').trim();
+    return title.length > TITLE_MAX_LENGTH
+      ? `${title.substring(0, TITLE_MAX_LENGTH - 1).trimEnd()}…`
+      : title;
+  }
+
+  private toSummary(conversation: ConversationWithSummary): ConversationSummary {
+    return {
+      id: conversation.id,
+      title: conversation.title,
+      contextType: conversation.contextType,
+      contextId: conversation.contextId,
+      user: conversation.user,
+      messageCount: conversation._count.messages,
+      lastMessage: conversation.messages[0]?.content ?? null,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+    };
+  }
+}
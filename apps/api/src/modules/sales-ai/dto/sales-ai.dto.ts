@@ -11,6 +11,8 @@ import {
   IsObject,
   ValidateNested,
   IsDateString,
+  IsNotEmpty,
+  MaxLength,
   Min,
   Max,
 } from 'class-validator';
@@ -122,6 +124,14 @@ export class ChatMessageDto {
   @IsOptional()
   @IsString()
   leadId?: string;
+
+  @IsOptional()
+  @IsString()
+  messageId?: string;
+
+  @IsOptional()
+  @IsEnum(['helpful', 'not_helpful'])
+  rating?: string;
 }
 
 export class ChatRequestDto {
@@ -141,6 +151,10 @@ export class ChatRequestDto {
   @IsOptional()
   @IsEnum(['groq', 'gemini', 'openai'])
   provider?: string;
+
+  @IsOptional()
+  @IsString()
+  conversationId?: string;
 }
 
 // ========================================
@@ -311,8 +325,9 @@ export class FeedbackRequestDto {
 // ========================================
 
 export class AnalyticsRequestDto {
+  @IsOptional()
   @IsString()
-  userId: string;
+  userId?: string;
 
   @IsOptional()
   @IsDateString()
@@ -322,3 +337,38 @@ export class AnalyticsRequestDto {
   @IsDateString()
   dateTo?: string;
 }
+
+// ========================================
+// CONVERSATION DTOs
+// ========================================
+
+export class ListConversationsDto {
+  @IsOptional()
+  @IsEnum(['LEAD', 'CLIENT', 'GENERAL'])
+  contextType?: string;
+
+  @IsOptional()
+  @IsString()
+  contextId?: string;
+}
+
+export class CreateConversationDto {
+  @IsEnum(['LEAD', 'CLIENT', 'GENERAL'])
+  contextType: string;
+
+  @IsOptional()
+  @IsString()
+  contextId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  title?: string;
+}
+
+export class RenameConversationDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  title: string;
+}
@@ -11,15 +11,15 @@ import {
   Body,
   Query,
   UseGuards,
-  Sse,
-  MessageEvent,
+  Res,
 } from '@nestjs/common';
-import { Observable } from 'rxjs';
+import { Response } from 'express';
 import { SalesAIService } from './sales-ai.service';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { RequirePermission } from '../../common/decorators/require-permission.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
-import { UserRole } from '@prisma/client';
+import { UserRole, Module } from '@prisma/client';
 import type { User } from '@prisma/client';
 import {
   ChatRequestDto,
@@ -32,6 +32,7 @@ import {
   AnalyticsRequestDto,
 } from './dto/sales-ai.dto';
 
+@RequirePermission(Module.SALES_AI, 'view')
 @Controller('sales-ai')
 @UseGuards(RolesGuard)
 export class SalesAIController {
@@ -44,32 +45,37 @@ export class SalesAIController {
   @Roles(UserRole.VENDEDOR, UserRole.GESTOR, UserRole.SUPERADMIN)
   async chat(@Body() request: ChatRequestDto, @CurrentUser() user: User) {
     // DTOs use strings for validation, types use enums - safe to cast after validation
-    return this.salesAIService.chat(request as any);
+    return this.salesAIService.chat(request as any, user.id);
   }
 
   // ========================================
-  // SSE /api/v1/sales-ai/chat/stream
+  // POST /api/v1/sales-ai/chat/stream
+  // Server-Sent Events via POST (o body carrega leadContext/histórico e o
+  // fetch do frontend envia o JWT). Cada evento é um ChatStreamEvent em JSON
   // ========================================
-  @Sse('chat/stream')
+  @Post('chat/stream')
   @Roles(UserRole.VENDEDOR, UserRole.GESTOR, UserRole.SUPERADMIN)
   async chatStream(
-    @Query() request: ChatRequestDto,
-  ): Promise<Observable<MessageEvent>> {
-    return new Observable((subscriber) => {
-      (async () => {
-        try {
-          // DTOs use strings for validation, types use enums - safe to cast after validation
-          for await (const chunk of this.salesAIService.chatStream(
-            request as any,
-          )) {
-            subscriber.next({ data: chunk } as MessageEvent);
-          }
-          subscriber.complete();
-        } catch (error) {
-          subscriber.error(error);
-        }
-      })();
-    });
+    @Body() request: ChatRequestDto,
+    @CurrentUser() user: User,
+    @Res() res: Response,
+  ) {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    try {
+      // DTOs use strings for validation, types use enums - safe to cast after validation
+      for await (const event of this.salesAIService.chatStream(request as any, user.id)) {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      }
+    } catch (error) {
+      res.write(`event: error\ndata: ${JSON.stringify({ message: error.message })}\n\n`);
+    }
+
+    res.end();
   }
 
   // ========================================
@@ -82,7 +88,7 @@ export class SalesAIController {
     @CurrentUser() user: User,
   ) {
     // DTOs use strings for validation, types use enums - safe to cast after validation
-    return this.salesAIService.analyzeDISC(request as any);
+    return this.salesAIService.analyzeDISC(request as any, user.id);
   }
 
   // ========================================
@@ -95,7 +101,7 @@ export class SalesAIController {
     @CurrentUser() user: User,
   ) {
     // DTOs use strings for validation, types use enums - safe to cast after validation
-    return this.salesAIService.generateBriefing(request as any);
+    return this.salesAIService.generateBriefing(request as any, user.id);
   }
 
   // ========================================
@@ -108,7 +114,7 @@ export class SalesAIController {
     @CurrentUser() user: User,
   ) {
     // DTOs use strings for validation, types use enums - safe to cast after validation
-    return this.salesAIService.generateBattlecard(request as any);
+    return this.salesAIService.generateBattlecard(request as any, user.id);
   }
 
   // ========================================
@@ -121,7 +127,7 @@ export class SalesAIController {
     @CurrentUser() user: User,
   ) {
     // DTOs use strings for validation, types use enums - safe to cast after validation
-    return this.salesAIService.roleplay(request as any);
+    return this.salesAIService.roleplay(request as any, user.id);
   }
 
   // ========================================
@@ -134,7 +140,7 @@ export class SalesAIController {
     @CurrentUser() user: User,
   ) {
     // DTOs use strings for validation, types use enums - safe to cast after validation
-    return this.salesAIService.generateContent(request as any);
+    return this.salesAIService.generateContent(request as any, user.id);
   }
 
   // ========================================
@@ -147,16 +153,18 @@ export class SalesAIController {
     @CurrentUser() user: User,
   ) {
     // DTOs use strings for validation, types use enums - safe to cast after validation
-    return this.salesAIService.submitFeedback(request as any);
+    return this.salesAIService.submitFeedback(request as any, user.id);
   }
 
   // ========================================
   // GET /api/v1/sales-ai/analytics
+  // Escopo por role: VENDEDOR vê só os próprios números,
+  // GESTOR a equipe, SUPERADMIN/ADMINISTRATIVO todos
   // ========================================
   @Get('analytics')
-  @Roles(UserRole.GESTOR, UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  @Roles(UserRole.VENDEDOR, UserRole.GESTOR, UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
   async analytics(@Query() query: AnalyticsRequestDto, @CurrentUser() user: User) {
-    return this.salesAIService.getAnalytics(query.userId);
+    return this.salesAIService.getAnalytics(user, query as any);
   }
 
   // ========================================
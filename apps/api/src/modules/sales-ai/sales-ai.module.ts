@@ -5,10 +5,12 @@
 import { Module } from '@nestjs/common';
 import { SalesAIController } from './sales-ai.controller';
 import { SalesAIService } from './sales-ai.service';
+import { AIConversationsController } from './ai-conversations.controller';
+import { AIConversationsService } from './ai-conversations.service';
 
 @Module({
-  controllers: [SalesAIController],
-  providers: [SalesAIService],
+  controllers: [SalesAIController, AIConversationsController],
+  providers: [SalesAIService, AIConversationsService],
   exports: [SalesAIService],
 })
 export class SalesAIModule {}
@@ -2,10 +2,23 @@
  * 🧠 SALES AI SERVICE
  *
  * Camada de serviço que orquestra chamadas ao NexusSalesAI
+ *
+ * TELEMETRIA:
+ * - Cada resposta vira um AIMessage (feature, provider, modelo, tokens, latência)
+ *   na conversa do usuário com o lead — o messageId volta para o frontend
+ * - Feedback (👍/👎) é gravado no próprio AIMessage
+ * - /analytics agrega esses registros por usuário/equipe
+ *
+ * CHAT:
+ * - Perguntas e respostas ficam na sessão do chat (AIConversationsService),
+ *   que pode ser retomada pelo conversationId
  */
 
-import { Injectable, Logger } from '@nestjs/common';
-import { salesAI } from '../../lib/ai/service';
+import { Injectable, Logger, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { AIContextType, AIFeedbackRating, AIRole, LeadStatus, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '@/prisma/prisma.service';
+import { salesAI, GenerateResult } from '../../lib/ai/service';
+import { AIConversationsService } from './ai-conversations.service';
 import {
   getChatPrompt,
   getDISCAnalysisPrompt,
@@ -17,6 +30,7 @@ import {
 import type {
   ChatRequest,
   ChatResponse,
+  ChatStreamEvent,
   DISCAnalysisRequest,
   DISCAnalysisResponse,
   BriefingRequest,
@@ -29,44 +43,54 @@ import type {
   GeneratorResponse,
   FeedbackRequest,
   FeedbackResponse,
+  AnalyticsRequest,
+  AnalyticsResponse,
   LeadContext,
 } from '../../lib/ai/types';
 
+/**
+ * Funcionalidades rastreadas (AIMessage.feature)
+ */
+export type AIFeature = 'chat' | 'insights' | 'briefing' | 'battlecard' | 'roleplay' | 'generate';
+
+/** Período padrão do analytics quando dateFrom não é informado */
+const DEFAULT_ANALYTICS_DAYS = 30;
+
 @Injectable()
 export class SalesAIService {
   private readonly logger = new Logger(SalesAIService.name);
 
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly conversations: AIConversationsService,
+  ) {}
+
   // ========================================
   // CHAT
   // ========================================
-  async chat(request: ChatRequest): Promise<ChatResponse> {
+  async chat(request: ChatRequest, userId: string): Promise<ChatResponse> {
     this.logger.log(
       `[CHAT] Lead: ${request.leadContext.name} | Message: "${request.message.substring(0, 50)}..."`,
     );
 
-    const historyText = request.history
-      ? request.history
-          .map((msg) => `${msg.role === 'user' ? 'Vendedor' : 'AI'}: ${msg.content}`)
-          .join('\n')
-      : '';
+    const { conversationId, prompts } = await this.prepareChatTurn(request, userId);
 
-    const prompts = getChatPrompt(
-      request.leadContext as LeadContext,
-      historyText,
-    );
-
-    const response = await salesAI.generate({
+    const result = await salesAI.generateWithUsage({
       task: 'chat',
       systemPrompt: prompts.system,
       prompt: prompts.user(request.message),
       provider: request.provider as any,
     });
 
+    const messageId = await this.track(userId, 'chat', request.leadContext, result, conversationId);
+
     // Gerar sugestões de próximas perguntas
     const suggestions = this.generateSuggestions(request.leadContext as LeadContext);
 
     return {
-      response,
+      conversationId,
+      messageId,
+      response: result.content,
       suggestions,
       nextActions: this.getNextActions(request.leadContext as LeadContext),
     };
@@ -75,53 +99,94 @@ export class SalesAIService {
   // ========================================
   // CHAT STREAMING
   // ========================================
-  async *chatStream(request: ChatRequest): AsyncGenerator<string> {
+  /**
+   * Emite os chunks da resposta e, ao final, um evento 'done' com os ids
+   * A resposta só é persistida se o stream terminar sem erro
+   */
+  async *chatStream(request: ChatRequest, userId: string): AsyncGenerator<ChatStreamEvent> {
     this.logger.log(
       `[CHAT STREAM] Lead: ${request.leadContext.name}`,
     );
 
-    const historyText = request.history
-      ? request.history
-          .map((msg) => `${msg.role === 'user' ? 'Vendedor' : 'AI'}: ${msg.content}`)
-          .join('\n')
-      : '';
+    const { conversationId, prompts } = await this.prepareChatTurn(request, userId);
 
-    const prompts = getChatPrompt(
-      request.leadContext as LeadContext,
-      historyText,
-    );
+    let content = '';
+    let messageId: string | undefined;
 
-    yield* salesAI.generateStream({
+    for await (const chunk of salesAI.generateStream({
       systemPrompt: prompts.system,
       prompt: prompts.user(request.message),
       provider: request.provider as any,
+      onComplete: async (usage) => {
+        messageId = await this.track(
+          userId,
+          'chat',
+          request.leadContext,
+          { content, ...usage },
+          conversationId,
+        );
+      },
+    })) {
+      content += chunk;
+      yield { type: 'chunk', content: chunk };
+    }
+
+    yield {
+      type: 'done',
+      conversationId,
+      messageId,
+      suggestions: this.generateSuggestions(request.leadContext as LeadContext),
+      nextActions: this.getNextActions(request.leadContext as LeadContext),
+    };
+  }
+
+  /**
+   * Abre/retoma a conversa, grava a pergunta e monta os prompts com o histórico
+   * (do banco ao retomar; do request apenas em conversas novas)
+   */
+  private async prepareChatTurn(request: ChatRequest, userId: string) {
+    const turn = await this.conversations.startTurn(userId, {
+      conversationId: request.conversationId,
+      leadContext: request.leadContext,
+      message: request.message,
     });
+
+    const history = turn.history ?? request.history ?? [];
+    const historyText = history
+      .map((msg) => `${msg.role === 'user' ? 'Vendedor' : 'AI'}: ${msg.content}`)
+      .join('\n');
+
+    return {
+      conversationId: turn.conversationId,
+      prompts: getChatPrompt(request.leadContext as LeadContext, historyText),
+    };
   }
 
   // ========================================
   // DISC ANALYSIS
   // ========================================
-  async analyzeDISC(request: DISCAnalysisRequest): Promise<DISCAnalysisResponse> {
+  async analyzeDISC(request: DISCAnalysisRequest, userId: string): Promise<DISCAnalysisResponse> {
     this.logger.log(`[DISC] Analyzing: ${request.leadContext.name}`);
 
     const prompts = getDISCAnalysisPrompt(request.leadContext as LeadContext);
 
-    const response = await salesAI.generate({
+    const result = await salesAI.generateWithUsage({
       task: 'disc-analysis',
       systemPrompt: prompts.system,
       prompt: prompts.user,
       jsonMode: true,
     });
 
-    const analysis = JSON.parse(response);
+    const analysis = JSON.parse(result.content);
+    const messageId = await this.track(userId, 'insights', request.leadContext, result);
 
-    return { analysis };
+    return { messageId, analysis };
   }
 
   // ========================================
   // BRIEFING
   // ========================================
-  async generateBriefing(request: BriefingRequest): Promise<BriefingResponse> {
+  async generateBriefing(request: BriefingRequest, userId: string): Promise<BriefingResponse> {
     this.logger.log(
       `[BRIEFING] Lead: ${request.leadContext.name} | Type: ${request.callType || 'discovery'}`,
     );
@@ -130,22 +195,23 @@ export class SalesAIService {
       request.leadContext as LeadContext,
     );
 
-    const response = await salesAI.generate({
+    const result = await salesAI.generateWithUsage({
       task: 'briefing',
       systemPrompt: prompts.system,
       prompt: prompts.user,
       jsonMode: true,
     });
 
-    const briefing = JSON.parse(response);
+    const briefing = JSON.parse(result.content);
+    const messageId = await this.track(userId, 'briefing', request.leadContext, result);
 
-    return { briefing };
+    return { messageId, briefing };
   }
 
   // ========================================
   // BATTLECARD
   // ========================================
-  async generateBattlecard(request: BattlecardRequest): Promise<BattlecardResponse> {
+  async generateBattlecard(request: BattlecardRequest, userId: string): Promise<BattlecardResponse> {
     this.logger.log(
       `[BATTLECARD] Lead: ${request.leadContext.name} | Competitor: ${request.competitor}`,
     );
@@ -154,22 +220,23 @@ export class SalesAIService {
       request.competitor,
     );
 
-    const response = await salesAI.generate({
+    const result = await salesAI.generateWithUsage({
       task: 'battlecard',
       systemPrompt: prompts.system,
       prompt: prompts.user,
       jsonMode: true,
     });
 
-    const battlecard = JSON.parse(response);
+    const battlecard = JSON.parse(result.content);
+    const messageId = await this.track(userId, 'battlecard', request.leadContext, result);
 
-    return { battlecard };
+    return { messageId, battlecard };
   }
 
   // ========================================
   // ROLEPLAY
   // ========================================
-  async roleplay(request: RoleplayRequest): Promise<RoleplayResponse> {
+  async roleplay(request: RoleplayRequest, userId: string): Promise<RoleplayResponse> {
     this.logger.log(
       `[ROLEPLAY] Scenario: ${request.scenario.title} | Difficulty: ${request.scenario.difficulty}`,
     );
@@ -201,11 +268,15 @@ export class SalesAIService {
       request.scenario.difficulty,
     );
 
-    const response = await salesAI.generate({
+    const result = await salesAI.generateWithUsage({
       task: 'roleplay',
       systemPrompt: prompts.system,
       prompt: prompts.user(request.message),
     });
+    const response = result.content;
+
+    // Roleplay não é sobre um lead real — registrado como conversa GENERAL
+    const messageId = await this.track(userId, 'roleplay', undefined, result);
 
     // TODO: Implementar análise de feedback
     const feedback = this.analyzeRoleplayPerformance(
@@ -215,6 +286,7 @@ export class SalesAIService {
     );
 
     return {
+      messageId,
       response,
       feedback,
       suggestedResponses: this.generateRoleplaySuggestions(request.scenario),
@@ -224,7 +296,7 @@ export class SalesAIService {
   // ========================================
   // CONTENT GENERATOR
   // ========================================
-  async generateContent(request: GeneratorRequest): Promise<GeneratorResponse> {
+  async generateContent(request: GeneratorRequest, userId: string): Promise<GeneratorResponse> {
     this.logger.log(
       `[GENERATOR] Type: ${request.type} | Lead: ${request.leadContext.name}`,
     );
@@ -241,13 +313,17 @@ export class SalesAIService {
             request.instructions,
           );
 
-    const content = await salesAI.generate({
+    const result = await salesAI.generateWithUsage({
       task: request.type,
       systemPrompt: prompts.system,
       prompt: prompts.user,
     });
+    const content = result.content;
+
+    const messageId = await this.track(userId, 'generate', request.leadContext, result);
 
     return {
+      messageId,
       content,
       metadata: {
         wordCount: content.split(/\s+/).length,
@@ -259,13 +335,34 @@ export class SalesAIService {
   // ========================================
   // FEEDBACK
   // ========================================
-  async submitFeedback(request: FeedbackRequest): Promise<FeedbackResponse> {
+  async submitFeedback(request: FeedbackRequest, userId: string): Promise<FeedbackResponse> {
     this.logger.log(
       `[FEEDBACK] Message: ${request.messageId} | Rating: ${request.rating}`,
     );
 
-    // TODO: Implementar armazenamento de feedback
-    // Para melhorar o modelo e tracking de qualidade
+    // Apenas respostas da IA nas conversas do próprio usuário
+    const message = await this.prisma.aIMessage.findFirst({
+      where: {
+        id: request.messageId,
+        role: AIRole.ASSISTANT,
+        conversation: { userId },
+      },
+      select: { id: true },
+    });
+
+    if (!message) {
+      throw new NotFoundException(`Mensagem ${request.messageId} não encontrada`);
+    }
+
+    await this.prisma.aIMessage.update({
+      where: { id: message.id },
+      data: {
+        feedbackRating:
+          request.rating === 'helpful' ? AIFeedbackRating.HELPFUL : AIFeedbackRating.NOT_HELPFUL,
+        feedbackComment: request.comment || null,
+        feedbackAt: new Date(),
+      },
+    });
 
     return {
       success: true,
@@ -274,32 +371,147 @@ export class SalesAIService {
   }
 
   // ========================================
-  // ANALYTICS (MOCK - Implementar com banco)
+  // ANALYTICS
   // ========================================
-  async getAnalytics(userId: string): Promise<any> {
-    this.logger.log(`[ANALYTICS] User: ${userId}`);
+  /**
+   * Métricas de uso da IA e de leads no período (padrão: últimos 30 dias)
+   *
+   * ESCOPO:
+   * - SUPERADMIN/ADMINISTRATIVO: todos os usuários (ou userId informado)
+   * - GESTOR: própria equipe (ou um vendedor dela via userId)
+   * - Demais roles: apenas os próprios números
+   */
+  async getAnalytics(
+    currentUser: { id: string; role: UserRole },
+    query: AnalyticsRequest,
+  ): Promise<AnalyticsResponse> {
+    const users = await this.resolveAnalyticsScope(currentUser, query.userId);
+    const userIds = users.map((u) => u.id);
+
+    const dateTo = query.dateTo ? new Date(query.dateTo) : new Date();
+    const dateFrom = query.dateFrom
+      ? new Date(query.dateFrom)
+      : new Date(dateTo.getTime() - DEFAULT_ANALYTICS_DAYS * 24 * 60 * 60 * 1000);
+
+    this.logger.log(`[ANALYTICS] User: ${currentUser.id} | Escopo: ${userIds.length} usuário(s)`);
+
+    const messageWhere: Prisma.AIMessageWhereInput = {
+      role: AIRole.ASSISTANT,
+      feature: { not: null },
+      createdAt: { gte: dateFrom, lte: dateTo },
+      conversation: { userId: { in: userIds } },
+    };
+    const leadWhere: Prisma.LeadWhereInput = {
+      vendedorId: { in: userIds },
+      createdAt: { gte: dateFrom, lte: dateTo },
+    };
+
+    const [features, providers, ratings, latency, leadsByStatus, wonLeads, wonByUser, usageByUser] =
+      await Promise.all([
+        this.prisma.aIMessage.groupBy({
+          by: ['feature'],
+          where: messageWhere,
+          _count: { _all: true },
+        }),
+        this.prisma.aIMessage.groupBy({
+          by: ['provider'],
+          where: messageWhere,
+          _count: { _all: true },
+          _avg: { latencyMs: true },
+          _sum: { tokensUsed: true },
+        }),
+        this.prisma.aIMessage.groupBy({
+          by: ['feedbackRating'],
+          where: { ...messageWhere, feedbackRating: { not: null } },
+          _count: { _all: true },
+        }),
+        this.prisma.aIMessage.aggregate({
+          where: messageWhere,
+          _count: { _all: true },
+          _avg: { latencyMs: true },
+        }),
+        this.prisma.lead.groupBy({
+          by: ['status'],
+          where: leadWhere,
+          _count: { _all: true },
+        }),
+        this.prisma.lead.findMany({
+          where: { ...leadWhere, status: LeadStatus.GANHO },
+          select: { createdAt: true, convertedAt: true, expectedRevenue: true },
+        }),
+        this.prisma.lead.groupBy({
+          by: ['vendedorId'],
+          where: { ...leadWhere, status: LeadStatus.GANHO },
+          _count: { _all: true },
+        }),
+        this.getUsageByUser(userIds, dateFrom, dateTo),
+      ]);
+
+    // Leads
+    const countByStatus = (status: LeadStatus) =>
+      leadsByStatus.find((g) => g.status === status)?._count._all ?? 0;
+    const totalLeads = leadsByStatus.reduce((sum, g) => sum + g._count._all, 0);
+    const convertedLeads = countByStatus(LeadStatus.GANHO);
+    const lostLeads = countByStatus(LeadStatus.PERDIDO);
+
+    const dealSizes = wonLeads
+      .filter((l) => l.expectedRevenue !== null)
+      .map((l) => Number(l.expectedRevenue));
+    const salesCycles = wonLeads
+      .filter((l) => l.convertedAt)
+      .map((l) => (l.convertedAt!.getTime() - l.createdAt.getTime()) / (24 * 60 * 60 * 1000));
+
+    // Feedback
+    const helpful = ratings.find((r) => r.feedbackRating === AIFeedbackRating.HELPFUL)?._count._all ?? 0;
+    const notHelpful = ratings.find((r) => r.feedbackRating === AIFeedbackRating.NOT_HELPFUL)?._count._all ?? 0;
+    const satisfactionRate = this.percent(helpful, helpful + notHelpful);
 
-    // TODO: Implementar queries reais no banco
     return {
+      period: { dateFrom: dateFrom.toISOString(), dateTo: dateTo.toISOString() },
       metrics: {
         lead: {
-          totalLeads: 0,
-          activeLeads: 0,
-          convertedLeads: 0,
-          conversionRate: 0,
+          totalLeads,
+          activeLeads: countByStatus(LeadStatus.ABERTO),
+          convertedLeads,
+          conversionRate: this.percent(convertedLeads, totalLeads),
         },
         ai: {
-          totalInteractions: 0,
-          avgResponseTime: 0,
-          satisfactionRate: 0,
-          mostUsedFeatures: [],
+          totalInteractions: latency._count._all,
+          avgResponseTime: Math.round(latency._avg.latencyMs ?? 0), // ms
+          satisfactionRate,
+          mostUsedFeatures: features
+            .map((f) => ({ feature: f.feature as string, count: f._count._all }))
+            .sort((a, b) => b.count - a.count),
         },
         performance: {
-          avgDealSize: 0,
-          avgSalesCycle: 0,
-          winRate: 0,
+          avgDealSize: this.round(this.average(dealSizes)),
+          avgSalesCycle: this.round(this.average(salesCycles)), // dias
+          winRate: this.percent(convertedLeads, convertedLeads + lostLeads),
         },
       },
+      providers: providers
+        .map((p) => ({
+          provider: p.provider ?? 'desconhecido',
+          requests: p._count._all,
+          avgLatencyMs: Math.round(p._avg.latencyMs ?? 0),
+          totalTokens: p._sum.tokensUsed ?? 0,
+        }))
+        .sort((a, b) => b.requests - a.requests),
+      feedback: { helpful, notHelpful, satisfactionRate },
+      team: users
+        .map((user) => {
+          const usage = usageByUser.find((u) => u.userId === user.id);
+          return {
+            userId: user.id,
+            name: user.name,
+            interactions: usage?.interactions ?? 0,
+            totalTokens: usage?.totalTokens ?? 0,
+            avgLatencyMs: Math.round(usage?.avgLatencyMs ?? 0),
+            satisfactionRate: this.percent(usage?.helpful ?? 0, (usage?.helpful ?? 0) + (usage?.notHelpful ?? 0)),
+            convertedLeads: wonByUser.find((w) => w.vendedorId === user.id)?._count._all ?? 0,
+          };
+        })
+        .sort((a, b) => b.interactions - a.interactions),
     };
   }
 
@@ -380,6 +592,172 @@ export class SalesAIService {
     ];
   }
 
+  /**
+   * Persiste a resposta da IA como AIMessage (telemetria + alvo do feedback)
+   * No chat vai para a sessão aberta; nas demais features, para a conversa de uso
+   * Falhas aqui nunca bloqueiam a resposta ao vendedor
+   */
+  private async track(
+    userId: string,
+    feature: AIFeature,
+    leadContext: { id?: string; name?: string } | undefined,
+    result: GenerateResult,
+    chatConversationId?: string,
+  ): Promise<string | undefined> {
+    try {
+      const conversationId =
+        chatConversationId ?? (await this.getUsageConversationId(userId, leadContext));
+
+      const message = await this.prisma.aIMessage.create({
+        data: {
+          conversationId,
+          role: AIRole.ASSISTANT,
+          content: result.content,
+          model: result.model,
+          tokensUsed: result.tokensUsed,
+          feature,
+          provider: result.provider,
+          latencyMs: result.latencyMs,
+        },
+        select: { id: true },
+      });
+
+      if (chatConversationId) {
+        await this.conversations.touch(chatConversationId);
+      }
+
+      return message.id;
+    } catch (error) {
+      this.logger.warn(`⚠️ Falha ao registrar uso da IA (${feature}): ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Conversa de uso do usuário sobre o lead (LEAD) ou geral (GENERAL), criada
+   * sob demanda — nunca uma sessão do chat (vazia ou com mensagens 'chat')
+   */
+  private async getUsageConversationId(
+    userId: string,
+    leadContext?: { id?: string; name?: string },
+  ): Promise<string> {
+    const contextId = leadContext?.id || null;
+    const contextType = contextId ? AIContextType.LEAD : AIContextType.GENERAL;
+
+    const existing = await this.prisma.aIConversation.findFirst({
+      where: {
+        userId,
+        contextType,
+        contextId,
+        messages: { some: {}, none: { feature: 'chat' } },
+      },
+      orderBy: { updatedAt: 'desc' },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return existing.id;
+    }
+
+    const conversation = await this.prisma.aIConversation.create({
+      data: {
+        userId,
+        contextType,
+        contextId,
+        title: contextId ? leadContext?.name ?? null : null,
+      },
+      select: { id: true },
+    });
+
+    return conversation.id;
+  }
+
+  /**
+   * Usuários cujos números entram no analytics (ver regras em getAnalytics)
+   */
+  private async resolveAnalyticsScope(
+    currentUser: { id: string; role: UserRole },
+    requestedUserId?: string,
+  ): Promise<Array<{ id: string; name: string }>> {
+    const select = { id: true, name: true };
+
+    if (currentUser.role === UserRole.SUPERADMIN || currentUser.role === UserRole.ADMINISTRATIVO) {
+      return this.prisma.user.findMany({
+        where: requestedUserId ? { id: requestedUserId } : { isActive: true },
+        select,
+        orderBy: { name: 'asc' },
+      });
+    }
+
+    if (currentUser.role === UserRole.GESTOR) {
+      const team = await this.prisma.user.findMany({
+        where: { OR: [{ id: currentUser.id }, { gestorId: currentUser.id }] },
+        select,
+        orderBy: { name: 'asc' },
+      });
+
+      if (!requestedUserId) {
+        return team;
+      }
+
+      const member = team.filter((u) => u.id === requestedUserId);
+      if (member.length === 0) {
+        throw new ForbiddenException('Você não tem acesso às métricas deste usuário');
+      }
+      return member;
+    }
+
+    if (requestedUserId && requestedUserId !== currentUser.id) {
+      throw new ForbiddenException('Você só pode visualizar suas próprias métricas');
+    }
+
+    return this.prisma.user.findMany({ where: { id: currentUser.id }, select });
+  }
+
+  /**
+   * Uso da IA agrupado por usuário (userId está na conversa, não na mensagem)
+   */
+  private async getUsageByUser(userIds: string[], dateFrom: Date, dateTo: Date) {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    return this.prisma.$queryRaw<Array<{
+      userId: string;
+      interactions: number;
+      totalTokens: number;
+      avgLatencyMs: number | null;
+      helpful: number;
+      notHelpful: number;
+    }>>`
+      SELECT c."userId",
+        COUNT(*)::int AS "interactions",
+        COALESCE(SUM(m."tokensUsed"), 0)::int AS "totalTokens",
+        AVG(m."latencyMs")::float AS "avgLatencyMs",
+        COUNT(*) FILTER (WHERE m."feedbackRating" = 'HELPFUL')::int AS "helpful",
+        COUNT(*) FILTER (WHERE m."feedbackRating" = 'NOT_HELPFUL')::int AS "notHelpful"
+      FROM "AIMessage" m
+      JOIN "AIConversation" c ON c."id" = m."conversationId"
+      WHERE m."role" = 'ASSISTANT'
+        AND m."feature" IS NOT NULL
+        AND m."createdAt" BETWEEN ${dateFrom} AND ${dateTo}
+        AND c."userId" IN (${Prisma.join(userIds)})
+      GROUP BY c."userId"
+    `;
+  }
+
+  private percent(part: number, total: number): number {
+    return total > 0 ? this.round((part / total) * 100) : 0;
+  }
+
+  private average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+
   private getToneForDISC(disc?: string): string {
     const tones: Record<string, string> = {
       DOMINANTE: 'Direto e assertivo',
@@ -15,7 +15,8 @@ import { StatusConfigsService } from './status-configs.service';
 import { CreateStatusConfigDto, CreateStatusConfigSchema } from './dto/create-status-config.dto';
 import { UpdateStatusConfigDto, UpdateStatusConfigSchema } from './dto/update-status-config.dto';
 import { Roles } from '@/common/decorators/roles.decorator';
-import { UserRole, StatusEntity } from '@prisma/client';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { UserRole, StatusEntity, Module } from '@prisma/client';
 import { ZodValidationPipe } from '@/common/pipes/zod-validation.pipe';
 
 @Controller('status-configs')
@@ -44,6 +45,7 @@ export class StatusConfigsController {
    * Cria novo status customizado — SUPERADMIN ou ADMINISTRATIVO
    */
   @Post()
+  @RequirePermission(Module.SETTINGS, 'create')
   @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
   @UsePipes(new ZodValidationPipe(CreateStatusConfigSchema))
   async create(@Body() dto: CreateStatusConfigDto) {
@@ -55,6 +57,7 @@ export class StatusConfigsController {
    * Edita label/cor (sistema) ou todos os campos (custom) — SUPERADMIN ou ADMINISTRATIVO
    */
   @Put(':id')
+  @RequirePermission(Module.SETTINGS, 'edit')
   @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
   @UsePipes(new ZodValidationPipe(UpdateStatusConfigSchema))
   async update(@Param('id') id: string, @Body() dto: UpdateStatusConfigDto) {
@@ -66,6 +69,7 @@ export class StatusConfigsController {
    * Desativa status custom — apenas SUPERADMIN (sistema não pode deletar)
    */
   @Delete(':id')
+  @RequirePermission(Module.SETTINGS, 'delete')
   @Roles(UserRole.SUPERADMIN)
   @HttpCode(HttpStatus.NO_CONTENT)
   async remove(@Param('id') id: string) {
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+/**
+ * Schema Zod para troca de plano no meio do ciclo (upgrade/downgrade)
+ * amount omitido = preço mensal do novo plano × meses do ciclo atual
+ */
+export const ChangePlanSchema = z.object({
+  planId: z.string().min(1, 'Plano é obrigatório'),
+  amount: z
+    .number()
+    .positive('Valor deve ser positivo')
+    .multipleOf(0.01, 'Valor deve ter no máximo 2 casas decimais')
+    .optional(),
+  reason: z.string().max(500, 'Motivo deve ter no máximo 500 caracteres').optional(),
+});
+
+export type ChangePlanDto = z.infer<typeof ChangePlanSchema>;
@@ -3,7 +3,9 @@ import { SubscriptionService } from './subscriptions.service';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
 import { UserRole, BillingCycle } from '@prisma/client';
+import { ChangePlanDto, ChangePlanSchema } from './dto/change-plan.dto';
 
 @Controller('subscriptions')
 @UseGuards(RolesGuard)
@@ -37,4 +39,27 @@ export class SubscriptionController {
       userId: user.id,
     });
   }
+
+  // Troca de plano no meio do ciclo (upgrade/downgrade pró-rata)
+  @Post(':id/change-plan/preview')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+  async previewPlanChange(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(ChangePlanSchema)) dto: ChangePlanDto,
+  ) {
+    return this.subscriptionService.previewPlanChange(id, dto);
+  }
+
+  @Post(':id/change-plan')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR)
+  async changePlan(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(ChangePlanSchema)) dto: ChangePlanDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.subscriptionService.changePlan(id, {
+      ...dto,
+      userId: user.id,
+    });
+  }
 }
@@ -3,9 +3,11 @@ import { SubscriptionService } from './subscriptions.service';
 import { SubscriptionController } from './subscriptions.controller';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { TenantsModule } from '../tenants/tenants.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { DunningModule } from '../dunning/dunning.module';
 
 @Module({
-  imports: [PrismaModule, TenantsModule],
+  imports: [PrismaModule, TenantsModule, PaymentsModule, DunningModule],
   controllers: [SubscriptionController],
   providers: [SubscriptionService],
   exports: [SubscriptionService],
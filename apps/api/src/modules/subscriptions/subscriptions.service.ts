@@ -2,7 +2,10 @@ import { Injectable, Logger, NotFoundException, BadRequestException, OnModuleIni
 import { PrismaService } from '../../prisma/prisma.service';
 import { TenantsService } from '../tenants/tenants.service';
 import { NotificationsService } from '../notifications/notifications.service';
-import { NotificationType } from '@prisma/client';
+import { PaymentsService } from '../payments/payments.service';
+import { DunningService } from '../dunning/dunning.service';
+import { defaultGatewayForMethod } from '../payments/gateways/payment-gateway.interface';
+import { NotificationType, PaymentMethod } from '@prisma/client';
 import { Cron } from '@nestjs/schedule';
 import {
   nowBrasilia,
@@ -12,8 +15,9 @@ import {
   calculatePeriodEnd,
   isPastDue,
   daysBetween,
+  diffInDays,
 } from '../../common/utils/date.utils';
-import { BillingCycle, ClientStatus, PaymentStatus } from '@prisma/client';
+import { BillingCycle, ClientStatus, PaymentStatus, Prisma } from '@prisma/client';
 
 @Injectable()
 export class SubscriptionService implements OnModuleInit {
@@ -23,6 +27,8 @@ export class SubscriptionService implements OnModuleInit {
     private readonly prisma: PrismaService,
     private readonly tenantsService: TenantsService,
     private readonly notificationsService: NotificationsService,
+    private readonly paymentsService: PaymentsService,
+    private readonly dunningService: DunningService,
   ) {}
 
   onModuleInit() {
@@ -193,6 +199,253 @@ export class SubscriptionService implements OnModuleInit {
     return result;
   }
 
+  // ══════════════════════════════════════════════════════════════
+  // TROCA DE PLANO NO MEIO DO CICLO (upgrade/downgrade pró-rata)
+  // ══════════════════════════════════════════════════════════════
+
+  /**
+   * Simula a troca de plano sem gravar nada (modal de confirmação)
+   */
+  async previewPlanChange(subscriptionId: string, data: { planId: string; amount?: number }) {
+    const { subscription, plan } = await this.loadPlanChange(subscriptionId, data.planId);
+    const newAmount = data.amount ?? this.planAmountForCycle(plan.priceMonthly, subscription.billingCycle);
+
+    return {
+      subscriptionId: subscription.id,
+      previousPlan: { id: subscription.plan.id, name: subscription.plan.name },
+      newPlan: { id: plan.id, name: plan.name },
+      billingCycle: subscription.billingCycle,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+      ...this.calculateProration(subscription, newAmount),
+    };
+  }
+
+  /**
+   * Troca o plano da assinatura ativa mantendo o período atual:
+   * 1. Calcula crédito do valor não usado e cobrança do novo plano até currentPeriodEnd
+   * 2. Lança a diferença como FinanceTransaction avulsa (INCOME pendente = cobrança, EXPENSE pago = crédito)
+   * 3. Atualiza subscription/client e grava UpgradeHistory
+   * 4. Fora da tx: emite a cobrança no gateway e reaplica os módulos do plano no tenant
+   *
+   * A partir da próxima renovação o cron billing-renewal já usa o novo valor
+   */
+  async changePlan(
+    subscriptionId: string,
+    data: { planId: string; amount?: number; reason?: string; userId: string },
+  ) {
+    const { subscription, plan } = await this.loadPlanChange(subscriptionId, data.planId);
+    const newAmount = data.amount ?? this.planAmountForCycle(plan.priceMonthly, subscription.billingCycle);
+    const proration = this.calculateProration(subscription, newAmount);
+    const client = subscription.client;
+    const direction = proration.direction === 'UPGRADE' ? 'Upgrade' : 'Downgrade';
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      // 1. Subscription → novo plano/valor (período preservado)
+      const updatedSubscription = await tx.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          planId: plan.id,
+          amount: newAmount,
+          metadata: {
+            ...((subscription.metadata as Record<string, unknown>) ?? {}),
+            lastPlanChangeAt: nowBrasilia().toISOString(),
+            lastPlanChangeBy: data.userId,
+            previousPlanId: subscription.planId,
+          },
+        },
+        include: { plan: true },
+      });
+
+      // 2. Client → novo plano
+      await tx.client.update({
+        where: { id: client.id },
+        data: { planId: plan.id },
+      });
+
+      // 3. Ajuste pró-rata (não recorrente — não entra no MRR nem na régua)
+      // Crédito do downgrade já nasce liquidado: fica só como registro, sem bloquear a renovação
+      let adjustmentTransaction = null;
+      let adjustmentPaymentId: string | null = null;
+
+      if (proration.netAmount !== 0) {
+        const isCharge = proration.netAmount > 0;
+        const description =
+          `${isCharge ? 'Ajuste pró-rata' : 'Crédito pró-rata'} ${subscription.plan.name} → ${plan.name} - ${client.company}`;
+        const today = nowBrasilia();
+
+        adjustmentTransaction = await tx.financeTransaction.create({
+          data: {
+            description,
+            amount: Math.abs(proration.netAmount),
+            type: isCharge ? 'INCOME' : 'EXPENSE',
+            category: 'SUBSCRIPTION',
+            date: today,
+            dueDate: today,
+            status: isCharge ? 'PENDING' : 'PAID',
+            paidAt: isCharge ? null : today,
+            clientId: client.id,
+            subscriptionId: subscription.id,
+            productType: client.productType,
+            isRecurring: false,
+            createdBy: data.userId,
+          },
+        });
+
+        // Cobrança do upgrade segue o mesmo fluxo de emissão da renovação
+        if (isCharge) {
+          const method = client.paymentMethod ?? PaymentMethod.PIX;
+          const payment = await tx.payment.create({
+            data: {
+              clientId: client.id,
+              subscriptionId: subscription.id,
+              amount: proration.netAmount,
+              method,
+              gateway: client.paymentGateway ?? defaultGatewayForMethod(method),
+              status: 'PENDING',
+              dueDate: today,
+              periodStart: today,
+              periodEnd: subscription.currentPeriodEnd,
+              billingCycle: subscription.billingCycle,
+              description,
+            },
+          });
+          adjustmentPaymentId = payment.id;
+        }
+      }
+
+      // 4. Histórico de upgrade/downgrade (MRR normalizado por mês)
+      const months = this.cycleMonths(subscription.billingCycle);
+      await tx.upgradeHistory.create({
+        data: {
+          clientId: client.id,
+          previousPlan: subscription.plan.name,
+          newPlan: plan.name,
+          previousMrr: Number(subscription.amount) / months,
+          newMrr: newAmount / months,
+          reason: data.reason?.trim() || `${direction} pró-rata (${proration.remainingDays}/${proration.totalDays} dias restantes)`,
+        },
+      });
+
+      return { subscription: updatedSubscription, adjustmentTransaction, adjustmentPaymentId };
+    });
+
+    this.logger.log(
+      `🔀 ${direction}: ${client.company} | ${subscription.plan.name} → ${plan.name} | ` +
+        `Ajuste: ${proration.netAmount.toFixed(2)} (${proration.remainingDays}/${proration.totalDays} dias)`,
+    );
+
+    // Fora da tx (graceful degradation)
+    if (result.adjustmentPaymentId) {
+      await this.paymentsService.issueCharge(result.adjustmentPaymentId);
+    }
+    await this.tenantsService.syncPlanModules(client.id);
+
+    return {
+      subscription: result.subscription,
+      adjustmentTransaction: result.adjustmentTransaction,
+      proration,
+    };
+  }
+
+  private async loadPlanChange(subscriptionId: string, planId: string) {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+      include: { plan: true, client: true },
+    });
+
+    if (!subscription) {
+      throw new NotFoundException('Assinatura não encontrada');
+    }
+
+    if (subscription.status !== 'ACTIVE') {
+      throw new BadRequestException(
+        `Assinatura com status "${subscription.status}" não permite troca de plano. Use a reativação.`,
+      );
+    }
+
+    if (subscription.planId === planId) {
+      throw new BadRequestException('A assinatura já está neste plano');
+    }
+
+    const plan = await this.prisma.plan.findUnique({ where: { id: planId } });
+
+    if (!plan || !plan.isActive) {
+      throw new NotFoundException('Plano não encontrado ou inativo');
+    }
+
+    if (plan.product !== subscription.plan.product) {
+      throw new BadRequestException('O novo plano deve ser do mesmo produto da assinatura');
+    }
+
+    // Mesma trava da renovação: sem troca com cobrança recorrente em aberto
+    const hasOpenCharge = await this.prisma.financeTransaction.findFirst({
+      where: {
+        subscriptionId,
+        isRecurring: true,
+        status: { in: ['PENDING', 'OVERDUE'] },
+      },
+      select: { id: true },
+    });
+
+    if (hasOpenCharge) {
+      throw new BadRequestException(
+        'Assinatura possui cobrança em aberto. Regularize o pagamento antes de trocar de plano.',
+      );
+    }
+
+    return { subscription, plan };
+  }
+
+  /**
+   * Pró-rata por dias: crédito do valor atual e cobrança do novo valor
+   * proporcionais aos dias restantes até currentPeriodEnd
+   */
+  private calculateProration(
+    subscription: { currentPeriodStart: Date; currentPeriodEnd: Date; amount: Prisma.Decimal },
+    newAmount: number,
+  ) {
+    const today = nowBrasilia();
+    const totalDays = Math.max(1, diffInDays(subscription.currentPeriodEnd, subscription.currentPeriodStart));
+    const remainingDays = Math.min(
+      totalDays,
+      Math.max(0, diffInDays(subscription.currentPeriodEnd, today)),
+    );
+    const ratio = remainingDays / totalDays;
+
+    const previousAmount = Number(subscription.amount);
+    const credit = this.roundMoney(previousAmount * ratio);
+    const charge = this.roundMoney(newAmount * ratio);
+
+    return {
+      direction: newAmount >= previousAmount ? ('UPGRADE' as const) : ('DOWNGRADE' as const),
+      previousAmount,
+      newAmount,
+      totalDays,
+      remainingDays,
+      credit,
+      charge,
+      netAmount: this.roundMoney(charge - credit),
+    };
+  }
+
+  private planAmountForCycle(priceMonthly: Prisma.Decimal, cycle: BillingCycle): number {
+    return this.roundMoney(Number(priceMonthly) * this.cycleMonths(cycle));
+  }
+
+  private cycleMonths(cycle: BillingCycle): number {
+    const months: Record<BillingCycle, number> = {
+      MONTHLY: 1,
+      QUARTERLY: 3,
+      SEMIANNUAL: 6,
+      ANNUAL: 12,
+    };
+    return months[cycle];
+  }
+
+  private roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
   // ══════════════════════════════════════════════════════════════
   // CRON: RENOVAÇÃO AUTOMÁTICA (todo dia às 06:00 BRT = 09:00 UTC)
   // ══════════════════════════════════════════════════════════════
@@ -226,11 +479,12 @@ export class SubscriptionService implements OnModuleInit {
 
     for (const sub of subscriptions) {
       try {
-        await this.prisma.$transaction(async (tx) => {
+        const renewalPaymentId = await this.prisma.$transaction(async (tx) => {
           // ✅ v2.47.0: Verificar débitos pendentes antes de renovar (trava de segurança)
           const hasOverdue = await tx.financeTransaction.findFirst({
             where: {
               subscriptionId: sub.id,
+              type: 'INCOME',
               status: { in: ['PENDING', 'OVERDUE'] },
             },
           });
@@ -239,7 +493,7 @@ export class SubscriptionService implements OnModuleInit {
             this.logger.warn(
               `⚠️ Renovação bloqueada: ${sub.client.company} tem débito pendente (${hasOverdue.status})`,
             );
-            return; // Não cria nova cobrança
+            return null; // Não cria nova cobrança
           }
 
           // Calcular novo período
@@ -279,8 +533,33 @@ export class SubscriptionService implements OnModuleInit {
             },
           });
 
+          // Criar Payment da renovação — a cobrança é emitida no gateway após a tx
+          const method = sub.client.paymentMethod ?? PaymentMethod.PIX;
+          const payment = await tx.payment.create({
+            data: {
+              clientId: sub.clientId,
+              subscriptionId: sub.id,
+              amount: sub.amount,
+              method,
+              gateway: sub.client.paymentGateway ?? defaultGatewayForMethod(method),
+              status: 'PENDING',
+              dueDate: newPeriodStart,
+              periodStart: newPeriodStart,
+              periodEnd: newPeriodEnd,
+              billingCycle: sub.billingCycle,
+              description: `Cobrança ${sub.plan?.name || 'Plano'} - ${sub.client.company}`,
+            },
+          });
+
           this.logger.log(`✅ Renovado: ${sub.client.company} | Próximo: ${newNextBilling.toISOString()}`);
+
+          return payment.id;
         });
+
+        // Emitir boleto/cartão/PIX no gateway (fora da tx, graceful degradation)
+        if (renewalPaymentId) {
+          await this.paymentsService.issueCharge(renewalPaymentId);
+        }
       } catch (error) {
         this.logger.error(`❌ Erro ao renovar subscription ${sub.id}: ${error.message}`);
 
@@ -397,9 +676,10 @@ export class SubscriptionService implements OnModuleInit {
 
     for (const ft of overdueTransactions) {
       try {
-        // Buscar subscription vinculada
+        // Buscar subscription vinculada (com produto para resolver a régua)
         const subscription = await this.prisma.subscription.findUnique({
           where: { id: ft.subscriptionId! },
+          include: { plan: { select: { product: true } } },
         });
 
         if (!subscription) {
@@ -412,124 +692,67 @@ export class SubscriptionService implements OnModuleInit {
         dueDate.setHours(0, 0, 0, 0);
         const diffMs = today.getTime() - dueDate.getTime();
         const daysOverdue = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-        const gracePeriod = subscription.gracePeriodDays || 7;
-
-        if (daysOverdue > gracePeriod) {
-          // ════════════════════════════════════════════
-          // ALÉM DO GRACE PERIOD → CANCELAR TUDO
-          // ════════════════════════════════════════════
-          await this.prisma.$transaction(async (tx) => {
-            // 1. Subscription → CANCELED
-            await tx.subscription.update({
-              where: { id: subscription.id },
-              data: {
-                status: 'CANCELED',
-                canceledAt: new Date(),
-                cancellationReason: 'PAYMENT_FAILURE',
-              },
-            });
 
-            // 2. Client → CANCELADO
-            await tx.client.update({
-              where: { id: ft.clientId! },
-              data: { status: 'CANCELADO' },
-            });
+        if (daysOverdue <= 0) continue;
 
-            // 3. FinanceTransaction → CANCELLED
-            await tx.financeTransaction.update({
-              where: { id: ft.id },
-              data: { status: 'CANCELLED' },
-            });
+        // ════════════════════════════════════════════
+        // RÉGUA DE COBRANÇA (lembretes, suspensão, cancelamento)
+        // ════════════════════════════════════════════
+        const { canceled, cancelDay } = await this.dunningService.processOverdue(ft, subscription, daysOverdue);
 
-            this.logger.warn(
-              `🔴 [CRON overdue] CANCELADO: ${ft.client?.company || ft.client?.contactName || ft.clientId} | ` +
-                `${daysOverdue} dias em atraso (grace: ${gracePeriod} dias)`,
-            );
-          });
-
-          // Cancelar tenant no One Nexus (fora da tx, graceful degradation)
-          if (ft.clientId) {
-            await this.tenantsService.syncStatusToOneNexus(ft.clientId, 'canceled');
-          }
+        if (canceled) continue;
 
-          // ✅ v2.58.0: Notificar vendedor sobre cancelamento por inadimplência
-          if (ft.client?.vendedorId) {
-            const empresa = ft.client?.company || ft.client?.contactName || ft.clientId;
-            this.notificationsService.create({
-              userId: ft.client.vendedorId,
-              type: NotificationType.PAYMENT_OVERDUE,
-              title: 'Assinatura cancelada por inadimplência',
-              message: `${empresa} foi cancelado após ${daysOverdue} dias sem pagamento.`,
-              link: '/clients',
-              metadata: { clientId: ft.clientId, daysOverdue, subscriptionId: ft.subscriptionId },
-              dedupeKey: `cancel-${ft.clientId}`,  // 1 alerta de cancelamento por cliente
-              throttleHours: 48,
-            }).catch(() => {});
-          }
-        } else if (daysOverdue > 0) {
-          // ════════════════════════════════════════════
-          // DENTRO DO GRACE PERIOD → INADIMPLENTE
-          // ════════════════════════════════════════════
-          await this.prisma.$transaction(async (tx) => {
-            // 1. Subscription → PAST_DUE
-            if (subscription.status === 'ACTIVE') {
-              await tx.subscription.update({
-                where: { id: subscription.id },
-                data: { status: 'PAST_DUE' },
-              });
-            }
-
-            // 2. Client → INADIMPLENTE
-            const client = await tx.client.findUnique({
-              where: { id: ft.clientId! },
-              select: { status: true },
+        // ════════════════════════════════════════════
+        // EM ATRASO → PAST_DUE / INADIMPLENTE
+        // ════════════════════════════════════════════
+        await this.prisma.$transaction(async (tx) => {
+          // 1. Subscription → PAST_DUE
+          if (subscription.status === 'ACTIVE') {
+            await tx.subscription.update({
+              where: { id: subscription.id },
+              data: { status: 'PAST_DUE' },
             });
+          }
 
-            if (client && client.status !== 'INADIMPLENTE' && client.status !== 'CANCELADO') {
-              await tx.client.update({
-                where: { id: ft.clientId! },
-                data: { status: 'INADIMPLENTE' },
-              });
-            }
-
-            this.logger.log(
-              `🟡 [CRON overdue] INADIMPLENTE: ${ft.client?.company || ft.client?.contactName || ft.clientId} | ` +
-                `${daysOverdue}/${gracePeriod} dias`,
-            );
+          // 2. Client → INADIMPLENTE (BLOQUEADO é definido pela régua)
+          await tx.client.updateMany({
+            where: { id: ft.clientId!, status: { notIn: ['INADIMPLENTE', 'BLOQUEADO', 'CANCELADO'] } },
+            data: { status: 'INADIMPLENTE' },
           });
 
-          // Suspender tenant no One Nexus (fora da tx, graceful degradation)
-          if (ft.clientId) {
-            await this.tenantsService.syncStatusToOneNexus(ft.clientId, 'suspended');
-          }
+          this.logger.log(
+            `🟡 [CRON overdue] INADIMPLENTE: ${ft.client?.company || ft.client?.contactName || ft.clientId} | ` +
+              `${daysOverdue} dias` + (cancelDay ? ` (cancelamento D+${cancelDay})` : ''),
+          );
+        });
 
-          // ✅ v2.58.0: Notificar vendedor sobre inadimplência
-          if (ft.client?.vendedorId) {
-            const empresa = ft.client?.company || ft.client?.contactName || ft.clientId;
+        // ✅ v2.58.0: Notificar vendedor sobre inadimplência
+        if (ft.client?.vendedorId) {
+          const empresa = ft.client?.company || ft.client?.contactName || ft.clientId;
+          const prazo = cancelDay ? ` Cancelamento em ${cancelDay} dias de atraso.` : '';
+          this.notificationsService.create({
+            userId: ft.client.vendedorId,
+            type: NotificationType.PAYMENT_OVERDUE,
+            title: 'Cliente inadimplente',
+            message: `${empresa} está ${daysOverdue} dia(s) sem pagamento.${prazo}`,
+            link: '/clients',
+            metadata: { clientId: ft.clientId, daysOverdue, cancelDay },
+            dedupeKey: `overdue-${ft.clientId}`,  // 1 alerta por cliente por 24h
+            throttleHours: 24,
+          }).catch(() => {});
+
+          // ✅ v2.58.0: AI_CHURN_ALERT no primeiro dia — alerta proativo de risco de churn
+          if (daysOverdue === 1) {
             this.notificationsService.create({
               userId: ft.client.vendedorId,
-              type: NotificationType.PAYMENT_OVERDUE,
-              title: 'Cliente inadimplente',
-              message: `${empresa} está ${daysOverdue} dia(s) sem pagamento. Prazo: ${gracePeriod} dias.`,
+              type: NotificationType.AI_CHURN_ALERT,
+              title: 'Risco de churn detectado',
+              message: `${empresa} iniciou período de inadimplência. Contato preventivo pode evitar cancelamento.`,
               link: '/clients',
-              metadata: { clientId: ft.clientId, daysOverdue, gracePeriod },
-              dedupeKey: `overdue-${ft.clientId}`,  // 1 alerta por cliente por 24h
-              throttleHours: 24,
+              metadata: { clientId: ft.clientId, daysUntilCancel: cancelDay ? cancelDay - daysOverdue : null },
+              dedupeKey: ft.clientId ?? undefined,  // 1 churn alert por cliente por 7 dias
+              throttleHours: 168,
             }).catch(() => {});
-
-            // ✅ v2.58.0: AI_CHURN_ALERT no primeiro dia — alerta proativo de risco de churn
-            if (daysOverdue === 1) {
-              this.notificationsService.create({
-                userId: ft.client.vendedorId,
-                type: NotificationType.AI_CHURN_ALERT,
-                title: 'Risco de churn detectado',
-                message: `${empresa} iniciou período de inadimplência. Contato preventivo pode evitar cancelamento.`,
-                link: '/clients',
-                metadata: { clientId: ft.clientId, gracePeriod, daysUntilCancel: gracePeriod },
-                dedupeKey: ft.clientId ?? undefined,  // 1 churn alert por cliente por 7 dias
-                throttleHours: 168,
-              }).catch(() => {});
-            }
           }
         }
       } catch (error) {
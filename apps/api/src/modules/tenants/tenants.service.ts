@@ -325,6 +325,30 @@ export class TenantsService {
     }
   }
 
+  /**
+   * Reaplica os módulos do plano atual do cliente ao tenant no One Nexus
+   * (troca de plano no meio do ciclo). Graceful degradation como applyPlanModules.
+   */
+  async syncPlanModules(clientId: string): Promise<void> {
+    try {
+      const client = await this.prisma.client.findUnique({
+        where: { id: clientId },
+        select: {
+          company: true,
+          plan: { select: { includedModules: true } },
+          tenant: { select: { tenantUuid: true, provisioningStatus: true } },
+        },
+      });
+
+      const tenant = client?.tenant;
+      if (!client || !tenant?.tenantUuid || tenant.provisioningStatus !== 'PROVISIONED') return;
+
+      await this.applyPlanModules(tenant.tenantUuid, client.plan?.includedModules, client.company);
+    } catch (error) {
+      this.logger.error(`[OneNexus] Erro ao sincronizar módulos do plano para clientId ${clientId}: ${error.message}`);
+    }
+  }
+
   /**
    * Listar tenants (com scoping por role)
    */
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { Module } from '@prisma/client';
+
+/**
+ * Schema Zod para a matriz de permissoes granulares de um usuario
+ *
+ * REGRAS:
+ * - Cada modulo pode aparecer apenas uma vez
+ * - Modulos omitidos nao sao alterados
+ * - inherit: true remove a configuracao do modulo (volta ao padrao por role)
+ */
+export const ModulePermissionSchema = z.object({
+  module: z.nativeEnum(Module, {
+    errorMap: () => ({ message: 'Modulo invalido' }),
+  }),
+  canView: z.boolean().default(false),
+  canCreate: z.boolean().default(false),
+  canEdit: z.boolean().default(false),
+  canDelete: z.boolean().default(false),
+  inherit: z.boolean().optional(),
+});
+
+export const UpdatePermissionsSchema = z.object({
+  permissions: z
+    .array(ModulePermissionSchema)
+    .min(1, 'Informe ao menos um modulo')
+    .refine(
+      (items) => new Set(items.map((item) => item.module)).size === items.length,
+      'Modulo duplicado na matriz de permissoes',
+    ),
+});
+
+export type ModulePermissionDto = z.infer<typeof ModulePermissionSchema>;
+export type UpdatePermissionsDto = z.infer<typeof UpdatePermissionsSchema>;
@@ -14,6 +14,7 @@ import {
 import { UsersService } from './users.service';
 import { CreateUserDto, CreateUserSchema } from './dto/create-user.dto';
 import { UpdateUserDto, UpdateUserSchema } from './dto/update-user.dto';
+import { UpdatePermissionsDto, UpdatePermissionsSchema } from './dto/update-permissions.dto';
 import { Roles } from '@/common/decorators/roles.decorator';
 import { CurrentUser } from '@/common/decorators/current-user.decorator';
 import { UserRole } from '@prisma/client';
@@ -29,6 +30,7 @@ import { AuthUser } from '@/common/interfaces/auth-user.interface';
  * - POST: Apenas SUPERADMIN e ADMINISTRATIVO
  * - PUT: Usuário pode editar a si mesmo, admins podem editar qualquer um
  * - DELETE/RESTORE: Apenas SUPERADMIN e ADMINISTRATIVO
+ * - PERMISSÕES (matriz UserPermission): Apenas SUPERADMIN e ADMINISTRATIVO
  *
  * SCOPING:
  * - SUPERADMIN/ADMINISTRATIVO: Veem todos os usuários
@@ -70,6 +72,17 @@ export class UsersController {
     return this.usersService.findOne(user.id, user.id, user.role);
   }
 
+  /**
+   * GET /users/me/permissions
+   * Matriz de permissões do usuário logado (usada pelo frontend para
+   * esconder menus/rotas sem canView)
+   * IMPORTANTE: Deve vir ANTES de GET /users/:id/permissions
+   */
+  @Get('me/permissions')
+  async getMyPermissions(@CurrentUser() user: AuthUser) {
+    return this.usersService.getPermissions(user.id);
+  }
+
   /**
    * GET /users/email/:email
    * Busca usuario por email
@@ -91,6 +104,35 @@ export class UsersController {
     return this.usersService.findOne(id, user.id, user.role);
   }
 
+  /**
+   * GET /users/:id/permissions
+   * Matriz de permissões granulares (canView/canCreate/canEdit/canDelete por módulo)
+   *
+   * REQUER: SUPERADMIN ou ADMINISTRATIVO
+   */
+  @Get(':id/permissions')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async getPermissions(@Param('id') id: string) {
+    return this.usersService.getPermissions(id);
+  }
+
+  /**
+   * PUT /users/:id/permissions
+   * Atualiza a matriz de permissões granulares
+   *
+   * REQUER: SUPERADMIN ou ADMINISTRATIVO
+   * IMPORTANTE: Módulos omitidos não são alterados; inherit: true remove a configuração
+   */
+  @Put(':id/permissions')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO)
+  async updatePermissions(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(UpdatePermissionsSchema)) dto: UpdatePermissionsDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.usersService.updatePermissions(id, dto, user.id);
+  }
+
   /**
    * POST /users
    * Cria um novo usuário manualmente
@@ -3,6 +3,7 @@ import {
   NotFoundException,
   ConflictException,
   ForbiddenException,
+  BadRequestException,
   Logger,
 } from '@nestjs/common';
 import * as bcrypt from 'bcrypt';
@@ -11,7 +12,8 @@ import { PrismaService } from '@/prisma/prisma.service';
 import { MailService } from '@/modules/mail/mail.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
-import { UserRole } from '@prisma/client';
+import { UpdatePermissionsDto } from './dto/update-permissions.dto';
+import { Module, UserRole } from '@prisma/client';
 
 /**
  * Users Service
@@ -554,6 +556,94 @@ export class UsersService {
     return pwd;
   }
 
+  /**
+   * Matriz de permissões granulares (UserPermission) de um usuário
+   *
+   * Retorna todos os módulos. Módulos sem configuração (configured: false)
+   * seguem apenas as regras de role — todas as flags vêm como true.
+   * SUPERADMIN sempre recebe acesso total.
+   */
+  async getPermissions(id: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      select: { id: true, role: true, permissions: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`Usuário ${id} não encontrado`);
+    }
+
+    return Object.values(Module).map((module) => {
+      const permission = user.permissions.find((p) => p.module === module);
+
+      if (!permission || user.role === UserRole.SUPERADMIN) {
+        return {
+          module,
+          canView: true,
+          canCreate: true,
+          canEdit: true,
+          canDelete: true,
+          configured: false,
+        };
+      }
+
+      return {
+        module,
+        canView: permission.canView,
+        canCreate: permission.canCreate,
+        canEdit: permission.canEdit,
+        canDelete: permission.canDelete,
+        configured: true,
+      };
+    });
+  }
+
+  /**
+   * Atualizar matriz de permissões granulares de um usuário
+   *
+   * REGRAS:
+   * - SUPERADMIN não tem permissões configuráveis (acesso total)
+   * - inherit: true remove a configuração do módulo
+   * - Sem canView, as demais flags são desligadas
+   */
+  async updatePermissions(id: string, dto: UpdatePermissionsDto, currentUserId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id } });
+
+    if (!user) {
+      throw new NotFoundException(`Usuário ${id} não encontrado`);
+    }
+
+    if (user.role === UserRole.SUPERADMIN) {
+      throw new BadRequestException('SUPERADMIN tem acesso total e não possui permissões configuráveis');
+    }
+
+    if (id === currentUserId) {
+      throw new ForbiddenException('Você não pode alterar suas próprias permissões');
+    }
+
+    await this.prisma.$transaction(
+      dto.permissions.map(({ module, inherit, ...flags }) => {
+        if (inherit) {
+          return this.prisma.userPermission.deleteMany({ where: { userId: id, module } });
+        }
+
+        const data = flags.canView
+          ? flags
+          : { canView: false, canCreate: false, canEdit: false, canDelete: false };
+
+        return this.prisma.userPermission.upsert({
+          where: { userId_module: { userId: id, module } },
+          create: { userId: id, module, ...data },
+          update: data,
+        });
+      }),
+    );
+
+    this.logger.log(`Permissões atualizadas: ${user.name} (${dto.permissions.length} módulos)`);
+
+    return this.getPermissions(id);
+  }
+
   /**
    * Helper: Validar acesso a um usuário
    */
@@ -2,6 +2,8 @@ import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '@/prisma/prisma.service';
 import { IdempotencyService } from './idempotency.service';
+import { PaymentsService } from '../../payments/payments.service';
+import { NfseService } from '../../nfse/nfse.service';
 import { AbacatePayWebhookDto, AbacatePayStatusMap } from '../dto/abacatepay-webhook.dto';
 import { PaymentStatus, ClientStatus } from '@prisma/client';
 import { createHmac } from 'crypto';
@@ -33,6 +35,8 @@ export class AbacatePayWebhookService {
     private readonly prisma: PrismaService,
     private readonly idempotency: IdempotencyService,
     private readonly config: ConfigService,
+    private readonly paymentsService: PaymentsService,
+    private readonly nfseService: NfseService,
   ) {}
 
   /**
@@ -164,6 +168,12 @@ export class AbacatePayWebhookService {
     });
 
     this.logger.log(`✅ Cliente reativado: ${dbPayment.client.company} → ATIVO`);
+
+    // Quitar FinanceTransaction da subscription (cobrança de renovação)
+    await this.paymentsService.settleSubscriptionCharge(updatedPayment);
+
+    // Emitir NFS-e do pagamento
+    await this.nfseService.requestIssuance(updatedPayment.id);
   }
 
   /**
@@ -224,6 +234,9 @@ export class AbacatePayWebhookService {
     });
 
     this.logger.log(`✅ Payment estornado: ${dbPayment.id} → REFUNDED`);
+
+    // Cancelar a NFS-e emitida para o pagamento
+    await this.nfseService.cancelForPayment(dbPayment.id, 'Pagamento estornado via AbacatePay');
   }
 
   /**
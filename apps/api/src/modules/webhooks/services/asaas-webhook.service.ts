@@ -3,6 +3,8 @@ import { timingSafeEqual } from 'crypto';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '@/prisma/prisma.service';
 import { IdempotencyService } from './idempotency.service';
+import { PaymentsService } from '../../payments/payments.service';
+import { NfseService } from '../../nfse/nfse.service';
 import { AsaasWebhookDto, AsaasStatusMap } from '../dto/asaas-webhook.dto';
 import { PaymentStatus, ClientStatus } from '@prisma/client';
 
@@ -15,7 +17,7 @@ import { PaymentStatus, ClientStatus } from '@prisma/client';
  * - PAYMENT_RECEIVED: Pagamento confirmado → atualizar Payment
  * - PAYMENT_CONFIRMED: Pagamento compensado → atualizar lastPaymentDate
  * - PAYMENT_OVERDUE: Pagamento vencido → marcar cliente como inadimplente
- * - PAYMENT_REFUNDED: Pagamento estornado → atualizar status
+ * - PAYMENT_REFUNDED: Pagamento estornado → atualizar status e cancelar NFS-e
  *
  * SEGURANÇA:
  * - Validação de access token no header (via controller)
@@ -33,6 +35,8 @@ export class AsaasWebhookService {
     private readonly prisma: PrismaService,
     private readonly idempotency: IdempotencyService,
     private readonly config: ConfigService,
+    private readonly paymentsService: PaymentsService,
+    private readonly nfseService: NfseService,
   ) {}
 
   /**
@@ -111,16 +115,8 @@ export class AsaasWebhookService {
   private async handlePaymentReceived(payload: AsaasWebhookDto): Promise<void> {
     const { payment } = payload;
 
-    // Buscar Payment pelo gatewayId (ID no Asaas)
-    const dbPayment = await this.prisma.payment.findFirst({
-      where: {
-        gateway: 'ASAAS',
-        gatewayId: payment.id,
-      },
-      include: {
-        client: true,
-      },
-    });
+    // Buscar Payment pelo gatewayId (ID no Asaas) ou externalReference (nosso ID)
+    const dbPayment = await this.findPayment(payment);
 
     if (!dbPayment) {
       // Se não encontrar, pode ser que ainda não foi criado
@@ -150,6 +146,12 @@ export class AsaasWebhookService {
     });
 
     this.logger.log(`✅ Cliente reativado: ${dbPayment.client.company} → ATIVO`);
+
+    // Quitar FinanceTransaction da subscription (cobrança de renovação)
+    await this.paymentsService.settleSubscriptionCharge(updatedPayment);
+
+    // Emitir NFS-e do pagamento
+    await this.nfseService.requestIssuance(updatedPayment.id);
   }
 
   /**
@@ -159,15 +161,7 @@ export class AsaasWebhookService {
   private async handlePaymentOverdue(payload: AsaasWebhookDto): Promise<void> {
     const { payment } = payload;
 
-    const dbPayment = await this.prisma.payment.findFirst({
-      where: {
-        gateway: 'ASAAS',
-        gatewayId: payment.id,
-      },
-      include: {
-        client: true,
-      },
-    });
+    const dbPayment = await this.findPayment(payment);
 
     if (!dbPayment) {
       this.logger.warn(`⚠️ Payment não encontrado para Asaas ID: ${payment.id}`);
@@ -201,12 +195,7 @@ export class AsaasWebhookService {
   private async handlePaymentRefunded(payload: AsaasWebhookDto): Promise<void> {
     const { payment } = payload;
 
-    const dbPayment = await this.prisma.payment.findFirst({
-      where: {
-        gateway: 'ASAAS',
-        gatewayId: payment.id,
-      },
-    });
+    const dbPayment = await this.findPayment(payment);
 
     if (!dbPayment) {
       this.logger.warn(`⚠️ Payment não encontrado para Asaas ID: ${payment.id}`);
@@ -222,6 +211,9 @@ export class AsaasWebhookService {
     });
 
     this.logger.log(`✅ Payment estornado: ${dbPayment.id} → REFUNDED`);
+
+    // Cancelar a NFS-e emitida para o pagamento
+    await this.nfseService.cancelForPayment(dbPayment.id, 'Pagamento estornado via Asaas');
   }
 
   /**
@@ -231,12 +223,7 @@ export class AsaasWebhookService {
   private async handlePaymentDeleted(payload: AsaasWebhookDto): Promise<void> {
     const { payment } = payload;
 
-    const dbPayment = await this.prisma.payment.findFirst({
-      where: {
-        gateway: 'ASAAS',
-        gatewayId: payment.id,
-      },
-    });
+    const dbPayment = await this.findPayment(payment);
 
     if (!dbPayment) {
       this.logger.warn(`⚠️ Payment não encontrado para Asaas ID: ${payment.id}`);
@@ -252,4 +239,22 @@ export class AsaasWebhookService {
 
     this.logger.log(`✅ Payment cancelado: ${dbPayment.id} → CANCELLED`);
   }
+
+  /**
+   * Localiza o Payment pelo ID da cobrança no Asaas (gatewayId) ou
+   * pelo externalReference (nosso Payment.id, enviado na emissão)
+   */
+  private async findPayment(payment: AsaasWebhookDto['payment']) {
+    return this.prisma.payment.findFirst({
+      where: {
+        OR: [
+          { gateway: 'ASAAS', gatewayId: payment.id },
+          ...(payment.externalReference ? [{ id: payment.externalReference }] : []),
+        ],
+      },
+      include: {
+        client: true,
+      },
+    });
+  }
 }
@@ -3,6 +3,8 @@ import { WebhooksController } from './webhooks.controller';
 import { IdempotencyService } from './services/idempotency.service';
 import { AsaasWebhookService } from './services/asaas-webhook.service';
 import { AbacatePayWebhookService } from './services/abacatepay-webhook.service';
+import { PaymentsModule } from '../payments/payments.module';
+import { NfseModule } from '../nfse/nfse.module';
 
 /**
  * Webhooks Module
@@ -18,6 +20,8 @@ import { AbacatePayWebhookService } from './services/abacatepay-webhook.service'
  * - Idempotencia com cache em memoria (TTL 24h)
  * - Retry logic (futuro: usar fila como BullMQ)
  * - Audit logging
+ * - Baixa da FinanceTransaction da subscription (via PaymentsService)
+ * - Emissão/cancelamento da NFS-e (via NfseService)
  *
  * ROTAS:
  * - POST /webhooks/asaas
@@ -26,6 +30,7 @@ import { AbacatePayWebhookService } from './services/abacatepay-webhook.service'
  * v2.54.0: Removido ClerkWebhookService (auth proprio JWT)
  */
 @Module({
+  imports: [PaymentsModule, NfseModule],
   controllers: [WebhooksController],
   providers: [
     IdempotencyService,
@@ -0,0 +1,189 @@
+import { Logger } from '@nestjs/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { RequestContext } from '../common/context/request-context';
+
+/**
+ * Entidades auditadas automaticamente (nome do model Prisma)
+ */
+const AUDITED_MODELS = new Set([
+  'Client',
+  'Lead',
+  'Payment',
+  'Subscription',
+  'Plan',
+  'Tenant',
+  'User',
+  'UserPermission',
+  'FinanceTransaction',
+]);
+
+/**
+ * Campos ignorados no diff (ruído: timestamps e dados de sessão)
+ */
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt', 'lastLoginAt', 'refreshToken', 'tokenVersion']);
+
+/**
+ * Campos sensíveis — a mudança é registrada, mas o valor não
+ */
+const REDACTED_FIELDS = new Set(['passwordHash']);
+
+const AUDITED_ACTIONS: Partial<Record<Prisma.PrismaAction, 'CREATE' | 'UPDATE' | 'DELETE'>> = {
+  create: 'CREATE',
+  update: 'UPDATE',
+  upsert: 'UPDATE',
+  delete: 'DELETE',
+};
+
+type AuditRecord = Record<string, unknown>;
+
+/**
+ * Middleware Prisma de auditoria automática
+ *
+ * Registra CREATE/UPDATE/DELETE das entidades em AUDITED_MODELS na tabela
+ * AuditLog, com diff oldData/newData e usuário/IP/user agent do RequestContext.
+ * Fora de requisições HTTP (crons, scripts) o log fica com userId null (sistema).
+ *
+ * IMPORTANTE:
+ * - Operações em lote (createMany/updateMany/deleteMany) não são auditadas
+ * - A gravação do log é fire-and-forget: dentro de $transaction interativa
+ *   o INSERT aguarda o commit (FK), então NÃO pode ser aguardado pela query
+ * - Falhas de auditoria nunca bloqueiam a operação original
+ */
+export function createAuditMiddleware(prisma: PrismaClient): Prisma.Middleware {
+  const logger = new Logger('AuditMiddleware');
+
+  return async (params, next) => {
+    const action = AUDITED_ACTIONS[params.action];
+
+    if (!params.model || !action || !AUDITED_MODELS.has(params.model)) {
+      return next(params);
+    }
+
+    const delegate = (prisma as any)[lowerFirst(params.model)];
+
+    // Snapshot anterior (update/upsert/delete)
+    let before: AuditRecord | null = null;
+    if (params.action !== 'create') {
+      before = await delegate
+        .findUnique({ where: params.args.where })
+        .catch(() => null);
+    }
+
+    const result = await next(params);
+
+    const after: AuditRecord | null = params.action === 'delete' ? null : result;
+    const resolvedAction = params.action === 'upsert' && !before ? 'CREATE' : action;
+
+    const changes = buildChanges(params.model, before, after);
+    if (!changes) {
+      return result; // Nada relevante mudou (ex: apenas updatedAt)
+    }
+
+    const record = (after ?? before) as AuditRecord;
+    const context = RequestContext.get();
+
+    prisma.auditLog
+      .create({
+        data: {
+          userId: context?.userId ?? null,
+          clientId: resolveClientId(params.model, record, resolvedAction),
+          action: resolvedAction,
+          entity: params.model,
+          entityId: String(record.id),
+          oldData: (changes.oldData as Prisma.InputJsonObject) ?? Prisma.JsonNull,
+          newData: (changes.newData as Prisma.InputJsonObject) ?? Prisma.JsonNull,
+          ipAddress: context?.ipAddress ?? null,
+          userAgent: context?.userAgent ?? null,
+        },
+      })
+      .catch((error) => {
+        logger.error(`Falha ao gravar audit log ${resolvedAction} ${params.model}:${record.id}: ${error.message}`);
+      });
+
+    return result;
+  };
+}
+
+/**
+ * Monta oldData/newData:
+ * - CREATE: newData com todos os campos escalares
+ * - DELETE: oldData com todos os campos escalares
+ * - UPDATE: apenas os campos alterados (null se nada mudou)
+ */
+function buildChanges(
+  model: string,
+  before: AuditRecord | null,
+  after: AuditRecord | null,
+): { oldData: AuditRecord | null; newData: AuditRecord | null } | null {
+  const fields = scalarFields(model);
+  const oldSnapshot = before ? snapshot(before, fields) : null;
+  const newSnapshot = after ? snapshot(after, fields) : null;
+
+  if (!oldSnapshot || !newSnapshot) {
+    return { oldData: oldSnapshot, newData: newSnapshot };
+  }
+
+  const oldData: AuditRecord = {};
+  const newData: AuditRecord = {};
+
+  // Compara valores brutos (campos mascarados também contam como alteração);
+  // campos fora do select/include do resultado são ignorados
+  for (const field of fields) {
+    if (!(field in oldSnapshot) || !(field in newSnapshot)) continue;
+    if (JSON.stringify(before![field]) !== JSON.stringify(after![field])) {
+      oldData[field] = oldSnapshot[field];
+      newData[field] = newSnapshot[field];
+    }
+  }
+
+  return Object.keys(newData).length > 0 ? { oldData, newData } : null;
+}
+
+/**
+ * Copia apenas campos escalares auditáveis, serializados para JSON
+ * (Decimal → string, Date → ISO) e com campos sensíveis mascarados
+ */
+function snapshot(record: AuditRecord, fields: string[]): AuditRecord {
+  const data: AuditRecord = {};
+
+  for (const field of fields) {
+    if (!(field in record)) continue;
+    const value = record[field];
+    data[field] = REDACTED_FIELDS.has(field)
+      ? value ? '[REDACTED]' : null
+      : value === undefined ? null : JSON.parse(JSON.stringify(value));
+  }
+
+  return data;
+}
+
+const scalarFieldsCache = new Map<string, string[]>();
+
+function scalarFields(model: string): string[] {
+  let fields = scalarFieldsCache.get(model);
+
+  if (!fields) {
+    const definition = Prisma.dmmf.datamodel.models.find((m) => m.name === model);
+    fields = (definition?.fields ?? [])
+      .filter((f) => f.kind !== 'object' && !IGNORED_FIELDS.has(f.name))
+      .map((f) => f.name);
+    scalarFieldsCache.set(model, fields);
+  }
+
+  return fields;
+}
+
+/**
+ * Cliente relacionado ao log (aba de auditoria do cliente)
+ * Ao deletar um Client, não referenciar o próprio registro (FK)
+ */
+function resolveClientId(model: string, record: AuditRecord, action: string): string | null {
+  if (model === 'Client') {
+    return action === 'DELETE' ? null : String(record.id);
+  }
+  return typeof record.clientId === 'string' ? record.clientId : null;
+}
+
+function lowerFirst(value: string): string {
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
@@ -5,10 +5,20 @@ import {
   Logger,
 } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
+import { createAuditMiddleware } from './audit.middleware';
+import { createWebhookEventsMiddleware } from './webhook-events.middleware';
 
 /**
  * Prisma Service
  * Gerencia a conexão com o banco de dados PostgreSQL via Prisma ORM
+ *
+ * AUDITORIA:
+ * - Middleware registra CREATE/UPDATE/DELETE das entidades principais em AuditLog
+ *   (ver audit.middleware.ts)
+ *
+ * WEBHOOKS DE SAÍDA:
+ * - Middleware enfileira eventos (lead.created, payment.paid...) para as assinaturas
+ *   externas (ver webhook-events.middleware.ts)
  */
 @Injectable()
 export class PrismaService
@@ -44,6 +54,12 @@ export class PrismaService
     this.$on('warn', (e: any) => {
       this.logger.warn(`Prisma Warning: ${e.message}`);
     });
+
+    // Auditoria automática (clients, leads, payments, subscriptions, plans, tenants, users, finance)
+    this.$use(createAuditMiddleware(this));
+
+    // Eventos de webhooks de saída (lead.created, payment.paid, tenant.suspended...)
+    this.$use(createWebhookEventsMiddleware(this));
   }
 
   async onModuleInit() {
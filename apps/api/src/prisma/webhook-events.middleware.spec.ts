@@ -0,0 +1,50 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { createWebhookEventsMiddleware } from './webhook-events.middleware';
+
+describe('createWebhookEventsMiddleware (updateMany)', () => {
+  const createMany = jest.fn().mockResolvedValue({ count: 0 });
+  const findMany = jest.fn();
+  const prisma = {
+    lead: { findMany },
+    payment: { findMany },
+    outboundWebhookEvent: { createMany },
+  } as unknown as PrismaClient;
+  const middleware = createWebhookEventsMiddleware(prisma);
+  const next = jest.fn().mockResolvedValue({ count: 2 });
+
+  const params = (model: Prisma.ModelName, data: Record<string, unknown>): Prisma.MiddlewareParams => ({
+    model,
+    action: 'updateMany',
+    args: { where: { id: { in: ['l1', 'l2'] } }, data },
+    dataPath: [],
+    runInTransaction: false,
+  });
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('gera um evento por lead movido/perdido em massa', async () => {
+    findMany.mockResolvedValue([
+      { id: 'l1', stageId: 's1', status: 'ABERTO' },
+      { id: 'l2', stageId: 's2', status: 'ABERTO' },
+    ]);
+
+    await middleware(params('Lead', { stageId: 's2', status: 'PERDIDO' }), next);
+
+    expect(next).toHaveBeenCalled();
+    expect(createMany).toHaveBeenCalledWith({
+      data: [
+        { event: 'lead.stage_changed', entity: 'Lead', entityId: 'l1', data: { fromStageId: 's1', toStageId: 's2' } },
+        { event: 'lead.lost', entity: 'Lead', entityId: 'l1', data: { status: 'PERDIDO' } },
+        { event: 'lead.lost', entity: 'Lead', entityId: 'l2', data: { status: 'PERDIDO' } },
+      ],
+    });
+  });
+
+  it('ignora updateMany que não mexe em campo observado', async () => {
+    await middleware(params('Payment', { createdById: null }), next);
+
+    expect(next).toHaveBeenCalled();
+    expect(findMany).not.toHaveBeenCalled();
+    expect(createMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,232 @@
+import { Logger } from '@nestjs/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+/**
+ * Eventos publicados para os webhooks de saída (Configurações > Webhooks)
+ */
+export const OUTBOUND_WEBHOOK_EVENTS = [
+  { event: 'lead.created', description: 'Lead criado (manual, formulário, importação, e-mail ou Partner API)' },
+  { event: 'lead.stage_changed', description: 'Lead mudou de estágio no funil' },
+  { event: 'lead.lost', description: 'Lead marcado como perdido' },
+  { event: 'client.created', description: 'Cliente cadastrado' },
+  { event: 'client.converted', description: 'Lead convertido em cliente' },
+  { event: 'payment.paid', description: 'Pagamento confirmado' },
+  { event: 'payment.overdue', description: 'Pagamento vencido' },
+  { event: 'subscription.past_due', description: 'Assinatura em atraso (período de carência)' },
+  { event: 'subscription.canceled', description: 'Assinatura cancelada' },
+  { event: 'tenant.suspended', description: 'Tenant suspenso ou bloqueado' },
+] as const;
+
+export type OutboundWebhookEventName = (typeof OUTBOUND_WEBHOOK_EVENTS)[number]['event'];
+
+type EntityRecord = Record<string, unknown>;
+
+interface DetectedEvent {
+  event: OutboundWebhookEventName;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Campos observados por model — o estado anterior só é lido quando a operação mexe neles
+ */
+const WATCHED_FIELDS: Record<string, string[]> = {
+  Lead: ['stageId', 'status'],
+  Client: [],
+  Payment: ['status'],
+  Subscription: ['status'],
+  Tenant: ['status'],
+};
+
+/** Relação equivalente ao campo (ex.: stage: { connect: { id } } no lugar de stageId) */
+const RELATION_OF: Record<string, string> = { stageId: 'stage' };
+
+const changedTo = (before: EntityRecord | null, after: EntityRecord, field: string, value: string) =>
+  after[field] === value && before?.[field] !== value;
+
+/**
+ * Regras de cada model: estado anterior (null na criação) e posterior → eventos
+ */
+const DETECTORS: Record<string, (before: EntityRecord | null, after: EntityRecord, created: boolean) => DetectedEvent[]> = {
+  Lead: (before, after, created) => {
+    const events: DetectedEvent[] = [];
+    if (created) {
+      events.push({ event: 'lead.created', data: {} });
+      return events;
+    }
+    if (after.stageId !== undefined && before && before.stageId !== after.stageId) {
+      events.push({ event: 'lead.stage_changed', data: { fromStageId: before.stageId, toStageId: after.stageId } });
+    }
+    if (changedTo(before, after, 'status', 'PERDIDO')) {
+      events.push({ event: 'lead.lost', data: { status: 'PERDIDO' } });
+    }
+    return events;
+  },
+  Client: (_before, after, created) => {
+    if (!created) return [];
+    const events: DetectedEvent[] = [{ event: 'client.created', data: {} }];
+    if (after.convertedFromLeadId) {
+      events.push({ event: 'client.converted', data: { leadId: after.convertedFromLeadId } });
+    }
+    return events;
+  },
+  Payment: (before, after) => [
+    ...(changedTo(before, after, 'status', 'PAID') ? [{ event: 'payment.paid' as const, data: { status: 'PAID' } }] : []),
+    ...(changedTo(before, after, 'status', 'OVERDUE') ? [{ event: 'payment.overdue' as const, data: { status: 'OVERDUE' } }] : []),
+  ],
+  Subscription: (before, after) => [
+    ...(changedTo(before, after, 'status', 'PAST_DUE') ? [{ event: 'subscription.past_due' as const, data: { status: 'PAST_DUE' } }] : []),
+    ...(changedTo(before, after, 'status', 'CANCELED') ? [{ event: 'subscription.canceled' as const, data: { status: 'CANCELED' } }] : []),
+  ],
+  Tenant: (before, after) =>
+    ['SUSPENSO', 'BLOQUEADO'].includes(after.status as string) &&
+    !['SUSPENSO', 'BLOQUEADO'].includes(before?.status as string)
+      ? [{ event: 'tenant.suspended', data: { status: after.status } }]
+      : [],
+};
+
+/**
+ * Middleware Prisma que enfileira eventos de webhook de saída
+ *
+ * Grava apenas o evento (OutboundWebhookEvent) — o WebhookDispatcherService monta o
+ * payload e cria as entregas alguns segundos depois, quando a operação já foi
+ * confirmada. Se a mudança tiver sido revertida (transação desfeita), o evento
+ * é descartado no despacho.
+ *
+ * IMPORTANTE:
+ * - updateMany que mexe em campo observado gera um evento por registro afetado
+ *   (ações em massa do funil, desvinculação de usuário); createMany não gera eventos
+ * - A gravação é fire-and-forget e nunca bloqueia a operação original
+ */
+export function createWebhookEventsMiddleware(prisma: PrismaClient): Prisma.Middleware {
+  const logger = new Logger('WebhookEventsMiddleware');
+
+  const enqueue = (model: string, events: { entityId: string; detected: DetectedEvent }[]) => {
+    if (events.length === 0) return;
+
+    prisma.outboundWebhookEvent
+      .createMany({
+        data: events.map(({ entityId, detected }) => ({
+          event: detected.event,
+          entity: model,
+          entityId,
+          data: detected.data as Prisma.InputJsonObject,
+        })),
+      })
+      .catch((error) => {
+        logger.error(`Falha ao enfileirar ${events.length} evento(s) de ${model}: ${error.message}`);
+      });
+  };
+
+  return async (params, next) => {
+    const watched = params.model ? WATCHED_FIELDS[params.model] : undefined;
+
+    if (!params.model || !watched || !['create', 'update', 'upsert', 'updateMany'].includes(params.action)) {
+      return next(params);
+    }
+
+    if (params.action === 'updateMany') {
+      return handleUpdateMany(prisma, params, next, watched, enqueue);
+    }
+
+    const data: EntityRecord = (params.action === 'upsert' ? params.args.update : params.args.data) ?? {};
+    const touchesWatched = watched.some((field) => field in data || (RELATION_OF[field] ?? '') in data);
+
+    // Estado anterior: sempre no upsert (distingue criação), nos updates só se mexer nos campos observados
+    let before: EntityRecord | null = null;
+    if (params.action === 'upsert' || (params.action === 'update' && touchesWatched)) {
+      before = await (prisma as any)[lowerFirst(params.model)]
+        .findUnique({ where: params.args.where, select: Object.fromEntries(['id', ...watched].map((f) => [f, true])) })
+        .catch(() => null);
+    }
+
+    const result = await next(params);
+
+    const created = params.action === 'create' || (params.action === 'upsert' && !before);
+    if (!created && !touchesWatched) {
+      return result;
+    }
+
+    const args = params.action === 'upsert' ? (created ? params.args.create : params.args.update) : params.args.data;
+    const after = resolveAfter(result, args ?? {}, [...watched, 'convertedFromLeadId']);
+    const entityId = (result as EntityRecord)?.id ?? before?.id;
+
+    if (typeof entityId !== 'string') {
+      return result;
+    }
+
+    enqueue(
+      params.model,
+      DETECTORS[params.model](before, after, created).map((detected) => ({ entityId, detected })),
+    );
+
+    return result;
+  };
+}
+
+/**
+ * updateMany: lê o estado anterior dos registros que casam com o where (antes da
+ * operação — depois o filtro pode não casar mais) e detecta os eventos de cada um
+ */
+async function handleUpdateMany(
+  prisma: PrismaClient,
+  params: Prisma.MiddlewareParams,
+  next: (params: Prisma.MiddlewareParams) => Promise<unknown>,
+  watched: string[],
+  enqueue: (model: string, events: { entityId: string; detected: DetectedEvent }[]) => void,
+) {
+  const model = params.model!;
+  const data: EntityRecord = params.args?.data ?? {};
+  const touchesWatched = watched.some((field) => field in data || (RELATION_OF[field] ?? '') in data);
+
+  if (!touchesWatched) {
+    return next(params);
+  }
+
+  const rows: EntityRecord[] = await (prisma as any)[lowerFirst(model)]
+    .findMany({ where: params.args?.where, select: Object.fromEntries(['id', ...watched].map((f) => [f, true])) })
+    .catch(() => []);
+
+  const result = await next(params);
+
+  const after = resolveAfter({}, data, watched);
+  enqueue(
+    model,
+    rows.flatMap((before) =>
+      DETECTORS[model](before, { ...before, ...after }, false).map((detected) => ({
+        entityId: before.id as string,
+        detected,
+      })),
+    ),
+  );
+
+  return result;
+}
+
+/**
+ * Valores posteriores dos campos observados: do resultado da query ou, se o select
+ * não os trouxe, dos dados enviados (valor direto ou connect da relação)
+ */
+function resolveAfter(result: unknown, data: EntityRecord, fields: string[]): EntityRecord {
+  const record = (result ?? {}) as EntityRecord;
+  const after: EntityRecord = {};
+
+  for (const field of fields) {
+    if (field in record) {
+      after[field] = record[field];
+      continue;
+    }
+
+    const direct = data[field];
+    const relation = RELATION_OF[field] ? (data[RELATION_OF[field]] as any)?.connect?.id : undefined;
+    const value = typeof direct === 'object' && direct !== null ? (direct as any).set : direct;
+    if (value !== undefined || relation !== undefined) {
+      after[field] = value ?? relation;
+    }
+  }
+
+  return after;
+}
+
+function lowerFirst(value: string): string {
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
@@ -1,9 +1,9 @@
 import { useEffect } from 'react';
 import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
-import { AppLayout } from '@/components/layout';
+import { AppLayout, ModuleRoute } from '@/components/layout';
 import { Dashboard } from '@/features/dashboard';
 import { ClientsList, ClientDetails } from '@/features/clients';
-import { ProductType, UserRole } from '@/types';
+import { Module, ProductType, UserRole } from '@/types';
 import { LeadKanban } from '@/features/leads';
 import { PaymentsDashboard } from '@/features/payments';
 import { CalendarView } from '@/features/calendar/components';
@@ -66,23 +66,41 @@ function App() {
       ) : (
         <Routes>
           <Route element={<AppLayout />}>
-            <Route path="/" element={<Dashboard />} />
-            <Route path="/clients" element={<ClientsList product={ProductType.ONE_NEXUS} role={userRole} />} />
+            <Route element={<ModuleRoute module={Module.DASHBOARD} />}>
+              <Route path="/" element={<Dashboard />} />
+            </Route>
+            <Route element={<ModuleRoute module={Module.CLIENTS_ONE_NEXUS} />}>
+              <Route path="/clients" element={<ClientsList product={ProductType.ONE_NEXUS} role={userRole} />} />
+            </Route>
             <Route path="/clients/:id" element={<ClientDetails />} />
-            <Route path="/clients-locadoras" element={<ClientsList product={ProductType.LOCADORAS} role={userRole} />} />
-            <Route path="/leads" element={<LeadKanban />} />
-            <Route path="/payments" element={<PaymentsDashboard />} />
-            <Route path="/finance" element={<Finance />} />
-            <Route path="/calendar" element={<CalendarView />} />
-            <Route path="/sales-ai" element={<SalesAI />} />
+            <Route element={<ModuleRoute module={Module.CLIENTS_LOCADORAS} />}>
+              <Route path="/clients-locadoras" element={<ClientsList product={ProductType.LOCADORAS} role={userRole} />} />
+            </Route>
+            <Route element={<ModuleRoute module={Module.LEADS} />}>
+              <Route path="/leads" element={<LeadKanban />} />
+            </Route>
+            <Route element={<ModuleRoute module={Module.FINANCE} />}>
+              <Route path="/payments" element={<PaymentsDashboard />} />
+              <Route path="/finance" element={<Finance />} />
+            </Route>
+            <Route element={<ModuleRoute module={Module.CALENDAR} />}>
+              <Route path="/calendar" element={<CalendarView />} />
+            </Route>
+            <Route element={<ModuleRoute module={Module.SALES_AI} />}>
+              <Route path="/sales-ai" element={<SalesAI />} />
+            </Route>
             <Route path="/forms" element={<FormsPage />} />
             <Route path="/forms/new" element={<FormBuilder />} />
             <Route path="/forms/:id/edit" element={<FormBuilder />} />
             <Route path="/forms/:id/submissions" element={<FormSubmissions />} />
-            <Route path="/chat" element={<ChatPage />} />
+            <Route element={<ModuleRoute module={Module.CHAT} />}>
+              <Route path="/chat" element={<ChatPage />} />
+            </Route>
             <Route path="/notifications" element={<NotificationsPage />} />
             <Route path="/account" element={<AccountPage />} />
-            <Route path="/settings" element={<Settings />} />
+            <Route element={<ModuleRoute module={Module.SETTINGS} />}>
+              <Route path="/settings" element={<Settings />} />
+            </Route>
             <Route path="*" element={<Navigate to="/" replace />} />
           </Route>
         </Routes>
@@ -19,30 +19,33 @@ import {
 } from 'lucide-react';
 import { useUIStore } from '@/stores/useUIStore';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermissions';
 import { cn } from '@/utils/cn';
+import { Module } from '@/types';
 import type { LucideIcon } from 'lucide-react';
 
 interface BottomNavItem {
   label: string;
   href: string;
   icon: LucideIcon;
+  module?: Module;
 }
 
 const MAIN_NAV: BottomNavItem[] = [
-  { label: 'Home', href: '/', icon: LayoutDashboard },
-  { label: 'Leads', href: '/leads', icon: TrendingUp },
-  { label: 'Clientes', href: '/clients', icon: Users },
-  { label: 'Financeiro', href: '/finance', icon: DollarSign },
+  { label: 'Home', href: '/', icon: LayoutDashboard, module: Module.DASHBOARD },
+  { label: 'Leads', href: '/leads', icon: TrendingUp, module: Module.LEADS },
+  { label: 'Clientes', href: '/clients', icon: Users, module: Module.CLIENTS_ONE_NEXUS },
+  { label: 'Financeiro', href: '/finance', icon: DollarSign, module: Module.FINANCE },
 ];
 
 const MORE_NAV: BottomNavItem[] = [
-  { label: 'Clientes Nexloc', href: '/clients-locadoras', icon: Truck },
-  { label: 'Calendário', href: '/calendar', icon: CalendarIcon },
-  { label: 'Vendas IA', href: '/sales-ai', icon: Sparkles },
+  { label: 'Clientes Nexloc', href: '/clients-locadoras', icon: Truck, module: Module.CLIENTS_LOCADORAS },
+  { label: 'Calendário', href: '/calendar', icon: CalendarIcon, module: Module.CALENDAR },
+  { label: 'Vendas IA', href: '/sales-ai', icon: Sparkles, module: Module.SALES_AI },
   { label: 'Formulários', href: '/forms', icon: ClipboardList },
-  { label: 'Chat', href: '/chat', icon: MessageCircle },
+  { label: 'Chat', href: '/chat', icon: MessageCircle, module: Module.CHAT },
   { label: 'Notificações', href: '/notifications', icon: Bell },
-  { label: 'Configurações', href: '/settings', icon: Settings },
+  { label: 'Configurações', href: '/settings', icon: Settings, module: Module.SETTINGS },
   { label: 'Meu Perfil', href: '/account', icon: UserIcon },
 ];
 
@@ -50,11 +53,15 @@ export function BottomNav() {
   const [showMore, setShowMore] = useState(false);
   const { theme } = useUIStore();
   const { logout } = useAuth();
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const location = useLocation();
   const isDark = theme === 'dark';
 
-  const isMoreActive = MORE_NAV.some((item) => location.pathname === item.href || location.pathname.startsWith(item.href + '/'));
+  const mainNav = MAIN_NAV.filter((item) => !item.module || can(item.module));
+  const moreNav = MORE_NAV.filter((item) => !item.module || can(item.module));
+
+  const isMoreActive = moreNav.some((item) => location.pathname === item.href || location.pathname.startsWith(item.href + '/'));
 
   const handleMoreNav = (href: string) => {
     setShowMore(false);
@@ -100,7 +107,7 @@ export function BottomNav() {
 
             {/* Nav Items */}
             <nav className="px-3 py-2 space-y-0.5">
-              {MORE_NAV.map((item) => {
+              {moreNav.map((item) => {
                 const Icon = item.icon;
                 const isActive = location.pathname === item.href || location.pathname.startsWith(item.href + '/');
                 return (
@@ -152,7 +159,7 @@ export function BottomNav() {
         )}
       >
         <div className="flex items-center justify-around h-16">
-          {MAIN_NAV.map((item) => {
+          {mainNav.map((item) => {
             const Icon = item.icon;
             return (
               <NavLink
@@ -0,0 +1,42 @@
+import { Outlet } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { EmptyState } from '@/components/ui';
+import { usePermissions } from '@/hooks/usePermissions';
+import type { Module } from '@/types';
+
+/**
+ * ══════════════════════════════════════════════════════════════════════════
+ * MODULE ROUTE - Guarda de rota por permissão
+ * ══════════════════════════════════════════════════════════════════════════
+ *
+ * Envolve rotas de um módulo e só renderiza o conteúdo se o usuário
+ * tiver canView. Sem permissão, mostra aviso de acesso restrito
+ * (sem redirect, para não criar loop quando o próprio Dashboard é bloqueado).
+ *
+ * USAGE:
+ * ```tsx
+ * <Route element={<ModuleRoute module={Module.LEADS} />}>
+ *   <Route path="/leads" element={<LeadKanban />} />
+ * </Route>
+ * ```
+ */
+
+interface ModuleRouteProps {
+  module: Module;
+}
+
+export function ModuleRoute({ module }: ModuleRouteProps) {
+  const { can } = usePermissions();
+
+  if (!can(module)) {
+    return (
+      <EmptyState
+        icon={<ShieldAlert size={48} />}
+        title="Acesso restrito"
+        description="Você não tem permissão para visualizar este módulo. Fale com um administrador."
+      />
+    );
+  }
+
+  return <Outlet />;
+}
@@ -16,7 +16,9 @@ import {
   MessageCircle,
 } from 'lucide-react';
 import { useUIStore } from '@/stores/useUIStore';
+import { usePermissions } from '@/hooks/usePermissions';
 import { cn } from '@/utils/cn';
+import { Module } from '@/types';
 import type { LucideIcon } from 'lucide-react';
 
 /**
@@ -30,6 +32,7 @@ import type { LucideIcon } from 'lucide-react';
  * - Colapsável (icon only mode)
  * - Links com NavLink para active state
  * - Ícones Lucide React
+ * - Esconde módulos sem permissão de visualização (UserPermission)
  * - Logo Nexus laranja
  * - Dark mode support
  */
@@ -38,26 +41,30 @@ interface NavItem {
   label: string;
   href: string;
   icon: LucideIcon;
+  module?: Module; // Sem módulo = sempre visível
 }
 
 const NAV_ITEMS: NavItem[] = [
-  { label: 'Dashboard', href: '/', icon: LayoutDashboard },
-  { label: 'Leads', href: '/leads', icon: TrendingUp },
-  { label: 'Vendas IA', href: '/sales-ai', icon: Sparkles },
-  { label: 'Clientes One Nexus', href: '/clients', icon: Users },
-  { label: 'Clientes Nexloc', href: '/clients-locadoras', icon: Truck },
-  { label: 'Calendário', href: '/calendar', icon: CalendarIcon },
-  { label: 'Financeiro', href: '/finance', icon: DollarSign },
+  { label: 'Dashboard', href: '/', icon: LayoutDashboard, module: Module.DASHBOARD },
+  { label: 'Leads', href: '/leads', icon: TrendingUp, module: Module.LEADS },
+  { label: 'Vendas IA', href: '/sales-ai', icon: Sparkles, module: Module.SALES_AI },
+  { label: 'Clientes One Nexus', href: '/clients', icon: Users, module: Module.CLIENTS_ONE_NEXUS },
+  { label: 'Clientes Nexloc', href: '/clients-locadoras', icon: Truck, module: Module.CLIENTS_LOCADORAS },
+  { label: 'Calendário', href: '/calendar', icon: CalendarIcon, module: Module.CALENDAR },
+  { label: 'Financeiro', href: '/finance', icon: DollarSign, module: Module.FINANCE },
   { label: 'Formulários', href: '/forms', icon: ClipboardList },
-  { label: 'Chat', href: '/chat', icon: MessageCircle },
+  { label: 'Chat', href: '/chat', icon: MessageCircle, module: Module.CHAT },
   { label: 'Notificações', href: '/notifications', icon: Bell },
-  { label: 'Configurações', href: '/settings', icon: Settings },
+  { label: 'Configurações', href: '/settings', icon: Settings, module: Module.SETTINGS },
 ];
 
 export function Sidebar() {
   const { sidebarCollapsed, toggleSidebar, theme } = useUIStore();
+  const { can } = usePermissions();
   const isDark = theme === 'dark';
 
+  const navItems = NAV_ITEMS.filter((item) => !item.module || can(item.module));
+
   return (
     <aside
       className={cn(
@@ -95,7 +102,7 @@ export function Sidebar() {
       {/* NAVIGATION */}
       {/* ════════════════════════════════════════════════════════════════ */}
       <nav className="flex-1 py-4 px-3 space-y-1 overflow-y-auto">
-        {NAV_ITEMS.map((item) => {
+        {navItems.map((item) => {
           const Icon = item.icon;
           return (
             <NavLink
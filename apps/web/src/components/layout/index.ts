@@ -6,3 +6,4 @@ export { AppLayout } from './AppLayout';
 export { Sidebar } from './Sidebar';
 export { Header } from './Header';
 export { BottomNav } from './BottomNav';
+export { ModuleRoute } from './ModuleRoute';
@@ -0,0 +1,32 @@
+import { api } from '../../../services/api';
+
+export type DunningAction =
+  | 'EMAIL_REMINDER'
+  | 'WHATSAPP_REMINDER'
+  | 'SUSPEND_TENANT'
+  | 'CANCEL_SUBSCRIPTION';
+
+export type DunningEventStatus = 'SUCCESS' | 'FAILED' | 'SKIPPED';
+
+export interface DunningEvent {
+  id: string;
+  action: DunningAction;
+  dayOffset: number;
+  daysOverdue: number;
+  status: DunningEventStatus;
+  detail: string | null;
+  createdAt: string;
+  updatedAt: string;
+  financeTransaction: {
+    id: string;
+    description: string;
+    amount: string;
+    dueDate: string | null;
+    status: string;
+  };
+}
+
+export const dunningApi = {
+  getClientEvents: (clientId: string): Promise<DunningEvent[]> =>
+    api.get(`/dunning/client/${clientId}/events`).then((r) => r.data),
+};
@@ -8,6 +8,28 @@ export interface ReactivateClientData {
   amount: number;
 }
 
+export interface ChangePlanData {
+  planId: string;
+  amount?: number;
+  reason?: string;
+}
+
+export interface PlanChangePreview {
+  subscriptionId: string;
+  previousPlan: { id: string; name: string };
+  newPlan: { id: string; name: string };
+  billingCycle: 'MONTHLY' | 'QUARTERLY' | 'SEMIANNUAL' | 'ANNUAL';
+  currentPeriodEnd: string;
+  direction: 'UPGRADE' | 'DOWNGRADE';
+  previousAmount: number;
+  newAmount: number;
+  totalDays: number;
+  remainingDays: number;
+  credit: number;
+  charge: number;
+  netAmount: number; // > 0 cobrança, < 0 crédito ao cliente
+}
+
 export const subscriptionsApi = {
   getByClient: (clientId: string) =>
     api.get(`/subscriptions/client/${clientId}`).then((r) => r.data),
@@ -17,4 +39,10 @@ export const subscriptionsApi = {
 
   reactivate: (data: ReactivateClientData) =>
     api.post('/subscriptions/reactivate', data).then((r) => r.data),
+
+  previewPlanChange: (subscriptionId: string, data: ChangePlanData): Promise<PlanChangePreview> =>
+    api.post(`/subscriptions/${subscriptionId}/change-plan/preview`, data).then((r) => r.data),
+
+  changePlan: (subscriptionId: string, data: ChangePlanData) =>
+    api.post(`/subscriptions/${subscriptionId}/change-plan`, data).then((r) => r.data),
 };
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { ArrowRightLeft, Loader2 } from 'lucide-react';
+import { usePlans } from '../hooks/usePlans';
+import { usePlanChangePreview, useChangePlan } from '../hooks/useChangePlan';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import type { ProductType, SubscriptionDetail } from '@/types';
+
+interface ChangePlanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  subscription: SubscriptionDetail;
+  productType?: ProductType;
+}
+
+/**
+ * Troca de plano no meio do ciclo — mostra o pró-rata calculado pela API
+ * (crédito do plano atual × cobrança do novo até o fim do período) antes de confirmar
+ */
+export function ChangePlanModal({ isOpen, onClose, subscription, productType }: ChangePlanModalProps) {
+  const isDark = useUIStore((s) => s.theme === 'dark');
+  const { data: plans = [] } = usePlans(productType);
+  const changePlan = useChangePlan(subscription.id);
+
+  const [planId, setPlanId] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setPlanId('');
+      setReason('');
+    }
+  }, [isOpen]);
+
+  const { data: preview, isFetching, error } = usePlanChangePreview(
+    subscription.id,
+    planId ? { planId } : null
+  );
+  const previewError = (error as any)?.response?.data?.message as string | undefined;
+
+  const planOptions = plans
+    .filter((p) => p.id !== subscription.planId)
+    .map((p) => ({
+      value: p.id,
+      label: `${p.name} - ${formatCurrency(p.priceMonthly)}/mês`,
+    }));
+
+  const handleSubmit = () => {
+    if (!planId) return;
+    changePlan.mutate(
+      { planId, reason: reason.trim() || undefined },
+      { onSuccess: () => onClose() }
+    );
+  };
+
+  const summaryRow = (label: string, value: string, strong = false) => (
+    <div className="flex items-center justify-between text-sm">
+      <span className={isDark ? 'text-zinc-400' : 'text-zinc-600'}>{label}</span>
+      <span
+        className={cn(
+          'font-mono',
+          strong ? 'font-bold' : 'font-medium',
+          isDark ? 'text-zinc-200' : 'text-zinc-800'
+        )}
+      >
+        {value}
+      </span>
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="🔀 Trocar Plano" size="lg">
+      <div className="space-y-4">
+        <Select
+          label="Novo Plano"
+          options={planOptions}
+          value={planId}
+          onChange={(e) => setPlanId(e.target.value)}
+          placeholder="Selecione um plano"
+          required
+        />
+
+        <Input
+          label="Motivo"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Ex: cliente precisa de mais usuários"
+          maxLength={500}
+        />
+
+        {planId && (
+          <div
+            className={cn(
+              'p-4 rounded-xl border space-y-2',
+              isDark ? 'bg-zinc-800 border-zinc-700' : 'bg-zinc-50 border-zinc-200'
+            )}
+          >
+            {isFetching ? (
+              <div className="flex items-center gap-2 text-sm text-zinc-500">
+                <Loader2 size={14} className="animate-spin" /> Calculando pró-rata...
+              </div>
+            ) : previewError ? (
+              <p className="text-sm text-red-500">{previewError}</p>
+            ) : preview ? (
+              <>
+                <p className="text-xs text-zinc-500 mb-2">
+                  {preview.direction === 'UPGRADE' ? 'Upgrade' : 'Downgrade'} ·{' '}
+                  {preview.remainingDays} de {preview.totalDays} dias restantes até{' '}
+                  {formatDate(preview.currentPeriodEnd)}
+                </p>
+                {summaryRow('Valor atual do ciclo', formatCurrency(preview.previousAmount))}
+                {summaryRow('Novo valor do ciclo', formatCurrency(preview.newAmount))}
+                {summaryRow('Crédito não utilizado', `- ${formatCurrency(preview.credit)}`)}
+                {summaryRow('Novo plano (proporcional)', formatCurrency(preview.charge))}
+                <div className={cn('border-t pt-2', isDark ? 'border-zinc-700' : 'border-zinc-200')}>
+                  {summaryRow(
+                    preview.netAmount >= 0 ? 'Cobrança de ajuste' : 'Crédito ao cliente',
+                    formatCurrency(Math.abs(preview.netAmount)),
+                    true
+                  )}
+                </div>
+              </>
+            ) : null}
+          </div>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose} disabled={changePlan.isPending}>
+          Cancelar
+        </Button>
+        <Button
+          variant="primary"
+          onClick={handleSubmit}
+          disabled={!preview || !!previewError || isFetching || changePlan.isPending}
+          isLoading={changePlan.isPending}
+          leftIcon={!changePlan.isPending && <ArrowRightLeft className="w-4 h-4" />}
+        >
+          {changePlan.isPending ? 'Alterando...' : 'Confirmar Troca'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
@@ -42,15 +42,18 @@ import {
   Instagram,
   Link,
   LayoutGrid,
+  ArrowRightLeft,
   type LucideIcon,
 } from 'lucide-react';
 import { useClientDetail } from '../hooks/useClientDetail';
 import { useActiveSubscription } from '../hooks/useReactivateClient';
 import { useClientTenant, useModulesTree } from '../hooks/useClientModules';
+import { useAuth } from '@/contexts/AuthContext';
 import { useUIStore } from '@/stores/useUIStore';
 import { cn } from '@/utils/cn';
 import { formatCurrency, formatDate } from '@/utils/formatters';
-import type { SubscriptionDetail, PlanDetail } from '@/types';
+import { UserRole, type SubscriptionDetail, type PlanDetail } from '@/types';
+import { ChangePlanModal } from './ChangePlanModal';
 
 // ──────────────────────────────────────────────────────────────────────────
 // Módulos — mapas de ícones e cores (espelho do ClientModulesTab)
@@ -333,10 +336,15 @@ export function ClientContractTab({ clientId }: Props) {
   const isProvisioned = tenant?.provisioningStatus === 'PROVISIONED';
   const { data: modulesTree = [], isLoading: modulesLoading } = useModulesTree(tenant?.id, isProvisioned);
   const [expandedParents, setExpandedParents] = useState<Record<string, boolean>>({});
+  const [isChangePlanOpen, setIsChangePlanOpen] = useState(false);
+  const { user } = useAuth();
 
   const isLoading = clientLoading || subLoading;
   const sub = subscription as SubscriptionDetail | null;
   const plan = (sub?.plan || client?.plan) as PlanDetail | undefined;
+  const canChangePlan =
+    sub?.status === 'ACTIVE' &&
+    [UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO, UserRole.GESTOR].includes(user?.role as UserRole);
 
   // ── Loading ──────────────────────────────────────────────────────────────
   if (isLoading) {
@@ -459,18 +467,29 @@ export function ClientContractTab({ clientId }: Props) {
                 </p>
                 <p className="text-[10px] text-zinc-500 mt-0.5">Plano contratado</p>
               </div>
-              {plan.code && (
-                <span
-                  className={cn(
-                    'text-[10px] px-2.5 py-1 rounded-full font-bold border',
-                    isDark
-                      ? 'bg-zinc-700/60 border-zinc-600 text-zinc-300'
-                      : 'bg-zinc-100 border-zinc-200 text-zinc-600'
-                  )}
-                >
-                  {plan.code}
-                </span>
-              )}
+              <div className="flex items-center gap-2">
+                {plan.code && (
+                  <span
+                    className={cn(
+                      'text-[10px] px-2.5 py-1 rounded-full font-bold border',
+                      isDark
+                        ? 'bg-zinc-700/60 border-zinc-600 text-zinc-300'
+                        : 'bg-zinc-100 border-zinc-200 text-zinc-600'
+                    )}
+                  >
+                    {plan.code}
+                  </span>
+                )}
+                {canChangePlan && (
+                  <button
+                    type="button"
+                    onClick={() => setIsChangePlanOpen(true)}
+                    className="flex items-center gap-1 text-[10px] font-bold text-nexus-orange hover:underline"
+                  >
+                    <ArrowRightLeft size={11} /> Trocar
+                  </button>
+                )}
+              </div>
             </div>
           )}
 
@@ -928,6 +947,15 @@ export function ClientContractTab({ clientId }: Props) {
             </div>
           )}
       </div>
+
+      {canChangePlan && sub && (
+        <ChangePlanModal
+          isOpen={isChangePlanOpen}
+          onClose={() => setIsChangePlanOpen(false)}
+          subscription={sub}
+          productType={client.productType}
+        />
+      )}
     </div>
   );
 }
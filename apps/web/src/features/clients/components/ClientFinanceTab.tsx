@@ -10,8 +10,15 @@ import {
   DollarSign,
   Wallet,
   ReceiptText,
+  Siren,
+  Mail,
+  MessageCircle,
+  Ban,
+  PauseCircle,
 } from 'lucide-react';
 import { useClientTransactions } from '@/features/finance/hooks/useFinance';
+import { useDunningEvents } from '../hooks/useDunningEvents';
+import type { DunningAction, DunningEvent, DunningEventStatus } from '../api/dunning.api';
 import { useUIStore } from '@/stores/useUIStore';
 import { cn } from '@/utils/cn';
 import type { Transaction } from '@/features/finance/types';
@@ -52,6 +59,101 @@ function SectionHeader({
   );
 }
 
+const DUNNING_ACTIONS: Record<DunningAction, { label: string; icon: React.ElementType }> = {
+  EMAIL_REMINDER: { label: 'Lembrete por email', icon: Mail },
+  WHATSAPP_REMINDER: { label: 'Lembrete por WhatsApp', icon: MessageCircle },
+  SUSPEND_TENANT: { label: 'Suspensão do acesso', icon: PauseCircle },
+  CANCEL_SUBSCRIPTION: { label: 'Cancelamento da assinatura', icon: Ban },
+};
+
+const DUNNING_STATUS: Record<DunningEventStatus, { label: string; cls: string }> = {
+  SUCCESS: { label: 'Executado', cls: 'bg-green-500/10 text-green-500 border-green-500/20' },
+  FAILED: { label: 'Falhou', cls: 'bg-red-500/10 text-red-500 border-red-500/20' },
+  SKIPPED: { label: 'Ignorado', cls: 'bg-zinc-500/10 text-zinc-500 border-zinc-500/20' },
+};
+
+/**
+ * Régua de cobrança — passos executados pelo cron de inadimplência
+ * Oculta enquanto o cliente não tiver nenhum evento
+ */
+function DunningSection({ events, isDark }: { events: DunningEvent[]; isDark: boolean }) {
+  if (events.length === 0) return null;
+
+  return (
+    <div
+      className={cn(
+        'rounded-2xl border overflow-hidden',
+        isDark
+          ? 'bg-zinc-800/40 border-zinc-700/60'
+          : 'bg-white border-zinc-200 shadow-sm'
+      )}
+    >
+      <div
+        className={cn(
+          'border-b',
+          isDark ? 'border-zinc-700/60' : 'border-zinc-200'
+        )}
+      >
+        <SectionHeader icon={Siren} label="Régua de Cobrança" iconColor="text-red-400" />
+      </div>
+
+      <div
+        className={cn(
+          'divide-y',
+          isDark ? 'divide-zinc-700/40' : 'divide-zinc-100'
+        )}
+      >
+        {events.map((event) => {
+          const action = DUNNING_ACTIONS[event.action];
+          const status = DUNNING_STATUS[event.status];
+          const Icon = action.icon;
+          return (
+            <div key={event.id} className="flex items-start gap-3 px-6 py-4">
+              <div
+                className={cn(
+                  'p-2 rounded-lg shrink-0',
+                  isDark ? 'bg-zinc-700/50' : 'bg-zinc-100'
+                )}
+              >
+                <Icon size={14} className="text-nexus-orange" />
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <p
+                  className={cn(
+                    'text-sm font-semibold',
+                    isDark ? 'text-zinc-200' : 'text-zinc-800'
+                  )}
+                >
+                  D+{event.dayOffset} · {action.label}
+                </p>
+                <p className="text-xs text-zinc-500 mt-0.5 truncate">
+                  {event.financeTransaction.description}
+                  {event.detail ? ` — ${event.detail}` : ''}
+                </p>
+              </div>
+
+              <div className="flex flex-col items-end gap-1 shrink-0">
+                <span
+                  className={cn(
+                    'text-[10px] font-bold px-2 py-0.5 rounded-full border whitespace-nowrap',
+                    status.cls
+                  )}
+                >
+                  {status.label}
+                </span>
+                <span className="text-[10px] text-zinc-500">
+                  {new Date(event.updatedAt).toLocaleDateString('pt-BR')}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 // ──────────────────────────────────────────────────────────────────────────
 // Main Component
 // ──────────────────────────────────────────────────────────────────────────
@@ -59,6 +161,7 @@ function SectionHeader({
 export function ClientFinanceTab({ clientId }: Props) {
   const isDark = useUIStore((s) => s.theme === 'dark');
   const { data, isLoading } = useClientTransactions(clientId);
+  const { data: dunningEvents = [] } = useDunningEvents(clientId);
 
   // ── Loading ──────────────────────────────────────────────────────────────
   if (isLoading) {
@@ -280,6 +383,9 @@ export function ClientFinanceTab({ clientId }: Props) {
         </div>
       )}
 
+      {/* ── Régua de Cobrança ───────────────────────────────────────────── */}
+      <DunningSection events={dunningEvents} isDark={isDark} />
+
       {/* ── Histórico de Transações ─────────────────────────────────────── */}
       <div
         className={cn(
@@ -4,7 +4,6 @@ import { useSearchParams } from 'react-router-dom';
 import {
   Plus,
   Search,
-  Filter,
   Trash2,
   Edit2,
   ArrowLeft,
@@ -26,6 +25,7 @@ import {
   LayoutGrid,
   Users,
   ChevronDown,
+  Mail,
 } from 'lucide-react';
 import { ClientModulesTab } from './ClientModulesTab';
 import { ClientContractTab } from './ClientContractTab';
@@ -54,6 +54,15 @@ import {
 import { formatDateLocal } from '@/utils/formatters';
 import { ReactivateClientModal } from './ReactivateClientModal';
 import { usePlans } from '../hooks/usePlans';
+import { TagsInput } from '@/features/settings/components/fields/TagsInput';
+import { CustomFieldsEditor } from '@/features/settings/components/fields/CustomFieldsEditor';
+import { SentEmailsList } from '@/features/settings/components/email/SentEmailsList';
+import {
+  TagFieldFilters,
+  EMPTY_TAG_FIELD_FILTERS,
+  toTagFieldParams,
+  TagFieldFilterValue,
+} from '@/features/settings/components/fields/TagFieldFilters';
 
 /**
  * ══════════════════════════════════════════════════════════════════════════
@@ -336,6 +345,8 @@ const ClientFormModal: React.FC<{
         planId: formData.planId,
         billingCycle: formData.billingCycle,
         status: formData.status,
+        tags: formData.tags || [],
+        customFields: formData.customFields || {},
       };
 
       // UPDATE: não enviar cpfCnpj, role, numberOfUsers (não podem ser editados)
@@ -601,6 +612,25 @@ const ClientFormModal: React.FC<{
                   />
                 </div>
               )}
+
+              {/* Etiquetas e campos personalizados (definidos em Configurações → Campos) */}
+              <div className="col-span-1 sm:col-span-2 space-y-4">
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase mb-1">
+                    Etiquetas
+                  </label>
+                  <TagsInput
+                    entity="CLIENT"
+                    value={formData.tags || []}
+                    onChange={(tags) => setFormData({ ...formData, tags })}
+                  />
+                </div>
+                <CustomFieldsEditor
+                  entity="CLIENT"
+                  value={formData.customFields || {}}
+                  onChange={(customFields) => setFormData({ ...formData, customFields })}
+                />
+              </div>
               </div>
             )}
 
@@ -1052,6 +1082,7 @@ const ClientDetailModal: React.FC<{
                     { id: 'financeiro', label: 'Financeiro', icon: CreditCard },
                     { id: 'tenant', label: 'Tenant & Acesso', icon: Database },
                     { id: 'interacoes', label: 'Interações', icon: History },
+                    { id: 'emails', label: 'E-mails', icon: Mail },
                     { id: 'modulos', label: 'Módulos', icon: LayoutGrid },
                   ];
                   const current = tabs.find(t => t.id === activeTab);
@@ -1072,6 +1103,7 @@ const ClientDetailModal: React.FC<{
                     { id: 'financeiro', label: 'Financeiro', icon: CreditCard, show: canSeeFinancial },
                     { id: 'tenant', label: 'Tenant & Acesso', icon: Database, show: true },
                     { id: 'interacoes', label: 'Interações', icon: History, show: canImpersonate },
+                    { id: 'emails', label: 'E-mails', icon: Mail, show: true },
                     { id: 'modulos', label: 'Módulos', icon: LayoutGrid, show: true },
                   ].filter(t => t.show && t.id !== activeTab).map(tab => (
                     <button
@@ -1115,6 +1147,12 @@ const ClientDetailModal: React.FC<{
               icon: History,
               show: canImpersonate,
             },
+            {
+              id: 'emails',
+              label: 'E-mails',
+              icon: Mail,
+              show: true,
+            },
             {
               id: 'modulos',
               label: 'Módulos',
@@ -1500,7 +1538,13 @@ const ClientDetailModal: React.FC<{
             </div>
           )}
 
-          {!['tenant', 'geral', 'modulos', 'contrato', 'financeiro', 'interacoes'].includes(activeTab) && (
+          {activeTab === 'emails' && (
+            <div className="animate-in fade-in duration-300">
+              <SentEmailsList target={{ clientId: client.id }} recipientName={client.contactName || client.company} canSend={!!client.email} />
+            </div>
+          )}
+
+          {!['tenant', 'geral', 'modulos', 'contrato', 'financeiro', 'interacoes', 'emails'].includes(activeTab) && (
             <div className="flex items-center justify-center h-48 text-zinc-500 italic">
               Carregando dados de {activeTab}...
             </div>
@@ -1534,10 +1578,20 @@ export const ClientsList: React.FC<{
   const { theme } = useUIStore();
   const isDark = theme === 'dark';
 
+  // Etiquetas e campos personalizados são filtrados no backend
+  const [tagFieldFilters, setTagFieldFilters] = useState<TagFieldFilterValue>(EMPTY_TAG_FIELD_FILTERS);
+  const clientsQueryString = useMemo(() => {
+    const { tags, cf } = toTagFieldParams(tagFieldFilters);
+    const params = new URLSearchParams({ productType: product });
+    if (tags) params.set('tags', tags);
+    Object.entries(cf ?? {}).forEach(([key, value]) => params.set(`cf[${key}]`, value));
+    return params.toString();
+  }, [product, tagFieldFilters]);
+
   // Fetch real data from API
   const { data: apiClients = [], isLoading, refetch } = useApiQuery<any[]>(
-    ['clients', product],
-    `/clients?productType=${product}`
+    ['clients', product, tagFieldFilters],
+    `/clients?${clientsQueryString}`
   );
 
   // Transform API data to match ClientExtended interface
@@ -1556,6 +1610,8 @@ export const ClientsList: React.FC<{
     subscriptions: c.subscriptions, // ✅ v2.46.1: Incluir subscriptions do backend para modal de edição
     vendedorId: c.vendedorId,
     leadId: c.leadId,
+    tags: c.tags || [],
+    customFields: c.customFields || {},
     plan: c.plan?.name || 'N/A',
     mrr: c.billingCycle === 'ANNUAL'
       ? (c.plan?.priceMonthly || 0) * 0.9  // ✅ v2.42.2: MRR = priceMonthly com 10% desconto fixo
@@ -1719,11 +1775,7 @@ export const ClientsList: React.FC<{
                 className={`w-full border-none rounded-lg py-3 md:py-2 pl-10 pr-4 text-base md:text-sm focus:ring-1 focus:ring-nexus-orange outline-none transition-all ${isDark ? 'bg-zinc-800 text-white' : 'bg-zinc-100 text-zinc-900'}`}
               />
             </div>
-            <button
-              className={`p-2 rounded-lg flex items-center gap-2 text-sm px-4 transition-colors ${isDark ? 'bg-zinc-800 hover:bg-zinc-700 text-zinc-400' : 'bg-zinc-100 hover:bg-zinc-200 text-zinc-600'}`}
-            >
-              <Filter size={18} /> <span className="hidden md:inline">Filtros</span>
-            </button>
+            <TagFieldFilters entity="CLIENT" value={tagFieldFilters} onChange={setTagFieldFilters} />
           </div>
           <div className="flex items-center gap-2">
             <span className="text-xs text-zinc-500">
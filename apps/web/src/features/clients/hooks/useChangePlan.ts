@@ -0,0 +1,34 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { subscriptionsApi, ChangePlanData } from '../api/subscriptions.api';
+
+/**
+ * Simulação da troca de plano (pró-rata até o fim do período atual)
+ */
+export function usePlanChangePreview(subscriptionId: string | undefined, data: ChangePlanData | null) {
+  return useQuery({
+    queryKey: ['subscriptions', subscriptionId, 'change-plan-preview', data],
+    queryFn: () => subscriptionsApi.previewPlanChange(subscriptionId!, data!),
+    enabled: !!subscriptionId && !!data?.planId,
+    retry: false,
+  });
+}
+
+export function useChangePlan(subscriptionId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: ChangePlanData) => subscriptionsApi.changePlan(subscriptionId!, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+      queryClient.invalidateQueries({ queryKey: ['subscriptions'] });
+      queryClient.invalidateQueries({ queryKey: ['finance'] });
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      queryClient.invalidateQueries({ queryKey: ['modules-tree'] }); // módulos do novo plano no tenant
+      toast.success('Plano alterado com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao trocar de plano');
+    },
+  });
+}
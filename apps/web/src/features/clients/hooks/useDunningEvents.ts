@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { dunningApi } from '../api/dunning.api';
+
+/**
+ * Passos da régua de cobrança executados para o cliente (aba Financeiro)
+ */
+export function useDunningEvents(clientId: string) {
+  return useQuery({
+    queryKey: ['dunning-events', clientId],
+    queryFn: () => dunningApi.getClientEvents(clientId),
+    enabled: !!clientId,
+  });
+}
@@ -1,20 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { BarChart3, Download, FileText, AlertTriangle, Sparkles, X, Check, Edit, AlertCircle, Clock, Plus, ChevronDown, Filter, Trash2 } from 'lucide-react';
+import { BarChart3, Download, FileText, AlertTriangle, Sparkles, X, Check, Edit, AlertCircle, Clock, Plus, ChevronDown, Filter, Trash2, Landmark } from 'lucide-react';
 import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, Tooltip, Legend, CartesianGrid, BarChart, Bar, Cell } from 'recharts';
 import { useUIStore } from '@/stores/useUIStore';
 import { useMetrics, useMrrHistory, useArrHistory, useAgingReport, useTransactions, useOverdueClients, useUpcomingDueDates, useCreateTransaction, useUpdateTransaction, useMarkAsPaid, useDeleteTransaction, useClients } from './hooks/useFinance';
 import { CATEGORY_LABELS, STATUS_LABELS, type TransactionCategory, type TransactionStatus, type Transaction } from './types';
 import { formatDateLocal } from '@/utils/formatters';
 import { ClientFinanceModal } from './components/ClientFinanceModal';
+import { BankReconciliationModal } from './components/BankReconciliationModal';
+import { CohortAnalytics } from './components/CohortAnalytics';
+import { useAuth } from '@/contexts/AuthContext';
+import { UserRole } from '@/types';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
 export const Finance: React.FC = () => {
   const { theme } = useUIStore();
   const isDark = theme === 'dark';
+  const { user } = useAuth();
+  const canReconcile = [UserRole.SUPERADMIN, UserRole.ADMINISTRATIVO].includes(user?.role as UserRole);
 
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isReconciliationOpen, setIsReconciliationOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [selectedClient, setSelectedClient] = useState<{ id: string; name: string } | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<{ id: string; client: string } | null>(null);
@@ -417,6 +424,11 @@ export const Finance: React.FC = () => {
           <button onClick={handleExportPDF} className={`shrink-0 px-3 md:px-4 py-2 rounded-lg text-sm flex items-center gap-1.5 md:gap-2 border active:scale-95 transition-all ${isDark ? 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-white' : 'bg-white border-zinc-200 hover:bg-zinc-50 text-zinc-700'}`}>
             <FileText size={16} className="md:w-[18px] md:h-[18px]" /> <span className="text-xs md:text-sm">PDF</span>
           </button>
+          {canReconcile && (
+            <button onClick={() => setIsReconciliationOpen(true)} className={`shrink-0 px-3 md:px-4 py-2 rounded-lg text-sm flex items-center gap-1.5 md:gap-2 border active:scale-95 transition-all ${isDark ? 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-white' : 'bg-white border-zinc-200 hover:bg-zinc-50 text-zinc-700'}`}>
+              <Landmark size={16} className="md:w-[18px] md:h-[18px]" /> <span className="text-xs md:text-sm">Conciliação</span>
+            </button>
+          )}
           <button onClick={() => handleOpenModal()} className="w-full md:w-auto flex items-center justify-center gap-2 py-3.5 md:py-2 px-4 bg-nexus-orange text-white rounded-xl md:rounded-lg text-base md:text-sm font-bold hover:bg-nexus-orangeDark transition-all active:scale-95 shadow-lg shadow-nexus-orange/20">
             <Plus size={20} /> Nova Transação
           </button>
@@ -604,6 +616,9 @@ export const Finance: React.FC = () => {
         </div>
       </div>
 
+      {/* Coortes e churn de MRR */}
+      <CohortAnalytics productType={productFilter !== 'ALL' ? productFilter : undefined} />
+
       {/* Alertas: Pendências e Vencimentos Próximos */}
       {(overdueClients.length > 0 || upcomingDueDates.length > 0) && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -975,6 +990,11 @@ export const Finance: React.FC = () => {
         />
       )}
 
+      {/* Conciliação bancária (OFX / CNAB) */}
+      {isReconciliationOpen && (
+        <BankReconciliationModal onClose={() => setIsReconciliationOpen(false)} />
+      )}
+
       {/* Modal de confirmação de exclusão */}
       {deleteConfirm && createPortal(
         <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in" onClick={() => setDeleteConfirm(null)}>
@@ -0,0 +1,337 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Upload, Check, Ban, RotateCcw, Link2, Loader2, ChevronDown } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { formatCurrency, formatDateLocal } from '@/utils/formatters';
+import {
+  useBankImports,
+  useBankImport,
+  useBankEntryCandidates,
+  useImportBankStatement,
+  useUpdateBankEntryMatch,
+  useConfirmBankEntries,
+} from '../hooks/useFinance';
+import {
+  BANK_ENTRY_STATUS_LABELS,
+  BANK_ENTRY_STATUS_COLORS,
+  type BankStatementEntry,
+  type BankMatchCandidate,
+} from '../types';
+
+interface BankReconciliationModalProps {
+  onClose: () => void;
+}
+
+const FORMAT_LABELS = { OFX: 'OFX', CNAB240: 'CNAB 240', CNAB400: 'CNAB 400' } as const;
+
+/**
+ * Conciliação bancária: importa extrato OFX ou retorno CNAB 240/400,
+ * revisa as correspondências sugeridas pela API e baixa as selecionadas como pagas
+ */
+export const BankReconciliationModal: React.FC<BankReconciliationModalProps> = ({ onClose }) => {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [importId, setImportId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
+
+  const { data: imports = [] } = useBankImports();
+  const { data: statement, isLoading } = useBankImport(importId);
+  const importMutation = useImportBankStatement();
+  const confirmMutation = useConfirmBankEntries();
+
+  // Abre a importação mais recente ao carregar a lista
+  useEffect(() => {
+    if (!importId && imports.length) setImportId(imports[0].id);
+  }, [imports, importId]);
+
+  // Pré-seleciona as sugestões ao trocar de importação (refetch da mesma não desfaz a seleção)
+  const seededImportId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!statement || seededImportId.current === statement.id) return;
+    seededImportId.current = statement.id;
+    setSelected(new Set(statement.entries.filter((e) => e.status === 'SUGGESTED').map((e) => e.id)));
+    setExpandedEntryId(null);
+  }, [statement]);
+
+  const entries = statement?.entries ?? [];
+  const suggestedIds = useMemo(() => entries.filter((e) => e.status === 'SUGGESTED').map((e) => e.id), [entries]);
+  const selectedIds = suggestedIds.filter((id) => selected.has(id));
+  const selectedTotal = entries
+    .filter((e) => selectedIds.includes(e.id))
+    .reduce((sum, e) => sum + Number(e.amount), 0);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    importMutation.mutate(file, { onSuccess: (result) => setImportId(result.id) });
+  };
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(selectedIds.length === suggestedIds.length ? new Set() : new Set(suggestedIds));
+  };
+
+  const handleConfirm = () => {
+    if (!importId || !selectedIds.length) return;
+    confirmMutation.mutate(
+      { importId, entryIds: selectedIds },
+      { onSuccess: () => setSelected(new Set()) }
+    );
+  };
+
+  const cardClass = isDark ? 'bg-zinc-800/50 border-zinc-700' : 'bg-zinc-50 border-zinc-200';
+  const mutedText = isDark ? 'text-zinc-400' : 'text-zinc-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end md:items-center md:justify-center bg-black/60 backdrop-blur-sm">
+      <div className={`${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'} border w-full max-w-full md:max-w-6xl max-h-[calc(100%-1rem)] md:max-h-[90vh] rounded-t-2xl md:rounded-2xl overflow-hidden flex flex-col`}>
+        {/* Header */}
+        <div className={`p-4 md:p-6 border-b ${isDark ? 'border-zinc-800' : 'border-zinc-200'} flex justify-between items-start gap-4`}>
+          <div>
+            <h2 className={`text-xl font-bold ${isDark ? 'text-white' : 'text-zinc-900'}`}>Conciliação Bancária</h2>
+            <p className="text-zinc-500 text-sm mt-1">
+              Importe o extrato OFX ou o arquivo retorno CNAB 240/400 e revise as correspondências antes da baixa
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-zinc-500 hover:text-zinc-400">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className={`px-4 md:px-6 py-3 border-b flex flex-col md:flex-row gap-2 md:items-center ${isDark ? 'border-zinc-800' : 'border-zinc-200'}`}>
+          <select
+            value={importId ?? ''}
+            onChange={(e) => setImportId(e.target.value || null)}
+            className={`flex-1 px-3 py-2 rounded-lg text-sm border ${isDark ? 'bg-zinc-800 border-zinc-700 text-white' : 'bg-white border-zinc-200 text-zinc-700'}`}
+          >
+            {!imports.length && <option value="">Nenhum extrato importado</option>}
+            {imports.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.fileName} · {FORMAT_LABELS[item.format]} · {formatDateLocal(item.createdAt)} · {item.counts.SUGGESTED} sugeridos / {item.counts.UNMATCHED} sem correspondência
+              </option>
+            ))}
+          </select>
+          <input ref={fileInputRef} type="file" accept=".ofx,.ret,.txt,.rem,.cnab" className="hidden" onChange={handleFile} />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-nexus-orange text-white rounded-lg text-sm font-bold hover:bg-nexus-orangeDark transition-all active:scale-95 disabled:opacity-50"
+          >
+            {importMutation.isPending ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+            {importMutation.isPending ? 'Importando...' : 'Importar Arquivo'}
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 md:p-6">
+          {isLoading ? (
+            <div className="text-center text-zinc-500 py-12">Carregando...</div>
+          ) : !entries.length ? (
+            <div className="text-center text-zinc-500 py-12">
+              {importId ? 'Nenhum crédito neste arquivo.' : 'Importe um extrato para começar a conciliação.'}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {suggestedIds.length > 0 && (
+                <label className={`flex items-center gap-2 text-sm ${mutedText}`}>
+                  <input type="checkbox" checked={selectedIds.length === suggestedIds.length} onChange={toggleAll} className="accent-nexus-orange" />
+                  Selecionar todas as sugestões ({suggestedIds.length})
+                </label>
+              )}
+              {entries.map((entry) => (
+                <EntryRow
+                  key={entry.id}
+                  entry={entry}
+                  isDark={isDark}
+                  cardClass={cardClass}
+                  checked={selected.has(entry.id)}
+                  onToggle={() => toggle(entry.id)}
+                  expanded={expandedEntryId === entry.id}
+                  onExpand={() => setExpandedEntryId(expandedEntryId === entry.id ? null : entry.id)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className={`p-4 md:px-6 border-t flex flex-col md:flex-row gap-2 md:items-center md:justify-between ${isDark ? 'border-zinc-800' : 'border-zinc-200'}`}>
+          <span className={`text-sm ${mutedText}`}>
+            {selectedIds.length} selecionados · {formatCurrency(selectedTotal)}
+          </span>
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className={`flex-1 md:flex-none px-4 py-2 rounded-lg text-sm border ${isDark ? 'border-zinc-700 text-zinc-300 hover:bg-zinc-800' : 'border-zinc-200 text-zinc-700 hover:bg-zinc-50'}`}>
+              Fechar
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={!selectedIds.length || confirmMutation.isPending}
+              className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-nexus-orange text-white rounded-lg text-sm font-bold disabled:opacity-50"
+            >
+              <Check size={16} />
+              {confirmMutation.isPending ? 'Conciliando...' : 'Confirmar e Baixar'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ──────────────────────────────────────────────────────────────────────────
+// Linha de lançamento + troca manual da correspondência
+// ──────────────────────────────────────────────────────────────────────────
+
+interface EntryRowProps {
+  entry: BankStatementEntry;
+  isDark: boolean;
+  cardClass: string;
+  checked: boolean;
+  onToggle: () => void;
+  expanded: boolean;
+  onExpand: () => void;
+}
+
+function EntryRow({ entry, isDark, cardClass, checked, onToggle, expanded, onExpand }: EntryRowProps) {
+  const updateMatch = useUpdateBankEntryMatch();
+  const linked = entry.payment ?? entry.financeTransaction;
+  const isLocked = entry.status === 'CONFIRMED';
+
+  const setMatch = (data: { financeTransactionId?: string | null; paymentId?: string | null; ignore?: boolean }) =>
+    updateMatch.mutate({ entryId: entry.id, data });
+
+  return (
+    <div className={`border rounded-xl p-3 md:p-4 ${cardClass}`}>
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <div className="flex items-start gap-3 md:w-2/5 min-w-0">
+          <input
+            type="checkbox"
+            checked={checked}
+            disabled={entry.status !== 'SUGGESTED'}
+            onChange={onToggle}
+            className="mt-1 accent-nexus-orange disabled:opacity-30"
+          />
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <span className={`font-bold font-mono ${isDark ? 'text-green-400' : 'text-green-600'}`}>{formatCurrency(Number(entry.amount))}</span>
+              <span className="text-xs text-zinc-500">{formatDateLocal(entry.date)}</span>
+            </div>
+            <p className={`text-sm truncate ${isDark ? 'text-zinc-300' : 'text-zinc-700'}`} title={entry.description}>{entry.description}</p>
+            {entry.payerDocument && <p className="text-xs text-zinc-500">CPF/CNPJ {entry.payerDocument}</p>}
+          </div>
+        </div>
+
+        <div className="flex-1 min-w-0">
+          {linked ? (
+            <>
+              <p className={`text-sm font-medium truncate ${isDark ? 'text-white' : 'text-zinc-900'}`}>
+                {linked.client?.company ?? 'Sem cliente'}
+              </p>
+              <p className="text-xs text-zinc-500 truncate">
+                {linked.description} · {formatCurrency(Number(linked.amount))}
+                {linked.dueDate && ` · vence ${formatDateLocal(linked.dueDate)}`}
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-zinc-500">Nenhuma cobrança vinculada</p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 md:justify-end">
+          {entry.matchScore != null && entry.status === 'SUGGESTED' && (
+            <span className="text-xs font-mono text-zinc-500" title="Pontuação da correspondência">{entry.matchScore} pts</span>
+          )}
+          <span className={`px-2 py-0.5 rounded-full text-xs font-bold border ${BANK_ENTRY_STATUS_COLORS[entry.status]}`}>
+            {BANK_ENTRY_STATUS_LABELS[entry.status]}
+          </span>
+          {!isLocked && (
+            <>
+              <button type="button" onClick={onExpand} title="Alterar correspondência" className="p-1.5 rounded-lg text-zinc-500 hover:text-nexus-orange">
+                <ChevronDown size={16} className={`transition-transform ${expanded ? 'rotate-180' : ''}`} />
+              </button>
+              {entry.status === 'IGNORED' || linked ? (
+                <button type="button" onClick={() => setMatch({ financeTransactionId: null, paymentId: null })} disabled={updateMatch.isPending} title="Limpar" className="p-1.5 rounded-lg text-zinc-500 hover:text-zinc-300">
+                  <RotateCcw size={16} />
+                </button>
+              ) : null}
+              {entry.status !== 'IGNORED' && (
+                <button type="button" onClick={() => setMatch({ ignore: true })} disabled={updateMatch.isPending} title="Ignorar lançamento" className="p-1.5 rounded-lg text-zinc-500 hover:text-red-500">
+                  <Ban size={16} />
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {expanded && !isLocked && (
+        <CandidateList
+          entryId={entry.id}
+          isDark={isDark}
+          disabled={updateMatch.isPending}
+          onPick={(c) => setMatch({ financeTransactionId: c.financeTransactionId, paymentId: c.paymentId })}
+        />
+      )}
+    </div>
+  );
+}
+
+function CandidateList({ entryId, isDark, disabled, onPick }: {
+  entryId: string;
+  isDark: boolean;
+  disabled: boolean;
+  onPick: (candidate: BankMatchCandidate) => void;
+}) {
+  const { data: candidates = [], isLoading } = useBankEntryCandidates(entryId);
+
+  return (
+    <div className={`mt-3 pt-3 border-t space-y-1.5 ${isDark ? 'border-zinc-700' : 'border-zinc-200'}`}>
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-zinc-500">
+          <Loader2 size={14} className="animate-spin" /> Buscando cobranças em aberto...
+        </div>
+      ) : !candidates.length ? (
+        <p className="text-sm text-zinc-500">Nenhuma cobrança em aberto compatível com este crédito.</p>
+      ) : (
+        candidates.map((c) => (
+          <div
+            key={`${c.paymentId ?? ''}-${c.financeTransactionId ?? ''}`}
+            className={`flex items-center justify-between gap-3 p-2 rounded-lg ${isDark ? 'hover:bg-zinc-800' : 'hover:bg-white'}`}
+          >
+            <div className="min-w-0">
+              <p className={`text-sm truncate ${isDark ? 'text-zinc-200' : 'text-zinc-800'}`}>
+                {c.clientName ?? 'Sem cliente'} · {formatCurrency(c.amount)}
+                {c.dueDate && <span className="text-zinc-500"> · vence {formatDateLocal(c.dueDate)}</span>}
+              </p>
+              <p className="text-xs text-zinc-500 truncate">
+                {c.description}{c.reasons.length > 0 && ` — ${c.reasons.join(', ')}`} ({c.score} pts)
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => onPick(c)}
+              disabled={disabled}
+              className="shrink-0 flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-nexus-orange bg-nexus-orange/10 hover:bg-nexus-orange/20 disabled:opacity-50"
+            >
+              <Link2 size={14} /> Vincular
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
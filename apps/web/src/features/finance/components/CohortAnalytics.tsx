@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, CartesianGrid, ReferenceLine } from 'recharts';
+import { useUIStore } from '@/stores/useUIStore';
+import { formatCurrency } from '@/utils/formatters';
+import { useCohortAnalytics } from '../hooks/useFinance';
+import type { CohortRetentionPoint } from '../types';
+
+interface CohortAnalyticsProps {
+  productType?: string;
+}
+
+type RetentionMode = 'logos' | 'revenue';
+
+/**
+ * Coortes por mês de fechamento (heatmap de retenção de logos / NRR)
+ * e movimentação do MRR: new, expansion, reactivation, contraction e churn
+ */
+export const CohortAnalytics: React.FC<CohortAnalyticsProps> = ({ productType }) => {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+
+  const [months, setMonths] = useState<6 | 12 | 24>(12);
+  const [mode, setMode] = useState<RetentionMode>('logos');
+
+  const { data, isLoading } = useCohortAnalytics(months, productType);
+
+  const cohorts = (data?.cohorts ?? []).filter((c) => c.size > 0);
+  const maxOffset = Math.max(0, ...cohorts.map((c) => c.retention.length - 1));
+  const lastMovement = data?.movements[data.movements.length - 1];
+
+  // Contraction e churn negativos para empilhar abaixo do eixo
+  const movementChart = (data?.movements ?? []).map((m) => ({
+    name: m.name,
+    new: m.new,
+    expansion: m.expansion,
+    reactivation: m.reactivation,
+    contraction: -m.contraction,
+    churn: -m.churn,
+  }));
+
+  const valueOf = (point: CohortRetentionPoint) =>
+    mode === 'logos' ? point.logoRetention : point.revenueRetention;
+
+  // Laranja proporcional à retenção (NRR acima de 100% satura)
+  const cellStyle = (value: number | null): React.CSSProperties => {
+    if (value === null) return {};
+    const intensity = Math.min(value, 100) / 100;
+    return {
+      backgroundColor: `rgba(234, 88, 12, ${0.08 + intensity * 0.82})`,
+      color: intensity > 0.55 ? '#fff' : undefined,
+    };
+  };
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1 text-[10px] md:text-xs font-bold rounded-lg transition-all ${
+      active
+        ? 'bg-nexus-orange text-white'
+        : isDark
+          ? 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+          : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200'
+    }`;
+
+  const summary = [
+    { label: 'New', value: data?.totals.new ?? 0, color: 'text-green-500' },
+    { label: 'Expansion', value: data?.totals.expansion ?? 0, color: 'text-emerald-400' },
+    { label: 'Reativação', value: data?.totals.reactivation ?? 0, color: 'text-sky-500' },
+    { label: 'Contraction', value: -(data?.totals.contraction ?? 0), color: 'text-amber-500' },
+    { label: 'Churn', value: -(data?.totals.churn ?? 0), color: 'text-red-500' },
+  ];
+
+  return (
+    <div className={`border p-4 md:p-6 rounded-2xl space-y-6 ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200 shadow-sm'}`}>
+      <div className="flex flex-col gap-2 md:flex-row md:justify-between md:items-center">
+        <div>
+          <h3 className={`text-lg font-bold ${isDark ? 'text-white' : 'text-zinc-900'}`}>Coortes e Churn de MRR</h3>
+          {lastMovement && (
+            <p className="text-xs text-zinc-500">
+              Churn bruto {lastMovement.grossChurnRate.toLocaleString('pt-BR')}% · líquido{' '}
+              {lastMovement.netChurnRate.toLocaleString('pt-BR')}% em {lastMovement.name}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => setMode('logos')} className={toggleClass(mode === 'logos')}>Logos</button>
+          <button onClick={() => setMode('revenue')} className={toggleClass(mode === 'revenue')}>Receita (NRR)</button>
+          <span className={`w-px ${isDark ? 'bg-zinc-800' : 'bg-zinc-200'}`} />
+          {([6, 12, 24] as const).map((value) => (
+            <button key={value} onClick={() => setMonths(value)} className={toggleClass(months === value)}>
+              {value === 24 ? '2A' : value === 12 ? '1A' : '6M'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className={`h-48 rounded-xl animate-pulse ${isDark ? 'bg-zinc-800' : 'bg-zinc-100'}`} />
+      ) : (
+        <>
+          {/* Resumo do período */}
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+            {summary.map((item) => (
+              <div key={item.label} className={`p-3 rounded-xl border ${isDark ? 'bg-zinc-800/50 border-zinc-700' : 'bg-zinc-50 border-zinc-200'}`}>
+                <p className="text-[10px] font-bold text-zinc-500 uppercase">{item.label}</p>
+                <p className={`text-sm md:text-base font-bold ${item.color}`}>{formatCurrency(item.value)}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Heatmap de retenção */}
+          {cohorts.length === 0 ? (
+            <p className="text-sm text-zinc-500 text-center py-6">Nenhum cliente fechado no período.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs border-separate border-spacing-0.5">
+                <thead>
+                  <tr className="text-zinc-500">
+                    <th className="text-left font-bold px-2 py-1">Coorte</th>
+                    <th className="text-right font-bold px-2 py-1">Clientes</th>
+                    <th className="text-right font-bold px-2 py-1">MRR inicial</th>
+                    {Array.from({ length: maxOffset + 1 }, (_, i) => (
+                      <th key={i} className="font-bold px-2 py-1 text-center">M{i}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {cohorts.map((cohort) => (
+                    <tr key={cohort.cohort}>
+                      <td className={`px-2 py-1 font-medium whitespace-nowrap ${isDark ? 'text-zinc-300' : 'text-zinc-700'}`}>{cohort.name}</td>
+                      <td className={`px-2 py-1 text-right ${isDark ? 'text-zinc-400' : 'text-zinc-600'}`}>{cohort.size}</td>
+                      <td className={`px-2 py-1 text-right whitespace-nowrap ${isDark ? 'text-zinc-400' : 'text-zinc-600'}`}>{formatCurrency(cohort.startingMrr)}</td>
+                      {Array.from({ length: maxOffset + 1 }, (_, i) => {
+                        const point = cohort.retention[i];
+                        const value = point ? valueOf(point) : null;
+                        return (
+                          <td
+                            key={i}
+                            style={cellStyle(value)}
+                            title={point ? `${point.logos} clientes · ${formatCurrency(point.mrr)}` : undefined}
+                            className={`px-2 py-1 text-center rounded font-mono ${value === null ? (isDark ? 'text-zinc-700' : 'text-zinc-300') : isDark ? 'text-zinc-100' : 'text-zinc-900'}`}
+                          >
+                            {value === null ? (point ? '—' : '') : `${Math.round(value)}%`}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Movimentação de MRR */}
+          <div className="h-56 md:h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={movementChart} stackOffset="sign">
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={isDark ? '#27272a' : '#f1f1f1'} />
+                <XAxis dataKey="name" stroke="#52525b" fontSize={12} axisLine={false} tickLine={false} />
+                <YAxis stroke="#52525b" fontSize={12} axisLine={false} tickLine={false} />
+                <ReferenceLine y={0} stroke={isDark ? '#3f3f46' : '#d4d4d8'} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: isDark ? '#18181b' : '#fff', border: isDark ? '1px solid #27272a' : '1px solid #e4e4e7', borderRadius: '12px' }}
+                  formatter={(value: unknown) => formatCurrency(Number(value) || 0)}
+                />
+                <Legend />
+                <Bar dataKey="new" stackId="mrr" fill="#22c55e" name="New" />
+                <Bar dataKey="expansion" stackId="mrr" fill="#34d399" name="Expansion" />
+                <Bar dataKey="reactivation" stackId="mrr" fill="#0ea5e9" name="Reativação" />
+                <Bar dataKey="contraction" stackId="mrr" fill="#f59e0b" name="Contraction" />
+                <Bar dataKey="churn" stackId="mrr" fill="#ef4444" name="Churn" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
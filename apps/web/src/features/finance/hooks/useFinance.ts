@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { financeApi } from '../services/finance.api';
+import type { UpdateBankEntryMatchDto } from '../types';
 
 export const useMetrics = (productType?: string) => useQuery({
   queryKey: ['finance', 'metrics', productType],
@@ -14,6 +15,10 @@ export const useArrHistory = (productType?: string) => useQuery({
   queryKey: ['finance', 'arr', productType],
   queryFn: () => financeApi.getArrHistory(productType),
 });
+export const useCohortAnalytics = (months = 12, productType?: string) => useQuery({
+  queryKey: ['finance', 'cohorts', months, productType],
+  queryFn: () => financeApi.getCohortAnalytics(months, productType),
+});
 export const useAgingReport = (productType?: string) => useQuery({
   queryKey: ['finance', 'aging', productType],
   queryFn: () => financeApi.getAgingReport(productType),
@@ -91,3 +96,64 @@ export const useImportPdf = () => {
     onError: (e: any) => console.error('Erro ao importar PDF:', e.response?.data?.message || 'Erro'),
   });
 };
+
+// Conciliação bancária
+export const useBankImports = (enabled = true) => useQuery({
+  queryKey: ['finance', 'reconciliation', 'imports'],
+  queryFn: financeApi.getBankImports,
+  enabled,
+});
+export const useBankImport = (id: string | null) => useQuery({
+  queryKey: ['finance', 'reconciliation', 'import', id],
+  queryFn: () => financeApi.getBankImport(id!),
+  enabled: !!id,
+});
+export const useBankEntryCandidates = (entryId: string | null) => useQuery({
+  queryKey: ['finance', 'reconciliation', 'candidates', entryId],
+  queryFn: () => financeApi.getBankEntryCandidates(entryId!),
+  enabled: !!entryId,
+});
+
+export const useImportBankStatement = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: financeApi.importBankStatement,
+    onSuccess: (result) => {
+      qc.invalidateQueries({ queryKey: ['finance', 'reconciliation'] });
+      const { imported = 0, duplicates = 0, suggested = 0 } = result.summary ?? {};
+      toast.success(`${imported} créditos importados, ${suggested} com sugestão${duplicates ? ` (${duplicates} duplicados ignorados)` : ''}`);
+    },
+    onError: (e: any) => toast.error(e?.response?.data?.message || 'Erro ao importar extrato'),
+  });
+};
+
+export const useUpdateBankEntryMatch = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ entryId, data }: { entryId: string; data: UpdateBankEntryMatchDto }) =>
+      financeApi.updateBankEntryMatch(entryId, data),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['finance', 'reconciliation'] });
+    },
+    onError: (e: any) => toast.error(e?.response?.data?.message || 'Erro ao atualizar correspondência'),
+  });
+};
+
+export const useConfirmBankEntries = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ importId, entryIds }: { importId: string; entryIds: string[] }) =>
+      financeApi.confirmBankEntries(importId, entryIds),
+    onSuccess: (result) => {
+      qc.invalidateQueries({ queryKey: ['finance'] });
+      qc.invalidateQueries({ queryKey: ['clients'] });
+      qc.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      if (result.failed.length) {
+        toast.warning(`${result.confirmed} conciliados, ${result.failed.length} com erro: ${result.failed[0].error}`);
+      } else {
+        toast.success(`${result.confirmed} lançamentos conciliados e baixados como pagos!`);
+      }
+    },
+    onError: (e: any) => toast.error(e?.response?.data?.message || 'Erro ao confirmar conciliação'),
+  });
+};
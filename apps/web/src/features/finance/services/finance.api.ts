@@ -1,5 +1,9 @@
 import { api } from '@/services/api';
-import type { Transaction, Metric, MrrHistoryItem, AgingReport, Client } from '../types';
+import type {
+  Transaction, Metric, MrrHistoryItem, AgingReport, Client, CohortAnalytics,
+  BankStatementImport, BankStatementImportListItem, BankStatementEntry, BankMatchCandidate,
+  UpdateBankEntryMatchDto, ConfirmBankEntriesResult,
+} from '../types';
 
 export const financeApi = {
   getMetrics: async (productType?: string) => {
@@ -20,6 +24,12 @@ export const financeApi = {
     });
     return data.data;
   },
+  getCohortAnalytics: async (months = 12, productType?: string) => {
+    const { data } = await api.get<{ data: CohortAnalytics }>('/finance/cohorts', {
+      params: { months, ...(productType && { productType }) },
+    });
+    return data.data;
+  },
   getAgingReport: async (productType?: string) => {
     const { data } = await api.get<{ data: AgingReport }>('/finance/aging-report', {
       params: productType ? { productType } : undefined,
@@ -72,4 +82,34 @@ export const financeApi = {
     });
     return data.data;
   },
+
+  // Conciliação bancária
+  importBankStatement: async (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    const { data } = await api.post<{ data: BankStatementImport }>('/finance/reconciliation/import', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return data.data;
+  },
+  getBankImports: async () => {
+    const { data } = await api.get<{ data: BankStatementImportListItem[] }>('/finance/reconciliation/imports');
+    return data.data;
+  },
+  getBankImport: async (id: string) => {
+    const { data } = await api.get<{ data: BankStatementImport }>(`/finance/reconciliation/imports/${id}`);
+    return data.data;
+  },
+  getBankEntryCandidates: async (entryId: string) => {
+    const { data } = await api.get<{ data: BankMatchCandidate[] }>(`/finance/reconciliation/entries/${entryId}/candidates`);
+    return data.data;
+  },
+  updateBankEntryMatch: async (entryId: string, payload: UpdateBankEntryMatchDto) => {
+    const { data } = await api.patch<{ data: BankStatementEntry }>(`/finance/reconciliation/entries/${entryId}`, payload);
+    return data.data;
+  },
+  confirmBankEntries: async (importId: string, entryIds: string[]) => {
+    const { data } = await api.post<{ data: ConfirmBankEntriesResult }>(`/finance/reconciliation/imports/${importId}/confirm`, { entryIds });
+    return data.data;
+  },
 };
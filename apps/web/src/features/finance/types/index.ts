@@ -55,6 +55,46 @@ export interface MrrHistoryItem {
   churn: number;
 }
 
+// Coortes por mês de fechamento (retenção de logos e receita)
+export interface CohortRetentionPoint {
+  month: number; // Meses desde a entrada (0 = mês de fechamento)
+  logos: number;
+  logoRetention: number | null; // %
+  mrr: number;
+  revenueRetention: number | null; // % (NRR)
+}
+
+export interface Cohort {
+  cohort: string; // YYYY-MM
+  name: string;
+  size: number;
+  startingMrr: number;
+  retention: CohortRetentionPoint[];
+}
+
+// Movimentação de MRR do mês
+export interface MrrMovement {
+  month: string;
+  name: string;
+  startingMrr: number;
+  new: number;
+  expansion: number;
+  contraction: number;
+  churn: number;
+  reactivation: number;
+  endingMrr: number;
+  grossChurnRate: number; // %
+  netChurnRate: number; // %
+}
+
+export interface CohortAnalytics {
+  from: string;
+  to: string;
+  cohorts: Cohort[];
+  movements: MrrMovement[];
+  totals: Pick<MrrMovement, 'new' | 'expansion' | 'contraction' | 'churn' | 'reactivation'>;
+}
+
 export interface AgingReport {
   data: Array<{ range: string; value: number }>;
   total: number;
@@ -110,3 +150,92 @@ export interface CreateFinanceTransactionDto {
   isRecurring?: boolean;
   notes?: string | null;
 }
+
+// ──────────────────────────────────────────────────────────────────────────
+// Conciliação bancária (OFX / CNAB 240 / CNAB 400)
+// ──────────────────────────────────────────────────────────────────────────
+
+export type BankStatementFormat = 'OFX' | 'CNAB240' | 'CNAB400';
+export type BankEntryStatus = 'UNMATCHED' | 'SUGGESTED' | 'CONFIRMED' | 'IGNORED';
+
+export const BANK_ENTRY_STATUS_LABELS: Record<BankEntryStatus, string> = {
+  UNMATCHED: 'Sem correspondência', SUGGESTED: 'Sugerido', CONFIRMED: 'Conciliado', IGNORED: 'Ignorado'
+};
+
+export const BANK_ENTRY_STATUS_COLORS: Record<BankEntryStatus, string> = {
+  UNMATCHED: 'bg-zinc-500/10 text-zinc-500 border-zinc-500/20',
+  SUGGESTED: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  CONFIRMED: 'bg-green-500/10 text-green-500 border-green-500/20',
+  IGNORED: 'bg-zinc-500/10 text-zinc-400 border-zinc-500/20'
+};
+
+/** Cobrança vinculada a um lançamento (FinanceTransaction ou Payment) */
+export interface BankEntryLinkedCharge {
+  id: string;
+  description: string;
+  amount: number | string;
+  dueDate: string | null;
+  status: string;
+  client: { id: string; company: string } | null;
+}
+
+export interface BankStatementEntry {
+  id: string;
+  importId: string;
+  externalId: string | null;
+  documentNumber: string | null;
+  date: string;
+  amount: number | string;
+  description: string;
+  payerDocument: string | null;
+  payerName: string | null;
+  status: BankEntryStatus;
+  matchScore: number | null;
+  financeTransactionId: string | null;
+  paymentId: string | null;
+  financeTransaction: BankEntryLinkedCharge | null;
+  payment: BankEntryLinkedCharge | null;
+  confirmedAt: string | null;
+}
+
+export interface BankStatementImport {
+  id: string;
+  fileName: string;
+  format: BankStatementFormat;
+  bankCode: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  createdAt: string;
+  creator: { id: string; name: string };
+  entries: BankStatementEntry[];
+  summary?: { total: number; imported: number; duplicates: number; suggested: number };
+}
+
+export interface BankStatementImportListItem extends Omit<BankStatementImport, 'entries' | 'summary'> {
+  counts: Record<BankEntryStatus, number>;
+  totalAmount: number;
+}
+
+export interface BankMatchCandidate {
+  financeTransactionId: string | null;
+  paymentId: string | null;
+  clientId: string | null;
+  clientName: string | null;
+  description: string;
+  amount: number;
+  dueDate: string | null;
+  score: number;
+  reasons: string[];
+}
+
+export interface UpdateBankEntryMatchDto {
+  financeTransactionId?: string | null;
+  paymentId?: string | null;
+  ignore?: boolean;
+}
+
+export interface ConfirmBankEntriesResult {
+  confirmed: number;
+  failed: Array<{ id: string; error: string }>;
+  skipped: number;
+}
@@ -6,12 +6,18 @@ import {
   ChevronUp, ChevronDown,
   Plus, Settings2, Type, Mail, Phone, Hash, MapPin, FileText,
   Calendar, Globe, List, CheckSquare, CircleDot, EyeOff, Minus,
+  Layers, GitBranch, Target,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useCreateForm, useUpdateForm, useForm } from './hooks/useForms';
-import { FormFieldDef, FormPurpose, VendorAssignmentMode, CreateFormPayload, FieldType } from './services/forms.api';
+import {
+  FormFieldDef, FormPurpose, VendorAssignmentMode, CreateFormPayload, FieldType,
+  FormCondition, FormScoreRule,
+} from './services/forms.api';
+import { CONDITION_OPERATORS, FORM_SCORE_BONUS_LIMIT } from './utils/form-logic';
 import { useUIStore } from '@/stores/useUIStore';
 import { useUsers } from '@/features/settings/hooks/useUsers';
+import { useCustomFields } from '@/features/settings/hooks/useCustomFields';
 import { cn } from '@/utils/cn';
 import { nanoid } from 'nanoid';
 
@@ -32,6 +38,7 @@ const FIELD_TYPE_ICON: Record<FieldType, typeof Type> = {
   checkbox: CheckSquare,
   heading: Minus,
   hidden: EyeOff,
+  page: Layers,
 };
 
 const FIELD_TYPE_LABEL: Record<FieldType, string> = {
@@ -50,6 +57,7 @@ const FIELD_TYPE_LABEL: Record<FieldType, string> = {
   checkbox: 'Multipla Escolha',
   heading: 'Titulo / Secao',
   hidden: 'Campo Oculto',
+  page: 'Quebra de Pagina',
 };
 
 // ── Campos "inteligentes" pre-configurados (TODOS com required: false)
@@ -125,8 +133,12 @@ const CUSTOM_FIELD_TYPES: { value: FieldType; label: string; hasOptions?: boolea
   { value: 'state', label: 'Estado (UF)' },
   { value: 'heading', label: 'Titulo / Divisor de Secao' },
   { value: 'hidden', label: 'Campo Oculto' },
+  { value: 'page', label: 'Quebra de Pagina (Etapa)' },
 ];
 
+// Tipos sem resposta do visitante (nao entram em condicoes nem pontuacao)
+const LAYOUT_FIELD_TYPES: FieldType[] = ['heading', 'page'];
+
 export function FormBuilder() {
   const { id } = useParams<{ id: string }>();
   const isEdit = !!id;
@@ -428,8 +440,14 @@ export function FormBuilder() {
                     {form.fields.map((field, idx) => {
                       const isExpanded = expandedFieldId === field.id;
                       const Icon = FIELD_TYPE_ICON[field.type];
+                      const isPage = field.type === 'page';
                       return (
-                        <div key={field.id} className={cn('rounded-xl border transition-all', isDark ? 'border-zinc-700 bg-zinc-800/30' : 'border-zinc-100 bg-zinc-50')}>
+                        <div key={field.id} className={cn(
+                          'rounded-xl border transition-all',
+                          isPage
+                            ? 'border-dashed border-nexus-orange/40 bg-nexus-orange/5'
+                            : isDark ? 'border-zinc-700 bg-zinc-800/30' : 'border-zinc-100 bg-zinc-50',
+                        )}>
                           {/* Header do campo */}
                           <div className="flex items-center gap-2 p-3">
                             <GripVertical size={14} className="text-zinc-400 flex-shrink-0" />
@@ -438,20 +456,34 @@ export function FormBuilder() {
                               <p className={cn('text-sm font-medium truncate', isDark ? 'text-zinc-200' : 'text-zinc-800')}>
                                 {field.label}
                               </p>
-                              <span className={cn('text-xs', isDark ? 'text-zinc-500' : 'text-zinc-400')}>
-                                {FIELD_TYPE_LABEL[field.type]}
-                              </span>
+                              <div className="flex items-center gap-2">
+                                <span className={cn('text-xs', isDark ? 'text-zinc-500' : 'text-zinc-400')}>
+                                  {FIELD_TYPE_LABEL[field.type]}
+                                </span>
+                                {field.showIf && (
+                                  <span className="flex items-center gap-0.5 text-[10px] text-purple-400" title="Exibicao condicional">
+                                    <GitBranch size={10} /> Condicional
+                                  </span>
+                                )}
+                                {!!field.scoreRules?.length && (
+                                  <span className="flex items-center gap-0.5 text-[10px] text-green-500" title="Regras de pontuacao">
+                                    <Target size={10} /> Pontua
+                                  </span>
+                                )}
+                              </div>
                             </div>
-                            <button
-                              onClick={() => updateField(field.id, { required: !field.required })}
-                              className={cn('text-xs px-2 py-0.5 rounded-full border transition-colors flex-shrink-0',
-                                field.required
-                                  ? 'border-nexus-orange text-nexus-orange bg-nexus-orange/10'
-                                  : isDark ? 'border-zinc-600 text-zinc-500' : 'border-zinc-300 text-zinc-400',
-                              )}
-                            >
-                              {field.required ? 'Obrig.' : 'Opc.'}
-                            </button>
+                            {!LAYOUT_FIELD_TYPES.includes(field.type) && (
+                              <button
+                                onClick={() => updateField(field.id, { required: !field.required })}
+                                className={cn('text-xs px-2 py-0.5 rounded-full border transition-colors flex-shrink-0',
+                                  field.required
+                                    ? 'border-nexus-orange text-nexus-orange bg-nexus-orange/10'
+                                    : isDark ? 'border-zinc-600 text-zinc-500' : 'border-zinc-300 text-zinc-400',
+                                )}
+                              >
+                                {field.required ? 'Obrig.' : 'Opc.'}
+                              </button>
+                            )}
                             <button
                               onClick={() => setExpandedFieldId(isExpanded ? null : field.id)}
                               className={cn('p-1 rounded transition-colors', isDark ? 'hover:bg-zinc-700' : 'hover:bg-zinc-200')}
@@ -474,6 +506,7 @@ export function FormBuilder() {
                           {isExpanded && (
                             <FieldSettings
                               field={field}
+                              previousFields={form.fields.slice(0, idx)}
                               isDark={isDark}
                               inputCls={inputCls}
                               onChange={(updates) => updateField(field.id, updates)}
@@ -515,6 +548,7 @@ export function FormBuilder() {
                     { value: 'CREATOR', label: 'Quem criou o formulario', desc: 'Todos os leads vao para voce' },
                     { value: 'FIXED', label: 'Vendedor fixo', desc: 'Escolha um vendedor especifico' },
                     { value: 'ROUND_ROBIN', label: 'Round-robin', desc: 'Distribuicao rotativa entre vendedores' },
+                    { value: 'RULES', label: 'Regras de atribuicao', desc: 'Usa as regras globais (Configuracoes > Atribuicao)' },
                   ].map(opt => (
                     <button
                       key={opt.value}
@@ -730,20 +764,29 @@ export function FormBuilder() {
 // ─── Painel de configuracoes expandido do campo ───
 function FieldSettings({
   field,
+  previousFields,
   isDark,
   inputCls,
   onChange,
 }: {
   field: FormFieldDef;
+  previousFields: FormFieldDef[];
   isDark: boolean;
   inputCls: string;
   onChange: (updates: Partial<FormFieldDef>) => void;
 }) {
   const hasOptions = ['select', 'radio', 'checkbox'].includes(field.type);
-  const hasPlaceholder = !['heading', 'hidden', 'checkbox', 'radio'].includes(field.type);
+  const hasPlaceholder = !['heading', 'hidden', 'checkbox', 'radio', 'page'].includes(field.type);
   const hasMinMax = ['text', 'textarea', 'number', 'url'].includes(field.type);
   const isHeading = field.type === 'heading';
+  const isPage = field.type === 'page';
   const isHidden = field.type === 'hidden';
+  const isLayout = LAYOUT_FIELD_TYPES.includes(field.type);
+  // Campos sem destino fixo no lead podem alimentar um campo personalizado
+  const canMapCustomField = !isLayout && !field.mappedTo;
+  // Condicoes so podem depender de respostas anteriores ao campo
+  const conditionSources = previousFields.filter(f => !LAYOUT_FIELD_TYPES.includes(f.type));
+  const { data: leadCustomFields = [] } = useCustomFields('LEAD');
 
   const [optionInput, setOptionInput] = useState('');
 
@@ -764,7 +807,7 @@ function FieldSettings({
       {/* Label */}
       <div>
         <label className={cn('block text-xs font-medium mb-1', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
-          {isHeading ? 'Titulo da Secao' : 'Label do Campo'}
+          {isPage ? 'Titulo da Etapa' : isHeading ? 'Titulo da Secao' : 'Label do Campo'}
         </label>
         <input
           className={inputCls}
@@ -776,11 +819,11 @@ function FieldSettings({
       {/* Description / Help text */}
       <div>
         <label className={cn('block text-xs font-medium mb-1', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
-          {isHeading ? 'Subtitulo' : 'Texto de ajuda'} <span className="font-normal">(opcional)</span>
+          {isLayout ? 'Subtitulo' : 'Texto de ajuda'} <span className="font-normal">(opcional)</span>
         </label>
         <input
           className={inputCls}
-          placeholder={isHeading ? 'Subtitulo da secao...' : 'Ex: Preencha conforme seu documento'}
+          placeholder={isPage ? 'Subtitulo da etapa...' : isHeading ? 'Subtitulo da secao...' : 'Ex: Preencha conforme seu documento'}
           value={field.description || ''}
           onChange={e => onChange({ description: e.target.value || undefined })}
         />
@@ -812,6 +855,25 @@ function FieldSettings({
         </div>
       )}
 
+      {/* Campo personalizado do lead (definidos em Configuracoes → Campos) */}
+      {canMapCustomField && leadCustomFields.length > 0 && (
+        <div>
+          <label className={cn('block text-xs font-medium mb-1', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
+            Salvar no lead em <span className="font-normal">(opcional)</span>
+          </label>
+          <select
+            className={inputCls}
+            value={field.customFieldKey || ''}
+            onChange={e => onChange({ customFieldKey: e.target.value || undefined })}
+          >
+            <option value="">Apenas na submissao</option>
+            {leadCustomFields.map(cf => (
+              <option key={cf.id} value={cf.key}>{cf.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Options (select, radio, checkbox) */}
       {hasOptions && (
         <div>
@@ -875,7 +937,7 @@ function FieldSettings({
       )}
 
       {/* Half width toggle + Required toggle */}
-      {!isHeading && (
+      {!isLayout && (
         <div className="flex items-center gap-4 pt-1">
           <label className="flex items-center gap-2 cursor-pointer">
             <input
@@ -897,10 +959,242 @@ function FieldSettings({
           </label>
         </div>
       )}
+
+      {/* Exibicao condicional (campo ou etapa inteira) */}
+      <ConditionSettings
+        showIf={field.showIf}
+        sources={conditionSources}
+        isPage={isPage}
+        isDark={isDark}
+        inputCls={inputCls}
+        onChange={showIf => onChange({ showIf })}
+      />
+
+      {/* Pontuacao das respostas no score inicial do lead */}
+      {!isLayout && (
+        <ScoreRulesSettings
+          field={field}
+          isDark={isDark}
+          inputCls={inputCls}
+          onChange={scoreRules => onChange({ scoreRules })}
+        />
+      )}
     </div>
   );
 }
 
+// ─── Regra "exibir somente se" ───
+function ConditionSettings({
+  showIf,
+  sources,
+  isPage,
+  isDark,
+  inputCls,
+  onChange,
+}: {
+  showIf: FormFieldDef['showIf'];
+  sources: FormFieldDef[];
+  isPage: boolean;
+  isDark: boolean;
+  inputCls: string;
+  onChange: (showIf: FormFieldDef['showIf']) => void;
+}) {
+  const labelCls = cn('block text-xs font-medium mb-1', isDark ? 'text-zinc-400' : 'text-zinc-500');
+  const conditions = showIf?.conditions || [];
+
+  const setConditions = (next: FormCondition[]) => {
+    onChange(next.length ? { logic: showIf?.logic || 'all', conditions: next } : undefined);
+  };
+
+  const updateCondition = (index: number, updates: Partial<FormCondition>) => {
+    setConditions(conditions.map((c, i) => (i === index ? { ...c, ...updates } : c)));
+  };
+
+  const addCondition = () => {
+    if (sources.length === 0) return;
+    setConditions([...conditions, { fieldId: sources[sources.length - 1].id, operator: 'equals', value: '' }]);
+  };
+
+  return (
+    <div className={cn('border-t pt-3 space-y-2', isDark ? 'border-zinc-700' : 'border-zinc-200')}>
+      <div className="flex items-center justify-between">
+        <label className={cn(labelCls, 'mb-0 flex items-center gap-1')}>
+          <GitBranch size={12} /> {isPage ? 'Exibir etapa somente se' : 'Exibir somente se'}
+        </label>
+        {conditions.length > 1 && (
+          <select
+            className={cn(inputCls, 'w-auto py-1 px-2 text-xs')}
+            value={showIf?.logic || 'all'}
+            onChange={e => onChange({ logic: e.target.value as 'all' | 'any', conditions })}
+          >
+            <option value="all">Todas as condicoes</option>
+            <option value="any">Qualquer condicao</option>
+          </select>
+        )}
+      </div>
+
+      {sources.length === 0 ? (
+        <p className={cn('text-xs', isDark ? 'text-zinc-600' : 'text-zinc-400')}>
+          Adicione campos antes deste para criar condicoes.
+        </p>
+      ) : (
+        <>
+          {conditions.map((condition, i) => {
+            const source = sources.find(f => f.id === condition.fieldId);
+            const operator = CONDITION_OPERATORS.find(o => o.value === condition.operator);
+            return (
+              <div key={i} className="flex flex-wrap items-center gap-1.5">
+                <select
+                  className={cn(inputCls, 'flex-1 min-w-[8rem] py-1.5 text-xs')}
+                  value={condition.fieldId}
+                  onChange={e => updateCondition(i, { fieldId: e.target.value, value: '' })}
+                >
+                  {!source && <option value={condition.fieldId}>Campo removido</option>}
+                  {sources.map(f => (
+                    <option key={f.id} value={f.id}>{f.label}</option>
+                  ))}
+                </select>
+                <OperatorValueInputs
+                  source={source}
+                  rule={condition}
+                  needsValue={operator?.needsValue ?? true}
+                  inputCls={inputCls}
+                  onChange={updates => updateCondition(i, updates)}
+                />
+                <button onClick={() => setConditions(conditions.filter((_, j) => j !== i))} className="p-1 text-red-400 hover:text-red-500">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            );
+          })}
+          <button
+            onClick={addCondition}
+            className="flex items-center gap-1 text-xs text-purple-400 hover:text-purple-300 transition-colors"
+          >
+            <Plus size={12} /> Adicionar condicao
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ─── Regras de pontuacao da resposta ───
+function ScoreRulesSettings({
+  field,
+  isDark,
+  inputCls,
+  onChange,
+}: {
+  field: FormFieldDef;
+  isDark: boolean;
+  inputCls: string;
+  onChange: (scoreRules: FormScoreRule[] | undefined) => void;
+}) {
+  const rules = field.scoreRules || [];
+
+  const setRules = (next: FormScoreRule[]) => onChange(next.length ? next : undefined);
+
+  const updateRule = (index: number, updates: Partial<FormScoreRule>) => {
+    setRules(rules.map((r, i) => (i === index ? { ...r, ...updates } : r)));
+  };
+
+  return (
+    <div className={cn('border-t pt-3 space-y-2', isDark ? 'border-zinc-700' : 'border-zinc-200')}>
+      <label className={cn('text-xs font-medium flex items-center gap-1', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
+        <Target size={12} /> Pontuacao no score do lead
+      </label>
+      <p className={cn('text-xs', isDark ? 'text-zinc-600' : 'text-zinc-400')}>
+        Somada ao score inicial (total das respostas limitado a ±{FORM_SCORE_BONUS_LIMIT} pontos).
+      </p>
+
+      {rules.map((rule, i) => {
+        const operator = CONDITION_OPERATORS.find(o => o.value === rule.operator);
+        return (
+          <div key={i} className="flex flex-wrap items-center gap-1.5">
+            <span className={cn('text-xs', isDark ? 'text-zinc-400' : 'text-zinc-500')}>Se a resposta</span>
+            <OperatorValueInputs
+              source={field}
+              rule={rule}
+              needsValue={operator?.needsValue ?? true}
+              inputCls={inputCls}
+              onChange={updates => updateRule(i, updates)}
+            />
+            <input
+              type="number"
+              min={-50}
+              max={50}
+              className={cn(inputCls, 'w-20 py-1.5 text-xs')}
+              value={rule.points}
+              onChange={e => updateRule(i, { points: Math.max(-50, Math.min(50, parseInt(e.target.value) || 0)) })}
+            />
+            <span className={cn('text-xs', isDark ? 'text-zinc-400' : 'text-zinc-500')}>pts</span>
+            <button onClick={() => setRules(rules.filter((_, j) => j !== i))} className="p-1 text-red-400 hover:text-red-500">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        onClick={() => setRules([...rules, { operator: field.options?.length ? 'equals' : 'filled', value: '', points: 5 }])}
+        className="flex items-center gap-1 text-xs text-green-500 hover:text-green-400 transition-colors"
+      >
+        <Plus size={12} /> Adicionar regra
+      </button>
+    </div>
+  );
+}
+
+// ─── Operador + valor (compartilhado por condicoes e pontuacao) ───
+function OperatorValueInputs({
+  source,
+  rule,
+  needsValue,
+  inputCls,
+  onChange,
+}: {
+  source?: FormFieldDef;
+  rule: { operator: FormCondition['operator']; value?: string };
+  needsValue: boolean;
+  inputCls: string;
+  onChange: (updates: { operator?: FormCondition['operator']; value?: string }) => void;
+}) {
+  return (
+    <>
+      <select
+        className={cn(inputCls, 'w-auto py-1.5 text-xs')}
+        value={rule.operator}
+        onChange={e => onChange({ operator: e.target.value as FormCondition['operator'] })}
+      >
+        {CONDITION_OPERATORS.map(o => (
+          <option key={o.value} value={o.value}>{o.label}</option>
+        ))}
+      </select>
+      {needsValue && (
+        source?.options?.length ? (
+          <select
+            className={cn(inputCls, 'flex-1 min-w-[6rem] py-1.5 text-xs')}
+            value={rule.value || ''}
+            onChange={e => onChange({ value: e.target.value })}
+          >
+            <option value="">Selecione...</option>
+            {source.options.map(opt => (
+              <option key={opt} value={opt}>{opt}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            className={cn(inputCls, 'flex-1 min-w-[6rem] py-1.5 text-xs')}
+            placeholder="Valor"
+            value={rule.value || ''}
+            onChange={e => onChange({ value: e.target.value })}
+          />
+        )
+      )}
+    </>
+  );
+}
+
 // ─── Modal para criar campo personalizado ───
 function CustomFieldModal({
   isDark,
@@ -997,7 +1291,7 @@ function CustomFieldModal({
           </div>
 
           {/* Placeholder */}
-          {!['heading', 'hidden', 'checkbox', 'radio'].includes(fieldType) && (
+          {!['heading', 'hidden', 'checkbox', 'radio', 'page'].includes(fieldType) && (
             <div>
               <label className={cn('block text-xs font-medium mb-1.5', isDark ? 'text-zinc-400' : 'text-zinc-500')}>Placeholder</label>
               <input
@@ -1085,6 +1379,17 @@ function FormPreview({ form, isDark }: { form: FormState; isDark: boolean }) {
                 </div>
               );
             }
+            if (field.type === 'page') {
+              return (
+                <div key={field.id} className="col-span-2 flex items-center gap-2 pt-2">
+                  <div className="flex-1 border-t border-dashed border-nexus-orange/40" />
+                  <span className="flex items-center gap-1 text-[10px] font-medium text-nexus-orange">
+                    <Layers size={10} /> {field.label}
+                  </span>
+                  <div className="flex-1 border-t border-dashed border-nexus-orange/40" />
+                </div>
+              );
+            }
             if (field.type === 'hidden') return null;
             const colSpan = field.halfWidth ? '' : 'col-span-2';
             return (
@@ -2,9 +2,10 @@ import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
   ArrowLeft, ClipboardList, Users, Download, ExternalLink,
-  CheckCircle2, Clock, ChevronLeft, ChevronRight,
+  CheckCircle2, Clock, ChevronLeft, ChevronRight, Filter, Eye, MousePointerClick, Send,
 } from 'lucide-react';
-import { useForm, useFormSubmissions } from './hooks/useForms';
+import { useForm, useFormSubmissions, useFormAnalytics } from './hooks/useForms';
+import { FormSubmission } from './services/forms.api';
 import { useUIStore } from '@/stores/useUIStore';
 import { cn } from '@/utils/cn';
 
@@ -15,6 +16,18 @@ function formatDate(iso: string) {
   }).format(new Date(iso));
 }
 
+/** Origem exibida: domínio/utm_source + campanha; sem parâmetros = acesso direto */
+function sourceLabel(source?: string | null, campaign?: string | null) {
+  const base = source || 'Direto';
+  return campaign ? `${base} · ${campaign}` : base;
+}
+
+function formatRate(rate: number | null) {
+  return rate === null ? '—' : `${rate.toLocaleString('pt-BR')}%`;
+}
+
+const ANALYTICS_PERIODS = [7, 30, 90];
+
 const STATUS_LABELS: Record<string, { label: string; color: string }> = {
   NOVO: { label: 'Novo', color: 'bg-blue-500/10 text-blue-400' },
   CONTATO: { label: 'Em contato', color: 'bg-yellow-500/10 text-yellow-400' },
@@ -36,21 +49,25 @@ export function FormSubmissions() {
   const submissions = data?.submissions || [];
   const total = data?.total || 0;
   const totalPages = Math.ceil(total / 25);
+  // Titulos e quebras de pagina nao guardam resposta
+  const answerFields = (form?.fields || []).filter((f) => f.type !== 'heading' && f.type !== 'page');
 
   function exportCsv() {
     if (!submissions.length || !form) return;
-    const fieldIds = (form.fields || []).map((f) => f.id);
-    const fieldLabels = (form.fields || []).map((f) => f.label);
+    const fieldIds = answerFields.map((f) => f.id);
+    const fieldLabels = answerFields.map((f) => f.label);
 
-    const header = ['Data', ...fieldLabels, 'Lead Criado', 'Status Lead'].join(';');
+    const header = ['Data', ...fieldLabels, 'Origem', 'Mídia', 'Campanha', 'Lead Criado', 'Status Lead'].join(';');
     const rows = submissions.map((s) => {
       const values = fieldIds.map((fid) => `"${(s.data[fid] || '').replace(/"/g, '""')}"`);
       const leadStatus = s.lead?.status
         ? (STATUS_LABELS[s.lead.status]?.label || s.lead.status)
         : '—';
+      const attribution = [s.source, s.utmMedium, s.utmCampaign].map((v) => `"${(v || '').replace(/"/g, '""')}"`);
       return [
         `"${formatDate(s.createdAt)}"`,
         ...values,
+        ...attribution,
         s.lead ? 'Sim' : 'Não',
         leadStatus,
       ].join(';');
@@ -135,6 +152,9 @@ export function FormSubmissions() {
         ))}
       </div>
 
+      {/* Funil + origens */}
+      {id && <FormAnalyticsPanel formId={id} isDark={isDark} />}
+
       {/* Table */}
       <div className={cn('rounded-2xl border overflow-hidden', isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200')}>
         {isLoading ? (
@@ -157,7 +177,7 @@ export function FormSubmissions() {
                   ? (STATUS_LABELS[sub.lead.status] || { label: sub.lead.status, color: 'bg-zinc-500/10 text-zinc-400' })
                   : null;
                 // Show first 2 visible fields
-                const previewFields = (form?.fields || []).slice(0, 2);
+                const previewFields = answerFields.slice(0, 2);
                 return (
                   <div key={sub.id} className="px-4 py-3 space-y-1.5">
                     <div className="flex items-center justify-between">
@@ -173,6 +193,7 @@ export function FormSubmissions() {
                         )}
                       </div>
                     </div>
+                    <div><SourceBadge submission={sub} isDark={isDark} /></div>
                     {previewFields.map((f) => (
                       <div key={f.id}>
                         <span className={cn('text-[10px] font-medium', isDark ? 'text-zinc-500' : 'text-zinc-400')}>{f.label}: </span>
@@ -199,9 +220,10 @@ export function FormSubmissions() {
                 <thead>
                   <tr className={cn('text-xs font-semibold uppercase tracking-wide border-b', isDark ? 'border-zinc-800 text-zinc-500' : 'border-zinc-100 text-zinc-400')}>
                     <th className="px-5 py-3 text-left">Data</th>
-                    {(form?.fields || []).map((f) => (
+                    {answerFields.map((f) => (
                       <th key={f.id} className="px-4 py-3 text-left whitespace-nowrap">{f.label}</th>
                     ))}
+                    <th className="px-4 py-3 text-left">Origem</th>
                     <th className="px-4 py-3 text-center">Lead</th>
                     <th className="px-4 py-3 text-center">Status</th>
                     <th className="px-4 py-3 text-center">Ações</th>
@@ -222,13 +244,16 @@ export function FormSubmissions() {
                             {formatDate(sub.createdAt)}
                           </span>
                         </td>
-                        {(form?.fields || []).map((f) => (
+                        {answerFields.map((f) => (
                           <td key={f.id} className="px-4 py-3 max-w-xs">
                             <span className={cn('text-xs truncate block', isDark ? 'text-zinc-300' : 'text-zinc-700')}>
                               {sub.data[f.id] || <span className="text-zinc-500">—</span>}
                             </span>
                           </td>
                         ))}
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <SourceBadge submission={sub} isDark={isDark} />
+                        </td>
                         <td className="px-4 py-3 text-center">
                           {sub.lead ? (
                             <CheckCircle2 size={16} className="inline text-green-500" />
@@ -293,3 +318,141 @@ export function FormSubmissions() {
     </div>
   );
 }
+
+// ─── Origem da submissao ───
+function SourceBadge({ submission, isDark }: { submission: FormSubmission; isDark: boolean }) {
+  const clickId = submission.gclid ? 'Google Ads' : submission.fbclid ? 'Meta Ads' : null;
+  return (
+    <span
+      className={cn('text-xs', isDark ? 'text-zinc-400' : 'text-zinc-500')}
+      title={[submission.utmMedium && `Mídia: ${submission.utmMedium}`, submission.referrer && `Referrer: ${submission.referrer}`]
+        .filter(Boolean)
+        .join('\n') || undefined}
+    >
+      {sourceLabel(submission.source, submission.utmCampaign)}
+      {clickId && <span className="ml-1.5 text-[10px] font-medium text-nexus-orange">{clickId}</span>}
+    </span>
+  );
+}
+
+// ─── Funil de conversao e origens ───
+function FormAnalyticsPanel({ formId, isDark }: { formId: string; isDark: boolean }) {
+  const [days, setDays] = useState(30);
+  const { data, isLoading } = useFormAnalytics(formId, days);
+
+  const funnel = data?.funnel;
+  const steps = funnel
+    ? [
+        { label: 'Visualizações', value: funnel.views, rate: null, icon: Eye },
+        { label: 'Inícios', value: funnel.starts, rate: funnel.startRate, icon: MousePointerClick },
+        { label: 'Envios', value: funnel.submissions, rate: funnel.completionRate, icon: Send },
+        { label: 'Leads', value: funnel.leads, rate: null, icon: Users },
+      ]
+    : [];
+  const maxValue = Math.max(1, ...steps.map((s) => s.value));
+
+  return (
+    <div className={cn('rounded-2xl border p-4 md:p-5 mb-4 md:mb-6 space-y-5', isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200')}>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="font-semibold text-sm flex items-center gap-2">
+            <Filter size={15} className="text-nexus-orange" />
+            Funil de Conversão
+          </h2>
+          {funnel && (
+            <p className={cn('text-xs mt-0.5', isDark ? 'text-zinc-500' : 'text-zinc-400')}>
+              Conversão (visualização → envio): <span className="font-semibold text-nexus-orange">{formatRate(funnel.conversionRate)}</span>
+            </p>
+          )}
+        </div>
+        <div className={cn('flex rounded-lg p-0.5', isDark ? 'bg-zinc-800' : 'bg-zinc-100')}>
+          {ANALYTICS_PERIODS.map((d) => (
+            <button
+              key={d}
+              onClick={() => setDays(d)}
+              className={cn(
+                'px-2.5 py-1 rounded-md text-xs font-medium transition-colors',
+                days === d
+                  ? 'bg-nexus-orange text-white'
+                  : isDark ? 'text-zinc-400 hover:text-zinc-200' : 'text-zinc-500 hover:text-zinc-700',
+              )}
+            >
+              {d}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading || !data ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <>
+          {/* Funil */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {steps.map((step) => (
+              <div key={step.label} className={cn('rounded-xl p-3 border', isDark ? 'border-zinc-800 bg-zinc-800/30' : 'border-zinc-100 bg-zinc-50')}>
+                <div className="flex items-center gap-1.5 mb-1">
+                  <step.icon size={13} className="text-nexus-orange" />
+                  <span className={cn('text-xs', isDark ? 'text-zinc-400' : 'text-zinc-500')}>{step.label}</span>
+                </div>
+                <p className="text-lg font-bold">{step.value.toLocaleString('pt-BR')}</p>
+                <div className={cn('h-1.5 rounded-full mt-2 overflow-hidden', isDark ? 'bg-zinc-800' : 'bg-zinc-200')}>
+                  <div className="h-full bg-nexus-orange rounded-full" style={{ width: `${(step.value / maxValue) * 100}%` }} />
+                </div>
+                {step.rate !== null && (
+                  <p className={cn('text-[10px] mt-1', isDark ? 'text-zinc-500' : 'text-zinc-400')}>
+                    {formatRate(step.rate)} da etapa anterior
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Origens */}
+          <div>
+            <p className={cn('text-xs font-medium mb-2', isDark ? 'text-zinc-400' : 'text-zinc-500')}>Origem das visitas</p>
+            {data.sources.length === 0 ? (
+              <p className={cn('text-xs', isDark ? 'text-zinc-600' : 'text-zinc-400')}>
+                Nenhuma visita no período. Use links com utm_source/utm_campaign para identificar cada anúncio.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className={cn('font-semibold uppercase tracking-wide border-b', isDark ? 'border-zinc-800 text-zinc-500' : 'border-zinc-100 text-zinc-400')}>
+                      <th className="py-2 pr-3 text-left">Origem</th>
+                      <th className="py-2 px-3 text-left">Mídia</th>
+                      <th className="py-2 px-3 text-left">Campanha</th>
+                      <th className="py-2 px-3 text-right">Visualizações</th>
+                      <th className="py-2 px-3 text-right">Envios</th>
+                      <th className="py-2 px-3 text-right">Leads</th>
+                      <th className="py-2 pl-3 text-right">Conversão</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.sources.map((row) => (
+                      <tr
+                        key={`${row.source}|${row.medium}|${row.campaign}`}
+                        className={cn('border-t', isDark ? 'border-zinc-800' : 'border-zinc-100')}
+                      >
+                        <td className="py-2 pr-3 font-medium">{row.source || 'Direto'}</td>
+                        <td className={cn('py-2 px-3', isDark ? 'text-zinc-400' : 'text-zinc-500')}>{row.medium || '—'}</td>
+                        <td className={cn('py-2 px-3', isDark ? 'text-zinc-400' : 'text-zinc-500')}>{row.campaign || '—'}</td>
+                        <td className="py-2 px-3 text-right">{row.views}</td>
+                        <td className="py-2 px-3 text-right">{row.submissions}</td>
+                        <td className="py-2 px-3 text-right">{row.leads}</td>
+                        <td className="py-2 pl-3 text-right font-medium text-nexus-orange">{formatRate(row.conversionRate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -64,3 +64,10 @@ export const useFormSubmissions = (formId: string, page = 1, limit = 50) =>
     queryFn: () => formsApi.getSubmissions(formId, page, limit),
     enabled: !!formId,
   });
+
+export const useFormAnalytics = (formId: string, days = 30) =>
+  useQuery({
+    queryKey: ['forms', formId, 'analytics', days],
+    queryFn: () => formsApi.getAnalytics(formId, days),
+    enabled: !!formId,
+  });
@@ -5,7 +5,29 @@ const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001/api/v1';
 
 export type FieldType =
   | 'text' | 'email' | 'phone' | 'cnpj' | 'cep' | 'select' | 'textarea'
-  | 'number' | 'state' | 'date' | 'url' | 'radio' | 'checkbox' | 'heading' | 'hidden';
+  | 'number' | 'state' | 'date' | 'url' | 'radio' | 'checkbox' | 'heading' | 'hidden' | 'page';
+
+export type ConditionOperator =
+  | 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'filled' | 'empty' | 'gt' | 'lt';
+
+export interface FormCondition {
+  fieldId: string;
+  operator: ConditionOperator;
+  value?: string;
+}
+
+/** Exibe o campo (ou a página inteira) apenas quando as condições são atendidas */
+export interface FormShowIf {
+  logic: 'all' | 'any';
+  conditions: FormCondition[];
+}
+
+/** Pontos somados ao score inicial do lead quando a resposta atende a regra */
+export interface FormScoreRule {
+  operator: ConditionOperator;
+  value?: string;
+  points: number;
+}
 
 export interface FormFieldDef {
   id: string;
@@ -16,15 +38,18 @@ export interface FormFieldDef {
   required: boolean;
   options?: string[];
   mappedTo?: 'name' | 'email' | 'phone' | 'cpfCnpj' | 'companyName' | 'city' | 'role' | 'notes';
+  customFieldKey?: string; // Campo personalizado do lead (CustomFieldDef.key)
   order: number;
   minLength?: number;
   maxLength?: number;
   halfWidth?: boolean;
   defaultValue?: string;
+  showIf?: FormShowIf;
+  scoreRules?: FormScoreRule[];
 }
 
 export type FormPurpose = 'CAMPAIGN' | 'EMBED';
-export type VendorAssignmentMode = 'FIXED' | 'CREATOR' | 'ROUND_ROBIN';
+export type VendorAssignmentMode = 'FIXED' | 'CREATOR' | 'ROUND_ROBIN' | 'RULES';
 
 export interface Form {
   id: string;
@@ -64,12 +89,35 @@ export interface CreateFormPayload {
   slug?: string;
 }
 
+/** UTM, click IDs e referrer da visita (lidos da URL do formulário público) */
+export interface FormAttribution {
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  utmTerm?: string;
+  utmContent?: string;
+  referrer?: string;
+  gclid?: string;
+  fbclid?: string;
+}
+
+export type FormEventType = 'VIEW' | 'START';
+
 export interface FormSubmission {
   id: string;
   formId: string;
   leadId?: string | null;
   data: Record<string, string>;
   ipAddress?: string | null;
+  source?: string | null;
+  utmSource?: string | null;
+  utmMedium?: string | null;
+  utmCampaign?: string | null;
+  utmTerm?: string | null;
+  utmContent?: string | null;
+  referrer?: string | null;
+  gclid?: string | null;
+  fbclid?: string | null;
   createdAt: string;
   lead?: {
     id: string;
@@ -81,6 +129,29 @@ export interface FormSubmission {
   } | null;
 }
 
+export interface FormAnalytics {
+  days: number;
+  since: string;
+  funnel: {
+    views: number;
+    starts: number;
+    submissions: number;
+    leads: number;
+    startRate: number | null;
+    completionRate: number | null;
+    conversionRate: number | null;
+  };
+  sources: {
+    source: string | null;
+    medium: string | null;
+    campaign: string | null;
+    views: number;
+    submissions: number;
+    leads: number;
+    conversionRate: number | null;
+  }[];
+}
+
 export const formsApi = {
   // Autenticados
   getAll: async (): Promise<Form[]> => {
@@ -116,6 +187,11 @@ export const formsApi = {
     return data;
   },
 
+  getAnalytics: async (id: string, days = 30): Promise<FormAnalytics> => {
+    const { data } = await api.get<FormAnalytics>(`/forms/${id}/analytics`, { params: { days } });
+    return data;
+  },
+
   // Públicos — sem interceptor de auth
   getPublic: async (slug: string): Promise<Pick<Form, 'id' | 'name' | 'description' | 'purpose' | 'productType' | 'fields' | 'successMessage' | 'isActive'>> => {
     const { data } = await axios.get(`${API_BASE}/forms/public/${slug}`);
@@ -125,8 +201,16 @@ export const formsApi = {
   submit: async (
     slug: string,
     formData: Record<string, string>,
+    tracking?: { sessionId: string; attribution: FormAttribution },
   ): Promise<{ success: boolean; message: string }> => {
-    const { data } = await axios.post(`${API_BASE}/forms/public/${slug}/submit`, { data: formData });
+    const { data } = await axios.post(`${API_BASE}/forms/public/${slug}/submit`, { data: formData, ...tracking });
     return data;
   },
+
+  trackEvent: async (
+    slug: string,
+    payload: { type: FormEventType; sessionId: string; attribution: FormAttribution },
+  ): Promise<void> => {
+    await axios.post(`${API_BASE}/forms/public/${slug}/events`, payload);
+  },
 };
@@ -0,0 +1,137 @@
+import type { ConditionOperator, FormCondition, FormFieldDef } from '../services/forms.api';
+
+/**
+ * Lógica condicional dos formulários (espelho de apps/api/src/modules/forms/form-logic.ts)
+ * O servidor repete a mesma avaliação na submissão — manter as duas versões iguais.
+ */
+
+export const CONDITION_OPERATORS: { value: ConditionOperator; label: string; needsValue: boolean }[] = [
+  { value: 'equals', label: 'é igual a', needsValue: true },
+  { value: 'not_equals', label: 'é diferente de', needsValue: true },
+  { value: 'contains', label: 'contém', needsValue: true },
+  { value: 'not_contains', label: 'não contém', needsValue: true },
+  { value: 'filled', label: 'está preenchido', needsValue: false },
+  { value: 'empty', label: 'está vazio', needsValue: false },
+  { value: 'gt', label: 'é maior que', needsValue: true },
+  { value: 'lt', label: 'é menor que', needsValue: true },
+];
+
+/** Limite do ajuste de score vindo das respostas (para mais ou para menos) */
+export const FORM_SCORE_BONUS_LIMIT = 20;
+
+export interface FormStep {
+  page: FormFieldDef | null; // null = campos antes da primeira quebra de página
+  title: string | null;
+  fields: FormFieldDef[];
+}
+
+export function sortFields(fields: FormFieldDef[]): FormFieldDef[] {
+  return [...fields].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Testa uma resposta contra uma condição/regra
+ * Checkbox guarda as opções separadas por vírgula — contém/não contém testam a lista
+ */
+export function matchesCondition(
+  field: FormFieldDef | undefined,
+  rule: Pick<FormCondition, 'operator' | 'value'>,
+  answer: string | undefined,
+): boolean {
+  const raw = (answer ?? '').trim();
+  const expected = (rule.value ?? '').trim().toLowerCase();
+  const normalized = raw.toLowerCase();
+
+  const includes = () =>
+    field?.type === 'checkbox'
+      ? normalized.split(',').map((v) => v.trim()).includes(expected)
+      : normalized.includes(expected);
+
+  const compare = (fn: (a: number, b: number) => boolean) => {
+    const a = parseFloat(raw.replace(',', '.'));
+    const b = parseFloat(expected.replace(',', '.'));
+    return !isNaN(a) && !isNaN(b) && fn(a, b);
+  };
+
+  switch (rule.operator) {
+    case 'equals':
+      return normalized === expected;
+    case 'not_equals':
+      return normalized !== expected;
+    case 'contains':
+      return !!expected && includes();
+    case 'not_contains':
+      return !expected || !includes();
+    case 'filled':
+      return raw !== '';
+    case 'empty':
+      return raw === '';
+    case 'gt':
+      return compare((a, b) => a > b);
+    case 'lt':
+      return compare((a, b) => a < b);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Resolve quais campos estão visíveis para as respostas atuais
+ * Condição sobre campo oculto considera a resposta vazia; campos de página oculta ficam ocultos
+ */
+export function resolveVisibleFieldIds(fields: FormFieldDef[], answers: Record<string, string>): Set<string> {
+  const byId = new Map(fields.map((f) => [f.id, f]));
+  const pageOf = new Map<string, FormFieldDef>();
+  let currentPage: FormFieldDef | null = null;
+  for (const field of sortFields(fields)) {
+    if (field.type === 'page') currentPage = field;
+    else if (currentPage) pageOf.set(field.id, currentPage);
+  }
+
+  const cache = new Map<string, boolean>();
+  const resolving = new Set<string>();
+
+  const isVisible = (field: FormFieldDef): boolean => {
+    const cached = cache.get(field.id);
+    if (cached !== undefined) return cached;
+    if (resolving.has(field.id)) return true; // referência circular
+    resolving.add(field.id);
+
+    const page = pageOf.get(field.id);
+    let visible = page ? isVisible(page) : true;
+
+    if (visible && field.showIf && field.showIf.conditions.length > 0) {
+      const results = field.showIf.conditions.map((condition) => {
+        const source = byId.get(condition.fieldId);
+        const answer = source && isVisible(source) ? answers[source.id] : '';
+        return matchesCondition(source, condition, answer);
+      });
+      visible = field.showIf.logic === 'any' ? results.some(Boolean) : results.every(Boolean);
+    }
+
+    resolving.delete(field.id);
+    cache.set(field.id, visible);
+    return visible;
+  };
+
+  return new Set(fields.filter(isVisible).map((f) => f.id));
+}
+
+/**
+ * Divide o formulário em etapas (quebras de página) considerando só o que está visível
+ */
+export function buildFormSteps(fields: FormFieldDef[], answers: Record<string, string>): FormStep[] {
+  const visible = resolveVisibleFieldIds(fields, answers);
+  const steps: FormStep[] = [{ page: null, title: null, fields: [] }];
+
+  for (const field of sortFields(fields)) {
+    if (!visible.has(field.id)) continue;
+    if (field.type === 'page') {
+      steps.push({ page: field, title: field.label, fields: [] });
+    } else {
+      steps[steps.length - 1].fields.push(field);
+    }
+  }
+
+  return steps.length > 1 && steps[0].fields.length === 0 ? steps.slice(1) : steps;
+}
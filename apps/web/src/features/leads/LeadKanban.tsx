@@ -49,7 +49,14 @@ import {
   ChevronLeft,
   ChevronRight,
   Briefcase,
-  GripVertical
+  GripVertical,
+  BarChart3,
+  Copy,
+  Upload,
+  Download,
+  Tag,
+  Mail,
+  Paperclip
 } from 'lucide-react';
 import { useUIStore } from '@/stores/useUIStore';
 import {
@@ -65,15 +72,40 @@ import {
   useVendedores,
   usePlans,
   useLeadOrigins,
+  useLossReasons,
+  useSlaBreaches,
+  useDuplicateQueue,
+  useExportLeads,
+  useDownloadEmailAttachment,
 } from './hooks/useLeads';
 import type { Lead as ApiLead, FunnelStage } from './types';
-import type { CreateLeadDto, UpdateLeadDto, ProductType } from './types';
+import type { CreateLeadDto, UpdateLeadDto, ProductType, DuplicateMatchResult } from './types';
 import { LeadStatus } from './types';
 import { CityCombobox } from './components/CityCombobox';
 import { ConvertLeadModal } from './components/ConvertLeadModal';
 import { LeadScoreBadge } from './components/LeadScoreBadge';
-import { leadsApi } from './services/leads.api';
+import { LeadAISessions } from './components/LeadAISessions';
+import { SentEmailsList } from '@/features/settings/components/email/SentEmailsList';
+import { mapStageNameToLeadStage } from '@/hooks/useSalesAI';
+import { LeadStageTimeline } from './components/LeadStageTimeline';
+import { FunnelVelocityReport } from './components/FunnelVelocityReport';
+import { LeadDuplicatesPanel, DUPLICATE_REASON_LABELS } from './components/LeadDuplicatesPanel';
+import { DuplicatesQueueModal } from './components/DuplicatesQueueModal';
+import { ImportLeadsModal } from './components/ImportLeadsModal';
+import { LeadBulkActionsBar } from './components/LeadBulkActionsBar';
+import { TagsInput } from '@/features/settings/components/fields/TagsInput';
+import { CustomFieldsEditor } from '@/features/settings/components/fields/CustomFieldsEditor';
+import {
+  TagFieldFilters,
+  EMPTY_TAG_FIELD_FILTERS,
+  toTagFieldParams,
+  TagFieldFilterValue,
+} from '@/features/settings/components/fields/TagFieldFilters';
+import { leadsApi, leadDuplicatesApi } from './services/leads.api';
 import { toast } from 'sonner';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Module, UserRole } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
 
 /**
  * ══════════════════════════════════════════════════════════════════════════
@@ -94,6 +126,11 @@ interface Interaction {
   date: string;
   author: string;
   text: string;
+  /** E-mail recebido pela caixa de captura */
+  inboundEmail?: {
+    from: string;
+    attachments: { id: string; fileName: string; size: number }[];
+  };
 }
 
 interface Lead {
@@ -122,6 +159,10 @@ interface Lead {
   interactions: Interaction[];
   instagram?: string;
   facebook?: string;
+  lossReason?: string; // Motivo de perda (só leads PERDIDO)
+  lossNotes?: string;
+  tags: string[];
+  customFields: Record<string, string | number>;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -154,17 +195,7 @@ const ROLES = [
   "Recepcionista"
 ];
 
-const LOSS_REASONS = [
-  "Preço muito elevado",
-  "Falta de funcionalidades chave",
-  "Escolheu o concorrente",
-  "Projeto cancelado/adiado",
-  "Sem retorno do lead",
-  "Lead sem perfil (Qualificação)",
-  "Outros"
-];
-
-// NOTA: VENDEDORES, PLANS, ORIGINS removidos - agora vêm do backend via hooks
+// NOTA: VENDEDORES, PLANS, ORIGINS, LOSS_REASONS removidos - agora vêm do backend via hooks
 
 // ═══════════════════════════════════════════════════════════════════════════
 // FUNÇÕES AUXILIARES
@@ -249,6 +280,34 @@ const RoleTag: React.FC<{ role: string }> = ({ role }) => {
   );
 };
 
+// Etiquetas nos cards (as 3 primeiras; o restante vira contador)
+const LeadTags: React.FC<{ tags: string[] }> = ({ tags }) => {
+  if (tags.length === 0) return null;
+  return (
+    <>
+      {tags.slice(0, 3).map(tag => (
+        <span key={tag} className="px-1.5 py-0.5 rounded text-[9px] font-bold border bg-sky-500/10 text-sky-500 border-sky-500/20 truncate max-w-[120px]">
+          #{tag}
+        </span>
+      ))}
+      {tags.length > 3 && <span className="text-[9px] font-bold text-zinc-500">+{tags.length - 3}</span>}
+    </>
+  );
+};
+
+// Checkbox de seleção para ações em lote (não abre o modal nem inicia o drag)
+const SelectCheckbox: React.FC<{ checked: boolean; onToggle: () => void; title?: string }> = ({ checked, onToggle, title }) => (
+  <input
+    type="checkbox"
+    checked={checked}
+    onChange={onToggle}
+    onClick={e => e.stopPropagation()}
+    onPointerDown={e => e.stopPropagation()}
+    title={title || 'Selecionar lead'}
+    className="w-4 h-4 shrink-0 cursor-pointer accent-nexus-orange"
+  />
+);
+
 // ═══════════════════════════════════════════════════════════════════════════
 // COMPONENTE: LeadFormModal
 // ═══════════════════════════════════════════════════════════════════════════
@@ -260,7 +319,7 @@ const LeadFormModal: React.FC<{
   onSave: (lead: Lead) => void;
   onDelete?: (id: string) => void;
   onConvert?: (lead: Lead) => void;
-  onMarkLost?: (lead: Lead, reason: string) => void;
+  onMarkLost?: (lead: Lead, lossReasonId: string, lossNotes?: string) => void;
   stages: string[];
   vendedores: Array<{ id: string; name: string; email: string; role: string }>;
   plans: Array<{ id: string; name: string; code: string; product: string; priceMonthly?: number; isActive: boolean }>;
@@ -275,14 +334,19 @@ const LeadFormModal: React.FC<{
       origin: leadOrigins[0]?.name || '',
       assignedTo: vendedores[0]?.name || '',
       daysInStage: 0, notes: [], interactions: [],
-      instagram: '', facebook: ''
+      instagram: '', facebook: '', tags: [], customFields: {}
     }
   );
   const [newNote, setNewNote] = useState('');
   const [showLossReason, setShowLossReason] = useState(false);
   const addInteractionMutation = useAddInteraction();
+  const downloadAttachmentMutation = useDownloadEmailAttachment();
   const isExistingLead = !!(lead?.id && lead.id.startsWith('cm'));
-  const [selectedLossReason, setSelectedLossReason] = useState(LOSS_REASONS[0]);
+  const { can } = usePermissions();
+  const { user } = useAuth();
+  const { data: lossReasons = [] } = useLossReasons();
+  const [selectedLossReason, setSelectedLossReason] = useState('');
+  const [lossNotes, setLossNotes] = useState('');
 
   // Estado de erros de validação
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -300,6 +364,9 @@ const LeadFormModal: React.FC<{
     message: string;
   }>({ show: false, type: null, message: '' });
 
+  // Possíveis duplicados do lead em cadastro (alerta, não bloqueia o salvamento)
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatchResult[]>([]);
+
   // ✅ v2.35.0: FIX - Sincronizar formData quando prop 'lead' mudar
   // Problema: useState só executa na montagem inicial. Se lead mudar (null → lead selecionado),
   // o formData não era atualizado, então campos como instagram/facebook ficavam vazios no modal de edição.
@@ -322,7 +389,7 @@ const LeadFormModal: React.FC<{
         origin: leadOrigins[0]?.name || '',
         assignedTo: vendedores[0]?.name || '',
         daysInStage: 0, notes: [], interactions: [],
-        instagram: '', facebook: ''
+        instagram: '', facebook: '', tags: [], customFields: {}
       });
     }
   }, [lead]); // Reexecutar quando 'lead' mudar
@@ -458,6 +525,25 @@ const LeadFormModal: React.FC<{
     }
   };
 
+  // Checagem de duplicados por email, telefone, CNPJ e empresa ao sair dos campos
+  const handleDuplicateCheck = async () => {
+    if (isExistingLead) return;
+
+    const payload = {
+      email: formData.email?.trim() || undefined,
+      phone: formData.phone?.trim() || undefined,
+      cpfCnpj: formData.cnpj?.replace(/\D/g, '') || undefined,
+      companyName: formData.clinic?.trim() || undefined,
+    };
+    if (!Object.values(payload).some(Boolean)) return;
+
+    try {
+      setDuplicateMatches(await leadDuplicatesApi.check(payload));
+    } catch {
+      // Validação silenciosa - não mostrar erro ao usuário
+    }
+  };
+
   const handleAddInteraction = () => {
     if (!newNote.trim()) return;
 
@@ -499,8 +585,9 @@ const LeadFormModal: React.FC<{
   };
 
   const handleLostSubmit = () => {
-    if (lead) {
-      onMarkLost?.(lead, selectedLossReason);
+    const lossReasonId = selectedLossReason || lossReasons[0]?.id;
+    if (lead && lossReasonId) {
+      onMarkLost?.(lead, lossReasonId, lossNotes.trim() || undefined);
       setShowLossReason(false);
     }
   };
@@ -528,6 +615,16 @@ const LeadFormModal: React.FC<{
           <div className="flex-1 overflow-y-auto p-4 md:p-8 pb-8 md:pb-8 scrollbar-thin">
             <form id="leadForm" onSubmit={handleSubmit} className="space-y-10">
 
+              {lead?.status === LeadStatus.PERDIDO && lead.lossReason && (
+                <div className="flex items-start gap-3 p-4 rounded-2xl border border-red-500/20 bg-red-500/5">
+                  <XCircle size={18} className="text-red-500 shrink-0 mt-0.5" />
+                  <div className="text-sm">
+                    <p className="font-bold text-red-500">Perdido: {lead.lossReason}</p>
+                    {lead.lossNotes && <p className="text-xs text-zinc-500 mt-1 whitespace-pre-line">{lead.lossNotes}</p>}
+                  </div>
+                </div>
+              )}
+
               {/* Seção 1: Dados Pessoais & Contato */}
               <section>
                 <div className="flex items-center gap-2 mb-3 md:mb-6 border-b border-zinc-800/10 dark:border-zinc-800 pb-2">
@@ -579,6 +676,7 @@ const LeadFormModal: React.FC<{
                         setFormData({...formData, email: e.target.value});
                         if (errors.email) setErrors({...errors, email: ''});
                       }}
+                      onBlur={handleDuplicateCheck}
                       placeholder="joao@clinica.com"
                     />
                     {errors.email && (
@@ -608,6 +706,7 @@ const LeadFormModal: React.FC<{
                         setFormData({...formData, phone: formatted});
                         if (errors.phone) setErrors({...errors, phone: ''});
                       }}
+                      onBlur={handleDuplicateCheck}
                       placeholder="(11) 99999-9999"
                       maxLength={15}
                     />
@@ -659,6 +758,19 @@ const LeadFormModal: React.FC<{
                     isDark={isDark}
                   />
                 </div>
+                {!isExistingLead && duplicateMatches.length > 0 && (
+                  <div className="mt-4 p-3 rounded-xl border border-amber-500/30 bg-amber-500/5 text-xs space-y-1">
+                    <p className="font-bold text-amber-500 flex items-center gap-1.5">
+                      <Copy size={14} /> Possível lead duplicado
+                    </p>
+                    {duplicateMatches.map((match) => (
+                      <p key={match.lead.id} className={isDark ? 'text-zinc-300' : 'text-zinc-600'}>
+                        {match.lead.companyName || match.lead.name} · {match.lead.stage.name} · {match.lead.vendedor?.name || 'Sem vendedor'}
+                        <span className="text-zinc-500"> ({match.reasons.map((r) => DUPLICATE_REASON_LABELS[r]).join(', ')})</span>
+                      </p>
+                    ))}
+                  </div>
+                )}
               </section>
 
               {/* Seção 2: Dados da Empresa */}
@@ -685,6 +797,7 @@ const LeadFormModal: React.FC<{
                         setFormData({...formData, clinic: e.target.value});
                         if (errors.clinic) setErrors({...errors, clinic: ''});
                       }}
+                      onBlur={handleDuplicateCheck}
                       placeholder="Ex: Clínica Estética Bella Vita"
                     />
                     {errors.clinic && (
@@ -712,7 +825,10 @@ const LeadFormModal: React.FC<{
                         if (errors.cnpj) setErrors({...errors, cnpj: ''});
                         if (cnpjWarning.show) setCnpjWarning({ show: false, type: null, message: '' });
                       }}
-                      onBlur={e => handleCnpjBlur(e.target.value)}
+                      onBlur={e => {
+                        handleCnpjBlur(e.target.value);
+                        handleDuplicateCheck();
+                      }}
                       placeholder="00.000.000/0001-00"
                       maxLength={18}
                     />
@@ -871,6 +987,29 @@ const LeadFormModal: React.FC<{
                   </div>
                 </div>
               </section>
+
+              {/* Seção 4: Etiquetas & Campos Personalizados (definidos em Configurações → Campos) */}
+              <section>
+                <div className="flex items-center gap-2 mb-3 md:mb-6 border-b border-zinc-800/10 dark:border-zinc-800 pb-2">
+                  <Tag size={16} className="text-nexus-orange" />
+                  <h3 className="text-xs font-bold text-zinc-400 uppercase tracking-widest">Etiquetas & Campos Personalizados</h3>
+                </div>
+                <div className="space-y-4">
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-zinc-500 uppercase ml-1">Etiquetas</label>
+                    <TagsInput
+                      entity="LEAD"
+                      value={formData.tags || []}
+                      onChange={tags => setFormData({ ...formData, tags })}
+                    />
+                  </div>
+                  <CustomFieldsEditor
+                    entity="LEAD"
+                    value={formData.customFields || {}}
+                    onChange={customFields => setFormData({ ...formData, customFields })}
+                  />
+                </div>
+              </section>
             </form>
           </div>
 
@@ -910,10 +1049,31 @@ const LeadFormModal: React.FC<{
                  (formData.interactions || []).map(it => (
                     <div key={it.id} className={`p-4 rounded-2xl border relative animate-in slide-in-from-right-4 duration-300 ${isDark ? 'bg-zinc-800/40 border-zinc-800' : 'bg-white border-zinc-200 shadow-sm'}`}>
                       <div className="flex justify-between items-start mb-2">
-                        <span className="text-[10px] font-bold text-nexus-orange uppercase">{it.author}</span>
+                        {it.inboundEmail ? (
+                          <span className="flex items-center gap-1 text-[10px] font-bold text-blue-400 uppercase">
+                            <Mail size={10} /> E-mail de {it.inboundEmail.from}
+                          </span>
+                        ) : (
+                          <span className="text-[10px] font-bold text-nexus-orange uppercase">{it.author}</span>
+                        )}
                         <span className="text-[10px] text-zinc-500 font-mono">{it.date}</span>
                       </div>
-                      <p className={`text-xs leading-relaxed ${isDark ? 'text-zinc-300' : 'text-zinc-600'}`}>{it.text}</p>
+                      <p className={`text-xs leading-relaxed whitespace-pre-line ${isDark ? 'text-zinc-300' : 'text-zinc-600'}`}>{it.text}</p>
+                      {it.inboundEmail && it.inboundEmail.attachments.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-3">
+                          {it.inboundEmail.attachments.map(attachment => (
+                            <button
+                              key={attachment.id}
+                              type="button"
+                              onClick={() => downloadAttachmentMutation.mutate(attachment)}
+                              className={`flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] border transition-colors ${isDark ? 'border-zinc-700 text-zinc-300 hover:bg-zinc-700' : 'border-zinc-200 text-zinc-600 hover:bg-zinc-100'}`}
+                            >
+                              <Paperclip size={10} /> {attachment.fileName}
+                              <span className="text-zinc-500">({Math.max(1, Math.round(attachment.size / 1024))} KB)</span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   ))
                ) : (
@@ -923,6 +1083,42 @@ const LeadFormModal: React.FC<{
                  </div>
                )}
             </div>
+
+            {isExistingLead && (
+              <div className={`p-6 border-t max-h-[40%] overflow-y-auto scrollbar-thin ${isDark ? 'border-zinc-800' : 'border-zinc-200'}`}>
+                <SentEmailsList
+                  target={{ leadId: lead!.id }}
+                  recipientName={lead!.name}
+                  canSend={!!lead!.email}
+                  aiContext={can(Module.SALES_AI) ? {
+                    id: lead!.id,
+                    name: lead!.name,
+                    company: lead!.clinic,
+                    email: lead!.email,
+                    leadScore: lead!.score,
+                    stage: mapStageNameToLeadStage(lead!.stage),
+                    product: plans.find(p => p.name === lead!.interestPlan)?.product === 'LOCADORAS' ? 'NEXLOC' : 'ONE_NEXUS',
+                    plan: lead!.interestPlan !== 'N/A' ? lead!.interestPlan : undefined,
+                  } : undefined}
+                />
+              </div>
+            )}
+
+            {isExistingLead && (
+              <LeadStageTimeline leadId={lead!.id} isDark={isDark} />
+            )}
+
+            {isExistingLead && (
+              <LeadDuplicatesPanel
+                leadId={lead!.id}
+                isDark={isDark}
+                canMerge={user?.role !== UserRole.VENDEDOR}
+              />
+            )}
+
+            {isExistingLead && can(Module.SALES_AI) && (
+              <LeadAISessions leadId={lead!.id} isDark={isDark} />
+            )}
           </aside>
         </div>
 
@@ -993,15 +1189,23 @@ const LeadFormModal: React.FC<{
                 <p className="text-xs text-zinc-500">Por que esta oportunidade não foi concretizada?</p>
                 <select
                   className={`w-full rounded-xl px-4 py-2.5 text-sm border outline-none focus:ring-2 focus:ring-red-500/20 ${isDark ? 'bg-zinc-800 border-zinc-700 text-white' : 'bg-white border-zinc-300'}`}
-                  value={selectedLossReason}
+                  value={selectedLossReason || lossReasons[0]?.id || ''}
                   onChange={e => setSelectedLossReason(e.target.value)}
                 >
-                  {LOSS_REASONS.map(r => <option key={r} value={r}>{r}</option>)}
+                  {lossReasons.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
                 </select>
+                <textarea
+                  rows={3}
+                  maxLength={1000}
+                  placeholder="Detalhes (opcional)"
+                  className={`w-full rounded-xl px-4 py-2.5 text-sm border outline-none resize-none focus:ring-2 focus:ring-red-500/20 ${isDark ? 'bg-zinc-800 border-zinc-700 text-white' : 'bg-white border-zinc-300'}`}
+                  value={lossNotes}
+                  onChange={e => setLossNotes(e.target.value)}
+                />
              </div>
              <div className="p-6 pt-0 flex gap-3">
                 <button onClick={() => setShowLossReason(false)} className="flex-1 py-2 text-zinc-500 text-sm font-bold">Cancelar</button>
-                <button onClick={handleLostSubmit} className="flex-1 py-2 bg-red-600 text-white rounded-xl text-sm font-bold hover:bg-red-700 shadow-lg shadow-red-600/20">Confirmar Perda</button>
+                <button onClick={handleLostSubmit} disabled={lossReasons.length === 0} className="flex-1 py-2 disabled:opacity-50 bg-red-600 text-white rounded-xl text-sm font-bold hover:bg-red-700 shadow-lg shadow-red-600/20">Confirmar Perda</button>
              </div>
            </div>
         </div>
@@ -1269,7 +1473,9 @@ const StageManager: React.FC<{
 // HELPERS: Staleness de cards (sem atividade)
 // ═══════════════════════════════════════════════════════════════════════════
 
-function getLeadStaleness(updatedAt: string): 'fresh' | 'yellow' | 'red' {
+/** Prazo de SLA estourado (apurado no servidor) sempre conta como vermelho */
+function getLeadStaleness(updatedAt: string, slaBreached = false): 'fresh' | 'yellow' | 'red' {
+  if (slaBreached) return 'red';
   const hours = (Date.now() - new Date(updatedAt).getTime()) / 3_600_000;
   if (hours > 48) return 'red';
   if (hours > 24) return 'yellow';
@@ -1324,9 +1530,15 @@ export function LeadKanban() {
   const isDark = theme === 'dark';
 
   // API Data
-  const { data: apiLeads = [], isLoading } = useLeads();
+  // Etiquetas e campos personalizados são filtrados no backend (mesmos parâmetros da exportação)
+  const [tagFieldFilters, setTagFieldFilters] = useState<TagFieldFilterValue>(EMPTY_TAG_FIELD_FILTERS);
+  const tagFieldParams = toTagFieldParams(tagFieldFilters);
+  const { data: apiLeads = [], isLoading } = useLeads(tagFieldParams);
   const { data: funnelStages = [] } = useFunnelStages();
+  const { data: slaBreaches = [] } = useSlaBreaches();
+  const slaBreachedIds = useMemo(() => new Set(slaBreaches.map((b) => b.leadId)), [slaBreaches]);
   const { data: vendedores = [] } = useVendedores();
+  const { user } = useAuth();
   const { data: plans = [] } = usePlans();
   const { data: leadOrigins = [] } = useLeadOrigins();
   const createMutation = useCreateLead();
@@ -1367,14 +1579,24 @@ export function LeadKanban() {
       originId: typeof apiLead.origin === 'object' ? apiLead.origin?.id : undefined, // ✅ NEW: Preserve origin ID
       assignedTo: apiLead.vendedor?.name || 'N/A',
       vendedorId: apiLead.vendedor?.id, // ✅ NEW: Preserve vendedor ID
-      daysInStage: 0, // Calculado posteriormente se necessário
+      // Dias desde a última entrada no estágio (histórico); leads sem histórico usam a criação
+      daysInStage: Math.max(0, Math.floor(
+        (Date.now() - new Date((apiLead as any).stageHistory?.[0]?.changedAt || apiLead.createdAt).getTime()) / 86400000,
+      )),
       updatedAt: apiLead.updatedAt,
       notes: apiLead.notes ? [apiLead.notes] : [],
+      lossReason: apiLead.lossReason?.name,
+      lossNotes: apiLead.lossNotes || undefined,
+      tags: apiLead.tags || [],
+      customFields: apiLead.customFields || {},
       interactions: (apiLead as any).interactions?.map((it: any) => ({
         id: it.id,
         date: new Date(it.createdAt).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' }),
         author: it.user?.name || 'Sistema',
         text: it.content,
+        inboundEmail: it.inboundEmail
+          ? { from: it.inboundEmail.fromEmail, attachments: it.inboundEmail.attachments || [] }
+          : undefined,
       })) || []
     }));
   }, [apiLeads, funnelStages]);
@@ -1397,7 +1619,7 @@ export function LeadKanban() {
     return STAGE_COLORS[idx % STAGE_COLORS.length] || '#FF7300';
   };
 
-  const [viewType, setViewType] = useState<'kanban' | 'list'>('kanban');
+  const [viewType, setViewType] = useState<'kanban' | 'list' | 'report'>('kanban');
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
   const [mobileStage, setMobileStage] = useState<string>('');
   const [stageDropdownOpen, setStageDropdownOpen] = useState(false);
@@ -1454,6 +1676,16 @@ export function LeadKanban() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isStageManagerOpen, setIsStageManagerOpen] = useState(false);
   const [isConvertModalOpen, setIsConvertModalOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const canReviewDuplicates = user?.role !== UserRole.VENDEDOR;
+  const { data: duplicateQueue = [] } = useDuplicateQueue(canReviewDuplicates);
+  const canImportLeads = user?.role !== UserRole.VENDEDOR;
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const exportMutation = useExportLeads();
+  // Seleção para ações em lote (Kanban e lista)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const canDeleteLeads = user?.role === UserRole.SUPERADMIN || user?.role === UserRole.ADMINISTRATIVO;
   const [selectedLeadToConvert, setSelectedLeadToConvert] = useState<any | null>(null);
   const [searchParams, setSearchParams] = useSearchParams();
   const [searchQuery, setSearchQuery] = useState(() => searchParams.get('search') || '');
@@ -1465,12 +1697,69 @@ export function LeadKanban() {
     }
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Exportação segue a busca e os filtros atuais (escopo por role aplicado no backend)
+  const renderExportMenu = (buttonClassName: string, iconSize: number) => (
+    <div className="relative">
+      <button
+        onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+        disabled={exportMutation.isPending}
+        className={buttonClassName}
+        title="Exportar leads"
+      >
+        <Download size={iconSize} />
+      </button>
+      {isExportMenuOpen && (
+        <div className={`absolute right-0 mt-2 z-30 min-w-[140px] rounded-xl border py-1 shadow-xl ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'}`}>
+          {(['csv', 'xlsx'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => {
+                exportMutation.mutate({ format, search: searchQuery.trim() || undefined, ...tagFieldParams });
+                setIsExportMenuOpen(false);
+              }}
+              className={`w-full px-4 py-2 text-left text-sm transition-colors ${isDark ? 'text-zinc-300 hover:bg-zinc-800' : 'text-zinc-700 hover:bg-zinc-50'}`}
+            >
+              Exportar {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   const filteredLeads = leads.filter(l =>
     l.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     l.clinic.toLowerCase().includes(searchQuery.toLowerCase()) ||
     (l.cnpj && l.cnpj.includes(searchQuery))
   );
 
+  // Leads removidos ou fora da listagem saem da seleção
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const next = new Set([...prev].filter(id => leads.some(l => l.id === id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [leads]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Marca/desmarca um grupo inteiro (coluna do Kanban ou lista filtrada)
+  const toggleSelectedGroup = (ids: string[]) => {
+    setSelectedIds(prev => {
+      const allSelected = ids.length > 0 && ids.every(id => prev.has(id));
+      const next = new Set(prev);
+      ids.forEach(id => (allSelected ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
   // ═══════════════════════════════════════════════════════════════════════════
   // v2.31.0: Helper function to dynamically get conversion-eligible stages
   // Shows conversion button in LAST 2 ACTIVE STAGES (instead of hardcoded names)
@@ -1528,6 +1817,8 @@ export function LeadKanban() {
         // ✅ v2.35.0: FIX - Include instagram and facebook fields
         instagram: lead.instagram || undefined,
         facebook: lead.facebook || undefined,
+        tags: lead.tags,
+        customFields: lead.customFields,
       };
 
       createMutation.mutate(payload, {
@@ -1562,6 +1853,8 @@ export function LeadKanban() {
         // ✅ v2.35.0: FIX - Include instagram and facebook fields
         instagram: lead.instagram || undefined,
         facebook: lead.facebook || undefined,
+        tags: lead.tags,
+        customFields: lead.customFields,
       };
 
       updateMutation.mutate(
@@ -1593,13 +1886,14 @@ export function LeadKanban() {
   // ✅ REMOVIDO v2.24.0: handleConvertLead() não é mais usado
   // Conversão agora sempre usa modal de trava inteligente (ConvertLeadModal)
 
-  const handleMarkLost = (lead: Lead, reason: string) => {
+  const handleMarkLost = (lead: Lead, lossReasonId: string, lossNotes?: string) => {
     updateMutation.mutate(
       {
         id: lead.id,
         payload: {
-          status: 'PERDIDO' as any,
-          notes: `MARCADO COMO PERDIDO. Motivo: ${reason}`,
+          status: LeadStatus.PERDIDO,
+          lossReasonId,
+          lossNotes,
         },
       },
       {
@@ -1658,6 +1952,30 @@ export function LeadKanban() {
         </div>
         {/* Desktop buttons */}
         <div className="hidden md:flex gap-4">
+           {canReviewDuplicates && (
+             <button
+               onClick={() => setIsDuplicatesOpen(true)}
+               className={`relative p-2 rounded-xl border transition-all ${isDark ? 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white' : 'bg-white border-zinc-200 text-zinc-500 hover:text-nexus-orange shadow-sm'}`}
+               title="Possíveis Duplicados"
+             >
+               <Copy size={20} />
+               {duplicateQueue.length > 0 && (
+                 <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-white text-[10px] font-bold flex items-center justify-center">
+                   {duplicateQueue.length}
+                 </span>
+               )}
+             </button>
+           )}
+           {canImportLeads && (
+             <button
+               onClick={() => setIsImportOpen(true)}
+               className={`p-2 rounded-xl border transition-all ${isDark ? 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white' : 'bg-white border-zinc-200 text-zinc-500 hover:text-nexus-orange shadow-sm'}`}
+               title="Importar leads (CSV/XLSX)"
+             >
+               <Upload size={20} />
+             </button>
+           )}
+           {renderExportMenu(`p-2 rounded-xl border transition-all ${isDark ? 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white' : 'bg-white border-zinc-200 text-zinc-500 hover:text-nexus-orange shadow-sm'}`, 20)}
            <button
              onClick={() => setIsStageManagerOpen(true)}
              className={`p-2 rounded-xl border transition-all ${isDark ? 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white' : 'bg-white border-zinc-200 text-zinc-500 hover:text-nexus-orange shadow-sm'}`}
@@ -1668,6 +1986,7 @@ export function LeadKanban() {
            <div className={`flex border rounded-xl p-1 ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200 shadow-sm'}`}>
              <button onClick={() => setViewType('kanban')} className={`p-2 rounded-lg transition-all ${viewType === 'kanban' ? 'bg-nexus-orange text-white shadow-sm' : 'text-zinc-500 hover:text-nexus-orange'}`} title="Vista Kanban"><LayoutGrid size={18} /></button>
              <button onClick={() => setViewType('list')} className={`p-2 rounded-lg transition-all ${viewType === 'list' ? 'bg-nexus-orange text-white shadow-sm' : 'text-zinc-500 hover:text-nexus-orange'}`} title="Vista em Lista"><ListIcon size={18} /></button>
+             <button onClick={() => setViewType('report')} className={`p-2 rounded-lg transition-all ${viewType === 'report' ? 'bg-nexus-orange text-white shadow-sm' : 'text-zinc-500 hover:text-nexus-orange'}`} title="Relatório do Funil"><BarChart3 size={18} /></button>
            </div>
            <button
             onClick={() => { setSelectedLead(null); setIsModalOpen(true); }}
@@ -1688,7 +2007,32 @@ export function LeadKanban() {
              <div className={`flex flex-1 border rounded-xl p-1 ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200 shadow-sm'}`}>
                <button onClick={() => setViewType('kanban')} className={`flex-1 py-2.5 rounded-lg transition-all flex items-center justify-center ${viewType === 'kanban' ? 'bg-nexus-orange text-white shadow-sm' : 'text-zinc-500'}`}><LayoutGrid size={18} /></button>
                <button onClick={() => setViewType('list')} className={`flex-1 py-2.5 rounded-lg transition-all flex items-center justify-center ${viewType === 'list' ? 'bg-nexus-orange text-white shadow-sm' : 'text-zinc-500'}`}><ListIcon size={18} /></button>
+               <button onClick={() => setViewType('report')} className={`flex-1 py-2.5 rounded-lg transition-all flex items-center justify-center ${viewType === 'report' ? 'bg-nexus-orange text-white shadow-sm' : 'text-zinc-500'}`}><BarChart3 size={18} /></button>
              </div>
+             {canReviewDuplicates && (
+               <button
+                 onClick={() => setIsDuplicatesOpen(true)}
+                 className={`relative p-3 rounded-xl border transition-all active:scale-95 ${isDark ? 'bg-zinc-900 border-zinc-800 text-zinc-400' : 'bg-white border-zinc-200 text-zinc-500 shadow-sm'}`}
+                 title="Possíveis Duplicados"
+               >
+                 <Copy size={18} />
+                 {duplicateQueue.length > 0 && (
+                   <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-white text-[10px] font-bold flex items-center justify-center">
+                     {duplicateQueue.length}
+                   </span>
+                 )}
+               </button>
+             )}
+             {canImportLeads && (
+               <button
+                 onClick={() => setIsImportOpen(true)}
+                 className={`p-3 rounded-xl border transition-all active:scale-95 ${isDark ? 'bg-zinc-900 border-zinc-800 text-zinc-400' : 'bg-white border-zinc-200 text-zinc-500 shadow-sm'}`}
+                 title="Importar leads (CSV/XLSX)"
+               >
+                 <Upload size={18} />
+               </button>
+             )}
+             {renderExportMenu(`p-3 rounded-xl border transition-all active:scale-95 ${isDark ? 'bg-zinc-900 border-zinc-800 text-zinc-400' : 'bg-white border-zinc-200 text-zinc-500 shadow-sm'}`, 18)}
              <button
                onClick={() => setIsStageManagerOpen(true)}
                className={`p-3 rounded-xl border transition-all active:scale-95 ${isDark ? 'bg-zinc-900 border-zinc-800 text-zinc-400' : 'bg-white border-zinc-200 text-zinc-500 shadow-sm'}`}
@@ -1711,6 +2055,7 @@ export function LeadKanban() {
               onChange={e => setSearchQuery(e.target.value)}
            />
         </div>
+        <TagFieldFilters entity="LEAD" value={tagFieldFilters} onChange={setTagFieldFilters} className="w-full md:w-auto" />
         <div className="hidden lg:flex items-center gap-6 ml-auto pr-4">
            <div className="text-right">
               <p className="text-[10px] uppercase font-bold text-zinc-500 tracking-widest">Leads em Prospecção</p>
@@ -1720,7 +2065,14 @@ export function LeadKanban() {
       </div>
 
       <div className="md:flex-1 md:overflow-hidden">
-        {viewType === 'kanban' ? (
+        {viewType === 'report' ? (
+          <FunnelVelocityReport
+            isDark={isDark}
+            vendedores={vendedores}
+            origins={leadOrigins}
+            showVendedorFilter={user?.role !== UserRole.VENDEDOR}
+          />
+        ) : viewType === 'kanban' ? (
           <>
           {/* Mobile stage selector — dropdown simples */}
           <div className="md:hidden mb-3 relative" ref={stageDropdownRef}>
@@ -1804,6 +2156,13 @@ export function LeadKanban() {
                 <div key={stage} className="min-w-[320px] w-[320px] flex flex-col gap-4 h-full">
                   <div className="flex items-center justify-between px-3">
                     <div className="flex items-center gap-2">
+                      {filteredLeads.some(l => l.stage === stage) && (
+                        <SelectCheckbox
+                          checked={filteredLeads.filter(l => l.stage === stage).every(l => selectedIds.has(l.id))}
+                          onToggle={() => toggleSelectedGroup(filteredLeads.filter(l => l.stage === stage).map(l => l.id))}
+                          title="Selecionar leads da coluna"
+                        />
+                      )}
                       <h3 className={`font-black text-xs uppercase tracking-widest ${isDark ? 'text-zinc-300' : 'text-zinc-600'}`}>{stage}</h3>
                       <span className={`text-[10px] px-2 py-0.5 rounded-full font-bold ${isDark ? 'bg-zinc-800 text-zinc-400' : 'bg-zinc-200 text-zinc-500'}`}>
                         {filteredLeads.filter(l => l.stage === stage).length}
@@ -1812,7 +2171,7 @@ export function LeadKanban() {
                   </div>
                   <DroppableColumn id={stage} isDark={isDark}>
                     {filteredLeads.filter(l => l.stage === stage).map(lead => {
-                      const staleness = getLeadStaleness(lead.updatedAt);
+                      const staleness = getLeadStaleness(lead.updatedAt, slaBreachedIds.has(lead.id));
                       const staleClass = staleness === 'red'
                         ? 'animate-pulse-red'
                         : staleness === 'yellow'
@@ -1826,9 +2185,12 @@ export function LeadKanban() {
                               isDark
                                 ? 'bg-zinc-800 border-zinc-700 hover:border-nexus-orange/50 hover:shadow-nexus-orange/10'
                                 : 'bg-white border-zinc-200 hover:border-nexus-orange/60 shadow-sm'
-                            } ${staleClass} p-5 rounded-2xl transition-all duration-300 cursor-pointer group shadow-md hover:shadow-xl hover:-translate-y-0.5 animate-in slide-in-from-top-4 duration-300 border`}
+                            } ${selectedIds.has(lead.id) ? 'ring-2 ring-nexus-orange' : ''} ${staleClass} p-5 rounded-2xl transition-all duration-300 cursor-pointer group shadow-md hover:shadow-xl hover:-translate-y-0.5 animate-in slide-in-from-top-4 duration-300 border`}
                           >
-                            <div className="flex justify-between items-start mb-3">
+                            <div className="flex justify-between items-start gap-2 mb-3">
+                              <div className="pt-0.5">
+                                <SelectCheckbox checked={selectedIds.has(lead.id)} onToggle={() => toggleSelected(lead.id)} />
+                              </div>
                               <div className="overflow-hidden flex-1">
                                 <span className={`font-bold text-sm block group-hover:text-nexus-orange transition-colors truncate ${isDark ? 'text-white' : 'text-zinc-900'}`}>{lead.name}</span>
                                 <span className="text-[10px] text-zinc-500 font-medium truncate block">{lead.clinic}</span>
@@ -1838,6 +2200,7 @@ export function LeadKanban() {
 
                             <div className="flex flex-wrap gap-2 mb-4">
                               <RoleTag role={lead.role} />
+                              <LeadTags tags={lead.tags} />
                             </div>
 
                             {lead.cnpj && (
@@ -1896,9 +2259,12 @@ export function LeadKanban() {
                 <h3 className="font-black text-[10px] uppercase tracking-[0.2em] text-green-600 px-3">Ganhos (Convertidos)</h3>
                 <div className={`flex-1 border border-dashed rounded-3xl p-3 space-y-3 overflow-y-auto scrollbar-thin ${isDark ? 'bg-green-900/5 border-green-900/10' : 'bg-green-50 border-green-200'}`}>
                   {filteredLeads.filter(l => l.stage === 'Ganho').map(lead => (
-                    <div key={lead.id} onClick={() => { setSelectedLead(lead); setIsModalOpen(true); }} className={`${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'} p-3 rounded-xl cursor-pointer hover:border-green-500 transition-all shadow-sm border`}>
-                      <p className={`text-xs font-bold truncate ${isDark ? 'text-zinc-300' : 'text-zinc-900'}`}>{lead.name}</p>
-                      <p className="text-[9px] text-zinc-500">{lead.clinic}</p>
+                    <div key={lead.id} onClick={() => { setSelectedLead(lead); setIsModalOpen(true); }} className={`${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'} ${selectedIds.has(lead.id) ? 'ring-2 ring-nexus-orange' : ''} p-3 rounded-xl cursor-pointer hover:border-green-500 transition-all shadow-sm border flex items-start gap-2`}>
+                      <SelectCheckbox checked={selectedIds.has(lead.id)} onToggle={() => toggleSelected(lead.id)} />
+                      <div className="min-w-0">
+                        <p className={`text-xs font-bold truncate ${isDark ? 'text-zinc-300' : 'text-zinc-900'}`}>{lead.name}</p>
+                        <p className="text-[9px] text-zinc-500">{lead.clinic}</p>
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -1909,9 +2275,12 @@ export function LeadKanban() {
                 <h3 className="font-black text-[10px] uppercase tracking-[0.2em] text-red-600 px-3">Perdidos</h3>
                 <div className={`flex-1 border border-dashed rounded-3xl p-3 space-y-3 overflow-y-auto scrollbar-thin ${isDark ? 'bg-red-900/5 border-red-900/10' : 'bg-red-50 border-red-200'}`}>
                   {filteredLeads.filter(l => l.stage === 'Perdido').map(lead => (
-                    <div key={lead.id} onClick={() => { setSelectedLead(lead); setIsModalOpen(true); }} className={`${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'} p-3 rounded-xl cursor-pointer hover:border-red-500 transition-all shadow-sm border`}>
-                      <p className={`text-xs font-bold truncate ${isDark ? 'text-zinc-300' : 'text-zinc-900'}`}>{lead.name}</p>
-                      <p className="text-[9px] text-zinc-500">{lead.clinic}</p>
+                    <div key={lead.id} onClick={() => { setSelectedLead(lead); setIsModalOpen(true); }} className={`${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'} ${selectedIds.has(lead.id) ? 'ring-2 ring-nexus-orange' : ''} p-3 rounded-xl cursor-pointer hover:border-red-500 transition-all shadow-sm border flex items-start gap-2`}>
+                      <SelectCheckbox checked={selectedIds.has(lead.id)} onToggle={() => toggleSelected(lead.id)} />
+                      <div className="min-w-0">
+                        <p className={`text-xs font-bold truncate ${isDark ? 'text-zinc-300' : 'text-zinc-900'}`}>{lead.name}</p>
+                        <p className="text-[9px] text-zinc-500">{lead.clinic}</p>
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -1949,7 +2318,7 @@ export function LeadKanban() {
             {/* Mobile: single stage card list — same visual as desktop kanban cards */}
             <div className="md:hidden space-y-3 overflow-y-auto pb-4">
               {filteredLeads.filter(l => l.stage === mobileStage).map(lead => {
-                const staleness = getLeadStaleness(lead.updatedAt);
+                const staleness = getLeadStaleness(lead.updatedAt, slaBreachedIds.has(lead.id));
                 const staleClass = staleness === 'red' ? 'animate-pulse-red' : staleness === 'yellow' ? 'animate-pulse-yellow' : '';
                 return (
                   <div
@@ -1959,9 +2328,12 @@ export function LeadKanban() {
                       isDark
                         ? 'bg-zinc-800 border-zinc-700 hover:border-nexus-orange/50'
                         : 'bg-white border-zinc-200 shadow-sm hover:border-nexus-orange/60'
-                    } ${staleClass} p-4 rounded-xl border cursor-pointer active:scale-[0.98] transition-all shadow-md`}
+                    } ${selectedIds.has(lead.id) ? 'ring-2 ring-nexus-orange' : ''} ${staleClass} p-4 rounded-xl border cursor-pointer active:scale-[0.98] transition-all shadow-md`}
                   >
-                    <div className="flex justify-between items-start mb-1">
+                    <div className="flex justify-between items-start gap-2 mb-1">
+                      <div className="pt-1">
+                        <SelectCheckbox checked={selectedIds.has(lead.id)} onToggle={() => toggleSelected(lead.id)} />
+                      </div>
                       <div className="overflow-hidden flex-1">
                         <span className={`font-bold text-base block truncate ${isDark ? 'text-white' : 'text-zinc-900'}`}>{lead.name}</span>
                         <span className="text-xs text-zinc-500 font-medium truncate block">{lead.clinic}</span>
@@ -1971,6 +2343,7 @@ export function LeadKanban() {
 
                     <div className="flex flex-wrap gap-2 mb-1">
                       <RoleTag role={lead.role} />
+                      <LeadTags tags={lead.tags} />
                     </div>
 
                     {lead.cnpj && (
@@ -2061,7 +2434,7 @@ export function LeadKanban() {
           {/* Mobile: card list view — same visual as desktop kanban cards */}
           <div className="md:hidden space-y-3 overflow-y-auto pb-4">
             {filteredLeads.map(lead => {
-              const staleness = getLeadStaleness(lead.updatedAt);
+              const staleness = getLeadStaleness(lead.updatedAt, slaBreachedIds.has(lead.id));
               const staleClass = staleness === 'red' ? 'animate-pulse-red' : staleness === 'yellow' ? 'animate-pulse-yellow' : '';
               return (
                 <div
@@ -2071,9 +2444,12 @@ export function LeadKanban() {
                     isDark
                       ? 'bg-zinc-800 border-zinc-700 hover:border-nexus-orange/50'
                       : 'bg-white border-zinc-200 shadow-sm hover:border-nexus-orange/60'
-                  } ${staleClass} p-4 rounded-xl border cursor-pointer active:scale-[0.98] transition-all shadow-md`}
+                  } ${selectedIds.has(lead.id) ? 'ring-2 ring-nexus-orange' : ''} ${staleClass} p-4 rounded-xl border cursor-pointer active:scale-[0.98] transition-all shadow-md`}
                 >
-                  <div className="flex justify-between items-start mb-1">
+                  <div className="flex justify-between items-start gap-2 mb-1">
+                    <div className="pt-1">
+                      <SelectCheckbox checked={selectedIds.has(lead.id)} onToggle={() => toggleSelected(lead.id)} />
+                    </div>
                     <div className="overflow-hidden flex-1">
                       <span className={`font-bold text-base block truncate ${isDark ? 'text-white' : 'text-zinc-900'}`}>{lead.name}</span>
                       <span className="text-xs text-zinc-500 font-medium truncate block">{lead.clinic}</span>
@@ -2090,6 +2466,7 @@ export function LeadKanban() {
 
                   <div className="flex flex-wrap gap-2 mb-1">
                     <RoleTag role={lead.role} />
+                    <LeadTags tags={lead.tags} />
                   </div>
 
                   {lead.cnpj && (
@@ -2179,6 +2556,13 @@ export function LeadKanban() {
             <table className="w-full text-left border-collapse">
               <thead className={`${isDark ? 'bg-zinc-950/30 text-zinc-500' : 'bg-zinc-50 text-zinc-400'} border-b ${isDark ? 'border-zinc-800' : 'border-zinc-200'} text-[10px] font-bold uppercase tracking-widest`}>
                 <tr>
+                  <th className="pl-6 py-4 w-4">
+                    <SelectCheckbox
+                      checked={filteredLeads.length > 0 && filteredLeads.every(l => selectedIds.has(l.id))}
+                      onToggle={() => toggleSelectedGroup(filteredLeads.map(l => l.id))}
+                      title="Selecionar todos"
+                    />
+                  </th>
                   <th className="px-6 py-4">Lead / Cargo</th>
                   <th className="px-6 py-4">Clínica / CNPJ</th>
                   <th className="px-6 py-4">Estágio</th>
@@ -2189,11 +2573,14 @@ export function LeadKanban() {
               </thead>
               <tbody className={`divide-y ${isDark ? 'divide-zinc-800' : 'divide-zinc-100'}`}>
                 {filteredLeads.map(lead => (
-                  <tr key={lead.id} onClick={() => { setSelectedLead(lead); setIsModalOpen(true); }} className={`transition-colors cursor-pointer group ${isDark ? 'hover:bg-zinc-800/30' : 'hover:bg-zinc-50'}`}>
+                  <tr key={lead.id} onClick={() => { setSelectedLead(lead); setIsModalOpen(true); }} className={`transition-colors cursor-pointer group ${selectedIds.has(lead.id) ? 'bg-nexus-orange/5' : ''} ${isDark ? 'hover:bg-zinc-800/30' : 'hover:bg-zinc-50'}`}>
+                    <td className="pl-6 py-4">
+                      <SelectCheckbox checked={selectedIds.has(lead.id)} onToggle={() => toggleSelected(lead.id)} />
+                    </td>
                     <td className="px-6 py-4">
                       <div className="flex flex-col gap-1">
                         <span className={`text-sm font-bold group-hover:text-nexus-orange transition-colors ${isDark ? 'text-white' : 'text-zinc-900'}`}>{lead.name}</span>
-                        <div className="flex"><RoleTag role={lead.role} /></div>
+                        <div className="flex flex-wrap gap-1"><RoleTag role={lead.role} /><LeadTags tags={lead.tags} /></div>
                       </div>
                     </td>
                     <td className="px-6 py-4">
@@ -2297,6 +2684,27 @@ export function LeadKanban() {
         />
       )}
 
+      {/* Duplicates Queue */}
+      {canReviewDuplicates && (
+        <DuplicatesQueueModal isOpen={isDuplicatesOpen} onClose={() => setIsDuplicatesOpen(false)} isDark={isDark} />
+      )}
+
+      {/* Bulk Import */}
+      {canImportLeads && (
+        <ImportLeadsModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} isDark={isDark} />
+      )}
+
+      {/* Bulk Actions */}
+      <LeadBulkActionsBar
+        selectedIds={[...selectedIds]}
+        isDark={isDark}
+        funnelStages={funnelStages}
+        vendedores={vendedores}
+        canReassign={user?.role !== UserRole.VENDEDOR}
+        canDelete={canDeleteLeads}
+        onClear={() => setSelectedIds(new Set())}
+      />
+
       {/* Convert Lead Modal */}
       {selectedLeadToConvert && (
         <ConvertLeadModal
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Copy, GitMerge, XCircle } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { useDuplicateQueue, useDismissDuplicate, useMergeLeads } from '../hooks/useLeads';
+import { DUPLICATE_REASON_LABELS } from './LeadDuplicatesPanel';
+import type { DuplicateCandidate, DuplicateLeadSummary } from '../types';
+
+interface DuplicatesQueueModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  isDark: boolean;
+}
+
+/**
+ * Fila de possíveis duplicados (gestores e administradores)
+ * Por padrão mantém o lead mais antigo; o escolhido absorve o histórico do outro
+ */
+export function DuplicatesQueueModal({ isOpen, onClose, isDark }: DuplicatesQueueModalProps) {
+  const { data: queue = [], isLoading } = useDuplicateQueue(isOpen);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Possíveis Duplicados" size="full">
+      <p className="text-sm text-zinc-500 mb-4">
+        Pares encontrados por email, telefone, CPF/CNPJ ou nome da empresa semelhante. Escolha o lead que permanece:
+        interações, eventos de agenda, submissões de formulário e observações do outro são transferidos para ele.
+      </p>
+
+      {isLoading ? (
+        <div className="py-12 text-center">
+          <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : queue.length === 0 ? (
+        <div className="py-12 text-center">
+          <Copy size={36} className={`mx-auto mb-2 ${isDark ? 'text-zinc-600' : 'text-zinc-300'}`} />
+          <p className="text-sm text-zinc-500">Nenhum possível duplicado pendente</p>
+        </div>
+      ) : (
+        <div className="space-y-4 max-h-[70vh] overflow-y-auto scrollbar-thin pr-1">
+          {queue.map((candidate) => (
+            <DuplicatePairRow key={candidate.id} candidate={candidate} isDark={isDark} />
+          ))}
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+function DuplicatePairRow({ candidate, isDark }: { candidate: DuplicateCandidate; isDark: boolean }) {
+  const [keepId, setKeepId] = useState(candidate.duplicateOfId);
+  const mergeMutation = useMergeLeads();
+  const dismissMutation = useDismissDuplicate();
+
+  const keep = keepId === candidate.lead.id ? candidate.lead : candidate.duplicateOf;
+  const absorb = keep.id === candidate.lead.id ? candidate.duplicateOf : candidate.lead;
+  const blockedByConversion = absorb.status === 'GANHO';
+
+  const handleMerge = () => {
+    if (confirm(`Mesclar "${absorb.companyName || absorb.name}" em "${keep.companyName || keep.name}"? O lead absorvido será removido.`)) {
+      mergeMutation.mutate({ leadId: keep.id, duplicateId: absorb.id });
+    }
+  };
+
+  return (
+    <div className={`rounded-2xl border p-4 ${isDark ? 'border-zinc-800 bg-zinc-900/50' : 'border-zinc-200 bg-white'}`}>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <span className="text-xs font-bold text-amber-500">{candidate.score}% de confiança</span>
+        {candidate.reasons.map((reason) => (
+          <span key={reason} className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-500">
+            {DUPLICATE_REASON_LABELS[reason]}
+          </span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {[candidate.duplicateOf, candidate.lead].map((lead) => (
+          <DuplicateLeadCard key={lead.id} lead={lead} selected={lead.id === keepId} onSelect={() => setKeepId(lead.id)} isDark={isDark} />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-2 mt-3">
+        {blockedByConversion && (
+          <span className="text-[10px] text-red-500 mr-auto">Lead convertido em cliente não pode ser absorvido — mantenha-o.</span>
+        )}
+        <Button variant="ghost" size="sm" onClick={() => dismissMutation.mutate(candidate.id)} disabled={dismissMutation.isPending}>
+          <XCircle size={14} className="mr-1" /> Não é duplicado
+        </Button>
+        <Button size="sm" onClick={handleMerge} disabled={mergeMutation.isPending || blockedByConversion}>
+          <GitMerge size={14} className="mr-1" /> Mesclar
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function DuplicateLeadCard({
+  lead,
+  selected,
+  onSelect,
+  isDark,
+}: {
+  lead: DuplicateLeadSummary;
+  selected: boolean;
+  onSelect: () => void;
+  isDark: boolean;
+}) {
+  return (
+    <label
+      className={`block cursor-pointer rounded-xl border p-3 transition-colors ${
+        selected
+          ? 'border-nexus-orange bg-nexus-orange/5'
+          : isDark ? 'border-zinc-800 hover:border-zinc-700' : 'border-zinc-200 hover:border-zinc-300'
+      }`}
+    >
+      <div className="flex items-start gap-2">
+        <input type="radio" checked={selected} onChange={onSelect} className="mt-1 accent-nexus-orange" />
+        <div className="min-w-0 text-xs space-y-0.5">
+          <p className={`font-semibold truncate ${isDark ? 'text-zinc-200' : 'text-zinc-800'}`}>
+            {lead.companyName || lead.name}
+            {selected && <span className="ml-2 text-[10px] font-bold text-nexus-orange">MANTER</span>}
+          </p>
+          <p className="text-zinc-500 truncate">{lead.name} · {lead.email}</p>
+          <p className="text-zinc-500 truncate">{lead.phone}{lead.cpfCnpj && ` · ${lead.cpfCnpj}`}</p>
+          <p className="text-zinc-500 truncate">
+            {lead.stage.name} · {lead.vendedor?.name || 'Sem vendedor'} · criado em {new Date(lead.createdAt).toLocaleDateString('pt-BR')}
+          </p>
+          <p className="text-[10px] text-zinc-500">
+            {lead._count.interactions} interação(ões) · {lead._count.calendarEvents} evento(s) · {lead._count.formSubmissions} submissão(ões)
+          </p>
+        </div>
+      </div>
+    </label>
+  );
+}
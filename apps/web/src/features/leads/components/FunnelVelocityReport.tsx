@@ -0,0 +1,219 @@
+import { useMemo, useState } from 'react';
+import { Gauge, Timer, Filter } from 'lucide-react';
+import { formatCurrency } from '@/utils/formatters';
+import { useFunnelReport } from '../hooks/useLeads';
+import { LossAnalysisReport } from './LossAnalysisReport';
+import { SlaComplianceReport } from './SlaComplianceReport';
+import type { FunnelReportFilters, FunnelVelocityRow, ProductType } from '../types';
+
+interface FunnelVelocityReportProps {
+  isDark: boolean;
+  vendedores: Array<{ id: string; name: string }>;
+  origins: Array<{ id: string; name: string }>;
+  /** VENDEDOR só enxerga os próprios leads — filtro de vendedor fica oculto */
+  showVendedorFilter: boolean;
+}
+
+type Dimension = 'vendedor' | 'origin' | 'product';
+
+const PERIODS = [30, 90, 180] as const;
+
+const DIMENSIONS: Array<{ value: Dimension; label: string }> = [
+  { value: 'vendedor', label: 'Vendedor' },
+  { value: 'origin', label: 'Origem' },
+  { value: 'product', label: 'Produto' },
+];
+
+const PRODUCT_LABELS: Record<string, string> = {
+  ONE_NEXUS: 'One Nexus',
+  LOCADORAS: 'NexLoc',
+};
+
+const toDateParam = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Relatório do funil: tempo médio por estágio, conversão entre estágios
+ * e velocidade (R$/dia) por vendedor, origem e produto, seguidos da análise de perdas
+ * e do cumprimento de SLA
+ */
+export function FunnelVelocityReport({ isDark, vendedores, origins, showVendedorFilter }: FunnelVelocityReportProps) {
+  const [period, setPeriod] = useState<(typeof PERIODS)[number]>(90);
+  const [dimension, setDimension] = useState<Dimension>('vendedor');
+  const [vendedorId, setVendedorId] = useState('');
+  const [originId, setOriginId] = useState('');
+  const [productType, setProductType] = useState('');
+
+  const filters = useMemo<FunnelReportFilters>(() => {
+    const to = new Date();
+    const from = new Date(to.getTime() - period * 24 * 60 * 60 * 1000);
+    return {
+      from: toDateParam(from),
+      to: toDateParam(to),
+      vendedorId: vendedorId || undefined,
+      originId: originId || undefined,
+      productType: (productType || undefined) as ProductType | undefined,
+    };
+  }, [period, vendedorId, originId, productType]);
+
+  const { data: report, isLoading } = useFunnelReport(filters);
+
+  const maxAvgDays = Math.max(1, ...(report?.timeInStage ?? []).map((s) => s.avgDays ?? 0));
+  const firstReached = report?.conversion[0]?.reached || 0;
+  const velocityRows: FunnelVelocityRow[] = report?.velocity[dimension] ?? [];
+
+  const card = `border p-4 md:p-6 rounded-2xl ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200 shadow-sm'}`;
+  const title = `text-sm font-bold flex items-center gap-2 mb-4 ${isDark ? 'text-white' : 'text-zinc-900'}`;
+  const select = `rounded-xl px-3 py-2 text-xs border outline-none ${isDark ? 'bg-zinc-900 border-zinc-800 text-white' : 'bg-white border-zinc-200 text-zinc-700'}`;
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1 text-[10px] md:text-xs font-bold rounded-lg transition-all ${
+      active
+        ? 'bg-nexus-orange text-white'
+        : isDark
+          ? 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+          : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200'
+    }`;
+
+  return (
+    <div className="space-y-4 md:overflow-y-auto md:h-full pb-6 scrollbar-thin">
+      {/* Filtros */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Filter size={14} className="text-zinc-500" />
+        {PERIODS.map((value) => (
+          <button key={value} onClick={() => setPeriod(value)} className={toggleClass(period === value)}>
+            {value} dias
+          </button>
+        ))}
+        {showVendedorFilter && (
+          <select value={vendedorId} onChange={(e) => setVendedorId(e.target.value)} className={select}>
+            <option value="">Todos os vendedores</option>
+            {vendedores.map((v) => <option key={v.id} value={v.id}>{v.name}</option>)}
+          </select>
+        )}
+        <select value={originId} onChange={(e) => setOriginId(e.target.value)} className={select}>
+          <option value="">Todas as origens</option>
+          {origins.map((o) => <option key={o.id} value={o.id}>{o.name}</option>)}
+        </select>
+        <select value={productType} onChange={(e) => setProductType(e.target.value)} className={select}>
+          <option value="">Todos os produtos</option>
+          {Object.entries(PRODUCT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        {report && <span className="text-xs text-zinc-500 ml-auto">{report.totalLeads} leads criados no período</span>}
+      </div>
+
+      {isLoading || !report ? (
+        <div className={`h-64 rounded-2xl animate-pulse ${isDark ? 'bg-zinc-900' : 'bg-zinc-100'}`} />
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {/* Tempo médio por estágio */}
+            <div className={card}>
+              <h3 className={title}><Timer size={16} className="text-nexus-orange" /> Tempo médio por estágio</h3>
+              <div className="space-y-3">
+                {report.timeInStage.map((stage) => (
+                  <div key={stage.stageId}>
+                    <div className="flex justify-between text-xs mb-1">
+                      <span className={`font-medium ${isDark ? 'text-zinc-300' : 'text-zinc-700'}`}>{stage.name}</span>
+                      <span className="text-zinc-500">
+                        {stage.avgDays !== null ? `${stage.avgDays.toLocaleString('pt-BR')} dias` : '—'}
+                        {stage.medianDays !== null && ` · mediana ${stage.medianDays.toLocaleString('pt-BR')}`}
+                        {` · ${stage.currentLeads} agora`}
+                      </span>
+                    </div>
+                    <div className={`h-2 rounded-full overflow-hidden ${isDark ? 'bg-zinc-800' : 'bg-zinc-100'}`}>
+                      <div
+                        className="h-full rounded-full"
+                        style={{ width: `${((stage.avgDays ?? 0) / maxAvgDays) * 100}%`, backgroundColor: stage.color }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Conversão estágio → estágio */}
+            <div className={card}>
+              <h3 className={title}><Gauge size={16} className="text-nexus-orange" /> Conversão entre estágios</h3>
+              <div className="space-y-2">
+                {report.conversion.map((stage) => (
+                  <div key={stage.stageId} className="flex items-center gap-3">
+                    <div className="w-32 shrink-0 text-xs truncate text-zinc-500">{stage.name}</div>
+                    <div className={`flex-1 h-6 rounded-lg overflow-hidden ${isDark ? 'bg-zinc-800' : 'bg-zinc-100'}`}>
+                      <div
+                        className="h-full rounded-lg flex items-center px-2 text-[10px] font-bold text-white"
+                        style={{
+                          width: `${firstReached ? Math.max((stage.reached / firstReached) * 100, 8) : 0}%`,
+                          backgroundColor: stage.color,
+                        }}
+                      >
+                        {stage.reached}
+                      </div>
+                    </div>
+                    <div className="w-16 shrink-0 text-right text-xs font-bold text-nexus-orange">
+                      {stage.conversionToNext !== null ? `${stage.conversionToNext.toLocaleString('pt-BR')}%` : ''}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-zinc-500 mt-3">% à direita = leads que avançaram para o estágio seguinte.</p>
+            </div>
+          </div>
+
+          {/* Velocidade do funil */}
+          <div className={card}>
+            <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between mb-4">
+              <h3 className={`${title} mb-0`}>Velocidade do funil</h3>
+              <div className="flex gap-2">
+                {DIMENSIONS.map((d) => (
+                  <button key={d.value} onClick={() => setDimension(d.value)} className={toggleClass(dimension === d.value)}>
+                    {d.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className={`text-left text-zinc-500 border-b ${isDark ? 'border-zinc-800' : 'border-zinc-200'}`}>
+                    <th className="py-2 pr-3 font-bold">{DIMENSIONS.find((d) => d.value === dimension)?.label}</th>
+                    <th className="py-2 px-3 font-bold text-right">Leads</th>
+                    <th className="py-2 px-3 font-bold text-right">Ganhos</th>
+                    <th className="py-2 px-3 font-bold text-right">Perdidos</th>
+                    <th className="py-2 px-3 font-bold text-right">Win rate</th>
+                    <th className="py-2 px-3 font-bold text-right">Ticket médio</th>
+                    <th className="py-2 px-3 font-bold text-right">Ciclo médio</th>
+                    <th className="py-2 pl-3 font-bold text-right">Velocidade</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {velocityRows.length === 0 ? (
+                    <tr><td colSpan={8} className="py-6 text-center text-zinc-500">Nenhum lead no período.</td></tr>
+                  ) : (
+                    velocityRows.map((row) => (
+                      <tr key={row.key} className={`border-b last:border-0 ${isDark ? 'border-zinc-800 text-zinc-300' : 'border-zinc-100 text-zinc-700'}`}>
+                        <td className="py-2 pr-3 font-medium">{dimension === 'product' ? PRODUCT_LABELS[row.name] ?? row.name : row.name}</td>
+                        <td className="py-2 px-3 text-right">{row.leads}</td>
+                        <td className="py-2 px-3 text-right text-green-500">{row.won}</td>
+                        <td className="py-2 px-3 text-right text-red-500">{row.lost}</td>
+                        <td className="py-2 px-3 text-right">{row.winRate.toLocaleString('pt-BR')}%</td>
+                        <td className="py-2 px-3 text-right">{row.won > 0 ? formatCurrency(row.avgDealValue) : '—'}</td>
+                        <td className="py-2 px-3 text-right">{row.avgCycleDays !== null ? `${row.avgCycleDays.toLocaleString('pt-BR')} dias` : '—'}</td>
+                        <td className="py-2 pl-3 text-right font-bold text-nexus-orange">
+                          {row.velocity !== null ? `${formatCurrency(row.velocity)}/dia` : '—'}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-[10px] text-zinc-500 mt-3">Velocidade = leads × win rate × ticket médio (MRR) ÷ ciclo médio de fechamento.</p>
+          </div>
+
+          <LossAnalysisReport isDark={isDark} filters={filters} />
+
+          <SlaComplianceReport isDark={isDark} filters={filters} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,440 @@
+import { useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { AlertTriangle, CheckCircle2, Copy, FileSpreadsheet, Upload, XCircle } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/utils/cn';
+import {
+  useUploadLeadImport,
+  usePreviewLeadImport,
+  useConfirmLeadImport,
+  useLeadOrigins,
+  useFunnelStages,
+  useVendedores,
+} from '../hooks/useLeads';
+import { ProductType } from '../types';
+import type {
+  LeadImportField,
+  LeadImportMapping,
+  LeadImportOptions,
+  LeadImportPreview,
+  LeadImportResult,
+  LeadImportUpload,
+} from '../types';
+
+interface ImportLeadsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  isDark: boolean;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'result';
+
+const FIELD_LABELS: Record<LeadImportField, string> = {
+  name: 'Nome do contato',
+  email: 'Email *',
+  phone: 'Telefone',
+  companyName: 'Empresa',
+  cpfCnpj: 'CPF/CNPJ',
+  role: 'Cargo',
+  city: 'Cidade',
+  numberOfUnits: 'Nº de unidades',
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  expectedRevenue: 'Receita esperada',
+  notes: 'Observações',
+  origin: 'Origem',
+  vendedor: 'Vendedor (email ou nome)',
+};
+
+const STATUS_STYLES = {
+  VALID: { label: 'Válida', className: 'bg-green-500/10 text-green-500' },
+  DUPLICATE: { label: 'Duplicado', className: 'bg-amber-500/10 text-amber-500' },
+  ERROR: { label: 'Erro', className: 'bg-red-500/10 text-red-500' },
+} as const;
+
+/**
+ * Importação de leads em lote (CSV/XLSX)
+ * Envio → mapeamento de colunas → pré-visualização (dry-run) → resultado
+ */
+export function ImportLeadsModal({ isOpen, onClose, isDark }: ImportLeadsModalProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('upload');
+  const [upload, setUpload] = useState<LeadImportUpload | null>(null);
+  const [mapping, setMapping] = useState<LeadImportMapping>({});
+  const [options, setOptions] = useState<Omit<LeadImportOptions, 'mapping'>>({
+    interestProduct: ProductType.ONE_NEXUS,
+    originId: '',
+    stageId: null,
+    vendedorId: null,
+    skipDuplicates: true,
+  });
+  const [preview, setPreview] = useState<LeadImportPreview | null>(null);
+  const [result, setResult] = useState<LeadImportResult | null>(null);
+  const [onlyProblems, setOnlyProblems] = useState(true);
+
+  const { data: origins = [] } = useLeadOrigins();
+  const { data: stages = [] } = useFunnelStages();
+  const { data: vendedores = [] } = useVendedores();
+  const uploadMutation = useUploadLeadImport();
+  const previewMutation = usePreviewLeadImport();
+  const confirmMutation = useConfirmLeadImport();
+
+  const handleClose = () => {
+    setStep('upload');
+    setUpload(null);
+    setMapping({});
+    setPreview(null);
+    setResult(null);
+    onClose();
+  };
+
+  const handleFile = (file?: File) => {
+    if (!file) return;
+    uploadMutation.mutate(file, {
+      onSuccess: (data) => {
+        setUpload(data);
+        setMapping(data.suggestedMapping);
+        setStep('mapping');
+      },
+    });
+  };
+
+  const payload = (): LeadImportOptions => ({ ...options, mapping });
+
+  const handlePreview = () => {
+    if (!upload) return;
+    previewMutation.mutate(
+      { id: upload.id, options: payload() },
+      {
+        onSuccess: (data) => {
+          setPreview(data);
+          setStep('preview');
+        },
+      },
+    );
+  };
+
+  const handleConfirm = () => {
+    if (!upload) return;
+    confirmMutation.mutate(
+      { id: upload.id, options: payload() },
+      {
+        onSuccess: (response) => {
+          setResult(response.data);
+          setStep('result');
+        },
+      },
+    );
+  };
+
+  const inputClass = cn(
+    'w-full px-3 py-2 rounded-lg border text-sm outline-none transition-colors',
+    isDark
+      ? 'bg-zinc-800 border-zinc-700 text-white focus:border-nexus-orange'
+      : 'bg-white border-zinc-200 text-zinc-900 focus:border-nexus-orange',
+  );
+  const labelClass = cn('block text-xs font-medium mb-1', isDark ? 'text-zinc-400' : 'text-zinc-600');
+  const canPreview =
+    mapping.email !== undefined && (mapping.name !== undefined || mapping.companyName !== undefined) && !!options.originId;
+  const importableCount = preview
+    ? preview.summary.valid + (options.skipDuplicates ? 0 : preview.summary.duplicates)
+    : 0;
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Importar Leads" size="full">
+      {step === 'upload' && (
+        <div
+          className={cn(
+            'flex flex-col items-center justify-center gap-3 py-16 rounded-2xl border-2 border-dashed cursor-pointer transition-colors',
+            isDark ? 'border-zinc-700 hover:border-nexus-orange' : 'border-zinc-300 hover:border-nexus-orange',
+          )}
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleFile(e.dataTransfer.files[0]);
+          }}
+        >
+          {uploadMutation.isPending ? (
+            <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+          ) : (
+            <FileSpreadsheet size={40} className={isDark ? 'text-zinc-600' : 'text-zinc-300'} />
+          )}
+          <p className={cn('text-sm font-medium', isDark ? 'text-zinc-200' : 'text-zinc-800')}>
+            Arraste a planilha ou clique para selecionar
+          </p>
+          <p className="text-xs text-zinc-500">
+            CSV ou XLSX com cabeçalho na primeira linha · até 2.000 leads por arquivo
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,.xlsx"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+
+      {step === 'mapping' && upload && (
+        <div className="space-y-5 max-h-[75vh] overflow-y-auto scrollbar-thin pr-1">
+          <p className="text-sm text-zinc-500">
+            <span className="font-medium">{upload.fileName}</span> · {upload.totalRows} linha(s). Associe as colunas do
+            arquivo aos campos do lead — colunas reconhecidas pelo nome já vêm preenchidas.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {(Object.keys(FIELD_LABELS) as LeadImportField[]).map((field) => (
+              <div key={field}>
+                <label className={labelClass}>{FIELD_LABELS[field]}</label>
+                <select
+                  className={inputClass}
+                  value={mapping[field] ?? ''}
+                  onChange={(e) =>
+                    setMapping((prev) => {
+                      const next = { ...prev };
+                      if (e.target.value === '') delete next[field];
+                      else next[field] = Number(e.target.value);
+                      return next;
+                    })
+                  }
+                >
+                  <option value="">— não importar —</option>
+                  {upload.headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className={cn('grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3 pt-4 border-t', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+            <div>
+              <label className={labelClass}>Produto de interesse *</label>
+              <select
+                className={inputClass}
+                value={options.interestProduct}
+                onChange={(e) => setOptions({ ...options, interestProduct: e.target.value as ProductType })}
+              >
+                <option value={ProductType.ONE_NEXUS}>One Nexus</option>
+                <option value={ProductType.LOCADORAS}>Nexloc</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Origem padrão *</label>
+              <select
+                className={inputClass}
+                value={options.originId}
+                onChange={(e) => setOptions({ ...options, originId: e.target.value })}
+              >
+                <option value="">Selecione...</option>
+                {origins.filter((origin) => origin.isActive).map((origin) => (
+                  <option key={origin.id} value={origin.id}>
+                    {origin.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Estágio</label>
+              <select
+                className={inputClass}
+                value={options.stageId ?? ''}
+                onChange={(e) => setOptions({ ...options, stageId: e.target.value || null })}
+              >
+                <option value="">Estágio inicial do funil</option>
+                {stages.filter((stage) => stage.isActive).map((stage) => (
+                  <option key={stage.id} value={stage.id}>
+                    {stage.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Vendedor</label>
+              <select
+                className={inputClass}
+                value={options.vendedorId ?? ''}
+                onChange={(e) => setOptions({ ...options, vendedorId: e.target.value || null })}
+              >
+                <option value="">Coluna do arquivo / regras de atribuição</option>
+                {vendedores.map((vendedor) => (
+                  <option key={vendedor.id} value={vendedor.id}>
+                    {vendedor.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-zinc-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.skipDuplicates}
+              onChange={(e) => setOptions({ ...options, skipDuplicates: e.target.checked })}
+              className="accent-nexus-orange"
+            />
+            Ignorar linhas que já existem como lead (mesmo email, telefone ou CPF/CNPJ)
+          </label>
+
+          {upload.sampleRows.length > 0 && (
+            <div className={cn('rounded-xl border overflow-x-auto', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+              <table className="w-full text-xs">
+                <thead className={isDark ? 'bg-zinc-900' : 'bg-zinc-50'}>
+                  <tr>
+                    {upload.headers.map((header, index) => (
+                      <th key={index} className="px-3 py-2 text-left font-medium text-zinc-500 whitespace-nowrap">
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className={cn('divide-y', isDark ? 'divide-zinc-800' : 'divide-zinc-100')}>
+                  {upload.sampleRows.map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      {upload.headers.map((_, index) => (
+                        <td key={index} className={cn('px-3 py-2 whitespace-nowrap', isDark ? 'text-zinc-300' : 'text-zinc-700')}>
+                          {row[index]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={handleClose}>
+              Cancelar
+            </Button>
+            <Button onClick={handlePreview} disabled={!canPreview || previewMutation.isPending}>
+              {previewMutation.isPending ? 'Validando...' : 'Validar linhas'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && preview && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <SummaryCard label="Linhas" value={preview.summary.total} isDark={isDark} />
+            <SummaryCard label="Válidas" value={preview.summary.valid} className="text-green-500" isDark={isDark} />
+            <SummaryCard label="Duplicados" value={preview.summary.duplicates} className="text-amber-500" isDark={isDark} />
+            <SummaryCard label="Com erro" value={preview.summary.errors} className="text-red-500" isDark={isDark} />
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-zinc-500 cursor-pointer">
+            <input type="checkbox" checked={onlyProblems} onChange={(e) => setOnlyProblems(e.target.checked)} className="accent-nexus-orange" />
+            Mostrar apenas duplicados e erros
+          </label>
+
+          <div className={cn('rounded-xl border max-h-[50vh] overflow-y-auto scrollbar-thin', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+            <table className="w-full text-xs">
+              <thead className={cn('sticky top-0', isDark ? 'bg-zinc-900' : 'bg-zinc-50')}>
+                <tr>
+                  {['Linha', 'Status', 'Contato', 'Cidade', 'Detalhes'].map((header) => (
+                    <th key={header} className="px-3 py-2 text-left font-medium uppercase tracking-wide text-zinc-500">
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className={cn('divide-y', isDark ? 'divide-zinc-800' : 'divide-zinc-100')}>
+                {preview.rows
+                  .filter((row) => !onlyProblems || row.status !== 'VALID')
+                  .map((row) => (
+                    <tr key={row.row}>
+                      <td className="px-3 py-2 text-zinc-500">{row.row}</td>
+                      <td className="px-3 py-2">
+                        <span className={cn('inline-flex px-2 py-0.5 rounded-full font-medium', STATUS_STYLES[row.status].className)}>
+                          {STATUS_STYLES[row.status].label}
+                        </span>
+                      </td>
+                      <td className={cn('px-3 py-2', isDark ? 'text-zinc-300' : 'text-zinc-700')}>
+                        {row.companyName || row.name || '—'}
+                        <p className="text-zinc-500">{row.email}</p>
+                      </td>
+                      <td className="px-3 py-2 text-zinc-500">{row.city || '—'}</td>
+                      <td className="px-3 py-2">
+                        {row.errors.map((error) => (
+                          <p key={error} className="text-red-500">{error}</p>
+                        ))}
+                        {row.duplicateOf && (
+                          <p className="text-amber-500">
+                            {row.duplicateOf.reason}: {row.duplicateOf.label}
+                          </p>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setStep('mapping')}>
+              Ajustar mapeamento
+            </Button>
+            <Button onClick={handleConfirm} disabled={importableCount === 0 || confirmMutation.isPending}>
+              <Upload size={14} className="mr-1" />
+              {confirmMutation.isPending ? 'Importando...' : `Importar ${importableCount} lead(s)`}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'result' && result && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <ResultCard icon={<CheckCircle2 size={18} className="text-green-500" />} label="Leads criados" value={result.created} isDark={isDark} />
+            <ResultCard icon={<Copy size={18} className="text-amber-500" />} label="Duplicados ignorados" value={result.skipped} isDark={isDark} />
+            <ResultCard icon={<XCircle size={18} className="text-red-500" />} label="Não importados" value={result.errors.length} isDark={isDark} />
+          </div>
+
+          {result.errors.length > 0 && (
+            <div className={cn('rounded-xl border p-3 max-h-[40vh] overflow-y-auto scrollbar-thin space-y-1', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+              {result.errors.map((failure) => (
+                <p key={failure.row} className="text-xs text-zinc-500 flex gap-2">
+                  <AlertTriangle size={12} className="text-red-500 shrink-0 mt-0.5" />
+                  Linha {failure.row}: {failure.errors.join(' · ')}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={handleClose}>Concluir</Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+function SummaryCard({ label, value, className, isDark }: { label: string; value: number; className?: string; isDark: boolean }) {
+  return (
+    <div className={cn('rounded-xl border p-3', isDark ? 'border-zinc-800 bg-zinc-900/50' : 'border-zinc-200 bg-white')}>
+      <p className="text-[10px] uppercase font-bold text-zinc-500 tracking-widest">{label}</p>
+      <p className={cn('text-xl font-black', className ?? (isDark ? 'text-white' : 'text-zinc-900'))}>{value}</p>
+    </div>
+  );
+}
+
+function ResultCard({ icon, label, value, isDark }: { icon: ReactNode; label: string; value: number; isDark: boolean }) {
+  return (
+    <div className={cn('flex items-center gap-3 rounded-xl border p-4', isDark ? 'border-zinc-800 bg-zinc-900/50' : 'border-zinc-200 bg-white')}>
+      {icon}
+      <div>
+        <p className={cn('text-xl font-black', isDark ? 'text-white' : 'text-zinc-900')}>{value}</p>
+        <p className="text-xs text-zinc-500">{label}</p>
+      </div>
+    </div>
+  );
+}
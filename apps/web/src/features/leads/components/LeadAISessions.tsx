@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Bot, ChevronDown, ChevronRight } from 'lucide-react';
+import { useAIConversations, useAIConversation } from '@/hooks/useSalesAI';
+
+interface LeadAISessionsProps {
+  leadId: string;
+  isDark: boolean;
+}
+
+/**
+ * Sessões do Sales AI sobre o lead (próprias e, para gestores, da equipe)
+ * Clique em uma sessão para ler as mensagens salvas
+ */
+export function LeadAISessions({ leadId, isDark }: LeadAISessionsProps) {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const { data: sessions = [], isLoading } = useAIConversations({ contextType: 'LEAD', contextId: leadId });
+  const { data: detail, isLoading: isLoadingDetail } = useAIConversation(openId);
+
+  return (
+    <div className={`p-6 border-t max-h-[40%] overflow-y-auto scrollbar-thin ${isDark ? 'border-zinc-800' : 'border-zinc-200'}`}>
+      <h3 className={`text-xs font-bold uppercase tracking-widest flex items-center gap-2 mb-4 ${isDark ? 'text-zinc-400' : 'text-zinc-600'}`}>
+        <Bot size={16} className="text-nexus-orange" /> Sessões de IA
+      </h3>
+
+      {isLoading ? (
+        <p className="text-[10px] text-zinc-500">Carregando...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-[10px] text-zinc-500 italic">Nenhuma conversa com o Sales AI sobre este lead.</p>
+      ) : (
+        <div className="space-y-2">
+          {sessions.map((session) => {
+            const isOpen = openId === session.id;
+            return (
+              <div key={session.id} className={`rounded-xl border ${isDark ? 'bg-zinc-800/40 border-zinc-800' : 'bg-white border-zinc-200 shadow-sm'}`}>
+                <button
+                  type="button"
+                  onClick={() => setOpenId(isOpen ? null : session.id)}
+                  className="w-full p-3 flex items-start gap-2 text-left"
+                >
+                  {isOpen ? <ChevronDown size={14} className="mt-0.5 text-zinc-500" /> : <ChevronRight size={14} className="mt-0.5 text-zinc-500" />}
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-xs font-semibold truncate ${isDark ? 'text-zinc-200' : 'text-zinc-800'}`}>
+                      {session.title || 'Sem título'}
+                    </p>
+                    <p className="text-[10px] text-zinc-500">
+                      {session.user.name} · {session.messageCount} mensagens · {new Date(session.updatedAt).toLocaleDateString('pt-BR')}
+                    </p>
+                  </div>
+                </button>
+
+                {isOpen && (
+                  <div className={`px-3 pb-3 space-y-2 border-t ${isDark ? 'border-zinc-800' : 'border-zinc-100'}`}>
+                    {isLoadingDetail || !detail ? (
+                      <p className="pt-2 text-[10px] text-zinc-500">Carregando...</p>
+                    ) : (
+                      detail.messages.map((message) => (
+                        <div key={message.id} className="pt-2">
+                          <span className={`text-[9px] font-bold uppercase ${message.role === 'user' ? 'text-nexus-orange' : 'text-zinc-500'}`}>
+                            {message.role === 'user' ? session.user.name : 'Nexus AI'}
+                          </span>
+                          <p className={`text-xs leading-relaxed whitespace-pre-wrap ${isDark ? 'text-zinc-300' : 'text-zinc-600'}`}>
+                            {message.content}
+                          </p>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { ArrowRightLeft, CalendarPlus, Tag, Trash2, UserPlus, X, XCircle } from 'lucide-react';
+import { useBulkLeadAction, useLossReasons } from '../hooks/useLeads';
+import type { FunnelStage, LeadBulkAction } from '../types';
+
+type BulkActionKey = LeadBulkAction['action'];
+
+interface LeadBulkActionsBarProps {
+  selectedIds: string[];
+  isDark: boolean;
+  funnelStages: FunnelStage[];
+  vendedores: Array<{ id: string; name: string }>;
+  canReassign: boolean;
+  canDelete: boolean;
+  onClear: () => void;
+}
+
+/**
+ * Barra flutuante de ações em lote (Kanban e lista)
+ * Permissões são revalidadas no backend; leads que não se aplicam voltam como ignorados
+ */
+export function LeadBulkActionsBar({
+  selectedIds,
+  isDark,
+  funnelStages,
+  vendedores,
+  canReassign,
+  canDelete,
+  onClear,
+}: LeadBulkActionsBarProps) {
+  const [activeAction, setActiveAction] = useState<BulkActionKey | null>(null);
+  const [stageId, setStageId] = useState('');
+  const [vendedorId, setVendedorId] = useState('');
+  const [lossReasonId, setLossReasonId] = useState('');
+  const [lossNotes, setLossNotes] = useState('');
+  const [tag, setTag] = useState('');
+  const [followUpAt, setFollowUpAt] = useState('');
+  const [followUpTitle, setFollowUpTitle] = useState('');
+  const { data: lossReasons = [] } = useLossReasons();
+  const bulkMutation = useBulkLeadAction();
+
+  // Ganho e Perdido têm fluxos próprios (conversão / motivo de perda)
+  const openStages = funnelStages
+    .filter(s => s.isActive && s.name !== 'Ganho' && s.name !== 'Perdido')
+    .sort((a, b) => a.order - b.order);
+
+  if (selectedIds.length === 0) return null;
+
+  const buildAction = (): LeadBulkAction | null => {
+    switch (activeAction) {
+      case 'stage':
+        return stageId ? { action: 'stage', payload: { stageId } } : null;
+      case 'reassign':
+        return vendedorId ? { action: 'reassign', payload: { vendedorId } } : null;
+      case 'lose': {
+        const reasonId = lossReasonId || lossReasons[0]?.id;
+        return reasonId ? { action: 'lose', payload: { lossReasonId: reasonId, lossNotes: lossNotes.trim() || undefined } } : null;
+      }
+      case 'tags':
+        return tag.trim() ? { action: 'tags', payload: { tag: tag.trim() } } : null;
+      case 'follow-up':
+        return followUpAt
+          ? { action: 'follow-up', payload: { startAt: new Date(followUpAt).toISOString(), title: followUpTitle.trim() || undefined } }
+          : null;
+      case 'delete':
+        return { action: 'delete', payload: {} };
+      default:
+        return null;
+    }
+  };
+
+  const handleApply = () => {
+    const bulk = buildAction();
+    if (!bulk) return;
+
+    if (bulk.action === 'delete' && !confirm(`Excluir ${selectedIds.length} lead(s)? Esta ação não pode ser desfeita.`)) {
+      return;
+    }
+
+    bulkMutation.mutate(
+      { leadIds: selectedIds, ...bulk },
+      {
+        onSuccess: () => {
+          setActiveAction(null);
+          setTag('');
+          setLossNotes('');
+          setFollowUpTitle('');
+          onClear();
+        },
+      },
+    );
+  };
+
+  const actions: Array<{ key: BulkActionKey; label: string; icon: typeof Tag; visible: boolean }> = [
+    { key: 'stage', label: 'Mover', icon: ArrowRightLeft, visible: true },
+    { key: 'reassign', label: 'Reatribuir', icon: UserPlus, visible: canReassign },
+    { key: 'lose', label: 'Perdido', icon: XCircle, visible: true },
+    { key: 'tags', label: 'Etiqueta', icon: Tag, visible: true },
+    { key: 'follow-up', label: 'Follow-up', icon: CalendarPlus, visible: true },
+    { key: 'delete', label: 'Excluir', icon: Trash2, visible: canDelete },
+  ];
+
+  const inputClass = `px-3 py-2 rounded-xl border text-sm outline-none focus:border-nexus-orange ${
+    isDark ? 'bg-zinc-950 border-zinc-800 text-white' : 'bg-white border-zinc-200 text-zinc-900'
+  }`;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-4xl animate-in slide-in-from-bottom-4 duration-300">
+      <div className={`rounded-2xl border shadow-2xl p-3 ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200'}`}>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`text-sm font-bold px-2 ${isDark ? 'text-white' : 'text-zinc-900'}`}>
+            {selectedIds.length} selecionado(s)
+          </span>
+          <div className="flex flex-wrap gap-1 flex-1">
+            {actions.filter(a => a.visible).map(({ key, label, icon: Icon }) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setActiveAction(activeAction === key ? null : key)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold transition-all ${
+                  activeAction === key
+                    ? key === 'delete' ? 'bg-red-500 text-white' : 'bg-nexus-orange text-white'
+                    : key === 'delete'
+                      ? 'text-red-500 hover:bg-red-500/10'
+                      : isDark ? 'text-zinc-300 hover:bg-zinc-800' : 'text-zinc-600 hover:bg-zinc-100'
+                }`}
+              >
+                <Icon size={14} /> {label}
+              </button>
+            ))}
+          </div>
+          <button type="button" onClick={onClear} className="p-2 text-zinc-500 hover:text-nexus-orange" title="Limpar seleção">
+            <X size={16} />
+          </button>
+        </div>
+
+        {activeAction && (
+          <div className={`flex flex-wrap items-center gap-2 mt-3 pt-3 border-t ${isDark ? 'border-zinc-800' : 'border-zinc-100'}`}>
+            {activeAction === 'stage' && (
+              <select value={stageId} onChange={e => setStageId(e.target.value)} className={`${inputClass} flex-1 min-w-[180px]`}>
+                <option value="">Estágio de destino…</option>
+                {openStages.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+            )}
+
+            {activeAction === 'reassign' && (
+              <select value={vendedorId} onChange={e => setVendedorId(e.target.value)} className={`${inputClass} flex-1 min-w-[180px]`}>
+                <option value="">Novo vendedor…</option>
+                {vendedores.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+              </select>
+            )}
+
+            {activeAction === 'lose' && (
+              <>
+                <select
+                  value={lossReasonId || lossReasons[0]?.id || ''}
+                  onChange={e => setLossReasonId(e.target.value)}
+                  className={`${inputClass} min-w-[180px]`}
+                >
+                  {lossReasons.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                </select>
+                <input
+                  value={lossNotes}
+                  onChange={e => setLossNotes(e.target.value)}
+                  placeholder="Observação (opcional)"
+                  maxLength={1000}
+                  className={`${inputClass} flex-1 min-w-[160px]`}
+                />
+              </>
+            )}
+
+            {activeAction === 'tags' && (
+              <input
+                value={tag}
+                onChange={e => setTag(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleApply()}
+                placeholder="Nome da etiqueta"
+                maxLength={40}
+                className={`${inputClass} flex-1 min-w-[180px]`}
+              />
+            )}
+
+            {activeAction === 'follow-up' && (
+              <>
+                <input
+                  type="datetime-local"
+                  value={followUpAt}
+                  onChange={e => setFollowUpAt(e.target.value)}
+                  className={`${inputClass} min-w-[200px]`}
+                />
+                <input
+                  value={followUpTitle}
+                  onChange={e => setFollowUpTitle(e.target.value)}
+                  placeholder="Título (padrão: Follow-up)"
+                  maxLength={200}
+                  className={`${inputClass} flex-1 min-w-[160px]`}
+                />
+              </>
+            )}
+
+            {activeAction === 'delete' && (
+              <span className="flex-1 text-xs text-red-500">
+                Leads convertidos em cliente são preservados.
+              </span>
+            )}
+
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={bulkMutation.isPending || !buildAction()}
+              className={`px-4 py-2 rounded-xl text-sm font-bold text-white transition-all disabled:opacity-50 ${
+                activeAction === 'delete' ? 'bg-red-500 hover:bg-red-600' : 'bg-nexus-orange hover:bg-nexus-orange/90'
+              }`}
+            >
+              {bulkMutation.isPending ? 'Aplicando…' : 'Aplicar'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
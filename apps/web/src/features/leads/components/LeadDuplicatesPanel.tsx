@@ -0,0 +1,79 @@
+import { Copy, GitMerge } from 'lucide-react';
+import { useLeadDuplicates, useMergeLeads } from '../hooks/useLeads';
+import type { LeadDuplicateMatch } from '../types';
+
+interface LeadDuplicatesPanelProps {
+  leadId: string;
+  isDark: boolean;
+  canMerge: boolean;
+}
+
+export const DUPLICATE_REASON_LABELS: Record<LeadDuplicateMatch, string> = {
+  EMAIL: 'Email',
+  PHONE: 'Telefone',
+  CNPJ: 'CPF/CNPJ',
+  COMPANY_NAME: 'Empresa',
+};
+
+/**
+ * Possíveis duplicados do lead aberto no modal
+ * "Mesclar aqui" absorve o outro lead neste (interações, agenda, submissões e notas)
+ */
+export function LeadDuplicatesPanel({ leadId, isDark, canMerge }: LeadDuplicatesPanelProps) {
+  const { data: matches = [] } = useLeadDuplicates(leadId);
+  const mergeMutation = useMergeLeads();
+
+  if (matches.length === 0) return null;
+
+  const handleMerge = (duplicateId: string, label: string) => {
+    if (confirm(`Mesclar "${label}" neste lead? O outro lead será removido após a transferência do histórico.`)) {
+      mergeMutation.mutate({ leadId, duplicateId });
+    }
+  };
+
+  return (
+    <div className={`p-6 border-t max-h-[30%] overflow-y-auto scrollbar-thin ${isDark ? 'border-zinc-800' : 'border-zinc-200'}`}>
+      <h3 className={`text-xs font-bold uppercase tracking-widest flex items-center gap-2 mb-4 ${isDark ? 'text-zinc-400' : 'text-zinc-600'}`}>
+        <Copy size={16} className="text-amber-500" /> Possíveis Duplicados
+      </h3>
+
+      <ul className="space-y-3">
+        {matches.map(({ lead, score, reasons }) => {
+          const label = lead.companyName || lead.name;
+          return (
+            <li key={lead.id} className={`p-3 rounded-xl border ${isDark ? 'bg-zinc-800/40 border-zinc-800' : 'bg-white border-zinc-200 shadow-sm'}`}>
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className={`text-xs font-semibold truncate ${isDark ? 'text-zinc-200' : 'text-zinc-800'}`}>{label}</p>
+                  <p className="text-[10px] text-zinc-500 truncate">
+                    {lead.stage.name} · {lead.vendedor?.name || 'Sem vendedor'} · {lead._count.interactions} interação(ões)
+                  </p>
+                </div>
+                <span className="text-[10px] font-bold text-amber-500 shrink-0">{score}%</span>
+              </div>
+              <div className="flex items-center justify-between gap-2 mt-2">
+                <div className="flex flex-wrap gap-1">
+                  {reasons.map((reason) => (
+                    <span key={reason} className="text-[9px] font-bold uppercase px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-500">
+                      {DUPLICATE_REASON_LABELS[reason]}
+                    </span>
+                  ))}
+                </div>
+                {canMerge && lead.status !== 'GANHO' && (
+                  <button
+                    type="button"
+                    onClick={() => handleMerge(lead.id, label)}
+                    disabled={mergeMutation.isPending}
+                    className="flex items-center gap-1 text-[10px] font-bold text-nexus-orange hover:underline disabled:opacity-50"
+                  >
+                    <GitMerge size={12} /> Mesclar aqui
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { ArrowRight, GitCommitVertical } from 'lucide-react';
+import { useLeadStageHistory } from '../hooks/useLeads';
+
+interface LeadStageTimelineProps {
+  leadId: string;
+  isDark: boolean;
+}
+
+/** "3 dias", "5 h", "12 min" — tempo que o lead ficou no estágio de origem */
+const formatDuration = (seconds: number): string => {
+  if (seconds < 3600) return `${Math.max(1, Math.round(seconds / 60))} min`;
+  if (seconds < 86400) return `${Math.round(seconds / 3600)} h`;
+  const days = Math.round(seconds / 86400);
+  return `${days} ${days === 1 ? 'dia' : 'dias'}`;
+};
+
+/**
+ * Histórico de movimentações do lead no funil (quem moveu, de/para e quando)
+ */
+export function LeadStageTimeline({ leadId, isDark }: LeadStageTimelineProps) {
+  const { data: entries = [], isLoading } = useLeadStageHistory(leadId);
+
+  return (
+    <div className={`p-6 border-t max-h-[35%] overflow-y-auto scrollbar-thin ${isDark ? 'border-zinc-800' : 'border-zinc-200'}`}>
+      <h3 className={`text-xs font-bold uppercase tracking-widest flex items-center gap-2 mb-4 ${isDark ? 'text-zinc-400' : 'text-zinc-600'}`}>
+        <GitCommitVertical size={16} className="text-nexus-orange" /> Movimentações no Funil
+      </h3>
+
+      {isLoading ? (
+        <p className="text-[10px] text-zinc-500">Carregando...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-[10px] text-zinc-500 italic">Nenhuma mudança de estágio registrada.</p>
+      ) : (
+        <ol className={`relative border-l ml-1.5 space-y-4 ${isDark ? 'border-zinc-800' : 'border-zinc-200'}`}>
+          {entries.map((entry) => (
+            <li key={entry.id} className="pl-4 relative">
+              <span
+                className="absolute -left-[5px] top-1 w-2.5 h-2.5 rounded-full"
+                style={{ backgroundColor: entry.toStage.color }}
+              />
+              <div className="flex items-center gap-1.5 flex-wrap text-xs font-semibold">
+                {entry.fromStage ? (
+                  <>
+                    <span className="text-zinc-500">{entry.fromStage.name}</span>
+                    <ArrowRight size={12} className="text-zinc-500" />
+                  </>
+                ) : (
+                  <span className="text-zinc-500">Entrou em</span>
+                )}
+                <span className={isDark ? 'text-zinc-200' : 'text-zinc-800'}>{entry.toStage.name}</span>
+              </div>
+              <p className="text-[10px] text-zinc-500">
+                {entry.changedBy?.name || 'Integração'} · {new Date(entry.changedAt).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                {entry.fromStage && entry.timeInStageSeconds !== null && (
+                  <> · {formatDuration(entry.timeInStageSeconds)} em {entry.fromStage.name}</>
+                )}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { TrendingDown } from 'lucide-react';
+import { formatCurrency } from '@/utils/formatters';
+import { useLossReport } from '../hooks/useLeads';
+import type { FunnelReportFilters, LossBreakdownRow } from '../types';
+
+interface LossAnalysisReportProps {
+  isDark: boolean;
+  filters: FunnelReportFilters;
+}
+
+type Breakdown = 'byReason' | 'byStage' | 'byVendedor';
+
+const BREAKDOWNS: Array<{ value: Breakdown; label: string }> = [
+  { value: 'byReason', label: 'Motivo' },
+  { value: 'byStage', label: 'Estágio' },
+  { value: 'byVendedor', label: 'Vendedor' },
+];
+
+/**
+ * Análise de perdas: quantos leads e quanto MRR foi perdido
+ * por motivo, estágio em que o lead saiu do funil e vendedor
+ */
+export function LossAnalysisReport({ isDark, filters }: LossAnalysisReportProps) {
+  const [breakdown, setBreakdown] = useState<Breakdown>('byReason');
+  const { data: report, isLoading } = useLossReport(filters);
+
+  const rows: LossBreakdownRow[] = report?.[breakdown] ?? [];
+  const maxRevenue = Math.max(1, ...rows.map((r) => r.revenue));
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1 text-[10px] md:text-xs font-bold rounded-lg transition-all ${
+      active
+        ? 'bg-nexus-orange text-white'
+        : isDark
+          ? 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+          : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200'
+    }`;
+
+  return (
+    <div className={`border p-4 md:p-6 rounded-2xl ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200 shadow-sm'}`}>
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between mb-4">
+        <div>
+          <h3 className={`text-sm font-bold flex items-center gap-2 ${isDark ? 'text-white' : 'text-zinc-900'}`}>
+            <TrendingDown size={16} className="text-red-500" /> Análise de perdas
+          </h3>
+          {report && (
+            <p className="text-xs text-zinc-500 mt-1">
+              {report.totalLost} leads perdidos no período · {formatCurrency(report.lostRevenue)}/mês em receita perdida
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {BREAKDOWNS.map((b) => (
+            <button key={b.value} onClick={() => setBreakdown(b.value)} className={toggleClass(breakdown === b.value)}>
+              {b.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <div className={`h-32 rounded-xl animate-pulse ${isDark ? 'bg-zinc-800' : 'bg-zinc-100'}`} />
+      ) : rows.length === 0 ? (
+        <p className="py-6 text-center text-xs text-zinc-500">Nenhuma perda no período.</p>
+      ) : (
+        <div className="space-y-3">
+          {rows.map((row) => (
+            <div key={row.key}>
+              <div className="flex justify-between text-xs mb-1">
+                <span className={`font-medium ${isDark ? 'text-zinc-300' : 'text-zinc-700'}`}>{row.name}</span>
+                <span className="text-zinc-500">
+                  {row.count} ({row.share.toLocaleString('pt-BR')}%) · <span className="font-bold text-red-500">{formatCurrency(row.revenue)}</span>
+                </span>
+              </div>
+              <div className={`h-2 rounded-full overflow-hidden ${isDark ? 'bg-zinc-800' : 'bg-zinc-100'}`}>
+                <div
+                  className="h-full rounded-full bg-red-500"
+                  style={{ width: `${(row.revenue / maxRevenue) * 100}%`, backgroundColor: row.color ?? undefined }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-[10px] text-zinc-500 mt-3">Período pela data da perda · receita = valor esperado do lead ou MRR do plano de interesse.</p>
+    </div>
+  );
+}
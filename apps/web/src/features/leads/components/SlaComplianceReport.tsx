@@ -0,0 +1,124 @@
+import { Fragment, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { useSlaComplianceReport } from '../hooks/useLeads';
+import type { FunnelReportFilters, LeadSlaType, SlaComplianceStats } from '../types';
+
+interface SlaComplianceReportProps {
+  isDark: boolean;
+  filters: FunnelReportFilters;
+}
+
+const TYPES: Array<{ value: LeadSlaType | ''; label: string }> = [
+  { value: '', label: 'Todos' },
+  { value: 'FIRST_CONTACT', label: '1º contato' },
+  { value: 'FOLLOW_UP', label: 'Follow-up' },
+];
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return '—';
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 1440) return `${(minutes / 60).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} h`;
+  return `${(minutes / 1440).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} dias`;
+};
+
+const rateColor = (rate: number) => (rate >= 90 ? 'text-green-500' : rate >= 70 ? 'text-yellow-500' : 'text-red-500');
+
+/**
+ * Cumprimento dos SLAs de resposta por equipe (gestor) e vendedor
+ * Período = prazos vencidos no intervalo do relatório do funil
+ */
+export function SlaComplianceReport({ isDark, filters }: SlaComplianceReportProps) {
+  const [type, setType] = useState<LeadSlaType | ''>('');
+  const { data: report, isLoading } = useSlaComplianceReport({
+    from: filters.from,
+    to: filters.to,
+    type: type || undefined,
+  });
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1 text-[10px] md:text-xs font-bold rounded-lg transition-all ${
+      active
+        ? 'bg-nexus-orange text-white'
+        : isDark
+          ? 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+          : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200'
+    }`;
+
+  const statCells = (stats: SlaComplianceStats) => (
+    <>
+      <td className="py-2 px-3 text-right">{stats.total}</td>
+      <td className="py-2 px-3 text-right">{stats.breached}</td>
+      <td className="py-2 px-3 text-right">{stats.escalated}</td>
+      <td className="py-2 px-3 text-right">{formatMinutes(stats.avgResponseMinutes)}</td>
+      <td className={`py-2 pl-3 text-right font-bold ${rateColor(stats.complianceRate)}`}>
+        {stats.complianceRate.toLocaleString('pt-BR')}%
+      </td>
+    </>
+  );
+
+  return (
+    <div className={`border p-4 md:p-6 rounded-2xl ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200 shadow-sm'}`}>
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between mb-4">
+        <div>
+          <h3 className={`text-sm font-bold flex items-center gap-2 ${isDark ? 'text-white' : 'text-zinc-900'}`}>
+            <Timer size={16} className="text-nexus-orange" /> Cumprimento de SLA
+          </h3>
+          {report && report.summary.total > 0 && (
+            <p className="text-xs text-zinc-500 mt-1">
+              {report.summary.met} de {report.summary.total} prazos cumpridos ·{' '}
+              <span className={`font-bold ${rateColor(report.summary.complianceRate)}`}>
+                {report.summary.complianceRate.toLocaleString('pt-BR')}%
+              </span>{' '}
+              · resposta média {formatMinutes(report.summary.avgResponseMinutes)}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {TYPES.map((t) => (
+            <button key={t.value} onClick={() => setType(t.value)} className={toggleClass(type === t.value)}>
+              {t.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <div className={`h-32 rounded-xl animate-pulse ${isDark ? 'bg-zinc-800' : 'bg-zinc-100'}`} />
+      ) : report.teams.length === 0 ? (
+        <p className="py-6 text-center text-xs text-zinc-500">Nenhum prazo de SLA apurado no período.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className={`text-left ${isDark ? 'text-zinc-500' : 'text-zinc-400'}`}>
+                <th className="py-2 pr-3 font-bold uppercase tracking-wider">Equipe / vendedor</th>
+                <th className="py-2 px-3 font-bold uppercase tracking-wider text-right">Prazos</th>
+                <th className="py-2 px-3 font-bold uppercase tracking-wider text-right">Estourados</th>
+                <th className="py-2 px-3 font-bold uppercase tracking-wider text-right">Escalados</th>
+                <th className="py-2 px-3 font-bold uppercase tracking-wider text-right">Resposta média</th>
+                <th className="py-2 pl-3 font-bold uppercase tracking-wider text-right">Cumprimento</th>
+              </tr>
+            </thead>
+            <tbody className={isDark ? 'text-zinc-300' : 'text-zinc-700'}>
+              {report.teams.map((team) => (
+                <Fragment key={team.gestorId ?? 'none'}>
+                  <tr className={`border-t font-bold ${isDark ? 'border-zinc-800' : 'border-zinc-100'}`}>
+                    <td className="py-2 pr-3">{team.name}</td>
+                    {statCells(team)}
+                  </tr>
+                  {team.vendedores.map((v) => (
+                    <tr key={v.vendedorId ?? 'none'} className="text-zinc-500">
+                      <td className="py-1.5 pr-3 pl-4">{v.name}</td>
+                      {statCells(v)}
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="text-[10px] text-zinc-500 mt-3">Prazos vencidos no período · contato = interação registrada no lead (anotações internas não contam).</p>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { leadsApi, funnelStagesApi, usersApi, plansApi, leadOriginsApi } from '../services/leads.api';
+import { leadsApi, funnelStagesApi, usersApi, plansApi, leadOriginsApi, lossReasonsApi, leadSlaApi, leadDuplicatesApi, leadImportsApi } from '../services/leads.api';
 import type {
   CreateLeadDto,
   UpdateLeadDto,
@@ -9,12 +9,18 @@ import type {
   CreateFunnelStageDto,
   UpdateFunnelStageDto,
   ConvertLeadPayload,
+  FunnelReportFilters,
+  LeadSlaType,
+  LeadImportOptions,
+  LeadBulkAction,
 } from '../types';
 
 export const useLeads = (filters?: {
   status?: LeadStatus;
   productType?: ProductType;
   vendedorId?: string;
+  tags?: string;
+  cf?: Record<string, string>;
 }) => {
   return useQuery({
     queryKey: ['leads', filters],
@@ -154,6 +160,121 @@ export const useAddInteraction = () => {
   });
 };
 
+/**
+ * Hook para a linha do tempo de estágios do lead
+ * (chave sob ['leads'] → invalidada junto com as mutações de lead)
+ */
+export const useLeadStageHistory = (leadId: string | null) => {
+  return useQuery({
+    queryKey: ['leads', leadId, 'stage-history'],
+    queryFn: () => leadsApi.getStageHistory(leadId!),
+    enabled: !!leadId,
+  });
+};
+
+/**
+ * Hook para o relatório de velocidade do funil
+ */
+export const useFunnelReport = (filters?: FunnelReportFilters) => {
+  return useQuery({
+    queryKey: ['leads', 'funnel-report', filters],
+    queryFn: () => leadsApi.getFunnelReport(filters),
+    staleTime: 1000 * 60 * 5, // 5 minutos
+  });
+};
+
+/**
+ * Hook para a análise de perdas (mesmos filtros do relatório do funil)
+ */
+export const useLossReport = (filters?: FunnelReportFilters) => {
+  return useQuery({
+    queryKey: ['leads', 'loss-report', filters],
+    queryFn: () => leadsApi.getLossReport(filters),
+    staleTime: 1000 * 60 * 5, // 5 minutos
+  });
+};
+
+/**
+ * Hook para prazos de SLA estourados (destaque dos cards no Kanban)
+ */
+export const useSlaBreaches = () => {
+  return useQuery({
+    queryKey: ['lead-sla', 'breaches'],
+    queryFn: leadSlaApi.getOpenBreaches,
+    refetchInterval: 1000 * 60 * 5, // acompanha o cron de apuração
+  });
+};
+
+/**
+ * Hook para o relatório de cumprimento de SLA
+ */
+export const useSlaComplianceReport = (filters?: { from?: string; to?: string; type?: LeadSlaType }) => {
+  return useQuery({
+    queryKey: ['lead-sla', 'report', filters],
+    queryFn: () => leadSlaApi.getComplianceReport(filters),
+    staleTime: 1000 * 60 * 5, // 5 minutos
+  });
+};
+
+// ══════════════════════════════════════════════════════════════════════════════
+// 🔁 DUPLICATES HOOKS
+// ══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Hook para a fila de possíveis duplicados
+ */
+export const useDuplicateQueue = (enabled = true) => {
+  return useQuery({
+    queryKey: ['leads', 'duplicates'],
+    queryFn: leadDuplicatesApi.getQueue,
+    enabled,
+    staleTime: 1000 * 60 * 5, // 5 minutos (fila alimentada pelo cron a cada 30 min)
+  });
+};
+
+/**
+ * Hook para os possíveis duplicados de um lead
+ */
+export const useLeadDuplicates = (leadId: string | null) => {
+  return useQuery({
+    queryKey: ['leads', leadId, 'duplicates'],
+    queryFn: () => leadDuplicatesApi.getForLead(leadId!),
+    enabled: !!leadId,
+  });
+};
+
+export const useDismissDuplicate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (candidateId: string) => leadDuplicatesApi.dismiss(candidateId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leads', 'duplicates'] });
+      toast.success('Par marcado como não duplicado');
+    },
+    onError: (e: any) => {
+      toast.error(e?.response?.data?.message || 'Erro ao ignorar duplicado');
+    },
+  });
+};
+
+export const useMergeLeads = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ leadId, duplicateId }: { leadId: string; duplicateId: string }) =>
+      leadDuplicatesApi.merge(leadId, duplicateId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leads'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['lead-sla'], exact: false });
+      toast.success('Leads mesclados com sucesso!');
+    },
+    onError: (e: any) => {
+      toast.error(e?.response?.data?.message || 'Erro ao mesclar leads');
+    },
+  });
+};
+
 // ══════════════════════════════════════════════════════════════════════════════
 // 🎯 FUNNEL STAGES HOOKS (Pipeline Configuration)
 // ══════════════════════════════════════════════════════════════════════════════
@@ -247,6 +368,112 @@ export const usePlans = () => {
   });
 };
 
+// ══════════════════════════════════════════════════════════════════════════════
+// 📥 IMPORTAÇÃO / EXPORTAÇÃO EM LOTE
+// ══════════════════════════════════════════════════════════════════════════════
+
+export const useUploadLeadImport = () => {
+  return useMutation({
+    mutationFn: (file: File) => leadImportsApi.upload(file),
+    onError: (e: any) => {
+      toast.error(e?.response?.data?.message || 'Erro ao ler a planilha');
+    },
+  });
+};
+
+export const usePreviewLeadImport = () => {
+  return useMutation({
+    mutationFn: ({ id, options }: { id: string; options: LeadImportOptions }) => leadImportsApi.preview(id, options),
+    onError: (e: any) => {
+      toast.error(e?.response?.data?.message || 'Erro ao validar a importação');
+    },
+  });
+};
+
+export const useConfirmLeadImport = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, options }: { id: string; options: LeadImportOptions }) => leadImportsApi.confirm(id, options),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      toast.success(response.message || 'Leads importados');
+    },
+    onError: (e: any) => {
+      toast.error(e?.response?.data?.message || 'Erro ao importar leads');
+    },
+  });
+};
+
+/**
+ * Baixa a listagem filtrada (CSV ou XLSX)
+ */
+export const useExportLeads = () => {
+  return useMutation({
+    mutationFn: (params: Parameters<typeof leadsApi.exportLeads>[0]) => leadsApi.exportLeads(params),
+    onSuccess: (blob, params) => {
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `leads-${new Date().toISOString().slice(0, 10)}.${params.format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: () => {
+      toast.error('Erro ao exportar leads');
+    },
+  });
+};
+
+/**
+ * Baixa anexo de e-mail recebido (interações da caixa de captura)
+ */
+export const useDownloadEmailAttachment = () => {
+  return useMutation({
+    mutationFn: (attachment: { id: string; fileName: string }) => leadsApi.downloadEmailAttachment(attachment.id),
+    onSuccess: (blob, attachment) => {
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = attachment.fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: () => {
+      toast.error('Erro ao baixar anexo');
+    },
+  });
+};
+
+/**
+ * Ação em lote (mover, reatribuir, perder, etiquetar, follow-up, excluir)
+ * Leads pulados pelo backend aparecem no aviso com o motivo
+ */
+export const useBulkLeadAction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ leadIds, ...bulk }: { leadIds: string[] } & LeadBulkAction) =>
+      leadsApi.bulkAction(leadIds, bulk as LeadBulkAction),
+    onSuccess: (result, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['leads'], exact: false });
+      if (variables.action === 'follow-up') {
+        queryClient.invalidateQueries({ queryKey: ['calendar'], exact: false });
+      }
+
+      if (result.skipped.length === 0) {
+        toast.success(`${result.updated} lead(s) atualizado(s)`);
+      } else {
+        const reasons = [...new Set(result.skipped.map((s) => s.reason))].slice(0, 3).join('; ');
+        toast.warning(`${result.updated} lead(s) atualizado(s), ${result.skipped.length} ignorado(s): ${reasons}`);
+      }
+    },
+    onError: (e: any) => {
+      toast.error(e?.response?.data?.message || 'Erro ao executar ação em lote');
+    },
+  });
+};
+
 // ══════════════════════════════════════════════════════════════════════════════
 // 🏷️ LEAD ORIGINS HOOKS (Origens de Leads)
 // ══════════════════════════════════════════════════════════════════════════════
@@ -258,3 +485,15 @@ export const useLeadOrigins = () => {
     staleTime: 1000 * 60 * 10, // 10 minutos (origens mudam raramente)
   });
 };
+
+// ══════════════════════════════════════════════════════════════════════════════
+// 📉 LOSS REASONS HOOKS (Motivos de Perda)
+// ══════════════════════════════════════════════════════════════════════════════
+
+export const useLossReasons = () => {
+  return useQuery({
+    queryKey: ['loss-reasons', 'active'],
+    queryFn: lossReasonsApi.getActive,
+    staleTime: 1000 * 60 * 10, // 10 minutos (gerenciados em Configurações)
+  });
+};
@@ -12,6 +12,23 @@ import type {
   ConvertLeadResponse,
   GenerateSummaryResponse,
   LeadScoreResponse,
+  LeadStageHistoryEntry,
+  FunnelReport,
+  FunnelReportFilters,
+  LossReason,
+  LossReport,
+  SlaBreach,
+  SlaComplianceReport,
+  LeadSlaType,
+  DuplicateMatchResult,
+  DuplicateCandidate,
+  CheckDuplicatesPayload,
+  LeadImportUpload,
+  LeadImportOptions,
+  LeadImportPreview,
+  LeadImportResult,
+  LeadBulkAction,
+  LeadBulkResult,
 } from '../types';
 
 export const leadsApi = {
@@ -19,11 +36,45 @@ export const leadsApi = {
     status?: LeadStatus;
     productType?: ProductType;
     vendedorId?: string;
+    tags?: string; // separadas por vírgula
+    cf?: Record<string, string>;
   }) => {
     const { data } = await api.get<Lead[]>('/leads', { params: filters });
     return data;
   },
 
+  /**
+   * Exporta a listagem filtrada (mesmo escopo do GET /leads) em CSV ou XLSX
+   */
+  exportLeads: async (params: {
+    format: 'csv' | 'xlsx';
+    status?: LeadStatus;
+    productType?: ProductType;
+    vendedorId?: string;
+    search?: string;
+    tags?: string;
+    cf?: Record<string, string>;
+  }) => {
+    const { data } = await api.get<Blob>('/leads/export', { params, responseType: 'blob' });
+    return data;
+  },
+
+  /**
+   * Anexo de e-mail recebido pela caixa de captura
+   */
+  downloadEmailAttachment: async (attachmentId: string) => {
+    const { data } = await api.get<Blob>(`/inbound-emails/attachments/${attachmentId}`, { responseType: 'blob' });
+    return data;
+  },
+
+  /**
+   * Ação em lote sobre os leads selecionados (POST /leads/bulk/:action)
+   */
+  bulkAction: async (leadIds: string[], { action, payload }: LeadBulkAction) => {
+    const { data } = await api.post<LeadBulkResult>(`/leads/bulk/${action}`, { ...payload, leadIds });
+    return data;
+  },
+
   getLead: async (id: string) => {
     const { data } = await api.get<Lead>(`/leads/${id}`);
     return data;
@@ -96,6 +147,30 @@ export const leadsApi = {
     return data;
   },
 
+  /**
+   * Linha do tempo de mudanças de estágio do lead
+   */
+  getStageHistory: async (leadId: string) => {
+    const { data } = await api.get<LeadStageHistoryEntry[]>(`/leads/${leadId}/stage-history`);
+    return data;
+  },
+
+  /**
+   * Relatório do funil: tempo por estágio, conversão e velocidade
+   */
+  getFunnelReport: async (filters?: FunnelReportFilters) => {
+    const { data } = await api.get<FunnelReport>('/leads/reports/funnel', { params: filters });
+    return data;
+  },
+
+  /**
+   * Análise de perdas: receita perdida por motivo, estágio e vendedor
+   */
+  getLossReport: async (filters?: FunnelReportFilters) => {
+    const { data } = await api.get<LossReport>('/leads/reports/losses', { params: filters });
+    return data;
+  },
+
   /**
    * Verifica se CNPJ já existe no sistema (leads ou clientes)
    */
@@ -206,3 +281,106 @@ export const leadOriginsApi = {
     return data;
   },
 };
+
+// ══════════════════════════════════════════════════════════════════════════════
+// 📉 LOSS REASONS API (Motivos de Perda)
+// ══════════════════════════════════════════════════════════════════════════════
+
+export const lossReasonsApi = {
+  getActive: async () => {
+    const { data } = await api.get<LossReason[]>('/loss-reasons');
+    return data;
+  },
+};
+
+// ══════════════════════════════════════════════════════════════════════════════
+// ⏱️ LEAD SLA API (prazos de contato)
+// ══════════════════════════════════════════════════════════════════════════════
+
+export const leadSlaApi = {
+  /**
+   * Prazos estourados ainda sem contato (escopo do usuário)
+   */
+  getOpenBreaches: async () => {
+    const { data } = await api.get<SlaBreach[]>('/lead-sla/breaches');
+    return data;
+  },
+
+  /**
+   * Cumprimento de SLA por equipe e vendedor
+   */
+  getComplianceReport: async (filters?: { from?: string; to?: string; type?: LeadSlaType }) => {
+    const { data } = await api.get<SlaComplianceReport>('/lead-sla/report', { params: filters });
+    return data;
+  },
+};
+
+// ══════════════════════════════════════════════════════════════════════════════
+// 🔁 LEAD DUPLICATES API (detecção e mesclagem)
+// ══════════════════════════════════════════════════════════════════════════════
+
+export const leadDuplicatesApi = {
+  /**
+   * Fila de possíveis duplicados (gestores e administradores)
+   */
+  getQueue: async () => {
+    const { data } = await api.get<DuplicateCandidate[]>('/leads/duplicates');
+    return data;
+  },
+
+  /**
+   * Possíveis duplicados de um lead existente
+   */
+  getForLead: async (leadId: string) => {
+    const { data } = await api.get<DuplicateMatchResult[]>(`/leads/${leadId}/duplicates`);
+    return data;
+  },
+
+  /**
+   * Checagem preventiva no cadastro (email, telefone, CNPJ, empresa)
+   */
+  check: async (payload: CheckDuplicatesPayload) => {
+    const { data } = await api.post<DuplicateMatchResult[]>('/leads/duplicates/check', payload);
+    return data;
+  },
+
+  dismiss: async (candidateId: string) => {
+    const { data } = await api.patch(`/leads/duplicates/${candidateId}/dismiss`);
+    return data;
+  },
+
+  /**
+   * Mescla duplicateId em leadId (o duplicado é removido)
+   */
+  merge: async (leadId: string, duplicateId: string) => {
+    const { data } = await api.post<Lead>(`/leads/${leadId}/merge`, { duplicateId });
+    return data;
+  },
+};
+
+export const leadImportsApi = {
+  /**
+   * Envia a planilha — devolve cabeçalhos, amostra e mapeamento sugerido
+   */
+  upload: async (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    const { data } = await api.post<{ data: LeadImportUpload }>('/lead-imports', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return data.data;
+  },
+
+  /**
+   * Dry-run: valida as linhas com o mapeamento escolhido, sem criar leads
+   */
+  preview: async (id: string, options: LeadImportOptions) => {
+    const { data } = await api.post<{ data: LeadImportPreview }>(`/lead-imports/${id}/preview`, options);
+    return data.data;
+  },
+
+  confirm: async (id: string, options: LeadImportOptions) => {
+    const { data } = await api.post<{ data: LeadImportResult; message: string }>(`/lead-imports/${id}/confirm`, options);
+    return data;
+  },
+};
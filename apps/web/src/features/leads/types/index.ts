@@ -11,6 +11,8 @@ export interface Lead {
   numberOfUnits?: number; // ✅ v2.35.0: Número de unidades da empresa
   instagram?: string; // ✅ v2.35.0: Instagram (opcional)
   facebook?: string; // ✅ v2.35.0: Facebook (opcional)
+  tags?: string[]; // Etiquetas livres
+  customFields?: Record<string, string | number>; // Campos personalizados (chave → valor)
   // Aliases para compatibilidade frontend
   clinic?: string; // Alias for companyName
   cnpj?: string; // Alias for cpfCnpj
@@ -30,13 +32,19 @@ export interface Lead {
     originQuality: number; // 0-10 pontos
     // STAGE SCORE (0-60 pontos)
     stageProgress: number; // 0-60 pontos (posição no funil - DINÂMICO)
+    // AJUSTE (-20 a +20 pontos)
+    formAnswers?: number; // regras de pontuação do formulário de captura
   };
   aiScoreUpdatedAt?: string;
+  attribution?: Record<string, string> | null; // UTM, referrer e gclid/fbclid da captura por formulário
   convertedAt?: string;
+  lossReasonId?: string | null;
+  lossNotes?: string | null;
   createdAt: string;
   updatedAt: string;
 
   // Relations
+  lossReason?: { id: string; name: string } | null;
   vendedor?: {
     id: string;
     name: string;
@@ -98,6 +106,8 @@ export interface CreateLeadDto {
   numberOfUnits?: number; // ✅ v2.35.0: Número de unidades da empresa
   instagram?: string; // ✅ v2.35.0: Instagram (opcional)
   facebook?: string; // ✅ v2.35.0: Facebook (opcional)
+  tags?: string[];
+  customFields?: Record<string, string | number | null>; // Vazio/null remove o valor
   origin: string; // Human-readable string (converted to originId in backend)
   interestProduct: ProductType;
   interestPlanId?: string;
@@ -116,6 +126,8 @@ export interface UpdateLeadDto {
   numberOfUnits?: number; // ✅ v2.35.0: Número de unidades da empresa
   instagram?: string; // ✅ v2.35.0: Instagram (opcional)
   facebook?: string; // ✅ v2.35.0: Facebook (opcional)
+  tags?: string[];
+  customFields?: Record<string, string | number | null>; // Vazio/null remove o valor
   origin?: string; // Human-readable string (deprecated - use originId)
   originId?: string; // LeadOrigin UUID (v2.21.0+)
   status?: LeadStatus;
@@ -125,6 +137,8 @@ export interface UpdateLeadDto {
   vendedorId?: string;
   notes?: string;
   score?: number;
+  lossReasonId?: string | null; // LossReason (obrigatório no backend só se status = PERDIDO)
+  lossNotes?: string | null;
 }
 
 // ══════════════════════════════════════════════════════════════════════════════
@@ -218,3 +232,268 @@ export interface LeadScoreResponse {
     engagement: number;
   };
 }
+
+// ══════════════════════════════════════════════════════════════════════════════
+// 📈 HISTÓRICO DE ESTÁGIOS E RELATÓRIO DO FUNIL
+// ══════════════════════════════════════════════════════════════════════════════
+
+interface StageRef {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface LeadStageHistoryEntry {
+  id: string;
+  changedAt: string;
+  timeInStageSeconds: number | null;
+  fromStage: StageRef | null; // null = entrada no funil
+  toStage: StageRef;
+  changedBy: { id: string; name: string } | null; // null = integração
+}
+
+export interface FunnelReportFilters {
+  from?: string; // YYYY-MM-DD
+  to?: string;
+  vendedorId?: string;
+  originId?: string;
+  productType?: ProductType;
+}
+
+export interface StageTimeMetric {
+  stageId: string;
+  name: string;
+  color: string;
+  exits: number;
+  avgDays: number | null;
+  medianDays: number | null;
+  currentLeads: number;
+}
+
+export interface StageConversionMetric {
+  stageId: string;
+  name: string;
+  color: string;
+  reached: number;
+  conversionToNext: number | null; // %
+}
+
+export interface FunnelVelocityRow {
+  key: string;
+  name: string;
+  leads: number;
+  won: number;
+  lost: number;
+  winRate: number; // %
+  avgDealValue: number;
+  avgCycleDays: number | null;
+  velocity: number | null; // R$/dia
+}
+
+export interface FunnelReport {
+  from: string;
+  to: string;
+  totalLeads: number;
+  timeInStage: StageTimeMetric[];
+  conversion: StageConversionMetric[];
+  velocity: {
+    vendedor: FunnelVelocityRow[];
+    origin: FunnelVelocityRow[];
+    product: FunnelVelocityRow[];
+  };
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// 📉 LOSS REASONS / ANÁLISE DE PERDAS
+// ══════════════════════════════════════════════════════════════════════════════
+
+export interface LossReason {
+  id: string;
+  name: string;
+  description?: string | null;
+  isActive: boolean;
+}
+
+export interface LossBreakdownRow {
+  key: string; // 'none' = sem motivo/vendedor
+  name: string;
+  color: string | null; // só no recorte por estágio
+  count: number;
+  share: number; // % das perdas
+  revenue: number; // MRR perdido
+}
+
+export interface LossReport {
+  from: string;
+  to: string;
+  totalLost: number;
+  lostRevenue: number;
+  byReason: LossBreakdownRow[];
+  byStage: LossBreakdownRow[];
+  byVendedor: LossBreakdownRow[];
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// ⏱️ SLA DE RESPOSTA
+// ══════════════════════════════════════════════════════════════════════════════
+
+export type LeadSlaType = 'FIRST_CONTACT' | 'FOLLOW_UP';
+
+export interface SlaBreach {
+  id: string;
+  leadId: string;
+  dueAt: string;
+  escalatedAt: string | null;
+  policy: { id: string; name: string; type: LeadSlaType };
+}
+
+export interface SlaComplianceStats {
+  total: number;
+  met: number;
+  breached: number;
+  escalated: number;
+  complianceRate: number; // % cumpridos no prazo
+  avgResponseMinutes: number | null;
+}
+
+export interface SlaComplianceReport {
+  period: { from: string; to: string };
+  summary: SlaComplianceStats;
+  teams: Array<
+    SlaComplianceStats & {
+      gestorId: string | null;
+      name: string;
+      vendedores: Array<SlaComplianceStats & { vendedorId: string | null; name: string }>;
+    }
+  >;
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// 🔁 DUPLICADOS
+// ══════════════════════════════════════════════════════════════════════════════
+
+export type LeadDuplicateMatch = 'EMAIL' | 'PHONE' | 'CNPJ' | 'COMPANY_NAME';
+
+export interface DuplicateLeadSummary {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  companyName: string | null;
+  cpfCnpj: string | null;
+  status: 'ABERTO' | 'GANHO' | 'PERDIDO';
+  createdAt: string;
+  lastInteractionAt: string | null;
+  vendedorId: string | null;
+  stage: { id: string; name: string; color: string | null };
+  vendedor: { id: string; name: string } | null;
+  _count: { interactions: number; calendarEvents: number; formSubmissions: number };
+}
+
+export interface DuplicateMatchResult {
+  lead: DuplicateLeadSummary;
+  score: number;
+  reasons: LeadDuplicateMatch[];
+  restricted?: boolean; // lead fora do alcance do usuário (sem dados de contato)
+}
+
+export interface DuplicateCandidate {
+  id: string;
+  leadId: string;
+  duplicateOfId: string;
+  score: number;
+  reasons: LeadDuplicateMatch[];
+  createdAt: string;
+  lead: DuplicateLeadSummary;
+  duplicateOf: DuplicateLeadSummary;
+}
+
+export interface CheckDuplicatesPayload {
+  email?: string;
+  phone?: string;
+  cpfCnpj?: string;
+  companyName?: string;
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// 📥 IMPORTAÇÃO EM LOTE (CSV / XLSX)
+// ══════════════════════════════════════════════════════════════════════════════
+
+export type LeadImportField =
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'companyName'
+  | 'cpfCnpj'
+  | 'role'
+  | 'city'
+  | 'numberOfUnits'
+  | 'instagram'
+  | 'facebook'
+  | 'expectedRevenue'
+  | 'notes'
+  | 'origin'
+  | 'vendedor';
+
+/** Campo do lead → índice da coluna no arquivo */
+export type LeadImportMapping = Partial<Record<LeadImportField, number>>;
+
+export interface LeadImportUpload {
+  id: string;
+  fileName: string;
+  format: 'csv' | 'xlsx';
+  headers: string[];
+  totalRows: number;
+  sampleRows: string[][];
+  suggestedMapping: LeadImportMapping;
+}
+
+export interface LeadImportOptions {
+  mapping: LeadImportMapping;
+  interestProduct: ProductType;
+  originId: string;
+  stageId?: string | null;
+  vendedorId?: string | null;
+  skipDuplicates: boolean;
+}
+
+export interface LeadImportRowResult {
+  row: number; // linha no arquivo (1 = cabeçalho)
+  status: 'VALID' | 'DUPLICATE' | 'ERROR';
+  errors: string[];
+  name: string;
+  email: string;
+  companyName: string | null;
+  city: string | null;
+  duplicateOf?: { id: string | null; label: string; reason: string };
+}
+
+export interface LeadImportPreview {
+  summary: { total: number; valid: number; duplicates: number; errors: number };
+  rows: LeadImportRowResult[];
+}
+
+export interface LeadImportResult {
+  id: string;
+  created: number;
+  skipped: number;
+  errors: Array<{ row: number; errors: string[] }>;
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// ☑️ AÇÕES EM LOTE
+// ══════════════════════════════════════════════════════════════════════════════
+
+export type LeadBulkAction =
+  | { action: 'stage'; payload: { stageId: string } }
+  | { action: 'reassign'; payload: { vendedorId: string } }
+  | { action: 'lose'; payload: { lossReasonId: string; lossNotes?: string } }
+  | { action: 'tags'; payload: { tag: string } }
+  | { action: 'follow-up'; payload: { startAt: string; durationMinutes?: number; title?: string; description?: string } }
+  | { action: 'delete'; payload: Record<string, never> };
+
+export interface LeadBulkResult {
+  batchId: string;
+  updated: number;
+  skipped: Array<{ leadId: string; reason: string }>;
+}
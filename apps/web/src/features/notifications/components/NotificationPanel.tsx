@@ -3,7 +3,7 @@ import { useNavigate, Link } from 'react-router-dom';
 import { clsx } from 'clsx';
 import {
   Bell, BellOff, X, CheckCheck, ExternalLink,
-  TrendingUp, DollarSign, Zap, Users, AlertTriangle, Info, Megaphone, Send,
+  TrendingUp, DollarSign, Zap, Users, AlertTriangle, Info, Megaphone, Send, Timer, Mail, MailX,
 } from 'lucide-react';
 import { useUIStore } from '@/stores/useUIStore';
 import { useAuth } from '@/contexts/AuthContext';
@@ -22,6 +22,10 @@ const TYPE_CONFIG: Record<string, { icon: typeof Bell; color: string; bg: string
   NEW_LEAD:              { icon: TrendingUp,     color: 'text-blue-500',   bg: 'bg-blue-500/10' },
   LEAD_ASSIGNED:         { icon: Users,          color: 'text-purple-500', bg: 'bg-purple-500/10' },
   LEAD_CONVERTED:        { icon: TrendingUp,     color: 'text-green-500',  bg: 'bg-green-500/10' },
+  LEAD_SLA_BREACH:       { icon: Timer,          color: 'text-red-500',    bg: 'bg-red-500/10' },
+  LEAD_SLA_ESCALATED:    { icon: Timer,          color: 'text-orange-500', bg: 'bg-orange-500/10' },
+  LEAD_EMAIL_RECEIVED:   { icon: Mail,           color: 'text-blue-500',   bg: 'bg-blue-500/10' },
+  EMAIL_BOUNCED:         { icon: MailX,          color: 'text-amber-500',  bg: 'bg-amber-500/10' },
   AI_CHURN_ALERT:        { icon: Zap,            color: 'text-red-500',    bg: 'bg-red-500/10' },
   AI_OPPORTUNITY:        { icon: Zap,            color: 'text-yellow-500', bg: 'bg-yellow-500/10' },
   AI_LEAD_SCORE:         { icon: Zap,            color: 'text-orange-500', bg: 'bg-orange-500/10' },
@@ -1,5 +1,8 @@
 import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
 import { useApiQuery } from '@/hooks/useApi';
+import { api } from '@/services/api';
 import {
   Card,
   CardHeader,
@@ -12,7 +15,7 @@ import {
   EmptyState,
   Pagination,
 } from '@/components/ui';
-import { Payment, PaymentStatus, PaymentGateway } from '@/types';
+import { Payment, PaymentStatus, PaymentGateway, type ServiceInvoiceStatus } from '@/types';
 import { formatCurrency, formatDate } from '@/utils/formatters';
 
 interface PaymentStats {
@@ -46,6 +49,24 @@ const GATEWAY_LABELS: Record<PaymentGateway, string> = {
   [PaymentGateway.MANUAL]: 'Manual',
 };
 
+const NFSE_LABELS: Record<ServiceInvoiceStatus, string> = {
+  PENDING: 'Na fila',
+  PROCESSING: 'Processando',
+  ISSUED: 'Emitida',
+  FAILED: 'Falhou',
+  CANCELLING: 'Cancelando',
+  CANCELLED: 'Cancelada',
+};
+
+const NFSE_VARIANTS: Record<ServiceInvoiceStatus, 'default' | 'success' | 'warning' | 'danger'> = {
+  PENDING: 'warning',
+  PROCESSING: 'warning',
+  ISSUED: 'success',
+  FAILED: 'danger',
+  CANCELLING: 'warning',
+  CANCELLED: 'default',
+};
+
 export function PaymentsDashboard() {
   const [statusFilter, setStatusFilter] = useState<PaymentStatus | ''>('');
   const [gatewayFilter, setGatewayFilter] = useState<PaymentGateway | ''>('');
@@ -61,6 +82,17 @@ export function PaymentsDashboard() {
     '/payments/stats'
   );
 
+  // Reprocessa NFS-e com falha
+  const queryClient = useQueryClient();
+  const retryNfse = useMutation({
+    mutationFn: (invoiceId: string) => api.post(`/nfse/${invoiceId}/retry`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      toast.success('NFS-e reenviada para emissão');
+    },
+    onError: (e: any) => toast.error(e?.response?.data?.message || 'Erro ao reprocessar NFS-e'),
+  });
+
   // Filtros
   const filteredPayments = (payments || []).filter((payment) => {
     const matchesStatus = statusFilter === '' || payment.status === statusFilter;
@@ -134,6 +166,62 @@ export function PaymentsDashboard() {
         </span>
       ),
     },
+    {
+      key: 'invoiceUrl',
+      label: 'Fatura',
+      render: (payment) =>
+        payment.invoiceUrl ? (
+          <a
+            href={payment.invoiceUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-primary-600 hover:underline"
+          >
+            Abrir
+          </a>
+        ) : (
+          <span className="text-xs text-gray-400">-</span>
+        ),
+    },
+    {
+      key: 'serviceInvoice',
+      label: 'NFS-e',
+      render: (payment) => {
+        const nfse = payment.serviceInvoice;
+        if (!nfse) return <span className="text-xs text-gray-400">-</span>;
+
+        if (nfse.status === 'ISSUED' && nfse.pdfUrl) {
+          return (
+            <a
+              href={nfse.pdfUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-primary-600 hover:underline"
+            >
+              Nº {nfse.number}
+            </a>
+          );
+        }
+
+        return (
+          <div className="flex items-center gap-2" title={nfse.lastError ?? undefined}>
+            <Badge variant={NFSE_VARIANTS[nfse.status]} size="sm">
+              {NFSE_LABELS[nfse.status]}
+            </Badge>
+            {nfse.status === 'FAILED' && (
+              <button
+                type="button"
+                onClick={() => retryNfse.mutate(nfse.id)}
+                disabled={retryNfse.isPending}
+                className="text-xs text-primary-600 hover:underline disabled:opacity-50"
+              >
+                Reemitir
+              </button>
+            )}
+          </div>
+        );
+      },
+    },
   ];
 
   return (
@@ -1,23 +1,47 @@
 import { useState } from 'react';
-import { Users, Shield, Package, Tags, ChevronDown, Settings as SettingsIcon } from 'lucide-react';
+import { Users, Shield, Package, Tags, ListChecks, Shuffle, Timer, SlidersHorizontal, Mail, KeyRound, Webhook, ChevronDown, Settings as SettingsIcon } from 'lucide-react';
 import { useUIStore } from '@/stores/useUIStore';
+import { useAuth } from '@/contexts/AuthContext';
+import { UserRole } from '@/types';
 import { cn } from '@/utils/cn';
 import { UsersList } from './components/users/UsersList';
 import { PlansTab } from './components/plans/PlansTab';
 import { StatusTab } from './components/status/StatusTab';
+import { LeadCatalogsTab } from './components/funnel/LeadCatalogsTab';
+import { AssignmentRulesTab } from './components/assignment/AssignmentRulesTab';
+import { SlaPoliciesTab } from './components/sla/SlaPoliciesTab';
+import { CustomFieldsTab } from './components/fields/CustomFieldsTab';
+import { EmailTemplatesTab } from './components/email/EmailTemplatesTab';
+import { ApiKeysTab } from './components/api/ApiKeysTab';
+import { WebhooksTab } from './components/webhooks/WebhooksTab';
 
-type SettingsTab = 'users' | 'rbac' | 'plans' | 'status';
+type SettingsTab = 'users' | 'rbac' | 'plans' | 'status' | 'funnel' | 'assignment' | 'sla' | 'fields' | 'emails' | 'api' | 'webhooks';
 
 export function Settings() {
   const { theme } = useUIStore();
   const isDark = theme === 'dark';
   const [activeTab, setActiveTab] = useState<SettingsTab>('users');
   const [dropdownOpen, setDropdownOpen] = useState(false);
+  const { user } = useAuth();
+
+  // Chaves de API e webhooks: apenas SUPERADMIN e ADMINISTRATIVO
+  const canManageIntegrations = user?.role === UserRole.SUPERADMIN || user?.role === UserRole.ADMINISTRATIVO;
 
   const tabs = [
     { id: 'users' as SettingsTab, label: 'Usuários', icon: Users, available: true },
     { id: 'plans' as SettingsTab, label: 'Planos', icon: Package, available: true },
     { id: 'status' as SettingsTab, label: 'Status', icon: Tags, available: true },
+    { id: 'funnel' as SettingsTab, label: 'Funil', icon: ListChecks, available: true },
+    { id: 'assignment' as SettingsTab, label: 'Atribuição', icon: Shuffle, available: true },
+    { id: 'sla' as SettingsTab, label: 'SLA', icon: Timer, available: true },
+    { id: 'fields' as SettingsTab, label: 'Campos', icon: SlidersHorizontal, available: true },
+    { id: 'emails' as SettingsTab, label: 'E-mails', icon: Mail, available: true },
+    ...(canManageIntegrations
+      ? [
+          { id: 'api' as SettingsTab, label: 'API', icon: KeyRound, available: true },
+          { id: 'webhooks' as SettingsTab, label: 'Webhooks', icon: Webhook, available: true },
+        ]
+      : []),
     { id: 'rbac' as SettingsTab, label: 'Permissões', icon: Shield, available: false },
   ];
 
@@ -137,6 +161,13 @@ export function Settings() {
         {activeTab === 'users' && <UsersList />}
         {activeTab === 'plans' && <PlansTab />}
         {activeTab === 'status' && <StatusTab />}
+        {activeTab === 'funnel' && <LeadCatalogsTab />}
+        {activeTab === 'assignment' && <AssignmentRulesTab />}
+        {activeTab === 'sla' && <SlaPoliciesTab />}
+        {activeTab === 'fields' && <CustomFieldsTab />}
+        {activeTab === 'emails' && <EmailTemplatesTab />}
+        {activeTab === 'api' && canManageIntegrations && <ApiKeysTab />}
+        {activeTab === 'webhooks' && canManageIntegrations && <WebhooksTab />}
       </div>
     </div>
   );
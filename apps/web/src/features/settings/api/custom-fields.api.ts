@@ -0,0 +1,57 @@
+import { api } from '@/services/api';
+
+export type CustomFieldEntity = 'LEAD' | 'CLIENT';
+export type CustomFieldType = 'TEXT' | 'NUMBER' | 'SELECT' | 'DATE';
+
+export interface CustomFieldDef {
+  id: string;
+  entity: CustomFieldEntity;
+  /** Chave gravada em customFields (imutável) */
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+  sortOrder: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Valores por chave (data em AAAA-MM-DD) */
+export type CustomFieldValues = Record<string, string | number>;
+
+export type CreateCustomFieldDto = Pick<CustomFieldDef, 'entity' | 'label' | 'type' | 'options' | 'sortOrder' | 'isActive'> & {
+  key?: string;
+};
+
+export type UpdateCustomFieldDto = Partial<Pick<CustomFieldDef, 'label' | 'options' | 'sortOrder' | 'isActive'>>;
+
+export const customFieldsApi = {
+  async getAll(entity?: CustomFieldEntity, includeInactive = false) {
+    const { data } = await api.get<CustomFieldDef[]>('/custom-fields', {
+      params: { entity, includeInactive: includeInactive || undefined },
+    });
+    return data;
+  },
+
+  async getTags(entity: CustomFieldEntity) {
+    const { data } = await api.get<Array<{ tag: string; count: number }>>('/custom-fields/tags', {
+      params: { entity },
+    });
+    return data;
+  },
+
+  async create(dto: CreateCustomFieldDto) {
+    const { data } = await api.post<CustomFieldDef>('/custom-fields', dto);
+    return data;
+  },
+
+  async update(id: string, dto: UpdateCustomFieldDto) {
+    const { data } = await api.put<CustomFieldDef>(`/custom-fields/${id}`, dto);
+    return data;
+  },
+
+  async remove(id: string) {
+    await api.delete(`/custom-fields/${id}`);
+  },
+};
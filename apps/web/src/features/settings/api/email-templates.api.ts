@@ -0,0 +1,101 @@
+import { api } from '@/services/api';
+
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  /** Texto com variáveis {{nome}}, {{empresa}}... */
+  body: string;
+  isActive: boolean;
+  createdBy: { id: string; name: string } | null;
+  _count?: { outboundEmails: number };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EmailTemplateVariable {
+  key: string;
+  description: string;
+}
+
+export type EmailTemplateDto = Pick<EmailTemplate, 'name' | 'subject' | 'body' | 'isActive'>;
+
+export type OutboundEmailStatus = 'SENT' | 'FAILED' | 'BOUNCED';
+
+export interface OutboundEmail {
+  id: string;
+  toEmail: string;
+  subject: string;
+  status: OutboundEmailStatus;
+  error: string | null;
+  openCount: number;
+  firstOpenedAt: string | null;
+  lastOpenedAt: string | null;
+  clickCount: number;
+  lastClickedAt: string | null;
+  bouncedAt: string | null;
+  createdAt: string;
+  sentBy: { id: string; name: string };
+  template: { id: string; name: string } | null;
+}
+
+/** Destinatário: lead OU cliente */
+export type EmailTarget = { leadId: string } | { clientId: string };
+
+export type SendEmailDto = EmailTarget & {
+  templateId?: string;
+  subject: string;
+  body: string;
+};
+
+export interface EmailPreview {
+  to: string;
+  subject: string;
+  body: string;
+  unknownVariables: string[];
+}
+
+export const emailTemplatesApi = {
+  async getAll(includeInactive = false) {
+    const { data } = await api.get<EmailTemplate[]>('/email-templates', {
+      params: { includeInactive: includeInactive || undefined },
+    });
+    return data;
+  },
+
+  async getVariables() {
+    const { data } = await api.get<EmailTemplateVariable[]>('/email-templates/variables');
+    return data;
+  },
+
+  async create(dto: EmailTemplateDto) {
+    const { data } = await api.post<EmailTemplate>('/email-templates', dto);
+    return data;
+  },
+
+  async update(id: string, dto: Partial<EmailTemplateDto>) {
+    const { data } = await api.put<EmailTemplate>(`/email-templates/${id}`, dto);
+    return data;
+  },
+
+  async remove(id: string) {
+    await api.delete(`/email-templates/${id}`);
+  },
+};
+
+export const emailsApi = {
+  async getSent(target: EmailTarget) {
+    const { data } = await api.get<OutboundEmail[]>('/emails', { params: target });
+    return data;
+  },
+
+  async preview(dto: SendEmailDto) {
+    const { data } = await api.post<EmailPreview>('/emails/preview', dto);
+    return data;
+  },
+
+  async send(dto: SendEmailDto) {
+    const { data } = await api.post<OutboundEmail>('/emails/send', dto);
+    return data;
+  },
+};
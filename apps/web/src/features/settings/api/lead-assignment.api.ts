@@ -0,0 +1,100 @@
+import { api } from '@/services/api';
+
+export type AssignmentStrategy = 'ROUND_ROBIN' | 'LEAST_LOADED';
+export type LeadEntrySource = 'MANUAL' | 'FORM' | 'LANDING_PAGE' | 'PARTNER_API' | 'CHAT_NEXUS' | 'IMPORT' | 'EMAIL';
+export type AssignmentReason = 'RULE' | 'EXPLICIT' | 'FALLBACK' | 'MANUAL_REASSIGN' | 'SLA_BREACH';
+
+export interface AssignmentRule {
+  id: string;
+  name: string;
+  priority: number;
+  isActive: boolean;
+  productType?: 'ONE_NEXUS' | 'LOCADORAS' | null;
+  states: string[];
+  cities: string[];
+  originIds: string[];
+  minUnits?: number | null;
+  maxUnits?: number | null;
+  /** 0 = domingo … 6 = sábado (vazio = todos os dias) */
+  weekdays: number[];
+  startTime?: string | null;
+  endTime?: string | null;
+  vendedorIds: string[];
+  strategy: AssignmentStrategy;
+  roundRobinIndex: number;
+  slaReassignMinutes?: number | null;
+  createdAt: string;
+  updatedAt: string;
+  vendedores: { id: string; name: string; isActive: boolean }[];
+  _count: { logs: number };
+}
+
+export type AssignmentRuleDto = Omit<
+  AssignmentRule,
+  'id' | 'roundRobinIndex' | 'createdAt' | 'updatedAt' | 'vendedores' | '_count'
+>;
+
+export interface VendorAvailability {
+  id: string;
+  name: string;
+  role: 'GESTOR' | 'VENDEDOR';
+  maxOpenLeads: number | null;
+  absentFrom: string | null;
+  absentUntil: string | null;
+  _count: { assignedLeads: number };
+}
+
+export interface UpdateAvailabilityDto {
+  maxOpenLeads?: number | null;
+  absentFrom?: string | null;
+  absentUntil?: string | null;
+}
+
+export interface AssignmentLog {
+  id: string;
+  leadId: string;
+  source: LeadEntrySource;
+  reason: AssignmentReason;
+  details: string | null;
+  createdAt: string;
+  rule: { id: string; name: string } | null;
+  fromVendedor: { id: string; name: string } | null;
+  toVendedor: { id: string; name: string } | null;
+  lead?: { id: string; name: string; companyName: string | null };
+}
+
+export const leadAssignmentApi = {
+  async getRules() {
+    const { data } = await api.get<AssignmentRule[]>('/lead-assignment/rules');
+    return data;
+  },
+
+  async createRule(dto: AssignmentRuleDto) {
+    const { data } = await api.post<AssignmentRule>('/lead-assignment/rules', dto);
+    return data;
+  },
+
+  async updateRule(id: string, dto: Partial<AssignmentRuleDto>) {
+    const { data } = await api.put<AssignmentRule>(`/lead-assignment/rules/${id}`, dto);
+    return data;
+  },
+
+  async removeRule(id: string) {
+    await api.delete(`/lead-assignment/rules/${id}`);
+  },
+
+  async getAvailability() {
+    const { data } = await api.get<VendorAvailability[]>('/lead-assignment/availability');
+    return data;
+  },
+
+  async updateAvailability(userId: string, dto: UpdateAvailabilityDto) {
+    const { data } = await api.put(`/lead-assignment/availability/${userId}`, dto);
+    return data;
+  },
+
+  async getLogs(params?: { ruleId?: string; source?: LeadEntrySource; limit?: number }) {
+    const { data } = await api.get<AssignmentLog[]>('/lead-assignment/logs', { params });
+    return data;
+  },
+};
@@ -0,0 +1,46 @@
+import { api } from '@/services/api';
+
+/** Catálogos do funil gerenciados em Configurações */
+export type LeadCatalog = 'loss-reasons' | 'lead-origins';
+
+export interface LeadCatalogItem {
+  id: string;
+  name: string;
+  description?: string | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  /** Uso atual — itens em uso só podem ser desativados */
+  _count: { leads: number; forms?: number };
+}
+
+export interface CreateLeadCatalogItemDto {
+  name: string;
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export type UpdateLeadCatalogItemDto = Partial<CreateLeadCatalogItemDto>;
+
+export const leadCatalogsApi = {
+  async getAll(catalog: LeadCatalog) {
+    const { data } = await api.get<LeadCatalogItem[]>(`/${catalog}`, {
+      params: { includeInactive: 'true' },
+    });
+    return data;
+  },
+
+  async create(catalog: LeadCatalog, dto: CreateLeadCatalogItemDto) {
+    const { data } = await api.post<LeadCatalogItem>(`/${catalog}`, dto);
+    return data;
+  },
+
+  async update(catalog: LeadCatalog, id: string, dto: UpdateLeadCatalogItemDto) {
+    const { data } = await api.put<LeadCatalogItem>(`/${catalog}/${id}`, dto);
+    return data;
+  },
+
+  async remove(catalog: LeadCatalog, id: string) {
+    await api.delete(`/${catalog}/${id}`);
+  },
+};
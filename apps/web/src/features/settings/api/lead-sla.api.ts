@@ -0,0 +1,47 @@
+import { api } from '@/services/api';
+
+export type LeadSlaType = 'FIRST_CONTACT' | 'FOLLOW_UP';
+
+export interface SlaPolicy {
+  id: string;
+  name: string;
+  type: LeadSlaType;
+  stageId: string | null;
+  productType: 'ONE_NEXUS' | 'LOCADORAS' | null;
+  /** Prazo em minutos (follow-up: intervalo máximo entre contatos) */
+  targetMinutes: number;
+  escalateAfterMinutes: number | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  stage: { id: string; name: string; color: string } | null;
+  /** Prazos correndo / estourados sem contato */
+  pending: number;
+  breached: number;
+}
+
+export type SlaPolicyDto = Pick<
+  SlaPolicy,
+  'name' | 'type' | 'stageId' | 'productType' | 'targetMinutes' | 'escalateAfterMinutes' | 'isActive'
+>;
+
+export const leadSlaApi = {
+  async getPolicies() {
+    const { data } = await api.get<SlaPolicy[]>('/lead-sla/policies');
+    return data;
+  },
+
+  async createPolicy(dto: SlaPolicyDto) {
+    const { data } = await api.post<SlaPolicy>('/lead-sla/policies', dto);
+    return data;
+  },
+
+  async updatePolicy(id: string, dto: Partial<SlaPolicyDto>) {
+    const { data } = await api.put<SlaPolicy>(`/lead-sla/policies/${id}`, dto);
+    return data;
+  },
+
+  async removePolicy(id: string) {
+    await api.delete(`/lead-sla/policies/${id}`);
+  },
+};
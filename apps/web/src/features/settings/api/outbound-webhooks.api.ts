@@ -0,0 +1,128 @@
+import { api } from '@/services/api';
+
+export interface WebhookSubscription {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  isActive: boolean;
+  createdBy: { id: string; name: string } | null;
+  createdAt: string;
+  updatedAt: string;
+  /** Entregas das últimas 24h (apenas na listagem) */
+  last24h?: { success: number; failed: number; pending: number };
+}
+
+/** Resposta da criação — inclui o segredo HMAC */
+export type CreatedWebhookSubscription = WebhookSubscription & { secret: string };
+
+export interface WebhookEventOption {
+  event: string;
+  description: string;
+}
+
+export interface WebhookSubscriptionDto {
+  name: string;
+  url: string;
+  events: string[];
+  isActive: boolean;
+}
+
+export type WebhookDeliveryStatus = 'PENDING' | 'SUCCESS' | 'FAILED';
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  subscription: { id: string; name: string; url: string };
+  eventId: string | null;
+  event: string;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  deliveredAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  replayOfId: string | null;
+  createdAt: string;
+}
+
+export interface WebhookDeliveryFilters {
+  subscriptionId?: string;
+  status?: WebhookDeliveryStatus;
+  event?: string;
+  limit?: number;
+}
+
+export interface WebhookEchoEntry {
+  receivedAt: string;
+  event: string | null;
+  deliveryId: string | null;
+  subscriptionId: string | null;
+  signatureValid: boolean | null;
+  respondedWith: number;
+  body: unknown;
+}
+
+export const outboundWebhooksApi = {
+  async getAll() {
+    const { data } = await api.get<WebhookSubscription[]>('/outbound-webhooks');
+    return data;
+  },
+
+  async getEvents() {
+    const { data } = await api.get<WebhookEventOption[]>('/outbound-webhooks/events');
+    return data;
+  },
+
+  async create(dto: WebhookSubscriptionDto) {
+    const { data } = await api.post<CreatedWebhookSubscription>('/outbound-webhooks', dto);
+    return data;
+  },
+
+  async update(id: string, dto: Partial<WebhookSubscriptionDto>) {
+    const { data } = await api.patch<WebhookSubscription>(`/outbound-webhooks/${id}`, dto);
+    return data;
+  },
+
+  async delete(id: string) {
+    await api.delete(`/outbound-webhooks/${id}`);
+  },
+
+  async getSecret(id: string) {
+    const { data } = await api.get<{ id: string; secret: string }>(`/outbound-webhooks/${id}/secret`);
+    return data;
+  },
+
+  async rotateSecret(id: string) {
+    const { data } = await api.post<{ id: string; secret: string }>(`/outbound-webhooks/${id}/rotate-secret`);
+    return data;
+  },
+
+  async test(id: string) {
+    const { data } = await api.post<WebhookDelivery>(`/outbound-webhooks/${id}/test`);
+    return data;
+  },
+
+  async getDeliveries(filters: WebhookDeliveryFilters = {}) {
+    const { data } = await api.get<WebhookDelivery[]>('/outbound-webhooks/deliveries', { params: filters });
+    return data;
+  },
+
+  async replay(deliveryId: string) {
+    const { data } = await api.post<WebhookDelivery>(`/outbound-webhooks/deliveries/${deliveryId}/replay`);
+    return data;
+  },
+
+  async getEcho() {
+    const { data } = await api.get<{ url: string; entries: WebhookEchoEntry[] }>('/outbound-webhooks/echo');
+    return data;
+  },
+
+  async clearEcho() {
+    await api.delete('/outbound-webhooks/echo');
+  },
+};
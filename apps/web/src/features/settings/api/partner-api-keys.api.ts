@@ -0,0 +1,79 @@
+import { api } from '@/services/api';
+
+export interface PartnerApiKey {
+  id: string;
+  name: string;
+  /** Enviado em X-Client-Id */
+  clientId: string;
+  /** Últimos 4 caracteres do segredo */
+  secretHint: string;
+  scopes: string[];
+  allowedIps: string[];
+  rateLimitPerMinute: number;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  revokedBy: { id: string; name: string } | null;
+  createdBy: { id: string; name: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Resposta da emissão — o segredo não é exibido novamente */
+export type CreatedPartnerApiKey = PartnerApiKey & { secret: string };
+
+export interface PartnerApiScope {
+  scope: string;
+  description: string;
+}
+
+export interface PartnerApiKeyDto {
+  name: string;
+  scopes: string[];
+  allowedIps: string[];
+  rateLimitPerMinute: number;
+  expiresAt: string | null;
+}
+
+export interface PartnerApiRequestLog {
+  id: string;
+  method: string;
+  path: string;
+  statusCode: number;
+  durationMs: number;
+  ip: string | null;
+  createdAt: string;
+}
+
+export const partnerApiKeysApi = {
+  async getAll() {
+    const { data } = await api.get<PartnerApiKey[]>('/partner-api-keys');
+    return data;
+  },
+
+  async getScopes() {
+    const { data } = await api.get<PartnerApiScope[]>('/partner-api-keys/scopes');
+    return data;
+  },
+
+  async create(dto: PartnerApiKeyDto) {
+    const { data } = await api.post<CreatedPartnerApiKey>('/partner-api-keys', dto);
+    return data;
+  },
+
+  async update(id: string, dto: Partial<PartnerApiKeyDto>) {
+    const { data } = await api.patch<PartnerApiKey>(`/partner-api-keys/${id}`, dto);
+    return data;
+  },
+
+  async revoke(id: string) {
+    const { data } = await api.post<PartnerApiKey>(`/partner-api-keys/${id}/revoke`);
+    return data;
+  },
+
+  async getLogs(id: string, limit = 100) {
+    const { data } = await api.get<PartnerApiRequestLog[]>(`/partner-api-keys/${id}/logs`, { params: { limit } });
+    return data;
+  },
+};
@@ -1,4 +1,5 @@
 import { api } from '@/services/api';
+import type { Module, ModulePermission } from '@/types';
 
 /**
  * Settings API Client
@@ -43,6 +44,15 @@ export interface UpdateUserDto {
   gestorId?: string;
 }
 
+export interface UpdatePermissionItem {
+  module: Module;
+  canView: boolean;
+  canCreate: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  inherit?: boolean; // Remove a configuração (volta ao padrão por role)
+}
+
 export const settingsApi = {
   async getUsers(params?: { role?: string; isActive?: boolean }) {
     const { data } = await api.get<User[]>('/users', { params });
@@ -90,4 +100,14 @@ export const settingsApi = {
     });
     return data;
   },
+
+  async getUserPermissions(id: string) {
+    const { data } = await api.get<ModulePermission[]>(`/users/${id}/permissions`);
+    return data;
+  },
+
+  async updateUserPermissions(id: string, permissions: UpdatePermissionItem[]) {
+    const { data } = await api.put<ModulePermission[]>(`/users/${id}/permissions`, { permissions });
+    return data;
+  },
 };
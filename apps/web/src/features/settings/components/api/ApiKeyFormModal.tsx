@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { X, KeyRound, Copy, Check, AlertTriangle } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useCreatePartnerApiKey, useUpdatePartnerApiKey, usePartnerApiScopes } from '../../hooks/usePartnerApiKeys';
+import type { CreatedPartnerApiKey, PartnerApiKey } from '../../api/partner-api-keys.api';
+
+interface Props {
+  apiKey: PartnerApiKey | null;
+  onClose: () => void;
+}
+
+/** IPs/CIDR: um por linha */
+const parseIps = (text: string) =>
+  text
+    .split('\n')
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+
+export function ApiKeyFormModal({ apiKey, onClose }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+  const isEdit = !!apiKey;
+
+  const { data: scopes = [] } = usePartnerApiScopes();
+  const createMutation = useCreatePartnerApiKey();
+  const updateMutation = useUpdatePartnerApiKey();
+
+  const [form, setForm] = useState({
+    name: apiKey?.name ?? '',
+    scopes: apiKey?.scopes ?? [],
+    allowedIps: apiKey?.allowedIps.join('\n') ?? '',
+    rateLimitPerMinute: apiKey?.rateLimitPerMinute ?? 60,
+    expiresAt: apiKey?.expiresAt?.slice(0, 10) ?? '',
+  });
+  const [created, setCreated] = useState<CreatedPartnerApiKey | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const isValid = form.name.trim().length >= 2 && form.scopes.length > 0;
+
+  const toggleScope = (scope: string) =>
+    setForm((f) => ({
+      ...f,
+      scopes: f.scopes.includes(scope) ? f.scopes.filter((s) => s !== scope) : [...f.scopes, scope],
+    }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    const data = {
+      name: form.name.trim(),
+      scopes: form.scopes,
+      allowedIps: parseIps(form.allowedIps),
+      rateLimitPerMinute: form.rateLimitPerMinute,
+      // Fim do dia escolhido (horário local)
+      expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59`).toISOString() : null,
+    };
+
+    if (isEdit) {
+      updateMutation.mutate({ id: apiKey.id, data }, { onSuccess: onClose });
+    } else {
+      createMutation.mutate(data, { onSuccess: setCreated });
+    }
+  };
+
+  const handleCopy = async (label: string, value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(label);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (error) {
+      console.error('Erro ao copiar:', error);
+    }
+  };
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const inputClass = cn(
+    'w-full px-3 py-2 rounded-lg border text-sm outline-none transition-colors disabled:opacity-60',
+    isDark
+      ? 'bg-zinc-800 border-zinc-700 text-white placeholder-zinc-500 focus:border-nexus-orange'
+      : 'bg-white border-zinc-300 text-zinc-900 placeholder-zinc-400 focus:border-nexus-orange',
+  );
+  const labelClass = cn('block text-xs font-medium mb-1', isDark ? 'text-zinc-400' : 'text-zinc-600');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        className={cn(
+          'relative w-full max-w-lg max-h-[90vh] flex flex-col rounded-2xl shadow-2xl',
+          isDark ? 'bg-zinc-900 border border-zinc-800' : 'bg-white border border-zinc-200',
+        )}
+      >
+        {/* Header */}
+        <div className={cn('flex items-center justify-between px-6 py-4 border-b', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-nexus-orange/10 flex items-center justify-center">
+              <KeyRound size={18} className="text-nexus-orange" />
+            </div>
+            <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>
+              {created ? 'Chave emitida' : isEdit ? 'Editar chave' : 'Nova chave de API'}
+            </h2>
+          </div>
+          <button onClick={onClose} className={cn('p-2 rounded-lg', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800/50' : 'text-zinc-500 hover:text-zinc-900 hover:bg-zinc-100')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {created ? (
+          /* Segredo exibido uma única vez */
+          <div className="px-6 py-5 space-y-4 overflow-y-auto">
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-500/10 text-amber-500 text-xs">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+              Copie o segredo agora — ele não será exibido novamente. Se perdê-lo, revogue a chave e emita outra.
+            </div>
+            {[
+              { label: 'X-Client-Id', value: created.clientId },
+              { label: 'X-Client-Secret', value: created.secret },
+            ].map((item) => (
+              <div key={item.label}>
+                <label className={labelClass}>{item.label}</label>
+                <div className="flex gap-2">
+                  <input className={cn(inputClass, 'font-mono text-xs')} value={item.value} readOnly onFocus={(e) => e.target.select()} />
+                  <button
+                    type="button"
+                    onClick={() => handleCopy(item.label, item.value)}
+                    className={cn('shrink-0 px-3 rounded-lg border transition-colors', isDark ? 'border-zinc-700 text-zinc-300 hover:bg-zinc-800' : 'border-zinc-300 text-zinc-600 hover:bg-zinc-100')}
+                    title="Copiar"
+                  >
+                    {copied === item.label ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="px-6 py-5 space-y-4 overflow-y-auto">
+            <div>
+              <label className={labelClass}>Integração *</label>
+              <input
+                className={inputClass}
+                value={form.name}
+                onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+                placeholder="Ex.: Site institucional"
+                maxLength={80}
+                required
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Escopos *</label>
+              <div className="space-y-1.5">
+                {scopes.map((item) => (
+                  <label key={item.scope} className={cn('flex items-start gap-2 text-sm', isDark ? 'text-zinc-300' : 'text-zinc-700')}>
+                    <input
+                      type="checkbox"
+                      checked={form.scopes.includes(item.scope)}
+                      onChange={() => toggleScope(item.scope)}
+                      className="accent-nexus-orange mt-1"
+                    />
+                    <span>
+                      <span className="font-mono text-xs">{item.scope}</span>
+                      <span className="block text-xs text-zinc-500">{item.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Requisições por minuto</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={3000}
+                  className={inputClass}
+                  value={form.rateLimitPerMinute}
+                  onChange={(e) => setForm((f) => ({ ...f, rateLimitPerMinute: Math.min(3000, Math.max(1, parseInt(e.target.value, 10) || 1)) }))}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Expira em</label>
+                <input
+                  type="date"
+                  className={inputClass}
+                  value={form.expiresAt}
+                  onChange={(e) => setForm((f) => ({ ...f, expiresAt: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>IPs liberados (um por linha; vazio = qualquer origem)</label>
+              <textarea
+                className={cn(inputClass, 'min-h-[80px] font-mono text-xs')}
+                value={form.allowedIps}
+                onChange={(e) => setForm((f) => ({ ...f, allowedIps: e.target.value }))}
+                placeholder={'200.150.10.20\n10.0.0.0/24'}
+              />
+            </div>
+          </form>
+        )}
+
+        {/* Footer */}
+        <div className={cn('flex justify-end gap-3 px-6 py-4 border-t', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          {created ? (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 transition-colors"
+            >
+              Concluir
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={onClose}
+                className={cn('px-4 py-2 rounded-lg text-sm font-medium transition-colors', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800' : 'text-zinc-600 hover:bg-zinc-100')}
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={isPending || !isValid}
+                className="px-4 py-2 rounded-lg bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 disabled:opacity-50 transition-colors"
+              >
+                {isPending ? 'Salvando...' : isEdit ? 'Salvar' : 'Emitir chave'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { X, ScrollText } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { usePartnerApiLogs } from '../../hooks/usePartnerApiKeys';
+import { formatDateTime } from './ApiKeysTab';
+import type { PartnerApiKey } from '../../api/partner-api-keys.api';
+
+interface Props {
+  apiKey: PartnerApiKey;
+  onClose: () => void;
+}
+
+const statusClass = (status: number) =>
+  status >= 500 ? 'text-red-500' : status >= 400 ? 'text-amber-500' : 'text-green-500';
+
+/** Últimas 100 requisições autenticadas com a chave (retenção de 90 dias) */
+export function ApiKeyLogsModal({ apiKey, onClose }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+  const { data: logs, isLoading } = usePartnerApiLogs(apiKey.id);
+
+  const cellClass = cn('px-4 py-2 text-xs', isDark ? 'text-zinc-300' : 'text-zinc-700');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        className={cn(
+          'relative w-full max-w-3xl max-h-[85vh] flex flex-col rounded-2xl shadow-2xl',
+          isDark ? 'bg-zinc-900 border border-zinc-800' : 'bg-white border border-zinc-200',
+        )}
+      >
+        {/* Header */}
+        <div className={cn('flex items-center justify-between px-6 py-4 border-b', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-nexus-orange/10 flex items-center justify-center">
+              <ScrollText size={18} className="text-nexus-orange" />
+            </div>
+            <div>
+              <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>Requisições</h2>
+              <p className="text-xs text-zinc-500">{apiKey.name} · {apiKey.clientId}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className={cn('p-2 rounded-lg', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800/50' : 'text-zinc-500 hover:text-zinc-900 hover:bg-zinc-100')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto">
+          {isLoading ? (
+            <div className="py-12 text-center">
+              <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : !logs?.length ? (
+            <p className="py-12 text-center text-sm text-zinc-500">Nenhuma requisição registrada</p>
+          ) : (
+            <table className="w-full">
+              <thead className={cn('border-b sticky top-0', isDark ? 'border-zinc-800 bg-zinc-900' : 'border-zinc-200 bg-zinc-50')}>
+                <tr>
+                  {['Data', 'Requisição', 'Status', 'Duração', 'IP'].map((h) => (
+                    <th key={h} className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wide text-zinc-500">
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className={cn('divide-y', isDark ? 'divide-zinc-800' : 'divide-zinc-100')}>
+                {logs.map((log) => (
+                  <tr key={log.id}>
+                    <td className={cn(cellClass, 'whitespace-nowrap')}>{formatDateTime(log.createdAt)}</td>
+                    <td className={cn(cellClass, 'font-mono')}>
+                      <span className="font-bold">{log.method}</span> {log.path}
+                    </td>
+                    <td className={cn(cellClass, 'font-mono font-bold', statusClass(log.statusCode))}>{log.statusCode}</td>
+                    <td className={cellClass}>{log.durationMs} ms</td>
+                    <td className={cn(cellClass, 'font-mono')}>{log.ip ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { Plus, Pencil, Ban, KeyRound, ScrollText } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { usePartnerApiKeys, useRevokePartnerApiKey } from '../../hooks/usePartnerApiKeys';
+import { ApiKeyFormModal } from './ApiKeyFormModal';
+import { ApiKeyLogsModal } from './ApiKeyLogsModal';
+import type { PartnerApiKey } from '../../api/partner-api-keys.api';
+
+export const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const keyStatus = (key: PartnerApiKey) => {
+  if (key.revokedAt) return { label: 'Revogada', className: 'bg-red-500/10 text-red-500' };
+  if (key.expiresAt && new Date(key.expiresAt) <= new Date()) return { label: 'Expirada', className: 'bg-amber-500/10 text-amber-500' };
+  return { label: 'Ativa', className: 'bg-green-500/10 text-green-500' };
+};
+
+/**
+ * Chaves da Partner API (/partner/*) — uma por integração
+ * O segredo só aparece na emissão; revogação é definitiva
+ */
+export function ApiKeysTab() {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editKey, setEditKey] = useState<PartnerApiKey | null>(null);
+  const [logsKey, setLogsKey] = useState<PartnerApiKey | null>(null);
+
+  const { data: keys, isLoading } = usePartnerApiKeys();
+  const revokeMutation = useRevokePartnerApiKey();
+
+  const handleRevoke = (key: PartnerApiKey) => {
+    if (confirm(`Revogar a chave "${key.name}"? A integração deixará de funcionar imediatamente.`)) {
+      revokeMutation.mutate(key.id);
+    }
+  };
+
+  const mutedText = cn('px-4 py-3 text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500');
+  const iconButton = cn('p-1.5 rounded-lg transition-colors', isDark ? 'hover:bg-zinc-700 text-zinc-400 hover:text-white' : 'hover:bg-zinc-100 text-zinc-500 hover:text-zinc-900');
+
+  return (
+    <div className="p-6 space-y-5">
+      {/* Top bar */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>Chaves de API</h2>
+          <p className={cn('text-sm mt-0.5', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
+            Credenciais das integrações externas — enviadas em X-Client-Id e X-Client-Secret, com escopos e limite por chave
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setEditKey(null);
+            setModalOpen(true);
+          }}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 transition-colors"
+        >
+          <Plus size={16} />
+          Nova chave
+        </button>
+      </div>
+
+      {/* Table */}
+      <div className={cn('rounded-2xl border overflow-hidden', isDark ? 'border-zinc-800 bg-zinc-900/50' : 'border-zinc-200 bg-white')}>
+        {isLoading ? (
+          <div className="py-12 text-center">
+            <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : !keys?.length ? (
+          <div className="py-12 text-center">
+            <KeyRound size={36} className={cn('mx-auto mb-2', isDark ? 'text-zinc-600' : 'text-zinc-300')} />
+            <p className={cn('text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500')}>Nenhuma chave de API emitida</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className={cn('border-b', isDark ? 'border-zinc-800 bg-zinc-900' : 'border-zinc-200 bg-zinc-50')}>
+              <tr>
+                {['Integração', 'Escopos', 'Limite', 'Último uso', 'Status', 'Ações'].map((h) => (
+                  <th key={h} className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-zinc-500">
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className={cn('divide-y', isDark ? 'divide-zinc-800' : 'divide-zinc-100')}>
+              {keys.map((key) => {
+                const status = keyStatus(key);
+                return (
+                  <tr
+                    key={key.id}
+                    className={cn('transition-colors', key.revokedAt && 'opacity-50', isDark ? 'hover:bg-zinc-800/40' : 'hover:bg-zinc-50')}
+                  >
+                    <td className={cn('px-4 py-3 text-sm font-medium', isDark ? 'text-zinc-200' : 'text-zinc-800')}>
+                      {key.name}
+                      <p className="text-xs font-normal font-mono text-zinc-500">
+                        {key.clientId} · ••••{key.secretHint}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap gap-1 max-w-xs">
+                        {key.scopes.map((scope) => (
+                          <span key={scope} className={cn('text-[11px] font-mono px-1.5 py-0.5 rounded', isDark ? 'bg-zinc-800 text-zinc-300' : 'bg-zinc-100 text-zinc-600')}>
+                            {scope}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className={mutedText}>
+                      {key.rateLimitPerMinute}/min
+                      {key.allowedIps.length > 0 && (
+                        <p className="text-xs" title={key.allowedIps.join(', ')}>
+                          {key.allowedIps.length} {key.allowedIps.length === 1 ? 'IP liberado' : 'IPs liberados'}
+                        </p>
+                      )}
+                    </td>
+                    <td className={mutedText}>
+                      {key.lastUsedAt ? formatDateTime(key.lastUsedAt) : '—'}
+                      {key.lastUsedIp && <p className="text-xs font-mono">{key.lastUsedIp}</p>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={cn('inline-flex text-xs px-2 py-0.5 rounded-full', status.className)}>{status.label}</span>
+                      {key.expiresAt && !key.revokedAt && (
+                        <p className="text-xs text-zinc-500 mt-0.5">até {new Date(key.expiresAt).toLocaleDateString('pt-BR')}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-1">
+                        <button onClick={() => setLogsKey(key)} className={iconButton} title="Requisições">
+                          <ScrollText size={14} />
+                        </button>
+                        {!key.revokedAt && (
+                          <>
+                            <button
+                              onClick={() => {
+                                setEditKey(key);
+                                setModalOpen(true);
+                              }}
+                              className={iconButton}
+                              title="Editar"
+                            >
+                              <Pencil size={14} />
+                            </button>
+                            <button
+                              onClick={() => handleRevoke(key)}
+                              disabled={revokeMutation.isPending}
+                              className="p-1.5 rounded-lg transition-colors text-red-500 hover:bg-red-500/10"
+                              title="Revogar"
+                            >
+                              <Ban size={14} />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {modalOpen && (
+        <ApiKeyFormModal
+          apiKey={editKey}
+          onClose={() => {
+            setModalOpen(false);
+            setEditKey(null);
+          }}
+        />
+      )}
+
+      {logsKey && <ApiKeyLogsModal apiKey={logsKey} onClose={() => setLogsKey(null)} />}
+    </div>
+  );
+}
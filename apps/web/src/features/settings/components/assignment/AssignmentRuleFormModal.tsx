@@ -0,0 +1,332 @@
+import { useState } from 'react';
+import { X, Shuffle } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useCreateAssignmentRule, useUpdateAssignmentRule, useVendorAvailability } from '../../hooks/useLeadAssignment';
+import { useLeadCatalog } from '../../hooks/useLeadCatalogs';
+import type { AssignmentRule, AssignmentRuleDto, AssignmentStrategy } from '../../api/lead-assignment.api';
+
+interface Props {
+  rule: AssignmentRule | null;
+  onClose: () => void;
+}
+
+const WEEKDAYS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+/** "SP, rj" → ['SP', 'RJ'] */
+const splitList = (value: string, upper = false) =>
+  value
+    .split(',')
+    .map((v) => (upper ? v.trim().toUpperCase() : v.trim()))
+    .filter(Boolean);
+
+const toIntOrNull = (value: string) => (value.trim() === '' ? null : parseInt(value, 10));
+
+export function AssignmentRuleFormModal({ rule, onClose }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+  const isEdit = !!rule;
+
+  const createMutation = useCreateAssignmentRule();
+  const updateMutation = useUpdateAssignmentRule();
+  const { data: vendedores } = useVendorAvailability();
+  const { data: origins } = useLeadCatalog('lead-origins');
+
+  const [form, setForm] = useState({
+    name: rule?.name ?? '',
+    priority: String(rule?.priority ?? 100),
+    isActive: rule?.isActive ?? true,
+    productType: rule?.productType ?? '',
+    states: rule?.states.join(', ') ?? '',
+    cities: rule?.cities.join(', ') ?? '',
+    originIds: rule?.originIds ?? [],
+    minUnits: rule?.minUnits != null ? String(rule.minUnits) : '',
+    maxUnits: rule?.maxUnits != null ? String(rule.maxUnits) : '',
+    weekdays: rule?.weekdays ?? [],
+    startTime: rule?.startTime ?? '',
+    endTime: rule?.endTime ?? '',
+    vendedorIds: rule?.vendedorIds ?? [],
+    strategy: rule?.strategy ?? ('ROUND_ROBIN' as AssignmentStrategy),
+    slaReassignMinutes: rule?.slaReassignMinutes != null ? String(rule.slaReassignMinutes) : '',
+  });
+
+  const toggleIn = (key: 'originIds' | 'vendedorIds', id: string) =>
+    setForm((f) => ({
+      ...f,
+      [key]: f[key].includes(id) ? f[key].filter((v) => v !== id) : [...f[key], id],
+    }));
+
+  const toggleWeekday = (day: number) =>
+    setForm((f) => ({
+      ...f,
+      weekdays: f.weekdays.includes(day) ? f.weekdays.filter((d) => d !== day) : [...f.weekdays, day].sort(),
+    }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data: AssignmentRuleDto = {
+      name: form.name.trim(),
+      priority: parseInt(form.priority, 10) || 0,
+      isActive: form.isActive,
+      productType: (form.productType || null) as AssignmentRuleDto['productType'],
+      states: splitList(form.states, true),
+      cities: splitList(form.cities),
+      originIds: form.originIds,
+      minUnits: toIntOrNull(form.minUnits),
+      maxUnits: toIntOrNull(form.maxUnits),
+      weekdays: form.weekdays,
+      startTime: form.startTime || null,
+      endTime: form.endTime || null,
+      vendedorIds: form.vendedorIds,
+      strategy: form.strategy,
+      slaReassignMinutes: toIntOrNull(form.slaReassignMinutes),
+    };
+
+    if (isEdit) {
+      updateMutation.mutate({ id: rule.id, data }, { onSuccess: onClose });
+    } else {
+      createMutation.mutate(data, { onSuccess: onClose });
+    }
+  };
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const inputClass = cn(
+    'w-full px-3 py-2 rounded-lg border text-sm outline-none transition-colors',
+    isDark
+      ? 'bg-zinc-800 border-zinc-700 text-white placeholder-zinc-500 focus:border-nexus-orange'
+      : 'bg-white border-zinc-300 text-zinc-900 placeholder-zinc-400 focus:border-nexus-orange',
+  );
+  const labelClass = cn('block text-xs font-medium mb-1', isDark ? 'text-zinc-400' : 'text-zinc-600');
+  const sectionClass = cn('text-xs font-semibold uppercase tracking-wide', isDark ? 'text-zinc-500' : 'text-zinc-400');
+  const chipClass = (active: boolean) =>
+    cn(
+      'px-2.5 py-1 rounded-lg text-xs font-medium border transition-colors',
+      active
+        ? 'border-nexus-orange bg-nexus-orange/10 text-nexus-orange'
+        : isDark
+          ? 'border-zinc-700 text-zinc-400 hover:border-zinc-600'
+          : 'border-zinc-200 text-zinc-600 hover:border-zinc-300',
+    );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        className={cn(
+          'relative w-full max-w-2xl max-h-[90vh] flex flex-col rounded-2xl shadow-2xl',
+          isDark ? 'bg-zinc-900 border border-zinc-800' : 'bg-white border border-zinc-200',
+        )}
+      >
+        {/* Header */}
+        <div className={cn('flex items-center justify-between px-6 py-4 border-b', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-nexus-orange/10 flex items-center justify-center">
+              <Shuffle size={18} className="text-nexus-orange" />
+            </div>
+            <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>
+              {isEdit ? 'Editar' : 'Nova'} regra de atribuição
+            </h2>
+          </div>
+          <button onClick={onClose} className={cn('p-2 rounded-lg', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800/50' : 'text-zinc-500 hover:text-zinc-900 hover:bg-zinc-100')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="px-6 py-5 space-y-5 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className={labelClass}>Nome *</label>
+              <input
+                className={inputClass}
+                value={form.name}
+                onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+                maxLength={120}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Prioridade</label>
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                value={form.priority}
+                onChange={(e) => setForm((f) => ({ ...f, priority: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          {/* Condições */}
+          <p className={sectionClass}>Condições (vazio = qualquer valor)</p>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Produto</label>
+              <select
+                className={inputClass}
+                value={form.productType}
+                onChange={(e) => setForm((f) => ({ ...f, productType: e.target.value }))}
+              >
+                <option value="">Qualquer</option>
+                <option value="ONE_NEXUS">One Nexus</option>
+                <option value="LOCADORAS">Nexloc</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>UFs</label>
+              <input
+                className={inputClass}
+                value={form.states}
+                onChange={(e) => setForm((f) => ({ ...f, states: e.target.value }))}
+                placeholder="SP, RJ"
+              />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>Cidades</label>
+              <input
+                className={inputClass}
+                value={form.cities}
+                onChange={(e) => setForm((f) => ({ ...f, cities: e.target.value }))}
+                placeholder="São Paulo, Campinas"
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Mín. unidades</label>
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                value={form.minUnits}
+                onChange={(e) => setForm((f) => ({ ...f, minUnits: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Máx. unidades</label>
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                value={form.maxUnits}
+                onChange={(e) => setForm((f) => ({ ...f, maxUnits: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Origens</label>
+            <div className="flex flex-wrap gap-1.5">
+              {(origins ?? []).filter((o) => o.isActive || form.originIds.includes(o.id)).map((origin) => (
+                <button
+                  key={origin.id}
+                  type="button"
+                  onClick={() => toggleIn('originIds', origin.id)}
+                  className={chipClass(form.originIds.includes(origin.id))}
+                >
+                  {origin.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-3">
+              <label className={labelClass}>Dias da semana</label>
+              <div className="flex gap-1.5">
+                {WEEKDAYS.map((label, day) => (
+                  <button key={day} type="button" onClick={() => toggleWeekday(day)} className={chipClass(form.weekdays.includes(day))}>
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Início (Brasília)</label>
+              <input
+                type="time"
+                className={inputClass}
+                value={form.startTime}
+                onChange={(e) => setForm((f) => ({ ...f, startTime: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Fim</label>
+              <input
+                type="time"
+                className={inputClass}
+                value={form.endTime}
+                onChange={(e) => setForm((f) => ({ ...f, endTime: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          {/* Distribuição */}
+          <p className={sectionClass}>Distribuição</p>
+          <div>
+            <label className={labelClass}>Vendedores do pool * ({form.vendedorIds.length} selecionados)</label>
+            <div className="flex flex-wrap gap-1.5">
+              {(vendedores ?? []).map((v) => (
+                <button key={v.id} type="button" onClick={() => toggleIn('vendedorIds', v.id)} className={chipClass(form.vendedorIds.includes(v.id))}>
+                  {v.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Estratégia</label>
+              <select
+                className={inputClass}
+                value={form.strategy}
+                onChange={(e) => setForm((f) => ({ ...f, strategy: e.target.value as AssignmentStrategy }))}
+              >
+                <option value="ROUND_ROBIN">Round-robin</option>
+                <option value="LEAST_LOADED">Menor carga (leads abertos)</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Reatribuir sem contato após (min)</label>
+              <input
+                type="number"
+                min={5}
+                className={inputClass}
+                value={form.slaReassignMinutes}
+                onChange={(e) => setForm((f) => ({ ...f, slaReassignMinutes: e.target.value }))}
+                placeholder="Desativado"
+              />
+            </div>
+          </div>
+
+          <label className={cn('flex items-center gap-2 text-sm', isDark ? 'text-zinc-300' : 'text-zinc-700')}>
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={(e) => setForm((f) => ({ ...f, isActive: e.target.checked }))}
+              className="accent-nexus-orange"
+            />
+            Regra ativa
+          </label>
+        </form>
+
+        {/* Footer */}
+        <div className={cn('flex justify-end gap-3 px-6 py-4 border-t', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <button
+            type="button"
+            onClick={onClose}
+            className={cn('px-4 py-2 rounded-lg text-sm font-medium transition-colors', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800' : 'text-zinc-600 hover:bg-zinc-100')}
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isPending || form.name.trim().length < 2 || form.vendedorIds.length === 0}
+            className="px-4 py-2 rounded-lg bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 disabled:opacity-50 transition-colors"
+          >
+            {isPending ? 'Salvando...' : isEdit ? 'Salvar' : 'Criar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+import { useState } from 'react';
+import { Plus, Pencil, Trash2, Power, Shuffle } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import {
+  useAssignmentRules,
+  useUpdateAssignmentRule,
+  useDeleteAssignmentRule,
+  useVendorAvailability,
+  useUpdateVendorAvailability,
+  useAssignmentLogs,
+} from '../../hooks/useLeadAssignment';
+import { AssignmentRuleFormModal } from './AssignmentRuleFormModal';
+import type { AssignmentRule, VendorAvailability, LeadEntrySource, AssignmentReason } from '../../api/lead-assignment.api';
+
+type Section = 'rules' | 'availability' | 'logs';
+
+const SECTIONS: { id: Section; label: string; description: string }[] = [
+  {
+    id: 'rules',
+    label: 'Regras',
+    description: 'Avaliadas por prioridade em toda entrada de lead (cadastro, formulários, API de parceiros e Chat Nexus)',
+  },
+  {
+    id: 'availability',
+    label: 'Disponibilidade',
+    description: 'Capacidade de leads abertos e ausências — vendedores indisponíveis são pulados na distribuição',
+  },
+  {
+    id: 'logs',
+    label: 'Histórico',
+    description: 'Últimas atribuições e reatribuições',
+  },
+];
+
+const SOURCE_LABELS: Record<LeadEntrySource, string> = {
+  MANUAL: 'Cadastro manual',
+  FORM: 'Formulário',
+  LANDING_PAGE: 'Landing page',
+  PARTNER_API: 'API de parceiros',
+  CHAT_NEXUS: 'Chat Nexus',
+  IMPORT: 'Importação em lote',
+  EMAIL: 'E-mail recebido',
+};
+
+const REASON_LABELS: Record<AssignmentReason, string> = {
+  RULE: 'Regra',
+  EXPLICIT: 'Definido na entrada',
+  FALLBACK: 'Fallback',
+  MANUAL_REASSIGN: 'Reatribuição manual',
+  SLA_BREACH: 'SLA sem contato',
+};
+
+const WEEKDAYS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+/** Resumo legível das condições da regra */
+function describeConditions(rule: AssignmentRule): string {
+  const parts: string[] = [];
+  if (rule.productType) parts.push(rule.productType === 'ONE_NEXUS' ? 'One Nexus' : 'Nexloc');
+  if (rule.states.length) parts.push(rule.states.join('/'));
+  if (rule.cities.length) parts.push(rule.cities.join(', '));
+  if (rule.originIds.length) parts.push(`${rule.originIds.length} origem(ns)`);
+  if (rule.minUnits != null || rule.maxUnits != null) parts.push(`${rule.minUnits ?? 0}–${rule.maxUnits ?? '∞'} unidades`);
+  if (rule.weekdays.length) parts.push(rule.weekdays.map((d) => WEEKDAYS[d]).join(', '));
+  if (rule.startTime && rule.endTime) parts.push(`${rule.startTime}–${rule.endTime}`);
+  return parts.length ? parts.join(' · ') : 'Qualquer lead';
+}
+
+/**
+ * Atribuição automática de leads: regras, disponibilidade dos vendedores e histórico
+ */
+export function AssignmentRulesTab() {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+
+  const [section, setSection] = useState<Section>('rules');
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editRule, setEditRule] = useState<AssignmentRule | null>(null);
+
+  const active = SECTIONS.find((s) => s.id === section)!;
+
+  const { data: rules, isLoading } = useAssignmentRules();
+  const updateMutation = useUpdateAssignmentRule();
+  const deleteMutation = useDeleteAssignmentRule();
+
+  const handleDelete = (rule: AssignmentRule) => {
+    if (confirm(`Remover a regra "${rule.name}"? O histórico de atribuições é mantido.`)) {
+      deleteMutation.mutate(rule.id);
+    }
+  };
+
+  const cardClass = cn('rounded-2xl border overflow-hidden', isDark ? 'border-zinc-800 bg-zinc-900/50' : 'border-zinc-200 bg-white');
+  const thClass = 'px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-zinc-500';
+  const mutedText = cn('px-4 py-3 text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500');
+  const iconButton = cn('p-1.5 rounded-lg transition-colors', isDark ? 'hover:bg-zinc-700 text-zinc-400 hover:text-white' : 'hover:bg-zinc-100 text-zinc-500 hover:text-zinc-900');
+
+  return (
+    <div className="p-6 space-y-5">
+      {/* Top bar */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>Atribuição de leads</h2>
+          <p className={cn('text-sm mt-0.5', isDark ? 'text-zinc-400' : 'text-zinc-500')}>{active.description}</p>
+        </div>
+        {section === 'rules' && (
+          <button
+            onClick={() => {
+              setEditRule(null);
+              setModalOpen(true);
+            }}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 transition-colors"
+          >
+            <Plus size={16} />
+            Nova regra
+          </button>
+        )}
+      </div>
+
+      {/* Section tabs */}
+      <div className={cn('flex gap-1 border-b', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+        {SECTIONS.map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setSection(tab.id)}
+            className={cn(
+              'px-4 py-2.5 text-sm font-medium border-b-2 -mb-px transition-colors',
+              section === tab.id
+                ? 'border-nexus-orange text-nexus-orange'
+                : isDark
+                ? 'border-transparent text-zinc-400 hover:text-zinc-100'
+                : 'border-transparent text-zinc-500 hover:text-nexus-orange',
+            )}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {section === 'rules' && (
+        <div className={cardClass}>
+          {isLoading ? (
+            <div className="py-12 text-center">
+              <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : !rules?.length ? (
+            <div className="py-12 text-center">
+              <Shuffle size={36} className={cn('mx-auto mb-2', isDark ? 'text-zinc-600' : 'text-zinc-300')} />
+              <p className={cn('text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
+                Nenhuma regra — leads seguem o vendedor informado ou quem cadastrou
+              </p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className={cn('border-b', isDark ? 'border-zinc-800 bg-zinc-900' : 'border-zinc-200 bg-zinc-50')}>
+                <tr>
+                  {['#', 'Regra', 'Condições', 'Pool', 'SLA', 'Ações'].map((h) => (
+                    <th key={h} className={thClass}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className={cn('divide-y', isDark ? 'divide-zinc-800' : 'divide-zinc-100')}>
+                {rules.map((rule) => (
+                  <tr key={rule.id} className={cn('transition-colors', !rule.isActive && 'opacity-50', isDark ? 'hover:bg-zinc-800/40' : 'hover:bg-zinc-50')}>
+                    <td className={mutedText}>{rule.priority}</td>
+                    <td className={cn('px-4 py-3 text-sm font-medium', isDark ? 'text-zinc-200' : 'text-zinc-800')}>
+                      {rule.name}
+                      <p className="text-xs font-normal text-zinc-500">{rule._count.logs} atribuições</p>
+                    </td>
+                    <td className={mutedText}>{describeConditions(rule)}</td>
+                    <td className={mutedText}>
+                      {rule.vendedores.map((v) => v.name).join(', ')}
+                      <p className="text-xs">{rule.strategy === 'ROUND_ROBIN' ? 'Round-robin' : 'Menor carga'}</p>
+                    </td>
+                    <td className={mutedText}>{rule.slaReassignMinutes ? `${rule.slaReassignMinutes} min` : '—'}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => {
+                            setEditRule(rule);
+                            setModalOpen(true);
+                          }}
+                          className={iconButton}
+                          title="Editar"
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        <button
+                          onClick={() => updateMutation.mutate({ id: rule.id, data: { isActive: !rule.isActive } })}
+                          disabled={updateMutation.isPending}
+                          className={iconButton}
+                          title={rule.isActive ? 'Desativar' : 'Ativar'}
+                        >
+                          <Power size={14} />
+                        </button>
+                        <button onClick={() => handleDelete(rule)} className="p-1.5 rounded-lg transition-colors text-red-500 hover:bg-red-500/10" title="Remover">
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {section === 'availability' && <AvailabilitySection isDark={isDark} cardClass={cardClass} thClass={thClass} />}
+      {section === 'logs' && <LogsSection isDark={isDark} cardClass={cardClass} thClass={thClass} mutedText={mutedText} />}
+
+      {modalOpen && (
+        <AssignmentRuleFormModal
+          rule={editRule}
+          onClose={() => {
+            setModalOpen(false);
+            setEditRule(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// ── Disponibilidade ─────────────────────────────────────────────────────────
+
+interface SectionProps {
+  isDark: boolean;
+  cardClass: string;
+  thClass: string;
+}
+
+function AvailabilitySection({ isDark, cardClass, thClass }: SectionProps) {
+  const { data: vendedores, isLoading } = useVendorAvailability();
+
+  return (
+    <div className={cardClass}>
+      {isLoading ? (
+        <div className="py-12 text-center">
+          <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <table className="w-full">
+          <thead className={cn('border-b', isDark ? 'border-zinc-800 bg-zinc-900' : 'border-zinc-200 bg-zinc-50')}>
+            <tr>
+              {['Vendedor', 'Leads abertos', 'Capacidade', 'Ausente de', 'Até', ''].map((h) => (
+                <th key={h} className={thClass}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className={cn('divide-y', isDark ? 'divide-zinc-800' : 'divide-zinc-100')}>
+            {(vendedores ?? []).map((v) => (
+              <AvailabilityRow key={v.id} vendedor={v} isDark={isDark} />
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function AvailabilityRow({ vendedor, isDark }: { vendedor: VendorAvailability; isDark: boolean }) {
+  const updateMutation = useUpdateVendorAvailability();
+  const [form, setForm] = useState({
+    maxOpenLeads: vendedor.maxOpenLeads != null ? String(vendedor.maxOpenLeads) : '',
+    absentFrom: vendedor.absentFrom?.slice(0, 10) ?? '',
+    absentUntil: vendedor.absentUntil?.slice(0, 10) ?? '',
+  });
+
+  const openLeads = vendedor._count.assignedLeads;
+  const atCapacity = vendedor.maxOpenLeads != null && openLeads >= vendedor.maxOpenLeads;
+
+  const handleSave = () => {
+    updateMutation.mutate({
+      userId: vendedor.id,
+      data: {
+        maxOpenLeads: form.maxOpenLeads === '' ? null : parseInt(form.maxOpenLeads, 10),
+        // Datas em Brasília: ausência cobre o dia inteiro
+        absentFrom: form.absentFrom ? `${form.absentFrom}T00:00:00-03:00` : null,
+        absentUntil: form.absentUntil ? `${form.absentUntil}T23:59:59-03:00` : null,
+      },
+    });
+  };
+
+  const inputClass = cn(
+    'w-full px-2 py-1 rounded-lg border text-sm outline-none',
+    isDark ? 'bg-zinc-800 border-zinc-700 text-white focus:border-nexus-orange' : 'bg-white border-zinc-300 text-zinc-900 focus:border-nexus-orange',
+  );
+
+  return (
+    <tr className={isDark ? 'hover:bg-zinc-800/40' : 'hover:bg-zinc-50'}>
+      <td className={cn('px-4 py-2 text-sm font-medium', isDark ? 'text-zinc-200' : 'text-zinc-800')}>
+        {vendedor.name}
+        <p className="text-xs font-normal text-zinc-500">{vendedor.role === 'GESTOR' ? 'Gestor' : 'Vendedor'}</p>
+      </td>
+      <td className={cn('px-4 py-2 text-sm', atCapacity ? 'text-red-500 font-semibold' : 'text-zinc-500')}>{openLeads}</td>
+      <td className="px-4 py-2 w-28">
+        <input
+          type="number"
+          min={0}
+          className={inputClass}
+          value={form.maxOpenLeads}
+          onChange={(e) => setForm((f) => ({ ...f, maxOpenLeads: e.target.value }))}
+          placeholder="Sem limite"
+        />
+      </td>
+      <td className="px-4 py-2 w-40">
+        <input type="date" className={inputClass} value={form.absentFrom} onChange={(e) => setForm((f) => ({ ...f, absentFrom: e.target.value }))} />
+      </td>
+      <td className="px-4 py-2 w-40">
+        <input type="date" className={inputClass} value={form.absentUntil} onChange={(e) => setForm((f) => ({ ...f, absentUntil: e.target.value }))} />
+      </td>
+      <td className="px-4 py-2 text-right">
+        <button
+          onClick={handleSave}
+          disabled={updateMutation.isPending}
+          className="px-3 py-1 rounded-lg bg-nexus-orange text-white text-xs font-medium hover:bg-nexus-orange/90 disabled:opacity-50 transition-colors"
+        >
+          Salvar
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+// ── Histórico ───────────────────────────────────────────────────────────────
+
+function LogsSection({ isDark, cardClass, thClass, mutedText }: SectionProps & { mutedText: string }) {
+  const [source, setSource] = useState<LeadEntrySource | ''>('');
+  const { data: logs, isLoading } = useAssignmentLogs(source ? { source } : undefined);
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={source}
+        onChange={(e) => setSource(e.target.value as LeadEntrySource | '')}
+        className={cn(
+          'px-3 py-2 rounded-lg border text-sm outline-none',
+          isDark ? 'bg-zinc-800 border-zinc-700 text-white' : 'bg-white border-zinc-300 text-zinc-900',
+        )}
+      >
+        <option value="">Todas as entradas</option>
+        {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>{label}</option>
+        ))}
+      </select>
+
+      <div className={cardClass}>
+        {isLoading ? (
+          <div className="py-12 text-center">
+            <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : !logs?.length ? (
+          <p className="py-12 text-center text-sm text-zinc-500">Nenhuma atribuição registrada</p>
+        ) : (
+          <table className="w-full">
+            <thead className={cn('border-b', isDark ? 'border-zinc-800 bg-zinc-900' : 'border-zinc-200 bg-zinc-50')}>
+              <tr>
+                {['Quando', 'Lead', 'Entrada', 'Motivo', 'Vendedor'].map((h) => (
+                  <th key={h} className={thClass}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className={cn('divide-y', isDark ? 'divide-zinc-800' : 'divide-zinc-100')}>
+              {logs.map((log) => (
+                <tr key={log.id}>
+                  <td className={mutedText}>{new Date(log.createdAt).toLocaleString('pt-BR')}</td>
+                  <td className={cn('px-4 py-3 text-sm font-medium', isDark ? 'text-zinc-200' : 'text-zinc-800')}>
+                    {log.lead?.companyName || log.lead?.name || '—'}
+                  </td>
+                  <td className={mutedText}>{SOURCE_LABELS[log.source]}</td>
+                  <td className={mutedText}>
+                    {REASON_LABELS[log.reason]}
+                    {log.rule && <p className="text-xs">{log.rule.name}</p>}
+                  </td>
+                  <td className={mutedText}>
+                    {log.fromVendedor && `${log.fromVendedor.name} → `}
+                    {log.toVendedor?.name ?? '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Plus, Pencil, Trash2, Power, Mail } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useEmailTemplates, useUpdateEmailTemplate, useDeleteEmailTemplate } from '../../hooks/useEmailTemplates';
+import { EmailTemplateFormModal } from './EmailTemplateFormModal';
+import type { EmailTemplate } from '../../api/email-templates.api';
+
+/**
+ * Modelos de e-mail usados no envio a leads e clientes
+ * Excluir um modelo não afeta os e-mails já enviados com ele
+ */
+export function EmailTemplatesTab() {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editTemplate, setEditTemplate] = useState<EmailTemplate | null>(null);
+
+  const { data: templates, isLoading } = useEmailTemplates(true);
+  const updateMutation = useUpdateEmailTemplate();
+  const deleteMutation = useDeleteEmailTemplate();
+
+  const handleDelete = (template: EmailTemplate) => {
+    if (confirm(`Remover o modelo "${template.name}"?`)) {
+      deleteMutation.mutate(template.id);
+    }
+  };
+
+  const mutedText = cn('px-4 py-3 text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500');
+  const iconButton = cn('p-1.5 rounded-lg transition-colors', isDark ? 'hover:bg-zinc-700 text-zinc-400 hover:text-white' : 'hover:bg-zinc-100 text-zinc-500 hover:text-zinc-900');
+
+  return (
+    <div className="p-6 space-y-5">
+      {/* Top bar */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>Modelos de e-mail</h2>
+          <p className={cn('text-sm mt-0.5', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
+            Textos prontos para enviar a leads e clientes — as variáveis são preenchidas com os dados do destinatário
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setEditTemplate(null);
+            setModalOpen(true);
+          }}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 transition-colors"
+        >
+          <Plus size={16} />
+          Novo modelo
+        </button>
+      </div>
+
+      {/* Table */}
+      <div className={cn('rounded-2xl border overflow-hidden', isDark ? 'border-zinc-800 bg-zinc-900/50' : 'border-zinc-200 bg-white')}>
+        {isLoading ? (
+          <div className="py-12 text-center">
+            <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : !templates?.length ? (
+          <div className="py-12 text-center">
+            <Mail size={36} className={cn('mx-auto mb-2', isDark ? 'text-zinc-600' : 'text-zinc-300')} />
+            <p className={cn('text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500')}>Nenhum modelo de e-mail cadastrado</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className={cn('border-b', isDark ? 'border-zinc-800 bg-zinc-900' : 'border-zinc-200 bg-zinc-50')}>
+              <tr>
+                {['Modelo', 'Assunto', 'Envios', 'Status', 'Ações'].map((h) => (
+                  <th key={h} className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-zinc-500">
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className={cn('divide-y', isDark ? 'divide-zinc-800' : 'divide-zinc-100')}>
+              {templates.map((template) => (
+                <tr
+                  key={template.id}
+                  className={cn('transition-colors', !template.isActive && 'opacity-50', isDark ? 'hover:bg-zinc-800/40' : 'hover:bg-zinc-50')}
+                >
+                  <td className={cn('px-4 py-3 text-sm font-medium', isDark ? 'text-zinc-200' : 'text-zinc-800')}>
+                    {template.name}
+                    {template.createdBy && <p className="text-xs font-normal text-zinc-500">por {template.createdBy.name}</p>}
+                  </td>
+                  <td className={cn(mutedText, 'max-w-xs truncate')} title={template.subject}>
+                    {template.subject}
+                  </td>
+                  <td className={mutedText}>{template._count?.outboundEmails ?? 0}</td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={cn(
+                        'inline-flex text-xs px-2 py-0.5 rounded-full',
+                        template.isActive
+                          ? 'bg-green-500/10 text-green-500'
+                          : isDark ? 'bg-zinc-800 text-zinc-400' : 'bg-zinc-100 text-zinc-500',
+                      )}
+                    >
+                      {template.isActive ? 'Ativo' : 'Inativo'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => {
+                          setEditTemplate(template);
+                          setModalOpen(true);
+                        }}
+                        className={iconButton}
+                        title="Editar"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => updateMutation.mutate({ id: template.id, data: { isActive: !template.isActive } })}
+                        disabled={updateMutation.isPending}
+                        className={iconButton}
+                        title={template.isActive ? 'Desativar' : 'Ativar'}
+                      >
+                        <Power size={14} />
+                      </button>
+                      <button onClick={() => handleDelete(template)} className="p-1.5 rounded-lg transition-colors text-red-500 hover:bg-red-500/10" title="Remover">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {modalOpen && (
+        <EmailTemplateFormModal
+          template={editTemplate}
+          onClose={() => {
+            setModalOpen(false);
+            setEditTemplate(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useEmailTemplateVariables } from '../../hooks/useEmailTemplates';
+
+interface Props {
+  /** Insere {{chave}} no campo em edição */
+  onInsert: (token: string) => void;
+}
+
+/** Lista de variáveis aceitas em assunto e corpo — clique para inserir */
+export function EmailVariablesHint({ onInsert }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+  const { data: variables } = useEmailTemplateVariables();
+
+  if (!variables?.length) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {variables.map((variable) => (
+        <button
+          key={variable.key}
+          type="button"
+          onClick={() => onInsert(`{{${variable.key}}}`)}
+          title={variable.description}
+          className={cn(
+            'px-2 py-0.5 rounded-md text-xs font-mono transition-colors',
+            isDark ? 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700' : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200',
+          )}
+        >
+          {`{{${variable.key}}}`}
+        </button>
+      ))}
+    </div>
+  );
+}
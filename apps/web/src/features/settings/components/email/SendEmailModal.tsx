@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { X, Send, Eye, Pencil, Sparkles, AlertTriangle } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useGenerateContent, type LeadContext } from '@/hooks/useSalesAI';
+import { useEmailTemplates, usePreviewEmail, useSendEmail } from '../../hooks/useEmailTemplates';
+import { EmailVariablesHint } from './EmailVariablesHint';
+import type { EmailPreview, EmailTarget } from '../../api/email-templates.api';
+
+interface Props {
+  target: EmailTarget;
+  recipientName: string;
+  /** Contexto do Sales AI — habilita "Gerar com IA" */
+  aiContext?: LeadContext;
+  onClose: () => void;
+}
+
+type AIEmailType = 'email-cold' | 'email-followup';
+
+/**
+ * Separa a linha "Assunto: ..." que o gerador costuma colocar no topo do e-mail
+ */
+const splitGeneratedEmail = (content: string) => {
+  const match = content.match(/^\s*\**assunto\**\s*:\s*(.+)\n+/i);
+  if (!match) return { subject: null, body: content.trim() };
+  return { subject: match[1].replace(/\*+/g, '').trim(), body: content.slice(match[0].length).trim() };
+};
+
+/**
+ * Envio de e-mail a um lead ou cliente
+ * Modelo opcional, edição livre e pré-visualização com as variáveis já preenchidas
+ */
+export function SendEmailModal({ target, recipientName, aiContext, onClose }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+
+  const { data: templates = [] } = useEmailTemplates();
+  const previewMutation = usePreviewEmail();
+  const sendMutation = useSendEmail();
+  const generateContent = useGenerateContent();
+
+  const [templateId, setTemplateId] = useState('');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [aiType, setAiType] = useState<AIEmailType>('email-followup');
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+
+  const dto = { ...target, templateId: templateId || undefined, subject: subject.trim(), body };
+  const isValid = dto.subject.length > 0 && body.trim().length > 0;
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    setPreview(null);
+    const template = templates.find((t) => t.id === id);
+    if (template) {
+      setSubject(template.subject);
+      setBody(template.body);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!aiContext) return;
+    try {
+      const response = await generateContent.mutateAsync({ type: aiType, leadContext: aiContext });
+      const generated = splitGeneratedEmail(response.content);
+      if (generated.subject) setSubject(generated.subject);
+      setBody(generated.body);
+      setTemplateId('');
+      setPreview(null);
+    } catch (error) {
+      console.error('Erro ao gerar e-mail:', error);
+    }
+  };
+
+  const handlePreview = () => {
+    if (!isValid) return;
+    previewMutation.mutate(dto, { onSuccess: setPreview });
+  };
+
+  const handleSend = () => {
+    if (!isValid) return;
+    sendMutation.mutate(dto, { onSuccess: onClose });
+  };
+
+  const inputClass = cn(
+    'w-full px-3 py-2 rounded-lg border text-sm outline-none transition-colors disabled:opacity-60',
+    isDark
+      ? 'bg-zinc-800 border-zinc-700 text-white placeholder-zinc-500 focus:border-nexus-orange'
+      : 'bg-white border-zinc-300 text-zinc-900 placeholder-zinc-400 focus:border-nexus-orange',
+  );
+  const labelClass = cn('block text-xs font-medium mb-1', isDark ? 'text-zinc-400' : 'text-zinc-600');
+  const secondaryButton = cn(
+    'flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50',
+    isDark ? 'text-zinc-300 hover:bg-zinc-800' : 'text-zinc-700 hover:bg-zinc-100',
+  );
+
+  return (
+    <div className="fixed inset-0 z-[230] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        className={cn(
+          'relative w-full max-w-2xl max-h-[90vh] flex flex-col rounded-2xl shadow-2xl',
+          isDark ? 'bg-zinc-900 border border-zinc-800' : 'bg-white border border-zinc-200',
+        )}
+      >
+        {/* Header */}
+        <div className={cn('flex items-center justify-between px-6 py-4 border-b', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-nexus-orange/10 flex items-center justify-center">
+              <Send size={18} className="text-nexus-orange" />
+            </div>
+            <div>
+              <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>Enviar e-mail</h2>
+              <p className="text-xs text-zinc-500">Para {recipientName}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className={cn('p-2 rounded-lg', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800/50' : 'text-zinc-500 hover:text-zinc-900 hover:bg-zinc-100')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="px-6 py-5 space-y-4 overflow-y-auto">
+          {preview ? (
+            <div className="space-y-3">
+              <p className="text-xs text-zinc-500">
+                Para: <span className={isDark ? 'text-zinc-300' : 'text-zinc-700'}>{preview.to}</span>
+              </p>
+              {preview.unknownVariables.length > 0 && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-500/10 text-amber-500 text-xs">
+                  <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                  Variáveis desconhecidas: {preview.unknownVariables.map((v) => `{{${v}}}`).join(', ')} — corrija antes de enviar.
+                </div>
+              )}
+              <p className={cn('text-sm font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>{preview.subject}</p>
+              <div className={cn('p-4 rounded-lg border text-sm whitespace-pre-wrap', isDark ? 'border-zinc-800 bg-zinc-800/40 text-zinc-300' : 'border-zinc-200 bg-zinc-50 text-zinc-700')}>
+                {preview.body}
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Modelo</label>
+                  <select className={inputClass} value={templateId} onChange={(e) => handleTemplateChange(e.target.value)}>
+                    <option value="">Sem modelo</option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                </div>
+                {aiContext && (
+                  <div>
+                    <label className={labelClass}>Gerar com IA</label>
+                    <div className="flex gap-2">
+                      <select className={inputClass} value={aiType} onChange={(e) => setAiType(e.target.value as AIEmailType)}>
+                        <option value="email-followup">Follow-up</option>
+                        <option value="email-cold">Primeiro contato</option>
+                      </select>
+                      <button
+                        type="button"
+                        onClick={handleGenerate}
+                        disabled={generateContent.isPending}
+                        className="shrink-0 flex items-center gap-1.5 px-3 rounded-lg bg-purple-500/10 text-purple-500 text-sm font-medium hover:bg-purple-500/20 disabled:opacity-50 transition-colors"
+                        title="Gerar com o Sales AI"
+                      >
+                        <Sparkles size={14} />
+                        {generateContent.isPending ? 'Gerando...' : 'Gerar'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className={labelClass}>Assunto *</label>
+                <input className={inputClass} value={subject} onChange={(e) => setSubject(e.target.value)} maxLength={200} />
+              </div>
+
+              <div>
+                <label className={labelClass}>Mensagem *</label>
+                <textarea
+                  className={cn(inputClass, 'min-h-[220px]')}
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  maxLength={20000}
+                />
+              </div>
+
+              <EmailVariablesHint onInsert={(token) => setBody((b) => b + token)} />
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className={cn('flex items-center justify-between gap-3 px-6 py-4 border-t', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          {preview ? (
+            <button type="button" onClick={() => setPreview(null)} className={secondaryButton}>
+              <Pencil size={14} /> Editar
+            </button>
+          ) : (
+            <button type="button" onClick={handlePreview} disabled={!isValid || previewMutation.isPending} className={secondaryButton}>
+              <Eye size={14} /> {previewMutation.isPending ? 'Carregando...' : 'Pré-visualizar'}
+            </button>
+          )}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className={cn('px-4 py-2 rounded-lg text-sm font-medium transition-colors', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800' : 'text-zinc-600 hover:bg-zinc-100')}
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSend}
+              disabled={sendMutation.isPending || !isValid || !!preview?.unknownVariables.length}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 disabled:opacity-50 transition-colors"
+            >
+              <Send size={14} />
+              {sendMutation.isPending ? 'Enviando...' : 'Enviar'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
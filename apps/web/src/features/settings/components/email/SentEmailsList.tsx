@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Mail, Send, Eye, MousePointerClick } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import type { LeadContext } from '@/hooks/useSalesAI';
+import { useSentEmails } from '../../hooks/useEmailTemplates';
+import { SendEmailModal } from './SendEmailModal';
+import type { EmailTarget, OutboundEmailStatus } from '../../api/email-templates.api';
+
+interface Props {
+  target: EmailTarget;
+  recipientName: string;
+  aiContext?: LeadContext;
+  /** Oculta o botão de envio (ex.: sem e-mail cadastrado) */
+  canSend?: boolean;
+}
+
+const STATUS_STYLES: Record<OutboundEmailStatus, { label: string; className: string }> = {
+  SENT: { label: 'Enviado', className: 'bg-green-500/10 text-green-500' },
+  FAILED: { label: 'Falhou', className: 'bg-red-500/10 text-red-500' },
+  BOUNCED: { label: 'Não entregue', className: 'bg-amber-500/10 text-amber-500' },
+};
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * E-mails enviados pelo CRM ao lead/cliente, com aberturas e cliques rastreados
+ * Aberturas dependem do cliente de e-mail carregar imagens — são um indicativo, não garantia
+ */
+export function SentEmailsList({ target, recipientName, aiContext, canSend = true }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+  const [sendOpen, setSendOpen] = useState(false);
+
+  const { data: emails = [], isLoading } = useSentEmails(target);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className={cn('text-xs font-bold uppercase tracking-widest flex items-center gap-2', isDark ? 'text-zinc-400' : 'text-zinc-600')}>
+          <Mail size={16} className="text-nexus-orange" /> E-mails enviados
+        </h3>
+        {canSend && (
+          <button
+            type="button"
+            onClick={() => setSendOpen(true)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-nexus-orange text-white text-xs font-bold hover:bg-nexus-orange/90 transition-colors"
+          >
+            <Send size={12} /> Enviar e-mail
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-[10px] text-zinc-500">Carregando...</p>
+      ) : emails.length === 0 ? (
+        <p className="text-[10px] text-zinc-500 italic">Nenhum e-mail enviado pelo CRM.</p>
+      ) : (
+        <div className="space-y-2">
+          {emails.map((email) => {
+            const status = STATUS_STYLES[email.status];
+            return (
+              <div key={email.id} className={cn('p-3 rounded-xl border', isDark ? 'bg-zinc-800/40 border-zinc-800' : 'bg-white border-zinc-200 shadow-sm')}>
+                <div className="flex items-start justify-between gap-2">
+                  <p className={cn('text-xs font-semibold truncate', isDark ? 'text-zinc-200' : 'text-zinc-800')} title={email.subject}>
+                    {email.subject}
+                  </p>
+                  <span className={cn('shrink-0 text-[10px] px-2 py-0.5 rounded-full', status.className)} title={email.error ?? undefined}>
+                    {status.label}
+                  </span>
+                </div>
+                <p className="text-[10px] text-zinc-500 mt-0.5">
+                  {email.sentBy.name} · {formatDateTime(email.createdAt)}
+                  {email.template && ` · ${email.template.name}`}
+                </p>
+                {email.status !== 'FAILED' && (
+                  <div className="flex items-center gap-3 mt-2 text-[10px] text-zinc-500">
+                    <span className="flex items-center gap-1" title={email.lastOpenedAt ? `Última abertura: ${formatDateTime(email.lastOpenedAt)}` : undefined}>
+                      <Eye size={10} /> {email.openCount} {email.openCount === 1 ? 'abertura' : 'aberturas'}
+                    </span>
+                    <span className="flex items-center gap-1" title={email.lastClickedAt ? `Último clique: ${formatDateTime(email.lastClickedAt)}` : undefined}>
+                      <MousePointerClick size={10} /> {email.clickCount} {email.clickCount === 1 ? 'clique' : 'cliques'}
+                    </span>
+                  </div>
+                )}
+                {email.error && email.status !== 'SENT' && (
+                  <p className="text-[10px] text-red-500 mt-1 line-clamp-2">{email.error}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {sendOpen && (
+        <SendEmailModal
+          target={target}
+          recipientName={recipientName}
+          aiContext={aiContext}
+          onClose={() => setSendOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
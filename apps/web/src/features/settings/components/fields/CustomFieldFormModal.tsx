@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { X, SlidersHorizontal } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useCreateCustomField, useUpdateCustomField } from '../../hooks/useCustomFields';
+import { CUSTOM_FIELD_TYPE_LABELS } from './CustomFieldsTab';
+import type { CustomFieldDef, CustomFieldEntity, CustomFieldType } from '../../api/custom-fields.api';
+
+interface Props {
+  entity: CustomFieldEntity;
+  field: CustomFieldDef | null;
+  onClose: () => void;
+}
+
+/** Opções de seleção: uma por linha */
+const parseOptions = (text: string) =>
+  text
+    .split('\n')
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+export function CustomFieldFormModal({ entity, field, onClose }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+  const isEdit = !!field;
+
+  const createMutation = useCreateCustomField();
+  const updateMutation = useUpdateCustomField();
+
+  const [form, setForm] = useState({
+    label: field?.label ?? '',
+    key: field?.key ?? '',
+    type: field?.type ?? ('TEXT' as CustomFieldType),
+    options: field?.options.join('\n') ?? '',
+    sortOrder: field?.sortOrder ?? 0,
+    isActive: field?.isActive ?? true,
+  });
+
+  const options = parseOptions(form.options);
+  const isValid = form.label.trim().length >= 2 && (form.type !== 'SELECT' || options.length > 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    if (isEdit) {
+      updateMutation.mutate(
+        {
+          id: field.id,
+          data: {
+            label: form.label.trim(),
+            sortOrder: form.sortOrder,
+            isActive: form.isActive,
+            ...(field.type === 'SELECT' && { options }),
+          },
+        },
+        { onSuccess: onClose },
+      );
+    } else {
+      createMutation.mutate(
+        {
+          entity,
+          label: form.label.trim(),
+          key: form.key.trim() || undefined,
+          type: form.type,
+          options: form.type === 'SELECT' ? options : [],
+          sortOrder: form.sortOrder,
+          isActive: form.isActive,
+        },
+        { onSuccess: onClose },
+      );
+    }
+  };
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const inputClass = cn(
+    'w-full px-3 py-2 rounded-lg border text-sm outline-none transition-colors disabled:opacity-60',
+    isDark
+      ? 'bg-zinc-800 border-zinc-700 text-white placeholder-zinc-500 focus:border-nexus-orange'
+      : 'bg-white border-zinc-300 text-zinc-900 placeholder-zinc-400 focus:border-nexus-orange',
+  );
+  const labelClass = cn('block text-xs font-medium mb-1', isDark ? 'text-zinc-400' : 'text-zinc-600');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        className={cn(
+          'relative w-full max-w-md rounded-2xl shadow-2xl',
+          isDark ? 'bg-zinc-900 border border-zinc-800' : 'bg-white border border-zinc-200',
+        )}
+      >
+        {/* Header */}
+        <div className={cn('flex items-center justify-between px-6 py-4 border-b', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-nexus-orange/10 flex items-center justify-center">
+              <SlidersHorizontal size={18} className="text-nexus-orange" />
+            </div>
+            <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>
+              {isEdit ? 'Editar campo' : `Novo campo de ${entity === 'LEAD' ? 'lead' : 'cliente'}`}
+            </h2>
+          </div>
+          <button onClick={onClose} className={cn('p-2 rounded-lg', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800/50' : 'text-zinc-500 hover:text-zinc-900 hover:bg-zinc-100')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="px-6 py-5 space-y-4">
+          <div>
+            <label className={labelClass}>Rótulo *</label>
+            <input
+              className={inputClass}
+              value={form.label}
+              onChange={(e) => setForm((f) => ({ ...f, label: e.target.value }))}
+              maxLength={80}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Tipo</label>
+              <select
+                className={inputClass}
+                value={form.type}
+                disabled={isEdit}
+                onChange={(e) => setForm((f) => ({ ...f, type: e.target.value as CustomFieldType }))}
+              >
+                {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map((type) => (
+                  <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Chave</label>
+              <input
+                className={cn(inputClass, 'font-mono')}
+                value={form.key}
+                disabled={isEdit}
+                onChange={(e) => setForm((f) => ({ ...f, key: e.target.value.toLowerCase() }))}
+                placeholder="Gerada do rótulo"
+                maxLength={50}
+              />
+            </div>
+          </div>
+
+          {form.type === 'SELECT' && (
+            <div>
+              <label className={labelClass}>Opções * (uma por linha)</label>
+              <textarea
+                className={cn(inputClass, 'min-h-[96px]')}
+                value={form.options}
+                onChange={(e) => setForm((f) => ({ ...f, options: e.target.value }))}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Ordem de exibição</label>
+            <input
+              type="number"
+              min={0}
+              className={inputClass}
+              value={form.sortOrder}
+              onChange={(e) => setForm((f) => ({ ...f, sortOrder: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+            />
+          </div>
+
+          <label className={cn('flex items-center gap-2 text-sm', isDark ? 'text-zinc-300' : 'text-zinc-700')}>
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={(e) => setForm((f) => ({ ...f, isActive: e.target.checked }))}
+              className="accent-nexus-orange"
+            />
+            Campo ativo
+          </label>
+
+          {isEdit && (
+            <p className="text-xs text-zinc-500">Tipo e chave não mudam depois de criados (valores já gravados dependem deles).</p>
+          )}
+        </form>
+
+        {/* Footer */}
+        <div className={cn('flex justify-end gap-3 px-6 py-4 border-t', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <button
+            type="button"
+            onClick={onClose}
+            className={cn('px-4 py-2 rounded-lg text-sm font-medium transition-colors', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800' : 'text-zinc-600 hover:bg-zinc-100')}
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isPending || !isValid}
+            className="px-4 py-2 rounded-lg bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 disabled:opacity-50 transition-colors"
+          >
+            {isPending ? 'Salvando...' : isEdit ? 'Salvar' : 'Criar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
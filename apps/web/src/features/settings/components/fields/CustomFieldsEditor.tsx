@@ -0,0 +1,70 @@
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useCustomFields } from '../../hooks/useCustomFields';
+import type { CustomFieldDef, CustomFieldEntity, CustomFieldValues } from '../../api/custom-fields.api';
+
+interface Props {
+  entity: CustomFieldEntity;
+  value: CustomFieldValues;
+  /** Valores alterados (string vazia = remover) */
+  onChange: (values: CustomFieldValues) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Formulário dos campos personalizados ativos da entidade
+ * Não renderiza nada enquanto não houver campos definidos em Configurações
+ */
+export function CustomFieldsEditor({ entity, value, onChange, disabled }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+  const { data: fields = [] } = useCustomFields(entity);
+
+  if (fields.length === 0) return null;
+
+  const inputClass = cn(
+    'w-full rounded-xl px-4 py-3 md:py-2.5 text-base md:text-sm border focus:ring-2 focus:ring-nexus-orange/20 outline-none transition-all disabled:opacity-60',
+    isDark ? 'bg-zinc-800 border-zinc-700 text-white' : 'bg-white border-zinc-300',
+  );
+
+  const setValue = (key: string, raw: string) => onChange({ ...value, [key]: raw });
+
+  const renderInput = (field: CustomFieldDef) => {
+    const current = value[field.key] ?? '';
+
+    switch (field.type) {
+      case 'SELECT':
+        return (
+          <select className={inputClass} value={String(current)} disabled={disabled} onChange={(e) => setValue(field.key, e.target.value)}>
+            <option value="">—</option>
+            {field.options.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'NUMBER':
+        return (
+          <input type="number" step="any" className={inputClass} value={current} disabled={disabled} onChange={(e) => setValue(field.key, e.target.value)} />
+        );
+      case 'DATE':
+        return (
+          <input type="date" className={inputClass} value={String(current)} disabled={disabled} onChange={(e) => setValue(field.key, e.target.value)} />
+        );
+      default:
+        return (
+          <input className={inputClass} value={current} maxLength={500} disabled={disabled} onChange={(e) => setValue(field.key, e.target.value)} />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {fields.map((field) => (
+        <div key={field.id} className="space-y-1.5">
+          <label className="text-xs font-bold text-zinc-500 uppercase ml-1">{field.label}</label>
+          {renderInput(field)}
+        </div>
+      ))}
+    </div>
+  );
+}
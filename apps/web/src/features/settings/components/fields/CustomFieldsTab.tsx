@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { Plus, Pencil, Trash2, Power, SlidersHorizontal } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useCustomFields, useUpdateCustomField, useDeleteCustomField } from '../../hooks/useCustomFields';
+import { CustomFieldFormModal } from './CustomFieldFormModal';
+import type { CustomFieldDef, CustomFieldEntity, CustomFieldType } from '../../api/custom-fields.api';
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  TEXT: 'Texto',
+  NUMBER: 'Número',
+  SELECT: 'Seleção',
+  DATE: 'Data',
+};
+
+const ENTITY_LABELS: Record<CustomFieldEntity, string> = {
+  LEAD: 'Leads',
+  CLIENT: 'Clientes',
+};
+
+/**
+ * Campos personalizados de leads e clientes
+ * Campos com valores gravados não podem ser removidos — apenas desativados
+ */
+export function CustomFieldsTab() {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+
+  const [entity, setEntity] = useState<CustomFieldEntity>('LEAD');
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editField, setEditField] = useState<CustomFieldDef | null>(null);
+
+  const { data: fields, isLoading } = useCustomFields(entity, true);
+  const updateMutation = useUpdateCustomField();
+  const deleteMutation = useDeleteCustomField();
+
+  const handleDelete = (field: CustomFieldDef) => {
+    if (confirm(`Remover o campo "${field.label}"?`)) {
+      deleteMutation.mutate(field.id);
+    }
+  };
+
+  const mutedText = cn('px-4 py-3 text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500');
+  const iconButton = cn('p-1.5 rounded-lg transition-colors', isDark ? 'hover:bg-zinc-700 text-zinc-400 hover:text-white' : 'hover:bg-zinc-100 text-zinc-500 hover:text-zinc-900');
+
+  return (
+    <div className="p-6 space-y-5">
+      {/* Top bar */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>Campos personalizados</h2>
+          <p className={cn('text-sm mt-0.5', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
+            Informações extras de leads e clientes — editáveis no cadastro, filtráveis nas listagens e mapeáveis nos formulários
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setEditField(null);
+            setModalOpen(true);
+          }}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 transition-colors"
+        >
+          <Plus size={16} />
+          Novo campo
+        </button>
+      </div>
+
+      {/* Entity switch */}
+      <div className={cn('inline-flex p-1 rounded-xl', isDark ? 'bg-zinc-800' : 'bg-zinc-100')}>
+        {(Object.keys(ENTITY_LABELS) as CustomFieldEntity[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setEntity(key)}
+            className={cn(
+              'px-4 py-1.5 rounded-lg text-sm font-medium transition-colors',
+              entity === key
+                ? 'bg-nexus-orange text-white'
+                : isDark ? 'text-zinc-400 hover:text-white' : 'text-zinc-600 hover:text-zinc-900',
+            )}
+          >
+            {ENTITY_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {/* Table */}
+      <div className={cn('rounded-2xl border overflow-hidden', isDark ? 'border-zinc-800 bg-zinc-900/50' : 'border-zinc-200 bg-white')}>
+        {isLoading ? (
+          <div className="py-12 text-center">
+            <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : !fields?.length ? (
+          <div className="py-12 text-center">
+            <SlidersHorizontal size={36} className={cn('mx-auto mb-2', isDark ? 'text-zinc-600' : 'text-zinc-300')} />
+            <p className={cn('text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
+              Nenhum campo personalizado de {ENTITY_LABELS[entity].toLowerCase()}
+            </p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className={cn('border-b', isDark ? 'border-zinc-800 bg-zinc-900' : 'border-zinc-200 bg-zinc-50')}>
+              <tr>
+                {['Campo', 'Tipo', 'Opções', 'Ordem', 'Status', 'Ações'].map((h) => (
+                  <th key={h} className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-zinc-500">
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className={cn('divide-y', isDark ? 'divide-zinc-800' : 'divide-zinc-100')}>
+              {fields.map((field) => (
+                <tr
+                  key={field.id}
+                  className={cn('transition-colors', !field.isActive && 'opacity-50', isDark ? 'hover:bg-zinc-800/40' : 'hover:bg-zinc-50')}
+                >
+                  <td className={cn('px-4 py-3 text-sm font-medium', isDark ? 'text-zinc-200' : 'text-zinc-800')}>
+                    {field.label}
+                    <p className="text-xs font-normal font-mono text-zinc-500">{field.key}</p>
+                  </td>
+                  <td className={mutedText}>{CUSTOM_FIELD_TYPE_LABELS[field.type]}</td>
+                  <td className={cn(mutedText, 'max-w-xs truncate')} title={field.options.join(', ')}>
+                    {field.options.length > 0 ? field.options.join(', ') : '—'}
+                  </td>
+                  <td className={mutedText}>{field.sortOrder}</td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={cn(
+                        'inline-flex text-xs px-2 py-0.5 rounded-full',
+                        field.isActive
+                          ? 'bg-green-500/10 text-green-500'
+                          : isDark ? 'bg-zinc-800 text-zinc-400' : 'bg-zinc-100 text-zinc-500',
+                      )}
+                    >
+                      {field.isActive ? 'Ativo' : 'Inativo'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => {
+                          setEditField(field);
+                          setModalOpen(true);
+                        }}
+                        className={iconButton}
+                        title="Editar"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => updateMutation.mutate({ id: field.id, data: { isActive: !field.isActive } })}
+                        disabled={updateMutation.isPending}
+                        className={iconButton}
+                        title={field.isActive ? 'Desativar' : 'Ativar'}
+                      >
+                        <Power size={14} />
+                      </button>
+                      <button onClick={() => handleDelete(field)} className="p-1.5 rounded-lg transition-colors text-red-500 hover:bg-red-500/10" title="Remover">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {modalOpen && (
+        <CustomFieldFormModal
+          entity={entity}
+          field={editField}
+          onClose={() => {
+            setModalOpen(false);
+            setEditField(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
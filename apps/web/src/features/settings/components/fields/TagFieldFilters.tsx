@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Filter, X } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useCustomFields, useTagSuggestions } from '../../hooks/useCustomFields';
+import type { CustomFieldEntity } from '../../api/custom-fields.api';
+
+/** Filtros por etiqueta e campo personalizado (enviados como ?tags=a,b&cf[chave]=valor) */
+export interface TagFieldFilterValue {
+  tags: string[];
+  customFields: Record<string, string>;
+}
+
+export const EMPTY_TAG_FIELD_FILTERS: TagFieldFilterValue = { tags: [], customFields: {} };
+
+/** Parâmetros da listagem a partir dos filtros ativos */
+export const toTagFieldParams = (filters: TagFieldFilterValue) => {
+  const customFields = Object.fromEntries(Object.entries(filters.customFields).filter(([, v]) => v.trim() !== ''));
+  return {
+    tags: filters.tags.length > 0 ? filters.tags.join(',') : undefined,
+    cf: Object.keys(customFields).length > 0 ? customFields : undefined,
+  };
+};
+
+interface Props {
+  entity: CustomFieldEntity;
+  value: TagFieldFilterValue;
+  onChange: (value: TagFieldFilterValue) => void;
+  className?: string;
+}
+
+/**
+ * Botão "Filtros" com etiquetas em uso e campos personalizados ativos
+ */
+export function TagFieldFilters({ entity, value, onChange, className }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+  const [open, setOpen] = useState(false);
+  const { data: tags = [] } = useTagSuggestions(entity);
+  const { data: fields = [] } = useCustomFields(entity);
+
+  const activeCount = value.tags.length + Object.values(value.customFields).filter((v) => v.trim() !== '').length;
+
+  const toggleTag = (tag: string) =>
+    onChange({
+      ...value,
+      tags: value.tags.includes(tag) ? value.tags.filter((t) => t !== tag) : [...value.tags, tag],
+    });
+
+  const setField = (key: string, fieldValue: string) =>
+    onChange({ ...value, customFields: { ...value.customFields, [key]: fieldValue } });
+
+  const inputClass = cn(
+    'w-full px-3 py-2 rounded-lg border text-sm outline-none focus:border-nexus-orange',
+    isDark ? 'bg-zinc-800 border-zinc-700 text-white' : 'bg-white border-zinc-300 text-zinc-900',
+  );
+
+  if (tags.length === 0 && fields.length === 0 && activeCount === 0) return null;
+
+  return (
+    <div className={cn('relative', className)}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className={cn(
+          'flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-medium border transition-all',
+          activeCount > 0
+            ? 'border-nexus-orange text-nexus-orange bg-nexus-orange/10'
+            : isDark ? 'bg-zinc-800 border-zinc-700 text-zinc-300' : 'bg-white border-zinc-200 text-zinc-600',
+        )}
+      >
+        <Filter size={16} />
+        Filtros
+        {activeCount > 0 && <span className="px-1.5 rounded-full text-xs bg-nexus-orange text-white">{activeCount}</span>}
+      </button>
+
+      {open && (
+        <div
+          className={cn(
+            'absolute left-0 md:left-auto md:right-0 mt-2 z-30 w-80 max-h-[70vh] overflow-y-auto rounded-2xl border p-4 shadow-xl space-y-4',
+            isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200',
+          )}
+        >
+          <div className="flex items-center justify-between">
+            <span className={cn('text-sm font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>Filtros</span>
+            <div className="flex items-center gap-2">
+              {activeCount > 0 && (
+                <button type="button" onClick={() => onChange(EMPTY_TAG_FIELD_FILTERS)} className="text-xs text-nexus-orange hover:underline">
+                  Limpar
+                </button>
+              )}
+              <button type="button" onClick={() => setOpen(false)} className="text-zinc-500 hover:text-nexus-orange">
+                <X size={16} />
+              </button>
+            </div>
+          </div>
+
+          {tags.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-zinc-500 mb-2">Etiquetas (todas as marcadas)</p>
+              <div className="flex flex-wrap gap-1.5">
+                {tags.map(({ tag, count }) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => toggleTag(tag)}
+                    className={cn(
+                      'px-2 py-1 rounded-md text-xs font-bold transition-colors',
+                      value.tags.includes(tag)
+                        ? 'bg-nexus-orange text-white'
+                        : isDark ? 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700' : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200',
+                    )}
+                  >
+                    {tag} <span className="opacity-60">{count}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {fields.map((field) => (
+            <div key={field.id}>
+              <label className="block text-xs font-medium text-zinc-500 mb-1">{field.label}</label>
+              {field.type === 'SELECT' ? (
+                <select className={inputClass} value={value.customFields[field.key] ?? ''} onChange={(e) => setField(field.key, e.target.value)}>
+                  <option value="">Qualquer</option>
+                  {field.options.map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type={field.type === 'DATE' ? 'date' : field.type === 'NUMBER' ? 'number' : 'text'}
+                  className={inputClass}
+                  value={value.customFields[field.key] ?? ''}
+                  onChange={(e) => setField(field.key, e.target.value)}
+                  placeholder={field.type === 'TEXT' ? 'Contém…' : undefined}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useTagSuggestions } from '../../hooks/useCustomFields';
+import type { CustomFieldEntity } from '../../api/custom-fields.api';
+
+interface Props {
+  entity: CustomFieldEntity;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+const MAX_TAGS = 20;
+
+/**
+ * Editor de etiquetas livres (Enter ou vírgula adiciona; sugere as já usadas)
+ */
+export function TagsInput({ entity, value, onChange, disabled }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+  const [draft, setDraft] = useState('');
+  const { data: suggestions = [] } = useTagSuggestions(entity);
+  const listId = `tag-suggestions-${entity.toLowerCase()}`;
+
+  const addTag = (raw: string) => {
+    const tag = raw.trim().replace(/\s+/g, ' ').slice(0, 40);
+    setDraft('');
+    if (!tag || value.length >= MAX_TAGS || value.some((t) => t.toLowerCase() === tag.toLowerCase())) return;
+    onChange([...value, tag]);
+  };
+
+  return (
+    <div
+      className={cn(
+        'flex flex-wrap items-center gap-1.5 rounded-xl px-3 py-2 border',
+        disabled && 'opacity-60',
+        isDark ? 'bg-zinc-800 border-zinc-700' : 'bg-white border-zinc-300',
+      )}
+    >
+      {value.map((tag) => (
+        <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-bold bg-nexus-orange/10 text-nexus-orange">
+          {tag}
+          {!disabled && (
+            <button type="button" onClick={() => onChange(value.filter((t) => t !== tag))} className="hover:text-red-500" title="Remover etiqueta">
+              <X size={12} />
+            </button>
+          )}
+        </span>
+      ))}
+      {!disabled && value.length < MAX_TAGS && (
+        <input
+          list={listId}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addTag(draft);
+            } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+              onChange(value.slice(0, -1));
+            }
+          }}
+          onBlur={() => draft.trim() && addTag(draft)}
+          placeholder={value.length === 0 ? 'Adicionar etiqueta…' : ''}
+          maxLength={40}
+          className={cn('flex-1 min-w-[120px] bg-transparent text-sm outline-none', isDark ? 'text-white placeholder:text-zinc-500' : 'text-zinc-900 placeholder:text-zinc-400')}
+        />
+      )}
+      <datalist id={listId}>
+        {suggestions
+          .filter(({ tag }) => !value.includes(tag))
+          .map(({ tag }) => <option key={tag} value={tag} />)}
+      </datalist>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { X, ListChecks } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useCreateLeadCatalogItem, useUpdateLeadCatalogItem } from '../../hooks/useLeadCatalogs';
+import type { LeadCatalog, LeadCatalogItem } from '../../api/lead-catalogs.api';
+
+interface Props {
+  catalog: LeadCatalog;
+  title: string;
+  item: LeadCatalogItem | null;
+  onClose: () => void;
+}
+
+export function CatalogFormModal({ catalog, title, item, onClose }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+  const isEdit = !!item;
+
+  const createMutation = useCreateLeadCatalogItem(catalog);
+  const updateMutation = useUpdateLeadCatalogItem(catalog);
+
+  const [form, setForm] = useState({
+    name: item?.name ?? '',
+    description: item?.description ?? '',
+    isActive: item?.isActive ?? true,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      isActive: form.isActive,
+    };
+
+    if (isEdit) {
+      updateMutation.mutate({ id: item.id, data }, { onSuccess: onClose });
+    } else {
+      createMutation.mutate(data, { onSuccess: onClose });
+    }
+  };
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const inputClass = cn(
+    'w-full px-3 py-2 rounded-lg border text-sm outline-none transition-colors',
+    isDark
+      ? 'bg-zinc-800 border-zinc-700 text-white placeholder-zinc-500 focus:border-nexus-orange'
+      : 'bg-white border-zinc-300 text-zinc-900 placeholder-zinc-400 focus:border-nexus-orange',
+  );
+  const labelClass = cn('block text-xs font-medium mb-1', isDark ? 'text-zinc-400' : 'text-zinc-600');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        className={cn(
+          'relative w-full max-w-md rounded-2xl shadow-2xl',
+          isDark ? 'bg-zinc-900 border border-zinc-800' : 'bg-white border border-zinc-200',
+        )}
+      >
+        {/* Header */}
+        <div className={cn('flex items-center justify-between px-6 py-4 border-b', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-nexus-orange/10 flex items-center justify-center">
+              <ListChecks size={18} className="text-nexus-orange" />
+            </div>
+            <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>
+              {isEdit ? 'Editar' : 'Cadastrar'} {title}
+            </h2>
+          </div>
+          <button onClick={onClose} className={cn('p-2 rounded-lg', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800/50' : 'text-zinc-500 hover:text-zinc-900 hover:bg-zinc-100')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="px-6 py-5 space-y-4">
+          <div>
+            <label className={labelClass}>Nome *</label>
+            <input
+              className={inputClass}
+              value={form.name}
+              onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+              maxLength={80}
+              required
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Descrição</label>
+            <input
+              className={inputClass}
+              value={form.description}
+              onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+              maxLength={200}
+              placeholder="Opcional"
+            />
+          </div>
+
+          <label className={cn('flex items-center gap-2 text-sm', isDark ? 'text-zinc-300' : 'text-zinc-700')}>
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={(e) => setForm((f) => ({ ...f, isActive: e.target.checked }))}
+              className="accent-nexus-orange"
+            />
+            Ativo (disponível para seleção nos leads)
+          </label>
+        </form>
+
+        {/* Footer */}
+        <div className={cn('flex justify-end gap-3 px-6 py-4 border-t', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <button
+            type="button"
+            onClick={onClose}
+            className={cn('px-4 py-2 rounded-lg text-sm font-medium transition-colors', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800' : 'text-zinc-600 hover:bg-zinc-100')}
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isPending || form.name.trim().length < 2}
+            className="px-4 py-2 rounded-lg bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 disabled:opacity-50 transition-colors"
+          >
+            {isPending ? 'Salvando...' : isEdit ? 'Salvar' : 'Criar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { Plus, Pencil, Trash2, Power, ListChecks } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useLeadCatalog, useUpdateLeadCatalogItem, useDeleteLeadCatalogItem } from '../../hooks/useLeadCatalogs';
+import { CatalogFormModal } from './CatalogFormModal';
+import type { LeadCatalog, LeadCatalogItem } from '../../api/lead-catalogs.api';
+
+const CATALOGS: { id: LeadCatalog; label: string; singular: string; description: string }[] = [
+  {
+    id: 'loss-reasons',
+    label: 'Motivos de Perda',
+    singular: 'Motivo de Perda',
+    description: 'Opções exibidas ao marcar um lead como perdido (base da análise de perdas)',
+  },
+  {
+    id: 'lead-origins',
+    label: 'Origens',
+    singular: 'Origem',
+    description: 'De onde vêm os leads — usadas no cadastro, formulários e relatórios',
+  },
+];
+
+/**
+ * Catálogos do funil (motivos de perda e origens)
+ * Itens em uso não podem ser removidos — apenas desativados
+ */
+export function LeadCatalogsTab() {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+
+  const [activeCatalog, setActiveCatalog] = useState<LeadCatalog>('loss-reasons');
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editItem, setEditItem] = useState<LeadCatalogItem | null>(null);
+
+  const catalog = CATALOGS.find((c) => c.id === activeCatalog)!;
+  const { data: items, isLoading } = useLeadCatalog(activeCatalog);
+  const updateMutation = useUpdateLeadCatalogItem(activeCatalog);
+  const deleteMutation = useDeleteLeadCatalogItem(activeCatalog);
+
+  const usageCount = (item: LeadCatalogItem) => item._count.leads + (item._count.forms ?? 0);
+
+  const handleEdit = (item: LeadCatalogItem) => {
+    setEditItem(item);
+    setModalOpen(true);
+  };
+
+  const handleNew = () => {
+    setEditItem(null);
+    setModalOpen(true);
+  };
+
+  const handleToggle = (item: LeadCatalogItem) => {
+    updateMutation.mutate({ id: item.id, data: { isActive: !item.isActive } });
+  };
+
+  const handleDelete = (item: LeadCatalogItem) => {
+    if (confirm(`Remover "${item.name}"? Esta ação não pode ser desfeita.`)) {
+      deleteMutation.mutate(item.id);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-5">
+      {/* Top bar */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>
+            {catalog.label}
+          </h2>
+          <p className={cn('text-sm mt-0.5', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
+            {catalog.description}
+          </p>
+        </div>
+        <button
+          onClick={handleNew}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 transition-colors"
+        >
+          <Plus size={16} />
+          Novo
+        </button>
+      </div>
+
+      {/* Catalog tabs */}
+      <div className={cn('flex gap-1 border-b', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+        {CATALOGS.map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveCatalog(tab.id)}
+            className={cn(
+              'px-4 py-2.5 text-sm font-medium border-b-2 -mb-px transition-colors',
+              activeCatalog === tab.id
+                ? 'border-nexus-orange text-nexus-orange'
+                : isDark
+                ? 'border-transparent text-zinc-400 hover:text-zinc-100'
+                : 'border-transparent text-zinc-500 hover:text-nexus-orange',
+            )}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Table */}
+      <div className={cn('rounded-2xl border overflow-hidden', isDark ? 'border-zinc-800 bg-zinc-900/50' : 'border-zinc-200 bg-white')}>
+        {isLoading ? (
+          <div className="py-12 text-center">
+            <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : !items?.length ? (
+          <div className="py-12 text-center">
+            <ListChecks size={36} className={cn('mx-auto mb-2', isDark ? 'text-zinc-600' : 'text-zinc-300')} />
+            <p className={cn('text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500')}>Nenhum item cadastrado</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className={cn('border-b', isDark ? 'border-zinc-800 bg-zinc-900' : 'border-zinc-200 bg-zinc-50')}>
+              <tr>
+                {['Nome', 'Descrição', 'Em uso', 'Status', 'Ações'].map((h) => (
+                  <th key={h} className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-zinc-500">
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className={cn('divide-y', isDark ? 'divide-zinc-800' : 'divide-zinc-100')}>
+              {items.map((item) => (
+                <tr
+                  key={item.id}
+                  className={cn(
+                    'transition-colors',
+                    !item.isActive && 'opacity-50',
+                    isDark ? 'hover:bg-zinc-800/40' : 'hover:bg-zinc-50',
+                  )}
+                >
+                  <td className={cn('px-4 py-3 text-sm font-medium', isDark ? 'text-zinc-200' : 'text-zinc-800')}>
+                    {item.name}
+                  </td>
+                  <td className={cn('px-4 py-3 text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
+                    {item.description || '—'}
+                  </td>
+                  <td className={cn('px-4 py-3 text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
+                    {item._count.leads} leads
+                    {item._count.forms ? ` · ${item._count.forms} formulários` : ''}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={cn(
+                        'inline-flex text-xs px-2 py-0.5 rounded-full',
+                        item.isActive
+                          ? 'bg-green-500/10 text-green-500'
+                          : isDark ? 'bg-zinc-800 text-zinc-400' : 'bg-zinc-100 text-zinc-500',
+                      )}
+                    >
+                      {item.isActive ? 'Ativo' : 'Inativo'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => handleEdit(item)}
+                        className={cn('p-1.5 rounded-lg transition-colors', isDark ? 'hover:bg-zinc-700 text-zinc-400 hover:text-white' : 'hover:bg-zinc-100 text-zinc-500 hover:text-zinc-900')}
+                        title="Editar"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleToggle(item)}
+                        disabled={updateMutation.isPending}
+                        className={cn('p-1.5 rounded-lg transition-colors', isDark ? 'hover:bg-zinc-700 text-zinc-400 hover:text-white' : 'hover:bg-zinc-100 text-zinc-500 hover:text-zinc-900')}
+                        title={item.isActive ? 'Desativar' : 'Ativar'}
+                      >
+                        <Power size={14} />
+                      </button>
+                      {usageCount(item) === 0 && (
+                        <button
+                          onClick={() => handleDelete(item)}
+                          className="p-1.5 rounded-lg transition-colors text-red-500 hover:bg-red-500/10"
+                          title="Remover"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {modalOpen && (
+        <CatalogFormModal
+          catalog={activeCatalog}
+          title={catalog.singular}
+          item={editItem}
+          onClose={() => {
+            setModalOpen(false);
+            setEditItem(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Plus, Pencil, Trash2, Power, Timer } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useSlaPolicies, useUpdateSlaPolicy, useDeleteSlaPolicy } from '../../hooks/useLeadSla';
+import { SlaPolicyFormModal } from './SlaPolicyFormModal';
+import type { SlaPolicy } from '../../api/lead-sla.api';
+
+const formatDuration = (minutes: number) => {
+  if (minutes % 1440 === 0) return `${minutes / 1440} dia(s)`;
+  if (minutes % 60 === 0) return `${minutes / 60} h`;
+  return `${minutes} min`;
+};
+
+/**
+ * Políticas de SLA de resposta a leads
+ * Prazos são apurados a cada 5 minutos contra as interações registradas nos leads
+ */
+export function SlaPoliciesTab() {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editPolicy, setEditPolicy] = useState<SlaPolicy | null>(null);
+
+  const { data: policies, isLoading } = useSlaPolicies();
+  const updateMutation = useUpdateSlaPolicy();
+  const deleteMutation = useDeleteSlaPolicy();
+
+  const handleDelete = (policy: SlaPolicy) => {
+    if (confirm(`Remover "${policy.name}"? O histórico de prazos desta política também será removido.`)) {
+      deleteMutation.mutate(policy.id);
+    }
+  };
+
+  const mutedText = cn('px-4 py-3 text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500');
+  const iconButton = cn('p-1.5 rounded-lg transition-colors', isDark ? 'hover:bg-zinc-700 text-zinc-400 hover:text-white' : 'hover:bg-zinc-100 text-zinc-500 hover:text-zinc-900');
+
+  return (
+    <div className="p-6 space-y-5">
+      {/* Top bar */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>SLA de resposta</h2>
+          <p className={cn('text-sm mt-0.5', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
+            Prazos de primeiro contato e follow-up — estouros notificam o vendedor e podem escalar ao gestor
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setEditPolicy(null);
+            setModalOpen(true);
+          }}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 transition-colors"
+        >
+          <Plus size={16} />
+          Nova política
+        </button>
+      </div>
+
+      {/* Table */}
+      <div className={cn('rounded-2xl border overflow-hidden', isDark ? 'border-zinc-800 bg-zinc-900/50' : 'border-zinc-200 bg-white')}>
+        {isLoading ? (
+          <div className="py-12 text-center">
+            <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : !policies?.length ? (
+          <div className="py-12 text-center">
+            <Timer size={36} className={cn('mx-auto mb-2', isDark ? 'text-zinc-600' : 'text-zinc-300')} />
+            <p className={cn('text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500')}>Nenhuma política de SLA cadastrada</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className={cn('border-b', isDark ? 'border-zinc-800 bg-zinc-900' : 'border-zinc-200 bg-zinc-50')}>
+              <tr>
+                {['Política', 'Prazo', 'Escalonamento', 'Em aberto', 'Status', 'Ações'].map((h) => (
+                  <th key={h} className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-zinc-500">
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className={cn('divide-y', isDark ? 'divide-zinc-800' : 'divide-zinc-100')}>
+              {policies.map((policy) => (
+                <tr
+                  key={policy.id}
+                  className={cn('transition-colors', !policy.isActive && 'opacity-50', isDark ? 'hover:bg-zinc-800/40' : 'hover:bg-zinc-50')}
+                >
+                  <td className={cn('px-4 py-3 text-sm font-medium', isDark ? 'text-zinc-200' : 'text-zinc-800')}>
+                    {policy.name}
+                    <p className="text-xs font-normal text-zinc-500">
+                      {policy.type === 'FIRST_CONTACT' ? 'Primeiro contato' : `Follow-up · ${policy.stage?.name ?? 'qualquer estágio'}`}
+                      {policy.productType && ` · ${policy.productType === 'ONE_NEXUS' ? 'One Nexus' : 'Nexloc'}`}
+                    </p>
+                  </td>
+                  <td className={mutedText}>{formatDuration(policy.targetMinutes)}</td>
+                  <td className={mutedText}>
+                    {policy.escalateAfterMinutes != null ? `Gestor após ${formatDuration(policy.escalateAfterMinutes)}` : '—'}
+                  </td>
+                  <td className={mutedText}>
+                    {policy.pending} correndo
+                    {policy.breached > 0 && <span className="text-red-500 font-medium"> · {policy.breached} estourado(s)</span>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={cn(
+                        'inline-flex text-xs px-2 py-0.5 rounded-full',
+                        policy.isActive
+                          ? 'bg-green-500/10 text-green-500'
+                          : isDark ? 'bg-zinc-800 text-zinc-400' : 'bg-zinc-100 text-zinc-500',
+                      )}
+                    >
+                      {policy.isActive ? 'Ativa' : 'Inativa'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => {
+                          setEditPolicy(policy);
+                          setModalOpen(true);
+                        }}
+                        className={iconButton}
+                        title="Editar"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => updateMutation.mutate({ id: policy.id, data: { isActive: !policy.isActive } })}
+                        disabled={updateMutation.isPending}
+                        className={iconButton}
+                        title={policy.isActive ? 'Desativar' : 'Ativar'}
+                      >
+                        <Power size={14} />
+                      </button>
+                      <button onClick={() => handleDelete(policy)} className="p-1.5 rounded-lg transition-colors text-red-500 hover:bg-red-500/10" title="Remover">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {modalOpen && (
+        <SlaPolicyFormModal
+          policy={editPolicy}
+          onClose={() => {
+            setModalOpen(false);
+            setEditPolicy(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { X, Timer } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useFunnelStages } from '@/features/leads/hooks/useLeads';
+import { useCreateSlaPolicy, useUpdateSlaPolicy } from '../../hooks/useLeadSla';
+import type { SlaPolicy, SlaPolicyDto, LeadSlaType } from '../../api/lead-sla.api';
+
+interface Props {
+  policy: SlaPolicy | null;
+  onClose: () => void;
+}
+
+type Unit = 'min' | 'h' | 'd';
+
+const UNIT_MINUTES: Record<Unit, number> = { min: 1, h: 60, d: 1440 };
+
+/** Maior unidade que representa o valor sem fração (2880 → 2 dias) */
+const splitMinutes = (minutes: number | null | undefined): { value: string; unit: Unit } => {
+  if (!minutes) return { value: '', unit: 'h' };
+  if (minutes % 1440 === 0) return { value: String(minutes / 1440), unit: 'd' };
+  if (minutes % 60 === 0) return { value: String(minutes / 60), unit: 'h' };
+  return { value: String(minutes), unit: 'min' };
+};
+
+const toMinutes = (value: string, unit: Unit) => (value.trim() === '' ? null : Math.round(parseFloat(value) * UNIT_MINUTES[unit]));
+
+export function SlaPolicyFormModal({ policy, onClose }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+  const isEdit = !!policy;
+
+  const createMutation = useCreateSlaPolicy();
+  const updateMutation = useUpdateSlaPolicy();
+  const { data: stages = [] } = useFunnelStages();
+
+  const [form, setForm] = useState({
+    name: policy?.name ?? '',
+    type: policy?.type ?? ('FIRST_CONTACT' as LeadSlaType),
+    stageId: policy?.stageId ?? '',
+    productType: policy?.productType ?? '',
+    target: splitMinutes(policy?.targetMinutes),
+    escalate: splitMinutes(policy?.escalateAfterMinutes),
+    isActive: policy?.isActive ?? true,
+  });
+
+  const targetMinutes = toMinutes(form.target.value, form.target.unit);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!targetMinutes) return;
+
+    const data: SlaPolicyDto = {
+      name: form.name.trim(),
+      type: form.type,
+      stageId: form.type === 'FOLLOW_UP' ? form.stageId || null : null,
+      productType: (form.productType || null) as SlaPolicyDto['productType'],
+      targetMinutes,
+      escalateAfterMinutes: toMinutes(form.escalate.value, form.escalate.unit),
+      isActive: form.isActive,
+    };
+
+    if (isEdit) {
+      updateMutation.mutate({ id: policy.id, data }, { onSuccess: onClose });
+    } else {
+      createMutation.mutate(data, { onSuccess: onClose });
+    }
+  };
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const inputClass = cn(
+    'w-full px-3 py-2 rounded-lg border text-sm outline-none transition-colors',
+    isDark
+      ? 'bg-zinc-800 border-zinc-700 text-white placeholder-zinc-500 focus:border-nexus-orange'
+      : 'bg-white border-zinc-300 text-zinc-900 placeholder-zinc-400 focus:border-nexus-orange',
+  );
+  const labelClass = cn('block text-xs font-medium mb-1', isDark ? 'text-zinc-400' : 'text-zinc-600');
+
+  const durationInput = (key: 'target' | 'escalate', placeholder?: string) => (
+    <div className="flex gap-2">
+      <input
+        type="number"
+        min={0}
+        step="any"
+        className={inputClass}
+        value={form[key].value}
+        onChange={(e) => setForm((f) => ({ ...f, [key]: { ...f[key], value: e.target.value } }))}
+        placeholder={placeholder}
+      />
+      <select
+        className={cn(inputClass, 'w-28')}
+        value={form[key].unit}
+        onChange={(e) => setForm((f) => ({ ...f, [key]: { ...f[key], unit: e.target.value as Unit } }))}
+      >
+        <option value="min">minutos</option>
+        <option value="h">horas</option>
+        <option value="d">dias</option>
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        className={cn(
+          'relative w-full max-w-md rounded-2xl shadow-2xl',
+          isDark ? 'bg-zinc-900 border border-zinc-800' : 'bg-white border border-zinc-200',
+        )}
+      >
+        {/* Header */}
+        <div className={cn('flex items-center justify-between px-6 py-4 border-b', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-nexus-orange/10 flex items-center justify-center">
+              <Timer size={18} className="text-nexus-orange" />
+            </div>
+            <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>
+              {isEdit ? 'Editar' : 'Nova'} política de SLA
+            </h2>
+          </div>
+          <button onClick={onClose} className={cn('p-2 rounded-lg', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800/50' : 'text-zinc-500 hover:text-zinc-900 hover:bg-zinc-100')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="px-6 py-5 space-y-4">
+          <div>
+            <label className={labelClass}>Nome *</label>
+            <input
+              className={inputClass}
+              value={form.name}
+              onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+              maxLength={120}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Tipo</label>
+              <select
+                className={inputClass}
+                value={form.type}
+                onChange={(e) => setForm((f) => ({ ...f, type: e.target.value as LeadSlaType }))}
+              >
+                <option value="FIRST_CONTACT">Primeiro contato</option>
+                <option value="FOLLOW_UP">Follow-up</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Produto</label>
+              <select
+                className={inputClass}
+                value={form.productType}
+                onChange={(e) => setForm((f) => ({ ...f, productType: e.target.value }))}
+              >
+                <option value="">Qualquer</option>
+                <option value="ONE_NEXUS">One Nexus</option>
+                <option value="LOCADORAS">Nexloc</option>
+              </select>
+            </div>
+          </div>
+
+          {form.type === 'FOLLOW_UP' && (
+            <div>
+              <label className={labelClass}>Estágio</label>
+              <select
+                className={inputClass}
+                value={form.stageId}
+                onChange={(e) => setForm((f) => ({ ...f, stageId: e.target.value }))}
+              >
+                <option value="">Qualquer estágio</option>
+                {stages.map((stage) => (
+                  <option key={stage.id} value={stage.id}>{stage.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>
+              {form.type === 'FIRST_CONTACT' ? 'Contatar em até (após a criação) *' : 'Novo contato a cada *'}
+            </label>
+            {durationInput('target')}
+          </div>
+
+          <div>
+            <label className={labelClass}>Escalar ao gestor após o estouro</label>
+            {durationInput('escalate', 'Não escalar')}
+          </div>
+
+          <label className={cn('flex items-center gap-2 text-sm', isDark ? 'text-zinc-300' : 'text-zinc-700')}>
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={(e) => setForm((f) => ({ ...f, isActive: e.target.checked }))}
+              className="accent-nexus-orange"
+            />
+            Política ativa
+          </label>
+        </form>
+
+        {/* Footer */}
+        <div className={cn('flex justify-end gap-3 px-6 py-4 border-t', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <button
+            type="button"
+            onClick={onClose}
+            className={cn('px-4 py-2 rounded-lg text-sm font-medium transition-colors', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800' : 'text-zinc-600 hover:bg-zinc-100')}
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isPending || form.name.trim().length < 2 || !targetMinutes || targetMinutes < 5}
+            className="px-4 py-2 rounded-lg bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 disabled:opacity-50 transition-colors"
+          >
+            {isPending ? 'Salvando...' : isEdit ? 'Salvar' : 'Criar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
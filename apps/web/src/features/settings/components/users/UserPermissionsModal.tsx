@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { Module } from '@/types';
+import { useUserPermissions, useUpdateUserPermissions } from '../../hooks/useUsers';
+import type { User, UpdatePermissionItem } from '../../api/settings.api';
+
+/**
+ * ══════════════════════════════════════════════════════════════════════════
+ * USER PERMISSIONS MODAL - Matriz de permissões granulares
+ * ══════════════════════════════════════════════════════════════════════════
+ *
+ * Módulos marcados como "Padrão" não têm UserPermission e seguem apenas
+ * as regras da role. Desmarcar "Visualizar" bloqueia o módulo inteiro.
+ */
+
+const MODULE_LABEL: Record<Module, string> = {
+  [Module.DASHBOARD]: 'Dashboard',
+  [Module.CLIENTS_ONE_NEXUS]: 'Clientes One Nexus',
+  [Module.CLIENTS_LOCADORAS]: 'Clientes Nexloc',
+  [Module.LEADS]: 'Leads',
+  [Module.FINANCE]: 'Financeiro',
+  [Module.CHAT]: 'Chat',
+  [Module.CALENDAR]: 'Calendário',
+  [Module.SALES_AI]: 'Vendas IA',
+  [Module.SETTINGS]: 'Configurações',
+  [Module.AUDIT_LOG]: 'Auditoria',
+};
+
+const FLAGS = [
+  { key: 'canView', label: 'Visualizar' },
+  { key: 'canCreate', label: 'Criar' },
+  { key: 'canEdit', label: 'Editar' },
+  { key: 'canDelete', label: 'Excluir' },
+] as const;
+
+type FlagKey = (typeof FLAGS)[number]['key'];
+
+interface UserPermissionsModalProps {
+  user: User;
+  onClose: () => void;
+}
+
+export function UserPermissionsModal({ user, onClose }: UserPermissionsModalProps) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+
+  const { data: permissions, isLoading } = useUserPermissions(user.id);
+  const updateMutation = useUpdateUserPermissions();
+
+  const [matrix, setMatrix] = useState<UpdatePermissionItem[]>([]);
+
+  // Preenche a matriz com a configuração atual (inherit = sem UserPermission)
+  useEffect(() => {
+    if (permissions) {
+      setMatrix(
+        permissions.map(({ configured, ...flags }) => ({ ...flags, inherit: !configured }))
+      );
+    }
+  }, [permissions]);
+
+  const toggleFlag = (module: Module, key: FlagKey) => {
+    setMatrix((prev) =>
+      prev.map((item) => {
+        if (item.module !== module) return item;
+        const next = { ...item, inherit: false, [key]: !item[key] };
+        // Sem visualizar, nenhuma outra ação faz sentido
+        if (key === 'canView' && !next.canView) {
+          return { ...next, canCreate: false, canEdit: false, canDelete: false };
+        }
+        if (key !== 'canView' && next[key]) {
+          next.canView = true;
+        }
+        return next;
+      })
+    );
+  };
+
+  const resetModule = (module: Module) => {
+    setMatrix((prev) =>
+      prev.map((item) =>
+        item.module === module
+          ? { module, canView: true, canCreate: true, canEdit: true, canDelete: true, inherit: true }
+          : item
+      )
+    );
+  };
+
+  const handleSave = async () => {
+    await updateMutation.mutateAsync({ id: user.id, permissions: matrix });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div
+        className={cn(
+          'w-full max-w-2xl rounded-2xl shadow-2xl',
+          isDark ? 'bg-zinc-900 border border-zinc-800' : 'bg-white border border-zinc-200'
+        )}
+      >
+        {/* Header */}
+        <div className={cn('flex items-center justify-between p-6 border-b', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <div>
+            <h2 className={cn('text-xl font-bold', isDark ? 'text-white' : 'text-zinc-900')}>
+              Permissões
+            </h2>
+            <p className={cn('text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500')}>{user.name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className={cn('p-2 rounded-lg transition-colors', isDark ? 'hover:bg-zinc-800 text-zinc-400' : 'hover:bg-zinc-100 text-zinc-500')}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Matriz */}
+        <div className="p-6 max-h-[60vh] overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className={cn('text-left text-xs uppercase', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
+                  <th className="pb-3 font-semibold">Módulo</th>
+                  {FLAGS.map((flag) => (
+                    <th key={flag.key} className="pb-3 font-semibold text-center">{flag.label}</th>
+                  ))}
+                  <th className="pb-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.map((item) => (
+                  <tr key={item.module} className={cn('border-t', isDark ? 'border-zinc-800' : 'border-zinc-100')}>
+                    <td className={cn('py-3 font-medium', isDark ? 'text-zinc-200' : 'text-zinc-800')}>
+                      {MODULE_LABEL[item.module]}
+                    </td>
+                    {FLAGS.map((flag) => (
+                      <td key={flag.key} className="py-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={item[flag.key]}
+                          onChange={() => toggleFlag(item.module, flag.key)}
+                          className="w-4 h-4 accent-nexus-orange"
+                        />
+                      </td>
+                    ))}
+                    <td className="py-3 text-right">
+                      {item.inherit ? (
+                        <span className={cn('text-xs', isDark ? 'text-zinc-500' : 'text-zinc-400')}>Padrão</span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => resetModule(item.module)}
+                          className="text-xs text-nexus-orange hover:underline"
+                        >
+                          Restaurar
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className={cn('flex gap-3 p-6 border-t', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <button
+            type="button"
+            onClick={onClose}
+            className={cn(
+              'flex-1 px-4 py-2.5 rounded-lg font-medium transition-colors',
+              isDark ? 'bg-zinc-800 hover:bg-zinc-700 text-white' : 'bg-zinc-100 hover:bg-zinc-200 text-zinc-900'
+            )}
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={updateMutation.isPending || isLoading}
+            className="flex-1 px-4 py-2.5 bg-nexus-orange hover:bg-nexus-orangeDark text-white rounded-lg font-medium transition-colors disabled:opacity-50 shadow-md shadow-nexus-orange/20"
+          >
+            {updateMutation.isPending ? 'Salvando...' : 'Salvar Permissões'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
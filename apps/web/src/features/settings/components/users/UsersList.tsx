@@ -1,9 +1,10 @@
 import { useState } from 'react';
-import { Plus, Search, Mail, Pencil, Trash2, Send } from 'lucide-react';
+import { Plus, Search, Mail, Pencil, Trash2, Send, ShieldCheck } from 'lucide-react';
 import { useUIStore } from '@/stores/useUIStore';
 import { cn } from '@/utils/cn';
 import { useUsers, useDeleteUser, useResendEmail } from '../../hooks/useUsers';
 import { UserFormModal } from './UserFormModal';
+import { UserPermissionsModal } from './UserPermissionsModal';
 import type { User } from '../../api/settings.api';
 
 const ROLE_BADGE: Record<User['role'], string> = {
@@ -29,6 +30,7 @@ export function UsersList() {
   const [search, setSearch] = useState('');
   const [modalOpen, setModalOpen] = useState(false);
   const [editUser, setEditUser] = useState<User | null>(null);
+  const [permissionsUser, setPermissionsUser] = useState<User | null>(null);
 
   const { data: users, isLoading } = useUsers();
   const deleteMutation = useDeleteUser();
@@ -180,6 +182,22 @@ export function UsersList() {
                         <Pencil size={12} /> Editar
                       </button>
 
+                      {/* Permissões (SUPERADMIN sempre tem acesso total) */}
+                      {user.role !== 'SUPERADMIN' && (
+                        <button
+                          onClick={() => setPermissionsUser(user)}
+                          title="Permissões por módulo"
+                          className={cn(
+                            'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors',
+                            isDark
+                              ? 'bg-purple-500/10 hover:bg-purple-500/20 text-purple-400'
+                              : 'bg-purple-500/10 hover:bg-purple-500/20 text-purple-600'
+                          )}
+                        >
+                          <ShieldCheck size={12} /> Permissões
+                        </button>
+                      )}
+
                       {/* Excluir */}
                       <button
                         onClick={() => handleDelete(user)}
@@ -211,6 +229,13 @@ export function UsersList() {
           }}
         />
       )}
+
+      {permissionsUser && (
+        <UserPermissionsModal
+          user={permissionsUser}
+          onClose={() => setPermissionsUser(null)}
+        />
+      )}
     </div>
   );
 }
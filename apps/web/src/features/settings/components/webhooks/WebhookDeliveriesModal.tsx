@@ -0,0 +1,181 @@
+import { Fragment, useState } from 'react';
+import { X, ScrollText, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useWebhookDeliveries, useReplayWebhookDelivery } from '../../hooks/useOutboundWebhooks';
+import { formatDateTime } from '../api/ApiKeysTab';
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookSubscription } from '../../api/outbound-webhooks.api';
+
+interface Props {
+  /** null = entregas de todos os webhooks */
+  webhook: WebhookSubscription | null;
+  onClose: () => void;
+}
+
+const STATUS_CONFIG: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  SUCCESS: { label: 'Entregue', className: 'bg-green-500/10 text-green-500' },
+  PENDING: { label: 'Pendente', className: 'bg-amber-500/10 text-amber-500' },
+  FAILED: { label: 'Falhou', className: 'bg-red-500/10 text-red-500' },
+};
+
+/** Log de entregas (retenção de 90 dias) com reenvio manual */
+export function WebhookDeliveriesModal({ webhook, onClose }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+
+  const [status, setStatus] = useState<WebhookDeliveryStatus | ''>('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: deliveries, isLoading } = useWebhookDeliveries({
+    subscriptionId: webhook?.id,
+    status: status || undefined,
+    limit: 100,
+  });
+  const replayMutation = useReplayWebhookDelivery();
+
+  const cellClass = cn('px-4 py-2 text-xs', isDark ? 'text-zinc-300' : 'text-zinc-700');
+  const preClass = cn(
+    'p-3 rounded-lg text-[11px] font-mono whitespace-pre-wrap break-all max-h-60 overflow-y-auto',
+    isDark ? 'bg-zinc-950 text-zinc-300' : 'bg-zinc-50 text-zinc-700',
+  );
+
+  const renderDetails = (delivery: WebhookDelivery) => (
+    <tr>
+      <td colSpan={6} className="px-4 pb-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <p className="text-xs font-medium text-zinc-500 mb-1">Payload</p>
+            <pre className={preClass}>{JSON.stringify(delivery.payload, null, 2)}</pre>
+          </div>
+          <div>
+            <p className="text-xs font-medium text-zinc-500 mb-1">
+              Resposta{delivery.responseStatus ? ` (HTTP ${delivery.responseStatus})` : ''}
+            </p>
+            <pre className={preClass}>{delivery.responseBody || delivery.error || '—'}</pre>
+            <div className="mt-2 space-y-0.5 text-xs text-zinc-500">
+              {delivery.lastAttemptAt && <p>Última tentativa: {formatDateTime(delivery.lastAttemptAt)}</p>}
+              {delivery.status === 'PENDING' && delivery.nextAttemptAt && (
+                <p>Próxima tentativa: {formatDateTime(delivery.nextAttemptAt)}</p>
+              )}
+              {delivery.replayOfId && <p>Reenvio da entrega {delivery.replayOfId}</p>}
+              <p className="font-mono">ID: {delivery.id}</p>
+            </div>
+          </div>
+        </div>
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        className={cn(
+          'relative w-full max-w-4xl max-h-[85vh] flex flex-col rounded-2xl shadow-2xl',
+          isDark ? 'bg-zinc-900 border border-zinc-800' : 'bg-white border border-zinc-200',
+        )}
+      >
+        {/* Header */}
+        <div className={cn('flex items-center justify-between px-6 py-4 border-b', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-nexus-orange/10 flex items-center justify-center">
+              <ScrollText size={18} className="text-nexus-orange" />
+            </div>
+            <div>
+              <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>Entregas</h2>
+              <p className="text-xs text-zinc-500">{webhook ? `${webhook.name} · ${webhook.url}` : 'Todos os webhooks'}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as WebhookDeliveryStatus | '')}
+              className={cn(
+                'px-3 py-1.5 rounded-lg border text-xs outline-none',
+                isDark ? 'bg-zinc-800 border-zinc-700 text-white' : 'bg-white border-zinc-300 text-zinc-900',
+              )}
+            >
+              <option value="">Todos os status</option>
+              {(Object.keys(STATUS_CONFIG) as WebhookDeliveryStatus[]).map((key) => (
+                <option key={key} value={key}>
+                  {STATUS_CONFIG[key].label}
+                </option>
+              ))}
+            </select>
+            <button onClick={onClose} className={cn('p-2 rounded-lg', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800/50' : 'text-zinc-500 hover:text-zinc-900 hover:bg-zinc-100')}>
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto">
+          {isLoading ? (
+            <div className="py-12 text-center">
+              <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : !deliveries?.length ? (
+            <p className="py-12 text-center text-sm text-zinc-500">Nenhuma entrega registrada</p>
+          ) : (
+            <table className="w-full">
+              <thead className={cn('border-b sticky top-0', isDark ? 'border-zinc-800 bg-zinc-900' : 'border-zinc-200 bg-zinc-50')}>
+                <tr>
+                  {['Data', 'Evento', 'Webhook', 'Status', 'Tentativas', ''].map((h) => (
+                    <th key={h} className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wide text-zinc-500">
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className={cn('divide-y', isDark ? 'divide-zinc-800' : 'divide-zinc-100')}>
+                {deliveries.map((delivery) => {
+                  const config = STATUS_CONFIG[delivery.status];
+                  const expanded = expandedId === delivery.id;
+                  return (
+                    <Fragment key={delivery.id}>
+                      <tr
+                        onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                        className={cn('cursor-pointer', isDark ? 'hover:bg-zinc-800/40' : 'hover:bg-zinc-50')}
+                      >
+                        <td className={cn(cellClass, 'whitespace-nowrap')}>
+                          <span className="inline-flex items-center gap-1">
+                            {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                            {formatDateTime(delivery.createdAt)}
+                          </span>
+                        </td>
+                        <td className={cn(cellClass, 'font-mono')}>{delivery.event}</td>
+                        <td className={cellClass}>{delivery.subscription.name}</td>
+                        <td className={cellClass}>
+                          <span className={cn('inline-flex px-2 py-0.5 rounded-full', config.className)}>{config.label}</span>
+                          {delivery.responseStatus && <span className="ml-1 font-mono text-zinc-500">{delivery.responseStatus}</span>}
+                        </td>
+                        <td className={cellClass}>
+                          {delivery.attempts}
+                          {delivery.durationMs !== null && <span className="text-zinc-500"> · {delivery.durationMs} ms</span>}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {delivery.status !== 'PENDING' && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                replayMutation.mutate(delivery.id);
+                              }}
+                              disabled={replayMutation.isPending}
+                              className="inline-flex items-center gap-1 text-xs text-nexus-orange hover:underline disabled:opacity-50"
+                            >
+                              <RotateCcw size={12} />
+                              Reenviar
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {expanded && renderDetails(delivery)}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { X, Radio, Copy, Check, Trash2, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import { useWebhookEcho, useClearWebhookEcho } from '../../hooks/useOutboundWebhooks';
+import { formatDateTime } from '../api/ApiKeysTab';
+
+interface Props {
+  onClose: () => void;
+}
+
+/**
+ * Receptor de teste: cadastre a URL como webhook e veja aqui o que chegou
+ * (mantido em memória pela API, últimas 50 entregas)
+ */
+export function WebhookEchoModal({ onClose }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+
+  const { data, isLoading } = useWebhookEcho(true);
+  const clearMutation = useClearWebhookEcho();
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!data?.url) return;
+    try {
+      await navigator.clipboard.writeText(data.url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Erro ao copiar:', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        className={cn(
+          'relative w-full max-w-3xl max-h-[85vh] flex flex-col rounded-2xl shadow-2xl',
+          isDark ? 'bg-zinc-900 border border-zinc-800' : 'bg-white border border-zinc-200',
+        )}
+      >
+        {/* Header */}
+        <div className={cn('flex items-center justify-between px-6 py-4 border-b', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-nexus-orange/10 flex items-center justify-center">
+              <Radio size={18} className="text-nexus-orange" />
+            </div>
+            <div>
+              <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>Receptor de teste</h2>
+              <p className="text-xs text-zinc-500">Confere a assinatura de cada entrega recebida</p>
+            </div>
+          </div>
+          <button onClick={onClose} className={cn('p-2 rounded-lg', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800/50' : 'text-zinc-500 hover:text-zinc-900 hover:bg-zinc-100')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className={cn('px-6 py-4 border-b space-y-2', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <div className="flex gap-2">
+            <input
+              className={cn(
+                'w-full px-3 py-2 rounded-lg border font-mono text-xs outline-none',
+                isDark ? 'bg-zinc-800 border-zinc-700 text-white' : 'bg-white border-zinc-300 text-zinc-900',
+              )}
+              value={data?.url ?? ''}
+              readOnly
+              onFocus={(e) => e.target.select()}
+            />
+            <button
+              onClick={handleCopy}
+              className={cn('shrink-0 px-3 rounded-lg border transition-colors', isDark ? 'border-zinc-700 text-zinc-300 hover:bg-zinc-800' : 'border-zinc-300 text-zinc-600 hover:bg-zinc-100')}
+              title="Copiar"
+            >
+              {copied ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
+            </button>
+            <button
+              onClick={() => clearMutation.mutate()}
+              disabled={clearMutation.isPending || !data?.entries.length}
+              className="shrink-0 px-3 rounded-lg text-red-500 hover:bg-red-500/10 disabled:opacity-50 transition-colors"
+              title="Limpar"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <p className="text-xs text-zinc-500">
+            Acrescente <span className="font-mono">?status=500</span> à URL para simular falhas e acompanhar os reenvios.
+          </p>
+        </div>
+
+        <div className="overflow-y-auto px-6 py-4 space-y-3">
+          {isLoading ? (
+            <div className="py-8 text-center">
+              <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : !data?.entries.length ? (
+            <p className="py-8 text-center text-sm text-zinc-500">Nenhuma entrega recebida ainda</p>
+          ) : (
+            data.entries.map((entry, index) => (
+              <div
+                key={`${entry.deliveryId}-${entry.receivedAt}-${index}`}
+                className={cn('rounded-xl border p-3', isDark ? 'border-zinc-800' : 'border-zinc-200')}
+              >
+                <div className="flex items-center justify-between gap-2 mb-2 text-xs">
+                  <span className={cn('font-mono font-medium', isDark ? 'text-zinc-200' : 'text-zinc-800')}>
+                    {entry.event ?? 'sem evento'}
+                  </span>
+                  <span className="flex items-center gap-3 text-zinc-500">
+                    {entry.signatureValid === null ? (
+                      <span>Assinatura não conferida (webhook desconhecido)</span>
+                    ) : entry.signatureValid ? (
+                      <span className="flex items-center gap-1 text-green-500">
+                        <ShieldCheck size={12} /> Assinatura válida
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-1 text-red-500">
+                        <ShieldAlert size={12} /> Assinatura inválida
+                      </span>
+                    )}
+                    <span className="font-mono">HTTP {entry.respondedWith}</span>
+                    <span>{formatDateTime(entry.receivedAt)}</span>
+                  </span>
+                </div>
+                <pre
+                  className={cn(
+                    'p-3 rounded-lg text-[11px] font-mono whitespace-pre-wrap break-all max-h-48 overflow-y-auto',
+                    isDark ? 'bg-zinc-950 text-zinc-300' : 'bg-zinc-50 text-zinc-700',
+                  )}
+                >
+                  {JSON.stringify(entry.body, null, 2)}
+                </pre>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
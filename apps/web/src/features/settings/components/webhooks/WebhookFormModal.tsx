@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import { X, Webhook, Copy, Check, Eye, RefreshCw } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import {
+  useCreateOutboundWebhook,
+  useUpdateOutboundWebhook,
+  useOutboundWebhookEvents,
+  useRotateWebhookSecret,
+} from '../../hooks/useOutboundWebhooks';
+import { outboundWebhooksApi } from '../../api/outbound-webhooks.api';
+import type { WebhookSubscription } from '../../api/outbound-webhooks.api';
+
+interface Props {
+  webhook: WebhookSubscription | null;
+  onClose: () => void;
+}
+
+export function WebhookFormModal({ webhook, onClose }: Props) {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+  const isEdit = !!webhook;
+
+  const { data: events = [] } = useOutboundWebhookEvents();
+  const createMutation = useCreateOutboundWebhook();
+  const updateMutation = useUpdateOutboundWebhook();
+  const rotateMutation = useRotateWebhookSecret();
+
+  const [form, setForm] = useState({
+    name: webhook?.name ?? '',
+    url: webhook?.url ?? '',
+    events: webhook?.events ?? [],
+    isActive: webhook?.isActive ?? true,
+  });
+  /** Segredo exibido após a criação ou sob demanda na edição */
+  const [secret, setSecret] = useState<string | null>(null);
+  const [created, setCreated] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const isValid = form.name.trim().length >= 2 && /^https?:\/\/.+/i.test(form.url.trim()) && form.events.length > 0;
+
+  const toggleEvent = (event: string) =>
+    setForm((f) => ({
+      ...f,
+      events: f.events.includes(event) ? f.events.filter((e) => e !== event) : [...f.events, event],
+    }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    const data = { ...form, name: form.name.trim(), url: form.url.trim() };
+
+    if (isEdit) {
+      updateMutation.mutate({ id: webhook.id, data }, { onSuccess: onClose });
+    } else {
+      createMutation.mutate(data, {
+        onSuccess: (result) => {
+          setSecret(result.secret);
+          setCreated(true);
+        },
+      });
+    }
+  };
+
+  const handleShowSecret = async () => {
+    if (!webhook) return;
+    try {
+      const result = await outboundWebhooksApi.getSecret(webhook.id);
+      setSecret(result.secret);
+    } catch (error) {
+      console.error('Erro ao carregar segredo:', error);
+    }
+  };
+
+  const handleRotate = () => {
+    if (!webhook) return;
+    if (confirm('Gerar um novo segredo? Entregas passam a ser assinadas com ele imediatamente.')) {
+      rotateMutation.mutate(webhook.id, { onSuccess: (result) => setSecret(result.secret) });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!secret) return;
+    try {
+      await navigator.clipboard.writeText(secret);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Erro ao copiar:', error);
+    }
+  };
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const inputClass = cn(
+    'w-full px-3 py-2 rounded-lg border text-sm outline-none transition-colors disabled:opacity-60',
+    isDark
+      ? 'bg-zinc-800 border-zinc-700 text-white placeholder-zinc-500 focus:border-nexus-orange'
+      : 'bg-white border-zinc-300 text-zinc-900 placeholder-zinc-400 focus:border-nexus-orange',
+  );
+  const labelClass = cn('block text-xs font-medium mb-1', isDark ? 'text-zinc-400' : 'text-zinc-600');
+  const smallButton = cn(
+    'shrink-0 flex items-center gap-1 px-3 rounded-lg border text-xs transition-colors disabled:opacity-50',
+    isDark ? 'border-zinc-700 text-zinc-300 hover:bg-zinc-800' : 'border-zinc-300 text-zinc-600 hover:bg-zinc-100',
+  );
+
+  const secretField = secret && (
+    <div className="flex gap-2">
+      <input className={cn(inputClass, 'font-mono text-xs')} value={secret} readOnly onFocus={(e) => e.target.select()} />
+      <button type="button" onClick={handleCopy} className={smallButton} title="Copiar">
+        {copied ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        className={cn(
+          'relative w-full max-w-lg max-h-[90vh] flex flex-col rounded-2xl shadow-2xl',
+          isDark ? 'bg-zinc-900 border border-zinc-800' : 'bg-white border border-zinc-200',
+        )}
+      >
+        {/* Header */}
+        <div className={cn('flex items-center justify-between px-6 py-4 border-b', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-xl bg-nexus-orange/10 flex items-center justify-center">
+              <Webhook size={18} className="text-nexus-orange" />
+            </div>
+            <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>
+              {created ? 'Webhook cadastrado' : isEdit ? 'Editar webhook' : 'Novo webhook'}
+            </h2>
+          </div>
+          <button onClick={onClose} className={cn('p-2 rounded-lg', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800/50' : 'text-zinc-500 hover:text-zinc-900 hover:bg-zinc-100')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {created ? (
+          <div className="px-6 py-5 space-y-4 overflow-y-auto">
+            <p className={cn('text-sm', isDark ? 'text-zinc-300' : 'text-zinc-700')}>
+              Use o segredo abaixo para validar o cabeçalho <span className="font-mono text-xs">X-Nexus-Signature</span> no
+              sistema receptor. Ele continua disponível na edição do webhook.
+            </p>
+            <div>
+              <label className={labelClass}>Segredo de assinatura</label>
+              {secretField}
+            </div>
+            <SignatureHint isDark={isDark} />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="px-6 py-5 space-y-4 overflow-y-auto">
+            <div>
+              <label className={labelClass}>Nome *</label>
+              <input
+                className={inputClass}
+                value={form.name}
+                onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+                placeholder="Ex.: ERP financeiro"
+                maxLength={80}
+                required
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>URL *</label>
+              <input
+                type="url"
+                className={cn(inputClass, 'font-mono text-xs')}
+                value={form.url}
+                onChange={(e) => setForm((f) => ({ ...f, url: e.target.value }))}
+                placeholder="https://sistema.exemplo.com/webhooks/nexus"
+                maxLength={2000}
+                required
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Eventos *</label>
+              <div className="space-y-1.5">
+                {events.map((item) => (
+                  <label key={item.event} className={cn('flex items-start gap-2 text-sm', isDark ? 'text-zinc-300' : 'text-zinc-700')}>
+                    <input
+                      type="checkbox"
+                      checked={form.events.includes(item.event)}
+                      onChange={() => toggleEvent(item.event)}
+                      className="accent-nexus-orange mt-1"
+                    />
+                    <span>
+                      <span className="font-mono text-xs">{item.event}</span>
+                      <span className="block text-xs text-zinc-500">{item.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <label className={cn('flex items-center gap-2 text-sm', isDark ? 'text-zinc-300' : 'text-zinc-700')}>
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm((f) => ({ ...f, isActive: e.target.checked }))}
+                className="accent-nexus-orange"
+              />
+              Ativo (pausado não recebe novos eventos)
+            </label>
+
+            {isEdit && (
+              <div>
+                <label className={labelClass}>Segredo de assinatura</label>
+                {secretField || (
+                  <button type="button" onClick={handleShowSecret} className={cn(smallButton, 'py-2')}>
+                    <Eye size={14} />
+                    Mostrar segredo
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={handleRotate}
+                  disabled={rotateMutation.isPending}
+                  className="mt-2 flex items-center gap-1 text-xs text-nexus-orange hover:underline disabled:opacity-50"
+                >
+                  <RefreshCw size={12} />
+                  Gerar novo segredo
+                </button>
+              </div>
+            )}
+          </form>
+        )}
+
+        {/* Footer */}
+        <div className={cn('flex justify-end gap-3 px-6 py-4 border-t', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+          {created ? (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 transition-colors"
+            >
+              Concluir
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={onClose}
+                className={cn('px-4 py-2 rounded-lg text-sm font-medium transition-colors', isDark ? 'text-zinc-400 hover:text-white hover:bg-zinc-800' : 'text-zinc-600 hover:bg-zinc-100')}
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={isPending || !isValid}
+                className="px-4 py-2 rounded-lg bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 disabled:opacity-50 transition-colors"
+              >
+                {isPending ? 'Salvando...' : isEdit ? 'Salvar' : 'Cadastrar'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Como o receptor confere a assinatura */
+function SignatureHint({ isDark }: { isDark: boolean }) {
+  return (
+    <div className={cn('p-3 rounded-lg text-xs space-y-1', isDark ? 'bg-zinc-800/60 text-zinc-400' : 'bg-zinc-50 text-zinc-600')}>
+      <p>
+        Cabeçalho: <span className="font-mono">X-Nexus-Signature: t=&lt;timestamp&gt;,v1=&lt;hmac&gt;</span>
+      </p>
+      <p>
+        <span className="font-mono">v1</span> = HMAC-SHA256 (hex) de <span className="font-mono">"&lt;t&gt;.&lt;corpo&gt;"</span> com o
+        segredo. Recuse timestamps com mais de 5 minutos.
+      </p>
+      <p>Responda 2xx em até 10s — falhas são reenviadas com intervalo crescente (até 8 tentativas).</p>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { Plus, Pencil, Trash2, Webhook, ScrollText, Send, Radio } from 'lucide-react';
+import { useUIStore } from '@/stores/useUIStore';
+import { cn } from '@/utils/cn';
+import {
+  useOutboundWebhooks,
+  useDeleteOutboundWebhook,
+  useTestOutboundWebhook,
+} from '../../hooks/useOutboundWebhooks';
+import { WebhookFormModal } from './WebhookFormModal';
+import { WebhookDeliveriesModal } from './WebhookDeliveriesModal';
+import { WebhookEchoModal } from './WebhookEchoModal';
+import type { WebhookSubscription } from '../../api/outbound-webhooks.api';
+
+/**
+ * Webhooks de saída — eventos do CRM enviados por POST assinado (X-Nexus-Signature)
+ * Falhas são reenviadas com intervalo crescente; o log permite reenviar manualmente
+ */
+export function WebhooksTab() {
+  const { theme } = useUIStore();
+  const isDark = theme === 'dark';
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editWebhook, setEditWebhook] = useState<WebhookSubscription | null>(null);
+  // undefined = fechado; null = todas as assinaturas
+  const [deliveriesOf, setDeliveriesOf] = useState<WebhookSubscription | null | undefined>(undefined);
+  const [echoOpen, setEchoOpen] = useState(false);
+
+  const { data: webhooks, isLoading } = useOutboundWebhooks();
+  const deleteMutation = useDeleteOutboundWebhook();
+  const testMutation = useTestOutboundWebhook();
+
+  const handleDelete = (webhook: WebhookSubscription) => {
+    if (confirm(`Excluir o webhook "${webhook.name}"? O histórico de entregas também será removido.`)) {
+      deleteMutation.mutate(webhook.id);
+    }
+  };
+
+  const mutedText = cn('px-4 py-3 text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500');
+  const iconButton = cn('p-1.5 rounded-lg transition-colors disabled:opacity-50', isDark ? 'hover:bg-zinc-700 text-zinc-400 hover:text-white' : 'hover:bg-zinc-100 text-zinc-500 hover:text-zinc-900');
+  const secondaryButton = cn(
+    'flex items-center gap-2 px-3 py-2 rounded-xl border text-sm font-medium transition-colors',
+    isDark ? 'border-zinc-700 text-zinc-300 hover:bg-zinc-800' : 'border-zinc-300 text-zinc-600 hover:bg-zinc-100',
+  );
+
+  return (
+    <div className="p-6 space-y-5">
+      {/* Top bar */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className={cn('text-lg font-semibold', isDark ? 'text-white' : 'text-zinc-900')}>Webhooks</h2>
+          <p className={cn('text-sm mt-0.5', isDark ? 'text-zinc-400' : 'text-zinc-500')}>
+            Notifique sistemas externos quando leads, clientes, pagamentos e tenants mudarem
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setEchoOpen(true)} className={secondaryButton}>
+            <Radio size={16} />
+            Receptor de teste
+          </button>
+          <button onClick={() => setDeliveriesOf(null)} className={secondaryButton}>
+            <ScrollText size={16} />
+            Entregas
+          </button>
+          <button
+            onClick={() => {
+              setEditWebhook(null);
+              setModalOpen(true);
+            }}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-nexus-orange text-white text-sm font-medium hover:bg-nexus-orange/90 transition-colors"
+          >
+            <Plus size={16} />
+            Novo webhook
+          </button>
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className={cn('rounded-2xl border overflow-hidden', isDark ? 'border-zinc-800 bg-zinc-900/50' : 'border-zinc-200 bg-white')}>
+        {isLoading ? (
+          <div className="py-12 text-center">
+            <div className="inline-block w-6 h-6 border-2 border-nexus-orange border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : !webhooks?.length ? (
+          <div className="py-12 text-center">
+            <Webhook size={36} className={cn('mx-auto mb-2', isDark ? 'text-zinc-600' : 'text-zinc-300')} />
+            <p className={cn('text-sm', isDark ? 'text-zinc-400' : 'text-zinc-500')}>Nenhum webhook cadastrado</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className={cn('border-b', isDark ? 'border-zinc-800 bg-zinc-900' : 'border-zinc-200 bg-zinc-50')}>
+              <tr>
+                {['Webhook', 'Eventos', 'Últimas 24h', 'Status', 'Ações'].map((h) => (
+                  <th key={h} className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wide text-zinc-500">
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className={cn('divide-y', isDark ? 'divide-zinc-800' : 'divide-zinc-100')}>
+              {webhooks.map((webhook) => (
+                <tr
+                  key={webhook.id}
+                  className={cn('transition-colors', !webhook.isActive && 'opacity-50', isDark ? 'hover:bg-zinc-800/40' : 'hover:bg-zinc-50')}
+                >
+                  <td className={cn('px-4 py-3 text-sm font-medium', isDark ? 'text-zinc-200' : 'text-zinc-800')}>
+                    {webhook.name}
+                    <p className="text-xs font-normal font-mono text-zinc-500 truncate max-w-xs" title={webhook.url}>
+                      {webhook.url}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex flex-wrap gap-1 max-w-xs">
+                      {webhook.events.map((event) => (
+                        <span key={event} className={cn('text-[11px] font-mono px-1.5 py-0.5 rounded', isDark ? 'bg-zinc-800 text-zinc-300' : 'bg-zinc-100 text-zinc-600')}>
+                          {event}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className={mutedText}>
+                    <span className="text-green-500">{webhook.last24h?.success ?? 0} ok</span>
+                    {!!webhook.last24h?.pending && <span className="text-amber-500"> · {webhook.last24h.pending} pendentes</span>}
+                    {!!webhook.last24h?.failed && <span className="text-red-500"> · {webhook.last24h.failed} falhas</span>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={cn(
+                        'inline-flex text-xs px-2 py-0.5 rounded-full',
+                        webhook.isActive ? 'bg-green-500/10 text-green-500' : 'bg-zinc-500/10 text-zinc-500',
+                      )}
+                    >
+                      {webhook.isActive ? 'Ativo' : 'Pausado'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => testMutation.mutate(webhook.id)}
+                        disabled={testMutation.isPending}
+                        className={iconButton}
+                        title="Enviar ping"
+                      >
+                        <Send size={14} />
+                      </button>
+                      <button onClick={() => setDeliveriesOf(webhook)} className={iconButton} title="Entregas">
+                        <ScrollText size={14} />
+                      </button>
+                      <button
+                        onClick={() => {
+                          setEditWebhook(webhook);
+                          setModalOpen(true);
+                        }}
+                        className={iconButton}
+                        title="Editar"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(webhook)}
+                        disabled={deleteMutation.isPending}
+                        className="p-1.5 rounded-lg transition-colors text-red-500 hover:bg-red-500/10"
+                        title="Excluir"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {modalOpen && (
+        <WebhookFormModal
+          webhook={editWebhook}
+          onClose={() => {
+            setModalOpen(false);
+            setEditWebhook(null);
+          }}
+        />
+      )}
+
+      {deliveriesOf !== undefined && (
+        <WebhookDeliveriesModal webhook={deliveriesOf} onClose={() => setDeliveriesOf(undefined)} />
+      )}
+
+      {echoOpen && <WebhookEchoModal onClose={() => setEchoOpen(false)} />}
+    </div>
+  );
+}
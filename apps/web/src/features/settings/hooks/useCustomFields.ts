@@ -0,0 +1,70 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  customFieldsApi,
+  CustomFieldEntity,
+  CreateCustomFieldDto,
+  UpdateCustomFieldDto,
+} from '../api/custom-fields.api';
+
+const queryKey = ['custom-fields'];
+
+/** Definições de campos (apenas ativas, exceto na tela de Configurações) */
+export const useCustomFields = (entity?: CustomFieldEntity, includeInactive = false) => {
+  return useQuery({
+    queryKey: [...queryKey, entity ?? 'all', includeInactive],
+    queryFn: () => customFieldsApi.getAll(entity, includeInactive),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+/** Etiquetas em uso (sugestões e filtros) */
+export const useTagSuggestions = (entity: CustomFieldEntity) => {
+  return useQuery({
+    queryKey: [...queryKey, 'tags', entity],
+    queryFn: () => customFieldsApi.getTags(entity),
+    staleTime: 60 * 1000,
+  });
+};
+
+export const useCreateCustomField = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (dto: CreateCustomFieldDto) => customFieldsApi.create(dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Campo personalizado criado com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao criar campo personalizado');
+    },
+  });
+};
+
+export const useUpdateCustomField = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateCustomFieldDto }) => customFieldsApi.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Campo personalizado atualizado com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao atualizar campo personalizado');
+    },
+  });
+};
+
+export const useDeleteCustomField = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => customFieldsApi.remove(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Campo personalizado removido.');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao remover campo personalizado');
+    },
+  });
+};
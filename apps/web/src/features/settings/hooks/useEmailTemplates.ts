@@ -0,0 +1,106 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  emailTemplatesApi,
+  emailsApi,
+  EmailTarget,
+  EmailTemplateDto,
+  SendEmailDto,
+} from '../api/email-templates.api';
+
+const queryKey = ['email-templates'];
+const sentKey = ['emails'];
+
+/** Modelos (apenas ativos, exceto na tela de Configurações) */
+export const useEmailTemplates = (includeInactive = false) => {
+  return useQuery({
+    queryKey: [...queryKey, includeInactive],
+    queryFn: () => emailTemplatesApi.getAll(includeInactive),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useEmailTemplateVariables = () => {
+  return useQuery({
+    queryKey: [...queryKey, 'variables'],
+    queryFn: () => emailTemplatesApi.getVariables(),
+    staleTime: Infinity,
+  });
+};
+
+export const useCreateEmailTemplate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (dto: EmailTemplateDto) => emailTemplatesApi.create(dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Modelo de e-mail criado com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao criar modelo de e-mail');
+    },
+  });
+};
+
+export const useUpdateEmailTemplate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<EmailTemplateDto> }) => emailTemplatesApi.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Modelo de e-mail atualizado com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao atualizar modelo de e-mail');
+    },
+  });
+};
+
+export const useDeleteEmailTemplate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => emailTemplatesApi.remove(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Modelo de e-mail removido.');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao remover modelo de e-mail');
+    },
+  });
+};
+
+/** E-mails enviados ao lead/cliente (status, aberturas e cliques) */
+export const useSentEmails = (target: EmailTarget | null) => {
+  return useQuery({
+    queryKey: [...sentKey, target],
+    queryFn: () => emailsApi.getSent(target!),
+    enabled: !!target,
+    refetchInterval: 60 * 1000,
+  });
+};
+
+export const usePreviewEmail = () => {
+  return useMutation({
+    mutationFn: (dto: SendEmailDto) => emailsApi.preview(dto),
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao gerar pré-visualização');
+    },
+  });
+};
+
+export const useSendEmail = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (dto: SendEmailDto) => emailsApi.send(dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sentKey });
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      toast.success('E-mail enviado!');
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: sentKey });
+      toast.error(error?.response?.data?.message || 'Erro ao enviar e-mail');
+    },
+  });
+};
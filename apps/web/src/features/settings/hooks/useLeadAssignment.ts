@@ -0,0 +1,87 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  leadAssignmentApi,
+  AssignmentRuleDto,
+  UpdateAvailabilityDto,
+  LeadEntrySource,
+} from '../api/lead-assignment.api';
+
+export const useAssignmentRules = () => {
+  return useQuery({
+    queryKey: ['lead-assignment', 'rules'],
+    queryFn: leadAssignmentApi.getRules,
+  });
+};
+
+export const useCreateAssignmentRule = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (dto: AssignmentRuleDto) => leadAssignmentApi.createRule(dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lead-assignment', 'rules'] });
+      toast.success('Regra criada com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao criar regra');
+    },
+  });
+};
+
+export const useUpdateAssignmentRule = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<AssignmentRuleDto> }) =>
+      leadAssignmentApi.updateRule(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lead-assignment', 'rules'] });
+      toast.success('Regra atualizada com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao atualizar regra');
+    },
+  });
+};
+
+export const useDeleteAssignmentRule = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => leadAssignmentApi.removeRule(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lead-assignment', 'rules'] });
+      toast.success('Regra removida.');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao remover regra');
+    },
+  });
+};
+
+export const useVendorAvailability = () => {
+  return useQuery({
+    queryKey: ['lead-assignment', 'availability'],
+    queryFn: leadAssignmentApi.getAvailability,
+  });
+};
+
+export const useUpdateVendorAvailability = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ userId, data }: { userId: string; data: UpdateAvailabilityDto }) =>
+      leadAssignmentApi.updateAvailability(userId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lead-assignment', 'availability'] });
+      toast.success('Disponibilidade atualizada!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao atualizar disponibilidade');
+    },
+  });
+};
+
+export const useAssignmentLogs = (params?: { ruleId?: string; source?: LeadEntrySource }) => {
+  return useQuery({
+    queryKey: ['lead-assignment', 'logs', params],
+    queryFn: () => leadAssignmentApi.getLogs({ ...params, limit: 100 }),
+  });
+};
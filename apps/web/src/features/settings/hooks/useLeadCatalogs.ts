@@ -0,0 +1,61 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  leadCatalogsApi,
+  LeadCatalog,
+  CreateLeadCatalogItemDto,
+  UpdateLeadCatalogItemDto,
+} from '../api/lead-catalogs.api';
+
+// Mesmas chaves usadas pelos selects do Kanban → atualizam junto
+const queryKey = (catalog: LeadCatalog) => [catalog];
+
+export const useLeadCatalog = (catalog: LeadCatalog) => {
+  return useQuery({
+    queryKey: [...queryKey(catalog), 'all'],
+    queryFn: () => leadCatalogsApi.getAll(catalog),
+  });
+};
+
+export const useCreateLeadCatalogItem = (catalog: LeadCatalog) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (dto: CreateLeadCatalogItemDto) => leadCatalogsApi.create(catalog, dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKey(catalog) });
+      toast.success('Item criado com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao criar item');
+    },
+  });
+};
+
+export const useUpdateLeadCatalogItem = (catalog: LeadCatalog) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateLeadCatalogItemDto }) =>
+      leadCatalogsApi.update(catalog, id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKey(catalog) });
+      toast.success('Item atualizado com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao atualizar item');
+    },
+  });
+};
+
+export const useDeleteLeadCatalogItem = (catalog: LeadCatalog) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => leadCatalogsApi.remove(catalog, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKey(catalog) });
+      toast.success('Item removido.');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao remover item');
+    },
+  });
+};
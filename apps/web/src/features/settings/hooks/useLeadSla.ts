@@ -0,0 +1,54 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { leadSlaApi, SlaPolicyDto } from '../api/lead-sla.api';
+
+const queryKey = ['lead-sla', 'policies'];
+
+export const useSlaPolicies = () => {
+  return useQuery({
+    queryKey,
+    queryFn: leadSlaApi.getPolicies,
+  });
+};
+
+export const useCreateSlaPolicy = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (dto: SlaPolicyDto) => leadSlaApi.createPolicy(dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Política de SLA criada com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao criar política de SLA');
+    },
+  });
+};
+
+export const useUpdateSlaPolicy = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<SlaPolicyDto> }) => leadSlaApi.updatePolicy(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Política de SLA atualizada com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao atualizar política de SLA');
+    },
+  });
+};
+
+export const useDeleteSlaPolicy = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => leadSlaApi.removePolicy(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Política de SLA removida.');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao remover política de SLA');
+    },
+  });
+};
@@ -0,0 +1,143 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  outboundWebhooksApi,
+  WebhookDeliveryFilters,
+  WebhookSubscriptionDto,
+} from '../api/outbound-webhooks.api';
+
+const queryKey = ['outbound-webhooks'];
+
+export const useOutboundWebhooks = () => {
+  return useQuery({
+    queryKey,
+    queryFn: () => outboundWebhooksApi.getAll(),
+  });
+};
+
+export const useOutboundWebhookEvents = () => {
+  return useQuery({
+    queryKey: [...queryKey, 'events'],
+    queryFn: () => outboundWebhooksApi.getEvents(),
+    staleTime: Infinity,
+  });
+};
+
+export const useWebhookDeliveries = (filters: WebhookDeliveryFilters) => {
+  return useQuery({
+    queryKey: [...queryKey, 'deliveries', filters],
+    queryFn: () => outboundWebhooksApi.getDeliveries(filters),
+    refetchInterval: 15000, // Acompanha as novas tentativas
+  });
+};
+
+/** Entregas recebidas pelo receptor de teste (enabled = modal aberto) */
+export const useWebhookEcho = (enabled: boolean) => {
+  return useQuery({
+    queryKey: [...queryKey, 'echo'],
+    queryFn: () => outboundWebhooksApi.getEcho(),
+    enabled,
+    refetchInterval: 5000,
+  });
+};
+
+export const useCreateOutboundWebhook = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (dto: WebhookSubscriptionDto) => outboundWebhooksApi.create(dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Webhook cadastrado!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao cadastrar webhook');
+    },
+  });
+};
+
+export const useUpdateOutboundWebhook = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<WebhookSubscriptionDto> }) =>
+      outboundWebhooksApi.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Webhook atualizado com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao atualizar webhook');
+    },
+  });
+};
+
+export const useDeleteOutboundWebhook = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => outboundWebhooksApi.delete(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Webhook excluído.');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao excluir webhook');
+    },
+  });
+};
+
+export const useRotateWebhookSecret = () => {
+  return useMutation({
+    mutationFn: (id: string) => outboundWebhooksApi.rotateSecret(id),
+    onSuccess: () => {
+      toast.success('Segredo renovado — atualize o sistema receptor.');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao renovar segredo');
+    },
+  });
+};
+
+export const useTestOutboundWebhook = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => outboundWebhooksApi.test(id),
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey });
+      if (delivery.status === 'SUCCESS') {
+        toast.success(`Ping entregue (HTTP ${delivery.responseStatus})`);
+      } else {
+        toast.error(`Ping falhou: ${delivery.error ?? 'sem resposta'} — nova tentativa agendada`);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao testar webhook');
+    },
+  });
+};
+
+export const useReplayWebhookDelivery = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (deliveryId: string) => outboundWebhooksApi.replay(deliveryId),
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey });
+      if (delivery.status === 'SUCCESS') {
+        toast.success('Entrega reenviada com sucesso!');
+      } else {
+        toast.error(`Reenvio falhou: ${delivery.error ?? 'sem resposta'}`);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao reenviar entrega');
+    },
+  });
+};
+
+export const useClearWebhookEcho = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => outboundWebhooksApi.clearEcho(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...queryKey, 'echo'] });
+    },
+  });
+};
@@ -0,0 +1,71 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { partnerApiKeysApi, PartnerApiKeyDto } from '../api/partner-api-keys.api';
+
+const queryKey = ['partner-api-keys'];
+
+export const usePartnerApiKeys = () => {
+  return useQuery({
+    queryKey,
+    queryFn: () => partnerApiKeysApi.getAll(),
+  });
+};
+
+export const usePartnerApiScopes = () => {
+  return useQuery({
+    queryKey: [...queryKey, 'scopes'],
+    queryFn: () => partnerApiKeysApi.getScopes(),
+    staleTime: Infinity,
+  });
+};
+
+/** Últimas requisições da chave (null = desabilitado) */
+export const usePartnerApiLogs = (id: string | null) => {
+  return useQuery({
+    queryKey: [...queryKey, id, 'logs'],
+    queryFn: () => partnerApiKeysApi.getLogs(id!),
+    enabled: !!id,
+  });
+};
+
+export const useCreatePartnerApiKey = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (dto: PartnerApiKeyDto) => partnerApiKeysApi.create(dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Chave de API emitida!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao emitir chave de API');
+    },
+  });
+};
+
+export const useUpdatePartnerApiKey = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<PartnerApiKeyDto> }) => partnerApiKeysApi.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Chave de API atualizada com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao atualizar chave de API');
+    },
+  });
+};
+
+export const useRevokePartnerApiKey = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => partnerApiKeysApi.revoke(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Chave de API revogada.');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao revogar chave de API');
+    },
+  });
+};
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { settingsApi, CreateUserDto, UpdateUserDto } from '../api/settings.api';
+import { settingsApi, CreateUserDto, UpdateUserDto, UpdatePermissionItem } from '../api/settings.api';
 
 /**
  * Hook para listar usuários
@@ -138,3 +138,33 @@ export const useChangePassword = () => {
     },
   });
 };
+
+/**
+ * Hook para buscar matriz de permissões de um usuário
+ */
+export const useUserPermissions = (id: string) => {
+  return useQuery({
+    queryKey: ['users', id, 'permissions'],
+    queryFn: () => settingsApi.getUserPermissions(id),
+    enabled: !!id,
+  });
+};
+
+/**
+ * Hook para atualizar matriz de permissões de um usuário
+ */
+export const useUpdateUserPermissions = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, permissions }: { id: string; permissions: UpdatePermissionItem[] }) =>
+      settingsApi.updateUserPermissions(id, permissions),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['users', id, 'permissions'] });
+      toast.success('Permissões atualizadas com sucesso!');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.message || 'Erro ao atualizar permissões');
+    },
+  });
+};
@@ -0,0 +1,50 @@
+import { useCallback } from 'react';
+import { useApiQuery } from './useApi';
+import { useAuth } from '@/contexts/AuthContext';
+import { Module, UserRole, type ModulePermission, type PermissionAction } from '@/types';
+
+/**
+ * ══════════════════════════════════════════════════════════════════════════
+ * PERMISSIONS HOOK - Permissões granulares (UserPermission)
+ * ══════════════════════════════════════════════════════════════════════════
+ *
+ * Carrega a matriz de permissões do usuário logado (GET /users/me/permissions)
+ * para esconder menus e rotas. A API continua sendo a fonte da verdade
+ * (@RequirePermission) — aqui é apenas UX.
+ *
+ * REGRAS:
+ * - SUPERADMIN pode tudo
+ * - Enquanto carrega (ou se falhar), libera — evita piscar o menu
+ */
+
+const ACTION_FIELDS: Record<PermissionAction, keyof Omit<ModulePermission, 'module' | 'configured'>> = {
+  view: 'canView',
+  create: 'canCreate',
+  edit: 'canEdit',
+  delete: 'canDelete',
+};
+
+export function usePermissions() {
+  const { user, isAuthenticated } = useAuth();
+  const isSuperadmin = user?.role === UserRole.SUPERADMIN;
+
+  const { data: permissions, isLoading } = useApiQuery<ModulePermission[]>(
+    ['permissions', 'me', user?.id],
+    '/users/me/permissions',
+    {
+      enabled: isAuthenticated && !isSuperadmin,
+      staleTime: 60_000,
+    }
+  );
+
+  const can = useCallback(
+    (module: Module, action: PermissionAction = 'view') => {
+      if (isSuperadmin || !permissions) return true;
+      const permission = permissions.find((p) => p.module === module);
+      return permission ? permission[ACTION_FIELDS[action]] : true;
+    },
+    [isSuperadmin, permissions]
+  );
+
+  return { permissions, isLoading, can };
+}
@@ -8,6 +8,7 @@
  *
  * FEATURES:
  * - Chat com IA (regular + streaming)
+ * - Conversas persistidas (listar, retomar, renomear, excluir)
  * - Análise DISC
  * - Geração de Briefing
  * - Battlecard competitiva
@@ -18,8 +19,8 @@
  */
 
 import React from 'react';
-import { useMutation, useQuery } from '@tanstack/react-query';
-import { api } from '@/services/api';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, getAccessToken } from '@/services/api';
 
 // ══════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -73,6 +74,8 @@ export interface ChatMessage {
   content: string;
   timestamp: Date;
   leadId?: string;
+  messageId?: string; // ID do AIMessage no backend (feedback)
+  rating?: 'helpful' | 'not_helpful';
 }
 
 export interface ChatRequest {
@@ -80,14 +83,43 @@ export interface ChatRequest {
   leadContext: LeadContext;
   history?: ChatMessage[];
   provider?: 'groq' | 'gemini' | 'openai';
+  conversationId?: string; // Retoma a conversa (histórico vem do backend)
 }
 
 export interface ChatResponse {
+  conversationId: string;
+  messageId?: string;
   response: string;
   suggestions?: string[];
   nextActions?: string[];
 }
 
+export type AIContextType = 'LEAD' | 'CLIENT' | 'GENERAL';
+
+export interface AIConversationSummary {
+  id: string;
+  title: string | null;
+  contextType: AIContextType;
+  contextId: string | null;
+  user: { id: string; name: string };
+  messageCount: number;
+  lastMessage: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AIConversationDetail extends AIConversationSummary {
+  messages: Array<{
+    id: string;
+    role: 'user' | 'assistant';
+    content: string;
+    model: string | null;
+    tokensUsed: number | null;
+    rating: 'helpful' | 'not_helpful' | null;
+    createdAt: string;
+  }>;
+}
+
 export interface DISCAnalysis {
   profile: DISCProfile;
   scores: {
@@ -182,6 +214,7 @@ export interface GeneratorRequest {
 }
 
 export interface GeneratorResponse {
+  messageId?: string;
   content: string;
   metadata?: {
     wordCount?: number;
@@ -190,6 +223,64 @@ export interface GeneratorResponse {
   };
 }
 
+export interface SalesAnalytics {
+  period: { dateFrom: string; dateTo: string };
+  metrics: {
+    lead: {
+      totalLeads: number;
+      activeLeads: number;
+      convertedLeads: number;
+      conversionRate: number;
+    };
+    ai: {
+      totalInteractions: number;
+      avgResponseTime: number; // ms
+      satisfactionRate: number;
+      mostUsedFeatures: Array<{ feature: string; count: number }>;
+    };
+    performance: {
+      avgDealSize: number;
+      avgSalesCycle: number; // dias
+      winRate: number;
+    };
+  };
+  providers: Array<{
+    provider: string;
+    requests: number;
+    avgLatencyMs: number;
+    totalTokens: number;
+  }>;
+  feedback: { helpful: number; notHelpful: number; satisfactionRate: number };
+  team: Array<{
+    userId: string;
+    name: string;
+    interactions: number;
+    totalTokens: number;
+    avgLatencyMs: number;
+    satisfactionRate: number;
+    convertedLeads: number;
+  }>;
+}
+
+// ══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Converte o nome do estágio do funil (configurável) no estágio de venda usado pela IA
+ */
+export function mapStageNameToLeadStage(stageName?: string): LeadStage {
+  if (!stageName) return 'QUALIFICACAO';
+  const s = stageName.toUpperCase();
+  if (s.includes('PROSPEC') || s.includes('NOVO') || s.includes('ABERTO')) return 'PROSPECCAO';
+  if (s.includes('QUALIFIC') || s.includes('CONTATO') || s.includes('TENTATIVA')) return 'QUALIFICACAO';
+  if (s.includes('APRES') || s.includes('PROPOSTA') || s.includes('DEMO')) return 'APRESENTACAO';
+  if (s.includes('NEGOC')) return 'NEGOCIACAO';
+  if (s.includes('FECHA') || s.includes('CLOSING')) return 'FECHAMENTO';
+  if (s.includes('POS') || s.includes('POST')) return 'POS_VENDA';
+  return 'QUALIFICACAO';
+}
+
 // ══════════════════════════════════════════════════════════════════════════
 // HOOKS
 // ══════════════════════════════════════════════════════════════════════════
@@ -211,7 +302,7 @@ export function useChatAI() {
  */
 export function useAnalyzeDISC() {
   return useMutation({
-    mutationFn: async (leadContext: LeadContext): Promise<{ analysis: DISCAnalysis }> => {
+    mutationFn: async (leadContext: LeadContext): Promise<{ messageId?: string; analysis: DISCAnalysis }> => {
       const { data } = await api.post('/sales-ai/insights', { leadContext });
       return data;
     },
@@ -226,7 +317,7 @@ export function useGenerateBriefing() {
     mutationFn: async (params: {
       leadContext: LeadContext;
       callType?: 'discovery' | 'demo' | 'negotiation' | 'closing';
-    }): Promise<{ briefing: Briefing }> => {
+    }): Promise<{ messageId?: string; briefing: Briefing }> => {
       const { data } = await api.post('/sales-ai/briefing', params);
       return data;
     },
@@ -241,7 +332,7 @@ export function useGenerateBattlecard() {
     mutationFn: async (params: {
       leadContext: LeadContext;
       competitor: string;
-    }): Promise<{ battlecard: Battlecard }> => {
+    }): Promise<{ messageId?: string; battlecard: Battlecard }> => {
       const { data } = await api.post('/sales-ai/battlecard', params);
       return data;
     },
@@ -259,6 +350,7 @@ export function useRoleplay() {
       history: RoleplayMessage[];
       leadContext?: LeadContext;
     }): Promise<{
+      messageId?: string;
       response: string;
       feedback?: {
         score: number;
@@ -304,15 +396,82 @@ export function useSubmitFeedback() {
 
 /**
  * Hook para buscar analytics (query, não mutation)
+ * Sem userId, a API usa o escopo da role (próprio usuário, equipe ou todos)
  */
-export function useSalesAnalytics(userId: string) {
+export function useSalesAnalytics(params: { userId?: string; dateFrom?: string; dateTo?: string } = {}) {
   return useQuery({
-    queryKey: ['sales-analytics', userId],
-    queryFn: async () => {
-      const { data } = await api.get(`/sales-ai/analytics/${userId}`);
+    queryKey: ['sales-analytics', params],
+    queryFn: async (): Promise<SalesAnalytics> => {
+      const { data } = await api.get('/sales-ai/analytics', { params });
+      return data;
+    },
+    staleTime: 60_000,
+  });
+}
+
+// ══════════════════════════════════════════════════════════════════════════
+// CONVERSAS PERSISTIDAS
+// ══════════════════════════════════════════════════════════════════════════
+
+const CONVERSATIONS_KEY = 'ai-conversations';
+
+/**
+ * Lista sessões do chat
+ * Com contextId (ex: drawer do lead), inclui as sessões da equipe
+ */
+export function useAIConversations(
+  params: { contextType?: AIContextType; contextId?: string } = {},
+  enabled = true
+) {
+  return useQuery({
+    queryKey: [CONVERSATIONS_KEY, params],
+    queryFn: async (): Promise<AIConversationSummary[]> => {
+      const { data } = await api.get('/sales-ai/conversations', { params });
       return data;
     },
-    enabled: !!userId,
+    enabled,
+  });
+}
+
+/**
+ * Sessão com mensagens (para retomar ou visualizar)
+ */
+export function useAIConversation(id: string | null) {
+  return useQuery({
+    queryKey: [CONVERSATIONS_KEY, 'detail', id],
+    queryFn: async (): Promise<AIConversationDetail> => {
+      const { data } = await api.get(`/sales-ai/conversations/${id}`);
+      return data;
+    },
+    enabled: !!id,
+  });
+}
+
+export function useRenameAIConversation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, title }: { id: string; title: string }): Promise<AIConversationSummary> => {
+      const { data } = await api.patch(`/sales-ai/conversations/${id}`, { title });
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [CONVERSATIONS_KEY] });
+    },
+  });
+}
+
+export function useDeleteAIConversation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data } = await api.delete(`/sales-ai/conversations/${id}`);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [CONVERSATIONS_KEY] });
+    },
   });
 }
 
@@ -334,15 +493,26 @@ export function useSalesAIHealth() {
 // CHAT STREAMING (SSE)
 // ══════════════════════════════════════════════════════════════════════════
 
+export interface ChatStreamResult {
+  content: string;
+  conversationId: string;
+  messageId?: string;
+  suggestions?: string[];
+  nextActions?: string[];
+}
+
 /**
- * Hook para chat com streaming via SSE
+ * Hook para chat com streaming via SSE (POST + fetch, para enviar o JWT)
+ *
+ * A promise de startStream resolve com os ids persistidos ao fim do stream
+ * (null se cancelado ou com erro).
  *
  * USAGE:
  * ```tsx
  * const { startStream, stopStream, content, isStreaming, error } = useChatStream();
  *
- * const handleSend = (message: string) => {
- *   startStream({ message, leadContext, history });
+ * const handleSend = async (message: string) => {
+ *   const result = await startStream({ message, leadContext, conversationId });
  * };
  * ```
  */
@@ -350,57 +520,103 @@ export function useChatStream() {
   const [content, setContent] = React.useState('');
   const [isStreaming, setIsStreaming] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
-  const eventSourceRef = React.useRef<EventSource | null>(null);
+  const abortRef = React.useRef<AbortController | null>(null);
 
-  const startStream = (request: ChatRequest) => {
+  const startStream = async (request: ChatRequest): Promise<ChatStreamResult | null> => {
     // Limpar estado anterior
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setContent('');
     setError(null);
     setIsStreaming(true);
 
-    // Construir URL com query params
-    const baseURL = import.meta.env.VITE_API_URL || 'http://localhost:4000';
-    const params = new URLSearchParams({
-      message: request.message,
-      leadContext: JSON.stringify(request.leadContext),
-      history: request.history ? JSON.stringify(request.history) : '',
-    });
-    const url = `${baseURL}/sales-ai/chat/stream?${params}`;
-
-    // Criar EventSource
-    const eventSource = new EventSource(url);
-    eventSourceRef.current = eventSource;
-
-    eventSource.onmessage = (event) => {
-      const chunk = event.data;
-      setContent((prev) => prev + chunk);
-    };
-
-    eventSource.onerror = () => {
-      setError('Erro ao conectar com streaming');
-      setIsStreaming(false);
-      eventSource.close();
-    };
+    const token = getAccessToken();
+    let text = '';
+    let result: ChatStreamResult | null = null;
+
+    try {
+      const response = await fetch(`${api.defaults.baseURL}/sales-ai/chat/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Erro ${response.status} ao iniciar streaming`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Eventos SSE são separados por linha em branco
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+
+        for (const raw of events) {
+          const isError = raw.startsWith('event: error');
+          const data = raw
+            .split('\n')
+            .filter((line) => line.startsWith('data: '))
+            .map((line) => line.slice(6))
+            .join('\n');
+          if (!data) continue;
+
+          const event = JSON.parse(data);
+          if (isError) {
+            throw new Error(event.message || 'Erro no streaming');
+          }
+          if (event.type === 'chunk') {
+            text += event.content;
+            setContent(text);
+          } else if (event.type === 'done') {
+            result = {
+              content: text,
+              conversationId: event.conversationId,
+              messageId: event.messageId,
+              suggestions: event.suggestions,
+              nextActions: event.nextActions,
+            };
+          }
+        }
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Erro ao conectar com streaming');
+      }
+      result = null;
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsStreaming(false);
+      }
+    }
 
-    // EventSource fecha automaticamente quando servidor envia 'done'
-    eventSource.addEventListener('done', () => {
-      setIsStreaming(false);
-      eventSource.close();
-    });
+    return result;
   };
 
   const stopStream = () => {
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close();
-      eventSourceRef.current = null;
-    }
+    abortRef.current?.abort();
+    abortRef.current = null;
     setIsStreaming(false);
   };
 
   // Cleanup ao desmontar
   React.useEffect(() => {
     return () => {
-      stopStream();
+      abortRef.current?.abort();
     };
   }, []);
 
@@ -427,5 +643,9 @@ export default {
   useGenerateContent,
   useSubmitFeedback,
   useSalesAnalytics,
+  useAIConversations,
+  useAIConversation,
+  useRenameAIConversation,
+  useDeleteAIConversation,
   useSalesAIHealth,
 };
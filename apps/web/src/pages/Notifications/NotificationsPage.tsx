@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { clsx } from 'clsx';
 import {
   Bell, Settings2, CheckCheck, Search, X, ChevronLeft, ChevronRight,
-  TrendingUp, DollarSign, Zap, Users, AlertTriangle, Info, Save, Smartphone,
+  TrendingUp, DollarSign, Zap, Users, AlertTriangle, Info, Save, Smartphone, Timer, Mail, MailX,
 } from 'lucide-react';
 import { useUIStore } from '@/stores/useUIStore';
 import {
@@ -26,6 +26,10 @@ const TYPE_CONFIG: Record<string, { icon: typeof Bell; color: string; bg: string
   NEW_LEAD:              { icon: TrendingUp,     color: 'text-blue-500',   bg: 'bg-blue-500/10',   label: 'Novo Lead',             group: 'Leads' },
   LEAD_ASSIGNED:         { icon: Users,          color: 'text-purple-500', bg: 'bg-purple-500/10', label: 'Lead Atribuído',        group: 'Leads' },
   LEAD_CONVERTED:        { icon: TrendingUp,     color: 'text-green-500',  bg: 'bg-green-500/10',  label: 'Lead Convertido',       group: 'Leads' },
+  LEAD_SLA_BREACH:       { icon: Timer,          color: 'text-red-500',    bg: 'bg-red-500/10',    label: 'SLA Estourado',         group: 'Leads' },
+  LEAD_SLA_ESCALATED:    { icon: Timer,          color: 'text-orange-500', bg: 'bg-orange-500/10', label: 'SLA Escalado',          group: 'Leads' },
+  LEAD_EMAIL_RECEIVED:   { icon: Mail,           color: 'text-blue-500',   bg: 'bg-blue-500/10',   label: 'E-mail Recebido',       group: 'Leads' },
+  EMAIL_BOUNCED:         { icon: MailX,          color: 'text-amber-500',  bg: 'bg-amber-500/10',  label: 'E-mail Não Entregue',   group: 'Leads' },
   AI_CHURN_ALERT:        { icon: Zap,            color: 'text-red-500',    bg: 'bg-red-500/10',    label: 'Risco de Churn',        group: 'IA' },
   AI_OPPORTUNITY:        { icon: Zap,            color: 'text-yellow-500', bg: 'bg-yellow-500/10', label: 'Oportunidade IA',       group: 'IA' },
   AI_LEAD_SCORE:         { icon: Zap,            color: 'text-orange-500', bg: 'bg-orange-500/10', label: 'Score de Lead',         group: 'IA' },
@@ -38,7 +42,7 @@ const EMAIL_TYPES = new Set(['PAYMENT_OVERDUE', 'AI_CHURN_ALERT', 'SYSTEM_ALERT'
 
 const TYPE_GROUPS = [
   { key: 'Financeiro', types: ['PAYMENT_RECEIVED', 'PAYMENT_OVERDUE', 'SUBSCRIPTION_EXPIRING'] },
-  { key: 'Leads',      types: ['NEW_LEAD', 'LEAD_ASSIGNED', 'LEAD_CONVERTED'] },
+  { key: 'Leads',      types: ['NEW_LEAD', 'LEAD_ASSIGNED', 'LEAD_CONVERTED', 'LEAD_SLA_BREACH', 'LEAD_SLA_ESCALATED', 'LEAD_EMAIL_RECEIVED', 'EMAIL_BOUNCED'] },
   { key: 'IA',         types: ['AI_LEAD_SCORE', 'AI_OPPORTUNITY', 'AI_CHURN_ALERT'] },
   { key: 'Sistema',    types: ['SYSTEM_UPDATE', 'SYSTEM_ALERT'] },
 ];
@@ -302,7 +306,7 @@ export function NotificationsPage() {
             {[
               { label: '📋 Todas', val: undefined },
               { label: '💰 Financeiro', val: 'PAYMENT_RECEIVED,PAYMENT_OVERDUE,SUBSCRIPTION_EXPIRING' },
-              { label: '👤 Leads', val: 'NEW_LEAD,LEAD_ASSIGNED,LEAD_CONVERTED' },
+              { label: '👤 Leads', val: 'NEW_LEAD,LEAD_ASSIGNED,LEAD_CONVERTED,LEAD_SLA_BREACH,LEAD_SLA_ESCALATED,LEAD_EMAIL_RECEIVED,EMAIL_BOUNCED' },
               { label: '🤖 IA', val: 'AI_LEAD_SCORE,AI_OPPORTUNITY,AI_CHURN_ALERT' },
               { label: '⚙️ Sistema', val: 'SYSTEM_UPDATE,SYSTEM_ALERT' },
             ].map(({ label, val }) => (
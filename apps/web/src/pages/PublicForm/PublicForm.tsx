@@ -1,7 +1,9 @@
 import { useState, useEffect, useRef } from 'react';
 import { useParams, useSearchParams } from 'react-router-dom';
-import { CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
-import { formsApi, FormFieldDef } from '@/features/forms/services/forms.api';
+import { CheckCircle2, AlertCircle, Loader2, ArrowLeft } from 'lucide-react';
+import { nanoid } from 'nanoid';
+import { formsApi, FormFieldDef, FormAttribution } from '@/features/forms/services/forms.api';
+import { buildFormSteps } from '@/features/forms/utils/form-logic';
 
 // ─── Tipos ──────────────────────────────────────────────────────────────────
 
@@ -91,6 +93,41 @@ const ESTADOS = [
   'RJ','RN','RS','RO','RR','SC','SP','SE','TO',
 ];
 
+// ─── Rastreamento (funil + atribuição) ───────────────────────────────────────
+
+/** Sessão por formulário — recarregar a página não conta nova visualização */
+function getFormSession(slug: string | undefined): string {
+  const key = `nexus-form-session:${slug}`;
+  try {
+    const existing = sessionStorage.getItem(key);
+    if (existing) return existing;
+    const created = nanoid(24);
+    sessionStorage.setItem(key, created);
+    return created;
+  } catch {
+    // iframe com storage bloqueado — sessão vale só para esta carga da página
+    return nanoid(24);
+  }
+}
+
+/** UTM e click IDs da URL; no embed o site precisa repassar os parâmetros no src do iframe */
+function readAttribution(params: URLSearchParams): FormAttribution {
+  const get = (name: string) => params.get(name) || undefined;
+  const referrer = document.referrer && !document.referrer.startsWith(window.location.origin)
+    ? document.referrer
+    : undefined;
+  return {
+    utmSource: get('utm_source'),
+    utmMedium: get('utm_medium'),
+    utmCampaign: get('utm_campaign'),
+    utmTerm: get('utm_term'),
+    utmContent: get('utm_content'),
+    gclid: get('gclid'),
+    fbclid: get('fbclid'),
+    referrer,
+  };
+}
+
 // ─── Componente principal ────────────────────────────────────────────────────
 
 export function PublicForm() {
@@ -107,6 +144,11 @@ export function PublicForm() {
 
   const [values, setValues] = useState<Record<string, string>>({});
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [stepIndex, setStepIndex] = useState(0);
+
+  const [sessionId] = useState(() => getFormSession(slug));
+  const [attribution] = useState(() => readAttribution(searchParams));
+  const startedRef = useRef(false);
   const [cepLoading, setCepLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
@@ -125,9 +167,10 @@ export function PublicForm() {
         if (!data.isActive) { setInactive(true); setLoading(false); return; }
         setForm(data as PublicFormData);
         setLoading(false);
+        formsApi.trackEvent(slug, { type: 'VIEW', sessionId, attribution }).catch(() => {});
       })
       .catch(() => { setNotFound(true); setLoading(false); });
-  }, [slug]);
+  }, [slug, sessionId, attribution]);
 
   // ─── Fechar dropdown estado ao clicar fora ──────────────────────────────
   useEffect(() => {
@@ -142,23 +185,38 @@ export function PublicForm() {
     return () => document.removeEventListener('mousedown', handleClick);
   }, []);
 
-  // ─── Campos visíveis ────────────────────────────────────────────────────
-  const visibleFields = (() => {
+  // ─── Etapas e campos visíveis ───────────────────────────────────────────
+  // Quebras de página e campos hidden sempre entram, mesmo com filtro do embed
+  const formFields = (() => {
     if (!form) return [];
-    const sorted = [...form.fields].sort((a, b) => a.order - b.order);
-    const filtered = embedFields.length === 0 ? sorted : sorted.filter((f) => embedFields.includes(f.id));
-    return filtered.filter((f) => f.type !== 'hidden');
+    if (embedFields.length === 0) return form.fields;
+    return form.fields.filter((f) => embedFields.includes(f.id) || f.type === 'page' || f.type === 'hidden');
   })();
 
-  // Campos ocultos (hidden) - enviados automaticamente com defaultValue
-  const hiddenFields = (() => {
-    if (!form) return [];
-    return form.fields.filter((f) => f.type === 'hidden');
+  // Campos hidden valem pelo defaultValue — também contam nas condições de exibição
+  const answers = (() => {
+    const next = { ...values };
+    formFields.forEach((f) => {
+      if (f.type === 'hidden' && f.defaultValue) next[f.id] = f.defaultValue;
+    });
+    return next;
   })();
 
+  // Recalculadas a cada resposta: condições podem mostrar/ocultar campos e páginas inteiras
+  const steps = buildFormSteps(formFields, answers);
+  const currentStepIndex = Math.min(stepIndex, steps.length - 1);
+  const currentStep = steps[currentStepIndex];
+  const isLastStep = currentStepIndex === steps.length - 1;
+  const visibleFields = currentStep.fields.filter((f) => f.type !== 'hidden');
+
   // ─── Handlers ───────────────────────────────────────────────────────────
 
   function set(id: string, val: string) {
+    // Primeira resposta = início do preenchimento (etapa do funil)
+    if (!startedRef.current && slug) {
+      startedRef.current = true;
+      formsApi.trackEvent(slug, { type: 'START', sessionId, attribution }).catch(() => {});
+    }
     setValues((p) => ({ ...p, [id]: val }));
     if (errors[id]) setErrors((p) => ({ ...p, [id]: '' }));
   }
@@ -197,10 +255,10 @@ export function PublicForm() {
     }
   }
 
-  function validate(): boolean {
+  function validate(fields: FormFieldDef[]): boolean {
     if (!form) return false;
     const newErrors: Record<string, string> = {};
-    visibleFields.forEach((f) => {
+    fields.forEach((f) => {
       if (f.type === 'heading') return;
       const val = values[f.id] || '';
       if (f.required && !val.trim()) {
@@ -221,6 +279,9 @@ export function PublicForm() {
         if (f.type === 'url' && !/^https?:\/\/.+/i.test(val) && !val.startsWith('www.')) {
           newErrors[f.id] = 'URL inválida (comece com http:// ou https://)';
         }
+        if (f.type === 'number' && isNaN(Number(val.replace(',', '.')))) {
+          newErrors[f.id] = 'Número inválido';
+        }
         if (f.minLength && val.length < f.minLength) {
           newErrors[f.id] = `Mínimo ${f.minLength} caracteres`;
         }
@@ -233,19 +294,42 @@ export function PublicForm() {
     return Object.keys(newErrors).length === 0;
   }
 
+  function goToStep(index: number) {
+    setStepIndex(index);
+    setSubmitError('');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     if (!form || !slug) return;
-    if (!validate()) return;
+    if (!validate(visibleFields)) return;
+
+    if (!isLastStep) {
+      goToStep(currentStepIndex + 1);
+      return;
+    }
+
+    // Respostas anteriores podem ter mudado a visibilidade — revalida etapa a etapa
+    const invalidStep = steps.findIndex((step) => !validate(step.fields.filter((f) => f.type !== 'hidden')));
+    if (invalidStep !== -1) {
+      goToStep(invalidStep);
+      return;
+    }
+
     setSubmitting(true);
     setSubmitError('');
     try {
-      // Incluir campos hidden com defaultValue
-      const submitData = { ...values };
-      hiddenFields.forEach((f) => {
-        if (f.defaultValue) submitData[f.id] = f.defaultValue;
+      // Apenas campos visíveis (hidden com defaultValue inclusos); vazios vão como '' para
+      // o servidor validar a obrigatoriedade do que foi exibido
+      const submitData: Record<string, string> = {};
+      steps.forEach((step) => {
+        step.fields.forEach((f) => {
+          if (f.type === 'heading') return;
+          submitData[f.id] = answers[f.id] ?? '';
+        });
       });
-      await formsApi.submit(slug, submitData);
+      await formsApi.submit(slug, submitData, { sessionId, attribution });
       setSubmitted(true);
     } catch (err: any) {
       setSubmitError(err?.response?.data?.message || 'Erro ao enviar. Tente novamente.');
@@ -330,6 +414,25 @@ export function PublicForm() {
         )}
       </div>
 
+      {/* Progresso (formulário com mais de uma etapa) */}
+      {steps.length > 1 && (
+        <div className="mb-4 md:mb-6">
+          <div className="flex items-center justify-between text-xs mb-1.5">
+            <span className="font-medium text-zinc-300">{currentStep.title || 'Seus dados'}</span>
+            <span className="text-zinc-500">Etapa {currentStepIndex + 1} de {steps.length}</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+            <div
+              className="h-full bg-[#FF7300] rounded-full transition-all duration-300"
+              style={{ width: `${((currentStepIndex + 1) / steps.length) * 100}%` }}
+            />
+          </div>
+          {currentStep.page?.description && (
+            <p className="mt-2 text-zinc-400 text-xs">{currentStep.page.description}</p>
+          )}
+        </div>
+      )}
+
       {/* Formulário */}
       <form onSubmit={handleSubmit} noValidate className="space-y-3 md:space-y-4">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4">
@@ -362,14 +465,27 @@ export function PublicForm() {
           </div>
         )}
 
-        <button
-          type="submit"
-          disabled={submitting}
-          className="w-full py-3 px-6 rounded-xl bg-[#FF7300] hover:bg-orange-600 text-white font-semibold text-sm transition-colors shadow-lg shadow-orange-500/20 disabled:opacity-60 flex items-center justify-center gap-2 mt-2"
-        >
-          {submitting && <Loader2 size={16} className="animate-spin" />}
-          {submitting ? 'Enviando...' : 'Enviar →'}
-        </button>
+        <div className="flex gap-3 mt-2">
+          {currentStepIndex > 0 && (
+            <button
+              type="button"
+              onClick={() => goToStep(currentStepIndex - 1)}
+              disabled={submitting}
+              className="py-3 px-5 rounded-xl border border-zinc-700 text-zinc-300 hover:bg-zinc-800 font-medium text-sm transition-colors disabled:opacity-60 flex items-center gap-2"
+            >
+              <ArrowLeft size={16} />
+              Voltar
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="flex-1 py-3 px-6 rounded-xl bg-[#FF7300] hover:bg-orange-600 text-white font-semibold text-sm transition-colors shadow-lg shadow-orange-500/20 disabled:opacity-60 flex items-center justify-center gap-2"
+          >
+            {submitting && <Loader2 size={16} className="animate-spin" />}
+            {submitting ? 'Enviando...' : isLastStep ? 'Enviar →' : 'Próximo →'}
+          </button>
+        </div>
       </form>
     </Wrapper>
   );
@@ -27,7 +27,7 @@ import {
   CheckCircle2,
   ChevronDown,
 } from 'lucide-react';
-import type { LeadContext, LeadStage } from '@/hooks/useSalesAI';
+import { mapStageNameToLeadStage, type LeadContext } from '@/hooks/useSalesAI';
 import { useLeads } from '@/features/leads/hooks/useLeads';
 import type { Lead } from '@/features/leads/types';
 import { LeadStatus, ProductType } from '@/features/leads/types';
@@ -99,18 +99,6 @@ const TABS: Tab[] = [
 // HELPERS
 // ══════════════════════════════════════════════════════════════════════════
 
-function mapStageNameToLeadStage(stageName?: string): LeadStage {
-  if (!stageName) return 'QUALIFICACAO';
-  const s = stageName.toUpperCase();
-  if (s.includes('PROSPEC') || s.includes('NOVO') || s.includes('ABERTO')) return 'PROSPECCAO';
-  if (s.includes('QUALIFIC') || s.includes('CONTATO') || s.includes('TENTATIVA')) return 'QUALIFICACAO';
-  if (s.includes('APRES') || s.includes('PROPOSTA') || s.includes('DEMO')) return 'APRESENTACAO';
-  if (s.includes('NEGOC')) return 'NEGOCIACAO';
-  if (s.includes('FECHA') || s.includes('CLOSING')) return 'FECHAMENTO';
-  if (s.includes('POS') || s.includes('POST')) return 'POS_VENDA';
-  return 'QUALIFICACAO';
-}
-
 function getLastContactLabel(updatedAt: string): string {
   const diffMs = Date.now() - new Date(updatedAt).getTime();
   const days = Math.floor(diffMs / (1000 * 60 * 60 * 24));
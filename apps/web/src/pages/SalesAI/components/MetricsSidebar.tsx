@@ -16,8 +16,11 @@ import {
   Thermometer,
   Zap,
   Brain,
+  BarChart3,
 } from 'lucide-react';
 import type { LeadContext } from '@/hooks/useSalesAI';
+import { useSalesAnalytics } from '@/hooks/useSalesAI';
+import { useAuth } from '@/contexts/AuthContext';
 import { useUIStore } from '@/stores/useUIStore';
 
 export type AIProvider = 'groq' | 'gemini' | 'openai';
@@ -63,6 +66,15 @@ const STAGE_ACTIONS: Record<string, string> = {
   POS_VENDA: 'Check-in de 30 dias com o cliente',
 };
 
+const FEATURE_LABELS: Record<string, string> = {
+  chat: 'Chat',
+  insights: 'Análise DISC',
+  briefing: 'Briefing',
+  battlecard: 'Battlecard',
+  roleplay: 'Roleplay',
+  generate: 'Gerador',
+};
+
 interface MetricsSidebarProps {
   leadContext: LeadContext | null;
   provider?: AIProvider;
@@ -74,6 +86,9 @@ export function MetricsSidebar({ leadContext, provider = 'groq', onProviderChang
   const theme = useUIStore((state) => state.theme);
   const isDark = theme === 'dark';
   const [isModelMenuOpen, setIsModelMenuOpen] = useState(false);
+  const { user } = useAuth();
+  // Sem userId: a API devolve o escopo da role (próprio usuário ou equipe)
+  const { data: analytics } = useSalesAnalytics();
 
   if (!leadContext) {
     return null;
@@ -148,6 +163,57 @@ export function MetricsSidebar({ leadContext, provider = 'groq', onProviderChang
         </button>
       </div>
 
+      {/* Uso da IA (últimos 30 dias) */}
+      {analytics && (() => {
+        const own = analytics.team.find((member) => member.userId === user?.id);
+        const topFeature = analytics.metrics.ai.mostUsedFeatures[0];
+        const isTeam = analytics.team.length > 1;
+
+        return (
+          <div className={clsx('p-5 rounded-2xl border space-y-4', isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-zinc-200')}>
+            <h4 className="text-[10px] font-bold uppercase tracking-widest text-zinc-500 flex items-center gap-2">
+              <BarChart3 size={14} className="text-orange-500" /> Uso da IA · 30 dias
+            </h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <p className="text-[9px] uppercase tracking-widest text-zinc-500">Interações</p>
+                <p className={clsx('text-sm font-black', isDark ? 'text-white' : 'text-zinc-900')}>{own?.interactions ?? 0}</p>
+              </div>
+              <div>
+                <p className="text-[9px] uppercase tracking-widest text-zinc-500">Satisfação</p>
+                <p className={clsx('text-sm font-black', isDark ? 'text-white' : 'text-zinc-900')}>{own?.satisfactionRate ?? 0}%</p>
+              </div>
+              <div>
+                <p className="text-[9px] uppercase tracking-widest text-zinc-500">Tempo médio</p>
+                <p className={clsx('text-sm font-black', isDark ? 'text-white' : 'text-zinc-900')}>{((own?.avgLatencyMs ?? 0) / 1000).toFixed(1)}s</p>
+              </div>
+              <div>
+                <p className="text-[9px] uppercase tracking-widest text-zinc-500">Conversões</p>
+                <p className={clsx('text-sm font-black', isDark ? 'text-white' : 'text-zinc-900')}>{own?.convertedLeads ?? 0}</p>
+              </div>
+            </div>
+            {topFeature && (
+              <p className="text-[10px] text-zinc-500">
+                Mais usado{isTeam ? ' pela equipe' : ''}: <span className="font-bold text-orange-500">{FEATURE_LABELS[topFeature.feature] || topFeature.feature}</span> ({topFeature.count})
+              </p>
+            )}
+            {isTeam && (
+              <div className={clsx('pt-3 border-t space-y-2', isDark ? 'border-zinc-800' : 'border-zinc-100')}>
+                <p className="text-[9px] uppercase tracking-widest text-zinc-500">
+                  Equipe · {analytics.metrics.ai.totalInteractions} interações · {analytics.feedback.satisfactionRate}% satisfação
+                </p>
+                {analytics.team.slice(0, 5).map((member) => (
+                  <div key={member.userId} className="flex items-center justify-between text-[11px]">
+                    <span className={clsx('truncate', isDark ? 'text-zinc-300' : 'text-zinc-700')}>{member.name}</span>
+                    <span className="text-zinc-500 shrink-0 ml-2">{member.interactions} · {member.satisfactionRate}%</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })()}
+
       {/* Histórico de Sugestões */}
       <div className="space-y-3">
         <h4 className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Histórico de Sugestões</h4>
@@ -2,13 +2,25 @@
  * ══════════════════════════════════════════════════════════════════════════
  * 💬 CHAT VIEW - Interface de chat com IA
  * ══════════════════════════════════════════════════════════════════════════
+ *
+ * As conversas ficam salvas no backend (uma ou mais por lead): o vendedor
+ * pode retomar, renomear ou excluir sessões anteriores. A resposta chega
+ * via streaming e é persistida quando o stream termina.
  */
 
 import { useState, useRef, useEffect } from 'react';
 import { clsx } from 'clsx';
-import { Send, Sparkles } from 'lucide-react';
+import { Send, Sparkles, ThumbsUp, ThumbsDown, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
 import type { LeadContext, ChatMessage } from '@/hooks/useSalesAI';
-import { useChatAI } from '@/hooks/useSalesAI';
+import {
+  useChatStream,
+  useSubmitFeedback,
+  useAIConversations,
+  useAIConversation,
+  useRenameAIConversation,
+  useDeleteAIConversation,
+} from '@/hooks/useSalesAI';
+import { useAuth } from '@/contexts/AuthContext';
 import { useUIStore } from '@/stores/useUIStore';
 
 interface ChatViewProps {
@@ -23,17 +35,85 @@ export function ChatView({ leadContext, provider = 'groq' }: ChatViewProps) {
   const [inputMessage, setInputMessage] = useState('');
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [nextActions, setNextActions] = useState<string[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [resumeId, setResumeId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  const chatMutation = useChatAI();
+  const { user } = useAuth();
+  const stream = useChatStream();
+  const feedbackMutation = useSubmitFeedback();
+  const renameMutation = useRenameAIConversation();
+  const deleteMutation = useDeleteAIConversation();
+
+  // Sessões do lead — só as próprias podem ser continuadas
+  const { data: leadConversations = [], refetch: refetchConversations } = useAIConversations(
+    { contextType: 'LEAD', contextId: leadContext?.id },
+    !!leadContext
+  );
+  const conversations = leadConversations.filter((c) => c.user.id === user?.id);
+  const currentConversation = conversations.find((c) => c.id === conversationId);
+  const { data: resumed } = useAIConversation(resumeId);
+
+  // Trocar de lead começa uma conversa nova
+  useEffect(() => {
+    setConversationId(null);
+    setMessages([]);
+    setSuggestions([]);
+    setNextActions([]);
+    setEditingTitle(null);
+  }, [leadContext?.id]);
+
+  // Ao retomar, carrega as mensagens salvas
+  useEffect(() => {
+    if (!resumed || resumed.id !== resumeId) return;
+    setMessages(
+      resumed.messages.map((m) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        timestamp: new Date(m.createdAt),
+        messageId: m.role === 'assistant' ? m.id : undefined,
+        rating: m.rating ?? undefined,
+      }))
+    );
+    setResumeId(null);
+  }, [resumed, resumeId]);
 
   // Auto-scroll ao adicionar mensagem
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, stream.content]);
+
+  const handleSelectConversation = (id: string) => {
+    setEditingTitle(null);
+    setSuggestions([]);
+    setNextActions([]);
+    if (!id) {
+      setConversationId(null);
+      setMessages([]);
+      return;
+    }
+    setConversationId(id);
+    setResumeId(id);
+  };
+
+  const handleRename = async () => {
+    if (!conversationId || !editingTitle?.trim()) return;
+    await renameMutation.mutateAsync({ id: conversationId, title: editingTitle.trim() });
+    setEditingTitle(null);
+  };
+
+  const handleDelete = async () => {
+    if (!conversationId) return;
+    if (confirm('Excluir esta conversa? As mensagens salvas serão removidas.')) {
+      await deleteMutation.mutateAsync(conversationId);
+      handleSelectConversation('');
+    }
+  };
 
   const handleSendMessage = async () => {
-    if (!inputMessage.trim() || !leadContext) return;
+    if (!inputMessage.trim() || !leadContext || stream.isStreaming) return;
 
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
@@ -45,35 +125,57 @@ export function ChatView({ leadContext, provider = 'groq' }: ChatViewProps) {
     setMessages((prev) => [...prev, userMessage]);
     setInputMessage('');
 
-    try {
-      const response = await chatMutation.mutateAsync({
-        message: inputMessage,
-        leadContext,
-        history: messages,
-        provider,
-      });
+    const result = await stream.startStream({
+      message: userMessage.content,
+      leadContext,
+      // Conversa existente: o histórico vem do backend
+      history: conversationId ? undefined : messages,
+      provider,
+      conversationId: conversationId ?? undefined,
+    });
+
+    if (!result) return;
 
-      const assistantMessage: ChatMessage = {
+    setMessages((prev) => [
+      ...prev,
+      {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
-        content: response.response,
+        content: result.content,
         timestamp: new Date(),
-      };
+        messageId: result.messageId,
+      },
+    ]);
 
-      setMessages((prev) => [...prev, assistantMessage]);
+    if (!conversationId) {
+      setConversationId(result.conversationId);
+    }
+    refetchConversations();
 
-      // Atualizar sugestões e próximas ações
-      if (response.suggestions) {
-        setSuggestions(response.suggestions);
-      }
-      if (response.nextActions) {
-        setNextActions(response.nextActions);
-      }
-    } catch (error) {
-      console.error('Erro ao enviar mensagem:', error);
+    // Atualizar sugestões e próximas ações
+    if (result.suggestions) {
+      setSuggestions(result.suggestions);
+    }
+    if (result.nextActions) {
+      setNextActions(result.nextActions);
     }
   };
 
+  const handleFeedback = (message: ChatMessage, rating: 'helpful' | 'not_helpful') => {
+    if (!message.messageId || message.rating) return;
+
+    feedbackMutation.mutate(
+      { messageId: message.messageId, rating },
+      {
+        onSuccess: () => {
+          setMessages((prev) =>
+            prev.map((m) => (m.id === message.id ? { ...m, rating } : m))
+          );
+        },
+      }
+    );
+  };
+
   const handleSuggestionClick = (suggestion: string) => {
     setInputMessage(suggestion);
   };
@@ -88,6 +190,74 @@ export function ChatView({ leadContext, provider = 'groq' }: ChatViewProps) {
 
   return (
     <div className="flex-1 flex flex-col min-h-0">
+      {/* Conversas salvas */}
+      <div className={clsx('px-3 md:px-6 py-2 border-b flex items-center gap-2 shrink-0', isDark ? 'border-zinc-800' : 'border-zinc-200')}>
+        {editingTitle !== null ? (
+          <>
+            <input
+              autoFocus
+              value={editingTitle}
+              maxLength={120}
+              onChange={(e) => setEditingTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename();
+                if (e.key === 'Escape') setEditingTitle(null);
+              }}
+              className={clsx('flex-1 min-w-0 rounded-lg border px-3 py-1.5 text-xs outline-none focus:ring-2 focus:ring-orange-500/30', isDark ? 'bg-zinc-900 border-zinc-700 text-white' : 'bg-white border-zinc-300 text-zinc-900')}
+            />
+            <button onClick={handleRename} disabled={renameMutation.isPending} title="Salvar título" className="p-1.5 rounded-md text-green-500 hover:bg-green-500/10">
+              <Check size={14} />
+            </button>
+            <button onClick={() => setEditingTitle(null)} title="Cancelar" className="p-1.5 rounded-md text-zinc-500 hover:bg-zinc-500/10">
+              <X size={14} />
+            </button>
+          </>
+        ) : (
+          <>
+            <select
+              value={conversationId ?? ''}
+              onChange={(e) => handleSelectConversation(e.target.value)}
+              disabled={stream.isStreaming}
+              className={clsx('flex-1 min-w-0 rounded-lg border px-3 py-1.5 text-xs outline-none', isDark ? 'bg-zinc-900 border-zinc-700 text-zinc-200' : 'bg-white border-zinc-300 text-zinc-700')}
+            >
+              <option value="">Nova conversa</option>
+              {conversations.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.title || 'Sem título'} · {new Date(c.updatedAt).toLocaleDateString('pt-BR')}
+                </option>
+              ))}
+            </select>
+            {conversationId && (
+              <>
+                <button
+                  onClick={() => setEditingTitle(currentConversation?.title ?? '')}
+                  title="Renomear conversa"
+                  className="p-1.5 rounded-md text-zinc-500 hover:text-orange-500 hover:bg-orange-500/10"
+                >
+                  <Pencil size={14} />
+                </button>
+                <button
+                  onClick={handleDelete}
+                  disabled={deleteMutation.isPending || stream.isStreaming}
+                  title="Excluir conversa"
+                  className="p-1.5 rounded-md text-zinc-500 hover:text-red-500 hover:bg-red-500/10"
+                >
+                  <Trash2 size={14} />
+                </button>
+                <button
+                  onClick={() => handleSelectConversation('')}
+                  disabled={stream.isStreaming}
+                  title="Nova conversa"
+                  className="p-1.5 rounded-md text-zinc-500 hover:text-orange-500 hover:bg-orange-500/10"
+                >
+                  <Plus size={14} />
+                </button>
+              </>
+            )}
+          </>
+        )}
+      </div>
+
       {/* Chat Messages */}
       <div className="flex-1 p-3 md:p-6 space-y-4 md:space-y-6 overflow-y-auto min-h-0 custom-scrollbar">
         {messages.length === 0 ? (
@@ -139,14 +309,48 @@ export function ChatView({ leadContext, provider = 'groq' }: ChatViewProps) {
                   )}
                   <p className="text-sm leading-relaxed">{message.content}</p>
                   <div className={clsx('mt-3 flex items-center gap-2 text-[9px] uppercase font-bold tracking-widest', message.role === 'user' ? 'text-white/60' : 'text-zinc-500')}>
-                    {message.role === 'user' ? 'Você' : 'Nexus AI'} • Agora
+                    {message.role === 'user' ? 'Você' : 'Nexus AI'} •{' '}
+                    {message.timestamp.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
+                    {message.role === 'assistant' && message.messageId && (
+                      <span className="ml-auto flex items-center gap-1">
+                        <button
+                          onClick={() => handleFeedback(message, 'helpful')}
+                          disabled={!!message.rating}
+                          title="Resposta útil"
+                          className={clsx('p-1 rounded-md transition-colors', message.rating === 'helpful' ? 'text-green-500' : 'hover:text-green-500 disabled:opacity-40')}
+                        >
+                          <ThumbsUp size={12} />
+                        </button>
+                        <button
+                          onClick={() => handleFeedback(message, 'not_helpful')}
+                          disabled={!!message.rating}
+                          title="Resposta não ajudou"
+                          className={clsx('p-1 rounded-md transition-colors', message.rating === 'not_helpful' ? 'text-red-500' : 'hover:text-red-500 disabled:opacity-40')}
+                        >
+                          <ThumbsDown size={12} />
+                        </button>
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
             ))}
 
+            {/* Resposta em streaming */}
+            {stream.isStreaming && stream.content && (
+              <div className="flex justify-start">
+                <div className={clsx('max-w-[80%] p-5 rounded-3xl rounded-tl-none', isDark ? 'bg-zinc-900 border border-zinc-800 text-zinc-100' : 'bg-white border border-zinc-200 shadow-sm text-zinc-800')}>
+                  <p className="text-sm leading-relaxed whitespace-pre-wrap">{stream.content}</p>
+                </div>
+              </div>
+            )}
+
+            {stream.error && (
+              <p className="text-center text-xs text-red-500">{stream.error}</p>
+            )}
+
             {/* Loading / Typing */}
-            {chatMutation.isPending && (
+            {stream.isStreaming && !stream.content && (
               <div className="flex justify-start animate-pulse">
                 <div className={clsx('p-4 rounded-3xl rounded-tl-none flex gap-1', isDark ? 'bg-zinc-800' : 'bg-zinc-100')}>
                   <div className="w-1.5 h-1.5 bg-orange-500 rounded-full"></div>
@@ -214,11 +418,11 @@ export function ChatView({ leadContext, provider = 'groq' }: ChatViewProps) {
             }}
             placeholder="Pergunte ao copiloto..."
             className={clsx('flex-1 bg-transparent border-none focus:ring-0 px-3 md:px-4 py-3 text-sm outline-none', isDark ? 'text-white placeholder-zinc-600' : 'text-zinc-900 placeholder-zinc-400')}
-            disabled={chatMutation.isPending}
+            disabled={stream.isStreaming}
           />
           <button
             onClick={handleSendMessage}
-            disabled={!inputMessage.trim() || chatMutation.isPending}
+            disabled={!inputMessage.trim() || stream.isStreaming}
             className="p-3 bg-orange-500 text-white rounded-xl hover:bg-orange-600 transition-all active:scale-95 shadow-lg shadow-orange-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Send size={20} />
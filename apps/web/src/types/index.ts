@@ -30,6 +30,31 @@ export interface User {
   updatedAt?: string;
 }
 
+export enum Module {
+  DASHBOARD = 'DASHBOARD',
+  CLIENTS_ONE_NEXUS = 'CLIENTS_ONE_NEXUS',
+  CLIENTS_LOCADORAS = 'CLIENTS_LOCADORAS',
+  LEADS = 'LEADS',
+  FINANCE = 'FINANCE',
+  CHAT = 'CHAT',
+  CALENDAR = 'CALENDAR',
+  SALES_AI = 'SALES_AI',
+  SETTINGS = 'SETTINGS',
+  AUDIT_LOG = 'AUDIT_LOG',
+}
+
+export type PermissionAction = 'view' | 'create' | 'edit' | 'delete';
+
+/** Linha da matriz de permissões (GET /users/:id/permissions) */
+export interface ModulePermission {
+  module: Module;
+  canView: boolean;
+  canCreate: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  configured: boolean; // false = sem UserPermission, segue apenas a role
+}
+
 // ──────────────────────────────────────────────────────────────────────────
 // Client
 // ──────────────────────────────────────────────────────────────────────────
@@ -121,6 +146,8 @@ export interface ClientExtended extends Client {
   dealSummary?: string; // ✅ v2.45.1: Resumo do deal (handoff Sales → CS)
   closedAt?: string; // ✅ v2.45.1: Data de fechamento
   implementationNotes?: string; // ✅ v2.45.1: Notas de implementação
+  tags?: string[]; // Etiquetas livres
+  customFields?: Record<string, string | number>; // Campos personalizados (chave → valor)
 }
 
 // ──────────────────────────────────────────────────────────────────────────
@@ -283,6 +310,17 @@ export enum PaymentStatus {
   CANCELLED = 'CANCELLED',
 }
 
+export type ServiceInvoiceStatus = 'PENDING' | 'PROCESSING' | 'ISSUED' | 'FAILED' | 'CANCELLING' | 'CANCELLED';
+
+/** NFS-e emitida para o pagamento (resumo incluído na listagem) */
+export interface PaymentServiceInvoice {
+  id: string;
+  status: ServiceInvoiceStatus;
+  number: string | null;
+  pdfUrl: string | null;
+  lastError: string | null;
+}
+
 export interface Payment {
   id: string;
   clientId: string;
@@ -295,6 +333,9 @@ export interface Payment {
   externalId: string | null;
   gatewayId: string | null;
   gatewayData: Record<string, unknown> | null;
+  invoiceUrl?: string | null;
+  invoiceNumber?: string | null;
+  serviceInvoice?: PaymentServiceInvoice | null;
   createdAt: string;
   updatedAt: string;
   // Optional populated relation